@@ -83,7 +83,9 @@ export default defineConfig({
     build: {
       rollupOptions: {
         input: {
-          index: resolve(__dirname, 'src/main/index.ts')
+          index: resolve(__dirname, 'src/main/index.ts'),
+          // Headless `kite` command-line client (see package.json "bin")
+          cli: resolve(__dirname, 'src/cli/index.ts')
         },
         output: {
           format: 'es',
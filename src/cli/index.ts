@@ -0,0 +1,349 @@
+#!/usr/bin/env node
+/**
+ * Kite CLI - Drives a running Kite app through its remote access server
+ *
+ * Uses the REST API (typed client in shared/rest-api) for requests and the
+ * WebSocket for streaming replies. Authenticates with a device token created
+ * in Settings > Remote access, the same as the web UI.
+ */
+
+import { parseArgs } from 'node:util'
+import { createInterface } from 'node:readline/promises'
+import { createWriteStream } from 'node:fs'
+import { basename, resolve } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as WebReadableStream } from 'node:stream/web'
+
+import { createKiteApiClient, type ApiResult, type KiteApiClient } from '../shared/rest-api/client'
+import { createReplyPrinter, followConversation, type PendingToolCall, type ToolDecision } from './stream'
+
+const DEFAULT_URL = 'http://127.0.0.1:3847'
+const WORKFLOW_POLL_MS = 2000
+
+const USAGE = `Usage: kite <command> [options]
+
+Commands:
+  spaces                                  List spaces
+  conversations <spaceId>                 List conversations in a space
+  new <spaceId> [--title <title>]         Create a conversation and print its id
+  send <spaceId> <text...> [-c <convId>]  Send a message and stream the reply
+                                          (text "-" reads the message from stdin;
+                                          without --conversation a new one is created)
+  workflows <spaceId>                     List workflows in a space
+  run <spaceId> <workflowId> [--wait]     Start a workflow run
+  download <path> [-o <file>]             Download a file from a space
+  download --space <spaceId> [-o <file>]  Download the files of a space
+
+Options:
+  --url <url>        Kite server (default ${DEFAULT_URL}, or KITE_URL)
+  --token <token>    Device token (or KITE_TOKEN)
+  --approve-all      Approve every tool call without asking
+  --reject-all       Reject every tool call without asking
+  --json             Print JSON instead of text
+  -h, --help         Show this help
+
+Tool calls are prompted for on a terminal and rejected otherwise, unless
+--approve-all is given.`
+
+class CliError extends Error {
+  constructor(message: string, readonly exitCode = 1) {
+    super(message)
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      title: { type: 'string' },
+      conversation: { type: 'string', short: 'c' },
+      space: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      wait: { type: 'boolean' },
+      json: { type: 'boolean' },
+      'approve-all': { type: 'boolean' },
+      'reject-all': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+}
+
+let options: ReturnType<typeof parseCliArgs>['values'] = {}
+
+function usageError(message: string): CliError {
+  return new CliError(`${message}\n\n${USAGE}`, 2)
+}
+
+function unwrap<T>(result: ApiResult<T>): T {
+  if (!result.success) {
+    const details = result.details?.length ? `\n  ${result.details.join('\n  ')}` : ''
+    throw new CliError(`${result.error || `Request failed (HTTP ${result.status})`}${details}`)
+  }
+  return result.data as T
+}
+
+function printRows(rows: Array<Record<string, unknown>>, columns: string[]): void {
+  if (options.json) {
+    console.log(JSON.stringify(rows, null, 2))
+    return
+  }
+  for (const row of rows) {
+    console.log(columns.map(column => String(row[column] ?? '')).join('\t'))
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim()
+}
+
+// ============================================
+// Tool approvals
+// ============================================
+
+function describeToolCall(toolCall: PendingToolCall): string {
+  const input = toolCall.input && typeof toolCall.input === 'object'
+    ? (toolCall.input as Record<string, unknown>)
+    : {}
+  const detail = typeof input.command === 'string'
+    ? input.command
+    : typeof input.file_path === 'string'
+      ? input.file_path
+      : toolCall.description || JSON.stringify(toolCall.input ?? {})
+  return `${toolCall.name}: ${detail}`
+}
+
+function createApprovalHandler(
+  client: KiteApiClient,
+  spaceId: string,
+  conversationId: string,
+  interactive: boolean
+): (toolCall: PendingToolCall) => void {
+  const policy: ToolDecision | null = options['approve-all'] ? 'approve' : options['reject-all'] ? 'reject' : null
+  // Prompts run one at a time even when tool calls arrive in parallel
+  let queue = Promise.resolve()
+
+  async function decide(toolCall: PendingToolCall): Promise<ToolDecision> {
+    if (policy) return policy
+    if (!interactive) {
+      process.stderr.write(`\n[kite] Rejected ${describeToolCall(toolCall)} (no terminal; use --approve-all)\n`)
+      return 'reject'
+    }
+    const prompt = createInterface({ input: process.stdin, output: process.stderr })
+    try {
+      const answer = await prompt.question(`\n[kite] Allow ${describeToolCall(toolCall)}? [y/N] `)
+      return /^y(es)?$/i.test(answer.trim()) ? 'approve' : 'reject'
+    } finally {
+      prompt.close()
+    }
+  }
+
+  return (toolCall) => {
+    queue = queue.then(async () => {
+      let decision: ToolDecision | null = null
+      try {
+        decision = await decide(toolCall)
+        const body = { spaceId, conversationId, toolCallId: toolCall.toolCallId }
+        const result = decision === 'approve'
+          ? await client.call('approveTool', { body })
+          : await client.call('rejectTool', { body })
+        if (!result.success) {
+          process.stderr.write(`[kite] Could not ${decision} ${toolCall.name}: ${result.error}\n`)
+        }
+      } catch (error) {
+        // A dropped connection or closed prompt fails this call only; later ones still get answered
+        process.stderr.write(`[kite] Could not ${decision ?? 'answer'} ${toolCall.name}: ${formatError(error)}\n`)
+      }
+    })
+  }
+}
+
+// ============================================
+// Commands
+// ============================================
+
+async function listSpaces(client: KiteApiClient): Promise<void> {
+  const spaces = unwrap(await client.call('listSpaces'))
+  printRows(spaces, ['id', 'name', 'path'])
+}
+
+async function listConversations(client: KiteApiClient, spaceId: string): Promise<void> {
+  const conversations = unwrap(await client.call('listConversations', { params: { spaceId } }))
+  printRows(conversations, ['id', 'title', 'updatedAt'])
+}
+
+async function createConversation(client: KiteApiClient, spaceId: string): Promise<string> {
+  const conversation = unwrap(await client.call('createConversation', {
+    params: { spaceId },
+    body: { title: options.title }
+  }))
+  return conversation.id
+}
+
+async function sendMessage(
+  client: KiteApiClient,
+  baseUrl: string,
+  token: string,
+  args: string[]
+): Promise<void> {
+  const [spaceId, ...words] = args
+  if (!spaceId || words.length === 0) throw usageError('send needs a space id and a message')
+
+  // Unquoted words are one message, as in `kite send <space> fix the build`
+  const fromStdin = words.length === 1 && words[0] === '-'
+  const message = fromStdin ? await readStdin() : words.join(' ')
+  if (!message) throw new CliError('Message is empty')
+  const conversationId = options.conversation || await createConversation(client, spaceId)
+  if (!options.conversation) {
+    process.stderr.write(`[kite] Conversation ${conversationId}\n`)
+  }
+
+  // Prompts need the terminal, which stdin no longer is once the message was piped in
+  const interactive = process.stdin.isTTY === true && !fromStdin
+  const printer = createReplyPrinter(
+    chunk => process.stdout.write(chunk),
+    createApprovalHandler(client, spaceId, conversationId, interactive)
+  )
+
+  const outcome = await followConversation({
+    baseUrl,
+    token,
+    spaceId,
+    conversationId,
+    printer,
+    onReady: async () => {
+      unwrap(await client.call('sendMessage', { body: { spaceId, conversationId, message } }))
+    }
+  })
+
+  if (outcome.error) throw new CliError(outcome.error)
+  if (outcome.reason === 'stopped') throw new CliError('Stopped')
+}
+
+async function listWorkflows(client: KiteApiClient, spaceId: string): Promise<void> {
+  const workflows = unwrap(await client.call('listWorkflows', { query: { spaceId } })) as Array<Record<string, unknown>>
+  printRows(workflows, ['id', 'name', 'lastRunAt'])
+}
+
+async function runWorkflow(client: KiteApiClient, spaceId: string, workflowId: string): Promise<void> {
+  let run = unwrap(await client.call('startWorkflowRun', { params: { workflowId }, body: { spaceId } }))
+  process.stderr.write(`[kite] Run ${run.id} started in conversation ${run.conversationId}\n`)
+  if (!options.wait) {
+    if (options.json) console.log(JSON.stringify(run, null, 2))
+    else console.log(run.id)
+    return
+  }
+
+  let lastStep = -1
+  while (run.status === 'running') {
+    if (run.currentStepIndex !== lastStep) {
+      lastStep = run.currentStepIndex
+      process.stderr.write(`[kite] Step ${lastStep + 1}\n`)
+    }
+    await new Promise(done => setTimeout(done, WORKFLOW_POLL_MS))
+    run = unwrap(await client.call('getWorkflowRun', { params: { workflowId, runId: run.id }, query: { spaceId } }))
+  }
+
+  if (options.json) console.log(JSON.stringify(run, null, 2))
+  else console.log(`${run.id}\t${run.status}`)
+  if (run.status !== 'completed') {
+    throw new CliError(run.error || `Workflow run ${run.status}`)
+  }
+}
+
+function fileNameFromResponse(response: Response, fallback: string): string {
+  const disposition = response.headers.get('content-disposition') || ''
+  const match = disposition.match(/filename="([^"]+)"/)
+  return match ? basename(decodeURIComponent(match[1])) : fallback
+}
+
+async function download(client: KiteApiClient, path: string | undefined): Promise<void> {
+  const response = options.space
+    ? await client.fetch('downloadAllArtifacts', { params: { spaceId: options.space } })
+    : path
+      ? await client.fetch('downloadArtifact', { query: { path } })
+      : null
+  if (!response) throw usageError('download needs a path or --space')
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => null) as { error?: string } | null
+    throw new CliError(payload?.error || `Download failed (HTTP ${response.status})`)
+  }
+
+  const target = resolve(options.output || fileNameFromResponse(response, path ? basename(path) : 'artifacts.tar.gz'))
+  await pipeline(Readable.fromWeb(response.body as WebReadableStream), createWriteStream(target))
+  process.stderr.write(`[kite] Saved ${target}\n`)
+}
+
+// ============================================
+// Entry
+// ============================================
+
+async function main(): Promise<void> {
+  let positionals: string[]
+  try {
+    const parsed = parseCliArgs(process.argv.slice(2))
+    options = parsed.values
+    positionals = parsed.positionals
+  } catch (error) {
+    throw usageError((error as Error).message)
+  }
+
+  const [command, ...args] = positionals
+  if (options.help || !command) {
+    console.log(USAGE)
+    return
+  }
+  if (options['approve-all'] && options['reject-all']) {
+    throw usageError('--approve-all and --reject-all cannot be combined')
+  }
+
+  const baseUrl = options.url || process.env.KITE_URL || DEFAULT_URL
+  const token = options.token || process.env.KITE_TOKEN
+  if (!token) {
+    throw new CliError('A device token is required: pass --token or set KITE_TOKEN (create one in Settings > Remote access)')
+  }
+  const client = createKiteApiClient({ baseUrl, token })
+
+  switch (command) {
+    case 'spaces':
+      return listSpaces(client)
+    case 'conversations':
+      if (!args[0]) throw usageError('conversations needs a space id')
+      return listConversations(client, args[0])
+    case 'new':
+      if (!args[0]) throw usageError('new needs a space id')
+      console.log(await createConversation(client, args[0]))
+      return
+    case 'send':
+      return sendMessage(client, baseUrl, token, args)
+    case 'workflows':
+      if (!args[0]) throw usageError('workflows needs a space id')
+      return listWorkflows(client, args[0])
+    case 'run':
+      if (!args[0] || !args[1]) throw usageError('run needs a space id and a workflow id')
+      return runWorkflow(client, args[0], args[1])
+    case 'download':
+      return download(client, args[0])
+    default:
+      throw usageError(`Unknown command: ${command}`)
+  }
+}
+
+function formatError(error: unknown): string {
+  const err = error as Error & { cause?: { message?: string } }
+  // fetch() reports connection failures as "fetch failed" with the reason in `cause`
+  return err.cause?.message ? `${err.message}: ${err.cause.message}` : err.message || String(error)
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`kite: ${formatError(error)}\n`)
+  process.exitCode = error instanceof CliError ? error.exitCode : 1
+})
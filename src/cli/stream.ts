@@ -0,0 +1,167 @@
+/**
+ * Reply Streaming - Follows a conversation over the WebSocket
+ *
+ * Signs in with the same token as the REST calls, subscribes to the
+ * conversation and writes the agent's text to stdout as it streams. Tool calls
+ * that need approval are decided by a callback, so the caller chooses between
+ * prompting and a fixed policy.
+ */
+
+import WebSocket from 'ws'
+
+export type ToolDecision = 'approve' | 'reject'
+
+export interface PendingToolCall {
+  toolCallId: string
+  name: string
+  description?: string
+  input?: unknown
+}
+
+export interface ReplyOutcome {
+  reason: string
+  error?: string
+}
+
+export interface ReplyPrinter {
+  /** Handle one agent event; returns the outcome once the run has finished */
+  handle(channel: string, data: Record<string, unknown>): ReplyOutcome | null
+}
+
+/**
+ * Turn agent events into stdout text and approval requests
+ */
+export function createReplyPrinter(
+  write: (text: string) => void,
+  onApproval: (toolCall: PendingToolCall) => void
+): ReplyPrinter {
+  let streamed = false
+  let atLineStart = true
+  let lastError: string | undefined
+
+  function emit(text: string): void {
+    if (!text) return
+    write(text)
+    atLineStart = text.endsWith('\n')
+  }
+
+  return {
+    handle(channel, data) {
+      switch (channel) {
+        case 'agent:message': {
+          if (data.isNewTextBlock && !atLineStart) {
+            emit('\n')
+          }
+          if (typeof data.delta === 'string') {
+            streamed = true
+            emit(data.delta)
+          } else if (data.isComplete && !streamed && typeof data.content === 'string') {
+            // Replies that skip streaming arrive in one piece
+            streamed = true
+            emit(data.content)
+          }
+          return null
+        }
+        case 'agent:tool-call': {
+          if (data.requiresApproval === true && data.status === 'waiting_approval') {
+            onApproval({
+              toolCallId: String(data.toolCallId ?? data.id),
+              name: String(data.name ?? 'tool'),
+              description: typeof data.description === 'string' ? data.description : undefined,
+              input: data.input
+            })
+          }
+          return null
+        }
+        case 'agent:error': {
+          lastError = typeof data.error === 'string' ? data.error : 'Agent error'
+          return null
+        }
+        case 'agent:complete': {
+          if (!streamed && typeof data.finalContent === 'string') {
+            emit(data.finalContent)
+          }
+          if (!atLineStart) emit('\n')
+          const reason = typeof data.reason === 'string' ? data.reason : 'completed'
+          return { reason, error: reason === 'error' ? lastError ?? 'Agent run failed' : undefined }
+        }
+        default:
+          return null
+      }
+    }
+  }
+}
+
+export interface FollowConversationOptions {
+  baseUrl: string
+  token: string
+  spaceId: string
+  conversationId: string
+  printer: ReplyPrinter
+  /** Called once the subscription is live, to start the run */
+  onReady: () => Promise<void>
+}
+
+function toWebSocketUrl(baseUrl: string): string {
+  const url = new URL('/ws', baseUrl)
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+  return url.toString()
+}
+
+/**
+ * Stream a conversation until the agent run started by `onReady` finishes
+ */
+export function followConversation(options: FollowConversationOptions): Promise<ReplyOutcome> {
+  const { spaceId, conversationId, printer } = options
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(toWebSocketUrl(options.baseUrl))
+    let settled = false
+
+    function finish(outcome: ReplyOutcome | Error): void {
+      if (settled) return
+      settled = true
+      socket.close()
+      if (outcome instanceof Error) reject(outcome)
+      else resolve(outcome)
+    }
+
+    socket.on('open', () => {
+      socket.send(JSON.stringify({ type: 'auth', payload: { token: options.token } }))
+    })
+
+    socket.on('message', (raw: WebSocket.RawData) => {
+      let message: { type?: string; channel?: string; data?: Record<string, unknown>; error?: string }
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        return
+      }
+
+      switch (message.type) {
+        case 'auth:success':
+          socket.send(JSON.stringify({ type: 'subscribe', payload: { spaceId, conversationId } }))
+          options.onReady().catch((error: unknown) => finish(error as Error))
+          break
+        case 'auth:failed':
+        case 'auth:locked':
+        case 'auth:revoked':
+          finish(new Error(message.error || 'WebSocket sign-in failed'))
+          break
+        case 'error':
+          finish(new Error(message.error || 'WebSocket error'))
+          break
+        case 'event': {
+          const data = message.data ?? {}
+          if (data.spaceId !== spaceId || data.conversationId !== conversationId) break
+          const outcome = printer.handle(message.channel ?? '', data)
+          if (outcome) finish(outcome)
+          break
+        }
+      }
+    })
+
+    socket.on('error', (error: Error) => finish(error))
+    socket.on('close', () => finish(new Error('Connection to Kite closed before the reply finished')))
+  })
+}
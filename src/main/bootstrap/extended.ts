@@ -28,9 +28,15 @@ import { registerAIBrowserHandlers, cleanupAIBrowserHandlers } from '../ipc/ai-b
 import { registerOverlayHandlers, cleanupOverlayHandlers } from '../ipc/overlay'
 import { initializeSearchHandlers, cleanupSearchHandlers } from '../ipc/search'
 import { registerPerfHandlers } from '../ipc/perf'
+import { registerObservabilityHandlers } from '../ipc/observability'
 import { registerGitBashHandlers, initializeGitBashOnStartup } from '../ipc/git-bash'
 import { registerWorkflowHandlers } from '../ipc/workflow'
+import { initWorkflowTriggers, cleanupWorkflowTriggers } from '../services/workflow-trigger.service'
 import { initSkillAgentWatchers, cleanupSkillAgentWatchers } from '../services/skills-agents-watch.service'
+import {
+  initProviderHealthBroadcast,
+  cleanupProviderHealthBroadcast
+} from '../services/agent/provider-health.service'
 
 /**
  * Initialize extended services after window is visible
@@ -57,6 +63,12 @@ export function initializeExtendedServices(mainWindow: BrowserWindow): void {
   // Workflows: Space-level workflow management
   registerWorkflowHandlers(mainWindow)
 
+  // Workflow triggers: schedules, file changes and app start
+  initWorkflowTriggers()
+
+  // Provider health: relay OpenAI-compat router circuit breaker state to the UI
+  initProviderHealthBroadcast()
+
   // Browser: Embedded BrowserView for Content Canvas
   // Note: BrowserView is created lazily when Canvas is opened
   registerBrowserHandlers(mainWindow)
@@ -75,6 +87,9 @@ export function initializeExtendedServices(mainWindow: BrowserWindow): void {
   // Performance: Developer monitoring tools
   registerPerfHandlers(mainWindow)
 
+  // Observability: Local run explorer
+  registerObservabilityHandlers()
+
   // GitBash: Windows Git Bash detection and setup
   registerGitBashHandlers(mainWindow)
 
@@ -114,5 +129,11 @@ export function cleanupExtendedServices(): void {
   // Skills/Agents: Cleanup watchers
   cleanupSkillAgentWatchers()
 
+  // Workflow triggers: Stop schedule timer and file watchers
+  cleanupWorkflowTriggers()
+
+  // Provider health: Stop relaying circuit breaker state
+  cleanupProviderHealthBroadcast()
+
   console.log('[Bootstrap] Extended services cleaned up')
 }
@@ -16,9 +16,10 @@ import {
   getSessionState as agentGetSessionState,
   testMcpConnections as agentTestMcpConnections
 } from '../services/agent'
-import type { AskUserQuestionAnswerInput, ChatMode } from '../services/agent'
+import type { AskUserQuestionAnswerInput, ChatMode, SendMessageOptions, ToolApprovalOptions } from '../services/agent'
 import type { InvocationContext } from '../../shared/resource-access'
 import type { LocaleCode } from '../../shared/i18n/locale'
+import { normalizeCommandRuleRequest } from '../../shared/types/command-rules'
 import { buildSessionKey } from '../../shared/session-key'
 import { executeIdempotentOperation } from '../services/agent/op-id.service'
 
@@ -152,7 +153,8 @@ export async function sendMessage(
  */
 export async function sendWorkflowStepMessage(
   mainWindow: BrowserWindow | null,
-  request: SendMessageRequest
+  request: SendMessageRequest,
+  options: SendMessageOptions = {}
 ): Promise<ControllerResponse> {
   try {
     const execution = await executeIdempotentOperation({
@@ -164,7 +166,7 @@ export async function sendWorkflowStepMessage(
         const normalizedRequest = normalizedModelOverride
           ? { ...request, modelOverride: normalizedModelOverride, invocationContext: 'workflow-step' as InvocationContext }
           : { ...request, invocationContext: 'workflow-step' as InvocationContext }
-        const sendResult = await agentSendMessage(mainWindow, normalizedRequest)
+        const sendResult = await agentSendMessage(mainWindow, normalizedRequest, options)
         return {
           accepted: true as const,
           ...(sendResult?.diagnosticCode
@@ -236,7 +238,8 @@ export async function stopGeneration(
 export async function approveTool(
   spaceId: string,
   conversationId: string,
-  opId?: string
+  opId?: string,
+  options: ToolApprovalOptions = {}
 ): Promise<ControllerResponse> {
   try {
     const execution = await executeIdempotentOperation({
@@ -244,8 +247,11 @@ export async function approveTool(
       operation: 'approve',
       opId,
       execute: () => {
-        agentHandleToolApproval(spaceId, conversationId, true)
-        return { approved: true as const }
+        const toolCallId = agentHandleToolApproval(spaceId, conversationId, true, {
+          toolCallId: typeof options.toolCallId === 'string' ? options.toolCallId : undefined,
+          remember: normalizeCommandRuleRequest(options.remember)
+        })
+        return { approved: true as const, toolCallId }
       }
     })
     return withReplayMeta(execution)
@@ -260,7 +266,8 @@ export async function approveTool(
 export async function rejectTool(
   spaceId: string,
   conversationId: string,
-  opId?: string
+  opId?: string,
+  options: ToolApprovalOptions = {}
 ): Promise<ControllerResponse> {
   try {
     const execution = await executeIdempotentOperation({
@@ -268,8 +275,11 @@ export async function rejectTool(
       operation: 'reject',
       opId,
       execute: () => {
-        agentHandleToolApproval(spaceId, conversationId, false)
-        return { rejected: true as const }
+        const toolCallId = agentHandleToolApproval(spaceId, conversationId, false, {
+          toolCallId: typeof options.toolCallId === 'string' ? options.toolCallId : undefined,
+          remember: normalizeCommandRuleRequest(options.remember)
+        })
+        return { rejected: true as const, toolCallId }
       }
     })
     return withReplayMeta(execution)
@@ -2,7 +2,20 @@
  * Change Set Controller
  */
 
-import { acceptChangeSet, listChangeSets, rollbackChangeSet } from '../services/change-set.service'
+import {
+  acceptChangeSet,
+  getChangeSet,
+  listChangeHistory,
+  listChangeSets,
+  readChangeSnapshot,
+  rollbackChangeSet,
+  rollbackToMessage
+} from '../services/change-set.service'
+import {
+  getChangeHistoryStats,
+  pruneChangeHistory,
+  type PruneChangeHistoryOptions
+} from '../services/change-history.service'
 
 export function listChangeSetsForConversation(spaceId: string, conversationId: string) {
   try {
@@ -14,6 +27,19 @@ export function listChangeSetsForConversation(spaceId: string, conversationId: s
   }
 }
 
+export function getChangeSetForConversation(spaceId: string, conversationId: string, changeSetId: string) {
+  try {
+    const data = getChangeSet(spaceId, conversationId, changeSetId)
+    if (!data) {
+      return { success: false, error: `Change set not found: ${changeSetId}` }
+    }
+    return { success: true, data }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
 export function acceptChangeSetForConversation(params: {
   spaceId: string
   conversationId: string
@@ -47,3 +73,53 @@ export function rollbackChangeSetForConversation(params: {
     return { success: false, error: err.message }
   }
 }
+
+export function rollbackToMessageForConversation(params: {
+  spaceId: string
+  conversationId: string
+  messageId: string
+  force?: boolean
+}) {
+  try {
+    const data = rollbackToMessage(params.spaceId, params.conversationId, params.messageId, {
+      force: params.force
+    })
+    return { success: true, data }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+export function getChangeHistoryForSpace(spaceId: string) {
+  try {
+    const data = { changeSets: listChangeHistory(spaceId), stats: getChangeHistoryStats(spaceId) }
+    return { success: true, data }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+export function readChangeSnapshotForSpace(spaceId: string, hash: string) {
+  try {
+    const data = readChangeSnapshot(spaceId, hash)
+    if (!data) {
+      return { success: false, error: `Snapshot not found: ${hash}` }
+    }
+    return { success: true, data: data.toString('base64') }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+export function pruneChangeHistoryForSpace(spaceId: string, options: PruneChangeHistoryOptions) {
+  try {
+    const data = pruneChangeHistory(spaceId, options)
+    return { success: true, data }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
@@ -8,7 +8,21 @@ import {
   saveConfig as serviceSaveConfig,
   validateApiConnection as serviceValidateApiConnection
 } from '../services/config.service'
+import {
+  listCommandRules as serviceListCommandRules,
+  removeCommandRule as serviceRemoveCommandRule
+} from '../services/command-rules.service'
+import {
+  clearHookLog as serviceClearHookLog,
+  listHookInvocations
+} from '../services/hook-log.service'
+import { testHook as serviceTestHook } from '../services/hook-tester.service'
+import { getAllHooks } from '../services/hooks.service'
+import { getSpace } from '../services/space.service'
 import type { ProviderProtocol } from '../../shared/types/ai-profile'
+import type { HookDefinition } from '../../shared/types/claude-code'
+import type { CommandRuleScope } from '../../shared/types/command-rules'
+import { normalizeHookTestRequest } from '../../shared/types/hook-log'
 
 export interface ControllerResponse<T = unknown> {
   success: boolean
@@ -16,13 +30,54 @@ export interface ControllerResponse<T = unknown> {
   error?: string
 }
 
+type KiteConfig = ReturnType<typeof serviceGetConfig>
+
+const REDACTED = '********'
+
+function redactSecret(value: string | undefined): string | undefined {
+  return value ? REDACTED : value
+}
+
+function redactValues(values: Record<string, string> | undefined): Record<string, string> | undefined {
+  return values && Object.fromEntries(Object.keys(values).map(name => [name, REDACTED]))
+}
+
+/**
+ * Copy of the config with API keys, tokens and credential headers replaced,
+ * for remote devices that may view settings but not change them
+ */
+function redactConfigSecrets(config: KiteConfig): KiteConfig {
+  const redacted = structuredClone(config)
+  redacted.api.apiKey = redactSecret(redacted.api.apiKey) ?? ''
+  for (const profile of redacted.ai.profiles) {
+    profile.apiKey = redactSecret(profile.apiKey) ?? ''
+  }
+  redacted.remoteAccess.fixedToken = redactSecret(redacted.remoteAccess.fixedToken)
+  if (redacted.observability) {
+    redacted.observability.langfuse.secretKey = redactSecret(redacted.observability.langfuse.secretKey) ?? ''
+    redacted.observability.otlp.headers = redactValues(redacted.observability.otlp.headers) ?? {}
+  }
+  for (const server of Object.values(redacted.mcpServers)) {
+    if ('env' in server) server.env = redactValues(server.env)
+    if ('headers' in server) server.headers = redactValues(server.headers)
+  }
+  const hooks: Record<string, HookDefinition[] | undefined> = { ...redacted.claudeCode?.hooks }
+  for (const definitions of Object.values(hooks)) {
+    for (const hook of (definitions ?? []).flatMap(definition => definition.hooks)) {
+      if (hook.type === 'http') hook.headers = redactValues(hook.headers)
+    }
+  }
+  return redacted
+}
+
 /**
  * Get current configuration
+ * @param options.redactSecrets - Replace API keys and credentials (remote devices below admin)
  */
-export function getConfig(): ControllerResponse {
+export function getConfig(options: { redactSecrets?: boolean } = {}): ControllerResponse {
   try {
     const config = serviceGetConfig()
-    return { success: true, data: config }
+    return { success: true, data: options.redactSecrets ? redactConfigSecrets(config) : config }
   } catch (error: unknown) {
     const err = error as Error
     return { success: false, error: err.message }
@@ -64,3 +119,97 @@ export async function validateApi(
     return { success: false, error: err.message }
   }
 }
+
+function resolveSpaceWorkDir(spaceId?: string): string | undefined {
+  if (!spaceId) return undefined
+  const space = getSpace(spaceId)
+  if (!space?.path) throw new Error(`Space not found: ${spaceId}`)
+  return space.path
+}
+
+/**
+ * List remembered Bash command rules (global, plus the space's own when given)
+ */
+export function listCommandRules(spaceId?: string): ControllerResponse {
+  try {
+    return { success: true, data: serviceListCommandRules(resolveSpaceWorkDir(spaceId)) }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+/**
+ * Revoke a remembered Bash command rule
+ */
+export function removeCommandRule(
+  scope: CommandRuleScope,
+  ruleId: string,
+  spaceId?: string
+): ControllerResponse {
+  try {
+    if (scope === 'space' && !spaceId) {
+      return { success: false, error: 'spaceId is required for space rules' }
+    }
+    const removed = serviceRemoveCommandRule(scope, ruleId, resolveSpaceWorkDir(spaceId))
+    if (!removed) {
+      return { success: false, error: `Command rule not found: ${ruleId}` }
+    }
+    return { success: true, data: { removed: true } }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+/**
+ * Hooks that apply in a space (all sources merged), for picking one to test
+ */
+export function listHooks(spaceId: string): ControllerResponse {
+  try {
+    return { success: true, data: getAllHooks(resolveSpaceWorkDir(spaceId)).merged || {} }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+/**
+ * Recent hook invocations in a space, newest first
+ */
+export function getHookLog(spaceId: string): ControllerResponse {
+  try {
+    resolveSpaceWorkDir(spaceId)
+    return { success: true, data: listHookInvocations(spaceId) }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+export function clearHookLog(spaceId: string): ControllerResponse {
+  try {
+    serviceClearHookLog(spaceId)
+    return { success: true, data: { cleared: true } }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+/**
+ * Dry-run a hook against a sample event payload (no agent turn)
+ */
+export async function testHook(spaceId: string, request: unknown): Promise<ControllerResponse> {
+  try {
+    const normalized = normalizeHookTestRequest(request)
+    if (!normalized) {
+      return { success: false, error: 'Invalid hook test request' }
+    }
+    const workDir = resolveSpaceWorkDir(spaceId)!
+    return { success: true, data: await serviceTestHook(spaceId, workDir, normalized) }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
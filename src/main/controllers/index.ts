@@ -7,3 +7,4 @@ export * as changeSetController from './change-set.controller'
 export * as spaceController from './space.controller'
 export * as conversationController from './conversation.controller'
 export * as configController from './config.controller'
+export * as observabilityController from './observability.controller'
@@ -0,0 +1,57 @@
+/**
+ * Observability Controller - Local run explorer
+ * Used by both IPC handlers and HTTP routes
+ */
+
+import {
+  clearRunTraces,
+  getRunTrace as serviceGetRunTrace,
+  listRunModels,
+  listRunTraces
+} from '../services/observability'
+import { normalizeObservabilityRunQuery } from '../../shared/types/observability'
+import type { ControllerResponse } from './config.controller'
+
+/**
+ * Stored runs matching the query, plus the models seen (for the filter)
+ */
+export function listRuns(query: unknown): ControllerResponse {
+  try {
+    return {
+      success: true,
+      data: {
+        runs: listRunTraces(normalizeObservabilityRunQuery(query)),
+        models: listRunModels()
+      }
+    }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+/**
+ * One run with its phase and tool timings
+ */
+export function getRun(runId: string): ControllerResponse {
+  try {
+    const trace = serviceGetRunTrace(runId)
+    if (!trace) {
+      return { success: false, error: `Run not found: ${runId}` }
+    }
+    return { success: true, data: trace }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
+
+export function clearRuns(): ControllerResponse {
+  try {
+    clearRunTraces()
+    return { success: true, data: { cleared: true } }
+  } catch (error: unknown) {
+    const err = error as Error
+    return { success: false, error: err.message }
+  }
+}
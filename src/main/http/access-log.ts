@@ -0,0 +1,42 @@
+/**
+ * Access Log Middleware - Records remote logins and API calls
+ *
+ * Mounted on /api ahead of the login endpoint and authMiddleware, so rejected
+ * and throttled requests are logged too. The token name comes from the
+ * credential authMiddleware (or the login endpoint) leaves in res.locals.
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { getClientIp } from './login-guard'
+import { noteRemoteSignIn, recordRemoteAccess } from '../services/remote-access-log.service'
+import type { RemoteCredential } from './auth'
+
+// Polled by clients and carries nothing sensitive
+const UNLOGGED_ROUTES = new Set(['/api/remote/status'])
+
+export function accessLogMiddleware(req: Request, res: Response, next: NextFunction): void {
+  // Mounted under /api, so req.path has the prefix stripped; never log the query string
+  const route = `${req.baseUrl}${req.path}`
+  if (UNLOGGED_ROUTES.has(route)) {
+    return next()
+  }
+
+  res.on('finish', () => {
+    const credential = res.locals.remoteCredential as RemoteCredential | undefined
+    const ip = getClientIp(req)
+    const userAgent = req.get('user-agent') || ''
+    recordRemoteAccess({
+      kind: route === '/api/remote/login' ? 'login' : 'api',
+      ip,
+      userAgent,
+      method: req.method,
+      route,
+      status: res.statusCode,
+      tokenName: credential?.name
+    })
+    if (credential && res.statusCode < 400) {
+      noteRemoteSignIn({ tokenId: credential.tokenId, tokenName: credential.name, ip, userAgent })
+    }
+  })
+  next()
+}
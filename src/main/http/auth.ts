@@ -1,69 +1,135 @@
 /**
  * Authentication Middleware - Validates remote access tokens
+ *
+ * Every device signs in with its own token (see remote-token.service), and
+ * each API route and WebSocket event requires a minimum scope. An optional
+ * fixed token from env or config (a long random secret) is accepted for
+ * scripted access, with read scope unless configured otherwise.
  */
 
 import { Request, Response, NextFunction } from 'express'
 import { getConfig } from '../services/config.service'
+import { checkIpAllowed, checkLoginAllowed, formatRetryAfter, getClientIp, recordLoginFailure, type LoginGuardResult } from './login-guard'
+import { isRemoteTokenActive, verifyRemoteToken } from '../services/remote-token.service'
+import { hasRemoteScope, isRemoteTokenScope, type RemoteTokenScope } from '../../shared/types/remote-access'
 
-// Store active tokens (in memory, reset on restart)
-let accessToken: string | null = null
+const FIXED_TOKEN_ID = 'fixed'
+// Same strength as a generated device token secret
+const FIXED_TOKEN_MIN_LENGTH = 32
+
+/**
+ * Who is making a remote request
+ */
+export interface RemoteCredential {
+  tokenId: string
+  name: string
+  scope: RemoteTokenScope
+}
+
+// Non-GET routes that operators may call: chatting, approvals and workflow runs.
+// Every other non-GET route changes config, spaces or resources and needs admin.
+const OPERATOR_ROUTES: RegExp[] = [
+  /^\/api\/agent\/(message|guide-message|mode|stop|warm|approve|reject|answer-question)$/,
+  /^\/api\/workflow\/step-message$/,
+  /^\/api\/spaces\/[^/]+\/conversations(\/.*)?$/,
+  /^\/api\/workflows\/[^/]+\/runs(\/.*)?$/,
+  /^\/api\/workflows\/missed-triggers\/[^/]+\/run$/
+]
+
+// GET routes read-only devices may call: viewing spaces, conversations and artifacts.
+// /api/config is included so the web UI can start; secrets are redacted below admin.
+// Other GETs (toolkit, skills, workflows...) serve operators and need that scope.
+const READ_ROUTES: RegExp[] = [
+  /^\/api\/openapi\.json$/,
+  /^\/api\/config$/,
+  /^\/api\/spaces(\/[^/]+)?$/,
+  /^\/api\/spaces\/[^/]+\/conversations(\/[^/]+(\/change-sets(\/[^/]+)?)?)?$/,
+  /^\/api\/spaces\/[^/]+\/artifacts(\/.*)?$/,
+  /^\/api\/artifacts\/download$/,
+  /^\/api\/agent\/(sessions|generating\/[^/]+|session\/[^/]+)$/
+]
+
+// POST routes that only read (query bodies too large or structured for a query string)
+const READ_ONLY_POST_ROUTES: RegExp[] = [
+  /^\/api\/search(\/semantic|\/cancel)?$/,
+  /^\/api\/workflows\/import\/preview$/
+]
+
+// Routes that need admin whatever the method: settings, hooks, command rules,
+// traces and file history can expose secrets or other spaces' contents
+const ADMIN_ROUTES: RegExp[] = [
+  /^\/api\/internal\//,
+  /^\/api\/config\/.+/,
+  /^\/api\/observability\//,
+  /^\/api\/spaces\/[^/]+\/(hooks|change-history)(\/.*)?$/
+]
 
 function normalizeFixedAccessToken(value: unknown): string | null {
   if (typeof value !== 'string') return null
   const token = value.trim()
-  if (!/^\d{6}$/.test(token)) return null
+  if (token.length < FIXED_TOKEN_MIN_LENGTH) return null
   return token
 }
 
+function getFixedAccessToken(): { token: string; scope: RemoteTokenScope } | null {
+  const remoteAccess = getConfig().remoteAccess as
+    { fixedToken?: string; fixedTokenScope?: string } | undefined
+  const token = normalizeFixedAccessToken(process.env.KITE_REMOTE_ACCESS_TOKEN) ||
+    normalizeFixedAccessToken(remoteAccess?.fixedToken)
+  if (!token) return null
+
+  const scope = process.env.KITE_REMOTE_ACCESS_TOKEN_SCOPE || remoteAccess?.fixedTokenScope
+  return { token, scope: isRemoteTokenScope(scope) ? scope : 'read' }
+}
+
 /**
- * Generate a new access token
+ * Minimum scope for an API request (path includes the /api prefix)
  */
-export function generateAccessToken(): string {
-  const envToken = normalizeFixedAccessToken(process.env.KITE_REMOTE_ACCESS_TOKEN)
-  if (envToken) {
-    accessToken = envToken
-    console.log('[Auth] Using fixed access token from env')
-    return envToken
+export function getRequiredScope(method: string, path: string): RemoteTokenScope {
+  if (ADMIN_ROUTES.some(pattern => pattern.test(path))) return 'admin'
+  const upperMethod = method.toUpperCase()
+  if (upperMethod === 'GET' || upperMethod === 'HEAD' || upperMethod === 'OPTIONS') {
+    return READ_ROUTES.some(pattern => pattern.test(path)) ? 'read' : 'operator'
   }
+  if (READ_ONLY_POST_ROUTES.some(pattern => pattern.test(path))) return 'read'
+  if (OPERATOR_ROUTES.some(pattern => pattern.test(path))) return 'operator'
+  return 'admin'
+}
 
-  const configToken = normalizeFixedAccessToken(
-    (getConfig().remoteAccess as { fixedToken?: string } | undefined)?.fixedToken
-  )
-  if (configToken) {
-    accessToken = configToken
-    console.log('[Auth] Using fixed access token from config')
-    return configToken
+/**
+ * Resolve a presented token to a credential, or null if it is not valid
+ */
+export function resolveCredential(token: string): RemoteCredential | null {
+  if (typeof token !== 'string' || !token) return null
+
+  const fixedToken = getFixedAccessToken()
+  if (fixedToken && token === fixedToken.token) {
+    return { tokenId: FIXED_TOKEN_ID, name: 'Fixed token', scope: fixedToken.scope }
   }
 
-  // Generate a simple 6-digit PIN for easy mobile entry
-  const pin = Math.floor(100000 + Math.random() * 900000).toString()
-  accessToken = pin
-  // Don't log the actual token for security - it's displayed in the UI
-  console.log('[Auth] New access token generated')
-  return pin
+  const deviceToken = verifyRemoteToken(token)
+  if (!deviceToken) return null
+  return { tokenId: deviceToken.id, name: deviceToken.name, scope: deviceToken.scope }
 }
 
 /**
- * Get current access token
+ * Whether a credential resolved earlier is still valid (not revoked or expired)
  */
-export function getAccessToken(): string | null {
-  return accessToken
+export function isCredentialActive(credential: RemoteCredential): boolean {
+  if (credential.tokenId === FIXED_TOKEN_ID) return getFixedAccessToken() !== null
+  return isRemoteTokenActive(credential.tokenId)
 }
 
-/**
- * Clear access token (disable remote access)
- */
-export function clearAccessToken(): void {
-  accessToken = null
-  console.log('[Auth] Access token cleared')
+function rejectLockedOut(res: Response, guard: LoginGuardResult): void {
+  res.setHeader('Retry-After', String(Math.ceil(guard.retryAfterMs / 1000)))
+  res.status(429).json({ success: false, error: formatRetryAfter(guard.retryAfterMs) })
 }
 
 /**
  * Validate a token
  */
 export function validateToken(token: string): boolean {
-  if (!accessToken) return false
-  return token === accessToken
+  return resolveCredential(token) !== null
 }
 
 /**
@@ -121,21 +187,47 @@ export function authMiddleware(
     return
   }
 
-  const isValid = validateToken(token)
-  // Don't log the expected token for security
-  console.log(`[Auth] Token validation: ${isValid ? 'valid' : 'invalid'}`)
+  // Bearer tokens can be guessed as easily as logins, so they share the throttle
+  const ip = getClientIp(req)
+  const ipGuard = checkIpAllowed(ip)
+  if (!ipGuard.allowed) {
+    rejectLockedOut(res, ipGuard)
+    return
+  }
 
-  if (!isValid) {
+  const credential = resolveCredential(token)
+  // Don't log the expected token for security
+  console.log(`[Auth] Token validation: ${credential ? `valid (${credential.scope})` : 'invalid'}`)
+
+  if (!credential) {
+    // The global lockout only turns away bad tokens, never a paired device
+    const guard = checkLoginAllowed(ip)
+    if (!guard.allowed) {
+      rejectLockedOut(res, guard)
+      return
+    }
+    recordLoginFailure(ip)
     res.status(401).json({ success: false, error: 'Invalid token' })
     return
   }
 
+  // Mounted under /api, so req.path has the prefix stripped
+  const required = getRequiredScope(req.method, `${req.baseUrl}${req.path}`)
+  if (!hasRemoteScope(credential.scope, required)) {
+    res.status(403).json({
+      success: false,
+      error: `This device has ${credential.scope} access; ${required} access is required`
+    })
+    return
+  }
+
+  res.locals.remoteCredential = credential
   next()
 }
 
 /**
- * WebSocket authentication (called from upgrade handler)
+ * WebSocket authentication (called from the `auth` event)
  */
-export function authenticateWebSocket(token: string): boolean {
-  return validateToken(token)
+export function authenticateWebSocket(token: string): RemoteCredential | null {
+  return resolveCredential(token)
 }
@@ -0,0 +1,115 @@
+/**
+ * Event Replay - Bounded per-session buffer of agent events for WebSocket clients
+ *
+ * Agent events carry a `(runEpoch, seq)` cursor from the runtime journal;
+ * within a session, cursors order events by run and then by position in the
+ * run. A client that reconnects subscribes with the last cursor it saw and gets
+ * every buffered event after it. When the events it missed are no longer all
+ * buffered (evicted, or emitted before this process started), the client is
+ * told to refetch the conversation instead.
+ */
+
+export interface EventCursor {
+  runEpoch: number
+  seq: number
+}
+
+export interface BufferedEvent extends EventCursor {
+  channel: string
+  data: Record<string, unknown>
+}
+
+export type ReplayResult =
+  | { kind: 'events'; events: BufferedEvent[] }
+  | { kind: 'resync'; latest: EventCursor | null }
+
+const MAX_EVENTS_PER_SESSION = 1000
+const MAX_BUFFERED_SESSIONS = 20
+
+interface SessionBuffer {
+  events: BufferedEvent[]
+  /** Newest cursor known to be missing from `events` */
+  floor: EventCursor
+}
+
+// Insertion order doubles as LRU order
+const buffers = new Map<string, SessionBuffer>()
+
+export function compareCursors(a: EventCursor, b: EventCursor): number {
+  return a.runEpoch !== b.runEpoch ? a.runEpoch - b.runEpoch : a.seq - b.seq
+}
+
+function maxCursor(a: EventCursor, b: EventCursor): EventCursor {
+  return compareCursors(a, b) >= 0 ? a : b
+}
+
+/**
+ * Cursor carried by an event payload, if it has one
+ */
+export function getEventCursor(data: Record<string, unknown>): EventCursor | null {
+  return parseEventCursor({ runEpoch: data.runEpoch, seq: data.seq })
+}
+
+/**
+ * Validate a client-supplied cursor
+ */
+export function parseEventCursor(value: unknown): EventCursor | null {
+  if (!value || typeof value !== 'object') return null
+  const { runEpoch, seq } = value as Record<string, unknown>
+  if (typeof runEpoch !== 'number' || typeof seq !== 'number') return null
+  if (!Number.isInteger(runEpoch) || !Number.isInteger(seq) || runEpoch < 0 || seq < 0) return null
+  return { runEpoch, seq }
+}
+
+/**
+ * Keep an event for replay; events without a cursor are live-only
+ */
+export function bufferSessionEvent(sessionKey: string, channel: string, data: Record<string, unknown>): void {
+  const cursor = getEventCursor(data)
+  if (!cursor) return
+
+  let buffer = buffers.get(sessionKey)
+  if (buffer) {
+    buffers.delete(sessionKey)
+  } else {
+    // Anything before the first event seen by this process may have been missed
+    buffer = { events: [], floor: { runEpoch: cursor.runEpoch, seq: cursor.seq - 1 } }
+    if (buffers.size >= MAX_BUFFERED_SESSIONS) {
+      const oldest = buffers.keys().next().value
+      if (oldest !== undefined) buffers.delete(oldest)
+    }
+  }
+  buffers.set(sessionKey, buffer)
+
+  buffer.events.push({ ...cursor, channel, data })
+  if (buffer.events.length > MAX_EVENTS_PER_SESSION) {
+    const evicted = buffer.events.shift()!
+    buffer.floor = maxCursor(buffer.floor, evicted)
+  }
+}
+
+/**
+ * Events after `since`, or a resync when some of them are no longer buffered
+ */
+export function getEventsSince(sessionKey: string, since: EventCursor): ReplayResult {
+  const buffer = buffers.get(sessionKey)
+  if (!buffer) return { kind: 'resync', latest: null }
+
+  const latest = buffer.events.reduce<EventCursor>((acc, event) => maxCursor(acc, event), buffer.floor)
+  // Older than what is buffered, or ahead of anything sent (e.g. the journal was reset)
+  if (compareCursors(since, buffer.floor) < 0 || compareCursors(since, latest) > 0) {
+    return { kind: 'resync', latest: { runEpoch: latest.runEpoch, seq: latest.seq } }
+  }
+
+  return {
+    kind: 'events',
+    events: buffer.events.filter(event => compareCursors(event, since) > 0)
+  }
+}
+
+/**
+ * Drop all buffers (the server stopped, so no client can resume)
+ */
+export function clearEventReplayBuffers(): void {
+  buffers.clear()
+}
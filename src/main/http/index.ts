@@ -3,5 +3,6 @@
  */
 
 export { startHttpServer, stopHttpServer, isServerRunning, getServerInfo } from './server'
-export { initWebSocket, shutdownWebSocket, broadcastToWebSocket, broadcastToAll, getClientCount } from './websocket'
-export { authMiddleware, generateAccessToken, getAccessToken, clearAccessToken, validateToken } from './auth'
+export { initWebSocket, shutdownWebSocket, broadcastToWebSocket, broadcastToAll, getClientCount, disconnectRemoteToken } from './websocket'
+export { authMiddleware, getRequiredScope, resolveCredential, validateToken } from './auth'
+export { buildOpenApiDocument, validateApiRequest } from './openapi'
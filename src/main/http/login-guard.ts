@@ -0,0 +1,128 @@
+/**
+ * Login Guard - Failed-attempt throttling for remote token checks
+ *
+ * Every place a remote token is checked (login, API bearer tokens, WebSocket
+ * auth) reports failures here. An IP with too many recent failures is locked
+ * out for a while, and its attempts are rejected without checking the token.
+ * A burst of failures across all IPs (a distributed guess, or everything
+ * arriving through the tunnel) locks out the login endpoint and unknown tokens
+ * from everyone; bearer and WebSocket tokens that are valid still get through,
+ * so anonymous clients cannot lock paired devices out. Successes do not reset
+ * the count, so a valid low-scope token cannot be used to keep guessing at
+ * another one. State is in memory and resets on restart.
+ */
+
+import type { IncomingMessage } from 'http'
+
+const FAILURE_WINDOW_MS = 10 * 60 * 1000
+const IP_MAX_FAILURES = 5
+const IP_LOCKOUT_MS = 15 * 60 * 1000
+const GLOBAL_MAX_FAILURES = 30
+const GLOBAL_LOCKOUT_MS = 5 * 60 * 1000
+// Bound memory when many distinct IPs fail
+const MAX_TRACKED_IPS = 10_000
+
+interface FailureState {
+  failures: number[]
+  lockedUntil: number
+}
+
+const ipStates = new Map<string, FailureState>()
+const globalState: FailureState = { failures: [], lockedUntil: 0 }
+
+export interface LoginGuardResult {
+  allowed: boolean
+  /** Milliseconds until the lockout ends (0 when allowed) */
+  retryAfterMs: number
+}
+
+function isLoopback(address: string): boolean {
+  return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1'
+}
+
+/**
+ * Client IP for a remote request
+ *
+ * Requests through the Cloudflare tunnel arrive from the local cloudflared
+ * process, so for loopback peers the forwarded client address is used. Remote
+ * peers cannot spoof it because their own address is not loopback.
+ */
+export function getClientIp(req: IncomingMessage): string {
+  const peer = req.socket?.remoteAddress || 'unknown'
+  if (!isLoopback(peer)) return peer
+
+  const forwarded = req.headers['cf-connecting-ip'] || req.headers['x-forwarded-for']
+  const value = Array.isArray(forwarded) ? forwarded[0] : forwarded
+  const client = value?.split(',')[0].trim()
+  return client || peer
+}
+
+function pruneFailures(state: FailureState, now: number): void {
+  while (state.failures.length > 0 && now - state.failures[0] > FAILURE_WINDOW_MS) {
+    state.failures.shift()
+  }
+}
+
+function checkLockout(lockedUntil: number, now: number): LoginGuardResult {
+  if (lockedUntil > now) {
+    return { allowed: false, retryAfterMs: lockedUntil - now }
+  }
+  return { allowed: true, retryAfterMs: 0 }
+}
+
+/**
+ * Whether a login (or an unknown token) from this IP may proceed: neither the
+ * IP nor everyone is locked out
+ */
+export function checkLoginAllowed(ip: string, now: number = Date.now()): LoginGuardResult {
+  return checkLockout(Math.max(globalState.lockedUntil, ipStates.get(ip)?.lockedUntil ?? 0), now)
+}
+
+/**
+ * Whether a token check from this IP may proceed, ignoring the global lockout
+ */
+export function checkIpAllowed(ip: string, now: number = Date.now()): LoginGuardResult {
+  return checkLockout(ipStates.get(ip)?.lockedUntil ?? 0, now)
+}
+
+/**
+ * Count a failed token check; locks the IP (or everyone) once over the limit
+ */
+export function recordLoginFailure(ip: string, now: number = Date.now()): void {
+  let state = ipStates.get(ip)
+  if (!state) {
+    if (ipStates.size >= MAX_TRACKED_IPS) {
+      // Drop the oldest tracked IP (Map keeps insertion order)
+      const oldest = ipStates.keys().next().value
+      if (oldest !== undefined) ipStates.delete(oldest)
+    }
+    state = { failures: [], lockedUntil: 0 }
+    ipStates.set(ip, state)
+  }
+
+  pruneFailures(state, now)
+  state.failures.push(now)
+  if (state.failures.length >= IP_MAX_FAILURES) {
+    state.lockedUntil = now + IP_LOCKOUT_MS
+    state.failures = []
+    console.warn(`[Auth] Locked out ${ip} after ${IP_MAX_FAILURES} failed attempts`)
+  }
+
+  pruneFailures(globalState, now)
+  globalState.failures.push(now)
+  if (globalState.failures.length >= GLOBAL_MAX_FAILURES) {
+    globalState.lockedUntil = now + GLOBAL_LOCKOUT_MS
+    globalState.failures = []
+    console.warn(`[Auth] Locked out all remote logins after ${GLOBAL_MAX_FAILURES} failed attempts`)
+  }
+}
+
+export function formatRetryAfter(retryAfterMs: number): string {
+  return `Too many failed attempts. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds`
+}
+
+export function _testResetLoginGuard(): void {
+  ipStates.clear()
+  globalState.failures = []
+  globalState.lockedUntil = 0
+}
@@ -0,0 +1,200 @@
+/**
+ * OpenAPI - Document and request validation for the REST API
+ *
+ * Both are derived from the route table in shared/rest-api, so the schemas
+ * served at /api/openapi.json are the ones requests are checked against.
+ */
+
+import { Request, Response, NextFunction } from 'express'
+import { z } from 'zod'
+import { API_ROUTES, apiErrorSchema, type ApiRouteSpec } from '../../shared/rest-api/schema'
+import { getRequiredScope } from './auth'
+
+type JsonSchema = Record<string, unknown>
+
+interface CompiledRoute {
+  spec: ApiRouteSpec
+  pattern: RegExp
+  paramCount: number
+}
+
+// Literal paths first, so /api/spaces/kite wins over /api/spaces/:spaceId
+const compiledRoutes: CompiledRoute[] = API_ROUTES
+  .map((spec): CompiledRoute => {
+    const source = spec.path
+      .split('/')
+      .map(segment => segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('/')
+    return {
+      spec,
+      pattern: new RegExp(`^${source}/?$`),
+      paramCount: spec.path.split('/').filter(segment => segment.startsWith(':')).length
+    }
+  })
+  .sort((a, b) => a.paramCount - b.paramCount)
+
+let cachedDocument: JsonSchema | null = null
+
+/**
+ * Route spec matching a request, if the route is documented
+ */
+export function findApiRoute(method: string, path: string): ApiRouteSpec | null {
+  const upper = method.toUpperCase()
+  const match = compiledRoutes.find(route => route.spec.method === upper && route.pattern.test(path))
+  return match?.spec ?? null
+}
+
+function formatIssues(error: z.ZodError, location: string): string[] {
+  return error.issues.map(issue => {
+    const field = issue.path.length > 0 ? `${location}.${issue.path.join('.')}` : location
+    return `${field}: ${issue.message}`
+  })
+}
+
+/**
+ * Reject requests whose query or body do not match the documented schema
+ */
+export function validateApiRequest(req: Request, res: Response, next: NextFunction): void {
+  const route = findApiRoute(req.method, `${req.baseUrl}${req.path}`)
+  if (!route) {
+    return next()
+  }
+
+  const details: string[] = []
+  if (route.query) {
+    const result = route.query.safeParse(req.query ?? {})
+    if (!result.success) details.push(...formatIssues(result.error, 'query'))
+  }
+  if (route.body) {
+    const result = route.body.safeParse(req.body ?? {})
+    if (!result.success) details.push(...formatIssues(result.error, 'body'))
+  }
+
+  if (details.length > 0) {
+    res.status(400).json({ success: false, error: 'Invalid request', details })
+    return
+  }
+  next()
+}
+
+// ============================================
+// Document
+// ============================================
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, '{$1}')
+}
+
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const { $schema: _schema, ...rest } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema
+  return rest
+}
+
+function buildParameters(spec: ApiRouteSpec): JsonSchema[] {
+  const pathParams = Array.from(spec.path.matchAll(/:([A-Za-z]+)/g)).map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }))
+  const queryParams = spec.query
+    ? Object.entries(spec.query.shape).map(([name, field]) => ({
+      name,
+      in: 'query',
+      required: !(field as z.ZodType).safeParse(undefined).success,
+      schema: toJsonSchema(field as z.ZodType, 'input')
+    }))
+    : []
+  return [...pathParams, ...queryParams]
+}
+
+function buildSuccessSchema(spec: ApiRouteSpec): JsonSchema {
+  const properties: JsonSchema = { success: { type: 'boolean', const: true } }
+  if (spec.data && !(spec.data instanceof z.ZodUndefined)) {
+    properties.data = toJsonSchema(spec.data, 'output')
+  }
+  return {
+    type: 'object',
+    properties,
+    required: spec.data && !(spec.data instanceof z.ZodUndefined) ? ['success', 'data'] : ['success']
+  }
+}
+
+function buildOperation(spec: ApiRouteSpec): JsonSchema {
+  const operation: JsonSchema = {
+    operationId: spec.operationId,
+    summary: spec.summary,
+    tags: [spec.tag],
+    'x-kite-scope': spec.public ? null : getRequiredScope(spec.method, spec.path)
+  }
+
+  const parameters = buildParameters(spec)
+  if (parameters.length > 0) {
+    operation.parameters = parameters
+  }
+  if (spec.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(spec.body, 'input') } }
+    }
+  }
+  if (spec.public) {
+    operation.security = []
+  }
+
+  const errorResponse = { content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } } }
+  operation.responses = {
+    200: spec.download
+      ? { description: 'File contents', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } }
+      : {
+        description: 'Envelope with `success`; failures the handler reports come back with status 200 and `success: false`',
+        content: {
+          'application/json': {
+            schema: { oneOf: [buildSuccessSchema(spec), { $ref: '#/components/schemas/ApiError' }] }
+          }
+        }
+      },
+    400: { description: 'Request does not match the schema', ...errorResponse },
+    ...(spec.public ? {} : {
+      401: { description: 'Missing or invalid token', ...errorResponse },
+      403: { description: 'Token scope too low', ...errorResponse }
+    }),
+    429: { description: 'Too many failed sign-ins; see Retry-After', ...errorResponse }
+  }
+  return operation
+}
+
+/**
+ * OpenAPI 3.1 description of every documented route
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  if (cachedDocument) return cachedDocument
+
+  const paths: Record<string, Record<string, JsonSchema>> = {}
+  for (const spec of API_ROUTES) {
+    const path = toOpenApiPath(spec.path)
+    paths[path] = { ...paths[path], [spec.method.toLowerCase()]: buildOperation(spec) }
+  }
+
+  cachedDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Kite Remote API',
+      version: '1.0.0',
+      description: 'REST API of the Kite desktop app. Agent output streams over the WebSocket at /ws.'
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }],
+    tags: Array.from(new Set<string>(API_ROUTES.map(spec => spec.tag))).map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Device token from Settings > Remote access' }
+      },
+      schemas: {
+        ApiError: toJsonSchema(apiErrorSchema, 'output')
+      }
+    }
+  }
+  return cachedDocument
+}
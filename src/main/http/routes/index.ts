@@ -14,11 +14,15 @@ import * as spaceController from '../../controllers/space.controller'
 import * as conversationController from '../../controllers/conversation.controller'
 import * as configController from '../../controllers/config.controller'
 import * as changeSetController from '../../controllers/change-set.controller'
+import * as observabilityController from '../../controllers/observability.controller'
 import { listArtifacts } from '../../services/artifact.service'
 import { getConfig, getTempSpacePath, getSpacesDir, saveConfig } from '../../services/config.service'
 import { getSpace, getAllSpacePaths } from '../../services/space.service'
 import { isWorkDirAllowed } from '../../utils/path-validation'
-import { isResourceListView, type ResourceListView } from '../../../shared/resource-access'
+import type { ResourceListView } from '../../../shared/resource-access'
+import { hasRemoteScope } from '../../../shared/types/remote-access'
+import type { RemoteCredential } from '../auth'
+import { buildOpenApiDocument, validateApiRequest } from '../openapi'
 import {
   getAgentRunObservation,
   getObservabilityConfigSnapshot,
@@ -73,15 +77,6 @@ function validateWorkDir(
   return normalizedWorkDir
 }
 
-function validateResourceListView(req: Request, res: Response): ResourceListView | null {
-  const view = (req.body?.view || req.query?.view) as string | undefined
-  if (!isResourceListView(view)) {
-    res.status(400).json({ success: false, error: 'view is required and must be a valid ResourceListView' })
-    return null
-  }
-  return view
-}
-
 /** Wraps an async route handler with standard error response */
 function safeRoute(fn: (req: Request, res: Response) => Promise<void>) {
   return async (req: Request, res: Response): Promise<void> => {
@@ -124,9 +119,19 @@ function collectFiles(dir: string, baseDir: string, files: { path: string; fullP
  * Register all API routes
  */
 export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null): void {
+  // Query and body checks for every route documented in shared/rest-api
+  app.use('/api', validateApiRequest)
+
+  app.get('/api/openapi.json', async (_req: Request, res: Response) => {
+    res.json(buildOpenApiDocument())
+  })
+
   // ===== Config Routes =====
   app.get('/api/config', async (req: Request, res: Response) => {
-    const result = configController.getConfig()
+    const credential = res.locals.remoteCredential as RemoteCredential | undefined
+    const result = configController.getConfig({
+      redactSecrets: !credential || !hasRemoteScope(credential.scope, 'admin')
+    })
     res.json(result)
   })
 
@@ -141,6 +146,46 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
     res.json(result)
   })
 
+  app.get('/api/config/command-rules', async (req: Request, res: Response) => {
+    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : undefined
+    res.json(configController.listCommandRules(spaceId))
+  })
+
+  app.delete('/api/config/command-rules/:ruleId', async (req: Request, res: Response) => {
+    const scope = req.query.scope as 'global' | 'space'
+    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : undefined
+    res.json(configController.removeCommandRule(scope, req.params.ruleId, spaceId))
+  })
+
+  app.get('/api/spaces/:spaceId/hooks', async (req: Request, res: Response) => {
+    res.json(configController.listHooks(req.params.spaceId))
+  })
+
+  app.get('/api/spaces/:spaceId/hooks/log', async (req: Request, res: Response) => {
+    res.json(configController.getHookLog(req.params.spaceId))
+  })
+
+  app.delete('/api/spaces/:spaceId/hooks/log', async (req: Request, res: Response) => {
+    res.json(configController.clearHookLog(req.params.spaceId))
+  })
+
+  app.post('/api/spaces/:spaceId/hooks/test', async (req: Request, res: Response) => {
+    res.json(await configController.testHook(req.params.spaceId, req.body))
+  })
+
+  // ===== Run Explorer Routes =====
+  app.get('/api/observability/runs', async (req: Request, res: Response) => {
+    res.json(observabilityController.listRuns(req.query))
+  })
+
+  app.get('/api/observability/runs/:runId', async (req: Request, res: Response) => {
+    res.json(observabilityController.getRun(req.params.runId))
+  })
+
+  app.delete('/api/observability/runs', async (req: Request, res: Response) => {
+    res.json(observabilityController.clearRuns())
+  })
+
   // ===== Internal Observability Routes (Developer Hidden) =====
   app.get('/api/internal/observability/runs', async (req: Request, res: Response) => {
     if (!ensureObservabilityInternalApiEnabled(res)) return
@@ -321,6 +366,11 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
     res.json(result)
   })
 
+  app.get('/api/spaces/:spaceId/conversations/:conversationId/change-sets/:changeSetId', async (req: Request, res: Response) => {
+    const { spaceId, conversationId, changeSetId } = req.params
+    res.json(changeSetController.getChangeSetForConversation(spaceId, conversationId, changeSetId))
+  })
+
   app.post('/api/spaces/:spaceId/conversations/:conversationId/change-sets/accept', async (req: Request, res: Response) => {
     const { spaceId, conversationId } = req.params
     const { changeSetId, filePath } = req.body
@@ -346,6 +396,31 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
     res.json(result)
   })
 
+  app.post('/api/spaces/:spaceId/conversations/:conversationId/change-sets/rollback-to-message', async (req: Request, res: Response) => {
+    const { spaceId, conversationId } = req.params
+    const { messageId, force } = req.body
+    const result = changeSetController.rollbackToMessageForConversation({
+      spaceId,
+      conversationId,
+      messageId,
+      force
+    })
+    res.json(result)
+  })
+
+  app.get('/api/spaces/:spaceId/change-history', async (req: Request, res: Response) => {
+    res.json(changeSetController.getChangeHistoryForSpace(req.params.spaceId))
+  })
+
+  app.get('/api/spaces/:spaceId/change-history/snapshots/:hash', async (req: Request, res: Response) => {
+    res.json(changeSetController.readChangeSnapshotForSpace(req.params.spaceId, req.params.hash))
+  })
+
+  app.post('/api/spaces/:spaceId/change-history/prune', async (req: Request, res: Response) => {
+    const { maxAgeDays, maxBytes } = req.body || {}
+    res.json(changeSetController.pruneChangeHistoryForSpace(req.params.spaceId, { maxAgeDays, maxBytes }))
+  })
+
   // ===== Agent Routes =====
   app.post('/api/agent/message', async (req: Request, res: Response) => {
     const {
@@ -400,10 +475,6 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
 
   app.post('/api/agent/mode', async (req: Request, res: Response) => {
     const { spaceId, conversationId, mode, runId } = req.body
-    if (typeof spaceId !== 'string' || typeof conversationId !== 'string') {
-      res.status(400).json({ success: false, error: 'spaceId and conversationId are required' })
-      return
-    }
     const result = await agentController.setMode({ spaceId, conversationId, mode, runId })
     res.json(result)
   })
@@ -417,21 +488,13 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
 
   app.post('/api/agent/stop', async (req: Request, res: Response) => {
     const { spaceId, conversationId, opId } = req.body
-    if (typeof spaceId !== 'string') {
-      res.status(400).json({ success: false, error: 'spaceId is required' })
-      return
-    }
     const result = await agentController.stopGeneration(spaceId, conversationId, opId)
     res.json(result)
   })
 
   app.post('/api/agent/warm', safeRoute(async (req, res) => {
     const { ensureSessionWarm } = await import('../../services/agent')
-    const { spaceId, conversationId, responseLanguage } = req.body ?? {}
-    if (typeof spaceId !== 'string' || typeof conversationId !== 'string') {
-      res.json({ success: false, error: 'spaceId and conversationId are required' })
-      return
-    }
+    const { spaceId, conversationId, responseLanguage } = req.body
     await ensureSessionWarm(spaceId, conversationId, responseLanguage)
     res.json({ success: true })
   }))
@@ -465,31 +528,19 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
   }))
 
   app.post('/api/agent/approve', async (req: Request, res: Response) => {
-    const { spaceId, conversationId, opId } = req.body
-    if (typeof spaceId !== 'string' || typeof conversationId !== 'string') {
-      res.status(400).json({ success: false, error: 'spaceId and conversationId are required' })
-      return
-    }
-    const result = await agentController.approveTool(spaceId, conversationId, opId)
+    const { spaceId, conversationId, opId, toolCallId, remember } = req.body
+    const result = await agentController.approveTool(spaceId, conversationId, opId, { toolCallId, remember })
     res.json(result)
   })
 
   app.post('/api/agent/reject', async (req: Request, res: Response) => {
-    const { spaceId, conversationId, opId } = req.body
-    if (typeof spaceId !== 'string' || typeof conversationId !== 'string') {
-      res.status(400).json({ success: false, error: 'spaceId and conversationId are required' })
-      return
-    }
-    const result = await agentController.rejectTool(spaceId, conversationId, opId)
+    const { spaceId, conversationId, opId, toolCallId, remember } = req.body
+    const result = await agentController.rejectTool(spaceId, conversationId, opId, { toolCallId, remember })
     res.json(result)
   })
 
   app.post('/api/agent/answer-question', async (req: Request, res: Response) => {
     const { spaceId, conversationId, answer, payload, opId } = req.body
-    if (typeof spaceId !== 'string' || typeof conversationId !== 'string') {
-      res.status(400).json({ success: false, error: 'spaceId and conversationId are required' })
-      return
-    }
     const result = await agentController.answerQuestion(spaceId, conversationId, payload ?? answer, opId)
     res.json(result)
   })
@@ -500,23 +551,13 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
   })
 
   app.get('/api/agent/generating/:conversationId', async (req: Request, res: Response) => {
-    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : ''
-    if (!spaceId) {
-      res.status(400).json({ success: false, error: 'spaceId query is required' })
-      return
-    }
-    const result = agentController.checkGenerating(spaceId, req.params.conversationId)
+    const result = agentController.checkGenerating(req.query.spaceId as string, req.params.conversationId)
     res.json(result)
   })
 
   // Get session state for recovery after refresh
   app.get('/api/agent/session/:conversationId', async (req: Request, res: Response) => {
-    const spaceId = typeof req.query.spaceId === 'string' ? req.query.spaceId : ''
-    if (!spaceId) {
-      res.status(400).json({ success: false, error: 'spaceId query is required' })
-      return
-    }
-    const result = agentController.getSessionState(spaceId, req.params.conversationId)
+    const result = agentController.getSessionState(req.query.spaceId as string, req.params.conversationId)
     res.json(result)
   })
 
@@ -575,8 +616,7 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
   app.get('/api/skills', safeRoute(async (req, res) => {
     const workDir = validateWorkDir(req, res)
     if (workDir === null) return
-    const view = validateResourceListView(req, res)
-    if (!view) return
+    const view = req.query.view as ResourceListView
     const { listSkills } = await import('../../services/skills.service')
     const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined
     res.json({ success: true, data: listSkills(workDir || undefined, view, locale) })
@@ -688,8 +728,7 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
   app.get('/api/agents', safeRoute(async (req, res) => {
     const workDir = validateWorkDir(req, res)
     if (workDir === null) return
-    const view = validateResourceListView(req, res)
-    if (!view) return
+    const view = req.query.view as ResourceListView
     const { listAgents } = await import('../../services/agents.service')
     const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined
     res.json({ success: true, data: listAgents(workDir || undefined, view, locale) })
@@ -766,8 +805,7 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
   app.get('/api/commands', safeRoute(async (req, res) => {
     const workDir = validateWorkDir(req, res)
     if (workDir === null) return
-    const view = validateResourceListView(req, res)
-    if (!view) return
+    const view = req.query.view as ResourceListView
     const { listCommands } = await import('../../services/commands.service')
     const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined
     res.json({ success: true, data: listCommands(workDir || undefined, view, locale) })
@@ -848,6 +886,34 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
     res.json({ success: true, data: listWorkflows(req.query.spaceId as string) })
   }))
 
+  // Registered before /api/workflows/:workflowId so "missed-triggers" is not read as an id
+  app.get('/api/workflows/missed-triggers', safeRoute(async (req, res) => {
+    const { listMissedWorkflowTriggers } = await import('../../services/workflow-trigger.service')
+    res.json({ success: true, data: listMissedWorkflowTriggers(req.query.spaceId as string) })
+  }))
+
+  app.post('/api/workflows/missed-triggers/:missedId/run', safeRoute(async (req, res) => {
+    const { runMissedWorkflowTrigger } = await import('../../services/workflow-trigger.service')
+    res.json({ success: true, data: runMissedWorkflowTrigger(req.body?.spaceId, req.params.missedId) })
+  }))
+
+  app.delete('/api/workflows/missed-triggers/:missedId', safeRoute(async (req, res) => {
+    const { dismissMissedWorkflowTrigger } = await import('../../services/workflow-trigger.service')
+    res.json({ success: true, data: dismissMissedWorkflowTrigger(req.query.spaceId as string, req.params.missedId) })
+  }))
+
+  app.post('/api/workflows/import/preview', safeRoute(async (req, res) => {
+    const { previewWorkflowImport } = await import('../../services/workflow-bundle.service')
+    const { spaceId, bundle } = req.body
+    res.json({ success: true, data: previewWorkflowImport(spaceId, bundle) })
+  }))
+
+  app.post('/api/workflows/import', safeRoute(async (req, res) => {
+    const { importWorkflowBundle } = await import('../../services/workflow-bundle.service')
+    const { spaceId, bundle, resolutions } = req.body
+    res.json({ success: true, data: importWorkflowBundle(spaceId, bundle, resolutions) })
+  }))
+
   app.get('/api/workflows/:workflowId', safeRoute(async (req, res) => {
     const { getWorkflow } = await import('../../services/workflow.service')
     const workflow = getWorkflow(req.query.spaceId as string, req.params.workflowId)
@@ -884,6 +950,47 @@ export function registerApiRoutes(app: Express, mainWindow: BrowserWindow | null
     res.json({ success: true, data: true })
   }))
 
+  app.get('/api/workflows/:workflowId/export', safeRoute(async (req, res) => {
+    const { exportWorkflowBundle } = await import('../../services/workflow-bundle.service')
+    res.json({ success: true, data: exportWorkflowBundle(req.query.spaceId as string, req.params.workflowId) })
+  }))
+
+  app.get('/api/workflows/:workflowId/runs', safeRoute(async (req, res) => {
+    const { listWorkflowRuns } = await import('../../services/workflow-runner.service')
+    res.json({ success: true, data: listWorkflowRuns(req.query.spaceId as string, req.params.workflowId) })
+  }))
+
+  app.post('/api/workflows/:workflowId/runs', safeRoute(async (req, res) => {
+    const { startWorkflowRun } = await import('../../services/workflow-runner.service')
+    const { spaceId, responseLanguage } = req.body
+    res.json({ success: true, data: startWorkflowRun(spaceId, req.params.workflowId, { responseLanguage }) })
+  }))
+
+  app.get('/api/workflows/:workflowId/runs/:runId', safeRoute(async (req, res) => {
+    const { getWorkflowRun } = await import('../../services/workflow-runner.service')
+    const run = getWorkflowRun(req.query.spaceId as string, req.params.runId)
+    if (!run || run.workflowId !== req.params.workflowId) {
+      res.json({ success: false, error: `Workflow run not found: ${req.params.runId}` })
+      return
+    }
+    res.json({ success: true, data: run })
+  }))
+
+  app.post('/api/workflows/:workflowId/runs/:runId/stop', safeRoute(async (req, res) => {
+    const { stopWorkflowRun } = await import('../../services/workflow-runner.service')
+    const run = await stopWorkflowRun(req.body?.spaceId, req.params.runId)
+    if (!run) {
+      res.json({ success: false, error: `Workflow run not found: ${req.params.runId}` })
+      return
+    }
+    res.json({ success: true, data: run })
+  }))
+
+  app.post('/api/workflows/:workflowId/runs/:runId/resume', safeRoute(async (req, res) => {
+    const { resumeWorkflowRun } = await import('../../services/workflow-runner.service')
+    res.json({ success: true, data: resumeWorkflowRun(req.body?.spaceId, req.params.runId) })
+  }))
+
   // ===== Artifact Routes =====
   app.get('/api/spaces/:spaceId/artifacts', safeRoute(async (req, res) => {
     res.json({ success: true, data: listArtifacts(req.params.spaceId) })
@@ -10,7 +10,9 @@ import { BrowserWindow } from 'electron'
 import { is } from '@electron-toolkit/utils'
 import { createConnection } from 'net'
 
-import { authMiddleware, generateAccessToken, getAccessToken, clearAccessToken, validateToken } from './auth'
+import { authMiddleware, resolveCredential } from './auth'
+import { accessLogMiddleware } from './access-log'
+import { checkLoginAllowed, formatRetryAfter, getClientIp, recordLoginFailure } from './login-guard'
 import { corsMiddleware } from './cors'
 import { validateLoginToken } from './validators'
 import { initWebSocket, shutdownWebSocket, getClientCount } from './websocket'
@@ -38,7 +40,7 @@ const DEFAULT_PORT = 3847
 export async function startHttpServer(
   window: BrowserWindow | null,
   port: number = DEFAULT_PORT
-): Promise<{ port: number; token: string }> {
+): Promise<{ port: number }> {
   // Store reference to main window for agent calls
   mainWindow = window
 
@@ -52,8 +54,19 @@ export async function startHttpServer(
   // CORS for remote access (secure - only trusted origins)
   expressApp.use(corsMiddleware)
 
+  // Access log for every API request, including rejected ones
+  expressApp.use('/api', accessLogMiddleware)
+
   // Login endpoint (before auth middleware)
   expressApp.post('/api/remote/login', (req: Request, res: Response) => {
+    const ip = getClientIp(req)
+    const guard = checkLoginAllowed(ip)
+    if (!guard.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(guard.retryAfterMs / 1000)))
+      res.status(429).json({ success: false, error: formatRetryAfter(guard.retryAfterMs) })
+      return
+    }
+
     // Validate input
     const validation = validateLoginToken(req.body)
     if (!validation.success) {
@@ -66,9 +79,12 @@ export async function startHttpServer(
     }
 
     const { token } = validation.data
-    if (validateToken(token)) {
-      res.json({ success: true })
+    const credential = resolveCredential(token)
+    if (credential) {
+      res.locals.remoteCredential = credential
+      res.json({ success: true, data: { name: credential.name, scope: credential.scope } })
     } else {
+      recordLoginFailure(ip)
       res.status(401).json({ success: false, error: 'Invalid token' })
     }
   })
@@ -95,13 +111,12 @@ export async function startHttpServer(
   if (is.dev) {
     // In development, proxy to Vite dev server
     expressApp.use('/{*path}', (req, res) => {
-      // Check if authenticated (has valid token in query or localStorage check via cookie)
-      const urlToken = req.query.token as string
+      // Check if authenticated (has valid token in header or localStorage check via cookie)
       const authHeader = req.headers.authorization
       const headerToken = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader
 
-      // If accessing root without auth, show login page
-      if (req.path === '/' && !urlToken && !headerToken) {
+      // If accessing root without auth, show login page (it also signs in with a pairing ?token=)
+      if (req.path === '/' && !headerToken) {
         // Check cookie for token
         const cookies = req.headers.cookie || ''
         const hasToken = cookies.includes('kite_authenticated=true')
@@ -236,16 +251,12 @@ export async function startHttpServer(
     })
   }
 
-  // Generate access token
-  const token = generateAccessToken()
-
   // Start listening
   return new Promise((resolve, reject) => {
     httpServer!.listen(port, '0.0.0.0', () => {
       serverPort = port
       console.log(`[HTTP] Server started on port ${port}`)
-      console.log(`[HTTP] Access token: ${token}`)
-      resolve({ port, token })
+      resolve({ port })
     })
 
     httpServer!.on('error', (error: NodeJS.ErrnoException) => {
@@ -272,7 +283,6 @@ export function stopHttpServer(): void {
     httpServer = null
     expressApp = null
     serverPort = 0
-    clearAccessToken()
     console.log('[HTTP] Server stopped')
   }
 }
@@ -290,13 +300,11 @@ export function isServerRunning(): boolean {
 export function getServerInfo(): {
   running: boolean
   port: number
-  token: string | null
   clients: number
 } {
   return {
     running: isServerRunning(),
     port: serverPort,
-    token: getAccessToken(),
     clients: getClientCount()
   }
 }
@@ -361,9 +369,8 @@ function getRemoteLoginPage(): string {
       border-radius: 12px;
       background: rgba(255,255,255,0.05);
       color: #fff;
-      font-size: 1.5rem;
+      font-size: 1rem;
       text-align: center;
-      letter-spacing: 0.5em;
     }
     input:focus { outline: none; border-color: #667eea; }
     button {
@@ -386,20 +393,20 @@ function getRemoteLoginPage(): string {
     <div class="logo">◯</div>
     <h1>Kite Remote Access</h1>
 
-    <p>Enter access code to connect to your desktop</p>
+    <p>Enter the device token created in Kite Settings, or scan its QR code</p>
     <div class="input-group">
-      <input type="text" id="token" maxlength="6" placeholder="000000" autocomplete="off">
+      <input type="password" id="token" maxlength="256" placeholder="kite_..." autocomplete="off">
     </div>
     <button onclick="login()" style="margin-top: 1rem; width: 100%; max-width: 300px;">Connect</button>
     <p id="error" class="error"></p>
   </div>
   <script>
     async function login() {
-      const token = document.getElementById('token').value;
+      const token = document.getElementById('token').value.trim();
       const error = document.getElementById('error');
 
-      if (!token || token.length !== 6) {
-        error.textContent = 'Please enter 6-digit access code';
+      if (!token) {
+        error.textContent = 'Please enter a device token';
         return;
       }
 
@@ -410,7 +417,10 @@ function getRemoteLoginPage(): string {
           body: JSON.stringify({ token })
         });
 
-        if (res.ok) {
+        if (res.status === 429) {
+          const data = await res.json();
+          error.textContent = data.error || 'Too many failed attempts';
+        } else if (res.ok) {
           localStorage.setItem('kite_remote_token', token);
           // Set cookie for server-side auth check
           document.cookie = 'kite_authenticated=true; path=/';
@@ -422,13 +432,21 @@ function getRemoteLoginPage(): string {
           // Reload to get the full app (will be proxied to Vite)
           setTimeout(() => location.reload(), 500);
         } else {
-          error.textContent = 'Invalid code';
+          error.textContent = 'Invalid or expired token';
         }
       } catch (e) {
         error.textContent = 'Connection failed';
       }
     }
 
+    // Pairing QR codes carry the token in the URL; sign in with it and drop it from history
+    const pairedToken = new URLSearchParams(location.search).get('token');
+    if (pairedToken) {
+      history.replaceState(null, '', location.pathname);
+      document.getElementById('token').value = pairedToken;
+      login();
+    }
+
     // Auto-focus input
     document.getElementById('token').focus();
 
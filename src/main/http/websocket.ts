@@ -6,18 +6,38 @@
 import { WebSocket, WebSocketServer } from 'ws'
 import { IncomingMessage } from 'http'
 import { v4 as uuidv4 } from 'uuid'
-import { validateToken } from './auth'
+import { authenticateWebSocket, isCredentialActive, type RemoteCredential } from './auth'
+import { checkIpAllowed, checkLoginAllowed, formatRetryAfter, getClientIp, recordLoginFailure } from './login-guard'
+import { noteRemoteSignIn, recordRemoteAccess } from '../services/remote-access-log.service'
+import {
+  bufferSessionEvent,
+  clearEventReplayBuffers,
+  getEventsSince,
+  parseEventCursor,
+  type EventCursor
+} from './event-replay'
 import { assertValidSessionKey, buildSessionKey } from '../../shared/session-key'
+import { hasRemoteScope, type RemoteTokenScope } from '../../shared/types/remote-access'
 
 interface WebSocketClient {
   id: string
   ws: WebSocket
+  ip: string
+  userAgent: string
   authenticated: boolean
+  credential: RemoteCredential | null
   subscriptions: Set<string> // session keys this client is subscribed to
 }
 
+// Minimum token scope for each client event (besides auth and ping)
+const WS_EVENT_SCOPES: Record<string, RemoteTokenScope> = {
+  subscribe: 'read',
+  unsubscribe: 'read'
+}
+
 const WS_ERROR_CODES = {
   NOT_AUTHENTICATED: 'WS_NOT_AUTHENTICATED',
+  FORBIDDEN: 'WS_FORBIDDEN',
   SUBSCRIBE_SCHEMA_DEPRECATED: 'WS_SUBSCRIBE_SCHEMA_DEPRECATED',
   SUBSCRIBE_SCHEMA_INVALID: 'WS_SUBSCRIBE_SCHEMA_INVALID',
   UNSUBSCRIBE_SCHEMA_INVALID: 'WS_UNSUBSCRIBE_SCHEMA_INVALID'
@@ -70,7 +90,10 @@ export function initWebSocket(server: any): WebSocketServer {
     const client: WebSocketClient = {
       id: clientId,
       ws,
+      ip: getClientIp(req),
+      userAgent: req.headers['user-agent'] || '',
       authenticated: false,
+      credential: null,
       subscriptions: new Set()
     }
 
@@ -104,6 +127,57 @@ export function initWebSocket(server: any): WebSocketServer {
   return wss
 }
 
+/**
+ * Whether the client is signed in with a still-valid token
+ */
+function isClientAuthorized(client: WebSocketClient): boolean {
+  return client.authenticated && client.credential !== null && isCredentialActive(client.credential)
+}
+
+/**
+ * Check the client's token against the scope an event requires, replying with an error if it falls short
+ */
+function checkEventScope(client: WebSocketClient, type: string): boolean {
+  const required = WS_EVENT_SCOPES[type]
+  if (!required) return true
+
+  if (!isClientAuthorized(client)) {
+    sendToClient(client, {
+      type: 'error',
+      code: WS_ERROR_CODES.NOT_AUTHENTICATED,
+      error: 'Not authenticated'
+    })
+    return false
+  }
+  if (!hasRemoteScope(client.credential!.scope, required)) {
+    sendToClient(client, {
+      type: 'error',
+      code: WS_ERROR_CODES.FORBIDDEN,
+      error: `This device has ${client.credential!.scope} access; ${required} access is required`
+    })
+    return false
+  }
+  return true
+}
+
+function logWebSocketAuth(client: WebSocketClient, status: number): void {
+  recordRemoteAccess({
+    kind: 'websocket',
+    ip: client.ip,
+    userAgent: client.userAgent,
+    method: 'WS',
+    route: '/ws',
+    status,
+    tokenName: client.credential?.name
+  })
+}
+
+function rejectLockedOut(client: WebSocketClient, retryAfterMs: number): void {
+  logWebSocketAuth(client, 429)
+  sendToClient(client, { type: 'auth:locked', error: formatRetryAfter(retryAfterMs) })
+  setTimeout(() => client.ws.close(), 100)
+}
+
 /**
  * Handle incoming message from client
  */
@@ -111,31 +185,42 @@ function handleClientMessage(
   client: WebSocketClient,
   message: { type: string; payload?: any }
 ): void {
+  if (!checkEventScope(client, message.type)) return
+
   switch (message.type) {
-    case 'auth':
+    case 'auth': {
+      const ipGuard = checkIpAllowed(client.ip)
+      if (!ipGuard.allowed) {
+        rejectLockedOut(client, ipGuard.retryAfterMs)
+        break
+      }
+
       // Validate the token before marking as authenticated
-      if (message.payload?.token && validateToken(message.payload.token)) {
+      const credential = message.payload?.token ? authenticateWebSocket(message.payload.token) : null
+      // The global lockout only turns away bad tokens, never a paired device
+      const guard = credential ? ipGuard : checkLoginAllowed(client.ip)
+      if (!guard.allowed) {
+        rejectLockedOut(client, guard.retryAfterMs)
+      } else if (credential) {
         client.authenticated = true
-        sendToClient(client, { type: 'auth:success' })
-        console.log(`[WS] Client ${client.id} authenticated successfully`)
+        client.credential = credential
+        logWebSocketAuth(client, 101)
+        noteRemoteSignIn({ tokenId: credential.tokenId, tokenName: credential.name, ip: client.ip, userAgent: client.userAgent })
+        sendToClient(client, { type: 'auth:success', scope: credential.scope })
+        console.log(`[WS] Client ${client.id} authenticated successfully (${credential.scope})`)
       } else {
+        recordLoginFailure(client.ip)
+        logWebSocketAuth(client, 401)
         sendToClient(client, { type: 'auth:failed', error: 'Invalid token' })
         console.log(`[WS] Client ${client.id} authentication failed`)
         // Close connection after failed auth
         setTimeout(() => client.ws.close(), 100)
       }
       break
+    }
 
     case 'subscribe':
       // Subscribe to conversation events (requires authentication)
-      if (!client.authenticated) {
-        sendToClient(client, {
-          type: 'error',
-          code: WS_ERROR_CODES.NOT_AUTHENTICATED,
-          error: 'Not authenticated'
-        })
-        break
-      }
       {
         const resolved = toSessionSubscriptionKey(message.payload)
         if (!resolved.key) {
@@ -149,6 +234,12 @@ function handleClientMessage(
         }
         client.subscriptions.add(resolved.key)
         console.log(`[WS] Client ${client.id} subscribed to ${resolved.key}`)
+
+        // Reconnecting clients send the last cursor they saw and get what they missed
+        const lastSeen = parseEventCursor(message.payload.lastSeen)
+        if (lastSeen) {
+          replayMissedEvents(client, resolved.key, message.payload, lastSeen)
+        }
       }
       break
 
@@ -177,6 +268,37 @@ function handleClientMessage(
   }
 }
 
+/**
+ * Send the buffered events after `lastSeen`, or ask the client to refetch the conversation.
+ * Runs synchronously right after subscribing, so no live event can interleave.
+ */
+function replayMissedEvents(
+  client: WebSocketClient,
+  sessionKey: string,
+  payload: { spaceId: string; conversationId: string },
+  lastSeen: EventCursor
+): void {
+  const result = getEventsSince(sessionKey, lastSeen)
+  if (result.kind === 'resync') {
+    sendToClient(client, {
+      type: 'resync',
+      spaceId: payload.spaceId.trim(),
+      conversationId: payload.conversationId.trim(),
+      sessionKey,
+      latest: result.latest
+    })
+    console.log(`[WS] Client ${client.id} is too far behind on ${sessionKey}; asked to refetch`)
+    return
+  }
+
+  for (const event of result.events) {
+    sendToClient(client, { type: 'event', channel: event.channel, data: event.data, replayed: true })
+  }
+  if (result.events.length > 0) {
+    console.log(`[WS] Replayed ${result.events.length} events on ${sessionKey} to client ${client.id}`)
+  }
+}
+
 /**
  * Send message to a specific client
  */
@@ -226,9 +348,12 @@ export function broadcastToWebSocket(
     return
   }
 
+  // Only while remote access is on; nobody can resume otherwise
+  if (wss) bufferSessionEvent(sessionKey, channel, data)
+
   for (const client of Array.from(clients.values())) {
     // Only send to authenticated clients subscribed to this exact session scope.
-    if (client.authenticated && client.subscriptions.has(sessionKey)) {
+    if (client.subscriptions.has(sessionKey) && isClientAuthorized(client)) {
       sendToClient(client, {
         type: 'event',
         channel,
@@ -243,7 +368,7 @@ export function broadcastToWebSocket(
  */
 export function broadcastToAll(channel: string, data: Record<string, unknown>): void {
   for (const client of Array.from(clients.values())) {
-    if (client.authenticated) {
+    if (isClientAuthorized(client)) {
       sendToClient(client, {
         type: 'event',
         channel,
@@ -271,6 +396,18 @@ export function getAuthenticatedClientCount(): number {
   return count
 }
 
+/**
+ * Close connections signed in with a token that was just revoked
+ */
+export function disconnectRemoteToken(tokenId: string): void {
+  for (const client of Array.from(clients.values())) {
+    if (client.credential?.tokenId === tokenId) {
+      sendToClient(client, { type: 'auth:revoked' })
+      client.ws.close()
+    }
+  }
+}
+
 /**
  * Shutdown WebSocket server
  */
@@ -280,6 +417,7 @@ export function shutdownWebSocket(): void {
       client.ws.close()
     }
     clients.clear()
+    clearEventReplayBuffers()
     wss.close()
     wss = null
     console.log('[WS] WebSocket server shutdown')
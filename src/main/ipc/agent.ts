@@ -17,6 +17,7 @@ import {
 import type { AskUserQuestionAnswerInput } from '../services/agent'
 import type { InvocationContext } from '../../shared/resource-access'
 import type { LocaleCode } from '../../shared/i18n/locale'
+import type { CommandRuleRequest } from '../../shared/types/command-rules'
 import { getResourceIndexHash } from '../services/resource-index.service'
 import { executeIdempotentOperation } from '../services/agent/op-id.service'
 import { buildSessionKey } from '../../shared/session-key'
@@ -182,18 +183,30 @@ export function registerAgentHandlers(window: BrowserWindow | null): void {
   })
 
   // Approve tool execution for a specific conversation
-  ipcMain.handle('agent:approve-tool', async (_event, request: { spaceId: string; conversationId: string; opId?: string }) => {
+  ipcMain.handle('agent:approve-tool', async (
+    _event,
+    request: { spaceId: string; conversationId: string; opId?: string; toolCallId?: string; remember?: CommandRuleRequest }
+  ) => {
     try {
-      return await agentController.approveTool(request.spaceId, request.conversationId, request.opId)
+      return await agentController.approveTool(request.spaceId, request.conversationId, request.opId, {
+        toolCallId: request.toolCallId,
+        remember: request.remember
+      })
     } catch (error: unknown) {
       return toErrorResponse(error)
     }
   })
 
   // Reject tool execution for a specific conversation
-  ipcMain.handle('agent:reject-tool', async (_event, request: { spaceId: string; conversationId: string; opId?: string }) => {
+  ipcMain.handle('agent:reject-tool', async (
+    _event,
+    request: { spaceId: string; conversationId: string; opId?: string; toolCallId?: string; remember?: CommandRuleRequest }
+  ) => {
     try {
-      return await agentController.rejectTool(request.spaceId, request.conversationId, request.opId)
+      return await agentController.rejectTool(request.spaceId, request.conversationId, request.opId, {
+        toolCallId: request.toolCallId,
+        remember: request.remember
+      })
     } catch (error: unknown) {
       return toErrorResponse(error)
     }
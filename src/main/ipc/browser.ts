@@ -9,7 +9,10 @@ import { ipcMain, BrowserWindow, Menu, shell, MenuItemConstructorOptions } from
 import {
   browserViewManager,
   type BrowserViewBounds,
+  type SopSpec,
 } from '../services/browser-view.service'
+import { replaySopInView, stopSopReplay } from '../services/sop-replay.service'
+import { extractSopSpec, getSkillContent } from '../services/skills.service'
 
 /**
  * Browser context menu options from renderer
@@ -242,6 +245,58 @@ export function registerBrowserHandlers(mainWindow: BrowserWindow | null) {
     }
   })
 
+  /**
+   * Replay an SOP (given directly or from a saved SOP skill) without the model.
+   * Per-step results are streamed as browser:sop-replay:event.
+   */
+  ipcMain.handle(
+    'browser:sop-replay:start',
+    async (
+      event,
+      payload: {
+        viewId: string
+        spec?: SopSpec
+        skillName?: string
+        workDir?: string
+        variables?: Record<string, string>
+      }
+    ) => {
+      try {
+        let spec = payload.spec
+        if (!spec && payload.skillName) {
+          const skill = getSkillContent(payload.skillName, payload.workDir)
+          spec = skill ? extractSopSpec(skill.content) ?? undefined : undefined
+          if (!spec) {
+            return { success: false, error: `Skill "${payload.skillName}" has no recorded SOP` }
+          }
+        }
+        if (!spec || !Array.isArray(spec.steps) || spec.steps.length === 0) {
+          return { success: false, error: 'No SOP steps to replay' }
+        }
+
+        const result = await replaySopInView(payload.viewId, spec, {
+          variables: payload.variables,
+          onStep: (step) => {
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('browser:sop-replay:event', { viewId: payload.viewId, step })
+            }
+          },
+        })
+        return { success: true, data: result }
+      } catch (error) {
+        console.error('[Browser IPC] SOP replay failed:', error)
+        return { success: false, error: (error as Error).message }
+      }
+    }
+  )
+
+  /**
+   * Stop the SOP replay running in a BrowserView
+   */
+  ipcMain.handle('browser:sop-replay:stop', async (_event, { viewId }: { viewId: string }) => {
+    return { success: stopSopReplay(viewId) }
+  })
+
   /**
    * Get current state
    */
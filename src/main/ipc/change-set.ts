@@ -5,9 +5,18 @@
 import { ipcMain } from 'electron'
 import {
   acceptChangeSet,
+  getChangeSet,
+  listChangeHistory,
   listChangeSets,
-  rollbackChangeSet
+  readChangeSnapshot,
+  rollbackChangeSet,
+  rollbackToMessage
 } from '../services/change-set.service'
+import {
+  getChangeHistoryStats,
+  pruneChangeHistory,
+  type PruneChangeHistoryOptions
+} from '../services/change-history.service'
 
 export function registerChangeSetHandlers(): void {
   ipcMain.handle('change-set:list', async (_event, spaceId: string, conversationId: string) => {
@@ -21,6 +30,22 @@ export function registerChangeSetHandlers(): void {
     }
   })
 
+  ipcMain.handle(
+    'change-set:get',
+    async (_event, spaceId: string, conversationId: string, changeSetId: string) => {
+      try {
+        const data = getChangeSet(spaceId, conversationId, changeSetId)
+        if (!data) {
+          return { success: false, error: `Change set not found: ${changeSetId}` }
+        }
+        return { success: true, data }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message }
+      }
+    }
+  )
+
   ipcMain.handle(
     'change-set:accept',
     async (
@@ -66,4 +91,58 @@ export function registerChangeSetHandlers(): void {
       }
     }
   )
+
+  ipcMain.handle(
+    'change-set:rollback-to-message',
+    async (
+      _event,
+      params: { spaceId: string; conversationId: string; messageId: string; force?: boolean }
+    ) => {
+      try {
+        const result = rollbackToMessage(params.spaceId, params.conversationId, params.messageId, {
+          force: params.force
+        })
+        return { success: true, data: result }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message }
+      }
+    }
+  )
+
+  ipcMain.handle('change-set:history', async (_event, spaceId: string) => {
+    try {
+      const data = { changeSets: listChangeHistory(spaceId), stats: getChangeHistoryStats(spaceId) }
+      return { success: true, data }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('change-set:read-snapshot', async (_event, spaceId: string, hash: string) => {
+    try {
+      const data = readChangeSnapshot(spaceId, hash)
+      if (!data) {
+        return { success: false, error: `Snapshot not found: ${hash}` }
+      }
+      return { success: true, data: data.toString('base64') }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle(
+    'change-set:prune-history',
+    async (_event, spaceId: string, options: PruneChangeHistoryOptions) => {
+      try {
+        const data = pruneChangeHistory(spaceId, options || {})
+        return { success: true, data }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message }
+      }
+    }
+  )
 }
@@ -4,7 +4,16 @@
 
 import { ipcMain } from 'electron'
 import { getConfig, saveConfig, validateApiConnection } from '../services/config.service'
+import {
+  clearHookLog,
+  getHookLog,
+  listCommandRules,
+  listHooks,
+  removeCommandRule,
+  testHook
+} from '../controllers/config.controller'
 import type { ProviderProtocol } from '../../shared/types/ai-profile'
+import type { CommandRuleScope } from '../../shared/types/command-rules'
 
 export function registerConfigHandlers(): void {
   // Get configuration
@@ -49,4 +58,36 @@ export function registerConfigHandlers(): void {
       }
     }
   )
+
+  // List remembered Bash command rules
+  ipcMain.handle('config:list-command-rules', async (_event, spaceId?: string) => {
+    return listCommandRules(spaceId)
+  })
+
+  // Revoke a remembered Bash command rule
+  ipcMain.handle(
+    'config:remove-command-rule',
+    async (_event, scope: CommandRuleScope, ruleId: string, spaceId?: string) => {
+      return removeCommandRule(scope, ruleId, spaceId)
+    }
+  )
+
+  // Merged hooks for a space
+  ipcMain.handle('config:list-hooks', async (_event, spaceId: string) => {
+    return listHooks(spaceId)
+  })
+
+  // Recent hook invocations in a space
+  ipcMain.handle('config:get-hook-log', async (_event, spaceId: string) => {
+    return getHookLog(spaceId)
+  })
+
+  ipcMain.handle('config:clear-hook-log', async (_event, spaceId: string) => {
+    return clearHookLog(spaceId)
+  })
+
+  // Dry-run a hook against a sample event payload
+  ipcMain.handle('config:test-hook', async (_event, spaceId: string, request: unknown) => {
+    return testHook(spaceId, request)
+  })
 }
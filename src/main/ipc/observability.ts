@@ -0,0 +1,22 @@
+/**
+ * Observability IPC Handlers - Local run explorer
+ */
+
+import { ipcMain } from 'electron'
+import { clearRuns, getRun, listRuns } from '../controllers/observability.controller'
+
+export function registerObservabilityHandlers(): void {
+  // Stored runs, filtered and sorted
+  ipcMain.handle('observability:list-runs', async (_event, query: unknown) => {
+    return listRuns(query)
+  })
+
+  // One run with phase and tool timings
+  ipcMain.handle('observability:get-run', async (_event, runId: string) => {
+    return getRun(runId)
+  })
+
+  ipcMain.handle('observability:clear-runs', async () => {
+    return clearRuns()
+  })
+}
@@ -11,8 +11,14 @@ import {
   disableTunnel,
   getRemoteAccessStatus,
   generateQRCode,
-  onRemoteAccessStatusChange
+  onRemoteAccessStatusChange,
+  createRemoteAccessToken,
+  listRemoteAccessTokens,
+  revokeRemoteAccessToken,
+  enableNewDeviceNotifications
 } from '../services/remote.service'
+import { clearRemoteAccessLog, listRemoteAccessLog } from '../services/remote-access-log.service'
+import type { RemoteAccessLogQuery, RemoteAccessTokenRequest } from '../../shared/types/remote-access'
 
 let mainWindow: BrowserWindow | null = null
 
@@ -78,9 +84,9 @@ export function registerRemoteHandlers(window: BrowserWindow | null): void {
   })
 
   // Generate QR code
-  ipcMain.handle('remote:qrcode', async (_event, includeToken?: boolean) => {
+  ipcMain.handle('remote:qrcode', async () => {
     try {
-      const qrCode = await generateQRCode(includeToken)
+      const qrCode = await generateQRCode()
       return { success: true, data: { qrCode } }
     } catch (error: unknown) {
       const err = error as Error
@@ -88,6 +94,60 @@ export function registerRemoteHandlers(window: BrowserWindow | null): void {
     }
   })
 
+  // Device tokens
+  ipcMain.handle('remote:tokens:list', async () => {
+    try {
+      return { success: true, data: listRemoteAccessTokens() }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('remote:tokens:create', async (_event, input: RemoteAccessTokenRequest) => {
+    try {
+      const created = await createRemoteAccessToken(input)
+      return { success: true, data: created }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('remote:tokens:revoke', async (_event, tokenId: string) => {
+    try {
+      if (!revokeRemoteAccessToken(tokenId)) {
+        return { success: false, error: 'Token not found' }
+      }
+      return { success: true }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  // Access log
+  ipcMain.handle('remote:access-log:list', async (_event, query?: RemoteAccessLogQuery) => {
+    try {
+      return { success: true, data: listRemoteAccessLog(query) }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('remote:access-log:clear', async () => {
+    try {
+      clearRemoteAccessLog()
+      return { success: true }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  enableNewDeviceNotifications()
+
   // Set up status change listener
   onRemoteAccessStatusChange((status) => {
     if (mainWindow && !mainWindow.isDestroyed()) {
@@ -7,6 +7,7 @@
 
 import { ipcMain, BrowserWindow } from 'electron'
 import { searchService, SearchResult } from '../services/search.service'
+import { flushSearchIndex } from '../services/search-index.service'
 
 let mainWindow: BrowserWindow | null = null
 let currentSearchId: string | null = null
@@ -80,6 +81,58 @@ export function initializeSearchHandlers(window: BrowserWindow | null): void {
     }
   })
 
+  /**
+   * Search by similar meaning (semantic index)
+   * IPC Channel: 'search:semantic'
+   *
+   * Args: same as 'search:execute'
+   *
+   * Returns: SemanticSearchHit[]
+   */
+  ipcMain.handle('search:semantic', async (_event, query, scope, conversationId, spaceId) => {
+    const searchId = Math.random().toString(36).slice(2)
+    currentSearchId = searchId
+
+    try {
+      const hits = await searchService.searchSimilar(
+        query,
+        scope,
+        conversationId,
+        spaceId,
+        (current, total) => {
+          if (currentSearchId === searchId && mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('search:progress', {
+              current,
+              total,
+              searchId
+            })
+          }
+        }
+      )
+
+      if (currentSearchId === searchId) {
+        currentSearchId = null
+        return {
+          success: true,
+          data: hits
+        }
+      }
+
+      return {
+        success: false,
+        error: 'Search was cancelled'
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error('Semantic search error:', error)
+
+      return {
+        success: false,
+        error: errorMessage
+      }
+    }
+  })
+
   /**
    * Cancel ongoing search
    * IPC Channel: 'search:cancel'
@@ -102,4 +155,5 @@ export function initializeSearchHandlers(window: BrowserWindow | null): void {
 export function cleanupSearchHandlers(): void {
   currentSearchId = null
   searchService.cancel()
+  flushSearchIndex()
 }
@@ -15,7 +15,8 @@ import {
   copySkillToSpace,
   copySkillToSpaceByRef,
   clearSkillsCache,
-  invalidateSkillsCache
+  invalidateSkillsCache,
+  type SaveSopSkillInput
 } from '../services/skills.service'
 import { clearAgentsCache, invalidateAgentsCache } from '../services/agents.service'
 import { clearCommandsCache, invalidateCommandsCache } from '../services/commands.service'
@@ -85,22 +86,9 @@ export function registerSkillsHandlers(): void {
   // Save SOP recording into a skill (create or update)
   ipcMain.handle(
     'skills:save-sop-recording',
-    async (
-      _event,
-      payload: {
-        workDir: string
-        skillName: string
-        description?: string
-        sopSpec: {
-          version: string
-          name: string
-          steps: Array<Record<string, unknown>>
-          meta?: Record<string, unknown>
-        }
-      }
-    ) => {
+    async (_event, payload: SaveSopSkillInput) => {
       try {
-        const result = saveSopSkill(payload as Parameters<typeof saveSopSkill>[0])
+        const result = saveSopSkill(payload)
         return { success: true, data: result }
       } catch (error: unknown) {
         const err = error as Error
@@ -10,6 +10,25 @@ import {
   updateWorkflow,
   deleteWorkflow
 } from '../services/workflow.service'
+import {
+  initWorkflowRunner,
+  startWorkflowRun,
+  stopWorkflowRun,
+  resumeWorkflowRun,
+  getWorkflowRun,
+  listWorkflowRuns
+} from '../services/workflow-runner.service'
+import {
+  listMissedWorkflowTriggers,
+  dismissMissedWorkflowTrigger,
+  runMissedWorkflowTrigger
+} from '../services/workflow-trigger.service'
+import {
+  exportWorkflowBundle,
+  previewWorkflowImport,
+  importWorkflowBundle,
+  type WorkflowImportResolution
+} from '../services/workflow-bundle.service'
 import * as agentController from '../controllers/agent.controller'
 import type { InvocationContext } from '../../shared/resource-access'
 import type { LocaleCode } from '../../shared/i18n/locale'
@@ -50,6 +69,8 @@ interface WorkflowStepSendRequest {
 }
 
 export function registerWorkflowHandlers(mainWindow: BrowserWindow | null): void {
+  initWorkflowRunner(mainWindow)
+
   ipcMain.handle('workflow:list', async (_event, spaceId: string) => {
     try {
       const workflows = listWorkflows(spaceId)
@@ -121,4 +142,125 @@ export function registerWorkflowHandlers(mainWindow: BrowserWindow | null): void
       return { success: false, error: err.message }
     }
   })
+
+  ipcMain.handle('workflow:start-run', async (_event, spaceId: string, workflowId: string, options?: { responseLanguage?: string }) => {
+    try {
+      const run = startWorkflowRun(spaceId, workflowId, options)
+      return { success: true, data: run }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:stop-run', async (_event, spaceId: string, runId: string) => {
+    try {
+      const run = await stopWorkflowRun(spaceId, runId)
+      if (!run) {
+        return { success: false, error: `Workflow run not found: ${runId}` }
+      }
+      return { success: true, data: run }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:resume-run', async (_event, spaceId: string, runId: string) => {
+    try {
+      const run = resumeWorkflowRun(spaceId, runId)
+      return { success: true, data: run }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:get-run', async (_event, spaceId: string, runId: string) => {
+    try {
+      const run = getWorkflowRun(spaceId, runId)
+      if (!run) {
+        return { success: false, error: `Workflow run not found: ${runId}` }
+      }
+      return { success: true, data: run }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:list-runs', async (_event, spaceId: string, workflowId?: string) => {
+    try {
+      const runs = listWorkflowRuns(spaceId, workflowId)
+      return { success: true, data: runs }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:list-missed-triggers', async (_event, spaceId: string) => {
+    try {
+      const missed = listMissedWorkflowTriggers(spaceId)
+      return { success: true, data: missed }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:run-missed-trigger', async (_event, spaceId: string, missedId: string) => {
+    try {
+      const run = runMissedWorkflowTrigger(spaceId, missedId)
+      return { success: true, data: run }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:dismiss-missed-trigger', async (_event, spaceId: string, missedId: string) => {
+    try {
+      const dismissed = dismissMissedWorkflowTrigger(spaceId, missedId)
+      return { success: true, data: dismissed }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:export-bundle', async (_event, spaceId: string, workflowId: string) => {
+    try {
+      const result = exportWorkflowBundle(spaceId, workflowId)
+      return { success: true, data: result }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:preview-import', async (_event, spaceId: string, bundle: unknown) => {
+    try {
+      const preview = previewWorkflowImport(spaceId, bundle)
+      return { success: true, data: preview }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('workflow:import-bundle', async (
+    _event,
+    spaceId: string,
+    bundle: unknown,
+    resolutions?: Record<string, WorkflowImportResolution>
+  ) => {
+    try {
+      const result = importWorkflowBundle(spaceId, bundle, resolutions)
+      return { success: true, data: result }
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err.message }
+    }
+  })
 }
@@ -11,6 +11,8 @@
  * - Tool/function calling support
  * - Image handling (base64/URL)
  * - Thinking/reasoning support
+ * - Per-backend concurrency limits, retry with backoff and a circuit breaker
+ * - Fallback chains across OpenAI-compatible and Anthropic backends
  *
  * Usage:
  * ```typescript
@@ -39,7 +41,13 @@ export {
   stopOpenAICompatRouter,
   getRouterInfo,
   isRouterRunning,
-  createApp
+  createApp,
+  // Provider health (circuit breaker)
+  getProviderHealth,
+  onProviderHealthChange,
+  // Fallback chains
+  getLastBackendAnswer,
+  clearBackendAnswer
 } from './server'
 
 // ============================================================================
@@ -112,6 +120,7 @@ export {
 export type {
   // Shared types
   OpenAIWireApiType,
+  BackendProtocol,
   BackendConfig,
   RouterServerInfo,
   RouterOptions,
@@ -148,3 +157,5 @@ export type {
   OpenAIResponsesTool,
   OpenAIResponsesStreamEvent
 } from './types'
+
+export type { ProviderHealth, ProviderHealthState, BackendAnswer } from './server'
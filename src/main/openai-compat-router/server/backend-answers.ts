@@ -0,0 +1,34 @@
+/**
+ * Backend Answers
+ *
+ * Remembers which backend of a fallback chain answered the latest request for
+ * a caller tag, so the caller can attribute the reply to the right profile.
+ */
+
+export interface BackendAnswer {
+  profileId?: string
+  profileName?: string
+  model?: string
+  backendUrl: string
+  /** Position in the chain (0 = primary backend) */
+  chainIndex: number
+  answeredAt: number
+}
+
+const answers = new Map<string, BackendAnswer>()
+
+export function recordBackendAnswer(tag: string, answer: BackendAnswer): void {
+  answers.set(tag, answer)
+}
+
+/**
+ * Backend that answered the latest request for a tag
+ */
+export function getLastBackendAnswer(tag: string): BackendAnswer | undefined {
+  const answer = answers.get(tag)
+  return answer ? { ...answer } : undefined
+}
+
+export function clearBackendAnswer(tag: string): void {
+  answers.delete(tag)
+}
@@ -0,0 +1,153 @@
+/**
+ * Provider Circuit Breaker
+ *
+ * Tracks consecutive upstream failures per backend URL + key. Once a provider
+ * keeps failing, the breaker opens: it is reported as degraded and new requests
+ * hold back until the cooldown ends instead of hammering it. Requests after the
+ * cooldown act as probes - a success closes the breaker, another failure
+ * reopens it straight away with a longer cooldown.
+ */
+
+export type ProviderHealthState = 'healthy' | 'degraded'
+
+/**
+ * Provider health as reported to the UI (never includes the API key)
+ */
+export interface ProviderHealth {
+  backendUrl: string
+  profileId?: string
+  profileName?: string
+  state: ProviderHealthState
+  consecutiveFailures: number
+  lastError?: string
+  /** Epoch ms when requests resume while degraded */
+  retryAt?: number
+  updatedAt: number
+}
+
+export interface ProviderFailure {
+  backendUrl: string
+  profileId?: string
+  profileName?: string
+  error: string
+  retryAfterMs?: number
+}
+
+type ProviderHealthListener = (health: ProviderHealth) => void
+
+const FAILURE_THRESHOLD = 5
+const BASE_COOLDOWN_MS = 15 * 1000
+const MAX_COOLDOWN_MS = 2 * 60 * 1000
+
+interface BreakerState {
+  health: ProviderHealth
+  /** Times the breaker opened without a success in between */
+  openCount: number
+}
+
+const breakers = new Map<string, BreakerState>()
+const listeners = new Set<ProviderHealthListener>()
+
+function emit(health: ProviderHealth): void {
+  const snapshot = { ...health }
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(snapshot)
+    } catch (error) {
+      console.error('[CircuitBreaker] Health listener failed:', error)
+    }
+  }
+}
+
+/**
+ * Milliseconds to hold a request before sending it (0 when the breaker is closed
+ * or its cooldown has passed)
+ */
+export function getCircuitDelay(key: string, now = Date.now()): number {
+  const retryAt = breakers.get(key)?.health.retryAt
+  return retryAt && retryAt > now ? retryAt - now : 0
+}
+
+/**
+ * Record a retryable upstream failure; opens the breaker at the threshold
+ */
+export function recordProviderFailure(key: string, failure: ProviderFailure, now = Date.now()): ProviderHealth {
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = {
+      health: { backendUrl: failure.backendUrl, state: 'healthy', consecutiveFailures: 0, updatedAt: now },
+      openCount: 0
+    }
+    breakers.set(key, breaker)
+  }
+
+  const health = breaker.health
+  health.profileId = failure.profileId ?? health.profileId
+  health.profileName = failure.profileName ?? health.profileName
+  health.consecutiveFailures++
+  health.lastError = failure.error
+  health.updatedAt = now
+
+  // Failures from requests already in flight don't extend a running cooldown
+  const degraded = health.state === 'degraded'
+  const cooling = degraded && (health.retryAt ?? 0) > now
+  if (!cooling && (degraded || health.consecutiveFailures >= FAILURE_THRESHOLD)) {
+    const cooldown = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** breaker.openCount)
+    breaker.openCount++
+    health.state = 'degraded'
+    health.retryAt = now + Math.max(cooldown, failure.retryAfterMs ?? 0)
+    health.consecutiveFailures = 0
+    console.warn(
+      `[CircuitBreaker] ${failure.backendUrl} degraded, holding requests for ${health.retryAt - now}ms: ${failure.error}`
+    )
+    emit(health)
+  }
+
+  return { ...health }
+}
+
+/**
+ * Record a request the provider answered; closes an open breaker
+ */
+export function recordProviderSuccess(key: string, now = Date.now()): void {
+  const breaker = breakers.get(key)
+  if (!breaker) return
+
+  const wasDegraded = breaker.health.state === 'degraded'
+  breakers.delete(key)
+  if (wasDegraded) {
+    console.log(`[CircuitBreaker] ${breaker.health.backendUrl} recovered`)
+    emit({
+      ...breaker.health,
+      state: 'healthy',
+      consecutiveFailures: 0,
+      lastError: undefined,
+      retryAt: undefined,
+      updatedAt: now
+    })
+  }
+}
+
+/**
+ * Current health of every provider that has failed recently
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(breakers.values()).map(breaker => ({ ...breaker.health }))
+}
+
+/**
+ * Subscribe to degraded/recovered transitions
+ */
+export function onProviderHealthChange(listener: ProviderHealthListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Reset all breakers (for testing)
+ */
+export function clearCircuitBreakers(): void {
+  breakers.clear()
+}
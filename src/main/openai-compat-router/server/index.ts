@@ -105,4 +105,8 @@ export function isRouterRunning(): boolean {
 export { createApp } from './router'
 export { handleMessagesRequest, handleCountTokensRequest } from './request-handler'
 export { withRequestQueue, generateQueueKey, clearRequestQueues, getPendingRequestCount } from './request-queue'
+export { getProviderHealth, onProviderHealthChange, clearCircuitBreakers } from './circuit-breaker'
+export type { ProviderHealth, ProviderHealthState } from './circuit-breaker'
+export { getLastBackendAnswer, clearBackendAnswer } from './backend-answers'
+export type { BackendAnswer } from './backend-answers'
 export { getApiTypeFromUrl, isValidEndpointUrl, getEndpointUrlError, shouldForceStream } from './api-type'
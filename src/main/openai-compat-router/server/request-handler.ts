@@ -1,7 +1,8 @@
 /**
  * Request Handler
  *
- * Core logic for handling Anthropic -> OpenAI -> Anthropic conversion.
+ * Core logic for handling Anthropic -> OpenAI -> Anthropic conversion, and for
+ * passing requests through to Anthropic backends in a fallback chain.
  * URL is the single source of truth - no inference, no override.
  */
 
@@ -19,14 +20,51 @@ import {
 } from '../stream'
 import { getApiTypeFromUrl, isValidEndpointUrl, getEndpointUrlError, shouldForceStream } from './api-type'
 import { withRequestQueue, generateQueueKey } from './request-queue'
+import {
+  DEFAULT_MAX_RETRIES,
+  computeBackoffDelay,
+  isConnectionError,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep
+} from './retry'
+import { getCircuitDelay, recordProviderFailure, recordProviderSuccess } from './circuit-breaker'
+import { recordBackendAnswer } from './backend-answers'
 
 export interface RequestHandlerOptions {
   debug?: boolean
   timeoutMs?: number
+  /** anthropic-* headers from the client, forwarded to Anthropic backends */
+  anthropicHeaders?: Record<string, string>
 }
 
 const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000 // 10 minutes
 
+/**
+ * Thrown when the provider's circuit breaker stays open past the request deadline
+ */
+class ProviderDegradedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderDegradedError'
+  }
+}
+
+interface UpstreamContext {
+  queueKey: string
+  config: BackendConfig
+  targetUrl: string
+  headers: Record<string, string>
+  timeoutMs: number
+  maxRetries: number
+  /** Epoch ms after which no further retry or wait is started */
+  deadline: number
+  /** Fires when the client goes away, cancelling pending retry waits */
+  signal: AbortSignal
+  /** Wait out an open circuit breaker; otherwise fail fast so a fallback can answer */
+  waitForCircuit: boolean
+}
+
 /**
  * Send error response in Anthropic format
  */
@@ -47,7 +85,7 @@ function sendError(
  */
 async function fetchUpstream(
   targetUrl: string,
-  apiKey: string,
+  headers: Record<string, string>,
   body: unknown,
   timeoutMs: number,
   signal?: AbortSignal
@@ -58,23 +96,128 @@ async function fetchUpstream(
     controller.abort()
   }, timeoutMs)
 
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
   try {
     return await fetch(targetUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`
+        ...headers
       },
       body: JSON.stringify(body),
-      signal: signal ?? controller.signal
+      signal: controller.signal
     })
   } finally {
     clearTimeout(timeout)
+    signal?.removeEventListener('abort', onAbort)
   }
 }
 
+function describeError(error: unknown): string {
+  const err = error as { message?: string; cause?: { code?: string } }
+  return err?.cause?.code ?? err?.message ?? String(error)
+}
+
+/**
+ * Make upstream request, retrying 429/5xx/connection resets with backoff
+ *
+ * Waits out an open circuit breaker first (or fails fast when a fallback is next). Returns the last response once
+ * retries (or the deadline) are exhausted so the caller reports the real error.
+ */
+async function fetchUpstreamWithRetry(context: UpstreamContext, body: unknown): Promise<globalThis.Response> {
+  const { queueKey, config, targetUrl, headers, timeoutMs, maxRetries, deadline, signal } = context
+  const failure = { backendUrl: config.url, profileId: config.profileId, profileName: config.profileName }
+
+  for (let attempt = 0; ; attempt++) {
+    const circuitDelay = getCircuitDelay(queueKey)
+    if (circuitDelay > 0) {
+      if (!context.waitForCircuit || Date.now() + circuitDelay > deadline) {
+        throw new ProviderDegradedError(`Provider degraded: ${config.url} is failing repeatedly, try again later`)
+      }
+      console.warn(`[RequestHandler] Provider degraded, waiting ${circuitDelay}ms before sending`)
+      await sleep(circuitDelay, signal)
+    }
+
+    const canRetry = attempt < maxRetries
+    let response: globalThis.Response
+    try {
+      response = await fetchUpstream(targetUrl, headers, body, timeoutMs, signal)
+    } catch (error) {
+      if (!isConnectionError(error)) throw error
+      recordProviderFailure(queueKey, { ...failure, error: describeError(error) })
+      const delay = computeBackoffDelay(attempt)
+      if (!canRetry || Date.now() + delay > deadline) throw error
+      console.warn(`[RequestHandler] Connection error (${describeError(error)}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`)
+      await sleep(delay, signal)
+      continue
+    }
+
+    if (!isRetryableStatus(response.status)) {
+      recordProviderSuccess(queueKey)
+      return response
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+    recordProviderFailure(queueKey, { ...failure, error: `HTTP ${response.status}`, retryAfterMs })
+    const delay = computeBackoffDelay(attempt, retryAfterMs)
+    if (!canRetry || Date.now() + delay > deadline) return response
+
+    console.warn(`[RequestHandler] Provider ${response.status}, retry ${attempt + 1}/${maxRetries} in ${delay}ms`)
+    await response.body?.cancel().catch(() => {})
+    await sleep(delay, signal)
+  }
+}
+
+/**
+ * Outcome of a backend that did not answer, reported to the client unless
+ * another backend in the chain takes over
+ */
+interface BackendFailure {
+  statusCode: number
+  errorType: string
+  message: string
+}
+
+/**
+ * Auth failures, timeouts, rate limits that outlasted retries and server errors
+ * (including a degraded provider) move on to the next backend in the chain
+ */
+function shouldFallBack(failure: BackendFailure): boolean {
+  const { statusCode } = failure
+  return statusCode === 401 || statusCode === 403 || statusCode === 408 || statusCode === 429 || statusCode >= 500
+}
+
+function upstreamFailure(status: number, errorText: string): BackendFailure {
+  return {
+    statusCode: status,
+    errorType: status === 429 ? 'rate_limit_error' : 'api_error',
+    message: `Provider error: ${errorText || `HTTP ${status}`}`
+  }
+}
+
+function toAnthropicMessagesUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '')
+  return trimmed.endsWith('/v1/messages') ? trimmed : `${trimmed}/v1/messages`
+}
+
+interface BackendRequestOptions {
+  debug: boolean
+  timeoutMs: number
+  /** Fires when the client goes away, cancelling pending retry waits */
+  signal: AbortSignal
+  /** Wait out an open circuit breaker instead of failing straight away */
+  waitForCircuit: boolean
+  /** anthropic-* headers from the client, forwarded to Anthropic backends */
+  anthropicHeaders?: Record<string, string>
+}
+
 /**
  * Handle messages request
+ *
+ * Tries the configured backend, then each of its fallbacks in order. A backend
+ * is only abandoned before anything has been written to the client.
  */
 export async function handleMessagesRequest(
   anthropicRequest: AnthropicRequest,
@@ -82,119 +225,270 @@ export async function handleMessagesRequest(
   res: ExpressResponse,
   options: RequestHandlerOptions = {}
 ): Promise<void> {
-  const { debug = false, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+  const { debug = false, timeoutMs = DEFAULT_TIMEOUT_MS, anthropicHeaders } = options
+  const { fallbacks = [], tag, ...primary } = config
+  const chain: BackendConfig[] = [primary, ...fallbacks.map(({ fallbacks: _nested, tag: _tag, ...hop }) => hop)]
+
+  // Stop waiting to retry once the client has gone away
+  const clientGone = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) clientGone.abort()
+  })
+
+  for (let index = 0; index < chain.length; index++) {
+    const backend = chain[index]
+    const isLast = index === chain.length - 1
+    // Each backend gets the original request (with its own model)
+    const failure = await sendToBackend({ ...anthropicRequest }, backend, res, {
+      debug,
+      timeoutMs,
+      signal: clientGone.signal,
+      waitForCircuit: isLast,
+      anthropicHeaders
+    })
+
+    if (!failure) {
+      if (tag) {
+        recordBackendAnswer(tag, {
+          profileId: backend.profileId,
+          profileName: backend.profileName,
+          model: backend.model || anthropicRequest.model,
+          backendUrl: backend.url,
+          chainIndex: index,
+          answeredAt: Date.now()
+        })
+      }
+      return
+    }
+
+    if (res.headersSent) {
+      console.error(`[RequestHandler] ${failure.message} (response already started)`)
+      if (!res.writableEnded) res.end()
+      return
+    }
+
+    if (!isLast && !clientGone.signal.aborted && shouldFallBack(failure)) {
+      const next = chain[index + 1]
+      console.warn(
+        `[RequestHandler] ${backend.profileName ?? backend.url} failed (${failure.statusCode}), falling back to ${next.profileName ?? next.url}`
+      )
+      continue
+    }
+
+    return sendError(res, failure.statusCode, failure.errorType, failure.message)
+  }
+}
+
+/**
+ * Send the request to a single backend and write its answer to the client
+ *
+ * Returns null once the answer has been written, or the failure otherwise.
+ */
+async function sendToBackend(
+  anthropicRequest: AnthropicRequest,
+  config: BackendConfig,
+  res: ExpressResponse,
+  options: BackendRequestOptions
+): Promise<BackendFailure | null> {
+  const { debug, timeoutMs, signal, waitForCircuit } = options
   const { url: backendUrl, key: apiKey, model } = config
+  const isAnthropic = config.protocol === 'anthropic'
 
   // Validate URL has valid endpoint suffix
-  if (!isValidEndpointUrl(backendUrl)) {
-    return sendError(res, 400, 'invalid_request_error', getEndpointUrlError(backendUrl))
+  if (!isAnthropic && !isValidEndpointUrl(backendUrl)) {
+    return { statusCode: 400, errorType: 'invalid_request_error', message: getEndpointUrlError(backendUrl) }
   }
 
-  // Get API type from URL suffix (guaranteed non-null after validation)
-  const apiType = getApiTypeFromUrl(backendUrl)!
-
   // Override model if specified in config
   if (model) {
     anthropicRequest.model = model
   }
 
+  const targetUrl = isAnthropic ? toAnthropicMessagesUrl(backendUrl) : backendUrl
+
   if (debug) {
-    console.log('[RequestHandler] Backend:', backendUrl)
+    console.log('[RequestHandler] Backend:', targetUrl)
     console.log('[RequestHandler] API Key:', apiKey.slice(0, 8) + '...')
-    console.log('[RequestHandler] ApiType:', apiType)
   }
 
-  // Use request queue to prevent concurrent requests
-  const queueKey = generateQueueKey(backendUrl, apiKey)
+  // Use request queue to limit concurrent requests per backend + key
+  const queueKey = generateQueueKey(targetUrl, apiKey)
 
-  await withRequestQueue(queueKey, async () => {
+  const upstream: UpstreamContext = {
+    queueKey,
+    config,
+    targetUrl,
+    headers: isAnthropic
+      ? {
+          'x-api-key': apiKey,
+          Authorization: `Bearer ${apiKey}`,
+          'anthropic-version': '2023-06-01',
+          ...options.anthropicHeaders
+        }
+      : { Authorization: `Bearer ${apiKey}` },
+    timeoutMs,
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+    deadline: Date.now() + timeoutMs,
+    signal,
+    waitForCircuit
+  }
+
+  return withRequestQueue(queueKey, async (): Promise<BackendFailure | null> => {
     try {
-      // Determine stream mode
-      const forceEnvStream = shouldForceStream()
-      const preferStreamByWire = apiType === 'responses' && anthropicRequest.stream === undefined
-      let wantStream = forceEnvStream || preferStreamByWire || anthropicRequest.stream
-
-      // Convert request
-      const requestToSend = { ...anthropicRequest, stream: wantStream }
-      const openaiRequest = apiType === 'responses'
-        ? convertAnthropicToOpenAIResponses(requestToSend).request
-        : convertAnthropicToOpenAIChat(requestToSend).request
-
-      const toolCount = (openaiRequest as any).tools?.length ?? 0
-      console.log(`[RequestHandler] wire=${apiType} tools=${toolCount}`)
-      console.log(`[RequestHandler] POST ${backendUrl} (stream=${wantStream ?? false})`)
-
-      // Make upstream request - URL is used directly, no modification
-      let upstreamResp = await fetchUpstream(backendUrl, apiKey, openaiRequest, timeoutMs)
-      console.log(`[RequestHandler] Upstream response: ${upstreamResp.status}`)
-
-      // Handle errors
-      if (!upstreamResp.ok) {
-        const errorText = await upstreamResp.text().catch(() => '')
+      if (isAnthropic) {
+        return await passThroughAnthropic(anthropicRequest, upstream, res)
+      }
+      return await translateOpenAI(anthropicRequest, upstream, res, debug)
+    } catch (error: any) {
+      if (error instanceof ProviderDegradedError) {
+        console.error(`[RequestHandler] ${error.message}`)
+        return { statusCode: 529, errorType: 'overloaded_error', message: error.message }
+      }
 
-        // Rate limit - return immediately
-        if (upstreamResp.status === 429) {
-          console.error(`[RequestHandler] Provider 429: ${errorText.slice(0, 200)}`)
-          return sendError(res, 429, 'rate_limit_error', `Provider error: ${errorText || 'HTTP 429'}`)
-        }
+      // Handle abort/timeout
+      if (error?.name === 'AbortError') {
+        console.error('[RequestHandler] AbortError (timeout or client disconnect)')
+        return { statusCode: 504, errorType: 'timeout_error', message: 'Request timed out' }
+      }
 
-        // Check if upstream requires stream=true
-        const requiresStream = errorText?.toLowerCase().includes('stream must be set to true')
+      console.error('[RequestHandler] Internal error:', error?.message || error)
+      return { statusCode: 500, errorType: 'internal_error', message: error?.message || 'Internal error' }
+    }
+  }, config.maxConcurrent)
+}
 
-        if (requiresStream && !wantStream) {
-          console.warn('[RequestHandler] Upstream requires stream=true, retrying...')
+/**
+ * Forward the request to an Anthropic Messages endpoint and relay the answer
+ */
+async function passThroughAnthropic(
+  anthropicRequest: AnthropicRequest,
+  upstream: UpstreamContext,
+  res: ExpressResponse
+): Promise<BackendFailure | null> {
+  console.log(`[RequestHandler] POST ${upstream.targetUrl} (anthropic, stream=${anthropicRequest.stream ?? false})`)
 
-          // Retry with stream enabled
-          wantStream = true
-          const retryRequest = apiType === 'responses'
-            ? convertAnthropicToOpenAIResponses({ ...anthropicRequest, stream: true }).request
-            : convertAnthropicToOpenAIChat({ ...anthropicRequest, stream: true }).request
+  const upstreamResp = await fetchUpstreamWithRetry(upstream, anthropicRequest)
+  console.log(`[RequestHandler] Upstream response: ${upstreamResp.status}`)
 
-          upstreamResp = await fetchUpstream(backendUrl, apiKey, retryRequest, timeoutMs)
+  if (!upstreamResp.ok) {
+    const errorText = await upstreamResp.text().catch(() => '')
+    console.error(`[RequestHandler] Provider error ${upstreamResp.status}: ${errorText.slice(0, 200)}`)
+    return upstreamFailure(upstreamResp.status, errorText)
+  }
 
-          if (!upstreamResp.ok) {
-            const retryErrorText = await upstreamResp.text().catch(() => '')
-            console.error(`[RequestHandler] Provider error ${upstreamResp.status}: ${retryErrorText.slice(0, 200)}`)
-            return sendError(res, upstreamResp.status, 'api_error', `Provider error: ${retryErrorText || `HTTP ${upstreamResp.status}`}`)
-          }
-        } else {
-          console.error(`[RequestHandler] Provider error ${upstreamResp.status}: ${errorText.slice(0, 200)}`)
-          return sendError(res, upstreamResp.status, 'api_error', `Provider error: ${errorText || `HTTP ${upstreamResp.status}`}`)
-        }
-      }
+  if (!anthropicRequest.stream || !upstreamResp.body) {
+    res.json(await upstreamResp.json())
+    return null
+  }
 
-      // Handle streaming response
-      if (wantStream) {
-        res.setHeader('Content-Type', 'text/event-stream')
-        res.setHeader('Cache-Control', 'no-cache')
-        res.setHeader('Connection', 'keep-alive')
+  res.setHeader('Content-Type', upstreamResp.headers.get('content-type') || 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
 
-        if (apiType === 'responses') {
-          await streamOpenAIResponsesToAnthropic(upstreamResp.body, res, anthropicRequest.model, debug)
-        } else {
-          await streamOpenAIChatToAnthropic(upstreamResp.body, res, anthropicRequest.model, debug)
-        }
-        return
-      }
+  const reader = upstreamResp.body.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      res.write(Buffer.from(value))
+    }
+  } finally {
+    reader.releaseLock()
+    res.end()
+  }
+  return null
+}
 
-      // Handle non-streaming response
-      const openaiResponse = await upstreamResp.json()
-      const anthropicResponse = apiType === 'responses'
-        ? convertOpenAIResponsesToAnthropic(openaiResponse)
-        : convertOpenAIChatToAnthropic(openaiResponse, anthropicRequest.model)
+/**
+ * Translate the request to the OpenAI wire format and the answer back
+ */
+async function translateOpenAI(
+  anthropicRequest: AnthropicRequest,
+  upstream: UpstreamContext,
+  res: ExpressResponse,
+  debug: boolean
+): Promise<BackendFailure | null> {
+  const backendUrl = upstream.targetUrl
 
-      res.json(anthropicResponse)
-    } catch (error: any) {
-      // Handle abort/timeout
-      if (error?.name === 'AbortError') {
-        console.error('[RequestHandler] AbortError (timeout or client disconnect)')
-        return sendError(res, 504, 'timeout_error', 'Request timed out')
+  // Get API type from URL suffix (guaranteed non-null after validation)
+  const apiType = getApiTypeFromUrl(backendUrl)!
+
+  // Determine stream mode
+  const forceEnvStream = shouldForceStream()
+  const preferStreamByWire = apiType === 'responses' && anthropicRequest.stream === undefined
+  let wantStream = forceEnvStream || preferStreamByWire || anthropicRequest.stream
+
+  // Convert request
+  const requestToSend = { ...anthropicRequest, stream: wantStream }
+  const openaiRequest = apiType === 'responses'
+    ? convertAnthropicToOpenAIResponses(requestToSend).request
+    : convertAnthropicToOpenAIChat(requestToSend).request
+
+  const toolCount = (openaiRequest as any).tools?.length ?? 0
+  console.log(`[RequestHandler] wire=${apiType} tools=${toolCount}`)
+  console.log(`[RequestHandler] POST ${backendUrl} (stream=${wantStream ?? false})`)
+
+  // Make upstream request - URL is used directly, no modification
+  let upstreamResp = await fetchUpstreamWithRetry(upstream, openaiRequest)
+  console.log(`[RequestHandler] Upstream response: ${upstreamResp.status}`)
+
+  // Handle errors
+  if (!upstreamResp.ok) {
+    const errorText = await upstreamResp.text().catch(() => '')
+
+    // Rate limit - retries are exhausted at this point
+    if (upstreamResp.status === 429) {
+      console.error(`[RequestHandler] Provider 429: ${errorText.slice(0, 200)}`)
+      return upstreamFailure(429, errorText)
+    }
+
+    // Check if upstream requires stream=true
+    const requiresStream = errorText?.toLowerCase().includes('stream must be set to true')
+
+    if (requiresStream && !wantStream) {
+      console.warn('[RequestHandler] Upstream requires stream=true, retrying...')
+
+      // Retry with stream enabled
+      wantStream = true
+      const retryRequest = apiType === 'responses'
+        ? convertAnthropicToOpenAIResponses({ ...anthropicRequest, stream: true }).request
+        : convertAnthropicToOpenAIChat({ ...anthropicRequest, stream: true }).request
+
+      upstreamResp = await fetchUpstreamWithRetry(upstream, retryRequest)
+
+      if (!upstreamResp.ok) {
+        const retryErrorText = await upstreamResp.text().catch(() => '')
+        console.error(`[RequestHandler] Provider error ${upstreamResp.status}: ${retryErrorText.slice(0, 200)}`)
+        return upstreamFailure(upstreamResp.status, retryErrorText)
       }
+    } else {
+      console.error(`[RequestHandler] Provider error ${upstreamResp.status}: ${errorText.slice(0, 200)}`)
+      return upstreamFailure(upstreamResp.status, errorText)
+    }
+  }
 
-      console.error('[RequestHandler] Internal error:', error?.message || error)
-      return sendError(res, 500, 'internal_error', error?.message || 'Internal error')
+  // Handle streaming response
+  if (wantStream) {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+
+    if (apiType === 'responses') {
+      await streamOpenAIResponsesToAnthropic(upstreamResp.body, res, anthropicRequest.model, debug)
+    } else {
+      await streamOpenAIChatToAnthropic(upstreamResp.body, res, anthropicRequest.model, debug)
     }
-  })
+    return null
+  }
+
+  // Handle non-streaming response
+  const openaiResponse = await upstreamResp.json()
+  const anthropicResponse = apiType === 'responses'
+    ? convertOpenAIResponsesToAnthropic(openaiResponse)
+    : convertOpenAIChatToAnthropic(openaiResponse, anthropicRequest.model)
+
+  res.json(anthropicResponse)
+  return null
 }
 
 /**
@@ -1,39 +1,53 @@
 /**
  * Request Queue
  *
- * Prevents concurrent requests to the same upstream provider
- * This solves 429 errors caused by parallel request behavior
+ * Limits concurrent requests to the same upstream provider.
+ * Providers rate-limit per key, so unbounded parallel requests turn into 429s.
  */
 
-const requestQueues = new Map<string, Promise<void>>()
+interface QueueState {
+  active: number
+  waiting: Array<() => void>
+}
+
+const requestQueues = new Map<string, QueueState>()
 
 /**
  * Execute a function with request queue protection
  *
- * Ensures only one request per key is in flight at a time.
- * Subsequent requests wait for the previous one to complete.
+ * At most `maxConcurrent` requests per key are in flight at a time.
+ * Further requests wait, in arrival order, for a slot to free up.
  */
-export async function withRequestQueue<T>(key: string, fn: () => Promise<T>): Promise<T> {
-  // Wait for any pending request with the same key
-  const pending = requestQueues.get(key)
-  if (pending) {
-    await pending.catch(() => {}) // Ignore errors from previous request
+export async function withRequestQueue<T>(
+  key: string,
+  fn: () => Promise<T>,
+  maxConcurrent = 1
+): Promise<T> {
+  const limit = Math.max(1, Math.floor(maxConcurrent))
+  let state = requestQueues.get(key)
+  if (!state) {
+    state = { active: 0, waiting: [] }
+    requestQueues.set(key, state)
   }
 
-  // Create a new promise for this request
-  let resolve: () => void
-  const thisRequest = new Promise<void>((r) => {
-    resolve = r
-  })
-  requestQueues.set(key, thisRequest)
+  if (state.active >= limit) {
+    await new Promise<void>((resolve) => state!.waiting.push(resolve))
+  } else {
+    state.active++
+  }
 
   try {
     return await fn()
   } finally {
-    resolve!()
-    // Clean up if this is still the current request
-    if (requestQueues.get(key) === thisRequest) {
-      requestQueues.delete(key)
+    // Hand the slot straight to the next waiter, or release it
+    const next = state.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      state.active--
+      if (state.active === 0 && requestQueues.get(key) === state) {
+        requestQueues.delete(key)
+      }
     }
   }
 }
@@ -53,7 +67,7 @@ export function clearRequestQueues(): void {
 }
 
 /**
- * Get the number of pending requests (for monitoring)
+ * Get the number of keys with requests in flight (for monitoring)
  */
 export function getPendingRequestCount(): number {
   return requestQueues.size
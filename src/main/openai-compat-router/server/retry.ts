@@ -0,0 +1,96 @@
+/**
+ * Upstream Retry Policy
+ *
+ * Decides which upstream failures are worth retrying and how long to wait.
+ * Retries cover rate limits (429), server errors (5xx) and dropped connections.
+ */
+
+export const DEFAULT_MAX_RETRIES = 3
+
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30 * 1000
+const JITTER_RATIO = 0.2
+
+// Network error codes surfaced by undici as `error.cause.code`
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_CLOSED'
+])
+
+/**
+ * Whether an upstream HTTP status should be retried
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Whether a fetch rejection is a transient connection failure
+ * (aborts and programming errors are not)
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+  const err = error as { name?: string; code?: string; cause?: { code?: string } }
+  if (err.name === 'AbortError') return false
+  const code = err.code ?? err.cause?.code
+  return typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000)
+  }
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/**
+ * Exponential backoff with jitter for the given zero-based attempt.
+ * A server-provided Retry-After always wins over the computed delay.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt)
+  const jitter = exponential * JITTER_RATIO * (random() * 2 - 1)
+  return Math.round(exponential + jitter)
+}
+
+/**
+ * Wait for `ms`, rejecting with an AbortError if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('Aborted while waiting to retry'), { name: 'AbortError' })
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -64,8 +64,15 @@ export function createApp(options: RouterOptions = {}): Express {
       })
     }
 
+    // Anthropic backends in a fallback chain receive the client's protocol headers
+    const anthropicHeaders: Record<string, string> = {}
+    for (const name of ['anthropic-version', 'anthropic-beta']) {
+      const value = req.headers[name]
+      if (value) anthropicHeaders[name] = Array.isArray(value) ? value.join(',') : value
+    }
+
     // Handle the request
-    await handleMessagesRequest(anthropicRequest, decodedConfig, res, { debug, timeoutMs })
+    await handleMessagesRequest(anthropicRequest, decodedConfig, res, { debug, timeoutMs, anthropicHeaders })
   })
 
   // Token counting endpoint
@@ -22,6 +22,12 @@ export * from './openai-responses'
  */
 export type OpenAIWireApiType = 'chat_completions' | 'responses'
 
+/**
+ * Wire protocol of a backend: OpenAI endpoints are translated,
+ * Anthropic endpoints are passed through as-is
+ */
+export type BackendProtocol = 'openai' | 'anthropic'
+
 /**
  * Backend configuration for routing
  * URL must be complete endpoint (ending with /chat/completions or /responses)
@@ -30,6 +36,22 @@ export interface BackendConfig {
   url: string
   key: string
   model?: string
+  /** Kite profile the backend belongs to, used when reporting provider health */
+  profileId?: string
+  profileName?: string
+  /** Requests allowed in flight at once for this URL + key (default 1) */
+  maxConcurrent?: number
+  /** Retries for 429, 5xx and connection resets (default 3) */
+  maxRetries?: number
+  /**
+   * Backend protocol (default 'openai'). For 'anthropic' the url is the API base
+   * URL and requests go to `${url}/v1/messages` unchanged.
+   */
+  protocol?: BackendProtocol
+  /** Backends tried in order when this one fails with an auth, timeout or server error */
+  fallbacks?: BackendConfig[]
+  /** Caller tag under which the backend that answered is recorded */
+  tag?: string
 }
 
 /**
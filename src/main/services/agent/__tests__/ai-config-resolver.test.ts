@@ -9,9 +9,14 @@ vi.mock('../../conversation.service', () => ({
   getConversation: vi.fn()
 }))
 
+vi.mock('../../space.service', () => ({
+  getSpacePreferences: vi.fn()
+}))
+
 import { getConfig } from '../../config.service'
 import { getConversation } from '../../conversation.service'
-import { resolveEffectiveConversationAi } from '../ai-config-resolver'
+import { getSpacePreferences } from '../../space.service'
+import { buildProviderSignature, resolveEffectiveConversationAi } from '../ai-config-resolver'
 
 function createProfile(partial: Partial<ApiProfile>): ApiProfile {
   return {
@@ -168,4 +173,32 @@ describe('ai-config-resolver', () => {
     expect(resolved.disableImageForCompat).toBe(false)
     expect(resolved.compatProviderName).toBeNull()
   })
+
+  it('conversation fallback 链优先于 space 链，并跳过主 profile 与不可用 profile', () => {
+    vi.mocked(getSpacePreferences).mockReturnValue({ ai: { fallbackProfileIds: ['p-alt'] } } as any)
+    vi.mocked(getConversation).mockReturnValue({
+      ai: { profileId: 'p-default', fallbackProfileIds: ['p-default', 'p-missing', 'p-alt'] }
+    } as any)
+
+    const resolved = resolveEffectiveConversationAi('space-1', 'conv-1')
+    expect(resolved.fallbackProfiles.map(profile => profile.id)).toEqual(['p-alt'])
+    expect(resolved.providerSignature).not.toBe(buildProviderSignature(defaultProfile))
+
+    vi.mocked(getConversation).mockReturnValue({
+      ai: { profileId: 'p-default', fallbackProfileIds: [] }
+    } as any)
+    const disabled = resolveEffectiveConversationAi('space-1', 'conv-1')
+    expect(disabled.fallbackProfiles).toEqual([])
+    expect(disabled.providerSignature).toBe(buildProviderSignature(defaultProfile))
+  })
+
+  it('conversation 未设置 fallback 时继承 space 链', () => {
+    vi.mocked(getSpacePreferences).mockReturnValue({ ai: { fallbackProfileIds: ['p-alt'] } } as any)
+    vi.mocked(getConversation).mockReturnValue({
+      ai: { profileId: 'p-default' }
+    } as any)
+
+    const resolved = resolveEffectiveConversationAi('space-1', 'conv-1')
+    expect(resolved.fallbackProfiles.map(profile => profile.id)).toEqual(['p-alt'])
+  })
 })
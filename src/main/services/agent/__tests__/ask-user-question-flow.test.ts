@@ -80,7 +80,7 @@ function createSessionState(overrides: Partial<SessionState> = {}): SessionState
     toolCallSeq: 0,
     toolsById: new Map(),
     askUserQuestionModeByToolCallId: new Map(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map(),
     pendingAskUserQuestionsById: new Map(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map(),
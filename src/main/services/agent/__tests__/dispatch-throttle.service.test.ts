@@ -5,7 +5,7 @@ vi.mock('../../config.service', () => ({
 }))
 
 import { getConfig } from '../../config.service'
-import { acquireSendDispatchSlot, getDispatchQueueStats } from '../dispatch-throttle.service'
+import { acquireSendDispatchSlot, getDispatchQueueStats, waitForSendDispatchSlot } from '../dispatch-throttle.service'
 
 describe('dispatch-throttle.service', () => {
   beforeEach(() => {
@@ -60,5 +60,39 @@ describe('dispatch-throttle.service', () => {
     expect(stats.inFlightGlobal).toBe(0)
     expect(stats.inFlightBySpace['space-1']).toBeUndefined()
   })
-})
 
+  it('等待槽位释放后再分配', async () => {
+    vi.mocked(getConfig).mockReturnValue({
+      claudeCode: {
+        spaceQueueLimit: 1,
+        globalQueueLimit: 10
+      }
+    } as any)
+
+    const release = acquireSendDispatchSlot('space-1')
+    const waiting = waitForSendDispatchSlot('space-1', { pollIntervalMs: 5 })
+    setTimeout(release, 20)
+
+    const releaseWaiting = await waiting
+    expect(releaseWaiting).toBeTypeOf('function')
+    expect(getDispatchQueueStats().inFlightBySpace['space-1']).toBe(1)
+    releaseWaiting?.()
+  })
+
+  it('取消时不再等待槽位', async () => {
+    vi.mocked(getConfig).mockReturnValue({
+      claudeCode: {
+        spaceQueueLimit: 1,
+        globalQueueLimit: 10
+      }
+    } as any)
+
+    const release = acquireSendDispatchSlot('space-1')
+    let cancelled = false
+    const waiting = waitForSendDispatchSlot('space-1', { pollIntervalMs: 5, isCancelled: () => cancelled })
+    cancelled = true
+
+    await expect(waiting).resolves.toBeNull()
+    release()
+  })
+})
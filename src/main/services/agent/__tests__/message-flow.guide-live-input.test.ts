@@ -86,7 +86,7 @@ function createSessionState(overrides: Partial<SessionState> = {}): SessionState
     toolCallSeq: 0,
     toolsById: new Map(),
     askUserQuestionModeByToolCallId: new Map(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map(),
     pendingAskUserQuestionsById: new Map(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map(),
@@ -185,8 +185,14 @@ describe('message-flow guideLiveInput', () => {
   it('auto-rejects pending tool approval before live injection', async () => {
     const send = vi.fn()
     const approvalResolver = vi.fn()
-    const session = createSessionState({
-      pendingPermissionResolve: approvalResolver
+    const session = createSessionState()
+    session.pendingToolApprovalsById.set('tool-1', {
+      toolCallId: 'tool-1',
+      toolName: 'Bash',
+      runId: session.runId,
+      createdAt: Date.now(),
+      resolve: approvalResolver,
+      timeoutHandle: null
     })
     sessionManagerMocks.getActiveSession.mockReturnValue(session)
     sessionManagerMocks.getV2SessionInfo.mockReturnValue({ session: { send } })
@@ -198,7 +204,7 @@ describe('message-flow guideLiveInput', () => {
     })
 
     expect(approvalResolver).toHaveBeenCalledWith(false)
-    expect(session.pendingPermissionResolve).toBeNull()
+    expect(session.pendingToolApprovalsById.size).toBe(0)
     expect(send).toHaveBeenCalledTimes(1)
   })
 
@@ -44,7 +44,33 @@ describe('provider-resolver', () => {
         url: 'https://api.openai.com/v1/responses',
         key: 'openai-key',
         model: 'gpt-4o-mini',
-        apiType: 'responses'
+        apiType: 'responses',
+        profileId: 'openai-profile',
+        maxConcurrent: 1,
+        maxRetries: 3
+      })
+    )
+  })
+
+  it('openai_compat 把 profile 的并发与重试策略传给 router', async () => {
+    await resolveProvider({
+      id: 'shared-key',
+      name: 'Shared Key',
+      vendor: 'openai',
+      protocol: 'openai_compat',
+      apiUrl: 'https://api.openai.com/v1/chat/completions',
+      apiKey: 'openai-key',
+      defaultModel: 'gpt-4.1',
+      modelCatalog: ['gpt-4.1'],
+      enabled: true,
+      requestPolicy: { maxConcurrent: 4, maxRetries: 0 }
+    })
+
+    expect(encodeBackendConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        profileName: 'Shared Key',
+        maxConcurrent: 4,
+        maxRetries: 0
       })
     )
   })
@@ -116,6 +142,56 @@ describe('provider-resolver', () => {
     expect(resolved.useAnthropicCompatModelMapping).toBe(true)
   })
 
+  it('配置 fallback 链时 anthropic 主 profile 也经本地 router 转发', async () => {
+    const resolved = await resolveProvider({
+      id: 'anthropic-profile',
+      name: 'Anthropic',
+      vendor: 'anthropic',
+      protocol: 'anthropic_official',
+      apiUrl: 'https://api.anthropic.com',
+      apiKey: 'anthropic-key',
+      defaultModel: 'claude-sonnet-4-5',
+      modelCatalog: ['claude-sonnet-4-5'],
+      enabled: true
+    }, 'claude-opus-4-5', {
+      routeTag: 'conv-1',
+      fallbackProfiles: [{
+        id: 'backup',
+        name: 'Backup',
+        vendor: 'openai',
+        protocol: 'openai_compat',
+        apiUrl: 'https://llm.example.com/v1/chat/completions',
+        apiKey: 'backup-key',
+        defaultModel: 'gpt-4.1',
+        modelCatalog: ['gpt-4.1'],
+        enabled: true
+      }]
+    })
+
+    expect(resolved.anthropicBaseUrl).toBe('http://127.0.0.1:39200')
+    expect(resolved.sdkModel).toBe('claude-opus-4-5')
+    expect(encodeBackendConfig).toHaveBeenLastCalledWith({
+      url: 'https://api.anthropic.com',
+      key: 'anthropic-key',
+      model: 'claude-opus-4-5',
+      profileId: 'anthropic-profile',
+      profileName: 'Anthropic',
+      maxConcurrent: 1,
+      maxRetries: 3,
+      protocol: 'anthropic',
+      tag: 'conv-1',
+      fallbacks: [{
+        url: 'https://llm.example.com/v1/chat/completions',
+        key: 'backup-key',
+        model: 'gpt-4.1',
+        profileId: 'backup',
+        profileName: 'Backup',
+        maxConcurrent: 1,
+        maxRetries: 3
+      }]
+    })
+  })
+
   it('兼容 legacy ApiConfig 输入', async () => {
     const resolved = await resolveProvider({
       provider: 'anthropic',
@@ -74,7 +74,7 @@ function createSessionState(overrides: Partial<SessionState> = {}): SessionState
     toolCallSeq: 0,
     toolsById: new Map(),
     askUserQuestionModeByToolCallId: new Map(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map(),
     pendingAskUserQuestionsById: new Map(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map(),
@@ -144,9 +144,16 @@ describe('session.manager setSessionMode', () => {
   })
 
   it('returns blocked_pending_interaction when pending approval/question exists', async () => {
-    setActiveSession(spaceId, conversationId, createSessionState({
-      pendingPermissionResolve: vi.fn()
-    }))
+    const session = createSessionState()
+    session.pendingToolApprovalsById.set('tool-1', {
+      toolCallId: 'tool-1',
+      toolName: 'Bash',
+      runId: 'run-1',
+      createdAt: Date.now(),
+      resolve: vi.fn(),
+      timeoutHandle: null
+    })
+    setActiveSession(spaceId, conversationId, session)
     const result = await setSessionMode(spaceId, conversationId, 'plan', 'run-1')
     expect(result.applied).toBe(false)
     expect(result.reason).toBe('blocked_pending_interaction')
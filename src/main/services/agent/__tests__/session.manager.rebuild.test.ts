@@ -85,7 +85,7 @@ function createRunningSessionState(conversationId: string): SessionState {
     toolCallSeq: 0,
     toolsById: new Map(),
     askUserQuestionModeByToolCallId: new Map(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map(),
     pendingAskUserQuestionsById: new Map(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map(),
@@ -1,15 +1,18 @@
 /**
  * AI Config Resolver
  *
- * Resolve effective AI profile/model for one conversation.
+ * Resolve effective AI profile/model for one conversation, plus the fallback
+ * profiles tried when it fails (conversation chain, else the space chain).
  */
 
 import { createHash } from 'crypto'
 import { getConfig } from '../config.service'
 import { getConversation } from '../conversation.service'
+import { getSpacePreferences } from '../space.service'
 import {
   DEFAULT_LEGACY_MODEL,
   ensureAiConfig,
+  resolveFallbackProfiles,
   type ApiProfile,
   type ConversationAiConfig
 } from '../../../shared/types/ai-profile'
@@ -18,6 +21,8 @@ export interface EffectiveConversationAi {
   profile: ApiProfile
   profileId: string
   effectiveModel: string
+  /** Profiles tried in order when the primary profile fails */
+  fallbackProfiles: ApiProfile[]
   providerSignature: string
   isMiniMax: boolean
   isGlmAnthropicCompat: boolean
@@ -64,6 +69,24 @@ export function buildProviderSignature(profile: ApiProfile): string {
   return createHash('sha256').update(raw).digest('hex')
 }
 
+function readFallbackProfileIds(
+  spaceId: string,
+  conversationAi: Partial<ConversationAiConfig> | null
+): string[] | undefined {
+  // An explicit conversation chain (even an empty one) overrides the space chain
+  if (Array.isArray(conversationAi?.fallbackProfileIds)) {
+    return conversationAi.fallbackProfileIds
+  }
+  return getSpacePreferences(spaceId)?.ai?.fallbackProfileIds
+}
+
+function buildChainSignature(profile: ApiProfile, fallbackProfiles: ApiProfile[]): string {
+  const primarySignature = buildProviderSignature(profile)
+  if (fallbackProfiles.length === 0) return primarySignature
+  const raw = JSON.stringify([primarySignature, ...fallbackProfiles.map(buildProviderSignature)])
+  return createHash('sha256').update(raw).digest('hex')
+}
+
 export function resolveEffectiveConversationAi(
   spaceId: string,
   conversationId: string,
@@ -92,6 +115,12 @@ export function resolveEffectiveConversationAi(
     toNonEmptyString(profile.defaultModel) ||
     DEFAULT_LEGACY_MODEL
 
+  const fallbackProfiles = resolveFallbackProfiles(
+    normalizedAiConfig.profiles,
+    profile.id,
+    readFallbackProfileIds(spaceId, conversationAi)
+  )
+
   const isMiniMax = profile.vendor === 'minimax'
   const isGlmAnthropicCompat = profile.vendor === 'zhipu' && profile.protocol === 'anthropic_compat'
 
@@ -99,7 +128,9 @@ export function resolveEffectiveConversationAi(
     profile,
     profileId: profile.id,
     effectiveModel,
-    providerSignature: buildProviderSignature(profile),
+    fallbackProfiles,
+    // Sessions are rebuilt when the chain changes, not just the primary profile
+    providerSignature: buildChainSignature(profile, fallbackProfiles),
     isMiniMax,
     isGlmAnthropicCompat,
     // Anthropic-compatible vendors should keep full feature path by default.
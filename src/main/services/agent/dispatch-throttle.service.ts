@@ -89,3 +89,29 @@ export function getDispatchQueueStats(): {
   }
 }
 
+
+function isDispatchLimitError(error: unknown): boolean {
+  const code = (error as { errorCode?: unknown } | null)?.errorCode
+  return code === 'GLOBAL_QUEUE_FULL' || code === 'SPACE_QUEUE_FULL'
+}
+
+/**
+ * Reserve a dispatch slot, waiting for capacity instead of failing fast.
+ * Intended for background fan-out that should queue behind interactive sends.
+ * Resolves null when `isCancelled` reports true before a slot frees up.
+ */
+export async function waitForSendDispatchSlot(
+  spaceId: string,
+  options: { isCancelled?: () => boolean; pollIntervalMs?: number } = {}
+): Promise<(() => void) | null> {
+  const pollIntervalMs = options.pollIntervalMs ?? 500
+  while (!options.isCancelled?.()) {
+    try {
+      return acquireSendDispatchSlot(spaceId)
+    } catch (error) {
+      if (!isDispatchLimitError(error)) throw error
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+  }
+  return null
+}
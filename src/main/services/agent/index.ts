@@ -71,6 +71,9 @@ export {
   testMcpConnections
 } from './mcp-status.service'
 
+// Re-export from provider-health.service
+export { getDegradedProviders } from './provider-health.service'
+
 // Re-export from session.manager
 export {
   getOrCreateV2Session,
@@ -100,3 +103,4 @@ export {
   handleToolApproval,
   handleAskUserQuestionResponse
 } from './message-flow.service'
+export type { SendMessageOptions, ToolApprovalOptions } from './message-flow.service'
@@ -29,7 +29,8 @@ import {
 } from './renderer-comm'
 import { getHeadlessElectronPath } from './electron-path'
 import { resolveProvider } from './provider-resolver'
-import { resolveEffectiveConversationAi } from './ai-config-resolver'
+import { resolveEffectiveConversationAi, type EffectiveConversationAi } from './ai-config-resolver'
+import { clearBackendAnswer, getLastBackendAnswer } from '../../openai-compat-router'
 import {
   buildSdkOptions,
   getEffectiveSkillsLazyLoad,
@@ -44,6 +45,7 @@ import {
 } from './space-resource-policy.service'
 import { getResourceExposureRuntimeFlags } from '../resource-exposure.service'
 import { findEnabledPluginByInput } from '../plugins.service'
+import { recordSdkHookResponse, recordSdkHookStarted } from '../hook-log.service'
 import {
   beginChangeSet,
   clearPendingChangeSet,
@@ -84,12 +86,15 @@ import type {
   AskUserQuestionAnswerPayload,
   AskUserQuestionMode,
   PendingAskUserQuestionContext,
+  PendingToolApprovalContext,
   CanUseToolDecision,
   AgentSetModeResult,
   ChatMode,
   SessionAcquireResult
 } from './types'
 import type { ClaudeCodeSkillMissingPolicy } from '../../../shared/types/claude-code'
+import type { AnsweredByInfo } from '../../../shared/types/ai-profile'
+import type { CommandRuleRequest } from '../../../shared/types/command-rules'
 import {
   ASK_USER_QUESTION_ERROR_CODES,
   AskUserQuestionError,
@@ -102,12 +107,19 @@ import { assertAiProfileConfigured } from './ai-setup-guard'
 import { trackChangeFileFromToolUse } from './change-tracking'
 import { acquireSendDispatchSlot } from './dispatch-throttle.service'
 import { allocateRunEpoch } from './runtime-journal.service'
+import {
+  hasPendingToolApprovals,
+  rejectAllPendingToolApprovals,
+  takePendingToolApproval
+} from './tool-approval-queue'
 import {
   startAgentRunObservation,
   setAgentRunObservationProvider,
   startAgentRunObservationPhase,
   endAgentRunObservationPhase,
   markAgentRunFirstToken,
+  recordAgentRunToolStart,
+  recordAgentRunToolEnd,
   finalizeAgentRunObservation,
   getAgentRunObservation
 } from '../observability'
@@ -127,11 +139,34 @@ interface TokenUsageInfo {
   cacheCreationTokens: number
   totalCostUsd: number
   contextWindow: number
+  answeredBy?: AnsweredByInfo
 }
 
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : typeof error === 'string' ? error : ''
 
+/**
+ * Profile that answered the run: the one the router last reached in the
+ * fallback chain, or the primary profile when no chain is configured
+ */
+function resolveAnsweredBy(conversationId: string, effectiveAi: EffectiveConversationAi): AnsweredByInfo {
+  const answer = effectiveAi.fallbackProfiles.length > 0 ? getLastBackendAnswer(conversationId) : undefined
+  if (!answer?.profileId || answer.chainIndex === 0) {
+    return {
+      profileId: effectiveAi.profileId,
+      profileName: effectiveAi.profile.name,
+      model: effectiveAi.effectiveModel,
+      fallback: false
+    }
+  }
+  return {
+    profileId: answer.profileId,
+    profileName: answer.profileName ?? answer.profileId,
+    model: answer.model ?? effectiveAi.effectiveModel,
+    fallback: true
+  }
+}
+
 const isAbortLikeError = (error: unknown): boolean => {
   if (error instanceof Error && error.name === 'AbortError') return true
   const message = getErrorMessage(error)
@@ -1093,7 +1128,7 @@ function finalizeSession(params: FinalizeSessionParams): boolean {
   sessionState.lifecycle = 'terminal'
   sessionState.terminalReason = reason
   sessionState.terminalAt = new Date().toISOString()
-  sessionState.pendingPermissionResolve = null
+  rejectAllPendingToolApprovals(sessionState)
   clearPendingAskUserQuestions(sessionState)
   const resolvedFinalContent =
     typeof finalContent === 'string' ? finalContent : sessionState.latestAssistantContent || undefined
@@ -1206,12 +1241,18 @@ function extractMcpDirectives(input: string, sessionScopeKey: string): McpDirect
   return { text: outLines.join('\n'), enabled, missing }
 }
 
+export interface SendMessageOptions {
+  /** Dispatch slot the caller already reserved; used instead of taking another one */
+  dispatchSlot?: () => void
+}
+
 /**
  * Send message to agent (supports multiple concurrent sessions)
  */
 export async function sendMessage(
   mainWindow: BrowserWindow | null,
-  request: AgentRequest
+  request: AgentRequest,
+  options: SendMessageOptions = {}
 ): Promise<AgentSendMessageResult | undefined> {
   setMainWindow(mainWindow)
 
@@ -1391,7 +1432,12 @@ export async function sendMessage(
   startAgentRunObservationPhase(observabilityHandle, 'resolve_provider')
   let resolved: Awaited<ReturnType<typeof resolveProvider>>
   try {
-    resolved = await resolveProvider(effectiveAi.profile, effectiveAi.effectiveModel)
+    // Forget the previous run's answering profile before this run's requests
+    clearBackendAnswer(conversationId)
+    resolved = await resolveProvider(effectiveAi.profile, effectiveAi.effectiveModel, {
+      fallbackProfiles: effectiveAi.fallbackProfiles,
+      routeTag: conversationId
+    })
   } catch (error) {
     const errorMessage = getErrorMessage(error) || 'resolveProvider failed'
     endAgentRunObservationPhase(observabilityHandle, 'resolve_provider', {
@@ -1550,7 +1596,7 @@ export async function sendMessage(
     })
   }
 
-  const releaseDispatchSlot = acquireSendDispatchSlot(spaceId)
+  const releaseDispatchSlot = options.dispatchSlot ?? acquireSendDispatchSlot(spaceId)
 
   // Create abort controller for this session
   const abortController = new AbortController()
@@ -1579,7 +1625,7 @@ export async function sendMessage(
     toolCallSeq: 0,
     toolsById: new Map<string, ToolCall>(),
     askUserQuestionModeByToolCallId: new Map<string, AskUserQuestionMode>(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map<string, PendingToolApprovalContext>(),
     pendingAskUserQuestionsById: new Map<string, PendingAskUserQuestionContext>(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map<string, string>(),
@@ -2521,6 +2567,11 @@ If the user asks about this project/codebase, inspect files in current workspace
               description: isAskUserQuestion ? 'Waiting for user response' : undefined
             }
             sessionState.toolsById.set(toolCallId, toolCall)
+            recordAgentRunToolStart(observabilityHandle, {
+              id: toolCallId,
+              name: toolCall.name,
+              input: toolCall.input
+            })
             if (isAskUserQuestion) {
               sessionState.askUserQuestionUsedInRun = true
               const normalizedInput = normalizeAskUserQuestionInput(normalizedThought.toolInput || {})
@@ -2596,6 +2647,7 @@ If the user asks about this project/codebase, inspect files in current workspace
               ? false
               : (normalizedThought.isError || false)
             const toolOutput = normalizedThought.toolOutput || ''
+            recordAgentRunToolEnd(observabilityHandle, { id: toolCallId, output: toolOutput, isError })
             sessionState.toolsById.set(toolCallId, {
               id: toolCallId,
               name: existingToolCall?.name || 'tool',
@@ -2715,6 +2767,13 @@ If the user asks about this project/codebase, inspect files in current workspace
           }
         }
 
+        // Record shell hook runs in the space's hook log
+        if (subtype === 'hook_started' && typeof msg.hook_id === 'string') {
+          recordSdkHookStarted(msg.hook_id)
+        } else if (subtype === 'hook_response') {
+          recordSdkHookResponse(spaceId, conversationId, msg)
+        }
+
         // Handle compact_boundary - context compression notification
         if (subtype === 'compact_boundary') {
           const compactMetadata = msg.compact_metadata as
@@ -2852,6 +2911,19 @@ If the user asks about this project/codebase, inspect files in current workspace
       }
     }
 
+    const answeredBy = resolveAnsweredBy(conversationId, effectiveAi)
+    if (answeredBy.fallback) {
+      console.warn(`[Agent][${conversationId}] Answered by fallback profile "${answeredBy.profileName}"`)
+      const answeringProfile = effectiveAi.fallbackProfiles.find(profile => profile.id === answeredBy.profileId)
+      setAgentRunObservationProvider(observabilityHandle, {
+        provider: answeringProfile?.vendor || observationProvider,
+        model: answeredBy.model
+      })
+    }
+    if (tokenUsage) {
+      tokenUsage = { ...tokenUsage, answeredBy }
+    }
+
     const terminalReason: TerminalReason = terminalContent ? 'completed' : 'no_text'
     const finalized = finalizeSession({
       sessionState,
@@ -3058,11 +3130,7 @@ interface SessionTarget {
 function resolvePendingApproval(target: SessionTarget): void {
   const session = getActiveSession(target.spaceId, target.conversationId)
   if (!session) return
-  if (session.pendingPermissionResolve) {
-    const resolver = session.pendingPermissionResolve
-    session.pendingPermissionResolve = null
-    resolver(false)
-  }
+  rejectAllPendingToolApprovals(session)
   clearPendingAskUserQuestions(session, {
     behavior: 'deny',
     message: 'AskUserQuestion cancelled because generation stopped.'
@@ -3229,8 +3297,8 @@ export async function guideLiveInput(
     )
   }
 
-  if (session.pendingPermissionResolve) {
-    handleToolApproval(spaceId, conversationId, false)
+  if (hasPendingToolApprovals(session)) {
+    rejectAllPendingToolApprovals(session)
   }
 
   let delivery: GuideLiveInputResult['delivery'] = 'session_send'
@@ -3283,15 +3351,33 @@ export async function guideLiveInput(
   return { delivery }
 }
 
+export interface ToolApprovalOptions {
+  /** Pending approval to answer (defaults to the oldest one) */
+  toolCallId?: string
+  /** Save the answer as a command rule (Bash approvals only) */
+  remember?: CommandRuleRequest
+}
+
 /**
- * Handle tool approval from renderer for a specific conversation
+ * Handle tool approval from renderer for a specific conversation.
+ * Returns the toolCallId that was answered, or null when nothing was pending.
  */
-export function handleToolApproval(spaceId: string, conversationId: string, approved: boolean): void {
+export function handleToolApproval(
+  spaceId: string,
+  conversationId: string,
+  approved: boolean,
+  options: ToolApprovalOptions = {}
+): string | null {
   const session = getActiveSession(spaceId, conversationId)
-  if (session?.pendingPermissionResolve) {
-    session.pendingPermissionResolve(approved)
-    session.pendingPermissionResolve = null
+  if (!session) return null
+  const pending = takePendingToolApproval(session, options.toolCallId)
+  if (!pending) return null
+  if (options.remember) {
+    pending.resolve(approved, options.remember)
+  } else {
+    pending.resolve(approved)
   }
+  return pending.toolCallId
 }
 
 function hasAmbiguousUnmatchedAskUserQuestionToolCall(
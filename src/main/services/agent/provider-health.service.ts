@@ -0,0 +1,54 @@
+/**
+ * Provider Health Service
+ *
+ * Relays the OpenAI-compat router's circuit breaker transitions to the UI, so a
+ * degraded provider shows up as a status instead of a failed turn.
+ */
+
+import { getProviderHealth, onProviderHealthChange } from '../../openai-compat-router'
+import type { ProviderHealth } from '../../openai-compat-router'
+import { getMainWindow } from './renderer-comm'
+import { broadcastToAll } from '../../http/websocket'
+
+const PROVIDER_HEALTH_CHANNEL = 'agent:provider-health'
+
+let unsubscribe: (() => void) | null = null
+
+/**
+ * Providers currently degraded
+ */
+export function getDegradedProviders(): ProviderHealth[] {
+  return getProviderHealth().filter(provider => provider.state === 'degraded')
+}
+
+function broadcastProviderHealth(): void {
+  const eventData = {
+    providers: getDegradedProviders(),
+    timestamp: Date.now()
+  }
+
+  const mainWindow = getMainWindow()
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send(PROVIDER_HEALTH_CHANNEL, eventData)
+  }
+
+  try {
+    // Provider health is global (not conversation-scoped)
+    broadcastToAll(PROVIDER_HEALTH_CHANNEL, eventData)
+  } catch {
+    // WebSocket module might not be initialized yet, ignore
+  }
+}
+
+/**
+ * Start relaying provider health changes (idempotent)
+ */
+export function initProviderHealthBroadcast(): void {
+  if (unsubscribe) return
+  unsubscribe = onProviderHealthChange(() => broadcastProviderHealth())
+}
+
+export function cleanupProviderHealthBroadcast(): void {
+  unsubscribe?.()
+  unsubscribe = null
+}
@@ -6,7 +6,9 @@
  */
 
 import { ensureOpenAICompatRouter, encodeBackendConfig } from '../../openai-compat-router'
-import type { ApiProfile, ProviderProtocol } from '../../../shared/types/ai-profile'
+import type { BackendConfig } from '../../openai-compat-router'
+import { resolveProviderRequestPolicy } from '../../../shared/types/ai-profile'
+import type { ApiProfile, ProviderProtocol, ProviderRequestPolicy } from '../../../shared/types/ai-profile'
 
 /**
  * Legacy API configuration from config.service (backward compatibility).
@@ -33,6 +35,16 @@ export interface ResolvedProvider {
 
 type ResolveProviderInput = ApiProfile | ApiConfig
 
+/**
+ * Extra options for profile-based resolution
+ */
+export interface ResolveProviderOptions {
+  /** Profiles tried in order when the primary one fails */
+  fallbackProfiles?: ApiProfile[]
+  /** Tag under which the router records which profile answered */
+  routeTag?: string
+}
+
 const DEFAULT_MODEL = 'claude-opus-4-5-20251101'
 const OPENAI_COMPAT_SDK_MODEL = 'claude-sonnet-4-20250514'
 const ANTHROPIC_COMPAT_ENV_DEFAULT_TIMEOUT_MS = '3000000'
@@ -96,6 +108,9 @@ function resolveInput(
   apiUrl: string
   apiKey: string
   effectiveModel: string
+  profileId?: string
+  profileName?: string
+  requestPolicy: ProviderRequestPolicy
 } {
   if (isApiProfile(input)) {
     return {
@@ -103,7 +118,10 @@ function resolveInput(
       vendor: input.vendor,
       apiUrl: input.apiUrl,
       apiKey: input.apiKey,
-      effectiveModel: normalizeModel(modelHint) || normalizeModel(input.defaultModel) || DEFAULT_MODEL
+      effectiveModel: normalizeModel(modelHint) || normalizeModel(input.defaultModel) || DEFAULT_MODEL,
+      profileId: input.id,
+      profileName: input.name,
+      requestPolicy: resolveProviderRequestPolicy(input)
     }
   }
 
@@ -111,8 +129,25 @@ function resolveInput(
     protocol: toProtocol(input.provider),
     apiUrl: input.apiUrl,
     apiKey: input.apiKey,
-    effectiveModel: normalizeModel(input.model) || normalizeModel(modelHint) || DEFAULT_MODEL
+    effectiveModel: normalizeModel(input.model) || normalizeModel(modelHint) || DEFAULT_MODEL,
+    requestPolicy: resolveProviderRequestPolicy({})
+  }
+}
+
+/**
+ * Router backend for one profile of a fallback chain
+ */
+function toBackendConfig(resolved: ReturnType<typeof resolveInput>): BackendConfig {
+  const base: BackendConfig = {
+    url: resolved.apiUrl,
+    key: resolved.apiKey,
+    model: resolved.effectiveModel,
+    profileId: resolved.profileId,
+    profileName: resolved.profileName,
+    maxConcurrent: resolved.requestPolicy.maxConcurrent,
+    maxRetries: resolved.requestPolicy.maxRetries
   }
+  return resolved.protocol === 'openai_compat' ? base : { ...base, protocol: 'anthropic' }
 }
 
 /**
@@ -138,6 +173,9 @@ export function inferOpenAIWireApi(apiUrl: string): 'responses' | 'chat_completi
  * - anthropic_compat: Anthropic-compatible backends - direct connection
  * - openai_compat: OpenAI-compatible backends - requires protocol conversion via local Router
  *
+ * With fallback profiles, requests go through the local Router for every
+ * protocol so it can move on to the next profile when one fails.
+ *
  * Backward compatibility:
  * - ApiProfile input: second parameter is `modelOverride`
  * - Legacy ApiConfig input: second parameter is `defaultModel`
@@ -145,7 +183,8 @@ export function inferOpenAIWireApi(apiUrl: string): 'responses' | 'chat_completi
  */
 export async function resolveProvider(
   profile: ApiProfile,
-  modelOverride?: string
+  modelOverride?: string,
+  options?: ResolveProviderOptions
 ): Promise<ResolvedProvider>
 export async function resolveProvider(
   apiConfig: ApiConfig,
@@ -153,7 +192,8 @@ export async function resolveProvider(
 ): Promise<ResolvedProvider>
 export async function resolveProvider(
   input: ResolveProviderInput,
-  modelOverrideOrDefaultModel = DEFAULT_MODEL
+  modelOverrideOrDefaultModel = DEFAULT_MODEL,
+  options: ResolveProviderOptions = {}
 ): Promise<ResolvedProvider> {
   const resolved = resolveInput(input, modelOverrideOrDefaultModel)
   // Default: direct model passthrough for anthropic_compat vendors.
@@ -181,12 +221,32 @@ export async function resolveProvider(
       url: resolved.apiUrl,
       key: resolved.apiKey,
       model: resolved.effectiveModel, // Real model passed to Router
+      profileId: resolved.profileId,
+      profileName: resolved.profileName,
+      maxConcurrent: resolved.requestPolicy.maxConcurrent,
+      maxRetries: resolved.requestPolicy.maxRetries,
       ...(apiType ? { apiType } : {})
     })
     // Pass a fake Claude model to CC for normal request handling
     sdkModel = OPENAI_COMPAT_SDK_MODEL
   }
 
+  const fallbackProfiles = isApiProfile(input) ? options.fallbackProfiles ?? [] : []
+  if (fallbackProfiles.length > 0) {
+    // Fallback chain: every request goes through the local Router, which moves
+    // on to the next profile when one fails before answering
+    const router = await ensureOpenAICompatRouter({ debug: false })
+    anthropicBaseUrl = router.baseUrl
+    anthropicApiKey = encodeBackendConfig({
+      ...toBackendConfig(resolved),
+      fallbacks: fallbackProfiles.map(profile => toBackendConfig(resolveInput(profile, ''))),
+      ...(options.routeTag ? { tag: options.routeTag } : {})
+    })
+    if (resolved.protocol === 'openai_compat') {
+      sdkModel = OPENAI_COMPAT_SDK_MODEL
+    }
+  }
+
   return {
     anthropicBaseUrl,
     anthropicApiKey,
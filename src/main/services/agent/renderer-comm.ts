@@ -8,10 +8,12 @@
 import { BrowserWindow } from 'electron'
 import { createHash } from 'crypto'
 import { homedir } from 'os'
-import { isAbsolute, resolve, join } from 'path'
+import { isAbsolute, resolve, join, relative } from 'path'
 import { broadcastToWebSocket } from '../../http/websocket'
 import { getConfig } from '../config.service'
 import { getSpaceConfig } from '../space-config.service'
+import { addCommandRule, findMatchingCommandRule } from '../command-rules.service'
+import { takeHookApprovalRequest } from '../hook-runtime.service'
 import { isAIBrowserTool } from '../ai-browser'
 import { extractToolPath } from './resource-dir-guard.service'
 import { buildSessionKey } from '../../../shared/session-key'
@@ -32,6 +34,7 @@ import {
 } from '../../utils/path-validation'
 import type { ResourceSource } from '../resource-ref.service'
 import type { ClaudeCodeResourceRuntimePolicy, ClaudeCodeSkillMissingPolicy } from '../../../shared/types/claude-code'
+import type { CommandRuleRequest } from '../../../shared/types/command-rules'
 import type {
   ToolCall,
   SessionState,
@@ -40,6 +43,7 @@ import type {
   CanUseToolDecision,
   ChatMode
 } from './types'
+import { registerPendingToolApproval, takePendingToolApproval } from './tool-approval-queue'
 
 // Current main window reference for IPC communication
 let currentMainWindow: BrowserWindow | null = null
@@ -132,6 +136,85 @@ function getBashCommandPathCandidates(command: string): string[] {
   return Array.from(candidates)
 }
 
+type PermissionLevel = 'allow' | 'ask' | 'deny'
+
+/**
+ * One global permission setting a tool call has to pass
+ */
+interface PermissionRequirement {
+  setting: 'fileAccess' | 'commandExecution' | 'networkAccess' | 'hookApproval'
+  level: PermissionLevel
+  /** Shown on the approval card */
+  description: string
+  deniedMessage: string
+  rejectedMessage: string
+}
+
+const FILE_MUTATION_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit'])
+const FILE_READ_TOOLS = new Set(['Read', 'Grep', 'Glob'])
+const NETWORK_TOOLS = new Set(['WebFetch', 'WebSearch'])
+
+function normalizePermissionLevel(value: unknown): PermissionLevel {
+  return value === 'ask' || value === 'deny' ? value : 'allow'
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 600
+
+function resolveApprovalTimeoutMs(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_APPROVAL_TIMEOUT_SECONDS * 1000
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return 0
+  return Math.floor(value * 1000)
+}
+
+// Programs that always talk to the network
+const NETWORK_PROGRAMS = new Set([
+  'curl', 'wget', 'ssh', 'scp', 'sftp', 'rsync', 'nc', 'ncat', 'netcat', 'telnet',
+  'ftp', 'ping', 'dig', 'nslookup', 'aria2c', 'http', 'https'
+])
+
+// Programs whose listed subcommands fetch from or publish to the network
+const NETWORK_SUBCOMMANDS: Record<string, string[]> = {
+  git: ['clone', 'fetch', 'pull', 'push', 'ls-remote', 'submodule'],
+  npm: ['install', 'i', 'ci', 'add', 'update', 'publish'],
+  pnpm: ['install', 'i', 'add', 'update', 'publish', 'dlx'],
+  yarn: ['install', 'add', 'upgrade', 'publish', 'dlx'],
+  bun: ['install', 'i', 'add', 'update', 'x'],
+  pip: ['install', 'download'],
+  pip3: ['install', 'download'],
+  cargo: ['install', 'add', 'fetch', 'update', 'publish'],
+  go: ['get', 'install'],
+  gem: ['install'],
+  brew: ['install', 'upgrade', 'update', 'tap'],
+  apt: ['install', 'update', 'upgrade'],
+  'apt-get': ['install', 'update', 'upgrade'],
+  docker: ['pull', 'push', 'login']
+}
+
+// Wrappers skipped when looking for the program a command segment runs
+const COMMAND_PREFIXES = new Set(['sudo', 'env', 'time', 'nohup', 'command', 'exec'])
+
+/**
+ * Whether a shell command looks like it reaches the network
+ * (heuristic over each `;`, `&&`, `|` and `$(...)` segment)
+ */
+export function isNetworkBashCommand(command: string): boolean {
+  const segments = command.split(/[;&|\n`]|\$\(/)
+  for (const segment of segments) {
+    const words = segment.trim().replace(/^\(+/, '').split(/\s+/).filter(Boolean)
+    while (words.length > 0 && (COMMAND_PREFIXES.has(words[0]) || /^\w+=/.test(words[0]))) {
+      words.shift()
+    }
+    if (words.length === 0) continue
+
+    const program = words[0].split('/').pop() || ''
+    if (NETWORK_PROGRAMS.has(program)) return true
+    const subcommands = NETWORK_SUBCOMMANDS[program]
+    const subcommand = words.slice(1).find(word => !word.startsWith('-'))
+    if (subcommands && subcommand && subcommands.includes(subcommand)) return true
+  }
+  return false
+}
+
 function resolveShellPathToken(token: string, absoluteWorkDir: string): string {
   const trimmed = token.trim()
   if (!trimmed) return ''
@@ -781,7 +864,7 @@ export function createCanUseTool(
 ): (
   toolName: string,
   input: Record<string, unknown>,
-  options: { signal: AbortSignal }
+  options: { signal: AbortSignal; toolUseID?: string }
   ) => Promise<CanUseToolDecision> {
   const config = getConfig()
   const absoluteWorkDir = resolve(workDir)
@@ -814,7 +897,7 @@ export function createCanUseTool(
   return async (
     toolName: string,
     input: Record<string, unknown>,
-    _options: { signal: AbortSignal }
+    toolOptions: { signal: AbortSignal; toolUseID?: string }
   ) => {
     const trace: ToolPolicyTrace[] = []
     const buildAllowDecision = (
@@ -858,6 +941,75 @@ export function createCanUseTool(
       if (!options?.onToolUse) return
       options.onToolUse(toolName, input)
     }
+    const collectPermissionRequirements = (
+      name: string,
+      toolInput: Record<string, unknown>
+    ): PermissionRequirement[] => {
+      const requirements: PermissionRequirement[] = []
+      const { permissions } = config
+
+      if (name === 'Bash') {
+        const command = typeof toolInput.command === 'string' ? toolInput.command : ''
+        requirements.push({
+          setting: 'commandExecution',
+          level: normalizePermissionLevel(permissions.commandExecution),
+          description: `Execute command: ${toolInput.command}`,
+          deniedMessage: 'Command execution is disabled',
+          rejectedMessage: 'User rejected command execution'
+        })
+        if (isNetworkBashCommand(command)) {
+          requirements.push({
+            setting: 'networkAccess',
+            level: normalizePermissionLevel(permissions.networkAccess),
+            description: `Execute network command: ${command}`,
+            deniedMessage: 'Network access is disabled',
+            rejectedMessage: 'User rejected network access'
+          })
+        }
+        return requirements
+      }
+
+      if (FILE_MUTATION_TOOLS.has(name)) {
+        const pathParam = extractToolPath(toolInput) || ''
+        requirements.push({
+          setting: 'fileAccess',
+          level: normalizePermissionLevel(permissions.fileAccess),
+          description: `${name === 'Write' ? 'Write' : 'Edit'} file: ${pathParam}`,
+          deniedMessage: 'File modification is disabled',
+          rejectedMessage: 'User rejected file modification'
+        })
+        return requirements
+      }
+
+      if (FILE_READ_TOOLS.has(name)) {
+        // Reads are only gated outside the space; boundary roots already bound them
+        const pathParam = extractToolPath(toolInput)
+        const relativePath = pathParam ? relative(absoluteWorkDir, resolve(absoluteWorkDir, pathParam)) : ''
+        if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+          requirements.push({
+            setting: 'fileAccess',
+            level: normalizePermissionLevel(permissions.fileAccess),
+            description: `Read outside space: ${pathParam}`,
+            deniedMessage: 'File access outside the current space is disabled',
+            rejectedMessage: 'User rejected file access'
+          })
+        }
+        return requirements
+      }
+
+      if (NETWORK_TOOLS.has(name) || isAIBrowserTool(name)) {
+        const target = toolInput.url ?? toolInput.query
+        requirements.push({
+          setting: 'networkAccess',
+          level: normalizePermissionLevel(permissions.networkAccess),
+          description: typeof target === 'string' ? `Network access: ${target}` : `Network access: ${name}`,
+          deniedMessage: 'Network access is disabled',
+          rejectedMessage: 'User rejected network access'
+        })
+      }
+      return requirements
+    }
+
     const runtimeMode = getActiveSession(spaceId, conversationId)?.mode
     const effectiveMode = runtimeMode || options?.mode
     if (effectiveMode === 'plan') {
@@ -997,110 +1149,184 @@ export function createCanUseTool(
       }
     }
 
-    // Check Bash commands based on permission settings
-    if (toolName === 'Bash') {
-      const permission = config.permissions.commandExecution
+    // Remembered Bash answers (exact command or prefix, per space or global)
+    const bashCommand = toolName === 'Bash' && typeof input.command === 'string' ? input.command : ''
+    const commandRule = bashCommand ? findMatchingCommandRule(bashCommand, absoluteWorkDir) : null
+    const commandRuleId = commandRule
+      ? `command_rule:${commandRule.scope}:${commandRule.action}:${commandRule.match}:${commandRule.pattern}`
+      : ''
+    if (commandRule?.action === 'deny') {
+      return deny('GlobalPolicy', 'Command denied by a saved rule', commandRuleId)
+    }
+
+    // Global permission settings (fileAccess / commandExecution / networkAccess)
+    let permissionRequirements = collectPermissionRequirements(toolName, input)
+    // A builtin require-approval hook asked to prompt for this call
+    const hookApprovalReason = takeHookApprovalRequest(toolOptions?.toolUseID)
+    if (hookApprovalReason) {
+      permissionRequirements = [
+        {
+          setting: 'hookApproval',
+          level: 'ask',
+          description: hookApprovalReason,
+          deniedMessage: hookApprovalReason,
+          rejectedMessage: `User rejected ${toolName}`
+        },
+        ...permissionRequirements
+      ]
+    }
+    const deniedRequirement = permissionRequirements.find((requirement) => requirement.level === 'deny')
+    if (deniedRequirement) {
+      return deny(
+        'GlobalPolicy',
+        deniedRequirement.deniedMessage,
+        `global.${deniedRequirement.setting}=deny`
+      )
+    }
 
-      if (permission === 'deny') {
+    if (toolName === 'Bash' && strictSpaceOnly) {
+      trace.push({ layer: 'SpacePolicy', outcome: 'allow', rule: 'space.mode=strict-space-only' })
+      const command = typeof input.command === 'string' ? input.command : ''
+      if (!command.trim()) {
         return deny(
-          'GlobalPolicy',
-          'Command execution is disabled',
-          'global.commandExecution=deny'
+          'SpacePolicy',
+          'Command is required in strict space mode',
+          'strict_space.command_required'
         )
       }
 
-      if (permission === 'ask' && !config.permissions.trustMode) {
-        const session = getActiveSession(spaceId, conversationId)
-        if (!session) {
-          return deny('HardSafetyDeny', 'Session not found', 'session_not_found')
+      if (/(^|[\s;|&])cd\s+\.\.(?=\/|\\|\s|$)/.test(command)) {
+        return deny(
+          'SpacePolicy',
+          `Strict space mode: directory traversal is blocked outside ${workDir}`,
+          'strict_space.directory_traversal'
+        )
+      }
+
+      const pathCandidates = getBashCommandPathCandidates(command)
+      for (const token of pathCandidates) {
+        if (token === '.' || token === './') continue
+        const resolvedTokenPath = resolveShellPathToken(token, absoluteWorkDir)
+        if (!resolvedTokenPath) continue
+        const boundaryResult = validatePathWithinBoundaryRoots(resolvedTokenPath, executionBoundaryRoots)
+        if (!boundaryResult.allowed) {
+          console.warn('[Agent] Security: Blocked Bash command path outside workDir', {
+            spaceId,
+            conversationId,
+            token,
+            resolvedTokenPath,
+            workDir: absoluteWorkDir,
+            reason: boundaryResult.reason
+          })
+          return deny(
+            'HardSafetyDeny',
+            'Strict space mode: Bash cannot access paths outside current space or approved global resource roots',
+            'strict_space.bash_path_boundary',
+            boundaryResult.errorCode || FS_BOUNDARY_VIOLATION
+          )
         }
+      }
+    }
+
+    const isCommandPrompt = (requirement: PermissionRequirement) =>
+      requirement.setting === 'commandExecution' && requirement.level === 'ask'
+    if (commandRule && permissionRequirements.some(isCommandPrompt)) {
+      // An allow rule answers the command prompt only; network and file access
+      // prompts, deny settings and hook-requested approvals still apply
+      trace.push({ layer: 'GlobalPolicy', outcome: 'allow', rule: commandRuleId })
+      permissionRequirements = permissionRequirements.filter((requirement) => !isCommandPrompt(requirement))
+    }
 
+    const askRequirements = permissionRequirements.filter((requirement) => requirement.level === 'ask')
+    if (askRequirements.length > 0 && config.permissions.trustMode) {
+      for (const requirement of askRequirements) {
+        trace.push({ layer: 'GlobalPolicy', outcome: 'allow', rule: `global.${requirement.setting}=ask_trust_mode` })
+      }
+    } else if (askRequirements.length > 0) {
+      const session = getActiveSession(spaceId, conversationId)
+      if (!session) {
+        return deny('HardSafetyDeny', 'Session not found', 'session_not_found')
+      }
+
+      for (const requirement of askRequirements) {
         trace.push({
           layer: 'GlobalPolicy',
           outcome: 'allow',
-          rule: 'global.commandExecution=ask_with_user_approval'
+          rule: `global.${requirement.setting}=ask_with_user_approval`
         })
+      }
+
+      // Send permission request to renderer with session IDs.
+      // The SDK's tool use id keeps parallel prompts apart and matches the streamed tool card.
+      const [primaryRequirement] = askRequirements
+      const toolCallId = toolOptions?.toolUseID || `tool-${session.runId}-${Date.now()}-${session.pendingToolApprovalsById.size}`
+      const toolCall: ToolCall = {
+        id: toolCallId,
+        name: toolName,
+        status: 'waiting_approval',
+        input,
+        requiresApproval: true,
+        description: primaryRequirement.description
+      }
 
-        // Send permission request to renderer with session IDs
-        const toolCallId = `tool-${session.runId}-${Date.now()}`
-        const toolCall: ToolCall = {
-          id: toolCallId,
-          name: toolName,
-          status: 'waiting_approval',
-          input,
-          requiresApproval: true,
-          description: `Execute command: ${input.command}`
+      sendToRenderer(
+        'agent:tool-call',
+        spaceId,
+        conversationId,
+        {
+          runId: session.runId,
+          toolCallId,
+          ...(toolCall as unknown as Record<string, unknown>)
         }
+      )
 
-        sendToRenderer(
-          'agent:tool-call',
-          spaceId,
-          conversationId,
-          {
-            runId: session.runId,
-            toolCallId,
-            ...(toolCall as unknown as Record<string, unknown>)
-          }
-        )
+      return new Promise((resolve) => {
+        const timeoutMs = resolveApprovalTimeoutMs(config.permissions.approvalTimeoutSeconds)
+        const timeoutHandle = timeoutMs > 0
+          ? setTimeout(() => {
+            if (!takePendingToolApproval(session, toolCallId)) return
+            const message = `Approval request timed out after ${Math.round(timeoutMs / 1000)} seconds without a response`
+            sendToRenderer('agent:tool-call', spaceId, conversationId, {
+              runId: session.runId,
+              toolCallId,
+              ...(toolCall as unknown as Record<string, unknown>),
+              status: 'error',
+              requiresApproval: false,
+              error: message
+            })
+            resolve(deny('GlobalPolicy', message, 'approval_timeout'))
+          }, timeoutMs)
+          : null
 
-        return new Promise((resolve) => {
-          session.pendingPermissionResolve = (approved: boolean) => {
+        registerPendingToolApproval(session, {
+          toolCallId,
+          toolName,
+          runId: session.runId,
+          createdAt: Date.now(),
+          timeoutHandle,
+          resolve: (approved: boolean, remember?: CommandRuleRequest) => {
+            if (remember && bashCommand) {
+              const saved = addCommandRule(bashCommand, approved ? 'allow' : 'deny', remember, absoluteWorkDir)
+              if (saved) {
+                trace.push({
+                  layer: 'GlobalPolicy',
+                  outcome: approved ? 'allow' : 'deny',
+                  rule: `command_rule_saved:${saved.scope}:${saved.action}:${saved.match}:${saved.pattern}`
+                })
+              }
+            }
             if (approved) {
               notifyToolUse()
               resolve(finish(buildAllowDecision(input)))
             } else {
               resolve(finish({
                 behavior: 'deny' as const,
-                message: 'User rejected command execution'
+                message: primaryRequirement.rejectedMessage
               }))
             }
           }
         })
-      }
-
-      if (strictSpaceOnly) {
-        trace.push({ layer: 'SpacePolicy', outcome: 'allow', rule: 'space.mode=strict-space-only' })
-        const command = typeof input.command === 'string' ? input.command : ''
-        if (!command.trim()) {
-          return deny(
-            'SpacePolicy',
-            'Command is required in strict space mode',
-            'strict_space.command_required'
-          )
-        }
-
-        if (/(^|[\s;|&])cd\s+\.\.(?=\/|\\|\s|$)/.test(command)) {
-          return deny(
-            'SpacePolicy',
-            `Strict space mode: directory traversal is blocked outside ${workDir}`,
-            'strict_space.directory_traversal'
-          )
-        }
-
-        const pathCandidates = getBashCommandPathCandidates(command)
-        for (const token of pathCandidates) {
-          if (token === '.' || token === './') continue
-          const resolvedTokenPath = resolveShellPathToken(token, absoluteWorkDir)
-          if (!resolvedTokenPath) continue
-          const boundaryResult = validatePathWithinBoundaryRoots(resolvedTokenPath, executionBoundaryRoots)
-          if (!boundaryResult.allowed) {
-            console.warn('[Agent] Security: Blocked Bash command path outside workDir', {
-              spaceId,
-              conversationId,
-              token,
-              resolvedTokenPath,
-              workDir: absoluteWorkDir,
-              reason: boundaryResult.reason
-            })
-            return deny(
-              'HardSafetyDeny',
-              'Strict space mode: Bash cannot access paths outside current space or approved global resource roots',
-              'strict_space.bash_path_boundary',
-              boundaryResult.errorCode || FS_BOUNDARY_VIOLATION
-            )
-          }
-        }
-      }
+      })
     }
 
     // AI Browser tools are always allowed (they run in sandboxed browser context)
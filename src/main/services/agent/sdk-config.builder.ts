@@ -11,12 +11,14 @@ import { homedir } from 'os'
 import { getConfig, getTempSpacePath } from '../config.service'
 import { getSpaceConfig, type SpaceToolkit } from '../space-config.service'
 import { buildHooksConfig } from '../hooks.service'
+import { buildSdkHooks } from '../hook-runtime.service'
 import { listEnabledPlugins } from '../plugins.service'
 import { isValidDirectoryPath } from '../../utils/path-validation'
 import { getSpace } from '../space.service'
 import { getSpaceToolkit } from '../toolkit.service'
 import { createAIBrowserMcpServer, AI_BROWSER_SYSTEM_PROMPT } from '../ai-browser'
 import { SKILLS_LAZY_SYSTEM_PROMPT } from '../skills-mcp-server'
+import { createPastContextMcpServer, PAST_CONTEXT_MCP_SERVER_NAME } from '../past-context-mcp-server'
 import { buildPluginMcpServers } from '../plugin-mcp.service'
 import { getLockedUserConfigRootDir } from '../config-source-mode.service'
 import { resolveResourceRuntimePolicy as resolveNormalizedRuntimePolicy } from '../resource-runtime-policy.service'
@@ -377,6 +379,7 @@ function buildMcpServersConfig(
   config: ReturnType<typeof getConfig>,
   spaceConfig: ReturnType<typeof getSpaceConfig>,
   workDir: string,
+  spaceId: string,
   conversationId: string,
   aiBrowserEnabled?: boolean,
   enabledPluginMcps?: string[]
@@ -397,10 +400,14 @@ function buildMcpServersConfig(
     console.log(`[Agent][${conversationId}] AI Browser MCP server added`)
   }
 
+  if (config.semanticSearch?.enabled) {
+    mcpServers[PAST_CONTEXT_MCP_SERVER_NAME] = createPastContextMcpServer(spaceId)
+  }
+
   if (mcpDisabled) {
     console.log(`[Agent][${conversationId}] MCP disabled by configuration (external only)`)
     const internalOnly = Object.fromEntries(
-      Object.entries(mcpServers).filter(([name]) => name === 'ai-browser')
+      Object.entries(mcpServers).filter(([name]) => name === 'ai-browser' || name === PAST_CONTEXT_MCP_SERVER_NAME)
     )
     return Object.keys(internalOnly).length > 0 ? { mcpServers: internalOnly } : {}
   }
@@ -599,12 +606,13 @@ export function buildSdkOptions(params: BuildSdkOptionsParams): Record<string, a
     plugins: buildPluginsConfig(workDir, {
       resourceRuntimePolicy: effectiveResourceRuntimePolicy
     }),
-    hooks: buildHooksConfig(workDir),
+    hooks: buildSdkHooks(buildHooksConfig(workDir), { spaceId, conversationId }),
     ...(thinkingEnabled && { maxThinkingTokens: 10240 }),
     ...buildMcpServersConfig(
       config,
       spaceConfig,
       workDir,
+      spaceId,
       conversationId,
       aiBrowserEnabled,
       enabledPluginMcps
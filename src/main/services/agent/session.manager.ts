@@ -37,6 +37,7 @@ import { getResourceIndexHash } from '../resource-index.service'
 import { normalizeLocale, type LocaleCode } from '../../../shared/i18n/locale'
 import { buildSessionKey } from '../../../shared/session-key'
 import { flushRuntimeJournalSnapshot } from './runtime-journal.service'
+import { hasPendingToolApprovals } from './tool-approval-queue'
 import type { ClaudeCodeSkillMissingPolicy } from '../../../shared/types/claude-code'
 
 // V2 Session management: Map of sessionKey -> persistent V2 session
@@ -932,7 +933,10 @@ export async function ensureSessionWarm(
   }
 
   const abortController = new AbortController()
-  const resolved = await resolveProvider(effectiveAi.profile, effectiveAi.effectiveModel)
+  const resolved = await resolveProvider(effectiveAi.profile, effectiveAi.effectiveModel, {
+    fallbackProfiles: effectiveAi.fallbackProfiles,
+    routeTag: conversationId
+  })
 
   const sdkOptions = buildSdkOptions({
     spaceId,
@@ -1270,7 +1274,7 @@ export async function setSessionMode(
     }
   }
 
-  if (hasPendingAskUserQuestionInteraction(sessionState) || sessionState.pendingPermissionResolve) {
+  if (hasPendingAskUserQuestionInteraction(sessionState) || hasPendingToolApprovals(sessionState)) {
     return {
       applied: false,
       mode: sessionState.mode,
@@ -0,0 +1,60 @@
+/**
+ * Tool Approval Queue
+ *
+ * Per-session queue of permission prompts waiting for the user. The SDK can ask
+ * for several tools at once (parallel tool calls, sub-agents), so every prompt
+ * is kept under its own toolCallId instead of a single resolver.
+ */
+
+import type { PendingToolApprovalContext, SessionState } from './types'
+
+export function registerPendingToolApproval(
+  session: SessionState,
+  context: PendingToolApprovalContext
+): void {
+  session.pendingToolApprovalsById.set(context.toolCallId, context)
+}
+
+export function hasPendingToolApprovals(session: SessionState): boolean {
+  return session.pendingToolApprovalsById.size > 0
+}
+
+export function listPendingToolApprovalIds(session: SessionState): string[] {
+  return Array.from(session.pendingToolApprovalsById.keys())
+}
+
+/**
+ * Remove a pending approval (the oldest one when no toolCallId is given)
+ * and stop its timeout. The caller resolves it.
+ */
+export function takePendingToolApproval(
+  session: SessionState,
+  toolCallId?: string
+): PendingToolApprovalContext | null {
+  const id = toolCallId ?? listPendingToolApprovalIds(session)[0]
+  if (!id) return null
+  const context = session.pendingToolApprovalsById.get(id)
+  if (!context) return null
+  session.pendingToolApprovalsById.delete(id)
+  if (context.timeoutHandle) {
+    clearTimeout(context.timeoutHandle)
+  }
+  return context
+}
+
+/**
+ * Reject every pending approval (stop, live guidance, session teardown)
+ */
+export function rejectAllPendingToolApprovals(session: SessionState): number {
+  const ids = listPendingToolApprovalIds(session)
+  for (const id of ids) {
+    const context = takePendingToolApproval(session, id)
+    if (!context) continue
+    try {
+      context.resolve(false)
+    } catch (error) {
+      console.warn('[Agent] Failed to reject pending tool approval:', error)
+    }
+  }
+  return ids.length
+}
@@ -8,6 +8,8 @@
  * and src/shared/types/ for cross-process sharing.
  */
 
+import type { CommandRuleRequest } from '../../../shared/types/command-rules'
+
 // ============================================
 // Image and Attachment Types
 // ============================================
@@ -229,6 +231,15 @@ export interface PendingAskUserQuestionContext {
   mode: AskUserQuestionMode
 }
 
+export interface PendingToolApprovalContext {
+  toolCallId: string
+  toolName: string
+  runId: string
+  createdAt: number
+  resolve: (approved: boolean, remember?: CommandRuleRequest) => void
+  timeoutHandle: ReturnType<typeof setTimeout> | null
+}
+
 export type SessionLifecycle = 'running' | 'terminal'
 export type SessionTerminalReason = 'completed' | 'stopped' | 'error' | 'no_text' | null
 
@@ -286,7 +297,8 @@ export interface SessionState {
   toolCallSeq: number
   toolsById: Map<string, ToolCall>
   askUserQuestionModeByToolCallId: Map<string, AskUserQuestionMode>
-  pendingPermissionResolve: ((approved: boolean) => void) | null
+  /** Approvals waiting for the user, keyed by toolCallId (insertion order = ask order) */
+  pendingToolApprovalsById: Map<string, PendingToolApprovalContext>
   pendingAskUserQuestionsById: Map<string, PendingAskUserQuestionContext>
   pendingAskUserQuestionOrder: string[]
   pendingAskUserQuestionIdByToolCallId: Map<string, string>
@@ -16,7 +16,7 @@ import { getLockedConfigSourceMode, getLockedUserConfigRootDir } from './config-
 import { getSpaceConfig } from './space-config.service'
 import { getAllSpacePaths } from './space.service'
 import { resolveResourceRuntimePolicy } from './resource-runtime-policy.service'
-import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult } from './resource-ref.service'
+import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult, ResourceFileByRef } from './resource-ref.service'
 import { isPathWithinBasePaths, isValidDirectoryPath, isFileNotFoundError } from '../utils/path-validation'
 import { listEnabledPlugins } from './plugins.service'
 import { FileCache } from '../utils/file-cache'
@@ -566,3 +566,17 @@ export function copyAgentToSpaceByRef(
     return { status: 'not_found', error: (error as Error).message }
   }
 }
+
+/**
+ * Resolve a agent by ref and read its raw file (used to bundle workflows for export)
+ */
+export function readAgentByRef(ref: ResourceRef, workDir: string): ResourceFileByRef<AgentDefinition> | null {
+  const sourceAgent = findAgentByRef(listAgentsForRefLookup(workDir), ref)
+  if (!sourceAgent) return null
+  try {
+    return { definition: sourceAgent, content: readFileSync(sourceAgent.path, 'utf-8') }
+  } catch (error) {
+    console.warn(`[Agents] Failed to read agent ${ref.name}:`, error)
+    return null
+  }
+}
@@ -234,14 +234,113 @@ export function getArtifact(artifactId: string): Artifact | null {
   return null
 }
 
-// Watch for file changes (future feature)
+const ARTIFACT_WATCH_DEBOUNCE_MS = 500
+const ARTIFACT_WATCH_MAX_DEPTH = 5
+
+// Same exclusions as the artifact scan: hidden dirs (incl. .kite, .git) and build caches
+function isIgnoredArtifactPath(relativePath: string): boolean {
+  const segments = relativePath.split('/')
+  const name = segments[segments.length - 1]
+  if (name === '.DS_Store') return true
+  return segments.slice(0, -1).some(segment =>
+    segment.startsWith('.') ||
+    segment === 'node_modules' ||
+    segment === '__pycache__' ||
+    segment === 'dist' ||
+    segment === 'build'
+  )
+}
+
+/**
+ * Watch a space for file changes. The callback receives a debounced batch of
+ * paths relative to the space root (created, modified or deleted).
+ * Returns a cleanup function that stops watching.
+ */
 export function watchArtifacts(
   spaceId: string,
-  callback: (artifacts: Artifact[]) => void
+  callback: (changedPaths: string[]) => void
 ): () => void {
-  // TODO: Implement file watching with chokidar or similar
-  // For now, return a no-op cleanup function
-  return () => {}
+  const workDir = getWorkingDir(spaceId)
+  if (!existsSync(workDir)) {
+    return () => {}
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>()
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+  let closed = false
+
+  const flush = () => {
+    timer = null
+    if (closed || pending.size === 0) return
+    const batch = Array.from(pending)
+    pending.clear()
+    try {
+      callback(batch)
+    } catch (error) {
+      console.error('[Artifact] Watch callback failed:', error)
+    }
+  }
+
+  const record = (relativePath: string) => {
+    const normalized = relativePath.split('\\').join('/')
+    if (!normalized || isIgnoredArtifactPath(normalized)) return
+    pending.add(normalized)
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(flush, ARTIFACT_WATCH_DEBOUNCE_MS)
+  }
+
+  // Recursive fs.watch walks every directory on Linux (including node_modules),
+  // so there we watch the scanned directories individually instead.
+  const supportsRecursive = process.platform !== 'linux'
+
+  const watchDir = (dirPath: string, depth: number) => {
+    if (closed || watchers.has(dirPath) || depth >= ARTIFACT_WATCH_MAX_DEPTH) return
+    try {
+      const watcher = fs.watch(dirPath, { recursive: supportsRecursive }, (_eventType, filename) => {
+        if (!filename) return
+        const fullPath = join(dirPath, filename.toString())
+        record(fullPath.slice(workDir.length + 1))
+        if (!supportsRecursive && existsSync(fullPath) && statSync(fullPath).isDirectory()) {
+          watchNested(fullPath, depth + 1)
+        }
+      })
+      watcher.on('error', () => {
+        watcher.close()
+        watchers.delete(dirPath)
+      })
+      watchers.set(dirPath, watcher)
+    } catch (error) {
+      console.warn(`[Artifact] Failed to watch ${dirPath}:`, error)
+    }
+  }
+
+  const watchNested = (dirPath: string, depth: number) => {
+    watchDir(dirPath, depth)
+    if (depth + 1 >= ARTIFACT_WATCH_MAX_DEPTH) return
+    try {
+      for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+        if (entry.isDirectory() && !shouldSkipArtifactEntry(entry)) {
+          watchNested(join(dirPath, entry.name), depth + 1)
+        }
+      }
+    } catch {
+      // Directory removed while walking
+    }
+  }
+
+  if (supportsRecursive) {
+    watchDir(workDir, 0)
+  } else {
+    watchNested(workDir, 0)
+  }
+
+  return () => {
+    closed = true
+    if (timer) clearTimeout(timer)
+    watchers.forEach(watcher => watcher.close())
+    watchers.clear()
+  }
 }
 
 // Recursively scan directory and return tree structure
@@ -14,6 +14,7 @@
  */
 
 import { BrowserView, BrowserWindow } from 'electron'
+import type { SopParameter } from '../../shared/types/sop'
 
 // ============================================
 // Types
@@ -69,6 +70,7 @@ export interface SopSpec {
   version: string
   name: string
   steps: SopRecordedStep[]
+  parameters?: SopParameter[]
   meta?: Record<string, unknown>
 }
 
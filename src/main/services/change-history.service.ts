@@ -0,0 +1,292 @@
+/**
+ * Change History Service
+ *
+ * Space-level timeline of every AI change set. File snapshots are stored
+ * content-addressed under `.kite/history/objects` by their hash, so identical
+ * before/after contents across change sets are written once.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, unlinkSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { createHash } from 'crypto'
+import { getSpace } from './space.service'
+import { calculateLineDiffStats } from '../../shared/utils/diff-stats'
+import type { ChangeFile, ChangeSet } from './change-set.service'
+
+const HISTORY_VERSION = 1
+
+export type StoredChangeFile = Omit<ChangeFile, 'beforeContent' | 'afterContent'>
+
+export interface StoredChangeSet extends Omit<ChangeSet, 'files'> {
+  files: StoredChangeFile[]
+}
+
+interface ChangeHistoryFile {
+  version: number
+  changeSets: StoredChangeSet[]
+}
+
+export interface ChangeHistoryStats {
+  changeSets: number
+  objects: number
+  totalBytes: number
+  oldestAt?: string
+}
+
+export interface PruneChangeHistoryOptions {
+  /** Drop change sets older than this many days */
+  maxAgeDays?: number
+  /** Drop the oldest change sets until stored snapshots fit in this many bytes */
+  maxBytes?: number
+}
+
+export interface PruneChangeHistoryResult {
+  removedChangeSets: number
+  removedObjects: number
+  freedBytes: number
+}
+
+function getKiteDir(spaceId: string): string {
+  const space = getSpace(spaceId)
+  if (!space) {
+    throw new Error(`Space not found: ${spaceId}`)
+  }
+  return join(space.path, '.kite')
+}
+
+function getHistoryDir(spaceId: string): string {
+  return join(getKiteDir(spaceId), 'history')
+}
+
+function getLegacyChangeSetsDir(spaceId: string): string {
+  return join(getKiteDir(spaceId), 'change-sets')
+}
+
+function getObjectPath(historyDir: string, hash: string): string {
+  return join(historyDir, 'objects', hash.slice(0, 2), hash.slice(2))
+}
+
+export function isHistoryObjectHash(value: string): boolean {
+  return /^[0-9a-f]{40}$/.test(value)
+}
+
+/** Text is hashed as UTF-8, so a text snapshot and its raw bytes share one object. */
+export function hashHistoryContent(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+export function writeHistoryObject(spaceId: string, content: string | Buffer): string {
+  const hash = hashHistoryContent(content)
+  const objectPath = getObjectPath(getHistoryDir(spaceId), hash)
+  if (!existsSync(objectPath)) {
+    mkdirSync(dirname(objectPath), { recursive: true })
+    writeFileSync(objectPath, content)
+  }
+  return hash
+}
+
+export function readHistoryObjectBytes(spaceId: string, hash: string): Buffer | null {
+  if (!isHistoryObjectHash(hash)) return null
+  // Oversized files are recorded by hash only, so a missing object is expected
+  const objectPath = getObjectPath(getHistoryDir(spaceId), hash)
+  if (!existsSync(objectPath)) return null
+  try {
+    return readFileSync(objectPath)
+  } catch (error) {
+    console.warn(`[ChangeHistory] Failed to read snapshot object: ${hash}`, error)
+    return null
+  }
+}
+
+export function readHistoryObject(spaceId: string, hash: string): string | null {
+  return readHistoryObjectBytes(spaceId, hash)?.toString('utf-8') ?? null
+}
+
+/**
+ * Move inline snapshot contents into the object store and keep only their
+ * hashes. Stats are recounted from the contents, as older versions stored
+ * estimates.
+ */
+function toStoredChangeSet(spaceId: string, changeSet: ChangeSet): StoredChangeSet {
+  const files = changeSet.files.map(({ beforeContent, afterContent, ...file }) => ({
+    ...file,
+    beforeHash: file.beforeExists ? writeHistoryObject(spaceId, beforeContent ?? '') : undefined,
+    afterHash: file.afterExists ? writeHistoryObject(spaceId, afterContent ?? '') : undefined,
+    stats: calculateLineDiffStats(beforeContent || '', file.afterExists ? afterContent || '' : '')
+  }))
+  return {
+    ...changeSet,
+    summary: {
+      totalFiles: files.length,
+      totalAdded: files.reduce((sum, file) => sum + file.stats.added, 0),
+      totalRemoved: files.reduce((sum, file) => sum + file.stats.removed, 0)
+    },
+    files
+  }
+}
+
+/**
+ * Import the per-conversation `.kite/change-sets/*.json` files written before
+ * the space-level history existed, then remove them.
+ */
+function migrateLegacyChangeSets(spaceId: string, history: ChangeHistoryFile): boolean {
+  const legacyDir = getLegacyChangeSetsDir(spaceId)
+  if (!existsSync(legacyDir)) return false
+
+  let migrated = false
+  for (const fileName of readdirSync(legacyDir)) {
+    if (!fileName.endsWith('.json')) continue
+    const legacyPath = join(legacyDir, fileName)
+    try {
+      const parsed = JSON.parse(readFileSync(legacyPath, 'utf-8'))
+      if (Array.isArray(parsed)) {
+        const known = new Set(history.changeSets.map(changeSet => changeSet.id))
+        for (const changeSet of parsed as ChangeSet[]) {
+          if (!known.has(changeSet.id)) {
+            history.changeSets.push(toStoredChangeSet(spaceId, changeSet))
+          }
+        }
+      }
+      unlinkSync(legacyPath)
+      migrated = true
+    } catch (error) {
+      console.error(`[ChangeHistory] Failed to migrate legacy change sets: ${legacyPath}`, error)
+    }
+  }
+
+  if (migrated) {
+    history.changeSets.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+  return migrated
+}
+
+function readHistoryFile(spaceId: string): ChangeHistoryFile {
+  const filePath = join(getHistoryDir(spaceId), 'timeline.json')
+  if (!existsSync(filePath)) {
+    return { version: HISTORY_VERSION, changeSets: [] }
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<ChangeHistoryFile>
+    return {
+      version: HISTORY_VERSION,
+      changeSets: Array.isArray(parsed.changeSets) ? parsed.changeSets : []
+    }
+  } catch (error) {
+    console.error('[ChangeHistory] Failed to read timeline:', error)
+    return { version: HISTORY_VERSION, changeSets: [] }
+  }
+}
+
+/** All change sets of the space, oldest first. */
+export function loadChangeHistory(spaceId: string): StoredChangeSet[] {
+  const history = readHistoryFile(spaceId)
+  if (migrateLegacyChangeSets(spaceId, history)) {
+    saveChangeHistory(spaceId, history.changeSets)
+  }
+  return history.changeSets
+}
+
+export function saveChangeHistory(spaceId: string, changeSets: StoredChangeSet[]): void {
+  const historyDir = getHistoryDir(spaceId)
+  mkdirSync(historyDir, { recursive: true })
+  const history: ChangeHistoryFile = { version: HISTORY_VERSION, changeSets }
+  writeFileSync(join(historyDir, 'timeline.json'), JSON.stringify(history, null, 2), 'utf-8')
+}
+
+/** Append a change set whose snapshots were already written with writeHistoryObject. */
+export function appendChangeHistory(spaceId: string, changeSet: StoredChangeSet): void {
+  const changeSets = loadChangeHistory(spaceId)
+  changeSets.push(changeSet)
+  saveChangeHistory(spaceId, changeSets)
+}
+
+function listObjects(historyDir: string): Array<{ hash: string; path: string; size: number }> {
+  const objectsDir = join(historyDir, 'objects')
+  if (!existsSync(objectsDir)) return []
+
+  const objects: Array<{ hash: string; path: string; size: number }> = []
+  for (const prefix of readdirSync(objectsDir)) {
+    const prefixDir = join(objectsDir, prefix)
+    if (!statSync(prefixDir).isDirectory()) continue
+    for (const rest of readdirSync(prefixDir)) {
+      const objectPath = join(prefixDir, rest)
+      objects.push({ hash: prefix + rest, path: objectPath, size: statSync(objectPath).size })
+    }
+  }
+  return objects
+}
+
+function collectReferencedHashes(changeSets: StoredChangeSet[]): Set<string> {
+  const hashes = new Set<string>()
+  for (const changeSet of changeSets) {
+    for (const file of changeSet.files) {
+      if (file.beforeHash) hashes.add(file.beforeHash)
+      if (file.afterHash) hashes.add(file.afterHash)
+    }
+  }
+  return hashes
+}
+
+export function getChangeHistoryStats(spaceId: string): ChangeHistoryStats {
+  const changeSets = loadChangeHistory(spaceId)
+  const objects = listObjects(getHistoryDir(spaceId))
+  return {
+    changeSets: changeSets.length,
+    objects: objects.length,
+    totalBytes: objects.reduce((sum, object) => sum + object.size, 0),
+    oldestAt: changeSets[0]?.createdAt
+  }
+}
+
+/**
+ * Drop change sets by age and total snapshot size (oldest first), then delete
+ * snapshot objects no remaining change set references.
+ */
+export function pruneChangeHistory(
+  spaceId: string,
+  options: PruneChangeHistoryOptions
+): PruneChangeHistoryResult {
+  const historyDir = getHistoryDir(spaceId)
+  const changeSets = loadChangeHistory(spaceId)
+  let kept = changeSets
+
+  if (options.maxAgeDays !== undefined) {
+    const cutoff = Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000
+    kept = kept.filter(changeSet => new Date(changeSet.createdAt).getTime() >= cutoff)
+  }
+
+  const objects = listObjects(historyDir)
+  const sizes = new Map(objects.map(object => [object.hash, object.size]))
+
+  if (options.maxBytes !== undefined) {
+    const sizeOf = (hashes: Set<string>) => {
+      let total = 0
+      hashes.forEach(hash => { total += sizes.get(hash) ?? 0 })
+      return total
+    }
+    while (kept.length > 0 && sizeOf(collectReferencedHashes(kept)) > options.maxBytes) {
+      kept = kept.slice(1)
+    }
+  }
+
+  const referenced = collectReferencedHashes(kept)
+  let removedObjects = 0
+  let freedBytes = 0
+  for (const object of objects) {
+    if (referenced.has(object.hash)) continue
+    rmSync(object.path, { force: true })
+    removedObjects += 1
+    freedBytes += object.size
+  }
+
+  if (kept.length !== changeSets.length) {
+    saveChangeHistory(spaceId, kept)
+  }
+
+  console.log(`[ChangeHistory] Pruned ${changeSets.length - kept.length} change sets, ${removedObjects} objects`)
+  return {
+    removedChangeSets: changeSets.length - kept.length,
+    removedObjects,
+    freedBytes
+  }
+}
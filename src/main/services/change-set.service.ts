@@ -2,17 +2,30 @@
  * Change Set Service
  *
  * Tracks file changes during a single AI response and provides
- * real rollback capabilities using local snapshots.
+ * real rollback capabilities using local snapshots. Finalized change sets
+ * are kept in the space-level history (see change-history.service), which is
+ * pruned by the `changeTracking` age and size limits.
  */
 
-import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync, unlinkSync } from 'fs'
-import { dirname, join, resolve, relative } from 'path'
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, statSync, writeFileSync, unlinkSync } from 'fs'
+import { dirname, resolve, relative } from 'path'
 import { createHash } from 'crypto'
-import { getSpace } from './space.service'
+import { getConfig } from './config.service'
 import { buildSessionKey } from '../../shared/session-key'
 import { calculateLineDiffStats } from '../../shared/utils/diff-stats'
-
-const CHANGE_SET_LIMIT = 3
+import { mergeThreeWay } from '../../shared/utils/three-way-merge'
+import {
+  appendChangeHistory,
+  hashHistoryContent as hashContent,
+  loadChangeHistory,
+  pruneChangeHistory,
+  readHistoryObject,
+  readHistoryObjectBytes,
+  saveChangeHistory,
+  writeHistoryObject,
+  type StoredChangeFile,
+  type StoredChangeSet
+} from './change-history.service'
 
 export type ChangeFileType = 'edit' | 'create' | 'delete'
 export type ChangeFileStatus = 'accepted' | 'rolled_back'
@@ -31,6 +44,12 @@ export interface ChangeFile {
   afterContent?: string
   beforeHash?: string
   afterHash?: string
+  beforeSize?: number
+  afterSize?: number
+  /** Not valid UTF-8 text; snapshots are kept as raw bytes and have no line diff */
+  binary?: boolean
+  /** Larger than `changeTracking.maxSnapshotBytes`; only hashes were recorded */
+  snapshotSkipped?: boolean
   stats: { added: number; removed: number }
 }
 
@@ -45,14 +64,20 @@ export interface ChangeSet {
   files: ChangeFile[]
 }
 
+interface FileSnapshot {
+  hash: string
+  size: number
+  binary: boolean
+  /** Raw bytes, omitted when the file exceeds the snapshot size limit */
+  data?: Buffer
+}
+
 interface PendingChangeFile {
   id: string
   absPath: string
   relativePath: string
   fileName: string
-  beforeExists: boolean
-  beforeContent?: string
-  beforeHash?: string
+  before?: FileSnapshot
 }
 
 interface PendingChangeSet {
@@ -66,6 +91,12 @@ interface PendingChangeSet {
 
 const pendingChangeSets = new Map<string, PendingChangeSet>()
 
+const BINARY_SNIFF_BYTES = 8000
+const HASH_CHUNK_BYTES = 1024 * 1024
+const AUTO_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+const lastAutoPruneAt = new Map<string, number>()
+
 function computeStatsFromFileSnapshot(file: Pick<ChangeFile, 'beforeContent' | 'afterContent' | 'afterExists'>): { added: number; removed: number } {
   return calculateLineDiffStats(
     file.beforeContent || '',
@@ -73,82 +104,70 @@ function computeStatsFromFileSnapshot(file: Pick<ChangeFile, 'beforeContent' | '
   )
 }
 
-function normalizeChangeSetStats(changeSet: ChangeSet): ChangeSet {
-  let changed = false
-  const normalizedFiles = changeSet.files.map((file) => {
-    const normalizedStats = computeStatsFromFileSnapshot(file)
-    if (
-      file.stats.added === normalizedStats.added &&
-      file.stats.removed === normalizedStats.removed
-    ) {
-      return file
-    }
-    changed = true
-    return {
-      ...file,
-      stats: normalizedStats
-    }
-  })
-
-  const normalizedSummary = normalizedFiles.reduce(
-    (acc, file) => {
-      acc.totalAdded += file.stats.added
-      acc.totalRemoved += file.stats.removed
-      return acc
-    },
-    {
-      totalFiles: normalizedFiles.length,
-      totalAdded: 0,
-      totalRemoved: 0
-    }
-  )
-
-  if (
-    !changed &&
-    changeSet.summary.totalFiles === normalizedSummary.totalFiles &&
-    changeSet.summary.totalAdded === normalizedSummary.totalAdded &&
-    changeSet.summary.totalRemoved === normalizedSummary.totalRemoved
-  ) {
-    return changeSet
-  }
-
-  return {
-    ...changeSet,
-    files: normalizedFiles,
-    summary: normalizedSummary
-  }
+function getFileName(path: string): string {
+  const parts = path.split(/[/\\]/)
+  return parts[parts.length - 1] || path
 }
 
-function getChangeSetsDir(spaceId: string): string {
-  const space = getSpace(spaceId)
-  if (!space) {
-    throw new Error(`Space not found: ${spaceId}`)
-  }
-  return join(space.path, '.kite', 'change-sets')
+function getMaxSnapshotBytes(): number {
+  return getConfig().changeTracking?.maxSnapshotBytes ?? 10 * 1024 * 1024
 }
 
-function getChangeSetsFile(spaceId: string, conversationId: string): string {
-  return join(getChangeSetsDir(spaceId), `${conversationId}.json`)
+/** NUL bytes, or bytes that do not survive a UTF-8 round trip, mean the file is not text. */
+function isBinaryData(data: Buffer): boolean {
+  if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return true
+  return !Buffer.from(data.toString('utf-8'), 'utf-8').equals(data)
 }
 
-function ensureDir(path: string): void {
-  if (!existsSync(path)) {
-    mkdirSync(path, { recursive: true })
+/** Hash and sniff a file without loading it into memory at once. */
+function scanFile(path: string): { hash: string; binary: boolean } {
+  const hash = createHash('sha1')
+  const buffer = Buffer.alloc(HASH_CHUNK_BYTES)
+  const fd = openSync(path, 'r')
+  let binary = false
+  let first = true
+  try {
+    let bytesRead = 0
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      const chunk = buffer.subarray(0, bytesRead)
+      if (first) {
+        binary = chunk.subarray(0, BINARY_SNIFF_BYTES).includes(0)
+        first = false
+      }
+      hash.update(chunk)
+    }
+  } finally {
+    closeSync(fd)
   }
+  return { hash: hash.digest('hex'), binary }
 }
 
-function hashContent(content: string): string {
-  return createHash('sha1').update(content).digest('hex')
-}
+/** Apply the configured history limits, at most once a day per space. */
+function autoPruneChangeHistory(spaceId: string): void {
+  const now = Date.now()
+  if (now - (lastAutoPruneAt.get(spaceId) ?? 0) < AUTO_PRUNE_INTERVAL_MS) return
+  lastAutoPruneAt.set(spaceId, now)
 
-function getFileName(path: string): string {
-  const parts = path.split(/[/\\]/)
-  return parts[parts.length - 1] || path
+  const { maxHistoryAgeDays, maxHistoryBytes } = getConfig().changeTracking ?? {}
+  if (!maxHistoryAgeDays && !maxHistoryBytes) return
+  try {
+    pruneChangeHistory(spaceId, {
+      maxAgeDays: maxHistoryAgeDays || undefined,
+      maxBytes: maxHistoryBytes || undefined
+    })
+  } catch (error) {
+    console.warn(`[ChangeSet] Failed to prune change history: ${spaceId}`, error)
+  }
 }
 
-function readTextFile(path: string): string | null {
+function readFileSnapshot(path: string, maxBytes: number): FileSnapshot | null {
   try {
-    return readFileSync(path, 'utf-8')
+    const size = statSync(path).size
+    if (size > maxBytes) {
+      return { ...scanFile(path), size }
+    }
+    const data = readFileSync(path)
+    return { hash: hashContent(data), size, binary: isBinaryData(data), data }
   } catch (error) {
     console.warn(`[ChangeSet] Failed to read file: ${path}`, error)
     return null
@@ -206,16 +225,15 @@ export function trackChangeFile(spaceId: string, conversationId: string, filePat
       return
     }
   }
-  const beforeContent = beforeExists ? readTextFile(resolved) ?? '' : ''
+  const before = beforeExists ? readFileSnapshot(resolved, getMaxSnapshotBytes()) : undefined
+  if (before === null) return
 
   pending.files.set(resolved, {
     id: `cf-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
     absPath: resolved,
     relativePath: relative(pending.workDir, resolved),
     fileName: getFileName(resolved),
-    beforeExists,
-    beforeContent: beforeExists ? beforeContent : undefined,
-    beforeHash: beforeExists ? hashContent(beforeContent) : undefined
+    before
   })
 }
 
@@ -228,35 +246,46 @@ export function finalizeChangeSet(
   const pending = pendingChangeSets.get(sessionKey)
   if (!pending) return null
 
-  const files: ChangeFile[] = []
+  const maxBytes = getMaxSnapshotBytes()
+  const files: StoredChangeFile[] = []
   let totalAdded = 0
   let totalRemoved = 0
 
-  for (const pendingFile of pending.files.values()) {
+  pending.files.forEach((pendingFile) => {
+    const { before } = pendingFile
     const afterExists = existsSync(pendingFile.absPath)
-    const afterContent = afterExists ? readTextFile(pendingFile.absPath) ?? '' : ''
-    const afterHash = afterExists ? hashContent(afterContent) : undefined
+    const after = afterExists ? readFileSnapshot(pendingFile.absPath, maxBytes) : undefined
 
-    if (!pendingFile.beforeExists && !afterExists) {
-      continue
+    if (after === null || (!before && !after)) {
+      return
     }
 
-    if (pendingFile.beforeExists && afterExists && pendingFile.beforeHash === afterHash) {
-      continue
+    if (before && after && before.hash === after.hash) {
+      return
     }
 
     let type: ChangeFileType = 'edit'
-    if (!pendingFile.beforeExists && afterExists) {
+    if (!before && after) {
       type = 'create'
-    } else if (pendingFile.beforeExists && !afterExists) {
+    } else if (before && !after) {
       type = 'delete'
     }
 
-    const stats = computeStatsFromFileSnapshot({
-      beforeContent: pendingFile.beforeContent,
-      afterContent: afterExists ? afterContent : undefined,
-      afterExists
-    })
+    const binary = Boolean(before?.binary || after?.binary)
+    const snapshotSkipped = Boolean((before && !before.data) || (after && !after.data))
+    if (snapshotSkipped) {
+      console.warn(
+        `[ChangeSet] ${pendingFile.relativePath} is larger than the ${maxBytes} byte snapshot limit; it cannot be rolled back`
+      )
+    }
+
+    const stats = binary || snapshotSkipped
+      ? { added: 0, removed: 0 }
+      : computeStatsFromFileSnapshot({
+        beforeContent: before?.data?.toString('utf-8'),
+        afterContent: after?.data?.toString('utf-8'),
+        afterExists
+      })
 
     totalAdded += stats.added
     totalRemoved += stats.removed
@@ -268,15 +297,17 @@ export function finalizeChangeSet(
       fileName: pendingFile.fileName,
       type,
       status: 'accepted',
-      beforeExists: pendingFile.beforeExists,
-      afterExists,
-      beforeContent: pendingFile.beforeContent,
-      afterContent: afterExists ? afterContent : undefined,
-      beforeHash: pendingFile.beforeHash,
-      afterHash,
+      beforeExists: Boolean(before),
+      afterExists: Boolean(after),
+      beforeHash: before ? (before.data ? writeHistoryObject(spaceId, before.data) : before.hash) : undefined,
+      afterHash: after ? (after.data ? writeHistoryObject(spaceId, after.data) : after.hash) : undefined,
+      beforeSize: before?.size,
+      afterSize: after?.size,
+      ...(binary ? { binary: true } : {}),
+      ...(snapshotSkipped ? { snapshotSkipped: true } : {}),
       stats
     })
-  }
+  })
 
   clearPendingChangeSet(spaceId, conversationId)
 
@@ -284,7 +315,7 @@ export function finalizeChangeSet(
     return null
   }
 
-  const changeSet: ChangeSet = {
+  const changeSet: StoredChangeSet = {
     id: pending.id,
     spaceId,
     conversationId,
@@ -299,49 +330,92 @@ export function finalizeChangeSet(
     files
   }
 
-  const existing = listChangeSets(spaceId, conversationId)
-  const next = [changeSet, ...existing].slice(0, CHANGE_SET_LIMIT)
-  saveChangeSets(spaceId, conversationId, next)
+  appendChangeHistory(spaceId, changeSet)
+  autoPruneChangeHistory(spaceId)
 
   return changeSet
 }
 
-export function listChangeSets(spaceId: string, conversationId: string): ChangeSet[] {
-  const filePath = getChangeSetsFile(spaceId, conversationId)
-  if (!existsSync(filePath)) return []
 
-  try {
-    const raw = readFileSync(filePath, 'utf-8')
-    const parsed = JSON.parse(raw)
-    if (!Array.isArray(parsed)) return []
-    return parsed.map((changeSet) => normalizeChangeSetStats(changeSet as ChangeSet))
-  } catch (error) {
-    console.error('[ChangeSet] Failed to read change sets:', error)
-    return []
+export interface ChangeSetRollbackResult {
+  changeSet: ChangeSet | null
+  conflicts: string[]
+  /** Files whose later hand edits were kept by merging them with the rollback */
+  merged: string[]
+  /** Files left untouched because no snapshot of their earlier content was kept */
+  unavailable: string[]
+}
+
+export interface MessageRollbackResult {
+  changeSets: ChangeSet[]
+  conflicts: string[]
+  merged: string[]
+  unavailable: string[]
+}
+
+interface FileState {
+  exists: boolean
+  hash?: string
+  data?: Buffer
+}
+
+function readSnapshot(spaceId: string, exists: boolean, hash?: string): string {
+  if (!exists || !hash) return ''
+  return readHistoryObject(spaceId, hash) ?? ''
+}
+
+function hydrateChangeSet(spaceId: string, stored: StoredChangeSet): ChangeSet {
+  return {
+    ...stored,
+    files: stored.files.map(file => {
+      // Binary and oversized snapshots are fetched on demand via readChangeSnapshot
+      if (file.binary || file.snapshotSkipped) return file
+      return {
+        ...file,
+        beforeContent: file.beforeExists ? readSnapshot(spaceId, true, file.beforeHash) : undefined,
+        afterContent: file.afterExists ? readSnapshot(spaceId, true, file.afterHash) : undefined
+      }
+    })
   }
 }
 
-function saveChangeSets(spaceId: string, conversationId: string, changeSets: ChangeSet[]): void {
-  const dir = getChangeSetsDir(spaceId)
-  ensureDir(dir)
-  const filePath = getChangeSetsFile(spaceId, conversationId)
-  writeFileSync(filePath, JSON.stringify(changeSets, null, 2), 'utf-8')
+/** Raw snapshot bytes by hash, for binary previews. */
+export function readChangeSnapshot(spaceId: string, hash: string): Buffer | null {
+  return readHistoryObjectBytes(spaceId, hash)
+}
+
+/** Change sets of a conversation, newest first, without file contents (see getChangeSet). */
+export function listChangeSets(spaceId: string, conversationId: string): ChangeSet[] {
+  return loadChangeHistory(spaceId)
+    .filter(changeSet => changeSet.conversationId === conversationId)
+    .reverse()
+}
+
+/** One change set with the before/after contents of its text files, for diff views. */
+export function getChangeSet(spaceId: string, conversationId: string, changeSetId: string): ChangeSet | null {
+  const stored = loadChangeHistory(spaceId)
+    .find(changeSet => changeSet.id === changeSetId && changeSet.conversationId === conversationId)
+  return stored ? hydrateChangeSet(spaceId, stored) : null
+}
+
+/** Every change set of the space across conversations, newest first, without file contents. */
+export function listChangeHistory(spaceId: string): StoredChangeSet[] {
+  return loadChangeHistory(spaceId).reverse()
 }
 
 function updateChangeSet(
   spaceId: string,
   conversationId: string,
   changeSetId: string,
-  updater: (changeSet: ChangeSet) => ChangeSet
+  updater: (changeSet: StoredChangeSet) => StoredChangeSet
 ): ChangeSet | null {
-  const changeSets = listChangeSets(spaceId, conversationId)
-  const index = changeSets.findIndex(cs => cs.id === changeSetId)
+  const history = loadChangeHistory(spaceId)
+  const index = history.findIndex(cs => cs.id === changeSetId && cs.conversationId === conversationId)
   if (index < 0) return null
 
-  const updated = updater(changeSets[index])
-  changeSets[index] = updated
-  saveChangeSets(spaceId, conversationId, changeSets)
-  return updated
+  history[index] = updater(history[index])
+  saveChangeHistory(spaceId, history)
+  return history[index]
 }
 
 function ensureParentDir(filePath: string): void {
@@ -351,13 +425,20 @@ function ensureParentDir(filePath: string): void {
   }
 }
 
-function computeChangeSetStatus(changeSet: ChangeSet): ChangeSetStatus {
+function computeChangeSetStatus(changeSet: { files: Array<{ status: ChangeFileStatus }> }): ChangeSetStatus {
   const rolledBackCount = changeSet.files.filter(f => f.status === 'rolled_back').length
   if (rolledBackCount === 0) return 'applied'
   if (rolledBackCount === changeSet.files.length) return 'rolled_back'
   return 'partial_rollback'
 }
 
+function markRolledBack(changeSet: StoredChangeSet, fileIds: Set<string>): StoredChangeSet {
+  const files = changeSet.files.map(file => (
+    fileIds.has(file.id) ? { ...file, status: 'rolled_back' as const } : file
+  ))
+  return { ...changeSet, files, status: computeChangeSetStatus({ files }) }
+}
+
 export function acceptChangeSet(
   spaceId: string,
   conversationId: string,
@@ -370,13 +451,118 @@ export function acceptChangeSet(
         if (file.status === 'rolled_back') {
           return file
         }
-        return { ...file, status: 'accepted' }
+        return { ...file, status: 'accepted' as const }
       }
       return file
     })
-    const updated = { ...changeSet, files }
-    return { ...updated, status: computeChangeSetStatus(updated) }
+    return { ...changeSet, files, status: computeChangeSetStatus({ files }) }
+  })
+}
+
+function readCurrentState(path: string): FileState {
+  if (!existsSync(path)) return { exists: false }
+  try {
+    return { exists: true, hash: scanFile(path).hash }
+  } catch (error) {
+    console.warn(`[ChangeSet] Failed to read file: ${path}`, error)
+    return { exists: true }
+  }
+}
+
+/**
+ * Undo one recorded file change on top of `state`. When a text file was edited
+ * by hand after the AI touched it, the edits are kept through a three-way merge
+ * (base: AI result, ours: current file, theirs: content before the AI change).
+ * Returns 'conflict' when the change cannot be undone without discarding those
+ * edits, and 'unavailable' when the earlier content was never snapshotted.
+ */
+function revertFileChange(
+  spaceId: string,
+  path: string,
+  state: FileState,
+  file: StoredChangeFile,
+  force: boolean
+): { state: FileState; merged: boolean } | 'conflict' | 'unavailable' {
+  let before: FileState = { exists: false }
+  if (file.beforeExists) {
+    const data = file.beforeHash ? readHistoryObjectBytes(spaceId, file.beforeHash) : null
+    if (!data) return 'unavailable'
+    before = { exists: true, hash: file.beforeHash, data }
+  }
+
+  const matchesAfter = file.afterExists
+    ? state.exists && state.hash === file.afterHash
+    : !state.exists
+  if (matchesAfter || force) {
+    return { state: before, merged: false }
+  }
+
+  if (file.binary || !before.data || !file.afterExists || !state.exists || !file.afterHash) {
+    return 'conflict'
+  }
+  const after = readHistoryObject(spaceId, file.afterHash)
+  let current = state.data
+  if (!current) {
+    try {
+      current = readFileSync(path)
+    } catch {
+      return 'conflict'
+    }
+  }
+  if (after === null || isBinaryData(current)) return 'conflict'
+
+  const result = mergeThreeWay(after, current.toString('utf-8'), before.data.toString('utf-8'))
+  if (result.conflict) return 'conflict'
+  const data = Buffer.from(result.content, 'utf-8')
+  return { state: { exists: true, hash: hashContent(data), data }, merged: true }
+}
+
+/**
+ * Revert `files` (newest change first) against the working tree. Nothing is
+ * written if any file conflicts; files without a usable snapshot are skipped.
+ */
+function rollbackFiles(
+  spaceId: string,
+  files: StoredChangeFile[],
+  force: boolean
+): { conflicts: string[]; merged: string[]; unavailable: string[]; revertedIds: Set<string> } {
+  const states = new Map<string, FileState>()
+  const conflicts = new Set<string>()
+  const merged = new Set<string>()
+  const unavailable = new Set<string>()
+  const revertedIds = new Set<string>()
+
+  for (const file of files) {
+    if (conflicts.has(file.path) || unavailable.has(file.path)) continue
+    const state = states.get(file.path) ?? readCurrentState(file.path)
+    const reverted = revertFileChange(spaceId, file.path, state, file, force)
+    if (reverted === 'conflict') {
+      conflicts.add(file.path)
+      continue
+    }
+    if (reverted === 'unavailable') {
+      console.warn(`[ChangeSet] No snapshot kept for ${file.path}; leaving it unchanged`)
+      unavailable.add(file.path)
+      continue
+    }
+    if (reverted.merged) merged.add(file.path)
+    states.set(file.path, reverted.state)
+    revertedIds.add(file.id)
+  }
+
+  if (conflicts.size > 0) {
+    return { conflicts: Array.from(conflicts), merged: [], unavailable: Array.from(unavailable), revertedIds: new Set() }
+  }
+
+  states.forEach((state, path) => {
+    if (state.exists && state.data) {
+      ensureParentDir(path)
+      writeFileSync(path, state.data)
+    } else if (!state.exists && existsSync(path)) {
+      unlinkSync(path)
+    }
   })
+  return { conflicts: [], merged: Array.from(merged), unavailable: Array.from(unavailable), revertedIds }
 }
 
 export function rollbackChangeSet(
@@ -384,63 +570,73 @@ export function rollbackChangeSet(
   conversationId: string,
   changeSetId: string,
   options: { filePath?: string; force?: boolean }
-): { changeSet: ChangeSet | null; conflicts: string[] } {
+): ChangeSetRollbackResult {
   const { filePath, force = false } = options
-  const changeSets = listChangeSets(spaceId, conversationId)
-  const changeSet = changeSets.find(cs => cs.id === changeSetId)
-  if (!changeSet) return { changeSet: null, conflicts: [] }
-
-  const targets = changeSet.files.filter(file => !filePath || file.path === filePath)
-
-  const conflicts: string[] = []
-  for (const file of targets) {
-    if (file.status === 'rolled_back') continue
-    const existsNow = existsSync(file.path)
-    if (file.afterExists) {
-      const currentContent = existsNow ? readTextFile(file.path) ?? '' : ''
-      const currentHash = existsNow ? hashContent(currentContent) : undefined
-      if (!force && currentHash !== file.afterHash) {
-        conflicts.push(file.path)
-      }
-    } else if (!force && existsNow) {
-      conflicts.push(file.path)
-    }
-  }
-
-  if (conflicts.length > 0 && !force) {
-    return { changeSet, conflicts }
+  const history = loadChangeHistory(spaceId)
+  const index = history.findIndex(cs => cs.id === changeSetId && cs.conversationId === conversationId)
+  if (index < 0) return { changeSet: null, conflicts: [], merged: [], unavailable: [] }
+
+  const changeSet = history[index]
+  const targets = changeSet.files.filter(file => (
+    file.status !== 'rolled_back' && (!filePath || file.path === filePath)
+  ))
+
+  const { conflicts, merged, unavailable, revertedIds } = rollbackFiles(spaceId, targets, force)
+  if (conflicts.length > 0) {
+    return { changeSet, conflicts, merged, unavailable }
   }
 
-  const updatedFiles = changeSet.files.map(file => {
-    if (file.status === 'rolled_back') return file
-    if (filePath && file.path !== filePath) return file
+  history[index] = markRolledBack(changeSet, revertedIds)
+  saveChangeHistory(spaceId, history)
 
-    if (file.type === 'create') {
-      if (existsSync(file.path)) {
-        unlinkSync(file.path)
-      }
-    } else if (file.type === 'delete') {
-      if (file.beforeContent !== undefined) {
-        ensureParentDir(file.path)
-        writeFileSync(file.path, file.beforeContent, 'utf-8')
-      }
-    } else {
-      ensureParentDir(file.path)
-      writeFileSync(file.path, file.beforeContent || '', 'utf-8')
-    }
+  return { changeSet: history[index], conflicts: [], merged, unavailable }
+}
 
-    return { ...file, status: 'rolled_back' }
-  })
+/**
+ * Roll the space back to its state before the AI response `messageId`: that
+ * response's changes and every later change set in the space (from any
+ * conversation) are reverted together, newest first.
+ */
+export function rollbackToMessage(
+  spaceId: string,
+  conversationId: string,
+  messageId: string,
+  options: { force?: boolean } = {}
+): MessageRollbackResult {
+  const history = loadChangeHistory(spaceId)
+  const anchor = history.findIndex(cs => cs.conversationId === conversationId && cs.messageId === messageId)
+  if (anchor < 0) {
+    throw new Error(`No changes recorded for message: ${messageId}`)
+  }
 
-  const updatedSet: ChangeSet = {
-    ...changeSet,
-    files: updatedFiles
+  const affected = history
+    .map((changeSet, index) => ({ changeSet, index }))
+    .slice(anchor)
+    .filter(({ changeSet }) => changeSet.status !== 'rolled_back')
+  const targets = affected
+    .slice()
+    .reverse()
+    .flatMap(({ changeSet }) => changeSet.files.filter(file => file.status !== 'rolled_back'))
+
+  const { conflicts, merged, unavailable, revertedIds } = rollbackFiles(spaceId, targets, options.force === true)
+  if (conflicts.length > 0) {
+    return {
+      changeSets: affected.map(({ changeSet }) => changeSet),
+      conflicts,
+      merged,
+      unavailable
+    }
   }
-  updatedSet.status = computeChangeSetStatus(updatedSet)
 
-  const index = changeSets.findIndex(cs => cs.id === changeSetId)
-  changeSets[index] = updatedSet
-  saveChangeSets(spaceId, conversationId, changeSets)
+  for (const { index } of affected) {
+    history[index] = markRolledBack(history[index], revertedIds)
+  }
+  saveChangeHistory(spaceId, history)
 
-  return { changeSet: updatedSet, conflicts: [] }
+  return {
+    changeSets: affected.map(({ index }) => history[index]),
+    conflicts: [],
+    merged,
+    unavailable
+  }
 }
@@ -0,0 +1,118 @@
+/**
+ * Command Rules Service - Remembered Bash approval answers
+ *
+ * Global rules are stored in config.json (`permissions.commandRules`), space
+ * rules in {workDir}/.kite/space-config.json (`permissions.commandRules`).
+ * Deny rules win over allow rules, and space rules are checked before global ones.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { getConfig, saveConfig } from './config.service'
+import { getSpaceConfig, updateSpaceConfig } from './space-config.service'
+import {
+  isCommandPrefix,
+  matchesCommandRule,
+  normalizeCommandRules,
+  suggestCommandPrefix,
+  type CommandRule,
+  type CommandRuleAction,
+  type CommandRuleRequest,
+  type CommandRuleScope,
+  type ScopedCommandRule
+} from '../../shared/types/command-rules'
+
+function getGlobalRules(): CommandRule[] {
+  return normalizeCommandRules(getConfig().permissions?.commandRules)
+}
+
+function getSpaceRules(workDir?: string): CommandRule[] {
+  if (!workDir) return []
+  return normalizeCommandRules(getSpaceConfig(workDir)?.permissions?.commandRules)
+}
+
+function saveRules(scope: CommandRuleScope, rules: CommandRule[], workDir?: string): boolean {
+  if (scope === 'global') {
+    const { permissions } = getConfig()
+    saveConfig({ permissions: { ...permissions, commandRules: rules } })
+    return true
+  }
+
+  if (!workDir) return false
+  const updated = updateSpaceConfig(workDir, (config) => ({
+    ...config,
+    permissions: { ...config.permissions, commandRules: rules }
+  }))
+  return updated !== null
+}
+
+/**
+ * All rules that apply in a space (space rules first)
+ */
+export function listCommandRules(workDir?: string): ScopedCommandRule[] {
+  return [
+    ...getSpaceRules(workDir).map(rule => ({ ...rule, scope: 'space' as const })),
+    ...getGlobalRules().map(rule => ({ ...rule, scope: 'global' as const }))
+  ]
+}
+
+/**
+ * Rule that decides a command without asking, if any
+ */
+export function findMatchingCommandRule(command: string, workDir?: string): ScopedCommandRule | null {
+  const rules = listCommandRules(workDir)
+  return (
+    rules.find(rule => rule.action === 'deny' && matchesCommandRule(rule, command)) ||
+    rules.find(rule => rule.action === 'allow' && matchesCommandRule(rule, command)) ||
+    null
+  )
+}
+
+/**
+ * Remember the user's answer to a command approval
+ */
+export function addCommandRule(
+  command: string,
+  action: CommandRuleAction,
+  request: CommandRuleRequest,
+  workDir?: string
+): ScopedCommandRule | null {
+  const pattern = (request.match === 'prefix'
+    ? request.pattern?.trim() || suggestCommandPrefix(command)
+    : command
+  ).trim()
+  if (!pattern) return null
+  // A prefix may only widen the approved command, never name a different one
+  if (request.match === 'prefix' && !isCommandPrefix(pattern, command)) {
+    console.warn(`[CommandRules] Ignored prefix "${pattern}": not a prefix of the approved command`)
+    return null
+  }
+
+  const scope = request.scope === 'space' && workDir ? 'space' : 'global'
+  const existing = scope === 'space' ? getSpaceRules(workDir) : getGlobalRules()
+  const rule: CommandRule = {
+    id: uuidv4(),
+    match: request.match,
+    pattern,
+    action,
+    createdAt: new Date().toISOString()
+  }
+  // A new answer for the same pattern replaces the old one
+  const rules = [
+    ...existing.filter(item => !(item.match === rule.match && item.pattern === rule.pattern)),
+    rule
+  ]
+  if (!saveRules(scope, rules, workDir)) return null
+
+  console.log(`[CommandRules] Saved ${scope} ${action} rule (${rule.match}): ${rule.pattern}`)
+  return { ...rule, scope }
+}
+
+/**
+ * Revoke a rule; returns false when it does not exist
+ */
+export function removeCommandRule(scope: CommandRuleScope, ruleId: string, workDir?: string): boolean {
+  const existing = scope === 'space' ? getSpaceRules(workDir) : getGlobalRules()
+  const rules = existing.filter(rule => rule.id !== ruleId)
+  if (rules.length === existing.length) return false
+  return saveRules(scope, rules, workDir)
+}
@@ -18,7 +18,7 @@ import { resolveResourceRuntimePolicy } from './resource-runtime-policy.service'
 import { isPathWithinBasePaths, isValidDirectoryPath, isFileNotFoundError, isWorkDirAllowed } from '../utils/path-validation'
 import { listEnabledPlugins } from './plugins.service'
 import { FileCache } from '../utils/file-cache'
-import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult } from './resource-ref.service'
+import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult, ResourceFileByRef } from './resource-ref.service'
 import { commandKey } from '../../shared/command-utils'
 import {
   parseResourceMetadata,
@@ -511,6 +511,20 @@ export function copyCommandToSpaceByRef(
   }
 }
 
+/**
+ * Resolve a command by ref and read its raw file (used to bundle workflows for export)
+ */
+export function readCommandByRef(ref: ResourceRef, workDir: string): ResourceFileByRef<CommandDefinition> | null {
+  const sourceCommand = findCommandByRef(listCommandsForRefLookup(workDir), ref)
+  if (!sourceCommand) return null
+  try {
+    return { definition: sourceCommand, content: readFileSync(sourceCommand.path, 'utf-8') }
+  } catch (error) {
+    console.warn(`[Commands] Failed to read command ${ref.name}:`, error)
+    return null
+  }
+}
+
 export function clearCommandsCache(): void {
   globalCommandsCacheByLocale.clear()
   spaceCommandsCacheByLocale.clear()
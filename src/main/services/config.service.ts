@@ -19,10 +19,18 @@ import {
   type LegacyApiConfig,
   type ProviderProtocol
 } from '../../shared/types/ai-profile'
-import type {
-  ObservabilityConfig,
-  LangfuseMaskMode
+import {
+  DEFAULT_OTLP_OBSERVABILITY_CONFIG,
+  type ObservabilityConfig,
+  type LangfuseMaskMode,
+  type OtlpObservabilityConfig
 } from '../../shared/types/observability'
+import type { CommandRule } from '../../shared/types/command-rules'
+import type { RemoteTokenScope } from '../../shared/types/remote-access'
+import {
+  DEFAULT_SEMANTIC_SEARCH_CONFIG,
+  type SemanticSearchConfig
+} from '../../shared/types/semantic-search'
 
 // ============================================================================
 // Config Change Notification (Callback Pattern)
@@ -66,6 +74,24 @@ function normalizeSampleRate(value: unknown): number {
   return value
 }
 
+function normalizeOtlpConfig(value: unknown, fallback: OtlpObservabilityConfig): OtlpObservabilityConfig {
+  const raw = isPlainObject(value) ? value as Record<string, unknown> : {}
+  const headers: Record<string, string> = {}
+  const rawHeaders = raw.headers !== undefined ? raw.headers : fallback.headers
+  if (isPlainObject(rawHeaders)) {
+    for (const [name, headerValue] of Object.entries(rawHeaders as Record<string, unknown>)) {
+      if (name.trim() && typeof headerValue === 'string') headers[name.trim()] = headerValue
+    }
+  }
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : fallback.enabled === true,
+    endpoint: typeof raw.endpoint === 'string' && raw.endpoint.trim() ? raw.endpoint.trim() : fallback.endpoint,
+    protocol: raw.protocol === 'http/json' || raw.protocol === 'http/protobuf' ? raw.protocol : fallback.protocol,
+    headers,
+    serviceName: typeof raw.serviceName === 'string' && raw.serviceName.trim() ? raw.serviceName.trim() : fallback.serviceName
+  }
+}
+
 function normalizeAppearanceTheme(value: unknown): AppearanceThemeMode {
   if (value === 'light' || value === 'dark') {
     return value
@@ -135,6 +161,10 @@ interface KiteConfig {
     commandExecution: 'allow' | 'ask' | 'deny'
     networkAccess: 'allow' | 'ask' | 'deny'
     trustMode: boolean
+    /** Remembered Bash approval answers that apply in every space */
+    commandRules?: CommandRule[]
+    /** Auto-deny approvals left unanswered this long (0 = wait forever) */
+    approvalTimeoutSeconds?: number
   }
   appearance: {
     theme: AppearanceThemeMode
@@ -153,7 +183,8 @@ interface KiteConfig {
     enabled: boolean
     port: number
     trustedOrigins?: string[]  // Allowed CORS origins (in addition to localhost)
-    fixedToken?: string  // Optional fixed 6-digit token for remote API auth
+    fixedToken?: string  // Optional fixed token (32+ characters) for scripted remote API auth
+    fixedTokenScope?: RemoteTokenScope  // Scope of the fixed token (default read)
   }
   onboarding: {
     completed: boolean
@@ -183,7 +214,15 @@ interface KiteConfig {
   commands?: {
     legacyDependencyRegexEnabled: boolean
   }
+  // Files larger than this are hashed but not snapshotted for AI change rollback
+  changeTracking?: {
+    maxSnapshotBytes: number
+    // Change history older or larger than this is pruned automatically (0 keeps it)
+    maxHistoryAgeDays: number
+    maxHistoryBytes: number
+  }
   observability?: ObservabilityConfig
+  semanticSearch?: SemanticSearchConfig
 }
 
 // MCP server configuration types
@@ -221,6 +260,9 @@ export type {
   HooksConfig,
   HookDefinition,
   HookCommand,
+  ShellHookCommand,
+  HttpHookCommand,
+  BuiltinHookCommand,
   PluginsConfig,
   AgentsConfig,
   ClaudeCodeConfig
@@ -294,6 +336,10 @@ const DEFAULT_API_CONFIG: LegacyApiConfig = {
   model: DEFAULT_MODEL
 }
 
+const DEFAULT_MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024
+const DEFAULT_MAX_HISTORY_AGE_DAYS = 30
+const DEFAULT_MAX_HISTORY_BYTES = 512 * 1024 * 1024
+
 // Default configuration
 const DEFAULT_CONFIG: KiteConfig = {
   api: DEFAULT_API_CONFIG,
@@ -302,7 +348,8 @@ const DEFAULT_CONFIG: KiteConfig = {
     fileAccess: 'allow',
     commandExecution: 'ask',
     networkAccess: 'allow',
-    trustMode: false
+    trustMode: false,
+    approvalTimeoutSeconds: 600
   },
   appearance: {
     theme: 'light'
@@ -337,6 +384,11 @@ const DEFAULT_CONFIG: KiteConfig = {
   commands: {
     legacyDependencyRegexEnabled: true
   },
+  changeTracking: {
+    maxSnapshotBytes: DEFAULT_MAX_SNAPSHOT_BYTES,
+    maxHistoryAgeDays: DEFAULT_MAX_HISTORY_AGE_DAYS,
+    maxHistoryBytes: DEFAULT_MAX_HISTORY_BYTES
+  },
   observability: {
     langfuse: {
       enabled: false,
@@ -346,8 +398,10 @@ const DEFAULT_CONFIG: KiteConfig = {
       sampleRate: 1,
       maskMode: 'summary_hash',
       devApiEnabled: false
-    }
+    },
+    otlp: { ...DEFAULT_OTLP_OBSERVABILITY_CONFIG }
   },
+  semanticSearch: { ...DEFAULT_SEMANTIC_SEARCH_CONFIG },
   claudeCode: {
     resourceRuntimePolicy: 'app-single-source',
     skillMissingPolicy: 'skip'
@@ -812,6 +866,20 @@ export function getConfig(): KiteConfig {
             ? parsed.commands.legacyDependencyRegexEnabled
             : DEFAULT_CONFIG.commands?.legacyDependencyRegexEnabled !== false
       },
+      changeTracking: {
+        maxSnapshotBytes:
+          typeof parsed.changeTracking?.maxSnapshotBytes === 'number' && parsed.changeTracking.maxSnapshotBytes >= 0
+            ? parsed.changeTracking.maxSnapshotBytes
+            : DEFAULT_MAX_SNAPSHOT_BYTES,
+        maxHistoryAgeDays:
+          typeof parsed.changeTracking?.maxHistoryAgeDays === 'number' && parsed.changeTracking.maxHistoryAgeDays >= 0
+            ? parsed.changeTracking.maxHistoryAgeDays
+            : DEFAULT_MAX_HISTORY_AGE_DAYS,
+        maxHistoryBytes:
+          typeof parsed.changeTracking?.maxHistoryBytes === 'number' && parsed.changeTracking.maxHistoryBytes >= 0
+            ? parsed.changeTracking.maxHistoryBytes
+            : DEFAULT_MAX_HISTORY_BYTES
+      },
       observability: {
         langfuse: {
           enabled:
@@ -836,7 +904,19 @@ export function getConfig(): KiteConfig {
             typeof parsed.observability?.langfuse?.devApiEnabled === 'boolean'
               ? parsed.observability.langfuse.devApiEnabled
               : DEFAULT_CONFIG.observability?.langfuse.devApiEnabled === true
-        }
+        },
+        otlp: normalizeOtlpConfig(parsed.observability?.otlp, DEFAULT_OTLP_OBSERVABILITY_CONFIG)
+      },
+      semanticSearch: {
+        enabled: parsed.semanticSearch?.enabled === true,
+        provider: parsed.semanticSearch?.provider === 'profile' ? 'profile' : 'local',
+        ...(typeof parsed.semanticSearch?.profileId === 'string' && parsed.semanticSearch.profileId
+          ? { profileId: parsed.semanticSearch.profileId }
+          : {}),
+        model:
+          typeof parsed.semanticSearch?.model === 'string' && parsed.semanticSearch.model.trim()
+            ? parsed.semanticSearch.model.trim()
+            : DEFAULT_SEMANTIC_SEARCH_CONFIG.model
       }
     }
 
@@ -961,7 +1041,11 @@ export function saveConfig(config: Partial<KiteConfig>): KiteConfig {
           typeof rawLangfuse.devApiEnabled === 'boolean'
             ? rawLangfuse.devApiEnabled
             : currentConfig.observability?.langfuse.devApiEnabled === true
-      }
+      },
+      otlp: normalizeOtlpConfig(
+        rawObservability.otlp,
+        currentConfig.observability?.otlp || DEFAULT_OTLP_OBSERVABILITY_CONFIG
+      )
     }
   }
   // mcpServers: replace entirely when provided (not merged)
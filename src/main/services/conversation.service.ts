@@ -11,8 +11,9 @@ import { join } from 'path'
 import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, rmSync, renameSync } from 'fs'
 import { getConfig, getTempSpacePath } from './config.service'
 import { getSpace } from './space.service'
+import { indexConversation, removeConversationFromIndex } from './search-index.service'
 import { v4 as uuidv4 } from 'uuid'
-import type { ConversationAiConfig } from '../../shared/types/ai-profile'
+import type { AnsweredByInfo, ConversationAiConfig } from '../../shared/types/ai-profile'
 import { isChatMode, normalizeChatMode, type ChatMode } from './agent/types'
 
 // Thought types for agent reasoning
@@ -74,6 +75,7 @@ interface TokenUsage {
   cacheCreationTokens: number
   totalCostUsd: number
   contextWindow: number
+  answeredBy?: AnsweredByInfo
 }
 
 interface Message {
@@ -538,6 +540,7 @@ export function addMessage(spaceId: string, conversationId: string, message: Omi
 
   // Update index with new messageCount and preview
   updateIndexEntry(conversationsDir, spaceId, conversationId, toMeta(conversation))
+  indexConversation(spaceId, conversationsDir, conversation, [newMessage.id])
 
   return newMessage
 }
@@ -580,6 +583,7 @@ export function insertUserMessageBeforeTrailingAssistant(
   writeConversationFile(conversationsDir, conversationId, conversation)
 
   updateIndexEntry(conversationsDir, spaceId, conversationId, toMeta(conversation))
+  indexConversation(spaceId, conversationsDir, conversation, [newMessage.id])
 
   return newMessage
 }
@@ -608,6 +612,7 @@ export function updateLastMessage(
 
     // Update index (preview may have changed)
     updateIndexEntry(conversationsDir, spaceId, conversationId, toMeta(conversation))
+    indexConversation(spaceId, conversationsDir, conversation, [lastMessage.id])
   }
 
   return lastMessage
@@ -623,6 +628,7 @@ export function deleteConversation(spaceId: string, conversationId: string): boo
 
     // Update index (remove entry)
     updateIndexEntry(conversationsDir, spaceId, conversationId, null)
+    removeConversationFromIndex(spaceId, conversationId)
 
     return true
   }
@@ -0,0 +1,132 @@
+/**
+ * Embedding Service - Pluggable text embedding providers for semantic search
+ *
+ * - local: hashed word + character-trigram features folded into a fixed-size
+ *   vector. Runs in-process with no model download, so it works offline, but
+ *   it only finds text that shares vocabulary with the query.
+ * - profile: an OpenAI-compatible `/embeddings` endpoint, using the URL and
+ *   key of an existing ApiProfile.
+ */
+
+import type { ApiProfile } from '../../shared/types/ai-profile'
+import type { SemanticSearchConfig } from '../../shared/types/semantic-search'
+import { tokenizeSearchText } from '../../shared/utils/search-query'
+
+const LOCAL_DIMENSIONS = 512
+const LOCAL_TRIGRAM_WEIGHT = 0.5
+const EMBEDDING_REQUEST_TIMEOUT_MS = 30_000
+
+export interface EmbeddingProvider {
+  /** Changes whenever vectors are no longer comparable with earlier ones */
+  id: string
+  embed(texts: string[]): Promise<Float32Array[]>
+}
+
+function hashFeature(feature: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i]
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm
+  }
+  return vector
+}
+
+/**
+ * Local embedding: each word and each trigram of a word adds ±weight to a
+ * hashed dimension (the sign bit comes from the hash too, so collisions
+ * cancel out rather than pile up).
+ */
+export function embedLocally(text: string): Float32Array {
+  const vector = new Float32Array(LOCAL_DIMENSIONS)
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature)
+    vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight
+  }
+  for (const token of tokenizeSearchText(text)) {
+    add(`w:${token}`, 1)
+    const padded = `^${token}$`
+    if (padded.length <= 4) continue
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, LOCAL_TRIGRAM_WEIGHT)
+    }
+  }
+  return normalizeVector(vector)
+}
+
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: `local-hash-v1-${LOCAL_DIMENSIONS}`,
+    embed: async (texts) => texts.map(text => embedLocally(text))
+  }
+}
+
+/**
+ * `/embeddings` URL next to a profile's chat endpoint
+ * (https://host/v1/chat/completions -> https://host/v1/embeddings)
+ */
+export function resolveEmbeddingsUrl(apiUrl: string): string {
+  const trimmed = apiUrl.trim().replace(/\/+$/, '')
+  const base = trimmed.replace(/\/(chat\/completions|responses|embeddings)$/, '')
+  return `${base}/embeddings`
+}
+
+export function createProfileEmbeddingProvider(
+  profile: ApiProfile,
+  model: string,
+  fetchImpl: typeof fetch = fetch
+): EmbeddingProvider {
+  const url = resolveEmbeddingsUrl(profile.apiUrl)
+  return {
+    id: `profile:${profile.id}:${model}`,
+    embed: async (texts) => {
+      if (texts.length === 0) return []
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${profile.apiKey}`
+        },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(EMBEDDING_REQUEST_TIMEOUT_MS)
+      })
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        throw new Error(`Embedding request failed (${response.status}): ${detail.slice(0, 200)}`)
+      }
+      const payload = await response.json() as { data?: Array<{ index?: number; embedding?: number[] }> }
+      const data = Array.isArray(payload.data) ? payload.data : []
+      if (data.length !== texts.length) {
+        throw new Error(`Embedding endpoint returned ${data.length} vectors for ${texts.length} inputs`)
+      }
+      return data
+        .slice()
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => normalizeVector(Float32Array.from(item.embedding || [])))
+    }
+  }
+}
+
+export function resolveEmbeddingProvider(config: SemanticSearchConfig, profiles: ApiProfile[]): EmbeddingProvider {
+  if (config.provider !== 'profile') {
+    return createLocalEmbeddingProvider()
+  }
+  const profile = profiles.find(item => item.id === config.profileId)
+  if (!profile) {
+    throw new Error('The API profile selected for semantic search no longer exists')
+  }
+  if (profile.protocol !== 'openai_compat') {
+    throw new Error(`"${profile.name}" is not an OpenAI-compatible profile, so it has no /embeddings endpoint`)
+  }
+  return createProfileEmbeddingProvider(profile, config.model || 'text-embedding-3-small')
+}
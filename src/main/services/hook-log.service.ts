@@ -0,0 +1,108 @@
+/**
+ * Hook Log Service - Per-space ring buffer of hook invocations
+ *
+ * Shell hooks are recorded from the SDK's hook_started / hook_response system
+ * messages; http and builtin hooks are recorded by the in-process runtime.
+ * The log lives in memory only and keeps the most recent entries per space.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import type { HookInvocation } from '../../shared/types/hook-log'
+
+const MAX_ENTRIES_PER_SPACE = 200
+// Hook stdout/stderr can be large; keep enough to debug without holding whole logs
+const MAX_TEXT_LENGTH = 4000
+// Started shell hooks that never report back are dropped after this long
+const PENDING_HOOK_TTL_MS = 30 * 60 * 1000
+
+const logsBySpace = new Map<string, HookInvocation[]>()
+
+// SDK hook_id -> start time, for shell hooks reported by system messages
+const pendingSdkHooks = new Map<string, number>()
+
+function truncate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  return value.length > MAX_TEXT_LENGTH ? `${value.slice(0, MAX_TEXT_LENGTH)}\n… (truncated)` : value
+}
+
+/**
+ * Append an invocation to the space's log, evicting the oldest entry when full
+ */
+export function recordHookInvocation(entry: Omit<HookInvocation, 'id'>): HookInvocation {
+  const invocation: HookInvocation = {
+    ...entry,
+    id: uuidv4(),
+    stdout: truncate(entry.stdout),
+    stderr: truncate(entry.stderr),
+    output: truncate(entry.output),
+    error: truncate(entry.error)
+  }
+  const log = logsBySpace.get(entry.spaceId) || []
+  log.push(invocation)
+  if (log.length > MAX_ENTRIES_PER_SPACE) {
+    log.splice(0, log.length - MAX_ENTRIES_PER_SPACE)
+  }
+  logsBySpace.set(entry.spaceId, log)
+  return invocation
+}
+
+/**
+ * Newest first
+ */
+export function listHookInvocations(spaceId: string): HookInvocation[] {
+  return (logsBySpace.get(spaceId) || []).slice().reverse()
+}
+
+export function clearHookLog(spaceId: string): void {
+  logsBySpace.delete(spaceId)
+}
+
+// ============================================
+// SDK system messages (shell hooks)
+// ============================================
+
+export function recordSdkHookStarted(hookId: string): void {
+  const now = Date.now()
+  for (const [id, startedAt] of Array.from(pendingSdkHooks.entries())) {
+    if (now - startedAt > PENDING_HOOK_TTL_MS) {
+      pendingSdkHooks.delete(id)
+    }
+  }
+  pendingSdkHooks.set(hookId, now)
+}
+
+/**
+ * Record a hook_response system message
+ */
+export function recordSdkHookResponse(
+  spaceId: string,
+  conversationId: string,
+  message: Record<string, unknown>
+): HookInvocation {
+  const hookId = typeof message.hook_id === 'string' ? message.hook_id : ''
+  const now = Date.now()
+  const startedAt = pendingSdkHooks.get(hookId) ?? now
+  pendingSdkHooks.delete(hookId)
+  const outcome = message.outcome === 'error' || message.outcome === 'cancelled' ? message.outcome : 'success'
+
+  return recordHookInvocation({
+    spaceId,
+    conversationId,
+    eventType: typeof message.hook_event === 'string' ? message.hook_event : 'unknown',
+    hookType: 'command',
+    hookName: typeof message.hook_name === 'string' ? message.hook_name : hookId,
+    outcome,
+    exitCode: typeof message.exit_code === 'number' ? message.exit_code : undefined,
+    stdout: typeof message.stdout === 'string' ? message.stdout : undefined,
+    stderr: typeof message.stderr === 'string' ? message.stderr : undefined,
+    output: typeof message.output === 'string' ? message.output : undefined,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: now - startedAt
+  })
+}
+
+// Test-only helpers
+export function _testResetHookLog(): void {
+  logsBySpace.clear()
+  pendingSdkHooks.clear()
+}
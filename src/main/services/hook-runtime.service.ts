@@ -0,0 +1,329 @@
+/**
+ * Hook Runtime Service - Runs http and builtin hooks in-process
+ *
+ * Shell `command` hooks are handed to the SDK unchanged. `http` hooks POST the
+ * hook event JSON to a URL and `builtin` hooks are evaluated directly, so
+ * neither needs to fork a shell (which is slow, and awkward on Windows where the
+ * mock bash may be in use).
+ */
+
+import { isAbsolute, relative } from 'path'
+import type { HookCallback, HookInput, HookJSONOutput } from '@anthropic-ai/claude-agent-sdk'
+import type {
+  BuiltinHookCommand,
+  HookCommand,
+  HookDefinition,
+  HooksConfig,
+  HttpHookCommand
+} from '../../shared/types/claude-code'
+import { describeHookCommand } from '../../shared/types/hook-log'
+import { matchesGlob } from '../../shared/utils/glob'
+import { recordHookInvocation } from './hook-log.service'
+
+const DEFAULT_HTTP_HOOK_TIMEOUT_MS = 10_000
+const HOOK_APPROVAL_TTL_MS = 10 * 60 * 1000
+
+// Tool input fields that carry the path a tool reads or writes
+const TOOL_PATH_FIELDS = ['file_path', 'path', 'notebook_path'] as const
+
+type SdkHookEntry = HookCommand | HookCallback
+
+/** Where in-process hook invocations are logged */
+export interface HookLogContext {
+  spaceId: string
+  conversationId?: string
+}
+
+export interface SdkHookDefinition {
+  matcher?: string | string[]
+  hooks: SdkHookEntry[]
+}
+
+// ============================================
+// Approval requests from require-approval hooks
+// ============================================
+
+// toolUseID -> reason; consumed by canUseTool to force an approval prompt
+const hookApprovalRequests = new Map<string, { reason: string; createdAt: number }>()
+
+function requestHookApproval(toolUseId: string, reason: string): void {
+  const now = Date.now()
+  for (const [id, request] of Array.from(hookApprovalRequests.entries())) {
+    if (now - request.createdAt > HOOK_APPROVAL_TTL_MS) {
+      hookApprovalRequests.delete(id)
+    }
+  }
+  hookApprovalRequests.set(toolUseId, { reason, createdAt: now })
+}
+
+/**
+ * Reason a builtin hook asked for approval of this tool call, if any (one-shot)
+ */
+export function takeHookApprovalRequest(toolUseId: string | undefined): string | null {
+  if (!toolUseId) return null
+  const request = hookApprovalRequests.get(toolUseId)
+  if (!request) return null
+  hookApprovalRequests.delete(toolUseId)
+  return request.reason
+}
+
+// ============================================
+// Matching helpers
+// ============================================
+
+function getToolName(input: HookInput): string | undefined {
+  return 'tool_name' in input && typeof input.tool_name === 'string' ? input.tool_name : undefined
+}
+
+function getToolInput(input: HookInput): Record<string, unknown> {
+  if (!('tool_input' in input)) return {}
+  const toolInput = input.tool_input
+  return toolInput && typeof toolInput === 'object' ? toolInput as Record<string, unknown> : {}
+}
+
+function matchesToolName(pattern: string, toolName: string): boolean {
+  const trimmed = pattern.trim()
+  if (!trimmed || trimmed === '*') return true
+  try {
+    return new RegExp(`^(?:${trimmed})$`).test(toolName)
+  } catch {
+    return trimmed === toolName
+  }
+}
+
+function matchesDefinition(matcher: string | string[] | undefined, input: HookInput): boolean {
+  const toolName = getToolName(input)
+  if (!matcher || !toolName) return true
+  const patterns = Array.isArray(matcher) ? matcher : [matcher]
+  return patterns.length === 0 || patterns.some(pattern => matchesToolName(pattern, toolName))
+}
+
+function findBlockedPath(globs: string[], input: HookInput): string | null {
+  const toolInput = getToolInput(input)
+  for (const field of TOOL_PATH_FIELDS) {
+    const value = toolInput[field]
+    if (typeof value !== 'string' || !value.trim()) continue
+    const relativePath = isAbsolute(value) ? relative(input.cwd, value) : value
+    const insideCwd = !relativePath.startsWith('..') && !isAbsolute(relativePath)
+    const blocked = globs.some(glob => {
+      // Absolute globs match the absolute path; relative ones match paths inside the space
+      if (isAbsolute(glob)) return isAbsolute(value) && matchesGlob(glob, value)
+      return insideCwd && matchesGlob(glob, relativePath)
+    })
+    if (blocked) return value
+  }
+  return null
+}
+
+// ============================================
+// Builtin hooks
+// ============================================
+
+export function runBuiltinHook(
+  hook: BuiltinHookCommand,
+  input: HookInput,
+  toolUseId?: string
+): HookJSONOutput {
+  if (hook.action === 'append-prompt') {
+    if (input.hook_event_name !== 'UserPromptSubmit' || !hook.text?.trim()) return {}
+    return {
+      hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext: hook.text }
+    }
+  }
+
+  if (input.hook_event_name !== 'PreToolUse') return {}
+
+  if (hook.action === 'block-paths') {
+    const blockedPath = findBlockedPath(hook.paths || [], input)
+    if (!blockedPath) return {}
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: hook.message || `Access to ${blockedPath} is blocked by a hook`
+      }
+    }
+  }
+
+  const toolName = getToolName(input)
+  if (!toolName || !(hook.tools || []).some(pattern => matchesToolName(pattern, toolName))) return {}
+  const reason = hook.message || `${toolName} requires approval`
+  if (toolUseId) {
+    requestHookApproval(toolUseId, reason)
+  }
+  return {
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      permissionDecision: 'ask',
+      permissionDecisionReason: reason
+    }
+  }
+}
+
+// ============================================
+// HTTP hooks
+// ============================================
+
+/**
+ * Map an http hook response body to hook output.
+ * Accepts Claude Code hook output, or the short `{ decision, reason }` form.
+ */
+export function toHttpHookOutput(input: HookInput, body: unknown): HookJSONOutput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return {}
+  const { decision, reason, ...rest } = body as Record<string, unknown>
+  const message = typeof reason === 'string' ? reason : undefined
+
+  if (decision === 'allow' || decision === 'deny' || decision === 'ask') {
+    if (input.hook_event_name === 'PreToolUse') {
+      return {
+        ...rest,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: decision,
+          ...(message ? { permissionDecisionReason: message } : {})
+        }
+      }
+    }
+    if (input.hook_event_name === 'PermissionRequest' && decision !== 'ask') {
+      return {
+        ...rest,
+        hookSpecificOutput: {
+          hookEventName: 'PermissionRequest',
+          decision: decision === 'allow'
+            ? { behavior: 'allow' }
+            : { behavior: 'deny', ...(message ? { message } : {}) }
+        }
+      }
+    }
+    return rest as HookJSONOutput
+  }
+
+  return body as HookJSONOutput
+}
+
+/**
+ * POST the hook event to the hook URL. Throws on network errors, timeouts and
+ * non-2xx responses.
+ */
+export async function requestHttpHook(
+  hook: HttpHookCommand,
+  input: HookInput,
+  signal?: AbortSignal
+): Promise<HookJSONOutput> {
+  const controller = new AbortController()
+  const timeoutMs = hook.timeout && hook.timeout > 0 ? hook.timeout : DEFAULT_HTTP_HOOK_TIMEOUT_MS
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await fetch(hook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...hook.headers },
+      body: JSON.stringify(input),
+      signal: controller.signal
+    })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const text = await response.text()
+    if (!text.trim()) return {}
+    return toHttpHookOutput(input, JSON.parse(text))
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new Error(`timed out after ${timeoutMs}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Like requestHttpHook, but failures never block the tool call
+ */
+export async function runHttpHook(
+  hook: HttpHookCommand,
+  input: HookInput,
+  signal?: AbortSignal
+): Promise<HookJSONOutput> {
+  try {
+    return await requestHttpHook(hook, input, signal)
+  } catch (error) {
+    console.warn(`[Hooks] HTTP hook ${hook.url} failed: ${(error as Error).message}`)
+    return {}
+  }
+}
+
+// ============================================
+// SDK conversion
+// ============================================
+
+function toCallback(
+  hook: HttpHookCommand | BuiltinHookCommand,
+  matcher: HookDefinition['matcher'],
+  context?: HookLogContext
+): HookCallback {
+  return async (input, toolUseId, options) => {
+    if (!matchesDefinition(matcher, input)) return {}
+    const started = Date.now()
+    let output: HookJSONOutput = {}
+    let error: string | undefined
+    if (hook.type === 'http') {
+      try {
+        output = await requestHttpHook(hook, input, options?.signal)
+      } catch (err) {
+        error = (err as Error).message
+        console.warn(`[Hooks] HTTP hook ${hook.url} failed: ${error}`)
+      }
+    } else {
+      output = runBuiltinHook(hook, input, toolUseId)
+    }
+
+    if (context) {
+      recordHookInvocation({
+        ...context,
+        eventType: input.hook_event_name,
+        hookType: hook.type,
+        hookName: describeHookCommand(hook),
+        outcome: options?.signal?.aborted ? 'cancelled' : error ? 'error' : 'success',
+        output: Object.keys(output).length > 0 ? JSON.stringify(output) : undefined,
+        error,
+        startedAt: new Date(started).toISOString(),
+        durationMs: Date.now() - started
+      })
+    }
+    return output
+  }
+}
+
+/**
+ * Turn merged hooks into SDK hook definitions: shell hooks pass through,
+ * http and builtin hooks become in-process callbacks (logged under `context`).
+ */
+export function buildSdkHooks(
+  hooks: HooksConfig | undefined,
+  context?: HookLogContext
+): Record<string, SdkHookDefinition[]> | undefined {
+  if (!hooks) return undefined
+
+  const sdkHooks: Record<string, SdkHookDefinition[]> = {}
+  for (const [eventType, definitions] of Object.entries(hooks) as [keyof HooksConfig, HookDefinition[] | undefined][]) {
+    if (!definitions || definitions.length === 0) continue
+    sdkHooks[eventType] = definitions.map(definition => {
+      if (definition.hooks.every(hook => hook.type === 'command')) {
+        return definition
+      }
+      return {
+        // The SDK expects a single pattern for callback matchers
+        matcher: Array.isArray(definition.matcher) ? definition.matcher.join('|') : definition.matcher,
+        hooks: definition.hooks.map(hook =>
+          hook.type === 'command' ? hook : toCallback(hook, definition.matcher, context)
+        )
+      }
+    })
+  }
+
+  return Object.keys(sdkHooks).length > 0 ? sdkHooks : undefined
+}
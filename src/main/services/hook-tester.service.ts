@@ -0,0 +1,171 @@
+/**
+ * Hook Tester Service - Dry-runs a hook definition against a sample event
+ *
+ * Lets users check what a hook does without starting an agent turn: a sample
+ * payload for the chosen event type is fed to the hook and the result is
+ * returned (and recorded in the space's hook log as a dry run).
+ */
+
+import { spawn } from 'child_process'
+import type { HookInput, HookJSONOutput } from '@anthropic-ai/claude-agent-sdk'
+import type { ShellHookCommand } from '../../shared/types/claude-code'
+import {
+  describeHookCommand,
+  type HookEventType,
+  type HookInvocation,
+  type HookTestRequest
+} from '../../shared/types/hook-log'
+import { recordHookInvocation } from './hook-log.service'
+import { requestHttpHook, runBuiltinHook } from './hook-runtime.service'
+
+const DEFAULT_SHELL_HOOK_TIMEOUT_MS = 60_000
+const SAMPLE_SESSION_ID = 'hook-test-session'
+const SAMPLE_TOOL_USE_ID = 'toolu_hook_test'
+
+interface ShellHookResult {
+  exitCode?: number
+  stdout: string
+  stderr: string
+  timedOut: boolean
+}
+
+/**
+ * Representative payload for an event type, as the agent would send it
+ */
+export function buildSampleHookInput(eventType: HookEventType, workDir: string): Record<string, unknown> {
+  const base = {
+    session_id: SAMPLE_SESSION_ID,
+    transcript_path: '',
+    cwd: workDir,
+    permission_mode: 'default',
+    hook_event_name: eventType
+  }
+  const toolCall = {
+    tool_name: 'Bash',
+    tool_input: { command: 'echo hello', description: 'Print a greeting' },
+    tool_use_id: SAMPLE_TOOL_USE_ID
+  }
+
+  switch (eventType) {
+    case 'PreToolUse':
+      return { ...base, ...toolCall }
+    case 'PostToolUse':
+      return { ...base, ...toolCall, tool_response: { stdout: 'hello\n', stderr: '', interrupted: false } }
+    case 'PostToolUseFailure':
+      return { ...base, ...toolCall, error: 'Command failed with exit code 1' }
+    case 'PermissionRequest':
+      return { ...base, tool_name: toolCall.tool_name, tool_input: toolCall.tool_input }
+    case 'Notification':
+      return { ...base, message: 'Claude needs your permission to use Bash', notification_type: 'permission_prompt' }
+    case 'UserPromptSubmit':
+      return { ...base, prompt: 'Summarize the README' }
+    case 'SessionStart':
+      return { ...base, source: 'startup' }
+    case 'SessionEnd':
+      return { ...base, reason: 'other' }
+    case 'Stop':
+      return { ...base, stop_hook_active: false }
+    case 'SubagentStart':
+      return { ...base, agent_id: 'agent-hook-test', agent_type: 'general-purpose' }
+    case 'SubagentStop':
+      return { ...base, stop_hook_active: false, agent_id: 'agent-hook-test', agent_transcript_path: '' }
+    case 'PreCompact':
+      return { ...base, trigger: 'manual', custom_instructions: null }
+    case 'Setup':
+      return { ...base, trigger: 'init' }
+    default:
+      return base
+  }
+}
+
+function getShellHookTimeout(hook: ShellHookCommand): number {
+  return hook.timeout && hook.timeout > 0 ? hook.timeout : DEFAULT_SHELL_HOOK_TIMEOUT_MS
+}
+
+function runShellHook(hook: ShellHookCommand, input: Record<string, unknown>, workDir: string): Promise<ShellHookResult> {
+  const timeoutMs = getShellHookTimeout(hook)
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(hook.command, {
+      cwd: workDir,
+      shell: true,
+      env: { ...process.env, CLAUDE_PROJECT_DIR: workDir },
+      windowsHide: true
+    })
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill()
+    }, timeoutMs)
+
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString() })
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString() })
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      resolve({ exitCode: code ?? undefined, stdout, stderr, timedOut })
+    })
+    // Hooks that ignore stdin may exit before it is written
+    child.stdin.on('error', () => {})
+    child.stdin.end(JSON.stringify(input))
+  })
+}
+
+function stringifyOutput(output: HookJSONOutput): string | undefined {
+  return Object.keys(output).length > 0 ? JSON.stringify(output) : undefined
+}
+
+/**
+ * Run a hook once against a sample (or user-edited) payload and log the result
+ */
+export async function testHook(spaceId: string, workDir: string, request: HookTestRequest): Promise<HookInvocation> {
+  const { eventType, hook } = request
+  const input = { ...buildSampleHookInput(eventType, workDir), ...request.input, hook_event_name: eventType }
+  const started = Date.now()
+  const entry = {
+    spaceId,
+    eventType,
+    hookType: hook.type,
+    hookName: describeHookCommand(hook),
+    startedAt: new Date(started).toISOString(),
+    dryRun: true
+  }
+
+  try {
+    if (hook.type === 'command') {
+      const result = await runShellHook(hook, input, workDir)
+      return recordHookInvocation({
+        ...entry,
+        outcome: result.timedOut ? 'cancelled' : result.exitCode === 0 ? 'success' : 'error',
+        exitCode: result.exitCode,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        error: result.timedOut ? `Timed out after ${getShellHookTimeout(hook)}ms` : undefined,
+        durationMs: Date.now() - started
+      })
+    }
+
+    // No tool use id: a dry run must not queue a real approval prompt
+    const output = hook.type === 'http'
+      ? await requestHttpHook(hook, input as HookInput)
+      : runBuiltinHook(hook, input as HookInput)
+    return recordHookInvocation({
+      ...entry,
+      outcome: 'success',
+      output: stringifyOutput(output),
+      durationMs: Date.now() - started
+    })
+  } catch (error) {
+    return recordHookInvocation({
+      ...entry,
+      outcome: 'error',
+      error: (error as Error).message,
+      durationMs: Date.now() - started
+    })
+  }
+}
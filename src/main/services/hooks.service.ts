@@ -6,12 +6,16 @@
  *   2. config.claudeCode.hooks (Kite global config)
  *   3. space-config.json claudeCode.hooks (Space-level config)
  *   4. plugin hooks
+ *
+ * Besides shell `command` hooks, definitions may contain `http` hooks and
+ * declarative `builtin` hooks; all types merge the same way.
  */
 
 import { join } from 'path'
 import { existsSync, readFileSync } from 'fs'
-import { getConfig, type HooksConfig } from './config.service'
+import { getConfig, type HooksConfig, type ShellHookCommand } from './config.service'
 import { getSpaceConfig } from './space-config.service'
+import { HOOK_EVENT_TYPES } from '../../shared/types/hook-log'
 import { FileCache } from '../utils/file-cache'
 import { listEnabledPlugins } from './plugins.service'
 import { getLockedConfigSourceMode, getLockedUserConfigRootDir } from './config-source-mode.service'
@@ -27,22 +31,6 @@ interface KiteSettings {
 // File cache for settings (mtime-based invalidation)
 const settingsCache = new FileCache<KiteSettings | null>()
 
-const HOOK_EVENT_TYPES: (keyof HooksConfig)[] = [
-  'PreToolUse',
-  'PostToolUse',
-  'PostToolUseFailure',
-  'Notification',
-  'UserPromptSubmit',
-  'SessionStart',
-  'SessionEnd',
-  'Stop',
-  'SubagentStart',
-  'SubagentStop',
-  'PreCompact',
-  'PermissionRequest',
-  'Setup'
-]
-
 function parseBooleanEnv(value: string | undefined): boolean {
   if (!value) return false
   const normalized = value.trim().toLowerCase()
@@ -266,6 +254,7 @@ export function buildHooksConfig(workDir: string): HooksConfig | undefined {
 
 /**
  * Convert Kite hooks config to SDK format
+ * (shell hooks only; http and builtin hooks run in-process, see hook-runtime.service)
  */
 export function convertToSdkHooksFormat(hooks: HooksConfig | undefined): Record<string, unknown> | undefined {
   if (!hooks) return undefined
@@ -277,11 +266,13 @@ export function convertToSdkHooksFormat(hooks: HooksConfig | undefined): Record<
     if (hookDefs && hookDefs.length > 0) {
       sdkHooks[eventType] = hookDefs.map(def => ({
         matcher: def.matcher,
-        hooks: def.hooks.map(hook => ({
-          type: hook.type,
-          command: hook.command,
-          ...(hook.timeout && { timeout: hook.timeout })
-        }))
+        hooks: def.hooks
+          .filter((hook): hook is ShellHookCommand => hook.type === 'command')
+          .map(hook => ({
+            type: hook.type,
+            command: hook.command,
+            ...(hook.timeout && { timeout: hook.timeout })
+          }))
       }))
     }
   }
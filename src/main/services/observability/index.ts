@@ -4,6 +4,8 @@ export {
   startAgentRunObservationPhase,
   endAgentRunObservationPhase,
   markAgentRunFirstToken,
+  recordAgentRunToolStart,
+  recordAgentRunToolEnd,
   finalizeAgentRunObservation,
   getAgentRunObservation,
   listAgentRunObservations,
@@ -14,11 +16,28 @@ export {
   _testOnly
 } from './langfuse.service'
 
+export {
+  recordRunTrace,
+  listRunTraces,
+  getRunTrace,
+  listRunModels,
+  clearRunTraces,
+  _testResetRunStore
+} from './run-store.service'
+
+export {
+  exportRunTraceToOtlp,
+  flushOtlpExporter,
+  resolveOtlpTracesUrl
+} from './otlp.service'
+
 export type {
   ObservabilityPhase,
   ObservabilityRunSummary,
   ObservabilityToolSummary,
   ObservabilityTokenUsage,
+  ObservabilityRunTrace,
+  ObservabilityRunQuery,
   AgentRunObservationHandle,
   AgentRunObservationStartInput,
   AgentRunObservationFinalizeInput
@@ -8,13 +8,18 @@ import {
 } from '@langfuse/tracing'
 import { getConfig } from '../config.service'
 import type { LangfuseMaskMode } from '../../../shared/types/observability'
+import { _testResetRunStore, recordRunTrace } from './run-store.service'
+import { exportRunTraceToOtlp, refreshOtlpRuntime, shutdownOtlpRuntime } from './otlp.service'
+import { shouldSample } from './sampling'
 import type {
   AgentRunObservationHandle,
   AgentRunObservationStartInput,
   AgentRunObservationFinalizeInput,
   ObservabilityPhase,
   ObservabilityRunSummary,
-  ObservabilityToolSummary
+  ObservabilityRunTrace,
+  ObservabilityToolSummary,
+  ObservabilityToolTrace
 } from './types'
 
 interface PhaseState {
@@ -23,12 +28,23 @@ interface PhaseState {
   ended: boolean
 }
 
+interface ToolState {
+  name: string
+  input: unknown
+  startedAtMs: number
+  endedAtMs?: number
+  output?: string
+  isError?: boolean
+}
+
 interface InternalRunContext {
   handle: AgentRunObservationHandle
   sampled: boolean
   rootSpan: LangfuseSpan | null
   startedAtMs: number
   phases: Map<ObservabilityPhase, PhaseState>
+  // Tool calls in start order, for the local run store
+  tools: Map<string, ToolState>
   summary: ObservabilityRunSummary
 }
 
@@ -119,15 +135,6 @@ function maskUnknown(value: unknown, mode: LangfuseMaskMode, depth = 0): unknown
   return `[masked ${typeof value}]`
 }
 
-function shouldSample(runId: string, sampleRate: number): boolean {
-  if (sampleRate >= 1) return true
-  if (sampleRate <= 0) return false
-  const hex = createHash('sha1').update(runId).digest('hex').slice(0, 8)
-  const n = Number.parseInt(hex, 16)
-  const max = 0xffffffff
-  return n / max < sampleRate
-}
-
 function getLangfuseConfig() {
   const langfuse = getConfig().observability?.langfuse
   return {
@@ -357,6 +364,7 @@ export function startAgentRunObservation(
     rootSpan,
     startedAtMs,
     phases: new Map(),
+    tools: new Map(),
     summary
   })
   upsertSummary(summary)
@@ -472,6 +480,87 @@ export function markAgentRunFirstToken(
   })
 }
 
+/**
+ * Record when a tool call started (kept locally for the run explorer only)
+ */
+export function recordAgentRunToolStart(
+  handle: AgentRunObservationHandle,
+  tool: { id: string; name: string; input: unknown },
+  atMs: number = Date.now()
+): void {
+  const context = getRunContext(handle)
+  if (!context || context.tools.has(tool.id)) return
+  context.tools.set(tool.id, { name: tool.name, input: tool.input, startedAtMs: atMs })
+}
+
+/**
+ * Record a tool call's result
+ */
+export function recordAgentRunToolEnd(
+  handle: AgentRunObservationHandle,
+  result: { id: string; output?: string; isError: boolean },
+  atMs: number = Date.now()
+): void {
+  const context = getRunContext(handle)
+  const state = context?.tools.get(result.id)
+  if (!state || state.endedAtMs !== undefined) return
+  state.endedAtMs = atMs
+  state.output = result.output
+  state.isError = result.isError
+}
+
+function stringifyToolInput(input: unknown): string {
+  try {
+    return JSON.stringify(input ?? {}, null, 2)
+  } catch {
+    return String(input)
+  }
+}
+
+function buildRunTrace(
+  context: InternalRunContext,
+  toolsById?: Map<string, { name?: string; status?: string; input?: unknown; output?: string; error?: string }>
+): ObservabilityRunTrace {
+  const phases = Array.from(context.phases.entries())
+    .filter(([phase, state]) => state.ended && context.summary.phaseDurationsMs[phase] !== undefined)
+    .map(([phase, state]) => ({
+      phase,
+      startOffsetMs: Math.max(0, state.startedAtMs - context.startedAtMs),
+      durationMs: context.summary.phaseDurationsMs[phase] as number
+    }))
+    .sort((a, b) => a.startOffsetMs - b.startOffsetMs)
+
+  const tools: ObservabilityToolTrace[] = []
+  for (const [id, state] of Array.from(context.tools.entries())) {
+    const final = toolsById?.get(id)
+    const status = (final?.status || (state.endedAtMs === undefined ? 'running' : state.isError ? 'error' : 'success')) as ObservabilityToolTrace['status']
+    tools.push({
+      id,
+      name: state.name,
+      status,
+      startOffsetMs: Math.max(0, state.startedAtMs - context.startedAtMs),
+      durationMs: state.endedAtMs === undefined ? undefined : Math.max(0, state.endedAtMs - state.startedAtMs),
+      input: stringifyToolInput(state.input),
+      output: state.isError ? undefined : state.output,
+      error: state.isError ? state.output : final?.error
+    })
+  }
+  // Tools the stream reported without a start we saw (e.g. restored from a resumed session)
+  for (const [id, tool] of Array.from(toolsById?.entries() || [])) {
+    if (context.tools.has(id)) continue
+    tools.push({
+      id,
+      name: tool.name || 'tool',
+      status: (tool.status || 'running') as ObservabilityToolTrace['status'],
+      input: stringifyToolInput(tool.input),
+      output: tool.output,
+      error: tool.error
+    })
+  }
+
+  return { ...context.summary, phaseDurationsMs: { ...context.summary.phaseDurationsMs }, phases, tools }
+}
+
 export function finalizeAgentRunObservation(
   handle: AgentRunObservationHandle,
   input: AgentRunObservationFinalizeInput
@@ -525,6 +614,14 @@ export function finalizeAgentRunObservation(
   })
   safeEndSpan(context.rootSpan, finalizedAtMs)
 
+  try {
+    const runTrace = buildRunTrace(context, input.toolsById)
+    recordRunTrace(runTrace)
+    exportRunTraceToOtlp(runTrace)
+  } catch (error) {
+    console.warn('[Observability] Failed to store run trace:', error)
+  }
+
   runContexts.delete(toRunKey(handle.sessionKey, handle.runId))
 }
 
@@ -568,10 +665,11 @@ export function getObservabilityConfigSnapshot(): {
 
 export async function refreshObservabilityRuntime(): Promise<void> {
   ensureRuntime()
+  refreshOtlpRuntime()
 }
 
 export async function shutdownObservability(): Promise<void> {
-  await destroyRuntime()
+  await Promise.all([destroyRuntime(), shutdownOtlpRuntime()])
 }
 
 export function _testOnly() {
@@ -589,6 +687,7 @@ export function _testOnly() {
       runtimeState.maskMode = 'summary_hash'
       runtimeState.provider = null
       setLangfuseTracerProvider(null)
+      _testResetRunStore()
     }
   }
 }
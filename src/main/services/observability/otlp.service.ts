@@ -0,0 +1,213 @@
+/**
+ * OTLP Exporter - Agent runs as OpenTelemetry traces
+ *
+ * Each finished run becomes one trace: an `invoke_agent` root span, a child
+ * span per ObservabilityPhase and an `execute_tool` span per tool call, all
+ * with the timings recorded for the local run store. Attributes follow the
+ * OpenTelemetry GenAI semantic conventions where one exists. Tool inputs and
+ * outputs are never exported, only names, timings and error state.
+ *
+ * Uses its own tracer provider, independent of the global one and of the
+ * Langfuse exporter.
+ */
+
+import { context, SpanKind, SpanStatusCode, trace, type Attributes, type Span } from '@opentelemetry/api'
+import { BasicTracerProvider, BatchSpanProcessor, type ReadableSpan } from '@opentelemetry/sdk-trace-base'
+import { OTLPExporterBase } from '@opentelemetry/otlp-exporter-base'
+import { convertLegacyHttpOptions, createOtlpHttpExportDelegate } from '@opentelemetry/otlp-exporter-base/node-http'
+import { JsonTraceSerializer, ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+import { getConfig } from '../config.service'
+import {
+  DEFAULT_OTLP_OBSERVABILITY_CONFIG,
+  type OtlpObservabilityConfig
+} from '../../../shared/types/observability'
+import { shouldSample } from './sampling'
+import type { ObservabilityRunTrace } from './types'
+
+const TRACER_NAME = 'kite.agent'
+const EXPORT_TIMEOUT_MS = 10_000
+
+interface OtlpRuntime {
+  signature: string
+  provider: BasicTracerProvider
+}
+
+let runtime: OtlpRuntime | null = null
+
+/**
+ * Traces URL for a collector endpoint (http://host:4318 -> http://host:4318/v1/traces)
+ */
+export function resolveOtlpTracesUrl(endpoint: string): string {
+  const trimmed = endpoint.trim().replace(/\/+$/, '')
+  return trimmed.endsWith('/v1/traces') ? trimmed : `${trimmed}/v1/traces`
+}
+
+function getOtlpConfig(): OtlpObservabilityConfig {
+  return getConfig().observability?.otlp || DEFAULT_OTLP_OBSERVABILITY_CONFIG
+}
+
+function createProvider(config: OtlpObservabilityConfig): BasicTracerProvider {
+  const isJson = config.protocol === 'http/json'
+  const exporter = new OTLPExporterBase<ReadableSpan[]>(
+    createOtlpHttpExportDelegate(
+      convertLegacyHttpOptions(
+        { url: resolveOtlpTracesUrl(config.endpoint), headers: config.headers, timeoutMillis: EXPORT_TIMEOUT_MS },
+        'TRACES',
+        'v1/traces',
+        { 'Content-Type': isJson ? 'application/json' : 'application/x-protobuf' }
+      ),
+      isJson ? JsonTraceSerializer : ProtobufTraceSerializer
+    )
+  )
+  return new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': config.serviceName }),
+    spanProcessors: [new BatchSpanProcessor(exporter)]
+  })
+}
+
+function shutdownProvider(provider: BasicTracerProvider): Promise<void> {
+  return provider.shutdown().catch((error) => {
+    console.warn('[Observability] OTLP provider shutdown failed:', error)
+  })
+}
+
+/**
+ * Build, rebuild or drop the exporter to match the current config
+ */
+function ensureOtlpRuntime(): OtlpRuntime | null {
+  const config = getOtlpConfig()
+  if (!config.enabled || !config.endpoint.trim()) {
+    if (runtime) {
+      void shutdownProvider(runtime.provider)
+      runtime = null
+    }
+    return null
+  }
+
+  const signature = JSON.stringify([config.endpoint, config.protocol, config.headers, config.serviceName])
+  if (runtime?.signature === signature) return runtime
+  if (runtime) void shutdownProvider(runtime.provider)
+
+  try {
+    runtime = { signature, provider: createProvider(config) }
+  } catch (error) {
+    runtime = null
+    console.error('[Observability] Failed to initialize OTLP exporter:', error)
+  }
+  return runtime
+}
+
+function runAttributes(run: ObservabilityRunTrace): Attributes {
+  const attributes: Attributes = {
+    'gen_ai.operation.name': 'invoke_agent',
+    'gen_ai.agent.name': 'kite',
+    'gen_ai.provider.name': run.provider,
+    'gen_ai.request.model': run.model,
+    'gen_ai.response.model': run.model,
+    'gen_ai.conversation.id': run.conversationId,
+    'kite.run.id': run.runId,
+    'kite.space.id': run.spaceId,
+    'kite.run.mode': run.mode,
+    'kite.run.status': run.status
+  }
+  if (run.ttftMs !== undefined) attributes['kite.run.ttft_ms'] = run.ttftMs
+  if (run.terminalReason) attributes['gen_ai.response.finish_reasons'] = [run.terminalReason]
+  if (run.tokenUsage) {
+    attributes['gen_ai.usage.input_tokens'] = run.tokenUsage.inputTokens
+    attributes['gen_ai.usage.output_tokens'] = run.tokenUsage.outputTokens
+    attributes['gen_ai.usage.cache_read.input_tokens'] = run.tokenUsage.cacheReadTokens
+    attributes['gen_ai.usage.cache_creation.input_tokens'] = run.tokenUsage.cacheCreationTokens
+    // The GenAI conventions have no cost attribute yet
+    attributes['kite.usage.cost_usd'] = run.tokenUsage.totalCostUsd
+  }
+  return attributes
+}
+
+function endWithError(span: Span, message: string | undefined, endTime: Date): void {
+  span.setStatus({ code: SpanStatusCode.ERROR, message })
+  if (message) span.setAttribute('error.type', message.slice(0, 200))
+  span.end(endTime)
+}
+
+function emitRunTrace(provider: BasicTracerProvider, run: ObservabilityRunTrace): void {
+  const tracer = provider.getTracer(TRACER_NAME)
+  const startMs = Date.parse(run.startedAt)
+  const endMs = run.endedAt ? Date.parse(run.endedAt) : startMs + (run.durationMs ?? 0)
+  const at = (offsetMs: number) => new Date(startMs + offsetMs)
+
+  const root = tracer.startSpan(`invoke_agent ${run.model || 'agent'}`, {
+    kind: SpanKind.INTERNAL,
+    startTime: new Date(startMs),
+    attributes: runAttributes(run)
+  })
+  const parent = trace.setSpan(context.active(), root)
+
+  for (const phase of run.phases) {
+    tracer
+      .startSpan(`agent.${phase.phase}`, {
+        startTime: at(phase.startOffsetMs),
+        attributes: { 'kite.phase': phase.phase }
+      }, parent)
+      .end(at(phase.startOffsetMs + phase.durationMs))
+  }
+
+  for (const tool of run.tools) {
+    // Tools whose start was not observed have no position on the timeline
+    if (tool.startOffsetMs === undefined) continue
+    const span = tracer.startSpan(`execute_tool ${tool.name}`, {
+      startTime: at(tool.startOffsetMs),
+      attributes: {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': tool.name,
+        'gen_ai.tool.call.id': tool.id,
+        'kite.tool.status': tool.status
+      }
+    }, parent)
+    const toolEnd = tool.durationMs !== undefined ? at(tool.startOffsetMs + tool.durationMs) : new Date(endMs)
+    if (tool.status === 'error') {
+      endWithError(span, tool.error, toolEnd)
+    } else {
+      span.end(toolEnd)
+    }
+  }
+
+  if (run.status === 'error') {
+    endWithError(root, run.errorMessage, new Date(endMs))
+  } else {
+    root.end(new Date(endMs))
+  }
+}
+
+/**
+ * Queue a finished run for export when OTLP is enabled and the run is sampled
+ */
+export function exportRunTraceToOtlp(run: ObservabilityRunTrace): void {
+  const active = ensureOtlpRuntime()
+  if (!active) return
+  const sampleRate = getConfig().observability?.langfuse.sampleRate ?? 1
+  if (!shouldSample(run.runId, sampleRate)) return
+
+  try {
+    emitRunTrace(active.provider, run)
+  } catch (error) {
+    console.warn('[Observability] Failed to export run to OTLP:', error)
+  }
+}
+
+/**
+ * Send queued spans now
+ */
+export async function flushOtlpExporter(): Promise<void> {
+  await runtime?.provider.forceFlush()
+}
+
+export function refreshOtlpRuntime(): void {
+  ensureOtlpRuntime()
+}
+
+export async function shutdownOtlpRuntime(): Promise<void> {
+  const current = runtime
+  runtime = null
+  if (current) await shutdownProvider(current.provider)
+}
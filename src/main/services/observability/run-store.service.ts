@@ -0,0 +1,141 @@
+/**
+ * Run Store - Local history of finished agent runs for the run explorer
+ *
+ * Every finalized run is appended to `~/.kite/observability/runs.jsonl`
+ * whether or not Langfuse export is enabled, so slow turns can be inspected
+ * offline. The file is compacted to the newest MAX_STORED_RUNS entries once
+ * it grows past that by COMPACT_SLACK.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { getKiteDir } from '../config.service'
+import type {
+  ObservabilityRunQuery,
+  ObservabilityRunSummary,
+  ObservabilityRunTrace,
+  ObservabilityToolTrace
+} from './types'
+
+const MAX_STORED_RUNS = 1000
+const COMPACT_SLACK = 100
+const DEFAULT_LIST_LIMIT = 100
+// Tool inputs/outputs can be whole files; keep enough to debug a slow call
+const MAX_TOOL_TEXT_LENGTH = 4000
+
+// Oldest first; loaded from disk on first use
+let runs: ObservabilityRunTrace[] | null = null
+
+function getRunsFilePath(): string {
+  return join(getKiteDir(), 'observability', 'runs.jsonl')
+}
+
+function truncate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  return value.length > MAX_TOOL_TEXT_LENGTH ? `${value.slice(0, MAX_TOOL_TEXT_LENGTH)}\n… (truncated)` : value
+}
+
+function loadRuns(): ObservabilityRunTrace[] {
+  if (runs) return runs
+  runs = []
+  const filePath = getRunsFilePath()
+  if (!existsSync(filePath)) return runs
+
+  try {
+    for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const trace = JSON.parse(line) as ObservabilityRunTrace
+        if (trace && typeof trace.runId === 'string') runs.push(trace)
+      } catch {
+        // A torn last line from a crash; skip it
+      }
+    }
+  } catch (error) {
+    console.error('[Observability] Failed to read run store:', error)
+  }
+  return runs
+}
+
+function compact(items: ObservabilityRunTrace[]): void {
+  items.splice(0, items.length - MAX_STORED_RUNS)
+  const filePath = getRunsFilePath()
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  try {
+    writeFileSync(tmpPath, items.map(item => JSON.stringify(item)).join('\n') + '\n')
+    renameSync(tmpPath, filePath)
+  } catch (error) {
+    console.error('[Observability] Failed to compact run store:', error)
+    rmSync(tmpPath, { force: true })
+  }
+}
+
+/**
+ * Append a finished run
+ */
+export function recordRunTrace(trace: ObservabilityRunTrace): void {
+  const stored: ObservabilityRunTrace = {
+    ...trace,
+    tools: trace.tools.map((tool): ObservabilityToolTrace => ({
+      ...tool,
+      input: truncate(tool.input) || '',
+      output: truncate(tool.output),
+      error: truncate(tool.error)
+    }))
+  }
+  const items = loadRuns()
+  items.push(stored)
+
+  try {
+    mkdirSync(join(getKiteDir(), 'observability'), { recursive: true })
+    appendFileSync(getRunsFilePath(), JSON.stringify(stored) + '\n')
+  } catch (error) {
+    console.error('[Observability] Failed to append to run store:', error)
+  }
+  if (items.length > MAX_STORED_RUNS + COMPACT_SLACK) {
+    compact(items)
+  }
+}
+
+/**
+ * Stored runs matching the query, without per-tool detail
+ */
+export function listRunTraces(query: ObservabilityRunQuery = {}): ObservabilityRunSummary[] {
+  const matches = loadRuns().filter(run =>
+    (!query.spaceId || run.spaceId === query.spaceId) &&
+    (!query.model || run.model === query.model) &&
+    (!query.status || run.status === query.status)
+  )
+  if (query.sort === 'slowest') {
+    matches.sort((a, b) => (b.durationMs ?? 0) - (a.durationMs ?? 0))
+  } else {
+    matches.reverse()
+  }
+  return matches
+    .slice(0, Math.min(query.limit ?? DEFAULT_LIST_LIMIT, MAX_STORED_RUNS))
+    .map(({ phases: _phases, tools: _tools, ...summary }) => summary)
+}
+
+export function getRunTrace(runId: string): ObservabilityRunTrace | null {
+  const items = loadRuns()
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (items[i].runId === runId) return items[i]
+  }
+  return null
+}
+
+/**
+ * Distinct models seen in stored runs, for the explorer's filter
+ */
+export function listRunModels(): string[] {
+  return Array.from(new Set(loadRuns().map(run => run.model).filter(Boolean))).sort()
+}
+
+export function clearRunTraces(): void {
+  runs = []
+  rmSync(getRunsFilePath(), { force: true })
+}
+
+export function _testResetRunStore(): void {
+  runs = null
+}
@@ -0,0 +1,13 @@
+import { createHash } from 'crypto'
+
+/**
+ * Deterministic per-run sampling, so every exporter keeps the same runs
+ */
+export function shouldSample(runId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1) return true
+  if (sampleRate <= 0) return false
+  const hex = createHash('sha1').update(runId).digest('hex').slice(0, 8)
+  const n = Number.parseInt(hex, 16)
+  const max = 0xffffffff
+  return n / max < sampleRate
+}
@@ -1,60 +1,18 @@
 import type { ChatMode, ToolCall } from '../agent/types'
-
-export const OBSERVABILITY_PHASES = [
-  'send_entry',
-  'resolve_provider',
-  'acquire_session',
-  'expand_directives',
-  'session_send',
-  'first_token',
-  'stream_loop',
-  'finalize'
-] as const
-
-export type ObservabilityPhase = (typeof OBSERVABILITY_PHASES)[number]
-
-export interface ObservabilityTokenUsage {
-  inputTokens: number
-  outputTokens: number
-  cacheReadTokens: number
-  cacheCreationTokens: number
-  totalCostUsd: number
-  contextWindow: number
-}
-
-export interface ObservabilityToolSummary {
-  total: number
-  success: number
-  error: number
-  running: number
-  waitingApproval: number
-  cancelled: number
-}
-
-export interface ObservabilityRunSummary {
-  sessionKey: string
-  spaceId: string
-  conversationId: string
-  runId: string
-  mode: ChatMode
-  provider: string
-  model: string
-  sampled: boolean
-  enabled: boolean
-  status: 'running' | 'completed' | 'stopped' | 'error' | 'no_text' | 'dropped'
-  startedAt: string
-  endedAt?: string
-  durationMs?: number
-  ttftMs?: number
-  traceId?: string
-  rootObservationId?: string
-  traceHost?: string
-  phaseDurationsMs: Partial<Record<ObservabilityPhase, number>>
-  tokenUsage?: ObservabilityTokenUsage
-  toolSummary?: ObservabilityToolSummary
-  terminalReason?: 'completed' | 'stopped' | 'error' | 'no_text'
-  errorMessage?: string
-}
+import type { ObservabilityTokenUsage } from '../../../shared/types/observability'
+
+export {
+  OBSERVABILITY_PHASES,
+  type ObservabilityPhase,
+  type ObservabilityTokenUsage,
+  type ObservabilityToolSummary,
+  type ObservabilityRunStatus,
+  type ObservabilityRunSummary,
+  type ObservabilityPhaseTiming,
+  type ObservabilityToolTrace,
+  type ObservabilityRunTrace,
+  type ObservabilityRunQuery
+} from '../../../shared/types/observability'
 
 export interface AgentRunObservationHandle {
   sessionKey: string
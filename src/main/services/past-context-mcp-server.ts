@@ -0,0 +1,77 @@
+/**
+ * Past Context SDK MCP Server
+ *
+ * Lets the agent pull relevant prior conversations and artifacts into the
+ * current one through the semantic index. Only registered when semantic
+ * search is enabled in settings.
+ */
+
+import { z } from 'zod'
+import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk'
+import { listSpaces } from './space.service'
+import { semanticSearch } from './semantic-index.service'
+import type { SemanticSearchHit } from '../../shared/types/semantic-search'
+
+export const PAST_CONTEXT_MCP_SERVER_NAME = 'past-context'
+
+const TEMP_SPACE_ID = 'kite-temp'
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+
+export function formatSemanticHits(hits: SemanticSearchHit[]): string {
+  if (hits.length === 0) {
+    return 'No related past context found.'
+  }
+  return hits.map((hit, position) => {
+    const source = hit.kind === 'message'
+      ? `Conversation "${hit.conversationTitle}" (${hit.messageRole}, ${hit.timestamp || 'unknown time'}, space ${hit.spaceName})`
+      : `Artifact ${hit.artifactPath} (space ${hit.spaceName})`
+    return `[${position + 1}] ${source} - similarity ${hit.score.toFixed(2)}\n${hit.text}`
+  }).join('\n\n')
+}
+
+function buildPastContextTools(spaceId: string) {
+  const search_past_context = tool(
+    'search_past_context',
+    'Find earlier conversations and workspace files related in meaning to a description, ' +
+    'e.g. "the pricing page redesign we discussed". Use it when the user refers to prior work ' +
+    'you have no context for.',
+    {
+      query: z.string().describe('What to look for, described in natural language'),
+      limit: z.number().optional().describe(`Max results to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`),
+      scope: z.enum(['space', 'all']).optional().describe('Search the current space (default) or all spaces')
+    },
+    async (args) => {
+      const spaceIds = args.scope === 'all'
+        ? [TEMP_SPACE_ID, ...listSpaces().map(space => space.id)]
+        : [spaceId]
+      try {
+        const hits = await semanticSearch(args.query, {
+          spaceIds,
+          limit: Math.max(1, Math.min(MAX_LIMIT, args.limit ?? DEFAULT_LIMIT))
+        })
+        return {
+          content: [{ type: 'text' as const, text: formatSemanticHits(hits) }]
+        }
+      } catch (error) {
+        return {
+          content: [{ type: 'text' as const, text: `Semantic search failed: ${(error as Error).message}` }],
+          isError: true
+        }
+      }
+    }
+  )
+
+  return [search_past_context]
+}
+
+/**
+ * Create Past Context SDK MCP Server (in-process)
+ */
+export function createPastContextMcpServer(spaceId: string) {
+  return createSdkMcpServer({
+    name: PAST_CONTEXT_MCP_SERVER_NAME,
+    version: '1.0.0',
+    tools: buildPastContextTools(spaceId)
+  })
+}
@@ -0,0 +1,171 @@
+/**
+ * Remote Access Log - Persistent record of remote logins and API calls
+ *
+ * Entries are appended to `~/.kite/remote-access/access.jsonl` and the file is
+ * compacted to the newest MAX_STORED_ENTRIES once it grows past that by
+ * COMPACT_SLACK. Successful sign-ins are also matched against the devices seen
+ * before (token + IP, in `known-devices.json`) so the desktop can say when a
+ * new device connects.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { getKiteDir } from './config.service'
+import type { RemoteAccessLogEntry, RemoteAccessLogQuery } from '../../shared/types/remote-access'
+
+const MAX_STORED_ENTRIES = 2000
+const COMPACT_SLACK = 200
+const DEFAULT_LIST_LIMIT = 200
+const MAX_KNOWN_DEVICES = 500
+const MAX_USER_AGENT_LENGTH = 300
+
+export interface RemoteSignIn {
+  tokenId: string
+  tokenName: string
+  ip: string
+  userAgent: string
+}
+
+type NewDeviceCallback = (signIn: RemoteSignIn) => void
+
+// Oldest first; loaded from disk on first use
+let entries: RemoteAccessLogEntry[] | null = null
+let knownDevices: string[] | null = null
+let newDeviceCallback: NewDeviceCallback | null = null
+
+function getLogDir(): string {
+  return join(getKiteDir(), 'remote-access')
+}
+
+function getLogFilePath(): string {
+  return join(getLogDir(), 'access.jsonl')
+}
+
+function getKnownDevicesFilePath(): string {
+  return join(getLogDir(), 'known-devices.json')
+}
+
+function loadEntries(): RemoteAccessLogEntry[] {
+  if (entries) return entries
+  entries = []
+  const filePath = getLogFilePath()
+  if (!existsSync(filePath)) return entries
+
+  try {
+    for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const entry = JSON.parse(line) as RemoteAccessLogEntry
+        if (entry && typeof entry.id === 'string') entries.push(entry)
+      } catch {
+        // A torn last line from a crash; skip it
+      }
+    }
+  } catch (error) {
+    console.error('[RemoteAccessLog] Failed to read access log:', error)
+  }
+  return entries
+}
+
+function compact(items: RemoteAccessLogEntry[]): void {
+  items.splice(0, items.length - MAX_STORED_ENTRIES)
+  const filePath = getLogFilePath()
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  try {
+    writeFileSync(tmpPath, items.map(item => JSON.stringify(item)).join('\n') + '\n')
+    renameSync(tmpPath, filePath)
+  } catch (error) {
+    console.error('[RemoteAccessLog] Failed to compact access log:', error)
+    rmSync(tmpPath, { force: true })
+  }
+}
+
+/**
+ * Append an access log entry
+ */
+export function recordRemoteAccess(entry: Omit<RemoteAccessLogEntry, 'id' | 'timestamp'>): void {
+  const stored: RemoteAccessLogEntry = {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+    userAgent: entry.userAgent.slice(0, MAX_USER_AGENT_LENGTH)
+  }
+  const items = loadEntries()
+  items.push(stored)
+
+  try {
+    mkdirSync(getLogDir(), { recursive: true })
+    appendFileSync(getLogFilePath(), JSON.stringify(stored) + '\n')
+  } catch (error) {
+    console.error('[RemoteAccessLog] Failed to append to access log:', error)
+  }
+  if (items.length > MAX_STORED_ENTRIES + COMPACT_SLACK) {
+    compact(items)
+  }
+}
+
+/**
+ * Newest entries first
+ */
+export function listRemoteAccessLog(query: RemoteAccessLogQuery = {}): RemoteAccessLogEntry[] {
+  const matches = loadEntries().filter(entry =>
+    !query.failuresOnly || (entry.status >= 400 && entry.status < 500)
+  )
+  const limit = Math.min(query.limit ?? DEFAULT_LIST_LIMIT, MAX_STORED_ENTRIES)
+  return matches.slice(-limit).reverse()
+}
+
+export function clearRemoteAccessLog(): void {
+  entries = []
+  rmSync(getLogFilePath(), { force: true })
+}
+
+function loadKnownDevices(): string[] {
+  if (knownDevices) return knownDevices
+  knownDevices = []
+  try {
+    const filePath = getKnownDevicesFilePath()
+    if (existsSync(filePath)) {
+      const parsed: unknown = JSON.parse(readFileSync(filePath, 'utf-8'))
+      if (Array.isArray(parsed)) knownDevices = parsed.filter((item): item is string => typeof item === 'string')
+    }
+  } catch (error) {
+    console.error('[RemoteAccessLog] Failed to read known devices:', error)
+  }
+  return knownDevices
+}
+
+/**
+ * Note a successful sign-in; the first one for a token from an IP counts as a new device
+ */
+export function noteRemoteSignIn(signIn: RemoteSignIn): boolean {
+  const key = `${signIn.tokenId}|${signIn.ip}`
+  const devices = loadKnownDevices()
+  if (devices.includes(key)) return false
+
+  devices.push(key)
+  devices.splice(0, devices.length - MAX_KNOWN_DEVICES)
+  try {
+    mkdirSync(getLogDir(), { recursive: true })
+    writeFileSync(getKnownDevicesFilePath(), JSON.stringify(devices))
+  } catch (error) {
+    console.error('[RemoteAccessLog] Failed to write known devices:', error)
+  }
+  console.log(`[RemoteAccessLog] New device for token "${signIn.tokenName}" from ${signIn.ip}`)
+  newDeviceCallback?.(signIn)
+  return true
+}
+
+/**
+ * Set callback for new device sign-ins
+ */
+export function onNewRemoteDevice(callback: NewDeviceCallback): void {
+  newDeviceCallback = callback
+}
+
+export function _testResetRemoteAccessLog(): void {
+  entries = null
+  knownDevices = null
+  newDeviceCallback = null
+}
@@ -0,0 +1,168 @@
+/**
+ * Remote Token Service - Per-device access tokens for remote access
+ *
+ * Tokens are stored in `~/.kite/remote-tokens.json` as SHA-256 hashes; the
+ * secret is only returned from createRemoteToken. Last-used times are kept in
+ * memory on every request and written back at most once per
+ * LAST_USED_PERSIST_INTERVAL_MS per token.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { getKiteDir } from './config.service'
+import {
+  isRemoteTokenScope,
+  type RemoteAccessToken,
+  type RemoteAccessTokenRequest
+} from '../../shared/types/remote-access'
+
+const SECRET_PREFIX = 'kite_'
+const MAX_NAME_LENGTH = 64
+const MAX_EXPIRY_DAYS = 3650
+const LAST_USED_PERSIST_INTERVAL_MS = 60_000
+
+interface StoredRemoteToken extends RemoteAccessToken {
+  hash: string
+}
+
+// Loaded from disk on first use
+let tokens: StoredRemoteToken[] | null = null
+const lastPersistedUseAt = new Map<string, number>()
+
+function getTokensFilePath(): string {
+  return join(getKiteDir(), 'remote-tokens.json')
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function toPublic({ hash: _hash, ...token }: StoredRemoteToken): RemoteAccessToken {
+  return token
+}
+
+function loadTokens(): StoredRemoteToken[] {
+  if (tokens) return tokens
+  tokens = []
+  const filePath = getTokensFilePath()
+  if (!existsSync(filePath)) return tokens
+
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as { tokens?: StoredRemoteToken[] }
+    for (const item of parsed.tokens || []) {
+      if (item && typeof item.id === 'string' && typeof item.hash === 'string' && isRemoteTokenScope(item.scope)) {
+        tokens.push(item)
+      }
+    }
+  } catch (error) {
+    console.error('[RemoteToken] Failed to read token store:', error)
+  }
+  return tokens
+}
+
+function persistTokens(items: StoredRemoteToken[]): void {
+  const filePath = getTokensFilePath()
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  try {
+    mkdirSync(getKiteDir(), { recursive: true })
+    writeFileSync(tmpPath, JSON.stringify({ version: 1, tokens: items }, null, 2), { mode: 0o600 })
+    renameSync(tmpPath, filePath)
+  } catch (error) {
+    console.error('[RemoteToken] Failed to write token store:', error)
+    rmSync(tmpPath, { force: true })
+  }
+}
+
+function isExpired(token: RemoteAccessToken, now: number): boolean {
+  return token.expiresAt !== null && Date.parse(token.expiresAt) <= now
+}
+
+/**
+ * Create a device token; the returned secret is not stored and cannot be shown again
+ */
+export function createRemoteToken(input: RemoteAccessTokenRequest): { token: RemoteAccessToken; secret: string } {
+  const name = typeof input?.name === 'string' ? input.name.trim().slice(0, MAX_NAME_LENGTH) : ''
+  if (!name) {
+    throw new Error('Token name is required')
+  }
+  if (!isRemoteTokenScope(input.scope)) {
+    throw new Error(`Invalid token scope: ${String(input.scope)}`)
+  }
+  const days = input.expiresInDays
+  if (days !== undefined && days !== null && (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS)) {
+    throw new Error(`expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`)
+  }
+
+  const now = Date.now()
+  const secret = `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`
+  const stored: StoredRemoteToken = {
+    id: uuidv4(),
+    name,
+    scope: input.scope,
+    createdAt: new Date(now).toISOString(),
+    lastUsedAt: null,
+    expiresAt: days ? new Date(now + days * 24 * 60 * 60 * 1000).toISOString() : null,
+    hash: hashSecret(secret)
+  }
+
+  const items = loadTokens()
+  items.push(stored)
+  persistTokens(items)
+  console.log(`[RemoteToken] Created ${stored.scope} token "${stored.name}"`)
+  return { token: toPublic(stored), secret }
+}
+
+/**
+ * All device tokens, newest first, including expired ones
+ */
+export function listRemoteTokens(): RemoteAccessToken[] {
+  return loadTokens().map(toPublic).reverse()
+}
+
+/**
+ * Delete a token; devices using it are rejected on their next request
+ */
+export function revokeRemoteToken(tokenId: string): boolean {
+  const items = loadTokens()
+  const index = items.findIndex(item => item.id === tokenId)
+  if (index === -1) return false
+  const [removed] = items.splice(index, 1)
+  lastPersistedUseAt.delete(tokenId)
+  persistTokens(items)
+  console.log(`[RemoteToken] Revoked token "${removed.name}"`)
+  return true
+}
+
+/**
+ * Resolve a presented secret to its token and record the use.
+ * Returns null for unknown, revoked or expired secrets.
+ */
+export function verifyRemoteToken(secret: string): RemoteAccessToken | null {
+  if (typeof secret !== 'string' || !secret.startsWith(SECRET_PREFIX)) return null
+  const hash = hashSecret(secret)
+  const token = loadTokens().find(item => item.hash === hash)
+  const now = Date.now()
+  if (!token || isExpired(token, now)) return null
+
+  token.lastUsedAt = new Date(now).toISOString()
+  if (now - (lastPersistedUseAt.get(token.id) ?? 0) >= LAST_USED_PERSIST_INTERVAL_MS) {
+    lastPersistedUseAt.set(token.id, now)
+    persistTokens(loadTokens())
+  }
+  return toPublic(token)
+}
+
+/**
+ * Whether a token still exists and has not expired (for long-lived connections)
+ */
+export function isRemoteTokenActive(tokenId: string): boolean {
+  const token = loadTokens().find(item => item.id === tokenId)
+  return !!token && !isExpired(token, Date.now())
+}
+
+export function _testResetRemoteTokens(): void {
+  tokens = null
+  lastPersistedUseAt.clear()
+}
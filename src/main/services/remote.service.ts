@@ -3,7 +3,7 @@
  * Provides a unified interface for remote access functionality
  */
 
-import { BrowserWindow } from 'electron'
+import { BrowserWindow, Notification } from 'electron'
 import { networkInterfaces } from 'os'
 import {
   startHttpServer,
@@ -11,6 +11,7 @@ import {
   isServerRunning,
   getServerInfo
 } from '../http/server'
+import { disconnectRemoteToken } from '../http/websocket'
 import {
   startTunnel,
   stopTunnel,
@@ -18,13 +19,19 @@ import {
   onTunnelStatusChange
 } from './tunnel.service'
 import { getConfig, saveConfig } from './config.service'
+import { createRemoteToken, listRemoteTokens, revokeRemoteToken } from './remote-token.service'
+import { onNewRemoteDevice, type RemoteSignIn } from './remote-access-log.service'
+import type {
+  CreatedRemoteAccessToken,
+  RemoteAccessToken,
+  RemoteAccessTokenRequest
+} from '../../shared/types/remote-access'
 
 export interface RemoteAccessStatus {
   enabled: boolean
   server: {
     running: boolean
     port: number
-    token: string | null
     localUrl: string | null
     lanUrl: string | null
   }
@@ -73,7 +80,7 @@ export async function enableRemoteAccess(
     return getRemoteAccessStatus()
   }
 
-  const { port: actualPort, token } = await startHttpServer(mainWindow, port)
+  const { port: actualPort } = await startHttpServer(mainWindow, port)
 
   // Update config
   const config = getConfig()
@@ -141,7 +148,6 @@ export function getRemoteAccessStatus(): RemoteAccessStatus {
     server: {
       running: serverInfo.running,
       port: serverInfo.port,
-      token: serverInfo.token,
       localUrl: serverInfo.running ? `http://localhost:${serverInfo.port}` : null,
       lanUrl: serverInfo.running && localIp ? `http://${localIp}:${serverInfo.port}` : null
     },
@@ -170,8 +176,9 @@ export function onRemoteAccessStatusChange(callback: StatusCallback): void {
 
 /**
  * Generate QR code data for easy mobile access
+ * With a device token secret, scanning the code also signs the device in.
  */
-export async function generateQRCode(includeToken: boolean = false): Promise<string | null> {
+export async function generateQRCode(pairingSecret?: string): Promise<string | null> {
   const status = getRemoteAccessStatus()
 
   if (!status.enabled) {
@@ -185,9 +192,9 @@ export async function generateQRCode(includeToken: boolean = false): Promise<str
     return null
   }
 
-  // Optionally include token in URL for auto-login
-  if (includeToken && status.server.token) {
-    url = `${url}?token=${status.server.token}`
+  // Optionally include a device token in the URL for auto-login
+  if (pairingSecret) {
+    url = `${url}?token=${encodeURIComponent(pairingSecret)}`
   }
 
   try {
@@ -205,3 +212,46 @@ export async function generateQRCode(includeToken: boolean = false): Promise<str
     return null
   }
 }
+
+/**
+ * Create a device token and its pairing QR code (when the server is running)
+ */
+export async function createRemoteAccessToken(input: RemoteAccessTokenRequest): Promise<CreatedRemoteAccessToken> {
+  const { token, secret } = createRemoteToken(input)
+  const qrCode = await generateQRCode(secret)
+  return { token, secret, qrCode }
+}
+
+export function listRemoteAccessTokens(): RemoteAccessToken[] {
+  return listRemoteTokens()
+}
+
+/**
+ * Revoke a device token and drop its live connections
+ */
+export function revokeRemoteAccessToken(tokenId: string): boolean {
+  const revoked = revokeRemoteToken(tokenId)
+  if (revoked) {
+    disconnectRemoteToken(tokenId)
+    statusCallback?.(getRemoteAccessStatus())
+  }
+  return revoked
+}
+
+/**
+ * Desktop notification the first time a token signs in from an IP
+ */
+function notifyNewDevice(signIn: RemoteSignIn): void {
+  if (!Notification.isSupported()) return
+  new Notification({
+    title: 'New device connected to Kite',
+    body: `"${signIn.tokenName}" signed in from ${signIn.ip}. Revoke the token in Settings if this wasn't you.`
+  }).show()
+}
+
+/**
+ * Show a desktop notification when a new device signs in
+ */
+export function enableNewDeviceNotifications(): void {
+  onNewRemoteDevice(notifyNewDevice)
+}
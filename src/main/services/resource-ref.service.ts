@@ -22,6 +22,11 @@ export interface CopyToSpaceResult<T> {
   error?: string
 }
 
+export interface ResourceFileByRef<T> {
+  definition: T
+  content: string
+}
+
 /**
  * Normalize heterogeneous resource sources into execution scopes.
  * global-exec: app/global/installed/plugin resources
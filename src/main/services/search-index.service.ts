@@ -0,0 +1,519 @@
+/**
+ * Search Index Service - Persistent inverted index over conversation messages
+ *
+ * Postings map each token to the messages containing it (with term counts);
+ * per-message metadata (role, time, tools used) backs the query filters.
+ * Message text itself is not stored - the search service reads the few
+ * conversation files behind the top candidates to confirm matches and build
+ * previews.
+ *
+ * The index is kept current by conversation.service writes. A conversations
+ * directory is reconciled against file mtimes the first time it is searched
+ * in a process, which also covers files changed while the app was closed.
+ */
+
+import { join } from 'path'
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs'
+import { getKiteDir } from './config.service'
+import { tokenizeSearchText, type ParsedSearchQuery, type SearchRole } from '../../shared/utils/search-query'
+
+const INDEX_VERSION = 1
+const SAVE_DELAY_MS = 2000
+// Yield to the event loop while reconciling so progress and cancel get through
+const RECONCILE_BATCH_SIZE = 50
+// Prefix expansions rank below exact token hits
+const PREFIX_MATCH_WEIGHT = 0.7
+// Relevance is scaled by 0.5..1 depending on message age (halfway at this many days)
+const RECENCY_HALF_DAYS = 30
+
+interface IndexableMessage {
+  id: string
+  role: string
+  content: string
+  timestamp: string
+  toolCalls?: Array<{ name?: string }>
+  thoughts?: Array<{ type?: string; toolName?: string }>
+}
+
+export interface IndexableConversation {
+  id: string
+  messages: IndexableMessage[]
+}
+
+interface IndexedMessage {
+  spaceId: string
+  conversationId: string
+  messageId: string
+  role: SearchRole
+  time: number
+  tools: string[]
+}
+
+interface IndexedConversation {
+  spaceId: string
+  conversationId: string
+  mtimeMs: number
+  docIds: number[]
+}
+
+interface PersistedSearchIndex {
+  version: number
+  nextDocId: number
+  conversations: Record<string, IndexedConversation>
+  messages: Record<string, IndexedMessage>
+  postings: Record<string, Record<string, number>>
+}
+
+export interface SearchCandidate {
+  spaceId: string
+  conversationId: string
+  messageId: string
+  score: number
+}
+
+export interface SearchIndexFilter {
+  /** Limit to these spaces */
+  spaceIds?: string[]
+  /** Limit to one conversation */
+  conversationId?: string
+}
+
+interface SearchIndexState {
+  nextDocId: number
+  conversations: Map<string, IndexedConversation>
+  messages: Map<number, IndexedMessage>
+  postings: Map<string, Map<number, number>>
+  // Derived on load: the tokens of each message, for removal
+  docTokens: Map<number, string[]>
+}
+
+let state: SearchIndexState | null = null
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+const reconciledDirs = new Set<string>()
+const pendingReconciles = new Map<string, Promise<void>>()
+
+function getIndexPath(): string {
+  return join(getKiteDir(), 'search-index.json')
+}
+
+function conversationKey(spaceId: string, conversationId: string): string {
+  return `${spaceId}/${conversationId}`
+}
+
+function emptyState(): SearchIndexState {
+  return {
+    nextDocId: 1,
+    conversations: new Map(),
+    messages: new Map(),
+    postings: new Map(),
+    docTokens: new Map()
+  }
+}
+
+function loadState(): SearchIndexState {
+  if (state) return state
+  state = emptyState()
+  const indexPath = getIndexPath()
+  if (!existsSync(indexPath)) return state
+
+  try {
+    const persisted = JSON.parse(readFileSync(indexPath, 'utf-8')) as PersistedSearchIndex
+    if (persisted.version !== INDEX_VERSION) {
+      console.log('[SearchIndex] Index version changed, rebuilding')
+      return state
+    }
+    state.nextDocId = persisted.nextDocId
+    for (const [key, conversation] of Object.entries(persisted.conversations)) {
+      state.conversations.set(key, conversation)
+    }
+    for (const [docId, message] of Object.entries(persisted.messages)) {
+      state.messages.set(Number(docId), message)
+    }
+    for (const [token, docs] of Object.entries(persisted.postings)) {
+      const postings = new Map<number, number>()
+      for (const [docId, count] of Object.entries(docs)) {
+        postings.set(Number(docId), count)
+        const tokens = state.docTokens.get(Number(docId))
+        if (tokens) {
+          tokens.push(token)
+        } else {
+          state.docTokens.set(Number(docId), [token])
+        }
+      }
+      state.postings.set(token, postings)
+    }
+    console.log(`[SearchIndex] Loaded ${state.messages.size} messages, ${state.postings.size} tokens`)
+  } catch (error) {
+    console.error('[SearchIndex] Failed to load index, rebuilding:', error)
+    state = emptyState()
+  }
+  return state
+}
+
+function saveState(): void {
+  if (!state) return
+  const persisted: PersistedSearchIndex = {
+    version: INDEX_VERSION,
+    nextDocId: state.nextDocId,
+    conversations: Object.fromEntries(state.conversations),
+    messages: Object.fromEntries(state.messages),
+    postings: {}
+  }
+  for (const [token, docs] of Array.from(state.postings.entries())) {
+    persisted.postings[token] = Object.fromEntries(docs)
+  }
+
+  const indexPath = getIndexPath()
+  const tmpPath = `${indexPath}.${process.pid}.tmp`
+  try {
+    mkdirSync(getKiteDir(), { recursive: true })
+    writeFileSync(tmpPath, JSON.stringify(persisted))
+    renameSync(tmpPath, indexPath)
+  } catch (error) {
+    console.error('[SearchIndex] Failed to save index:', error)
+    rmSync(tmpPath, { force: true })
+  }
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return
+  saveTimer = setTimeout(() => {
+    saveTimer = null
+    saveState()
+  }, SAVE_DELAY_MS)
+  saveTimer.unref?.()
+}
+
+/**
+ * Write pending index changes now (called on shutdown)
+ */
+export function flushSearchIndex(): void {
+  if (!saveTimer) return
+  clearTimeout(saveTimer)
+  saveTimer = null
+  saveState()
+}
+
+function removeDoc(index: SearchIndexState, docId: number): void {
+  for (const token of index.docTokens.get(docId) || []) {
+    const postings = index.postings.get(token)
+    if (!postings) continue
+    postings.delete(docId)
+    if (postings.size === 0) index.postings.delete(token)
+  }
+  index.docTokens.delete(docId)
+  index.messages.delete(docId)
+}
+
+function messageTools(message: IndexableMessage): string[] {
+  const tools = new Set<string>()
+  for (const call of message.toolCalls || []) {
+    if (call.name) tools.add(call.name.toLowerCase())
+  }
+  for (const thought of message.thoughts || []) {
+    if (thought.type === 'tool_use' && thought.toolName) tools.add(thought.toolName.toLowerCase())
+  }
+  return Array.from(tools)
+}
+
+function addDoc(index: SearchIndexState, spaceId: string, conversationId: string, message: IndexableMessage): number | null {
+  if (message.role !== 'user' && message.role !== 'assistant') return null
+  const docId = index.nextDocId++
+  const time = Date.parse(message.timestamp)
+  index.messages.set(docId, {
+    spaceId,
+    conversationId,
+    messageId: message.id,
+    role: message.role,
+    time: Number.isNaN(time) ? 0 : time,
+    tools: messageTools(message)
+  })
+
+  const counts = new Map<string, number>()
+  for (const token of tokenizeSearchText(message.content || '')) {
+    counts.set(token, (counts.get(token) || 0) + 1)
+  }
+  for (const [token, count] of Array.from(counts.entries())) {
+    const postings = index.postings.get(token)
+    if (postings) {
+      postings.set(docId, count)
+    } else {
+      index.postings.set(token, new Map([[docId, count]]))
+    }
+  }
+  index.docTokens.set(docId, Array.from(counts.keys()))
+  return docId
+}
+
+function readMtime(conversationsDir: string, conversationId: string): number {
+  try {
+    return statSync(join(conversationsDir, `${conversationId}.json`)).mtimeMs
+  } catch {
+    return 0
+  }
+}
+
+function replaceConversation(
+  index: SearchIndexState,
+  spaceId: string,
+  conversation: IndexableConversation,
+  mtimeMs: number
+): void {
+  const key = conversationKey(spaceId, conversation.id)
+  for (const docId of index.conversations.get(key)?.docIds || []) {
+    removeDoc(index, docId)
+  }
+  const docIds: number[] = []
+  for (const message of conversation.messages || []) {
+    const docId = addDoc(index, spaceId, conversation.id, message)
+    if (docId !== null) docIds.push(docId)
+  }
+  index.conversations.set(key, { spaceId, conversationId: conversation.id, mtimeMs, docIds })
+}
+
+/**
+ * Update the index after a conversation file was written.
+ *
+ * Only the listed messages are re-tokenized when the conversation is already
+ * indexed and its directory has been reconciled; otherwise the whole
+ * conversation is (re)indexed.
+ */
+export function indexConversation(
+  spaceId: string,
+  conversationsDir: string,
+  conversation: IndexableConversation,
+  changedMessageIds?: string[]
+): void {
+  try {
+    const index = loadState()
+    const key = conversationKey(spaceId, conversation.id)
+    const existing = index.conversations.get(key)
+    const mtimeMs = readMtime(conversationsDir, conversation.id)
+
+    if (!existing || !changedMessageIds || !reconciledDirs.has(conversationsDir)) {
+      replaceConversation(index, spaceId, conversation, mtimeMs)
+      scheduleSave()
+      return
+    }
+
+    const current = new Set(conversation.messages.map(message => message.id))
+    const changed = new Set(changedMessageIds)
+    const docIds: number[] = []
+    const kept = new Set<string>()
+    for (const docId of existing.docIds) {
+      const messageId = index.messages.get(docId)?.messageId
+      if (!messageId || !current.has(messageId) || changed.has(messageId)) {
+        removeDoc(index, docId)
+      } else {
+        docIds.push(docId)
+        kept.add(messageId)
+      }
+    }
+    for (const message of conversation.messages) {
+      if (kept.has(message.id)) continue
+      const docId = addDoc(index, spaceId, conversation.id, message)
+      if (docId !== null) docIds.push(docId)
+    }
+    index.conversations.set(key, { spaceId, conversationId: conversation.id, mtimeMs, docIds })
+    scheduleSave()
+  } catch (error) {
+    console.error(`[SearchIndex] Failed to index conversation ${conversation.id}:`, error)
+  }
+}
+
+export function removeConversationFromIndex(spaceId: string, conversationId: string): void {
+  try {
+    const index = loadState()
+    const key = conversationKey(spaceId, conversationId)
+    const existing = index.conversations.get(key)
+    if (!existing) return
+    for (const docId of existing.docIds) {
+      removeDoc(index, docId)
+    }
+    index.conversations.delete(key)
+    scheduleSave()
+  } catch (error) {
+    console.error(`[SearchIndex] Failed to remove conversation ${conversationId}:`, error)
+  }
+}
+
+/**
+ * Bring a conversations directory in line with the files on disk: index new
+ * or modified conversations and drop deleted ones. Runs once per directory
+ * per process; later changes arrive through indexConversation.
+ */
+export async function ensureConversationsIndexed(
+  spaceId: string,
+  conversationsDir: string,
+  onProgress?: (current: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<void> {
+  if (reconciledDirs.has(conversationsDir)) return
+
+  // Searches overlap while typing; wait for the one already reconciling, then
+  // re-check in case it was cancelled before finishing
+  const pending = pendingReconciles.get(conversationsDir)
+  if (pending) {
+    await pending
+    return ensureConversationsIndexed(spaceId, conversationsDir, onProgress, isCancelled)
+  }
+
+  const reconcile = reconcileConversationsDir(spaceId, conversationsDir, onProgress, isCancelled)
+  pendingReconciles.set(conversationsDir, reconcile)
+  try {
+    await reconcile
+  } finally {
+    pendingReconciles.delete(conversationsDir)
+  }
+}
+
+async function reconcileConversationsDir(
+  spaceId: string,
+  conversationsDir: string,
+  onProgress?: (current: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<void> {
+  const index = loadState()
+
+  const files = existsSync(conversationsDir)
+    ? readdirSync(conversationsDir).filter(file => file.endsWith('.json') && file !== 'index.json')
+    : []
+  const onDisk = new Set(files.map(file => file.slice(0, -'.json'.length)))
+
+  let changed = false
+  for (const record of Array.from(index.conversations.values())) {
+    if (record.spaceId === spaceId && !onDisk.has(record.conversationId)) {
+      for (const docId of record.docIds) removeDoc(index, docId)
+      index.conversations.delete(conversationKey(spaceId, record.conversationId))
+      changed = true
+    }
+  }
+
+  const stale = Array.from(onDisk).filter(conversationId => {
+    const record = index.conversations.get(conversationKey(spaceId, conversationId))
+    return !record || record.mtimeMs !== readMtime(conversationsDir, conversationId)
+  })
+
+  for (let i = 0; i < stale.length; i++) {
+    if (isCancelled?.()) {
+      if (changed) scheduleSave()
+      return
+    }
+    const conversationId = stale[i]
+    try {
+      const content = readFileSync(join(conversationsDir, `${conversationId}.json`), 'utf-8')
+      const conversation = JSON.parse(content) as IndexableConversation
+      replaceConversation(
+        index,
+        spaceId,
+        { id: conversationId, messages: Array.isArray(conversation.messages) ? conversation.messages : [] },
+        readMtime(conversationsDir, conversationId)
+      )
+    } catch (error) {
+      console.error(`[SearchIndex] Failed to index ${conversationId}:`, error)
+    }
+    changed = true
+    onProgress?.(i + 1, stale.length)
+    if ((i + 1) % RECONCILE_BATCH_SIZE === 0) {
+      await new Promise(resolve => setImmediate(resolve))
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log(`[SearchIndex] Indexed ${stale.length} conversations in ${conversationsDir}`)
+  }
+  reconciledDirs.add(conversationsDir)
+  if (changed) scheduleSave()
+}
+
+/**
+ * Docs containing the token (or, with `prefix`, any token starting with it),
+ * weighted by a saturated term count times inverse document frequency
+ */
+function scoreToken(index: SearchIndexState, token: string, prefix: boolean): Map<number, number> {
+  const scores = new Map<number, number>()
+  const total = Math.max(index.messages.size, 1)
+  const addPostings = (postings: Map<number, number>, weight: number) => {
+    const idf = Math.log(1 + total / postings.size)
+    for (const [docId, count] of Array.from(postings.entries())) {
+      const score = weight * idf * (count / (count + 1.2))
+      if (score > (scores.get(docId) || 0)) scores.set(docId, score)
+    }
+  }
+
+  const exact = index.postings.get(token)
+  if (exact) addPostings(exact, 1)
+  if (prefix) {
+    for (const [candidate, postings] of Array.from(index.postings.entries())) {
+      if (candidate !== token && candidate.startsWith(token)) addPostings(postings, PREFIX_MATCH_WEIGHT)
+    }
+  }
+  return scores
+}
+
+function matchesFilters(message: IndexedMessage, query: ParsedSearchQuery, filter: SearchIndexFilter): boolean {
+  if (filter.spaceIds && !filter.spaceIds.includes(message.spaceId)) return false
+  if (filter.conversationId && message.conversationId !== filter.conversationId) return false
+  if (query.roles.length > 0 && !query.roles.includes(message.role)) return false
+  if (query.after !== undefined && message.time < query.after) return false
+  if (query.before !== undefined && message.time >= query.before) return false
+  if (query.tools.length > 0 && !query.tools.some(tool => message.tools.includes(tool))) return false
+  return true
+}
+
+/**
+ * Rank indexed messages for a query, best first. Every word and phrase token
+ * must be present; phrases and regexes still need checking against the text.
+ */
+export function querySearchIndex(
+  query: ParsedSearchQuery,
+  filter: SearchIndexFilter = {},
+  now: number = Date.now()
+): SearchCandidate[] {
+  const index = loadState()
+
+  // Last token of each word/phrase may be incomplete while the user is typing
+  const tokenGroups = [...query.terms, ...query.phrases].map(text => tokenizeSearchText(text))
+  let relevance: Map<number, number> | null = null
+  for (const tokens of tokenGroups) {
+    for (let position = 0; position < tokens.length; position++) {
+      const tokenScores = scoreToken(index, tokens[position], position === tokens.length - 1)
+      if (!relevance) {
+        relevance = tokenScores
+        continue
+      }
+      const merged = new Map<number, number>()
+      for (const [docId, score] of Array.from(relevance.entries())) {
+        const tokenScore = tokenScores.get(docId)
+        if (tokenScore !== undefined) merged.set(docId, score + tokenScore)
+      }
+      relevance = merged
+    }
+  }
+
+  const candidates: SearchCandidate[] = []
+  const docIds = Array.from(relevance ? relevance.keys() : index.messages.keys())
+  for (const docId of docIds) {
+    const message = index.messages.get(docId)
+    if (!message || !matchesFilters(message, query, filter)) continue
+    const ageDays = Math.max(0, now - message.time) / (24 * 60 * 60 * 1000)
+    const recency = 1 / (1 + ageDays / RECENCY_HALF_DAYS)
+    const base = relevance ? relevance.get(docId) || 0 : 1
+    candidates.push({
+      spaceId: message.spaceId,
+      conversationId: message.conversationId,
+      messageId: message.messageId,
+      score: base * (0.5 + 0.5 * recency)
+    })
+  }
+
+  return candidates.sort((a, b) => b.score - a.score)
+}
+
+export function _testResetSearchIndex(): void {
+  if (saveTimer) clearTimeout(saveTimer)
+  saveTimer = null
+  state = null
+  reconciledDirs.clear()
+  pendingReconciles.clear()
+}
@@ -6,13 +6,28 @@
  * - space: Search within all conversations in a space
  * - global: Search across all conversations in all spaces
  *
- * Performance: Uses Promise.all for concurrent file reads, with progress callbacks
+ * Queries run against the persistent index in search-index.service; only the
+ * conversation files behind the top-ranked candidates are read, to confirm
+ * phrase/regex matches and build previews. Query syntax is described in
+ * shared/utils/search-query.ts.
+ *
+ * "Similar meaning" searches go to the embedding index in semantic-index.service.
  */
 
 import { join } from 'path'
-import { existsSync, readdirSync, readFileSync } from 'fs'
+import { existsSync, readFileSync } from 'fs'
 import { getTempSpacePath } from './config.service'
 import { getSpace, listSpaces } from './space.service'
+import { ensureConversationsIndexed, querySearchIndex } from './search-index.service'
+import { semanticSearch } from './semantic-index.service'
+import { hasSearchCriteria, parseSearchQuery, type ParsedSearchQuery } from '../../shared/utils/search-query'
+import type { SemanticSearchHit } from '../../shared/types/semantic-search'
+
+const TEMP_SPACE_ID = 'kite-temp'
+const MAX_RESULTS = 200
+const PREVIEW_LENGTH = 150
+const CONTEXT_BEFORE_LENGTH = 50
+const CONTEXT_AFTER_LENGTH = 100
 
 /**
  * Search result for a single message match
@@ -29,6 +44,8 @@ export interface SearchResult {
   matchCount: number
   contextBefore?: string
   contextAfter?: string
+  /** The matched text as it appears in the message (empty for filter-only queries) */
+  matchText?: string
 }
 
 /**
@@ -49,11 +66,70 @@ interface ConversationFile {
   }>
 }
 
+interface SearchTarget {
+  spaceId: string
+  spaceName: string
+  conversationsDir: string
+}
+
+interface MessageMatch {
+  count: number
+  index: number
+  length: number
+}
+
+function countOccurrences(haystack: string, needle: string): { count: number; first: number } {
+  let count = 0
+  let first = -1
+  let position = haystack.indexOf(needle)
+  while (position !== -1) {
+    if (first === -1) first = position
+    count++
+    position = haystack.indexOf(needle, position + needle.length)
+  }
+  return { count, first }
+}
+
+/**
+ * Check the message text against the words, phrases and regex of a query.
+ * Returns null when any of them is missing.
+ */
+export function matchMessageContent(content: string, query: ParsedSearchQuery): MessageMatch | null {
+  const lower = content.toLowerCase()
+  let count = 0
+  let index = -1
+  let length = 0
+
+  for (const text of [...query.phrases, ...query.terms]) {
+    const occurrences = countOccurrences(lower, text)
+    if (occurrences.count === 0) return null
+    count += occurrences.count
+    if (index === -1 || occurrences.first < index) {
+      index = occurrences.first
+      length = text.length
+    }
+  }
+
+  if (query.regex) {
+    const regex = new RegExp(query.regex.source, `${query.regex.flags}g`)
+    const matches = Array.from(content.matchAll(regex)).filter(match => match[0].length > 0)
+    if (matches.length === 0) return null
+    count += matches.length
+    const first = matches[0]
+    if (index === -1 || (first.index ?? 0) < index) {
+      index = first.index ?? 0
+      length = first[0].length
+    }
+  }
+
+  return { count, index: Math.max(index, 0), length }
+}
+
 /**
  * Search service for managing conversation searches
  */
 export class SearchService {
-  private cancelToken: boolean = false
+  private generation = 0
 
   /**
    * Execute search across specified scope
@@ -61,8 +137,8 @@ export class SearchService {
    * @param scope - Search scope: 'conversation', 'space', or 'global'
    * @param currentConversationId - Current conversation ID (required for 'conversation' scope)
    * @param currentSpaceId - Current space ID (required for 'space' scope)
-   * @param onProgress - Callback for progress updates
-   * @returns Array of search results sorted by timestamp (newest first)
+   * @param onProgress - Callback for indexing progress (only while conversations are being indexed)
+   * @returns Array of search results ranked by relevance and recency
    */
   async search(
     query: string,
@@ -71,48 +147,64 @@ export class SearchService {
     currentSpaceId?: string,
     onProgress?: (current: number, total: number) => void
   ): Promise<SearchResult[]> {
-    if (!query.trim()) {
+    const parsed = parseSearchQuery(query)
+    if (parsed.errors.length > 0) {
+      throw new Error(parsed.errors.join('; '))
+    }
+    if (!hasSearchCriteria(parsed)) {
       return []
     }
 
-    this.cancelToken = false
+    const generation = ++this.generation
+    const isCancelled = () => generation !== this.generation
 
     try {
-      // Step 1: Get files to search based on scope
-      const files = this.getFilesToSearch(scope, currentConversationId, currentSpaceId)
-
-      if (files.length === 0) {
+      // Step 1: Resolve the spaces to search from the scope and any space: filters
+      const targets = this.filterTargetsBySpace(
+        this.getSearchTargets(scope, currentConversationId, currentSpaceId),
+        parsed.spaces
+      )
+      if (targets.length === 0) {
         return []
       }
 
-      // Step 2: Concurrent file reading with progress tracking
-      const promises = files.map((file, index) =>
-        this.searchFile(file, query)
-          .then(results => {
-            if (!this.cancelToken) {
-              onProgress?.(index + 1, files.length)
-            }
-            return results
-          })
-          .catch(err => {
-            console.error(`Error searching ${file}:`, err)
-            return []
-          })
-      )
+      // Step 2: Index conversations changed since the last search (first search per process)
+      for (const target of targets) {
+        await ensureConversationsIndexed(target.spaceId, target.conversationsDir, (current, total) => {
+          if (!isCancelled()) onProgress?.(current, total)
+        }, isCancelled)
+        if (isCancelled()) return []
+      }
 
-      // Step 3: Wait for all searches to complete
-      const allResults = await Promise.all(promises)
+      // Step 3: Rank candidates from the index
+      const candidates = querySearchIndex(parsed, {
+        spaceIds: targets.map(target => target.spaceId),
+        conversationId: scope === 'conversation' ? currentConversationId : undefined
+      })
 
-      if (this.cancelToken) {
-        return []
-      }
+      // Step 4: Confirm matches against the message text, best first
+      const targetsBySpace = new Map(targets.map(target => [target.spaceId, target]))
+      const files = new Map<string, ConversationFile | null>()
+      const results: SearchResult[] = []
+      for (const candidate of candidates) {
+        if (isCancelled()) return []
+        if (results.length >= MAX_RESULTS) break
+        const target = targetsBySpace.get(candidate.spaceId)
+        if (!target) continue
+
+        const fileKey = `${candidate.spaceId}/${candidate.conversationId}`
+        if (!files.has(fileKey)) {
+          files.set(fileKey, this.readConversationFile(target.conversationsDir, candidate.conversationId))
+        }
+        const data = files.get(fileKey)
+        const message = data?.messages?.find(item => item.id === candidate.messageId)
+        if (!data || !message || (message.role !== 'user' && message.role !== 'assistant')) continue
 
-      // Step 4: Merge and sort results by timestamp (newest first)
-      const mergedResults = allResults.flat()
+        const result = this.buildResult(data, message, target, parsed)
+        if (result) results.push(result)
+      }
 
-      return mergedResults.sort((a, b) =>
-        new Date(b.messageTimestamp).getTime() - new Date(a.messageTimestamp).getTime()
-      )
+      return results
     } catch (error) {
       console.error('Search error:', error)
       return []
@@ -120,221 +212,171 @@ export class SearchService {
   }
 
   /**
-   * Cancel ongoing search operation
+   * Find messages and artifacts close in meaning to the query (semantic index)
+   * @param onProgress - Callback for embedding progress (only while sources are being embedded)
    */
-  cancel(): void {
-    this.cancelToken = true
-  }
-
-  /**
-   * Search single conversation file
-   */
-  private async searchFile(filePath: string, query: string): Promise<SearchResult[]> {
-    if (this.cancelToken) {
+  async searchSimilar(
+    query: string,
+    scope: 'conversation' | 'space' | 'global',
+    currentConversationId?: string,
+    currentSpaceId?: string,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<SemanticSearchHit[]> {
+    const generation = ++this.generation
+    const isCancelled = () => generation !== this.generation
+    const targets = this.getSearchTargets(scope, currentConversationId, currentSpaceId)
+    if (targets.length === 0) {
       return []
     }
 
-    try {
-      const content = readFileSync(filePath, 'utf-8')
-      const data: ConversationFile = JSON.parse(content)
-
-      const results: SearchResult[] = []
-      const searchRegex = new RegExp(query, 'gi')
-
-      // Get space name
-      let spaceName = data.spaceId === 'kite-temp' ? 'Kite' : data.spaceId
+    const conversationOnly = scope === 'conversation' && Boolean(currentConversationId)
+    return semanticSearch(query, {
+      spaceIds: targets.map(target => target.spaceId),
+      limit: 50,
+      ...(conversationOnly ? { kinds: ['message' as const], conversationId: currentConversationId } : {}),
+      onProgress: (current, total) => {
+        if (!isCancelled()) onProgress?.(current, total)
+      },
+      isCancelled
+    })
+  }
 
-      try {
-        if (data.spaceId !== 'kite-temp') {
-          const space = getSpace(data.spaceId)
-          if (space) {
-            spaceName = space.name
-          }
-        }
-      } catch (e) {
-        // Space may have been deleted, use spaceId as fallback
-      }
+  /**
+   * Cancel ongoing search operation
+   */
+  cancel(): void {
+    this.generation++
+  }
 
-      // Search through messages
-      data.messages?.forEach((message) => {
-        if (this.cancelToken) {
-          return
-        }
+  private buildResult(
+    data: ConversationFile,
+    message: ConversationFile['messages'][number],
+    target: SearchTarget,
+    query: ParsedSearchQuery
+  ): SearchResult | null {
+    const messageContent = message.content || ''
+    const match = matchMessageContent(messageContent, query)
+    if (!match) {
+      return null
+    }
 
-        const messageContent = message.content || ''
-        const matches = messageContent.match(searchRegex)
-        const matchCount = matches?.length || 0
-
-        if (matchCount > 0) {
-          // Extract context (before and after search term)
-          const firstMatch = messageContent.search(searchRegex)
-          const contextStart = Math.max(0, firstMatch - 50)
-          const contextEnd = Math.min(messageContent.length, firstMatch + 100)
-
-          const contextBefore = messageContent.substring(contextStart, firstMatch)
-          const contextAfter = messageContent.substring(
-            firstMatch + query.length,
-            contextEnd
-          )
-
-          results.push({
-            conversationId: data.id,
-            conversationTitle: data.title,
-            messageId: message.id,
-            spaceId: data.spaceId,
-            spaceName,
-            messageRole: message.role as 'user' | 'assistant',
-            messageContent: messageContent.substring(0, 150), // Truncate for display
-            messageTimestamp: message.timestamp,
-            matchCount,
-            contextBefore: contextBefore.trim(),
-            contextAfter: contextAfter.trim()
-          })
-        }
-      })
+    const contextStart = Math.max(0, match.index - CONTEXT_BEFORE_LENGTH)
+    const matchEnd = match.index + match.length
+    const contextEnd = Math.min(messageContent.length, matchEnd + CONTEXT_AFTER_LENGTH)
+
+    return {
+      conversationId: data.id,
+      conversationTitle: data.title,
+      messageId: message.id,
+      spaceId: target.spaceId,
+      spaceName: target.spaceName,
+      messageRole: message.role as 'user' | 'assistant',
+      messageContent: messageContent.substring(0, PREVIEW_LENGTH), // Truncate for display
+      messageTimestamp: message.timestamp,
+      matchCount: match.count,
+      contextBefore: messageContent.substring(contextStart, match.index).trim(),
+      contextAfter: messageContent.substring(matchEnd, contextEnd).trim(),
+      matchText: messageContent.substring(match.index, matchEnd)
+    }
+  }
 
-      return results
+  private readConversationFile(conversationsDir: string, conversationId: string): ConversationFile | null {
+    const filePath = join(conversationsDir, `${conversationId}.json`)
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8')) as ConversationFile
     } catch (err) {
-      console.error(`Failed to search file ${filePath}:`, err)
-      return []
+      console.error(`Failed to read conversation file ${filePath}:`, err)
+      return null
+    }
+  }
+
+  /**
+   * Keep spaces whose id or name contains one of the `space:` filter values
+   */
+  private filterTargetsBySpace(targets: SearchTarget[], spaceFilters: string[]): SearchTarget[] {
+    if (spaceFilters.length === 0) {
+      return targets
     }
+    return targets.filter(target => spaceFilters.some(filter =>
+      target.spaceId.toLowerCase() === filter || target.spaceName.toLowerCase().includes(filter)
+    ))
   }
 
   /**
-   * Get files to search based on scope
+   * Get spaces (and their conversation directories) to search based on scope
    */
-  private getFilesToSearch(
+  private getSearchTargets(
     scope: 'conversation' | 'space' | 'global',
     conversationId?: string,
     spaceId?: string
-  ): string[] {
-    const files: string[] = []
-
+  ): SearchTarget[] {
     if (scope === 'conversation' && conversationId) {
-      // Search single conversation
-      const file = this.findConversationFile(conversationId, spaceId)
-      return file ? [file] : []
+      // Search single conversation, in its own space
+      const target = spaceId ? this.getSpaceTarget(spaceId) : null
+      if (target && existsSync(join(target.conversationsDir, `${conversationId}.json`))) {
+        return [target]
+      }
+      return this.getAllTargets().filter(candidate =>
+        existsSync(join(candidate.conversationsDir, `${conversationId}.json`))
+      ).slice(0, 1)
     }
 
     if (scope === 'space' && spaceId) {
       // Search all conversations in a space
-      if (spaceId === 'kite-temp') {
-        const tempPath = getTempSpacePath()
-        return this.scanConversationFiles(join(tempPath, 'conversations'))
-      } else {
-        try {
-          const space = getSpace(spaceId)
-          if (space) {
-            return this.scanConversationFiles(join(space.path, '.kite', 'conversations'))
-          }
-        } catch (e) {
-          console.error(`Failed to get space ${spaceId}:`, e)
-        }
-      }
-      return []
+      const target = this.getSpaceTarget(spaceId)
+      return target ? [target] : []
     }
 
     if (scope === 'global') {
       // Search all conversations across all spaces
-      // Scan temp space
-      const tempPath = getTempSpacePath()
-      const tempConvDir = join(tempPath, 'conversations')
-      if (existsSync(tempConvDir)) {
-        files.push(...this.scanConversationFiles(tempConvDir))
-      }
-
-      // Scan all regular spaces from space service
-      const spaces = listSpaces()
-      spaces.forEach((space) => {
-        try {
-          const convDir = join(space.path, '.kite', 'conversations')
-          if (existsSync(convDir)) {
-            files.push(...this.scanConversationFiles(convDir))
-          }
-        } catch (e) {
-          console.error(`Error scanning space ${space.id}:`, e)
-        }
-      })
-
-      return files
+      return this.getAllTargets()
     }
 
-    return files
+    return []
   }
 
-  /**
-   * Scan directory for conversation JSON files
-   */
-  private scanConversationFiles(dirPath: string): string[] {
-    const files: string[] = []
-
-    if (!existsSync(dirPath)) {
-      return files
+  private getSpaceTarget(spaceId: string): SearchTarget | null {
+    if (spaceId === TEMP_SPACE_ID) {
+      return {
+        spaceId,
+        spaceName: 'Kite',
+        conversationsDir: join(getTempSpacePath(), 'conversations')
+      }
     }
 
     try {
-      const entries = readdirSync(dirPath)
-      entries.forEach(entry => {
-        if (entry.endsWith('.json') && entry !== 'index.json') {
-          files.push(join(dirPath, entry))
+      const space = getSpace(spaceId)
+      if (space) {
+        return {
+          spaceId,
+          spaceName: space.name,
+          conversationsDir: join(space.path, '.kite', 'conversations')
         }
-      })
-    } catch (err) {
-      console.error(`Failed to scan directory ${dirPath}:`, err)
+      }
+    } catch (e) {
+      console.error(`Failed to get space ${spaceId}:`, e)
     }
-
-    return files
+    return null
   }
 
-  /**
-   * Find conversation file in filesystem
-   */
-  private findConversationFile(conversationId: string, spaceId?: string): string | null {
-    // If spaceId is provided, search in that space first
-    if (spaceId) {
-      if (spaceId === 'kite-temp') {
-        const tempPath = getTempSpacePath()
-        const filePath = join(tempPath, 'conversations', `${conversationId}.json`)
-        if (existsSync(filePath)) {
-          return filePath
-        }
-      } else {
-        try {
-          const space = getSpace(spaceId)
-          if (space) {
-            const filePath = join(space.path, '.kite', 'conversations', `${conversationId}.json`)
-            if (existsSync(filePath)) {
-              return filePath
-            }
-          }
-        } catch (e) {
-          console.error(`Failed to find conversation in space ${spaceId}:`, e)
-        }
-      }
-    }
+  private getAllTargets(): SearchTarget[] {
+    const targets: SearchTarget[] = []
 
-    // Fallback: search in all spaces
-    // Search temp space
-    const tempPath = getTempSpacePath()
-    let filePath = join(tempPath, 'conversations', `${conversationId}.json`)
-    if (existsSync(filePath)) {
-      return filePath
+    // Temp space
+    const tempTarget = this.getSpaceTarget(TEMP_SPACE_ID)
+    if (tempTarget && existsSync(tempTarget.conversationsDir)) {
+      targets.push(tempTarget)
     }
 
-    // Search regular spaces from space service
-    const spaces = listSpaces()
-    for (const space of spaces) {
-      try {
-        filePath = join(space.path, '.kite', 'conversations', `${conversationId}.json`)
-        if (existsSync(filePath)) {
-          return filePath
-        }
-      } catch (e) {
-        // Continue searching
+    // All regular spaces from space service
+    listSpaces().forEach((space) => {
+      const convDir = join(space.path, '.kite', 'conversations')
+      if (existsSync(convDir)) {
+        targets.push({ spaceId: space.id, spaceName: space.name, conversationsDir: convDir })
       }
-    }
+    })
 
-    return null
+    return targets
   }
 }
 
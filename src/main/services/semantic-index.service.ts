@@ -0,0 +1,407 @@
+/**
+ * Semantic Index Service - Per-space embedding index of messages and artifacts
+ *
+ * Conversation messages and text artifacts are split into chunks, embedded
+ * with the configured provider (embedding.service) and stored in the space's
+ * `.kite/semantic-index.json`. Sources are re-embedded only when their file
+ * mtime changes; switching providers rebuilds the index, since vectors from
+ * different models are not comparable.
+ *
+ * Refreshing happens right before a query, so nothing is embedded (or sent
+ * to a remote endpoint) unless semantic search is actually used.
+ */
+
+import { join } from 'path'
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs'
+import { getConfig, getTempSpacePath } from './config.service'
+import { getSpace } from './space.service'
+import { listArtifacts, readArtifactContent } from './artifact.service'
+import { resolveEmbeddingProvider, type EmbeddingProvider } from './embedding.service'
+import {
+  DEFAULT_SEMANTIC_SEARCH_CONFIG,
+  type SemanticSearchHit,
+  type SemanticSourceKind
+} from '../../shared/types/semantic-search'
+
+const INDEX_VERSION = 1
+const TEMP_SPACE_ID = 'kite-temp'
+const CHUNK_SIZE = 1000
+const CHUNK_OVERLAP = 150
+const EMBED_BATCH_SIZE = 32
+const MAX_ARTIFACT_BYTES = 256 * 1024
+const TEXT_ARTIFACT_EXTENSIONS = new Set([
+  'md', 'markdown', 'txt', 'csv', 'json', 'yaml', 'yml', 'toml', 'xml', 'html', 'htm', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'go', 'rs', 'java', 'rb', 'php', 'c', 'cpp', 'h', 'sh', 'sql', 'log'
+])
+
+interface StoredChunk {
+  text: string
+  /** Base64 of the normalized Float32 vector */
+  vector: string
+  messageId?: string
+  messageRole?: 'user' | 'assistant'
+  timestamp?: string
+}
+
+interface StoredSource {
+  kind: SemanticSourceKind
+  mtimeMs: number
+  /** Conversation title or artifact file name */
+  title: string
+  conversationId?: string
+  artifactPath?: string
+  chunks: StoredChunk[]
+}
+
+interface PersistedSemanticIndex {
+  version: number
+  providerId: string
+  sources: Record<string, StoredSource>
+}
+
+interface LoadedChunk extends Omit<StoredChunk, 'vector'> {
+  vector: Float32Array
+}
+
+interface LoadedSource extends Omit<StoredSource, 'chunks'> {
+  chunks: LoadedChunk[]
+}
+
+interface LoadedSemanticIndex {
+  providerId: string
+  sources: Map<string, LoadedSource>
+}
+
+interface PendingSource {
+  key: string
+  mtimeMs: number
+  load: () => { title: string; kind: SemanticSourceKind; conversationId?: string; artifactPath?: string; pieces: Array<Omit<StoredChunk, 'vector'>> }
+}
+
+interface SpaceLocation {
+  spaceName: string
+  conversationsDir: string
+  indexPath: string
+}
+
+export interface SemanticSearchOptions {
+  spaceIds: string[]
+  limit?: number
+  kinds?: SemanticSourceKind[]
+  /** Restrict message hits to one conversation */
+  conversationId?: string
+  onProgress?: (current: number, total: number) => void
+  isCancelled?: () => boolean
+}
+
+const loadedIndexes = new Map<string, LoadedSemanticIndex>()
+const pendingRefreshes = new Map<string, Promise<void>>()
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64')
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength))
+}
+
+function resolveSpaceLocation(spaceId: string): SpaceLocation | null {
+  if (spaceId === TEMP_SPACE_ID) {
+    const tempPath = getTempSpacePath()
+    return {
+      spaceName: 'Kite',
+      conversationsDir: join(tempPath, 'conversations'),
+      indexPath: join(tempPath, 'semantic-index.json')
+    }
+  }
+  const space = getSpace(spaceId)
+  if (!space) return null
+  return {
+    spaceName: space.name,
+    conversationsDir: join(space.path, '.kite', 'conversations'),
+    indexPath: join(space.path, '.kite', 'semantic-index.json')
+  }
+}
+
+/**
+ * Split text into overlapping chunks, preferring paragraph boundaries
+ */
+export function chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim()
+  if (!normalized) return []
+  if (normalized.length <= size) return [normalized]
+
+  const chunks: string[] = []
+  let start = 0
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length)
+    if (end < normalized.length) {
+      const paragraphBreak = normalized.lastIndexOf('\n\n', end)
+      const sentenceBreak = normalized.lastIndexOf('. ', end)
+      const breakAt = paragraphBreak > start + size / 2 ? paragraphBreak : sentenceBreak > start + size / 2 ? sentenceBreak + 1 : end
+      end = breakAt
+    }
+    chunks.push(normalized.slice(start, end).trim())
+    if (end >= normalized.length) break
+    start = Math.max(end - overlap, start + 1)
+  }
+  return chunks.filter(Boolean)
+}
+
+function loadIndex(spaceId: string, location: SpaceLocation, providerId: string): LoadedSemanticIndex {
+  const cached = loadedIndexes.get(spaceId)
+  if (cached && cached.providerId === providerId) return cached
+
+  const index: LoadedSemanticIndex = { providerId, sources: new Map() }
+  loadedIndexes.set(spaceId, index)
+  if (!existsSync(location.indexPath)) return index
+
+  try {
+    const persisted = JSON.parse(readFileSync(location.indexPath, 'utf-8')) as PersistedSemanticIndex
+    if (persisted.version !== INDEX_VERSION || persisted.providerId !== providerId) {
+      console.log(`[SemanticIndex] Embedding provider changed for ${spaceId}, rebuilding`)
+      return index
+    }
+    for (const [key, source] of Object.entries(persisted.sources)) {
+      index.sources.set(key, {
+        ...source,
+        chunks: source.chunks.map(chunk => ({ ...chunk, vector: decodeVector(chunk.vector) }))
+      })
+    }
+  } catch (error) {
+    console.error(`[SemanticIndex] Failed to load index for ${spaceId}, rebuilding:`, error)
+  }
+  return index
+}
+
+function saveIndex(location: SpaceLocation, index: LoadedSemanticIndex): void {
+  const persisted: PersistedSemanticIndex = {
+    version: INDEX_VERSION,
+    providerId: index.providerId,
+    sources: {}
+  }
+  for (const [key, source] of Array.from(index.sources.entries())) {
+    persisted.sources[key] = {
+      ...source,
+      chunks: source.chunks.map(chunk => ({ ...chunk, vector: encodeVector(chunk.vector) }))
+    }
+  }
+
+  const tmpPath = `${location.indexPath}.${process.pid}.tmp`
+  try {
+    mkdirSync(join(location.indexPath, '..'), { recursive: true })
+    writeFileSync(tmpPath, JSON.stringify(persisted))
+    renameSync(tmpPath, location.indexPath)
+  } catch (error) {
+    console.error('[SemanticIndex] Failed to save index:', error)
+    rmSync(tmpPath, { force: true })
+  }
+}
+
+function collectConversationSources(conversationsDir: string): PendingSource[] {
+  if (!existsSync(conversationsDir)) return []
+  return readdirSync(conversationsDir)
+    .filter(file => file.endsWith('.json') && file !== 'index.json')
+    .map((file) => {
+      const filePath = join(conversationsDir, file)
+      const conversationId = file.slice(0, -'.json'.length)
+      return {
+        key: `conversation:${conversationId}`,
+        mtimeMs: statSync(filePath).mtimeMs,
+        load: () => {
+          const data = JSON.parse(readFileSync(filePath, 'utf-8')) as {
+            title?: string
+            messages?: Array<{ id: string; role: string; content?: string; timestamp?: string }>
+          }
+          const pieces: Array<Omit<StoredChunk, 'vector'>> = []
+          for (const message of data.messages || []) {
+            if (message.role !== 'user' && message.role !== 'assistant') continue
+            for (const text of chunkText(message.content || '')) {
+              pieces.push({ text, messageId: message.id, messageRole: message.role, timestamp: message.timestamp })
+            }
+          }
+          return { kind: 'message', title: data.title || conversationId, conversationId, pieces }
+        }
+      }
+    })
+}
+
+function collectArtifactSources(spaceId: string): PendingSource[] {
+  return listArtifacts(spaceId)
+    .filter(artifact =>
+      artifact.type === 'file' &&
+      TEXT_ARTIFACT_EXTENSIONS.has(artifact.extension.toLowerCase()) &&
+      (artifact.size ?? 0) <= MAX_ARTIFACT_BYTES
+    )
+    .map(artifact => ({
+      key: `artifact:${artifact.path}`,
+      mtimeMs: statSync(artifact.path).mtimeMs,
+      load: () => ({
+        kind: 'artifact',
+        title: artifact.name,
+        artifactPath: artifact.path,
+        pieces: chunkText(readArtifactContent(artifact.path).content).map(text => ({ text }))
+      })
+    }))
+}
+
+async function embedInBatches(provider: EmbeddingProvider, texts: string[]): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = []
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await provider.embed(texts.slice(i, i + EMBED_BATCH_SIZE)))
+  }
+  return vectors
+}
+
+async function refreshSpace(
+  spaceId: string,
+  location: SpaceLocation,
+  provider: EmbeddingProvider,
+  options: Pick<SemanticSearchOptions, 'onProgress' | 'isCancelled'>
+): Promise<void> {
+  const index = loadIndex(spaceId, location, provider.id)
+  const sources = [...collectConversationSources(location.conversationsDir), ...collectArtifactSources(spaceId)]
+  const present = new Set(sources.map(source => source.key))
+
+  let changed = false
+  for (const key of Array.from(index.sources.keys())) {
+    if (!present.has(key)) {
+      index.sources.delete(key)
+      changed = true
+    }
+  }
+
+  const stale = sources.filter(source => index.sources.get(source.key)?.mtimeMs !== source.mtimeMs)
+  try {
+    for (let i = 0; i < stale.length; i++) {
+      if (options.isCancelled?.()) break
+      const source = stale[i]
+      let loaded: ReturnType<PendingSource['load']>
+      try {
+        loaded = source.load()
+      } catch (error) {
+        console.error(`[SemanticIndex] Skipping unreadable ${source.key}:`, error)
+        continue
+      }
+      // Provider errors affect every source, so they end the refresh
+      const { pieces, ...meta } = loaded
+      const vectors = await embedInBatches(provider, pieces.map(piece => piece.text))
+      index.sources.set(source.key, {
+        ...meta,
+        mtimeMs: source.mtimeMs,
+        chunks: pieces.map((piece, position) => ({ ...piece, vector: vectors[position] }))
+      })
+      changed = true
+      options.onProgress?.(i + 1, stale.length)
+    }
+  } finally {
+    if (changed) saveIndex(location, index)
+  }
+}
+
+/**
+ * Re-embed sources in the space that changed since they were last indexed
+ */
+export async function refreshSemanticIndex(
+  spaceId: string,
+  provider: EmbeddingProvider,
+  options: Pick<SemanticSearchOptions, 'onProgress' | 'isCancelled'> = {}
+): Promise<void> {
+  const location = resolveSpaceLocation(spaceId)
+  if (!location) return
+
+  const pending = pendingRefreshes.get(spaceId)
+  if (pending) {
+    await pending.catch(() => undefined)
+  }
+  const refresh = refreshSpace(spaceId, location, provider, options)
+  pendingRefreshes.set(spaceId, refresh)
+  try {
+    await refresh
+  } finally {
+    if (pendingRefreshes.get(spaceId) === refresh) pendingRefreshes.delete(spaceId)
+  }
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  // Vectors are normalized on the way in
+  const length = Math.min(a.length, b.length)
+  let dot = 0
+  for (let i = 0; i < length; i++) dot += a[i] * b[i]
+  return dot
+}
+
+/**
+ * Closest chunks to the query across the given spaces; one hit per message
+ * or artifact (its best chunk).
+ */
+export async function querySemanticIndex(
+  query: string,
+  provider: EmbeddingProvider,
+  options: SemanticSearchOptions
+): Promise<SemanticSearchHit[]> {
+  const [queryVector] = await provider.embed([query])
+  if (!queryVector) return []
+
+  const best = new Map<string, SemanticSearchHit>()
+  for (const spaceId of options.spaceIds) {
+    const location = resolveSpaceLocation(spaceId)
+    if (!location) continue
+    const index = loadIndex(spaceId, location, provider.id)
+    for (const [key, source] of Array.from(index.sources.entries())) {
+      if (options.kinds && !options.kinds.includes(source.kind)) continue
+      if (options.conversationId && source.conversationId !== options.conversationId) continue
+      for (const chunk of source.chunks) {
+        const score = cosine(queryVector, chunk.vector)
+        const hitKey = `${spaceId}/${key}/${chunk.messageId || ''}`
+        const existing = best.get(hitKey)
+        if (existing && existing.score >= score) continue
+        best.set(hitKey, {
+          kind: source.kind,
+          spaceId,
+          spaceName: location.spaceName,
+          text: chunk.text,
+          score,
+          ...(source.kind === 'message'
+            ? {
+                conversationId: source.conversationId,
+                conversationTitle: source.title,
+                messageId: chunk.messageId,
+                messageRole: chunk.messageRole,
+                timestamp: chunk.timestamp
+              }
+            : { artifactPath: source.artifactPath, artifactName: source.title })
+        })
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 20)
+}
+
+/**
+ * Refresh and query the semantic index with the configured provider
+ */
+export async function semanticSearch(query: string, options: SemanticSearchOptions): Promise<SemanticSearchHit[]> {
+  const config = getConfig()
+  const settings = config.semanticSearch || DEFAULT_SEMANTIC_SEARCH_CONFIG
+  if (!settings.enabled) {
+    throw new Error('Semantic search is turned off. Enable it in Settings > Search.')
+  }
+  if (!query.trim()) return []
+
+  const provider = resolveEmbeddingProvider(settings, config.ai.profiles)
+  for (const spaceId of options.spaceIds) {
+    await refreshSemanticIndex(spaceId, provider, options)
+    if (options.isCancelled?.()) return []
+  }
+  return querySemanticIndex(query, provider, options)
+}
+
+export function _testResetSemanticIndex(): void {
+  loadedIndexes.clear()
+  pendingRefreshes.clear()
+}
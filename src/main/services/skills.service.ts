@@ -18,7 +18,7 @@ import { getSpaceConfig } from './space-config.service'
 import { listEnabledPlugins } from './plugins.service'
 import { getAllSpacePaths } from './space.service'
 import { resolveResourceRuntimePolicy } from './resource-runtime-policy.service'
-import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult } from './resource-ref.service'
+import type { ResourceRef, CopyToSpaceOptions, CopyToSpaceResult, ResourceFileByRef } from './resource-ref.service'
 import { isPathWithinBasePaths, isValidDirectoryPath, isFileNotFoundError } from '../utils/path-validation'
 import { FileCache } from '../utils/file-cache'
 import {
@@ -30,6 +30,13 @@ import {
 import { resolveResourceDisplayOverride } from './resource-display-i18n.service'
 import type { ResourceListView, ResourceExposure } from '../../shared/resource-access'
 import { filterByResourceExposure, resolveResourceExposure } from './resource-exposure.service'
+import type { SopParameter } from '../../shared/types/sop'
+import {
+  normalizeSopParameters,
+  parseSopSpecBlock,
+  SOP_SPEC_BEGIN_MARKER,
+  SOP_SPEC_END_MARKER
+} from '../../shared/utils/sop-parameters'
 
 // ============================================
 // Skill Types
@@ -90,6 +97,7 @@ export interface SopSpec {
   version: string
   name: string
   steps: SopRecordedStep[]
+  parameters?: SopParameter[]
   meta?: Record<string, unknown>
 }
 
@@ -113,8 +121,6 @@ const globalSkillsCacheByLocale = new Map<string, SkillDefinition[]>()
 const spaceSkillsCacheByLocale = new Map<string, Map<string, SkillDefinition[]>>()
 const contentCache = new FileCache<string>({ maxSize: 200 })
 const listLogSignatureCache = new Map<string, string>()
-const SOP_SPEC_BEGIN_MARKER = '## SOP_SPEC_JSON_BEGIN'
-const SOP_SPEC_END_MARKER = '## SOP_SPEC_JSON_END'
 
 // ============================================
 // Helpers
@@ -252,6 +258,14 @@ function buildSopSpecJsonBlock(spec: SopSpec): string {
   ].join('\n')
 }
 
+/**
+ * Read the SOP spec embedded in a recorded SOP skill, if any
+ */
+export function extractSopSpec(content: string): SopSpec | null {
+  const spec = parseSopSpecBlock(content)
+  return spec && Array.isArray(spec.steps) ? spec as unknown as SopSpec : null
+}
+
 function replaceSopSpecJsonBlock(content: string, block: string): string {
   const blockRegex = new RegExp(
     `${SOP_SPEC_BEGIN_MARKER}[\\s\\S]*?${SOP_SPEC_END_MARKER}`,
@@ -263,20 +277,34 @@ function replaceSopSpecJsonBlock(content: string, block: string): string {
   return content.replace(blockRegex, block)
 }
 
+// The parameters section sits right before the spec block, so it can be
+// regenerated without touching hand-written instructions above it
+function replaceSopParametersSection(content: string, section: string[]): string {
+  const sectionRegex = new RegExp(`## Parameters\\n[\\s\\S]*?(?=${SOP_SPEC_BEGIN_MARKER})`, 'm')
+  const nextSection = section.length > 0 ? `${section.join('\n')}\n` : ''
+  if (sectionRegex.test(content)) {
+    return content.replace(sectionRegex, nextSection)
+  }
+  return nextSection ? content.replace(SOP_SPEC_BEGIN_MARKER, `${nextSection}${SOP_SPEC_BEGIN_MARKER}`) : content
+}
+
 function normalizeSopSpec(spec: SopSpec, name: string, revision: number): SopSpec {
+  const steps = Array.isArray(spec.steps)
+    ? spec.steps.map((step, idx) => ({
+      id: typeof step.id === 'string' && step.id.trim().length > 0 ? step.id : `step-${idx + 1}`,
+      action: step.action,
+      target: step.target,
+      value: step.value,
+      assertion: step.assertion,
+      retries: Number.isFinite(step.retries) && step.retries > 0 ? step.retries : 3,
+    }))
+    : []
+  const parameters = normalizeSopParameters(spec.parameters, steps)
   return {
     ...spec,
     name: spec.name || name,
-    steps: Array.isArray(spec.steps)
-      ? spec.steps.map((step, idx) => ({
-        id: typeof step.id === 'string' && step.id.trim().length > 0 ? step.id : `step-${idx + 1}`,
-        action: step.action,
-        target: step.target,
-        value: step.value,
-        assertion: step.assertion,
-        retries: Number.isFinite(step.retries) && step.retries > 0 ? step.retries : 3,
-      }))
-      : [],
+    steps,
+    parameters: parameters.length > 0 ? parameters : undefined,
     meta: {
       ...(spec.meta || {}),
       sop_mode: 'manual_browser',
@@ -314,6 +342,25 @@ function extractSopRevision(frontmatter: Record<string, unknown> | null | undefi
   return Math.floor(parsed)
 }
 
+function buildSopParametersSection(skillName: string, parameters: SopParameter[]): string[] {
+  if (parameters.length === 0) return []
+  const example = parameters.map((parameter) => `${parameter.name}="..."`).join(' ')
+  return [
+    '## Parameters',
+    `Values are passed after the skill name, e.g. \`/${skillName} ${example}\`.`,
+    'Replace `{{name}}` in step values with the matching value. Use the default when a value is omitted; if a parameter without a default is missing, ask the user for it before the first step.',
+    'Never repeat secret values in your replies.',
+    '',
+    ...parameters.map((parameter) => {
+      const details = [parameter.type, parameter.secret ? 'secret' : ''].filter(Boolean).join(', ')
+      const label = parameter.label ? ` - ${parameter.label}` : ''
+      const defaultValue = parameter.default ? ` (default: \`${parameter.default}\`)` : ''
+      return `- \`${parameter.name}\` (${details})${label}${defaultValue}`
+    }),
+    '',
+  ]
+}
+
 function buildSopSkillContent(
   skillName: string,
   description: string | undefined,
@@ -344,6 +391,7 @@ function buildSopSkillContent(
     '4. Maximum retries per step: 3.',
     '5. If semantic match confidence is low, stop and report the failed step.',
     '',
+    ...buildSopParametersSection(skillName, normalizedSpec.parameters || []),
     block,
     '',
   ]
@@ -876,7 +924,10 @@ export function saveSopSkill(input: SaveSopSkillInput): SaveSopSkillResult {
   if (existingContent) {
     const replaced = replaceSopSpecJsonBlock(existingContent, nextBlock)
     if (replaced) {
-      nextContent = replaced
+      nextContent = replaceSopParametersSection(
+        replaced,
+        buildSopParametersSection(skillName, normalizedSpec.parameters || [])
+      )
       nextContent = upsertFrontmatterField(nextContent, 'name', skillName)
       nextContent = upsertFrontmatterField(
         nextContent,
@@ -1023,6 +1074,20 @@ export function copySkillToSpaceByRef(
   }
 }
 
+/**
+ * Resolve a skill by ref and read its raw file (used to bundle workflows for export)
+ */
+export function readSkillByRef(ref: ResourceRef, workDir: string): ResourceFileByRef<SkillDefinition> | null {
+  const sourceSkill = findSkillByRef(listSkillsForRefLookup(workDir), ref)
+  if (!sourceSkill) return null
+  try {
+    return { definition: sourceSkill, content: readFileSync(join(sourceSkill.path, 'SKILL.md'), 'utf-8') }
+  } catch (error) {
+    console.warn(`[Skills] Failed to read skill ${ref.name}:`, error)
+    return null
+  }
+}
+
 /**
  * Clear skills cache
  */
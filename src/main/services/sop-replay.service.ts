@@ -0,0 +1,493 @@
+/**
+ * SOP Replay Service - Replays recorded browser SOPs without the model
+ *
+ * Each step's semantic target is resolved against a fresh accessibility
+ * snapshot and executed directly through CDP. Steps honour `retries` and
+ * `assertion`, and every step reports pass/fail with a screenshot. When a
+ * target can't be resolved the replay stops and hands the remaining steps to
+ * the agent instead of guessing.
+ */
+
+import { browserViewManager, type SemanticTarget, type SopRecordedStep, type SopSpec } from './browser-view.service'
+import { BrowserContext, browserContext } from './ai-browser/context'
+import { focusElement } from './ai-browser/snapshot'
+import type { AccessibilityNode, AccessibilitySnapshot } from './ai-browser/types'
+import { resolveSopParameterValues } from '../../shared/utils/sop-parameters'
+
+// ============================================
+// Types
+// ============================================
+
+export type SopReplayStepStatus = 'passed' | 'failed' | 'unresolved' | 'skipped'
+export type SopReplayStatus = 'passed' | 'failed' | 'needs_agent' | 'cancelled'
+
+export interface SopReplayStepResult {
+  stepId: string
+  index: number
+  action: SopRecordedStep['action']
+  status: SopReplayStepStatus
+  attempts: number
+  durationMs: number
+  error?: string
+  /** Accessible role/name of the element the target resolved to */
+  resolvedTo?: string
+  /** data: URL (JPEG) taken after the step */
+  screenshot?: string
+}
+
+export interface SopReplayResult {
+  viewId: string
+  sopName: string
+  status: SopReplayStatus
+  steps: SopReplayStepResult[]
+  /** Index of the step the agent should continue from (status `needs_agent`) */
+  handoffIndex?: number
+  /** Prompt asking the agent to finish the SOP (status `needs_agent`) */
+  handoffPrompt?: string
+  startedAt: string
+  finishedAt: string
+}
+
+export interface SopReplayOptions {
+  /** Parameter values for `{{name}}` tokens in step values; declared defaults fill the rest */
+  variables?: Record<string, string>
+  signal?: AbortSignal
+  onStep?: (result: SopReplayStepResult) => void
+}
+
+/**
+ * Browser operations the replay engine needs (CDP-backed in the app)
+ */
+export interface SopReplayDriver {
+  snapshot(): Promise<AccessibilitySnapshot>
+  navigate(url: string): Promise<void>
+  click(node: AccessibilityNode): Promise<void>
+  fill(node: AccessibilityNode, value: string): Promise<void>
+  select(node: AccessibilityNode, value: string): Promise<void>
+  focus(node: AccessibilityNode): Promise<void>
+  pressKey(key: string): Promise<void>
+  currentUrl(): string
+  screenshot(): Promise<string | undefined>
+}
+
+class StepError extends Error {
+  constructor(message: string, readonly unresolved = false) {
+    super(message)
+  }
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const RETRY_DELAY_MS = 500
+const WAIT_TIMEOUT_MS = 10_000
+const ASSERTION_TIMEOUT_MS = 5_000
+const POLL_INTERVAL_MS = 250
+// Scores below this are treated as "no confident match"
+const MIN_MATCH_SCORE = 60
+const PLACEHOLDER_RE = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option', 'checkbox',
+  'radio', 'switch', 'slider', 'spinbutton', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'tab', 'treeitem', 'gridcell'
+])
+
+// Recorded roles come from the DOM; accessibility roles are sometimes more specific
+const ROLE_ALIASES: Record<string, string[]> = {
+  textbox: ['textbox', 'searchbox', 'spinbutton', 'combobox'],
+  combobox: ['combobox', 'listbox'],
+  button: ['button', 'menuitem', 'tab'],
+  link: ['link']
+}
+
+// ============================================
+// Target resolution
+// ============================================
+
+function normalize(value: string | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function rolesMatch(recordedRole: string, nodeRole: string): boolean {
+  const aliases = ROLE_ALIASES[recordedRole] || [recordedRole]
+  return aliases.includes(nodeRole)
+}
+
+function flattenSnapshot(snapshot: AccessibilitySnapshot): AccessibilityNode[] {
+  const nodes: AccessibilityNode[] = []
+  const visit = (node: AccessibilityNode) => {
+    nodes.push(node)
+    node.children.forEach(visit)
+  }
+  visit(snapshot.root)
+  return nodes
+}
+
+function scoreText(nodeName: string, signal: string | undefined, weight: number): number {
+  const wanted = normalize(signal)
+  if (!wanted || !nodeName) return 0
+  if (nodeName === wanted) return weight
+  if (wanted.length >= 3 && (nodeName.includes(wanted) || wanted.includes(nodeName))) {
+    return Math.round(weight * 0.6)
+  }
+  return 0
+}
+
+function scoreNode(node: AccessibilityNode, target: SemanticTarget): number {
+  if (node.disabled) return 0
+  const nodeName = normalize(node.name)
+  const recordedRole = normalize(target.role)
+  // Recorded text of a text field is whatever was typed, not a stable identifier
+  const isTextField = recordedRole === 'textbox' || node.role === 'textbox' || node.role === 'searchbox'
+
+  let score = Math.max(
+    scoreText(nodeName, target.label, 100),
+    scoreText(nodeName, target.name, 90),
+    scoreText(nodeName, target.placeholder, 85),
+    isTextField ? 0 : scoreText(nodeName, target.text, 80)
+  )
+  if (score === 0) return 0
+
+  if (recordedRole) {
+    if (rolesMatch(recordedRole, node.role)) {
+      score += 10
+    } else if (!INTERACTIVE_ROLES.has(node.role)) {
+      return 0
+    } else {
+      score -= 30
+    }
+  }
+  return score
+}
+
+/**
+ * Find the element a recorded semantic target refers to.
+ * Returns null when no element matches with enough confidence.
+ */
+export function resolveSopTarget(
+  snapshot: AccessibilitySnapshot,
+  target: SemanticTarget | undefined
+): AccessibilityNode | null {
+  if (!target) return null
+  let best: AccessibilityNode | null = null
+  let bestScore = 0
+  for (const node of flattenSnapshot(snapshot)) {
+    const score = scoreNode(node, target)
+    // Ties keep the first element in document order
+    if (score > bestScore) {
+      best = node
+      bestScore = score
+    }
+  }
+  return bestScore >= MIN_MATCH_SCORE ? best : null
+}
+
+/**
+ * Fill `{{name}}` tokens in a step value; returns the names that had no value
+ */
+export function applySopVariables(
+  value: string | undefined,
+  variables: Record<string, string> = {}
+): { value: string | undefined; missing: string[] } {
+  if (value === undefined) return { value, missing: [] }
+  const missing: string[] = []
+  const replaced = value.replace(PLACEHOLDER_RE, (token, name: string) => {
+    if (typeof variables[name] === 'string') return variables[name]
+    missing.push(name)
+    return token
+  })
+  return { value: replaced, missing }
+}
+
+function describeTarget(target: SemanticTarget | undefined): string {
+  if (!target) return 'page'
+  return target.label || target.name || target.placeholder || target.text || target.urlPattern || target.role || 'element'
+}
+
+function describeNode(node: AccessibilityNode): string {
+  return node.name ? `${node.role} "${node.name}"` : node.role
+}
+
+// ============================================
+// Replay engine
+// ============================================
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+async function pollUntil(check: () => Promise<boolean>, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (!signal?.aborted) {
+    if (await check()) return true
+    if (Date.now() >= deadline) return false
+    await sleep(POLL_INTERVAL_MS, signal)
+  }
+  return false
+}
+
+async function pageContains(driver: SopReplayDriver, text: string): Promise<boolean> {
+  const wanted = normalize(text)
+  if (normalize(driver.currentUrl()).includes(wanted)) return true
+  const snapshot = await driver.snapshot()
+  return normalize(snapshot.format()).includes(wanted)
+}
+
+async function resolveOrThrow(driver: SopReplayDriver, step: SopRecordedStep): Promise<AccessibilityNode> {
+  const node = resolveSopTarget(await driver.snapshot(), step.target)
+  if (!node) {
+    throw new StepError(`Could not find ${step.action} target "${describeTarget(step.target)}"`, true)
+  }
+  return node
+}
+
+async function executeStep(
+  driver: SopReplayDriver,
+  step: SopRecordedStep,
+  value: string | undefined,
+  signal?: AbortSignal
+): Promise<AccessibilityNode | undefined> {
+  switch (step.action) {
+    case 'navigate': {
+      const url = value || step.target?.urlPattern
+      if (!url) throw new StepError('Navigate step has no URL')
+      await driver.navigate(url)
+      return undefined
+    }
+    case 'click': {
+      const node = await resolveOrThrow(driver, step)
+      await driver.click(node)
+      return node
+    }
+    case 'fill': {
+      const node = await resolveOrThrow(driver, step)
+      await driver.fill(node, value || '')
+      return node
+    }
+    case 'select': {
+      if (!value) throw new StepError('Select step has no option value')
+      const node = await resolveOrThrow(driver, step)
+      await driver.select(node, value)
+      return node
+    }
+    case 'press_key': {
+      // Submit-style key presses often target a form with no accessible name;
+      // pressing on the focused element is what the recording did
+      const node = step.target ? resolveSopTarget(await driver.snapshot(), step.target) : null
+      if (node) await driver.focus(node)
+      await driver.pressKey(value || 'Enter')
+      return node || undefined
+    }
+    case 'wait_for': {
+      let found: AccessibilityNode | null = null
+      const ok = await pollUntil(async () => {
+        if (step.target) {
+          found = resolveSopTarget(await driver.snapshot(), step.target)
+          return !!found
+        }
+        return !!value && pageContains(driver, value)
+      }, WAIT_TIMEOUT_MS, signal)
+      if (!ok) {
+        throw new StepError(`Timed out waiting for "${step.target ? describeTarget(step.target) : value}"`, !!step.target)
+      }
+      return found || undefined
+    }
+    default:
+      throw new StepError(`Unsupported step action: ${String(step.action)}`)
+  }
+}
+
+/**
+ * Prompt that asks the agent to finish an SOP from the step replay could not resolve
+ */
+export function buildSopHandoffPrompt(spec: SopSpec, result: SopReplayStepResult): string {
+  const remaining = spec.steps.slice(result.index)
+  return [
+    `I was replaying the recorded browser SOP "${spec.name}" in the open browser tab.`,
+    `Steps 1-${result.index} completed. Step ${result.index + 1} (${result.action}) failed: ${result.error || 'target not found'}.`,
+    'Take a snapshot of the current page, find the intended element, and finish the remaining steps below. Stop and ask me if anything is uncertain.',
+    '',
+    '```json',
+    JSON.stringify(remaining, null, 2),
+    '```'
+  ].join('\n')
+}
+
+/**
+ * Replay an SOP with the given driver
+ */
+export async function runSopReplay(
+  viewId: string,
+  spec: SopSpec,
+  driver: SopReplayDriver,
+  options: SopReplayOptions = {}
+): Promise<SopReplayResult> {
+  const { signal, onStep } = options
+  // Declared parameter defaults fill in values the caller didn't provide
+  const { values: variables } = resolveSopParameterValues(spec.parameters || [], options.variables)
+  const startedAt = new Date().toISOString()
+  const results: SopReplayStepResult[] = []
+  let status: SopReplayStatus = 'passed'
+  let handoff: SopReplayStepResult | undefined
+
+  for (let index = 0; index < spec.steps.length; index++) {
+    const step = spec.steps[index]
+    const base = { stepId: step.id, index, action: step.action }
+
+    if (status !== 'passed') {
+      results.push({ ...base, status: 'skipped', attempts: 0, durationMs: 0 })
+      continue
+    }
+
+    const stepStarted = Date.now()
+    const { value, missing } = applySopVariables(step.value, variables)
+    const maxAttempts = Number.isFinite(step.retries) && step.retries > 0 ? Math.floor(step.retries) : 1
+    let attempts = 0
+    let error: StepError | undefined
+    let resolved: AccessibilityNode | undefined
+
+    if (missing.length > 0) {
+      error = new StepError(`Missing value for ${missing.map(name => `{{${name}}}`).join(', ')}`, true)
+    } else {
+      while (attempts < maxAttempts && !signal?.aborted) {
+        attempts++
+        try {
+          resolved = await executeStep(driver, step, value, signal)
+          if (step.assertion && !(await pollUntil(() => pageContains(driver, step.assertion!), ASSERTION_TIMEOUT_MS, signal))) {
+            throw new StepError(`Assertion failed: "${step.assertion}" not found on page`)
+          }
+          error = undefined
+          break
+        } catch (err) {
+          error = err instanceof StepError ? err : new StepError((err as Error).message)
+          if (attempts < maxAttempts) await sleep(RETRY_DELAY_MS, signal)
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      status = 'cancelled'
+      results.push({ ...base, status: 'skipped', attempts, durationMs: Date.now() - stepStarted })
+      continue
+    }
+
+    const result: SopReplayStepResult = {
+      ...base,
+      status: error ? (error.unresolved ? 'unresolved' : 'failed') : 'passed',
+      attempts,
+      durationMs: Date.now() - stepStarted,
+      ...(error ? { error: error.message } : {}),
+      ...(resolved ? { resolvedTo: describeNode(resolved) } : {}),
+      screenshot: await driver.screenshot().catch(() => undefined)
+    }
+    results.push(result)
+    onStep?.(result)
+
+    if (result.status === 'unresolved') {
+      status = 'needs_agent'
+      handoff = result
+    } else if (result.status === 'failed') {
+      status = 'failed'
+    }
+  }
+
+  return {
+    viewId,
+    sopName: spec.name,
+    status,
+    steps: results,
+    ...(handoff ? { handoffIndex: handoff.index, handoffPrompt: buildSopHandoffPrompt(spec, handoff) } : {}),
+    startedAt,
+    finishedAt: new Date().toISOString()
+  }
+}
+
+// ============================================
+// BrowserView driver
+// ============================================
+
+function createBrowserViewDriver(viewId: string, context: BrowserContext): SopReplayDriver {
+  const getWebContents = () => {
+    const webContents = browserViewManager.getWebContents(viewId)
+    if (!webContents) throw new Error(`Browser view not found: ${viewId}`)
+    return webContents
+  }
+
+  return {
+    snapshot: () => context.createSnapshot(),
+    navigate: async (url) => {
+      if (!(await browserViewManager.navigate(viewId, url))) {
+        throw new StepError(`Failed to load ${url}`)
+      }
+    },
+    click: (node) => context.clickElement(node.uid),
+    fill: (node, value) => context.fillElement(node.uid, value),
+    select: (node, value) => context.selectOption(node.uid, value),
+    focus: (node) => focusElement(getWebContents(), node.backendNodeId),
+    pressKey: (key) => context.pressKey(key),
+    currentUrl: () => getWebContents().getURL(),
+    screenshot: async () => {
+      const { data, mimeType } = await context.captureScreenshot({ format: 'jpeg', quality: 60 })
+      return `data:${mimeType};base64,${data}`
+    }
+  }
+}
+
+// viewId -> controller of the replay running in that view
+const activeReplays = new Map<string, AbortController>()
+
+/**
+ * Replay an SOP in an embedded browser view (one replay per view at a time)
+ */
+export async function replaySopInView(
+  viewId: string,
+  spec: SopSpec,
+  options: Omit<SopReplayOptions, 'signal'> = {}
+): Promise<SopReplayResult> {
+  if (!browserViewManager.getWebContents(viewId)) {
+    throw new Error(`Browser view not found: ${viewId}`)
+  }
+  if (activeReplays.has(viewId)) {
+    throw new Error('An SOP replay is already running in this browser view')
+  }
+
+  const controller = new AbortController()
+  activeReplays.set(viewId, controller)
+  // Reuse the AI Browser context when it already drives this view; otherwise a
+  // dedicated context keeps the AI Browser's active page untouched
+  const sharedContext = browserContext.getActiveViewId() === viewId
+  const context = sharedContext ? browserContext : new BrowserContext()
+  if (!sharedContext) {
+    context.setActiveViewId(viewId)
+  }
+  console.log(`[SopReplay] Replaying "${spec.name}" (${spec.steps.length} steps) in view ${viewId}`)
+
+  try {
+    const result = await runSopReplay(viewId, spec, createBrowserViewDriver(viewId, context), {
+      ...options,
+      signal: controller.signal
+    })
+    console.log(`[SopReplay] "${spec.name}" finished: ${result.status}`)
+    return result
+  } finally {
+    activeReplays.delete(viewId)
+    if (!sharedContext) {
+      context.destroy()
+    }
+  }
+}
+
+export function stopSopReplay(viewId: string): boolean {
+  const controller = activeReplays.get(viewId)
+  if (!controller) return false
+  controller.abort()
+  return true
+}
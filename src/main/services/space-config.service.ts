@@ -11,6 +11,7 @@ import type { HooksConfig, ClaudeCodeConfig } from './config.service'
 import { mergeHooksConfigs } from './hooks.service'
 import { FileCache } from '../utils/file-cache'
 import type { ResourceSource } from './resource-ref.service'
+import type { CommandRule } from '../../shared/types/command-rules'
 
 // ============================================
 // Space Configuration Types
@@ -62,10 +63,16 @@ export interface SpaceToolkit {
   agents: import('./agent/types').DirectiveRef[]
 }
 
+export interface SpacePermissionsConfig {
+  /** Remembered Bash approval answers for this space */
+  commandRules?: CommandRule[]
+}
+
 export interface SpaceConfig {
   claudeCode?: SpaceClaudeCodeConfig
   toolkit?: SpaceToolkit
   resourcePolicy?: SpaceResourcePolicy
+  permissions?: SpacePermissionsConfig
 }
 
 // File cache for space configs (mtime-based invalidation)
@@ -12,6 +12,7 @@ import { v4 as uuidv4 } from 'uuid'
 import { isPathWithinBasePaths } from '../utils/path-validation'
 import { ensureSpaceResourcePolicy } from './agent/space-resource-policy.service'
 import type { ResourceRef } from './resource-ref.service'
+import type { SpaceAiPreferences } from '../../shared/types/ai-profile'
 
 interface Space {
   id: string
@@ -52,6 +53,7 @@ interface SpacePreferences {
   layout?: SpaceLayoutPreferences
   skills?: SpaceSkillsPreferences
   agents?: SpaceAgentsPreferences
+  ai?: SpaceAiPreferences
 }
 
 interface SpaceMeta {
@@ -760,6 +762,13 @@ export function updateSpacePreferences(
       }
     }
 
+    if (preferences.ai) {
+      meta.preferences.ai = {
+        ...meta.preferences.ai,
+        ...preferences.ai
+      }
+    }
+
     meta.updatedAt = new Date().toISOString()
 
     writeFileSync(metaPath, JSON.stringify(meta, null, 2))
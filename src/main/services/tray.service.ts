@@ -3,13 +3,24 @@
  * Handles system tray icon and menu for Mac/Windows
  */
 
-import { Tray, Menu, nativeImage, app, BrowserWindow, NativeImage } from 'electron'
+import { Tray, Menu, nativeImage, app, BrowserWindow, NativeImage, type MenuItemConstructorOptions } from 'electron'
 import { join } from 'path'
 import { is } from '@electron-toolkit/utils'
 import { getInstanceId, isCustomInstance } from '../utils/instance'
 
+export interface TrayWorkflowItem {
+  label: string
+}
+
+export interface TrayWorkflowStatus {
+  running: TrayWorkflowItem[]
+  upcoming: TrayWorkflowItem[]
+}
+
 let tray: Tray | null = null
 let isQuitting = false
+let trayWindow: BrowserWindow | null = null
+let workflowStatus: TrayWorkflowStatus = { running: [], upcoming: [] }
 
 // Get the correct icon path based on platform and environment
 function getTrayIconPath(): string {
@@ -110,6 +121,7 @@ export function createTray(mainWindow: BrowserWindow | null): Tray | null {
  * Update tray context menu
  */
 export function updateTrayMenu(mainWindow: BrowserWindow | null): void {
+  trayWindow = mainWindow
   if (!tray) return
 
   const contextMenu = Menu.buildFromTemplate([
@@ -120,6 +132,7 @@ export function updateTrayMenu(mainWindow: BrowserWindow | null): void {
       }
     },
     { type: 'separator' },
+    ...buildWorkflowMenuItems(mainWindow),
     {
       label: 'Quit',
       click: () => {
@@ -132,6 +145,31 @@ export function updateTrayMenu(mainWindow: BrowserWindow | null): void {
   tray.setContextMenu(contextMenu)
 }
 
+function buildWorkflowMenuItems(mainWindow: BrowserWindow | null): MenuItemConstructorOptions[] {
+  const sections: Array<[string, TrayWorkflowItem[]]> = [
+    ['Running Workflows', workflowStatus.running],
+    ['Upcoming Workflows', workflowStatus.upcoming]
+  ]
+  const items: MenuItemConstructorOptions[] = []
+  for (const [title, entries] of sections) {
+    if (entries.length === 0) continue
+    items.push({ label: title, enabled: false })
+    for (const entry of entries) {
+      items.push({ label: `  ${entry.label}`, click: () => showMainWindow(mainWindow) })
+    }
+    items.push({ type: 'separator' })
+  }
+  return items
+}
+
+/**
+ * Replace the running/upcoming triggered workflow runs shown in the tray menu
+ */
+export function setTrayWorkflowStatus(status: TrayWorkflowStatus): void {
+  workflowStatus = status
+  updateTrayMenu(trayWindow)
+}
+
 /**
  * Show the main window
  */
@@ -0,0 +1,337 @@
+/**
+ * Workflow Bundle Service - Portable workflow export/import
+ *
+ * A bundle is a single JSON file holding the workflow definition plus the raw
+ * skill/agent/command files its steps reference, so it can be imported into a
+ * space (or another machine) that does not have those resources yet.
+ */
+
+import { existsSync, readFileSync, rmSync } from 'fs'
+import { join } from 'path'
+import { getSpace } from './space.service'
+import { createWorkflow, getWorkflow } from './workflow.service'
+import type { Workflow, WorkflowStep } from './workflow.service'
+import { createSkill, readSkillByRef } from './skills.service'
+import { createAgent, readAgentByRef } from './agents.service'
+import { createCommand, readCommandByRef } from './commands.service'
+import type { ResourceRef, ResourceType } from './resource-ref.service'
+import { validateWorkflowGraph } from '../../shared/utils/workflow-graph'
+
+export const WORKFLOW_BUNDLE_FORMAT = 'kite-workflow-bundle'
+export const WORKFLOW_BUNDLE_VERSION = 1
+
+export interface WorkflowBundleResource {
+  type: ResourceType
+  name: string
+  namespace?: string
+  content: string
+}
+
+export interface WorkflowBundle {
+  format: typeof WORKFLOW_BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  workflow: Pick<Workflow, 'name' | 'description' | 'steps' | 'triggers' | 'settings'>
+  resources: WorkflowBundleResource[]
+}
+
+export interface WorkflowExportResult {
+  bundle: WorkflowBundle
+  fileName: string
+  /** Referenced resources that could not be found and were left out */
+  missing: string[]
+}
+
+export type WorkflowImportResolution = 'overwrite' | 'rename' | 'skip'
+
+export interface WorkflowImportResourcePreview {
+  key: string
+  type: ResourceType
+  name: string
+  namespace?: string
+  status: 'new' | 'identical' | 'conflict'
+  /** Name used when a conflict is resolved with `rename` */
+  renameTo?: string
+}
+
+export interface WorkflowImportPreview {
+  workflowName: string
+  description?: string
+  stepCount: number
+  resources: WorkflowImportResourcePreview[]
+  /** Step resources that are neither bundled nor available in the target space */
+  unresolved: string[]
+}
+
+export interface WorkflowImportResourceOutcome {
+  key: string
+  type: ResourceType
+  name: string
+  action: 'created' | 'overwritten' | 'renamed' | 'kept' | 'unchanged'
+}
+
+export interface WorkflowImportResult {
+  workflow: Workflow
+  resources: WorkflowImportResourceOutcome[]
+}
+
+const RESOURCE_TYPES: ResourceType[] = ['skill', 'agent', 'command']
+const RESOURCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+
+function getResourceKey(ref: Pick<ResourceRef, 'type' | 'name' | 'namespace'>): string {
+  return `${ref.type}:${ref.namespace ? `${ref.namespace}:` : ''}${ref.name}`
+}
+
+function parseStepRef(type: WorkflowStep['type'], rawName: string | undefined): ResourceRef | null {
+  if (type !== 'skill' && type !== 'agent' && type !== 'command') return null
+  const value = rawName?.trim()
+  if (!value) return null
+  if (!value.includes(':')) return { type, name: value }
+  const [namespace, name] = value.split(':', 2)
+  return namespace && name ? { type, name, namespace } : null
+}
+
+/**
+ * Apply `visit` to every skill/agent/command reference, including parallel branches
+ */
+function forEachStepRef(
+  steps: WorkflowStep[],
+  visit: (ref: ResourceRef, target: { name?: string }) => void
+): void {
+  for (const step of steps) {
+    const targets: Array<{ type: WorkflowStep['type']; name?: string }> = step.type === 'parallel'
+      ? step.parallel?.branches || []
+      : [step]
+    for (const target of targets) {
+      const ref = parseStepRef(target.type, target.name)
+      if (ref) visit(ref, target)
+    }
+  }
+}
+
+function readResourceByRef(ref: ResourceRef, workDir: string): { content: string; source: string } | null {
+  const file = ref.type === 'skill'
+    ? readSkillByRef(ref, workDir)
+    : ref.type === 'agent'
+      ? readAgentByRef(ref, workDir)
+      : readCommandByRef(ref, workDir)
+  return file ? { content: file.content, source: file.definition.source } : null
+}
+
+function getSpaceResourcePath(workDir: string, type: ResourceType, name: string): string {
+  if (type === 'skill') return join(workDir, '.claude', 'skills', name, 'SKILL.md')
+  return join(workDir, '.claude', `${type}s`, `${name}.md`)
+}
+
+function findFreeName(workDir: string, type: ResourceType, name: string): string {
+  let candidate = `${name}-imported`
+  for (let suffix = 2; existsSync(getSpaceResourcePath(workDir, type, candidate)); suffix++) {
+    candidate = `${name}-imported-${suffix}`
+  }
+  return candidate
+}
+
+function writeSpaceResource(workDir: string, type: ResourceType, name: string, content: string): void {
+  if (type === 'skill') {
+    createSkill(workDir, name, content)
+  } else if (type === 'agent') {
+    createAgent(workDir, name, content)
+  } else {
+    createCommand(workDir, name, content)
+  }
+}
+
+function requireSpacePath(spaceId: string): string {
+  const space = getSpace(spaceId)
+  if (!space) {
+    throw new Error('Space not found')
+  }
+  return space.path
+}
+
+/**
+ * Validate the shape of an uploaded bundle
+ */
+export function parseWorkflowBundle(raw: unknown): WorkflowBundle {
+  const bundle = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Partial<WorkflowBundle> | null
+  if (!bundle || bundle.format !== WORKFLOW_BUNDLE_FORMAT) {
+    throw new Error('Invalid workflow bundle: unrecognized format')
+  }
+  if (bundle.version !== WORKFLOW_BUNDLE_VERSION) {
+    throw new Error(`Invalid workflow bundle: unsupported version ${bundle.version}`)
+  }
+  const workflow = bundle.workflow
+  if (!workflow || typeof workflow.name !== 'string' || !workflow.name.trim() || !Array.isArray(workflow.steps)) {
+    throw new Error('Invalid workflow bundle: workflow definition is missing')
+  }
+  const graphIssues = validateWorkflowGraph(workflow.steps)
+  if (graphIssues.length > 0) {
+    throw new Error(`Invalid workflow bundle: Step ${graphIssues[0].stepIndex + 1}: ${graphIssues[0].message}`)
+  }
+  if (!Array.isArray(bundle.resources)) {
+    throw new Error('Invalid workflow bundle: resources are missing')
+  }
+  for (const resource of bundle.resources) {
+    if (!RESOURCE_TYPES.includes(resource?.type) || typeof resource.content !== 'string'
+      || typeof resource.name !== 'string' || !RESOURCE_NAME_PATTERN.test(resource.name)) {
+      throw new Error(`Invalid workflow bundle: bad resource entry ${JSON.stringify(resource?.name ?? null)}`)
+    }
+  }
+  return bundle as WorkflowBundle
+}
+
+/**
+ * Package a workflow with the skill/agent/command files it references.
+ * Built-in (`app`) resources ship with Kite and are not bundled.
+ */
+export function exportWorkflowBundle(spaceId: string, workflowId: string): WorkflowExportResult {
+  const workDir = requireSpacePath(spaceId)
+  const workflow = getWorkflow(spaceId, workflowId)
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`)
+  }
+
+  const resources = new Map<string, WorkflowBundleResource>()
+  const missing = new Set<string>()
+  forEachStepRef(workflow.steps, (ref) => {
+    const key = getResourceKey(ref)
+    if (resources.has(key) || missing.has(key)) return
+    const file = readResourceByRef(ref, workDir)
+    if (!file) {
+      missing.add(key)
+      return
+    }
+    if (file.source === 'app') return
+    resources.set(key, {
+      type: ref.type,
+      name: ref.name,
+      ...(ref.namespace && { namespace: ref.namespace }),
+      content: file.content
+    })
+  })
+
+  const bundle: WorkflowBundle = {
+    format: WORKFLOW_BUNDLE_FORMAT,
+    version: WORKFLOW_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: workflow.name,
+      description: workflow.description,
+      steps: workflow.steps,
+      triggers: workflow.triggers,
+      settings: workflow.settings
+    },
+    resources: Array.from(resources.values())
+  }
+  return {
+    bundle,
+    fileName: `${workflow.name.replace(/[^A-Za-z0-9._-]+/g, '-')}.kite-workflow.json`,
+    missing: Array.from(missing)
+  }
+}
+
+/**
+ * Compare bundled resources with the target space before importing
+ */
+export function previewWorkflowImport(spaceId: string, raw: unknown): WorkflowImportPreview {
+  const workDir = requireSpacePath(spaceId)
+  const bundle = parseWorkflowBundle(raw)
+
+  const resources = bundle.resources.map((resource): WorkflowImportResourcePreview => {
+    const key = getResourceKey(resource)
+    const targetPath = getSpaceResourcePath(workDir, resource.type, resource.name)
+    const base = { key, type: resource.type, name: resource.name, namespace: resource.namespace }
+    if (!existsSync(targetPath)) return { ...base, status: 'new' }
+    if (readFileSync(targetPath, 'utf-8') === resource.content) return { ...base, status: 'identical' }
+    return { ...base, status: 'conflict', renameTo: findFreeName(workDir, resource.type, resource.name) }
+  })
+
+  const bundledKeys = new Set(resources.map(resource => resource.key))
+  const unresolved = new Set<string>()
+  forEachStepRef(bundle.workflow.steps, (ref) => {
+    const key = getResourceKey(ref)
+    if (!bundledKeys.has(key) && !unresolved.has(key) && !readResourceByRef(ref, workDir)) {
+      unresolved.add(key)
+    }
+  })
+
+  return {
+    workflowName: bundle.workflow.name,
+    description: bundle.workflow.description,
+    stepCount: bundle.workflow.steps.length,
+    resources,
+    unresolved: Array.from(unresolved)
+  }
+}
+
+/**
+ * Install bundled resources into the space and register the workflow.
+ * Every conflicting resource needs a resolution: `overwrite` replaces the space
+ * copy, `rename` installs it under a new name and `skip` keeps the existing one.
+ * Bundled resources are installed as space resources, so step references are
+ * rewritten to their installed names. Imported triggers start disabled.
+ */
+export function importWorkflowBundle(
+  spaceId: string,
+  raw: unknown,
+  resolutions: Record<string, WorkflowImportResolution> = {}
+): WorkflowImportResult {
+  const workDir = requireSpacePath(spaceId)
+  const bundle = parseWorkflowBundle(raw)
+  const preview = previewWorkflowImport(spaceId, bundle)
+
+  const unresolvedConflicts = preview.resources
+    .filter(resource => resource.status === 'conflict' && !resolutions[resource.key])
+    .map(resource => resource.key)
+  if (unresolvedConflicts.length > 0) {
+    throw new Error(`Choose overwrite, rename or skip for: ${unresolvedConflicts.join(', ')}`)
+  }
+
+  const outcomes: WorkflowImportResourceOutcome[] = []
+  const installedNames = new Map<string, string>()
+  preview.resources.forEach((resource, index) => {
+    const { content } = bundle.resources[index]
+    const resolution = resolutions[resource.key]
+    let name = resource.name
+    let action: WorkflowImportResourceOutcome['action']
+
+    if (resource.status === 'new') {
+      writeSpaceResource(workDir, resource.type, name, content)
+      action = 'created'
+    } else if (resource.status === 'identical') {
+      action = 'unchanged'
+    } else if (resolution === 'overwrite') {
+      if (resource.type === 'skill') {
+        rmSync(join(workDir, '.claude', 'skills', name), { recursive: true, force: true })
+      }
+      writeSpaceResource(workDir, resource.type, name, content)
+      action = 'overwritten'
+    } else if (resolution === 'rename') {
+      name = resource.renameTo || findFreeName(workDir, resource.type, name)
+      writeSpaceResource(workDir, resource.type, name, content)
+      action = 'renamed'
+    } else {
+      action = 'kept'
+    }
+
+    installedNames.set(resource.key, name)
+    outcomes.push({ key: resource.key, type: resource.type, name, action })
+  })
+
+  const steps: WorkflowStep[] = JSON.parse(JSON.stringify(bundle.workflow.steps))
+  forEachStepRef(steps, (ref, target) => {
+    const installed = installedNames.get(getResourceKey(ref))
+    if (installed) target.name = installed
+  })
+
+  const workflow = createWorkflow(spaceId, {
+    spaceId,
+    name: bundle.workflow.name,
+    description: bundle.workflow.description,
+    steps,
+    triggers: bundle.workflow.triggers?.map(trigger => ({ ...trigger, enabled: false })),
+    settings: bundle.workflow.settings
+  })
+
+  return { workflow, resources: outcomes }
+}
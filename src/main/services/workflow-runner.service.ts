@@ -0,0 +1,793 @@
+/**
+ * Workflow Runner Service - Drives workflow runs in the main process
+ *
+ * Each run is persisted under `.kite/workflows/runs/<runId>.json` so it survives
+ * renderer reloads and can be inspected or resumed after an app restart.
+ */
+
+import type { BrowserWindow } from 'electron'
+import { join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, rmSync } from 'fs'
+import { v4 as uuidv4 } from 'uuid'
+import { getSpace, listSpaces } from './space.service'
+import { createConversation, getConversation } from './conversation.service'
+import { getWorkflow, updateWorkflow, validateWorkflowSteps } from './workflow.service'
+import type { Workflow, WorkflowStep } from './workflow.service'
+import * as agentController from '../controllers/agent.controller'
+import {
+  DEFAULT_WORKFLOW_PARALLEL_CONCURRENCY,
+  WORKFLOW_END_TARGET,
+  evaluateTextCondition,
+  extractTemplateRefs,
+  getParallelRequiredCount,
+  getWorkflowStepKey,
+  renderWorkflowTemplate,
+  type WorkflowTemplateContext
+} from '../../shared/utils/workflow-graph'
+import type { WorkflowCondition, WorkflowParallelBranch, WorkflowTriggerType } from '../../shared/types/workflow'
+import { getMainWindow } from './agent/renderer-comm'
+import { waitForSendDispatchSlot } from './agent/dispatch-throttle.service'
+import { broadcastToAll } from '../http/websocket'
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'error' | 'stopped' | 'interrupted'
+export type WorkflowRunStepStatus = 'pending' | 'running' | 'completed' | 'error' | 'skipped'
+export type WorkflowRunPhase = 'step' | 'summary' | 'summary-inject'
+export type WorkflowRunBranchStatus = 'pending' | 'running' | 'completed' | 'error' | 'cancelled'
+
+export interface WorkflowRunBranch {
+  id: string
+  status: WorkflowRunBranchStatus
+  conversationId?: string
+  output?: string
+  error?: string
+  startedAt?: string
+  endedAt?: string
+}
+
+export interface WorkflowRunStep {
+  id: string
+  status: WorkflowRunStepStatus
+  conversationId?: string
+  output?: string
+  error?: string
+  /** Number of attempts for looping steps */
+  iterations?: number
+  /** Per-branch progress for parallel steps */
+  branches?: WorkflowRunBranch[]
+  startedAt?: string
+  endedAt?: string
+}
+
+/** Set when a run was started by a workflow trigger rather than the user */
+export interface WorkflowRunTrigger {
+  type: WorkflowTriggerType
+  triggerId: string
+  /** Scheduled time or changed file paths */
+  detail?: string
+}
+
+export interface WorkflowRun {
+  id: string
+  workflowId: string
+  workflowName: string
+  spaceId: string
+  status: WorkflowRunStatus
+  phase: WorkflowRunPhase
+  currentStepIndex: number
+  conversationId: string
+  steps: WorkflowRunStep[]
+  /** Values captured by steps with `saveAs` */
+  variables?: Record<string, string>
+  /** Step to continue with once a summary handoff finishes (set by branches) */
+  nextStepIndex?: number
+  /** Merged parallel output handed to the next step that does not template it itself */
+  carryOver?: { stepKey: string; output: string }
+  responseLanguage?: string
+  trigger?: WorkflowRunTrigger
+  summaryText?: string
+  error?: string
+  startedAt: string
+  updatedAt: string
+  endedAt?: string
+}
+
+export interface StartWorkflowRunOptions {
+  responseLanguage?: string
+  trigger?: WorkflowRunTrigger
+}
+
+const MAX_RUNS_PER_WORKFLOW = 50
+const RUN_UPDATE_CHANNEL = 'workflow:run-update'
+// Run ids are uuids; older or hand-written records may use other plain names
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+const SUMMARY_PROMPT = [
+  'Summarize the conversation so far for a clean handoff to the next step.',
+  'Return concise bullet points covering goals, decisions, constraints, key outputs, and open questions.',
+  'Use the same language as the conversation. Do not add extra commentary.'
+].join(' ')
+
+// Runs currently driven by this process, keyed by run id
+const activeRuns = new Map<string, WorkflowRun>()
+let runnerWindow: BrowserWindow | null = null
+const runUpdateListeners = new Set<(run: WorkflowRun) => void>()
+
+function getRunsDir(spaceId: string): string | null {
+  const space = getSpace(spaceId)
+  if (!space) return null
+
+  const runsDir = join(space.path, '.kite', 'workflows', 'runs')
+  if (!existsSync(runsDir)) {
+    mkdirSync(runsDir, { recursive: true })
+  }
+  return runsDir
+}
+
+function readRunFile(filePath: string): WorkflowRun | null {
+  try {
+    const run = JSON.parse(readFileSync(filePath, 'utf-8')) as WorkflowRun
+    if (!run || typeof run.id !== 'string' || !Array.isArray(run.steps)) return null
+    return run
+  } catch {
+    return null
+  }
+}
+
+function readRuns(runsDir: string): WorkflowRun[] {
+  return readdirSync(runsDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readRunFile(join(runsDir, file)))
+    .filter((run): run is WorkflowRun => run !== null)
+}
+
+function persistRun(run: WorkflowRun): void {
+  run.updatedAt = new Date().toISOString()
+  const runsDir = getRunsDir(run.spaceId)
+  if (runsDir) {
+    writeFileSync(join(runsDir, `${run.id}.json`), JSON.stringify(run, null, 2))
+  }
+  emitRunUpdate(run)
+}
+
+function emitRunUpdate(run: WorkflowRun): void {
+  const payload = { run: { ...run, steps: run.steps.map(step => ({ ...step })) } }
+  const window = runnerWindow ?? getMainWindow()
+  if (window && !window.isDestroyed()) {
+    window.webContents.send(RUN_UPDATE_CHANNEL, payload)
+  }
+  try {
+    broadcastToAll(RUN_UPDATE_CHANNEL, payload)
+  } catch {
+    // WebSocket module might not be initialized yet, ignore
+  }
+  for (const listener of Array.from(runUpdateListeners)) {
+    try {
+      listener(payload.run)
+    } catch (error) {
+      console.error('[WorkflowRunner] Run update listener failed:', error)
+    }
+  }
+}
+
+function pruneRuns(runsDir: string, workflowId: string): void {
+  const finished = readRuns(runsDir)
+    .filter(run => run.workflowId === workflowId && !activeRuns.has(run.id))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+  for (const run of finished.slice(MAX_RUNS_PER_WORKFLOW - 1)) {
+    rmSync(join(runsDir, `${run.id}.json`), { force: true })
+  }
+}
+
+export function buildMessageForStep(step: WorkflowStep, context?: WorkflowTemplateContext): string {
+  const rawInput = context ? renderWorkflowTemplate(step.input, context) : step.input
+  const rawArgs = context ? renderWorkflowTemplate(step.args, context) : step.args
+  if (step.type === 'command') {
+    const input = rawInput ? ` ${rawInput}` : ''
+    return `/${step.name}${input}`.trim()
+  }
+  if (step.type === 'skill') {
+    const args = rawArgs ? ` ${rawArgs}` : ''
+    const input = rawInput ? ` ${rawInput}` : ''
+    return `/${step.name}${args}${input}`.trim()
+  }
+  if (step.type === 'agent') {
+    const input = rawInput ? ` ${rawInput}` : ''
+    return `@${step.name}${input}`.trim()
+  }
+  return rawInput || ''
+}
+
+function buildTemplateContext(run: WorkflowRun, workflow: Workflow): WorkflowTemplateContext {
+  const steps: Record<string, string | undefined> = {}
+  workflow.steps.forEach((step, index) => {
+    const output = run.steps[index]?.output
+    steps[step.id] = output
+    steps[getWorkflowStepKey(step)] = output
+  })
+  return { steps, vars: { ...run.variables } }
+}
+
+function buildConditionPrompt(question: string, output: string): string {
+  return [
+    'Answer with only YES or NO.',
+    `Question: ${question.trim()}`,
+    `Output to evaluate:\n\n${output}`
+  ].join('\n\n')
+}
+
+function findStepIndex(workflow: Workflow, target: string): number {
+  return workflow.steps.findIndex(step => getWorkflowStepKey(step) === target || step.id === target)
+}
+
+function buildSummaryInjectionMessage(summary: string): string {
+  return `Context summary from previous steps:\n\n${summary.trim()}\n\nAcknowledge briefly and wait.`
+}
+
+
+interface TurnResult {
+  ok: boolean
+  output?: string
+  error?: string
+}
+
+async function runTurn(
+  run: WorkflowRun,
+  workflow: Workflow,
+  message: string,
+  conversationId = run.conversationId,
+  dispatchSlot?: () => void
+): Promise<TurnResult> {
+  const response = await agentController.sendWorkflowStepMessage(runnerWindow ?? getMainWindow(), {
+    spaceId: run.spaceId,
+    conversationId,
+    message,
+    responseLanguage: run.responseLanguage,
+    thinkingEnabled: workflow.settings?.thinkingEnabled,
+    aiBrowserEnabled: workflow.settings?.aiBrowserEnabled,
+    mode: 'code'
+  }, { dispatchSlot })
+  if (!response.success) {
+    return { ok: false, error: response.error || 'Failed to send workflow step message' }
+  }
+
+  const conversation = getConversation(run.spaceId, conversationId)
+  const lastAssistant = conversation?.messages?.slice().reverse().find(m => m.role === 'assistant')
+  if (lastAssistant?.terminalReason === 'error') {
+    return { ok: false, output: lastAssistant.content?.trim() || undefined, error: 'Agent run failed' }
+  }
+  return { ok: true, output: lastAssistant?.content?.trim() || undefined }
+}
+
+function describeBranch(branch: WorkflowParallelBranch, index: number): string {
+  const name = branch.name?.trim()
+  return name ? `${branch.type} ${name}` : `Branch ${index + 1}`
+}
+
+function appendCarryOver(run: WorkflowRun, step: WorkflowStep, message: string): string {
+  const carryOver = run.carryOver
+  if (!carryOver) return message
+  const referenced = [...extractTemplateRefs(step.input), ...extractTemplateRefs(step.args)]
+    .some(ref => ref.kind === 'step' && ref.name === carryOver.stepKey)
+  if (referenced) return message
+  return `${message}\n\nResults from the previous parallel step:\n\n${carryOver.output}`
+}
+
+/**
+ * Fan a parallel step out into one conversation per branch.
+ * Branches hold a dispatch slot while they run, so a fan-out queues behind the
+ * space's send limit instead of tripping it. Once `waitFor` branches complete,
+ * the remaining ones are stopped.
+ */
+async function runParallelStep(
+  run: WorkflowRun,
+  workflow: Workflow,
+  step: WorkflowStep,
+  stepIndex: number
+): Promise<TurnResult> {
+  const parallel = step.parallel
+  if (!parallel || parallel.branches.length === 0) {
+    return { ok: false, error: 'Parallel step has no branches' }
+  }
+
+  const context = buildTemplateContext(run, workflow)
+  const previous = run.steps[stepIndex].branches || []
+  // Keep branches that already completed (e.g. before an interruption)
+  const branches: WorkflowRunBranch[] = parallel.branches.map((branch) => {
+    const existing = previous.find(item => item.id === branch.id)
+    return existing?.status === 'completed' ? existing : { id: branch.id, status: 'pending' }
+  })
+  run.steps[stepIndex] = { ...run.steps[stepIndex], branches }
+  persistRun(run)
+
+  const required = getParallelRequiredCount(parallel)
+  const countCompleted = () => branches.filter(branch => branch.status === 'completed').length
+  const isSettled = () => {
+    const open = branches.filter(branch => branch.status === 'pending' || branch.status === 'running').length
+    const completed = countCompleted()
+    return completed >= required || completed + open < required
+  }
+  const updateBranch = (index: number, updates: Partial<WorkflowRunBranch>) => {
+    branches[index] = { ...branches[index], ...updates }
+    persistRun(run)
+  }
+
+  const cancelOpenBranches = async () => {
+    const runningConversations: string[] = []
+    branches.forEach((branch, index) => {
+      if (branch.status !== 'pending' && branch.status !== 'running') return
+      if (branch.status === 'running' && branch.conversationId) {
+        runningConversations.push(branch.conversationId)
+      }
+      branches[index] = { ...branch, status: 'cancelled', endedAt: new Date().toISOString() }
+    })
+    persistRun(run)
+    await Promise.all(runningConversations.map(id => agentController.stopGeneration(run.spaceId, id)))
+  }
+
+  const runBranch = async (index: number) => {
+    const release = await waitForSendDispatchSlot(run.spaceId, {
+      isCancelled: () => !isStillRunning(run) || branches[index].status !== 'pending'
+    })
+    if (!release) return
+    try {
+      const definition = parallel.branches[index]
+      const message = buildMessageForStep(definition, context)
+      if (!message) {
+        updateBranch(index, { status: 'error', error: 'Branch has no message to send', endedAt: new Date().toISOString() })
+        return
+      }
+      const conversation = createConversation(run.spaceId, `${workflow.name} · ${describeBranch(definition, index)}`)
+      updateBranch(index, {
+        status: 'running',
+        conversationId: conversation.id,
+        error: undefined,
+        startedAt: new Date().toISOString()
+      })
+
+      let result: TurnResult
+      try {
+        // The send uses this branch's slot rather than taking a second one
+        result = await runTurn(run, workflow, message, conversation.id, release)
+      } catch (error: unknown) {
+        result = { ok: false, error: (error as Error)?.message || String(error) }
+      }
+      // Cancelled by first-N completion or by stopping the run
+      if (branches[index].status !== 'running' || !isStillRunning(run)) return
+
+      updateBranch(index, {
+        status: result.ok ? 'completed' : 'error',
+        output: result.output,
+        error: result.ok ? undefined : result.error || 'Branch failed',
+        endedAt: new Date().toISOString()
+      })
+      if (isSettled()) {
+        await cancelOpenBranches()
+      }
+    } finally {
+      release()
+    }
+  }
+
+  const queue = branches
+    .map((branch, index) => (branch.status === 'pending' ? index : -1))
+    .filter(index => index >= 0)
+  const worker = async () => {
+    for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+      await runBranch(next)
+    }
+  }
+  const concurrency = Math.max(1, Math.min(parallel.maxConcurrency ?? DEFAULT_WORKFLOW_PARALLEL_CONCURRENCY, queue.length))
+  await Promise.all(Array.from({ length: concurrency }, worker))
+
+  const completed = countCompleted()
+  if (completed < required) {
+    return { ok: false, error: `Only ${completed} of ${required} parallel branches completed` }
+  }
+  const output = parallel.branches
+    .map((definition, index) => (
+      branches[index].status === 'completed'
+        ? `## ${describeBranch(definition, index)}\n\n${branches[index].output || ''}`
+        : null
+    ))
+    .filter((section): section is string => section !== null)
+    .join('\n\n')
+  return { ok: true, output }
+}
+
+interface ConditionResult {
+  ok: boolean
+  matched?: boolean
+  error?: string
+}
+
+/**
+ * Evaluate a branch/loop condition against a step output.
+ * `ai` conditions ask the agent in the run's conversation for a YES/NO verdict.
+ */
+async function evaluateCondition(
+  run: WorkflowRun,
+  workflow: Workflow,
+  condition: WorkflowCondition,
+  output: string
+): Promise<ConditionResult> {
+  const value = renderWorkflowTemplate(condition.value, buildTemplateContext(run, workflow))
+  if (condition.type !== 'ai') {
+    try {
+      return { ok: true, matched: evaluateTextCondition(condition, output, value) }
+    } catch (error: unknown) {
+      return { ok: false, error: (error as Error).message }
+    }
+  }
+
+  const result = await runTurn(run, workflow, buildConditionPrompt(value, output))
+  if (!result.ok) {
+    return { ok: false, error: result.error || 'Failed to evaluate condition' }
+  }
+  const verdict = /^\W*(yes|no)\b/i.exec(result.output || '')
+  if (!verdict) {
+    return { ok: false, error: `Condition answer was not YES or NO: ${(result.output || '').slice(0, 80)}` }
+  }
+  const matched = verdict[1].toLowerCase() === 'yes'
+  return { ok: true, matched: condition.negate ? !matched : matched }
+}
+
+function finishRun(run: WorkflowRun, status: WorkflowRunStatus, error?: string): void {
+  run.status = status
+  run.endedAt = new Date().toISOString()
+  if (status === 'completed') {
+    run.phase = 'step'
+    run.summaryText = undefined
+  }
+  if (error) run.error = error
+  activeRuns.delete(run.id)
+  persistRun(run)
+}
+
+function failStep(run: WorkflowRun, stepIndex: number, error: string): void {
+  const step = run.steps[stepIndex]
+  if (step) {
+    run.steps[stepIndex] = {
+      ...step,
+      status: 'error',
+      error,
+      endedAt: new Date().toISOString()
+    }
+  }
+  finishRun(run, 'error', error)
+}
+
+function isStillRunning(run: WorkflowRun): boolean {
+  return run.status === 'running' && activeRuns.get(run.id) === run
+}
+
+async function driveRun(run: WorkflowRun, workflow: Workflow): Promise<void> {
+  while (isStillRunning(run) && run.currentStepIndex < workflow.steps.length) {
+    const stepIndex = run.currentStepIndex
+    const step = workflow.steps[stepIndex]
+
+    if (run.phase === 'step') {
+      const iteration = step.loop ? (run.steps[stepIndex].iterations ?? 0) + 1 : undefined
+      run.steps[stepIndex] = {
+        ...run.steps[stepIndex],
+        status: 'running',
+        conversationId: run.conversationId,
+        iterations: iteration,
+        error: undefined,
+        startedAt: iteration && iteration > 1 && run.steps[stepIndex].startedAt
+          ? run.steps[stepIndex].startedAt
+          : new Date().toISOString(),
+        endedAt: undefined
+      }
+      persistRun(run)
+
+      let result: TurnResult
+      if (step.type === 'parallel') {
+        result = await runParallelStep(run, workflow, step, stepIndex)
+      } else {
+        const message = buildMessageForStep(step, buildTemplateContext(run, workflow))
+        if (!message) {
+          failStep(run, stepIndex, 'Workflow step has no message to send')
+          return
+        }
+        result = await runTurn(run, workflow, appendCarryOver(run, step, message))
+      }
+      if (!isStillRunning(run)) return
+      if (!result.ok) {
+        failStep(run, stepIndex, result.error || 'Workflow step failed')
+        return
+      }
+      const output = result.output ?? ''
+      run.carryOver = step.type === 'parallel'
+        ? { stepKey: getWorkflowStepKey(step), output }
+        : undefined
+      run.steps[stepIndex] = { ...run.steps[stepIndex], output: result.output }
+
+      if (step.loop && iteration) {
+        const until = await evaluateCondition(run, workflow, step.loop.until, output)
+        if (!isStillRunning(run)) return
+        if (!until.ok) {
+          failStep(run, stepIndex, until.error || 'Failed to evaluate loop condition')
+          return
+        }
+        if (!until.matched) {
+          if (iteration >= step.loop.maxIterations) {
+            failStep(run, stepIndex, `Loop condition not met after ${step.loop.maxIterations} iterations`)
+            return
+          }
+          persistRun(run)
+          continue
+        }
+      }
+
+      if (step.saveAs) {
+        run.variables = { ...run.variables, [step.saveAs]: output }
+      }
+
+      let nextIndex = stepIndex + 1
+      if (step.branch) {
+        const branch = await evaluateCondition(run, workflow, step.branch.condition, output)
+        if (!isStillRunning(run)) return
+        if (!branch.ok) {
+          failStep(run, stepIndex, branch.error || 'Failed to evaluate branch condition')
+          return
+        }
+        const target = (branch.matched ? step.branch.onTrue : step.branch.onFalse)?.trim()
+        if (target === WORKFLOW_END_TARGET) {
+          nextIndex = workflow.steps.length
+        } else if (target) {
+          nextIndex = findStepIndex(workflow, target)
+          if (nextIndex <= stepIndex) {
+            failStep(run, stepIndex, `Invalid branch target: ${target}`)
+            return
+          }
+        }
+      }
+
+      run.steps[stepIndex] = {
+        ...run.steps[stepIndex],
+        status: 'completed',
+        endedAt: new Date().toISOString()
+      }
+      for (let index = stepIndex + 1; index < nextIndex; index++) {
+        run.steps[index] = { ...run.steps[index], status: 'skipped' }
+      }
+      if (step.summarizeAfter && nextIndex < workflow.steps.length) {
+        run.phase = 'summary'
+        run.nextStepIndex = nextIndex
+      } else {
+        run.currentStepIndex = nextIndex
+      }
+      persistRun(run)
+      continue
+    }
+
+    if (run.phase === 'summary') {
+      const result = await runTurn(run, workflow, SUMMARY_PROMPT)
+      if (!isStillRunning(run)) return
+      if (!result.ok || !result.output) {
+        finishRun(run, 'error', result.error || 'Failed to summarize workflow step')
+        return
+      }
+
+      const nextConversation = createConversation(run.spaceId, `${workflow.name} (Step ${stepIndex + 2})`)
+      run.conversationId = nextConversation.id
+      run.summaryText = result.output
+      run.phase = 'summary-inject'
+      persistRun(run)
+      continue
+    }
+
+    const result = await runTurn(run, workflow, buildSummaryInjectionMessage(run.summaryText || ''))
+    if (!isStillRunning(run)) return
+    if (!result.ok) {
+      finishRun(run, 'error', result.error || 'Failed to hand off workflow context')
+      return
+    }
+    run.phase = 'step'
+    run.summaryText = undefined
+    run.currentStepIndex = run.nextStepIndex ?? stepIndex + 1
+    run.nextStepIndex = undefined
+    persistRun(run)
+  }
+
+  if (isStillRunning(run)) {
+    finishRun(run, 'completed')
+  }
+}
+
+function launchRun(run: WorkflowRun, workflow: Workflow): void {
+  activeRuns.set(run.id, run)
+  persistRun(run)
+  driveRun(run, workflow).catch((error: unknown) => {
+    console.error(`[WorkflowRunner] Run ${run.id} failed:`, error)
+    if (isStillRunning(run)) {
+      failStep(run, run.currentStepIndex, (error as Error)?.message || String(error))
+    }
+  })
+}
+
+/**
+ * Set the window used for agent sends and run update events
+ */
+export function initWorkflowRunner(mainWindow: BrowserWindow | null): void {
+  runnerWindow = mainWindow
+  recoverInterruptedWorkflowRuns()
+}
+
+/**
+ * Subscribe to run updates inside the main process (trigger scheduler, tray)
+ */
+export function onWorkflowRunUpdate(listener: (run: WorkflowRun) => void): () => void {
+  runUpdateListeners.add(listener)
+  return () => runUpdateListeners.delete(listener)
+}
+
+/**
+ * Runs currently driven by this process
+ */
+export function listActiveWorkflowRuns(): WorkflowRun[] {
+  return Array.from(activeRuns.values())
+}
+
+/**
+ * Mark runs left in `running` state by a previous process as interrupted
+ */
+export function recoverInterruptedWorkflowRuns(): number {
+  let recovered = 0
+  for (const space of listSpaces()) {
+    const runsDir = join(space.path, '.kite', 'workflows', 'runs')
+    if (!existsSync(runsDir)) continue
+
+    for (const run of readRuns(runsDir)) {
+      if (run.status !== 'running' || activeRuns.has(run.id)) continue
+      const step = run.steps[run.currentStepIndex]
+      if (step?.status === 'running') {
+        run.steps[run.currentStepIndex] = { ...step, status: 'pending' }
+      }
+      run.status = 'interrupted'
+      run.endedAt = new Date().toISOString()
+      run.error = 'Interrupted because the app exited while the run was in progress'
+      persistRun(run)
+      recovered++
+    }
+  }
+  if (recovered > 0) {
+    console.log(`[WorkflowRunner] Marked ${recovered} run(s) as interrupted`)
+  }
+  return recovered
+}
+
+export function startWorkflowRun(
+  spaceId: string,
+  workflowId: string,
+  options?: StartWorkflowRunOptions
+): WorkflowRun {
+  const runsDir = getRunsDir(spaceId)
+  if (!runsDir) {
+    throw new Error('Space not found')
+  }
+
+  const workflow = getWorkflow(spaceId, workflowId)
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`)
+  }
+  if (workflow.steps.length === 0) {
+    throw new Error('Workflow has no steps')
+  }
+  const alreadyRunning = Array.from(activeRuns.values())
+    .some(run => run.spaceId === spaceId && run.workflowId === workflowId)
+  if (alreadyRunning) {
+    throw new Error(`Workflow is already running: ${workflow.name}`)
+  }
+  validateWorkflowSteps(spaceId, workflow.steps)
+
+  const conversation = createConversation(spaceId, workflow.name)
+  const now = new Date().toISOString()
+  const runId = uuidv4()
+  const run: WorkflowRun = {
+    id: runId,
+    workflowId,
+    workflowName: workflow.name,
+    spaceId,
+    status: 'running',
+    phase: 'step',
+    currentStepIndex: 0,
+    conversationId: conversation.id,
+    steps: workflow.steps.map(step => ({ id: step.id, status: 'pending' })),
+    variables: {},
+    responseLanguage: options?.responseLanguage,
+    trigger: options?.trigger,
+    startedAt: now,
+    updatedAt: now
+  }
+
+  updateWorkflow(spaceId, workflowId, {
+    lastRunAt: now,
+    lastRunId: runId,
+    lastConversationId: conversation.id
+  })
+  pruneRuns(runsDir, workflowId)
+  launchRun(run, workflow)
+  return run
+}
+
+/**
+ * Continue an interrupted or failed run from the step where it stopped
+ */
+export function resumeWorkflowRun(spaceId: string, runId: string): WorkflowRun {
+  const run = getWorkflowRun(spaceId, runId)
+  if (!run) {
+    throw new Error(`Workflow run not found: ${runId}`)
+  }
+  if (run.status === 'running' || run.status === 'completed') {
+    throw new Error(`Workflow run cannot be resumed from status: ${run.status}`)
+  }
+
+  const workflow = getWorkflow(spaceId, run.workflowId)
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${run.workflowId}`)
+  }
+  const stepIds = workflow.steps.map(step => step.id).join(',')
+  if (stepIds !== run.steps.map(step => step.id).join(',')) {
+    throw new Error('Workflow steps changed since this run started; start a new run instead')
+  }
+  validateWorkflowSteps(spaceId, workflow.steps)
+
+  const step = run.steps[run.currentStepIndex]
+  if (step && step.status !== 'completed') {
+    run.steps[run.currentStepIndex] = { ...step, status: 'pending', error: undefined, iterations: undefined }
+  }
+  run.status = 'running'
+  run.error = undefined
+  run.endedAt = undefined
+  launchRun(run, workflow)
+  return run
+}
+
+export async function stopWorkflowRun(spaceId: string, runId: string): Promise<WorkflowRun | null> {
+  const run = activeRuns.get(runId)
+  if (!run || run.spaceId !== spaceId) {
+    return getWorkflowRun(spaceId, runId)
+  }
+
+  const step = run.steps[run.currentStepIndex]
+  const branchConversations = (step?.branches || [])
+    .filter(branch => branch.status === 'running' && branch.conversationId)
+    .map(branch => branch.conversationId as string)
+  if (step?.status === 'running') {
+    run.steps[run.currentStepIndex] = {
+      ...step,
+      status: 'pending',
+      branches: step.branches?.map(branch => (
+        branch.status === 'running' ? { ...branch, status: 'cancelled' } : branch
+      ))
+    }
+  }
+  finishRun(run, 'stopped')
+  await Promise.all([run.conversationId, ...branchConversations]
+    .map(conversationId => agentController.stopGeneration(spaceId, conversationId)))
+  return run
+}
+
+export function getWorkflowRun(spaceId: string, runId: string): WorkflowRun | null {
+  const active = activeRuns.get(runId)
+  if (active && active.spaceId === spaceId) return active
+
+  // Run ids come from route params; anything but an id could reach outside runsDir
+  if (!RUN_ID_PATTERN.test(runId)) return null
+  const runsDir = getRunsDir(spaceId)
+  if (!runsDir) return null
+  const filePath = join(runsDir, `${runId}.json`)
+  if (!existsSync(filePath)) return null
+  return readRunFile(filePath)
+}
+
+export function listWorkflowRuns(spaceId: string, workflowId?: string): WorkflowRun[] {
+  const runsDir = getRunsDir(spaceId)
+  if (!runsDir) return []
+
+  return readRuns(runsDir)
+    .map(run => activeRuns.get(run.id) ?? run)
+    .filter(run => !workflowId || run.workflowId === workflowId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
@@ -0,0 +1,406 @@
+/**
+ * Workflow Trigger Service - Starts workflow runs from schedules, file changes and app start
+ *
+ * Schedules are checked every 30 seconds. Occurrences that passed while the app
+ * was closed (or asleep) are recorded in `.kite/workflows/trigger-state.json` and
+ * listed as missed instead of being fired.
+ */
+
+import { join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { v4 as uuidv4 } from 'uuid'
+import { getSpace, listSpaces } from './space.service'
+import { getWorkflow, listWorkflows, onWorkflowsChanged } from './workflow.service'
+import type { Workflow } from './workflow.service'
+import {
+  listActiveWorkflowRuns,
+  onWorkflowRunUpdate,
+  startWorkflowRun,
+  type WorkflowRun,
+  type WorkflowRunTrigger
+} from './workflow-runner.service'
+import { watchArtifacts } from './artifact.service'
+import { setTrayWorkflowStatus } from './tray.service'
+import { matchesGlob } from '../../shared/utils/glob'
+import {
+  getNextCronOccurrence,
+  listCronOccurrences,
+  listLatestCronOccurrences,
+  parseCronExpression
+} from '../../shared/utils/workflow-schedule'
+import type { WorkflowTrigger } from '../../shared/types/workflow'
+
+export interface MissedWorkflowTrigger {
+  id: string
+  workflowId: string
+  workflowName: string
+  triggerId: string
+  cron: string
+  scheduledAt: string
+}
+
+export interface UpcomingWorkflowTrigger {
+  spaceId: string
+  workflowId: string
+  workflowName: string
+  triggerId: string
+  scheduledAt: string
+}
+
+interface TriggerState {
+  lastCheckedAt?: string
+  missed: MissedWorkflowTrigger[]
+}
+
+interface PendingFileTrigger {
+  trigger: WorkflowTrigger
+  paths: Set<string>
+  timer: NodeJS.Timeout
+}
+
+const SCHEDULE_TICK_MS = 30 * 1000
+// Occurrences older than this when noticed are treated as missed
+const SCHEDULE_GRACE_MS = 2 * 60 * 1000
+const FILE_TRIGGER_DEBOUNCE_MS = 2000
+// File events this soon after a run of the same workflow are assumed to come from that run
+const FILE_TRIGGER_COOLDOWN_MS = 5000
+const MAX_MISSED_PER_SPACE = 50
+const MAX_TRAY_UPCOMING = 5
+
+let scheduleTimer: NodeJS.Timeout | null = null
+let unsubscribers: Array<() => void> = []
+// Workflows with at least one enabled trigger, keyed by space id
+const triggeredWorkflows = new Map<string, Workflow[]>()
+const fileWatchers = new Map<string, () => void>()
+const pendingFileTriggers = new Map<string, PendingFileTrigger>()
+// Last time a run of the workflow reported progress, keyed by `${spaceId}:${workflowId}`
+const lastRunActivity = new Map<string, number>()
+
+function getWorkflowKey(spaceId: string, workflowId: string): string {
+  return `${spaceId}:${workflowId}`
+}
+
+function getStatePath(spaceId: string): string | null {
+  const space = getSpace(spaceId)
+  if (!space) return null
+  return join(space.path, '.kite', 'workflows', 'trigger-state.json')
+}
+
+function readState(spaceId: string): TriggerState {
+  const statePath = getStatePath(spaceId)
+  if (!statePath || !existsSync(statePath)) return { missed: [] }
+  try {
+    const raw = JSON.parse(readFileSync(statePath, 'utf-8')) as TriggerState
+    return { lastCheckedAt: raw.lastCheckedAt, missed: Array.isArray(raw.missed) ? raw.missed : [] }
+  } catch {
+    return { missed: [] }
+  }
+}
+
+function writeState(spaceId: string, state: TriggerState): void {
+  const statePath = getStatePath(spaceId)
+  if (!statePath) return
+  const dir = join(statePath, '..')
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  writeFileSync(statePath, JSON.stringify(state, null, 2))
+}
+
+function getEnabledTriggers(workflow: Workflow, type: WorkflowTrigger['type']): WorkflowTrigger[] {
+  return (workflow.triggers || []).filter(trigger => trigger.type === type && trigger.enabled !== false)
+}
+
+function loadTriggeredWorkflows(spaceId: string): Workflow[] {
+  const workflows: Workflow[] = []
+  for (const meta of listWorkflows(spaceId)) {
+    const workflow = getWorkflow(spaceId, meta.id)
+    if (workflow?.triggers?.some(trigger => trigger.enabled !== false)) {
+      workflows.push(workflow)
+    }
+  }
+  return workflows
+}
+
+function fireTrigger(spaceId: string, workflow: Workflow, trigger: WorkflowRunTrigger): WorkflowRun | null {
+  try {
+    const run = startWorkflowRun(spaceId, workflow.id, { trigger })
+    console.log(`[WorkflowTrigger] Started ${workflow.name} (${trigger.type})`)
+    return run
+  } catch (error) {
+    console.warn(`[WorkflowTrigger] Could not start ${workflow.name} (${trigger.type}):`, (error as Error).message)
+    return null
+  }
+}
+
+/**
+ * Fire schedule occurrences in (lastCheckedAt, now]. Occurrences older than the
+ * grace period are recorded as missed. Only the latest due occurrence fires.
+ */
+export function checkWorkflowSchedules(now = new Date()): void {
+  for (const [spaceId, workflows] of Array.from(triggeredWorkflows.entries())) {
+    if (!hasSchedules(workflows)) continue
+    const scheduled = workflows.filter(workflow => getEnabledTriggers(workflow, 'schedule').length > 0)
+
+    const state = readState(spaceId)
+    const lastCheckedAt = state.lastCheckedAt ? new Date(state.lastCheckedAt) : now
+    const missedKeys = new Set(state.missed.map(item => `${item.triggerId}:${item.scheduledAt}`))
+
+    for (const workflow of scheduled) {
+      const createdAt = new Date(workflow.createdAt)
+      const after = createdAt > lastCheckedAt ? createdAt : lastCheckedAt
+      for (const trigger of getEnabledTriggers(workflow, 'schedule')) {
+        let due: Date | null = null
+        try {
+          const schedule = parseCronExpression(trigger.cron!)
+          // Occurrences within the grace period are due; older ones were missed
+          const graceStart = new Date(Math.max(after.getTime(), now.getTime() - SCHEDULE_GRACE_MS - 1))
+          due = listCronOccurrences(schedule, graceStart, now).pop() ?? null
+          // Only the newest missed ones can be kept, so a long gap is not listed from its start
+          const missed = graceStart > after
+            ? listLatestCronOccurrences(schedule, after, graceStart, MAX_MISSED_PER_SPACE)
+            : []
+          for (const occurrence of missed) {
+            const scheduledAt = occurrence.toISOString()
+            if (missedKeys.has(`${trigger.id}:${scheduledAt}`)) continue
+            missedKeys.add(`${trigger.id}:${scheduledAt}`)
+            state.missed.push({
+              id: uuidv4(),
+              workflowId: workflow.id,
+              workflowName: workflow.name,
+              triggerId: trigger.id,
+              cron: trigger.cron!,
+              scheduledAt
+            })
+          }
+        } catch (error) {
+          console.warn(`[WorkflowTrigger] Invalid schedule for ${workflow.name}:`, (error as Error).message)
+          continue
+        }
+        if (due) {
+          fireTrigger(spaceId, workflow, { type: 'schedule', triggerId: trigger.id, detail: due.toISOString() })
+        }
+      }
+    }
+
+    state.missed = state.missed
+      .sort((a, b) => b.scheduledAt.localeCompare(a.scheduledAt))
+      .slice(0, MAX_MISSED_PER_SPACE)
+    state.lastCheckedAt = now.toISOString()
+    writeState(spaceId, state)
+  }
+  refreshTray(now)
+}
+
+function handleFileChanges(spaceId: string, changedPaths: string[]): void {
+  const now = Date.now()
+  for (const workflow of triggeredWorkflows.get(spaceId) || []) {
+    const key = getWorkflowKey(spaceId, workflow.id)
+    if (isWorkflowBusy(spaceId, workflow.id, now)) continue
+
+    for (const trigger of getEnabledTriggers(workflow, 'file-change')) {
+      const matched = changedPaths.filter(path => matchesGlob(trigger.glob || '', path))
+      if (matched.length === 0) continue
+
+      const pending = pendingFileTriggers.get(key)
+      if (pending) clearTimeout(pending.timer)
+      const paths = pending?.paths ?? new Set<string>()
+      matched.forEach(path => paths.add(path))
+      pendingFileTriggers.set(key, {
+        trigger: pending?.trigger ?? trigger,
+        paths,
+        timer: setTimeout(() => flushFileTrigger(spaceId, workflow.id), FILE_TRIGGER_DEBOUNCE_MS)
+      })
+      break
+    }
+  }
+}
+
+function flushFileTrigger(spaceId: string, workflowId: string): void {
+  const key = getWorkflowKey(spaceId, workflowId)
+  const pending = pendingFileTriggers.get(key)
+  pendingFileTriggers.delete(key)
+  if (!pending || isWorkflowBusy(spaceId, workflowId, Date.now())) return
+
+  const workflow = triggeredWorkflows.get(spaceId)?.find(item => item.id === workflowId)
+  if (!workflow) return
+  fireTrigger(spaceId, workflow, {
+    type: 'file-change',
+    triggerId: pending.trigger.id,
+    detail: Array.from(pending.paths).slice(0, 20).join(', ')
+  })
+}
+
+function isWorkflowBusy(spaceId: string, workflowId: string, now: number): boolean {
+  const running = listActiveWorkflowRuns().some(run => run.spaceId === spaceId && run.workflowId === workflowId)
+  const lastActivity = lastRunActivity.get(getWorkflowKey(spaceId, workflowId)) ?? 0
+  return running || now - lastActivity < FILE_TRIGGER_COOLDOWN_MS
+}
+
+function syncFileWatchers(): void {
+  for (const [spaceId, workflows] of Array.from(triggeredWorkflows.entries())) {
+    const needsWatcher = workflows.some(workflow => getEnabledTriggers(workflow, 'file-change').length > 0)
+    if (needsWatcher && !fileWatchers.has(spaceId)) {
+      fileWatchers.set(spaceId, watchArtifacts(spaceId, paths => handleFileChanges(spaceId, paths)))
+    } else if (!needsWatcher && fileWatchers.has(spaceId)) {
+      fileWatchers.get(spaceId)!()
+      fileWatchers.delete(spaceId)
+    }
+  }
+  for (const spaceId of Array.from(fileWatchers.keys())) {
+    if (!triggeredWorkflows.has(spaceId)) {
+      fileWatchers.get(spaceId)!()
+      fileWatchers.delete(spaceId)
+    }
+  }
+}
+
+function hasSchedules(workflows: Workflow[] | undefined): boolean {
+  return (workflows || []).some(workflow => getEnabledTriggers(workflow, 'schedule').length > 0)
+}
+
+function reloadSpace(spaceId: string): void {
+  const hadSchedules = hasSchedules(triggeredWorkflows.get(spaceId))
+  const workflows = getSpace(spaceId) ? loadTriggeredWorkflows(spaceId) : []
+  if (workflows.length > 0) {
+    triggeredWorkflows.set(spaceId, workflows)
+  } else {
+    triggeredWorkflows.delete(spaceId)
+  }
+  // Nothing could be missed while the space had no schedules
+  if (!hadSchedules && hasSchedules(workflows)) {
+    writeState(spaceId, { ...readState(spaceId), lastCheckedAt: new Date().toISOString() })
+  }
+  syncFileWatchers()
+  refreshTray()
+}
+
+/**
+ * Next schedule occurrences across all spaces, soonest first
+ */
+export function listUpcomingWorkflowTriggers(now = new Date(), limit = MAX_TRAY_UPCOMING): UpcomingWorkflowTrigger[] {
+  const upcoming: UpcomingWorkflowTrigger[] = []
+  for (const [spaceId, workflows] of Array.from(triggeredWorkflows.entries())) {
+    for (const workflow of workflows) {
+      for (const trigger of getEnabledTriggers(workflow, 'schedule')) {
+        try {
+          const next = getNextCronOccurrence(trigger.cron!, now)
+          if (!next) continue
+          upcoming.push({
+            spaceId,
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            triggerId: trigger.id,
+            scheduledAt: next.toISOString()
+          })
+        } catch {
+          // Invalid schedules are reported by validation
+        }
+      }
+    }
+  }
+  return upcoming
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+    .slice(0, limit)
+}
+
+function refreshTray(now = new Date()): void {
+  const running = listActiveWorkflowRuns()
+    .filter(run => run.trigger)
+    .map(run => ({ label: run.workflowName }))
+  const upcoming = listUpcomingWorkflowTriggers(now).map(item => ({
+    label: `${item.workflowName} · ${new Date(item.scheduledAt).toLocaleString(undefined, {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    })}`
+  }))
+  try {
+    setTrayWorkflowStatus({ running, upcoming })
+  } catch (error) {
+    console.warn('[WorkflowTrigger] Failed to update tray:', error)
+  }
+}
+
+export function listMissedWorkflowTriggers(spaceId: string): MissedWorkflowTrigger[] {
+  return readState(spaceId).missed
+}
+
+export function dismissMissedWorkflowTrigger(spaceId: string, missedId: string): boolean {
+  const state = readState(spaceId)
+  const next = state.missed.filter(item => item.id !== missedId)
+  if (next.length === state.missed.length) return false
+  writeState(spaceId, { ...state, missed: next })
+  return true
+}
+
+/**
+ * Start a missed scheduled run now and remove it from the missed list
+ */
+export function runMissedWorkflowTrigger(spaceId: string, missedId: string): WorkflowRun {
+  const state = readState(spaceId)
+  const missed = state.missed.find(item => item.id === missedId)
+  if (!missed) {
+    throw new Error(`Missed trigger not found: ${missedId}`)
+  }
+  const run = startWorkflowRun(spaceId, missed.workflowId, {
+    trigger: { type: 'schedule', triggerId: missed.triggerId, detail: missed.scheduledAt }
+  })
+  dismissMissedWorkflowTrigger(spaceId, missedId)
+  return run
+}
+
+/**
+ * Load triggers, fire app-start triggers and start the schedule and file watchers
+ */
+export function initWorkflowTriggers(): void {
+  cleanupWorkflowTriggers()
+
+  for (const space of listSpaces()) {
+    try {
+      const workflows = loadTriggeredWorkflows(space.id)
+      if (workflows.length > 0) {
+        triggeredWorkflows.set(space.id, workflows)
+      }
+    } catch (error) {
+      console.warn(`[WorkflowTrigger] Failed to load workflows for space ${space.id}:`, error)
+    }
+  }
+
+  unsubscribers = [
+    onWorkflowsChanged(reloadSpace),
+    onWorkflowRunUpdate((run) => {
+      lastRunActivity.set(getWorkflowKey(run.spaceId, run.workflowId), Date.now())
+      if (run.trigger) refreshTray()
+    })
+  ]
+
+  checkWorkflowSchedules()
+  for (const [spaceId, workflows] of Array.from(triggeredWorkflows.entries())) {
+    for (const workflow of workflows) {
+      const trigger = getEnabledTriggers(workflow, 'app-start')[0]
+      if (trigger) {
+        fireTrigger(spaceId, workflow, { type: 'app-start', triggerId: trigger.id })
+      }
+    }
+  }
+  syncFileWatchers()
+
+  scheduleTimer = setInterval(() => checkWorkflowSchedules(), SCHEDULE_TICK_MS)
+  console.log(`[WorkflowTrigger] Watching triggers in ${triggeredWorkflows.size} space(s)`)
+}
+
+export function cleanupWorkflowTriggers(): void {
+  if (scheduleTimer) {
+    clearInterval(scheduleTimer)
+    scheduleTimer = null
+  }
+  unsubscribers.forEach(unsubscribe => unsubscribe())
+  unsubscribers = []
+  fileWatchers.forEach(stop => stop())
+  fileWatchers.clear()
+  pendingFileTriggers.forEach(pending => clearTimeout(pending.timer))
+  pendingFileTriggers.clear()
+  triggeredWorkflows.clear()
+  lastRunActivity.clear()
+}
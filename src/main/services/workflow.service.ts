@@ -10,14 +10,25 @@ import { listSkills } from './skills.service'
 import { listAgents } from './agents.service'
 import { listCommands } from './commands.service'
 import { getConfig } from './config.service'
+import { validateWorkflowGraph } from '../../shared/utils/workflow-graph'
+import { validateWorkflowTriggers } from '../../shared/utils/workflow-schedule'
+import type { WorkflowBranch, WorkflowLoop, WorkflowParallel, WorkflowTrigger } from '../../shared/types/workflow'
 
 export interface WorkflowStep {
   id: string
-  type: 'skill' | 'agent' | 'command' | 'message'
+  type: 'skill' | 'agent' | 'command' | 'message' | 'parallel'
   name?: string
   input?: string
   args?: string
   summarizeAfter?: boolean
+  /** Reference name for `{{steps.<key>.output}}` and branch targets (defaults to id) */
+  key?: string
+  /** Store the step output as `{{vars.<saveAs>}}` */
+  saveAs?: string
+  branch?: WorkflowBranch
+  loop?: WorkflowLoop
+  /** Branches for `parallel` steps */
+  parallel?: WorkflowParallel
 }
 
 export interface Workflow {
@@ -26,6 +37,7 @@ export interface Workflow {
   name: string
   description?: string
   steps: WorkflowStep[]
+  triggers?: WorkflowTrigger[]
   settings?: {
     thinkingEnabled?: boolean
     aiBrowserEnabled?: boolean
@@ -33,6 +45,7 @@ export interface Workflow {
   createdAt: string
   updatedAt: string
   lastRunAt?: string
+  lastRunId?: string
   lastConversationId?: string
 }
 
@@ -44,6 +57,7 @@ export interface WorkflowMeta {
   createdAt: string
   updatedAt: string
   lastRunAt?: string
+  lastRunId?: string
   lastConversationId?: string
 }
 
@@ -55,6 +69,27 @@ interface WorkflowIndex {
 
 const INDEX_VERSION = 1
 
+type WorkflowsChangedListener = (spaceId: string) => void
+const changeListeners = new Set<WorkflowsChangedListener>()
+
+/**
+ * Subscribe to workflow create/delete and trigger edits (used by the trigger scheduler)
+ */
+export function onWorkflowsChanged(listener: WorkflowsChangedListener): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
+}
+
+function notifyWorkflowsChanged(spaceId: string): void {
+  for (const listener of Array.from(changeListeners)) {
+    try {
+      listener(spaceId)
+    } catch (error) {
+      console.error('[Workflow] Change listener failed:', error)
+    }
+  }
+}
+
 function ensureWorkflowsDir(spaceId: string): string | null {
   const space = getSpace(spaceId)
   if (!space) return null
@@ -95,6 +130,7 @@ function workflowToMeta(workflow: Workflow): WorkflowMeta {
     createdAt: workflow.createdAt,
     updatedAt: workflow.updatedAt,
     lastRunAt: workflow.lastRunAt,
+    lastRunId: workflow.lastRunId,
     lastConversationId: workflow.lastConversationId
   }
 }
@@ -155,10 +191,42 @@ function normalizeSteps(steps: WorkflowStep[]): WorkflowStep[] {
     name: step.name,
     input: step.input,
     args: step.args,
-    summarizeAfter: step.summarizeAfter
+    summarizeAfter: step.summarizeAfter,
+    key: step.key?.trim() || undefined,
+    saveAs: step.saveAs?.trim() || undefined,
+    branch: step.branch,
+    loop: step.loop,
+    parallel: step.type === 'parallel' && step.parallel
+      ? {
+          ...step.parallel,
+          branches: step.parallel.branches.map(branch => ({ ...branch, id: branch.id || uuidv4() }))
+        }
+      : undefined
   }))
 }
 
+function normalizeTriggers(triggers: WorkflowTrigger[] | undefined): WorkflowTrigger[] | undefined {
+  if (!triggers || triggers.length === 0) return undefined
+  return triggers.map(trigger => ({
+    id: trigger.id || uuidv4(),
+    type: trigger.type,
+    cron: trigger.type === 'schedule' ? trigger.cron?.trim() : undefined,
+    glob: trigger.type === 'file-change' ? trigger.glob?.trim() : undefined,
+    enabled: trigger.enabled !== false
+  }))
+}
+
+function assertValidTriggers(triggers: WorkflowTrigger[] | undefined): void {
+  if (!triggers) return
+  if (!Array.isArray(triggers)) {
+    throw new Error('Invalid workflow triggers')
+  }
+  const issues = validateWorkflowTriggers(triggers)
+  if (issues.length > 0) {
+    throw new Error(`Invalid workflow: ${issues.map(issue => `Trigger ${issue.triggerIndex + 1}: ${issue.message}`).join(', ')}`)
+  }
+}
+
 function parseDirectiveName(raw: string): { name: string; namespace?: string } | null {
   const value = raw.trim()
   if (!value) return null
@@ -169,12 +237,17 @@ function parseDirectiveName(raw: string): { name: string; namespace?: string } |
   return { namespace, name }
 }
 
-function validateWorkflowSteps(spaceId: string, steps: WorkflowStep[]): void {
+export function validateWorkflowSteps(spaceId: string, steps: WorkflowStep[]): void {
   const space = getSpace(spaceId)
   if (!space) {
     throw new Error('Space not found')
   }
 
+  const graphIssues = validateWorkflowGraph(steps)
+  if (graphIssues.length > 0) {
+    throw new Error(`Invalid workflow: ${graphIssues.map(issue => `Step ${issue.stepIndex + 1}: ${issue.message}`).join(', ')}`)
+  }
+
   const availableSkills = listSkills(space.path, 'workflow-validation')
   const availableAgents = listAgents(space.path, 'workflow-validation')
   const availableCommands = listCommands(space.path, 'workflow-validation')
@@ -185,7 +258,13 @@ function validateWorkflowSteps(spaceId: string, steps: WorkflowStep[]): void {
   const addReject = (stepIndex: number, resource: string, reason: string): void => {
     rejects.push({ stepIndex, resource, reason })
   }
-  for (const [index, step] of steps.entries()) {
+  // Parallel branches are checked like regular steps, reported under their group's index
+  const directiveSteps = steps.flatMap((step, index): Array<{ index: number; step: Pick<WorkflowStep, 'type' | 'name'> }> => (
+    step.type === 'parallel'
+      ? (step.parallel?.branches || []).map(branch => ({ index, step: branch }))
+      : [{ index, step }]
+  ))
+  for (const { index, step } of directiveSteps) {
     const parsed = parseDirectiveName(step.name || '')
     if (!parsed || step.type === 'message') continue
 
@@ -244,6 +323,7 @@ export function createWorkflow(spaceId: string, input: Omit<Workflow, 'id' | 'cr
     throw new Error('Invalid workflow input')
   }
   validateWorkflowSteps(spaceId, input.steps)
+  assertValidTriggers(input.triggers)
 
   const now = new Date().toISOString()
   const workflow: Workflow = {
@@ -251,6 +331,7 @@ export function createWorkflow(spaceId: string, input: Omit<Workflow, 'id' | 'cr
     id: uuidv4(),
     spaceId,
     steps: normalizeSteps(input.steps),
+    triggers: normalizeTriggers(input.triggers),
     createdAt: now,
     updatedAt: now
   }
@@ -258,10 +339,13 @@ export function createWorkflow(spaceId: string, input: Omit<Workflow, 'id' | 'cr
   const filePath = join(workflowsDir, `${workflow.id}.json`)
   writeFileSync(filePath, JSON.stringify(workflow, null, 2))
 
+  // A rebuilt index already picks up the file written above
   const index = readIndex(workflowsDir) || buildIndexFromFiles(workflowsDir, spaceId)
+  index.workflows = index.workflows.filter(w => w.id !== workflow.id)
   index.workflows.push(workflowToMeta(workflow))
   index.updatedAt = now
   writeIndex(workflowsDir, index)
+  notifyWorkflowsChanged(spaceId)
 
   return workflow
 }
@@ -278,12 +362,14 @@ export function updateWorkflow(spaceId: string, workflowId: string, updates: Par
     if (updates.steps) {
       validateWorkflowSteps(spaceId, updates.steps)
     }
+    assertValidTriggers(updates.triggers)
     const updated: Workflow = {
       ...existing,
       ...updates,
       id: existing.id,
       spaceId: existing.spaceId,
       steps: updates.steps ? normalizeSteps(updates.steps) : existing.steps,
+      triggers: 'triggers' in updates ? normalizeTriggers(updates.triggers) : existing.triggers,
       updatedAt: new Date().toISOString()
     }
 
@@ -293,6 +379,9 @@ export function updateWorkflow(spaceId: string, workflowId: string, updates: Par
     index.workflows = index.workflows.map(w => w.id === workflowId ? workflowToMeta(updated) : w)
     index.updatedAt = updated.updatedAt
     writeIndex(workflowsDir, index)
+    if ('triggers' in updates) {
+      notifyWorkflowsChanged(spaceId)
+    }
 
     return updated
   } catch {
@@ -313,6 +402,7 @@ export function deleteWorkflow(spaceId: string, workflowId: string): boolean {
     index.workflows = index.workflows.filter(w => w.id !== workflowId)
     index.updatedAt = new Date().toISOString()
     writeIndex(workflowsDir, index)
+    notifyWorkflowsChanged(spaceId)
     return true
   } catch {
     return false
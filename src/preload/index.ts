@@ -5,6 +5,11 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import type { InvocationContext, ResourceListView } from '../shared/resource-access'
 import type { LocaleCode } from '../shared/i18n/locale'
+import type { CommandRuleRequest, CommandRuleScope } from '../shared/types/command-rules'
+import type { HookTestRequest } from '../shared/types/hook-log'
+import type { ObservabilityRunQuery } from '../shared/types/observability'
+import type { RemoteAccessLogQuery, RemoteAccessTokenRequest } from '../shared/types/remote-access'
+import type { SopParameter } from '../shared/types/sop'
 
 interface AskUserQuestionAnswerPayload {
   toolCallId: string
@@ -24,6 +29,11 @@ interface GuideMessageRequest {
 
 type ChatMode = 'code' | 'plan'
 
+interface ToolApprovalOptions {
+  toolCallId?: string
+  remember?: CommandRuleRequest
+}
+
 // Type definitions for exposed API
 export interface KiteAPI {
   // Config
@@ -36,6 +46,17 @@ export interface KiteAPI {
     protocol?: string,
     model?: string
   ) => Promise<IpcResponse>
+  listCommandRules: (spaceId?: string) => Promise<IpcResponse>
+  removeCommandRule: (scope: CommandRuleScope, ruleId: string, spaceId?: string) => Promise<IpcResponse>
+  listHooks: (spaceId: string) => Promise<IpcResponse>
+  getHookLog: (spaceId: string) => Promise<IpcResponse>
+  clearHookLog: (spaceId: string) => Promise<IpcResponse>
+  testHook: (spaceId: string, request: HookTestRequest) => Promise<IpcResponse>
+
+  // Run explorer
+  listObservabilityRuns: (query?: ObservabilityRunQuery) => Promise<IpcResponse>
+  getObservabilityRun: (runId: string) => Promise<IpcResponse>
+  clearObservabilityRuns: () => Promise<IpcResponse>
 
   // Space
   getKiteSpace: () => Promise<IpcResponse>
@@ -88,8 +109,13 @@ export interface KiteAPI {
 
   // Change Sets
   listChangeSets: (spaceId: string, conversationId: string) => Promise<IpcResponse>
+  getChangeSet: (spaceId: string, conversationId: string, changeSetId: string) => Promise<IpcResponse>
   acceptChangeSet: (params: { spaceId: string; conversationId: string; changeSetId: string; filePath?: string }) => Promise<IpcResponse>
   rollbackChangeSet: (params: { spaceId: string; conversationId: string; changeSetId: string; filePath?: string; force?: boolean }) => Promise<IpcResponse>
+  rollbackToMessage: (params: { spaceId: string; conversationId: string; messageId: string; force?: boolean }) => Promise<IpcResponse>
+  getChangeHistory: (spaceId: string) => Promise<IpcResponse>
+  readChangeSnapshot: (spaceId: string, hash: string) => Promise<IpcResponse<string>>
+  pruneChangeHistory: (spaceId: string, options: { maxAgeDays?: number; maxBytes?: number }) => Promise<IpcResponse>
 
   // Agent
   sendMessage: (request: {
@@ -192,8 +218,18 @@ export interface KiteAPI {
   }) => Promise<IpcResponse>
   guideMessage: (request: GuideMessageRequest) => Promise<IpcResponse<{ delivery: 'session_send' | 'ask_user_question_answer' }>>
   stopGeneration: (spaceId: string, conversationId?: string, opId?: string) => Promise<IpcResponse>
-  approveTool: (spaceId: string, conversationId: string, opId?: string) => Promise<IpcResponse>
-  rejectTool: (spaceId: string, conversationId: string, opId?: string) => Promise<IpcResponse>
+  approveTool: (
+    spaceId: string,
+    conversationId: string,
+    opId?: string,
+    options?: ToolApprovalOptions
+  ) => Promise<IpcResponse>
+  rejectTool: (
+    spaceId: string,
+    conversationId: string,
+    opId?: string,
+    options?: ToolApprovalOptions
+  ) => Promise<IpcResponse>
   answerQuestion: (
     spaceId: string,
     conversationId: string,
@@ -228,6 +264,7 @@ export interface KiteAPI {
   onAgentToolsAvailable: (callback: (data: unknown) => void) => () => void
   onAgentDirectiveResolution: (callback: (data: unknown) => void) => () => void
   onAgentMcpStatus: (callback: (data: unknown) => void) => () => void
+  onAgentProviderHealth: (callback: (data: unknown) => void) => () => void
   onAgentCompact: (callback: (data: unknown) => void) => () => void
   onSkillsChanged: (callback: (data: unknown) => void) => () => void
   onCommandsChanged: (callback: (data: unknown) => void) => () => void
@@ -283,6 +320,7 @@ export interface KiteAPI {
         assertion?: string
         retries: number
       }>
+      parameters?: SopParameter[]
       meta?: Record<string, unknown>
     }
   }) => Promise<IpcResponse>
@@ -342,6 +380,18 @@ export interface KiteAPI {
   createWorkflow: (spaceId: string, input: Record<string, unknown>) => Promise<IpcResponse>
   updateWorkflow: (spaceId: string, workflowId: string, updates: Record<string, unknown>) => Promise<IpcResponse>
   deleteWorkflow: (spaceId: string, workflowId: string) => Promise<IpcResponse>
+  startWorkflowRun: (spaceId: string, workflowId: string, options?: { responseLanguage?: string }) => Promise<IpcResponse>
+  stopWorkflowRun: (spaceId: string, runId: string) => Promise<IpcResponse>
+  resumeWorkflowRun: (spaceId: string, runId: string) => Promise<IpcResponse>
+  getWorkflowRun: (spaceId: string, runId: string) => Promise<IpcResponse>
+  listWorkflowRuns: (spaceId: string, workflowId?: string) => Promise<IpcResponse>
+  listMissedWorkflowTriggers: (spaceId: string) => Promise<IpcResponse>
+  runMissedWorkflowTrigger: (spaceId: string, missedId: string) => Promise<IpcResponse>
+  dismissMissedWorkflowTrigger: (spaceId: string, missedId: string) => Promise<IpcResponse>
+  exportWorkflowBundle: (spaceId: string, workflowId: string) => Promise<IpcResponse>
+  previewWorkflowImport: (spaceId: string, bundle: unknown) => Promise<IpcResponse>
+  importWorkflowBundle: (spaceId: string, bundle: unknown, resolutions?: Record<string, string>) => Promise<IpcResponse>
+  onWorkflowRunUpdate: (callback: (data: unknown) => void) => () => void
 
   // Remote Access
   enableRemoteAccess: (port?: number) => Promise<IpcResponse>
@@ -349,8 +399,13 @@ export interface KiteAPI {
   enableTunnel: () => Promise<IpcResponse>
   disableTunnel: () => Promise<IpcResponse>
   getRemoteStatus: () => Promise<IpcResponse>
-  getRemoteQRCode: (includeToken?: boolean) => Promise<IpcResponse>
+  getRemoteQRCode: () => Promise<IpcResponse>
   onRemoteStatusChange: (callback: (data: unknown) => void) => () => void
+  listRemoteTokens: () => Promise<IpcResponse>
+  createRemoteToken: (input: RemoteAccessTokenRequest) => Promise<IpcResponse>
+  revokeRemoteToken: (tokenId: string) => Promise<IpcResponse>
+  listRemoteAccessLog: (query?: RemoteAccessLogQuery) => Promise<IpcResponse>
+  clearRemoteAccessLog: () => Promise<IpcResponse>
 
   // System Settings
   getAutoLaunch: () => Promise<IpcResponse>
@@ -373,6 +428,12 @@ export interface KiteAPI {
     conversationId?: string,
     spaceId?: string
   ) => Promise<IpcResponse>
+  searchSimilar: (
+    query: string,
+    scope: 'conversation' | 'space' | 'global',
+    conversationId?: string,
+    spaceId?: string
+  ) => Promise<IpcResponse>
   cancelSearch: () => Promise<IpcResponse>
   onSearchProgress: (callback: (data: unknown) => void) => () => void
   onSearchCancelled: (callback: () => void) => () => void
@@ -403,11 +464,20 @@ export interface KiteAPI {
   stopBrowserSopRecording: (viewId: string) => Promise<IpcResponse>
   getBrowserSopRecordingState: (viewId: string) => Promise<IpcResponse>
   clearBrowserSopRecording: (viewId: string) => Promise<IpcResponse>
+  replayBrowserSop: (options: {
+    viewId: string
+    spec?: { version: string; name: string; steps: unknown[]; parameters?: SopParameter[]; meta?: Record<string, unknown> }
+    skillName?: string
+    workDir?: string
+    variables?: Record<string, string>
+  }) => Promise<IpcResponse>
+  stopBrowserSopReplay: (viewId: string) => Promise<IpcResponse>
   setBrowserZoom: (viewId: string, level: number) => Promise<IpcResponse>
   toggleBrowserDevTools: (viewId: string) => Promise<IpcResponse>
   showBrowserContextMenu: (options: { viewId: string; url?: string; zoomLevel: number }) => Promise<IpcResponse>
   onBrowserStateChange: (callback: (data: unknown) => void) => () => void
   onBrowserSopRecordingEvent: (callback: (data: unknown) => void) => () => void
+  onBrowserSopReplayEvent: (callback: (data: unknown) => void) => () => void
   onBrowserZoomChanged: (callback: (data: { viewId: string; zoomLevel: number }) => void) => () => void
 
   // Canvas Tab Menu
@@ -521,6 +591,18 @@ const api: KiteAPI = {
   setConfig: (updates) => ipcRenderer.invoke('config:set', updates),
   validateApi: (apiKey, apiUrl, provider, protocol, model) =>
     ipcRenderer.invoke('config:validate-api', apiKey, apiUrl, provider, protocol, model),
+  listCommandRules: (spaceId) => ipcRenderer.invoke('config:list-command-rules', spaceId),
+  removeCommandRule: (scope, ruleId, spaceId) =>
+    ipcRenderer.invoke('config:remove-command-rule', scope, ruleId, spaceId),
+  listHooks: (spaceId) => ipcRenderer.invoke('config:list-hooks', spaceId),
+  getHookLog: (spaceId) => ipcRenderer.invoke('config:get-hook-log', spaceId),
+  clearHookLog: (spaceId) => ipcRenderer.invoke('config:clear-hook-log', spaceId),
+  testHook: (spaceId, request) => ipcRenderer.invoke('config:test-hook', spaceId, request),
+
+  // Run explorer
+  listObservabilityRuns: (query) => ipcRenderer.invoke('observability:list-runs', query),
+  getObservabilityRun: (runId) => ipcRenderer.invoke('observability:get-run', runId),
+  clearObservabilityRuns: () => ipcRenderer.invoke('observability:clear-runs'),
 
   // Space
   getKiteSpace: () => ipcRenderer.invoke('space:get-kite'),
@@ -554,8 +636,14 @@ const api: KiteAPI = {
   // Change Sets
   listChangeSets: (spaceId, conversationId) =>
     ipcRenderer.invoke('change-set:list', spaceId, conversationId),
+  getChangeSet: (spaceId, conversationId, changeSetId) =>
+    ipcRenderer.invoke('change-set:get', spaceId, conversationId, changeSetId),
   acceptChangeSet: (params) => ipcRenderer.invoke('change-set:accept', params),
   rollbackChangeSet: (params) => ipcRenderer.invoke('change-set:rollback', params),
+  rollbackToMessage: (params) => ipcRenderer.invoke('change-set:rollback-to-message', params),
+  getChangeHistory: (spaceId) => ipcRenderer.invoke('change-set:history', spaceId),
+  readChangeSnapshot: (spaceId, hash) => ipcRenderer.invoke('change-set:read-snapshot', spaceId, hash),
+  pruneChangeHistory: (spaceId, options) => ipcRenderer.invoke('change-set:prune-history', spaceId, options),
 
   // Agent
   sendMessage: (request) => ipcRenderer.invoke('agent:send-message', request),
@@ -564,8 +652,10 @@ const api: KiteAPI = {
   sendWorkflowStepMessage: (request) => ipcRenderer.invoke('workflow:send-step-message', request),
   guideMessage: (request) => ipcRenderer.invoke('agent:guide-message', request),
   stopGeneration: (spaceId, conversationId, opId) => ipcRenderer.invoke('agent:stop', { spaceId, conversationId, opId }),
-  approveTool: (spaceId, conversationId, opId) => ipcRenderer.invoke('agent:approve-tool', { spaceId, conversationId, opId }),
-  rejectTool: (spaceId, conversationId, opId) => ipcRenderer.invoke('agent:reject-tool', { spaceId, conversationId, opId }),
+  approveTool: (spaceId, conversationId, opId, options) =>
+    ipcRenderer.invoke('agent:approve-tool', { spaceId, conversationId, opId, ...options }),
+  rejectTool: (spaceId, conversationId, opId, options) =>
+    ipcRenderer.invoke('agent:reject-tool', { spaceId, conversationId, opId, ...options }),
   answerQuestion: (spaceId, conversationId, answer, opId) =>
     ipcRenderer.invoke('agent:answer-question', { spaceId, conversationId, answer, opId }),
   getSessionState: (spaceId, conversationId) => ipcRenderer.invoke('agent:get-session-state', { spaceId, conversationId }),
@@ -592,6 +682,7 @@ const api: KiteAPI = {
   onAgentToolsAvailable: (callback) => createEventListener('agent:tools-available', callback),
   onAgentDirectiveResolution: (callback) => createEventListener('agent:directive-resolution', callback),
   onAgentMcpStatus: (callback) => createEventListener('agent:mcp-status', callback),
+  onAgentProviderHealth: (callback) => createEventListener('agent:provider-health', callback),
   onAgentCompact: (callback) => createEventListener('agent:compact', callback),
   onSkillsChanged: (callback) => createEventListener('skills:changed', callback),
   onCommandsChanged: (callback) => createEventListener('commands:changed', callback),
@@ -667,6 +758,18 @@ const api: KiteAPI = {
   createWorkflow: (spaceId, input) => ipcRenderer.invoke('workflow:create', spaceId, input),
   updateWorkflow: (spaceId, workflowId, updates) => ipcRenderer.invoke('workflow:update', spaceId, workflowId, updates),
   deleteWorkflow: (spaceId, workflowId) => ipcRenderer.invoke('workflow:delete', spaceId, workflowId),
+  startWorkflowRun: (spaceId, workflowId, options) => ipcRenderer.invoke('workflow:start-run', spaceId, workflowId, options),
+  stopWorkflowRun: (spaceId, runId) => ipcRenderer.invoke('workflow:stop-run', spaceId, runId),
+  resumeWorkflowRun: (spaceId, runId) => ipcRenderer.invoke('workflow:resume-run', spaceId, runId),
+  getWorkflowRun: (spaceId, runId) => ipcRenderer.invoke('workflow:get-run', spaceId, runId),
+  listWorkflowRuns: (spaceId, workflowId) => ipcRenderer.invoke('workflow:list-runs', spaceId, workflowId),
+  listMissedWorkflowTriggers: (spaceId) => ipcRenderer.invoke('workflow:list-missed-triggers', spaceId),
+  runMissedWorkflowTrigger: (spaceId, missedId) => ipcRenderer.invoke('workflow:run-missed-trigger', spaceId, missedId),
+  dismissMissedWorkflowTrigger: (spaceId, missedId) => ipcRenderer.invoke('workflow:dismiss-missed-trigger', spaceId, missedId),
+  exportWorkflowBundle: (spaceId, workflowId) => ipcRenderer.invoke('workflow:export-bundle', spaceId, workflowId),
+  previewWorkflowImport: (spaceId, bundle) => ipcRenderer.invoke('workflow:preview-import', spaceId, bundle),
+  importWorkflowBundle: (spaceId, bundle, resolutions) => ipcRenderer.invoke('workflow:import-bundle', spaceId, bundle, resolutions),
+  onWorkflowRunUpdate: (callback) => createEventListener('workflow:run-update', callback),
 
   // Remote Access
   enableRemoteAccess: (port) => ipcRenderer.invoke('remote:enable', port),
@@ -674,8 +777,13 @@ const api: KiteAPI = {
   enableTunnel: () => ipcRenderer.invoke('remote:tunnel:enable'),
   disableTunnel: () => ipcRenderer.invoke('remote:tunnel:disable'),
   getRemoteStatus: () => ipcRenderer.invoke('remote:status'),
-  getRemoteQRCode: (includeToken) => ipcRenderer.invoke('remote:qrcode', includeToken),
+  getRemoteQRCode: () => ipcRenderer.invoke('remote:qrcode'),
   onRemoteStatusChange: (callback) => createEventListener('remote:status-change', callback),
+  listRemoteTokens: () => ipcRenderer.invoke('remote:tokens:list'),
+  createRemoteToken: (input) => ipcRenderer.invoke('remote:tokens:create', input),
+  revokeRemoteToken: (tokenId) => ipcRenderer.invoke('remote:tokens:revoke', tokenId),
+  listRemoteAccessLog: (query) => ipcRenderer.invoke('remote:access-log:list', query),
+  clearRemoteAccessLog: () => ipcRenderer.invoke('remote:access-log:clear'),
 
   // System Settings
   getAutoLaunch: () => ipcRenderer.invoke('system:get-auto-launch'),
@@ -694,6 +802,8 @@ const api: KiteAPI = {
   // Search
   search: (query, scope, conversationId, spaceId) =>
     ipcRenderer.invoke('search:execute', query, scope, conversationId, spaceId),
+  searchSimilar: (query, scope, conversationId, spaceId) =>
+    ipcRenderer.invoke('search:semantic', query, scope, conversationId, spaceId),
   cancelSearch: () => ipcRenderer.invoke('search:cancel'),
   onSearchProgress: (callback) => createEventListener('search:progress', callback),
   onSearchCancelled: (callback) => createEventListener('search:cancelled', callback),
@@ -724,11 +834,14 @@ const api: KiteAPI = {
   stopBrowserSopRecording: (viewId) => ipcRenderer.invoke('browser:sop-recording:stop', { viewId }),
   getBrowserSopRecordingState: (viewId) => ipcRenderer.invoke('browser:sop-recording:get-state', { viewId }),
   clearBrowserSopRecording: (viewId) => ipcRenderer.invoke('browser:sop-recording:clear', { viewId }),
+  replayBrowserSop: (options) => ipcRenderer.invoke('browser:sop-replay:start', options),
+  stopBrowserSopReplay: (viewId) => ipcRenderer.invoke('browser:sop-replay:stop', { viewId }),
   setBrowserZoom: (viewId, level) => ipcRenderer.invoke('browser:zoom', { viewId, level }),
   toggleBrowserDevTools: (viewId) => ipcRenderer.invoke('browser:dev-tools', { viewId }),
   showBrowserContextMenu: (options) => ipcRenderer.invoke('browser:show-context-menu', options),
   onBrowserStateChange: (callback) => createEventListener('browser:state-change', callback),
   onBrowserSopRecordingEvent: (callback) => createEventListener('browser:sop-recording:event', callback),
+  onBrowserSopReplayEvent: (callback) => createEventListener('browser:sop-replay:event', callback),
   onBrowserZoomChanged: (callback) => createEventListener('browser:zoom-changed', callback as (data: unknown) => void),
 
   // Canvas Tab Menu (native Electron menu)
@@ -28,9 +28,11 @@ import type {
   AgentCompleteEvent,
   AgentModeEvent,
   AgentProcessEvent,
+  ProviderHealth,
   ThemeMode,
   Thought,
-  ToolCall
+  ToolCall,
+  WorkflowRun
 } from './types'
 
 // Lazy load heavy page components for better initial load performance
@@ -124,9 +126,10 @@ export default function App() {
     view: state.view,
     config: state.config
   }), shallow)
-  const { initialize, setMcpStatus, setView, setConfig } = useAppStore((state) => ({
+  const { initialize, setMcpStatus, setDegradedProviders, setView, setConfig } = useAppStore((state) => ({
     initialize: state.initialize,
     setMcpStatus: state.setMcpStatus,
+    setDegradedProviders: state.setDegradedProviders,
     setView: state.setView,
     setConfig: state.setConfig
   }), shallow)
@@ -142,6 +145,7 @@ export default function App() {
     handleAgentThought,
     handleAgentCompact,
     handleAgentToolsAvailable,
+    resyncConversation,
     currentSpaceId,
     setCurrentSpace: setChatCurrentSpace,
     loadConversations,
@@ -158,13 +162,14 @@ export default function App() {
     handleAgentThought: state.handleAgentThought,
     handleAgentCompact: state.handleAgentCompact,
     handleAgentToolsAvailable: state.handleAgentToolsAvailable,
+    resyncConversation: state.resyncConversation,
     currentSpaceId: state.currentSpaceId,
     setCurrentSpace: state.setCurrentSpace,
     loadConversations: state.loadConversations,
     selectConversation: state.selectConversation
   }), shallow)
-  const { handleAgentComplete: handleWorkflowAgentComplete } = useWorkflowsStore(
-    (state) => ({ handleAgentComplete: state.handleAgentComplete }),
+  const { handleRunUpdate: handleWorkflowRunUpdate } = useWorkflowsStore(
+    (state) => ({ handleRunUpdate: state.handleRunUpdate }),
     shallow
   )
   const { initialize: initializeOnboarding } = useOnboardingStore(
@@ -285,7 +290,6 @@ export default function App() {
     const unsubComplete = api.onAgentComplete((data) => {
       console.log('[App] Received agent:complete event:', data)
       handleAgentComplete(data as AgentCompleteEvent)
-      handleWorkflowAgentComplete(data as AgentCompleteEvent)
     })
 
     const unsubMode = api.onAgentMode((data) => {
@@ -336,6 +340,14 @@ export default function App() {
       } as AgentProcessEvent)
     })
 
+    // Workflow run progress (global - runs are driven by the main process)
+    const unsubWorkflowRun = api.onWorkflowRunUpdate((data) => {
+      const event = data as { run?: WorkflowRun }
+      if (event.run) {
+        handleWorkflowRunUpdate(event.run)
+      }
+    })
+
     // MCP status updates (global - not per-conversation)
     const unsubMcpStatus = api.onAgentMcpStatus((data) => {
       console.log('[App] Received agent:mcp-status event:', data)
@@ -345,6 +357,22 @@ export default function App() {
       }
     })
 
+    // Provider health (global - router circuit breaker state)
+    const unsubProviderHealth = api.onAgentProviderHealth((data) => {
+      const event = data as { providers?: ProviderHealth[] }
+      if (event.providers) {
+        setDegradedProviders(event.providers)
+      }
+    })
+
+    // Remote mode: missed events are gone from the server's replay buffer, refetch instead
+    const unsubRemoteResync = api.onRemoteResync((data) => {
+      const event = data as { spaceId?: string; conversationId?: string }
+      if (event.spaceId && event.conversationId) {
+        void resyncConversation(event.spaceId, event.conversationId)
+      }
+    })
+
     return () => {
       unsubRunStart()
       unsubThought()
@@ -358,7 +386,10 @@ export default function App() {
       unsubCompact()
       unsubToolsAvailable()
       unsubDirectiveResolution()
+      unsubWorkflowRun()
       unsubMcpStatus()
+      unsubProviderHealth()
+      unsubRemoteResync()
     }
   }, [
     handleAgentRunStart,
@@ -369,11 +400,13 @@ export default function App() {
     handleAgentError,
     handleAgentComplete,
     handleAgentMode,
-    handleWorkflowAgentComplete,
+    handleWorkflowRunUpdate,
     handleAgentThought,
     handleAgentCompact,
     handleAgentToolsAvailable,
-    setMcpStatus
+    resyncConversation,
+    setMcpStatus,
+    setDegradedProviders
   ])
 
   // Handle search keyboard shortcuts with debouncing for navigation
@@ -18,6 +18,22 @@ import {
 import type { ChatMode } from '../types'
 import type { InvocationContext, ResourceListView } from '../../shared/resource-access'
 import type { LocaleCode } from '../../shared/i18n/locale'
+import type { CommandRuleRequest, CommandRuleScope, ScopedCommandRule } from '../../shared/types/command-rules'
+import type { HooksConfig } from '../../shared/types/claude-code'
+import type { HookInvocation, HookTestRequest } from '../../shared/types/hook-log'
+import type {
+  ObservabilityRunQuery,
+  ObservabilityRunSummary,
+  ObservabilityRunTrace
+} from '../../shared/types/observability'
+import type { SopParameter } from '../../shared/types/sop'
+import type {
+  CreatedRemoteAccessToken,
+  RemoteAccessLogEntry,
+  RemoteAccessLogQuery,
+  RemoteAccessToken,
+  RemoteAccessTokenRequest
+} from '../../shared/types/remote-access'
 
 // Response type
 interface ApiResponse<T = unknown> {
@@ -27,6 +43,11 @@ interface ApiResponse<T = unknown> {
   errorCode?: string
 }
 
+interface ToolApprovalOptions {
+  toolCallId?: string
+  remember?: CommandRuleRequest
+}
+
 interface AskUserQuestionAnswerPayload {
   toolCallId: string
   answersByQuestionId: Record<string, string[]>
@@ -105,6 +126,83 @@ export const api = {
     return httpRequest('POST', '/api/config/validate', { apiKey, apiUrl, provider, protocol, model })
   },
 
+  listCommandRules: async (spaceId?: string): Promise<ApiResponse<ScopedCommandRule[]>> => {
+    if (isElectron()) {
+      return window.kite.listCommandRules(spaceId) as Promise<ApiResponse<ScopedCommandRule[]>>
+    }
+    const query = spaceId ? `?spaceId=${encodeURIComponent(spaceId)}` : ''
+    return httpRequest('GET', `/api/config/command-rules${query}`)
+  },
+
+  removeCommandRule: async (
+    scope: CommandRuleScope,
+    ruleId: string,
+    spaceId?: string
+  ): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.removeCommandRule(scope, ruleId, spaceId)
+    }
+    const params = new URLSearchParams({ scope })
+    if (spaceId) params.set('spaceId', spaceId)
+    return httpRequest('DELETE', `/api/config/command-rules/${encodeURIComponent(ruleId)}?${params.toString()}`)
+  },
+
+  listHooks: async (spaceId: string): Promise<ApiResponse<HooksConfig>> => {
+    if (isElectron()) {
+      return window.kite.listHooks(spaceId) as Promise<ApiResponse<HooksConfig>>
+    }
+    return httpRequest('GET', `/api/spaces/${encodeURIComponent(spaceId)}/hooks`)
+  },
+
+  getHookLog: async (spaceId: string): Promise<ApiResponse<HookInvocation[]>> => {
+    if (isElectron()) {
+      return window.kite.getHookLog(spaceId) as Promise<ApiResponse<HookInvocation[]>>
+    }
+    return httpRequest('GET', `/api/spaces/${encodeURIComponent(spaceId)}/hooks/log`)
+  },
+
+  clearHookLog: async (spaceId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.clearHookLog(spaceId)
+    }
+    return httpRequest('DELETE', `/api/spaces/${encodeURIComponent(spaceId)}/hooks/log`)
+  },
+
+  testHook: async (spaceId: string, request: HookTestRequest): Promise<ApiResponse<HookInvocation>> => {
+    if (isElectron()) {
+      return window.kite.testHook(spaceId, request) as Promise<ApiResponse<HookInvocation>>
+    }
+    return httpRequest('POST', `/api/spaces/${encodeURIComponent(spaceId)}/hooks/test`, { ...request })
+  },
+
+  // ===== Run Explorer =====
+  listObservabilityRuns: async (
+    query: ObservabilityRunQuery = {}
+  ): Promise<ApiResponse<{ runs: ObservabilityRunSummary[]; models: string[] }>> => {
+    if (isElectron()) {
+      return window.kite.listObservabilityRuns(query) as Promise<ApiResponse<{ runs: ObservabilityRunSummary[]; models: string[] }>>
+    }
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value))
+    }
+    return httpRequest('GET', `/api/observability/runs?${params.toString()}`)
+  },
+
+  getObservabilityRun: async (runId: string): Promise<ApiResponse<ObservabilityRunTrace>> => {
+    if (isElectron()) {
+      return window.kite.getObservabilityRun(runId) as Promise<ApiResponse<ObservabilityRunTrace>>
+    }
+    return httpRequest('GET', `/api/observability/runs/${encodeURIComponent(runId)}`)
+  },
+
+  clearObservabilityRuns: async (): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.clearObservabilityRuns()
+    }
+    return httpRequest('DELETE', '/api/observability/runs')
+  },
+
   // ===== Space =====
   getKiteSpace: async (): Promise<ApiResponse> => {
     if (isElectron()) {
@@ -311,6 +409,13 @@ export const api = {
     return httpRequest('GET', `/api/spaces/${spaceId}/conversations/${conversationId}/change-sets`)
   },
 
+  getChangeSet: async (spaceId: string, conversationId: string, changeSetId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.getChangeSet(spaceId, conversationId, changeSetId)
+    }
+    return httpRequest('GET', `/api/spaces/${spaceId}/conversations/${conversationId}/change-sets/${changeSetId}`)
+  },
+
   acceptChangeSet: async (params: {
     spaceId: string
     conversationId: string
@@ -344,6 +449,46 @@ export const api = {
     )
   },
 
+  rollbackToMessage: async (params: {
+    spaceId: string
+    conversationId: string
+    messageId: string
+    force?: boolean
+  }): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.rollbackToMessage(params)
+    }
+    return httpRequest(
+      'POST',
+      `/api/spaces/${params.spaceId}/conversations/${params.conversationId}/change-sets/rollback-to-message`,
+      { messageId: params.messageId, force: params.force }
+    )
+  },
+
+  getChangeHistory: async (spaceId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.getChangeHistory(spaceId)
+    }
+    return httpRequest('GET', `/api/spaces/${spaceId}/change-history`)
+  },
+
+  readChangeSnapshot: async (spaceId: string, hash: string): Promise<ApiResponse<string>> => {
+    if (isElectron()) {
+      return window.kite.readChangeSnapshot(spaceId, hash)
+    }
+    return httpRequest('GET', `/api/spaces/${spaceId}/change-history/snapshots/${hash}`)
+  },
+
+  pruneChangeHistory: async (
+    spaceId: string,
+    options: { maxAgeDays?: number; maxBytes?: number }
+  ): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.pruneChangeHistory(spaceId, options)
+    }
+    return httpRequest('POST', `/api/spaces/${spaceId}/change-history/prune`, options)
+  },
+
   // ===== Agent =====
   sendMessage: async (request: {
     spaceId: string
@@ -557,20 +702,30 @@ export const api = {
     return httpRequest('POST', '/api/agent/stop', { spaceId, conversationId, opId: normalizedOpId })
   },
 
-  approveTool: async (spaceId: string, conversationId: string, opId?: string): Promise<ApiResponse> => {
+  approveTool: async (
+    spaceId: string,
+    conversationId: string,
+    opId?: string,
+    options?: ToolApprovalOptions
+  ): Promise<ApiResponse> => {
     const normalizedOpId = opId || createOpId('approve')
     if (isElectron()) {
-      return window.kite.approveTool(spaceId, conversationId, normalizedOpId)
+      return window.kite.approveTool(spaceId, conversationId, normalizedOpId, options)
     }
-    return httpRequest('POST', '/api/agent/approve', { spaceId, conversationId, opId: normalizedOpId })
+    return httpRequest('POST', '/api/agent/approve', { spaceId, conversationId, opId: normalizedOpId, ...options })
   },
 
-  rejectTool: async (spaceId: string, conversationId: string, opId?: string): Promise<ApiResponse> => {
+  rejectTool: async (
+    spaceId: string,
+    conversationId: string,
+    opId?: string,
+    options?: ToolApprovalOptions
+  ): Promise<ApiResponse> => {
     const normalizedOpId = opId || createOpId('reject')
     if (isElectron()) {
-      return window.kite.rejectTool(spaceId, conversationId, normalizedOpId)
+      return window.kite.rejectTool(spaceId, conversationId, normalizedOpId, options)
     }
-    return httpRequest('POST', '/api/agent/reject', { spaceId, conversationId, opId: normalizedOpId })
+    return httpRequest('POST', '/api/agent/reject', { spaceId, conversationId, opId: normalizedOpId, ...options })
   },
 
   answerQuestion: async (
@@ -909,6 +1064,7 @@ export const api = {
         assertion?: string
         retries: number
       }>
+      parameters?: SopParameter[]
       meta?: Record<string, unknown>
     }
   }): Promise<ApiResponse> => {
@@ -1202,6 +1358,114 @@ export const api = {
     return httpRequest('DELETE', `/api/workflows/${encodeURIComponent(workflowId)}?spaceId=${encodeURIComponent(spaceId)}`)
   },
 
+  startWorkflowRun: async (
+    spaceId: string,
+    workflowId: string,
+    options?: { responseLanguage?: string }
+  ): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.startWorkflowRun(spaceId, workflowId, options)
+    }
+    return httpRequest('POST', `/api/workflows/${encodeURIComponent(workflowId)}/runs`, {
+      spaceId,
+      responseLanguage: options?.responseLanguage
+    })
+  },
+
+  stopWorkflowRun: async (spaceId: string, workflowId: string, runId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.stopWorkflowRun(spaceId, runId)
+    }
+    return httpRequest(
+      'POST',
+      `/api/workflows/${encodeURIComponent(workflowId)}/runs/${encodeURIComponent(runId)}/stop`,
+      { spaceId }
+    )
+  },
+
+  resumeWorkflowRun: async (spaceId: string, workflowId: string, runId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.resumeWorkflowRun(spaceId, runId)
+    }
+    return httpRequest(
+      'POST',
+      `/api/workflows/${encodeURIComponent(workflowId)}/runs/${encodeURIComponent(runId)}/resume`,
+      { spaceId }
+    )
+  },
+
+  getWorkflowRun: async (spaceId: string, workflowId: string, runId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.getWorkflowRun(spaceId, runId)
+    }
+    return httpRequest(
+      'GET',
+      `/api/workflows/${encodeURIComponent(workflowId)}/runs/${encodeURIComponent(runId)}?spaceId=${encodeURIComponent(spaceId)}`
+    )
+  },
+
+  listWorkflowRuns: async (spaceId: string, workflowId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.listWorkflowRuns(spaceId, workflowId)
+    }
+    return httpRequest(
+      'GET',
+      `/api/workflows/${encodeURIComponent(workflowId)}/runs?spaceId=${encodeURIComponent(spaceId)}`
+    )
+  },
+
+  listMissedWorkflowTriggers: async (spaceId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.listMissedWorkflowTriggers(spaceId)
+    }
+    return httpRequest('GET', `/api/workflows/missed-triggers?spaceId=${encodeURIComponent(spaceId)}`)
+  },
+
+  runMissedWorkflowTrigger: async (spaceId: string, missedId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.runMissedWorkflowTrigger(spaceId, missedId)
+    }
+    return httpRequest('POST', `/api/workflows/missed-triggers/${encodeURIComponent(missedId)}/run`, { spaceId })
+  },
+
+  dismissMissedWorkflowTrigger: async (spaceId: string, missedId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.dismissMissedWorkflowTrigger(spaceId, missedId)
+    }
+    return httpRequest(
+      'DELETE',
+      `/api/workflows/missed-triggers/${encodeURIComponent(missedId)}?spaceId=${encodeURIComponent(spaceId)}`
+    )
+  },
+
+  exportWorkflowBundle: async (spaceId: string, workflowId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.exportWorkflowBundle(spaceId, workflowId)
+    }
+    return httpRequest(
+      'GET',
+      `/api/workflows/${encodeURIComponent(workflowId)}/export?spaceId=${encodeURIComponent(spaceId)}`
+    )
+  },
+
+  previewWorkflowImport: async (spaceId: string, bundle: unknown): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.previewWorkflowImport(spaceId, bundle)
+    }
+    return httpRequest('POST', '/api/workflows/import/preview', { spaceId, bundle })
+  },
+
+  importWorkflowBundle: async (
+    spaceId: string,
+    bundle: unknown,
+    resolutions?: Record<string, string>
+  ): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.importWorkflowBundle(spaceId, bundle, resolutions)
+    }
+    return httpRequest('POST', '/api/workflows/import', { spaceId, bundle, resolutions })
+  },
+
   // ===== Remote Access (Electron only) =====
   enableRemoteAccess: async (port?: number): Promise<ApiResponse> => {
     if (!isElectron()) {
@@ -1238,11 +1502,46 @@ export const api = {
     return window.kite.getRemoteStatus()
   },
 
-  getRemoteQRCode: async (includeToken?: boolean): Promise<ApiResponse> => {
+  getRemoteQRCode: async (): Promise<ApiResponse> => {
     if (!isElectron()) {
       return { success: false, error: 'Only available in desktop app' }
     }
-    return window.kite.getRemoteQRCode(includeToken)
+    return window.kite.getRemoteQRCode()
+  },
+
+  listRemoteTokens: async (): Promise<ApiResponse<RemoteAccessToken[]>> => {
+    if (!isElectron()) {
+      return { success: false, error: 'Only available in desktop app' }
+    }
+    return window.kite.listRemoteTokens() as Promise<ApiResponse<RemoteAccessToken[]>>
+  },
+
+  createRemoteToken: async (input: RemoteAccessTokenRequest): Promise<ApiResponse<CreatedRemoteAccessToken>> => {
+    if (!isElectron()) {
+      return { success: false, error: 'Only available in desktop app' }
+    }
+    return window.kite.createRemoteToken(input) as Promise<ApiResponse<CreatedRemoteAccessToken>>
+  },
+
+  revokeRemoteToken: async (tokenId: string): Promise<ApiResponse> => {
+    if (!isElectron()) {
+      return { success: false, error: 'Only available in desktop app' }
+    }
+    return window.kite.revokeRemoteToken(tokenId)
+  },
+
+  listRemoteAccessLog: async (query?: RemoteAccessLogQuery): Promise<ApiResponse<RemoteAccessLogEntry[]>> => {
+    if (!isElectron()) {
+      return { success: false, error: 'Only available in desktop app' }
+    }
+    return window.kite.listRemoteAccessLog(query) as Promise<ApiResponse<RemoteAccessLogEntry[]>>
+  },
+
+  clearRemoteAccessLog: async (): Promise<ApiResponse> => {
+    if (!isElectron()) {
+      return { success: false, error: 'Only available in desktop app' }
+    }
+    return window.kite.clearRemoteAccessLog()
   },
 
   // ===== System Settings (Electron only) =====
@@ -1345,6 +1644,8 @@ export const api = {
     onEvent('agent:directive-resolution', callback),
   onAgentMcpStatus: (callback: (data: unknown) => void) =>
     onEvent('agent:mcp-status', callback),
+  onAgentProviderHealth: (callback: (data: unknown) => void) =>
+    onEvent('agent:provider-health', callback),
   onAgentCompact: (callback: (data: unknown) => void) =>
     onEvent('agent:compact', callback),
   onSkillsChanged: (callback: (data: unknown) => void) =>
@@ -1355,6 +1656,11 @@ export const api = {
     onEvent('agents:changed', callback),
   onRemoteStatusChange: (callback: (data: unknown) => void) =>
     onEvent('remote:status-change', callback),
+  // Remote mode only: the server could not replay missed events for a conversation
+  onRemoteResync: (callback: (data: unknown) => void) =>
+    onEvent('remote:resync', callback),
+  onWorkflowRunUpdate: (callback: (data: unknown) => void) =>
+    onEvent('workflow:run-update', callback),
 
   // ===== WebSocket Control =====
   connectWebSocket,
@@ -1490,6 +1796,26 @@ export const api = {
     return { success: false, error: 'Browser SOP recording only available in desktop app' }
   },
 
+  replayBrowserSop: async (options: {
+    viewId: string
+    spec?: { version: string; name: string; steps: unknown[]; parameters?: SopParameter[]; meta?: Record<string, unknown> }
+    skillName?: string
+    workDir?: string
+    variables?: Record<string, string>
+  }): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.replayBrowserSop(options)
+    }
+    return { success: false, error: 'Browser SOP replay only available in desktop app' }
+  },
+
+  stopBrowserSopReplay: async (viewId: string): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.stopBrowserSopReplay(viewId)
+    }
+    return { success: false, error: 'Browser SOP replay only available in desktop app' }
+  },
+
   setBrowserZoom: async (viewId: string, level: number): Promise<ApiResponse> => {
     if (isElectron()) {
       return window.kite.setBrowserZoom(viewId, level)
@@ -1517,6 +1843,9 @@ export const api = {
   onBrowserSopRecordingEvent: (callback: (data: unknown) => void) =>
     onEvent('browser:sop-recording:event', callback),
 
+  onBrowserSopReplayEvent: (callback: (data: unknown) => void) =>
+    onEvent('browser:sop-replay:event', callback),
+
   onBrowserZoomChanged: (callback: (data: { viewId: string; zoomLevel: number }) => void) =>
     onEvent('browser:zoom-changed', callback as (data: unknown) => void),
 
@@ -1566,6 +1895,23 @@ export const api = {
     })
   },
 
+  searchSimilar: async (
+    query: string,
+    scope: 'conversation' | 'space' | 'global',
+    conversationId?: string,
+    spaceId?: string
+  ): Promise<ApiResponse> => {
+    if (isElectron()) {
+      return window.kite.searchSimilar(query, scope, conversationId, spaceId)
+    }
+    return httpRequest('POST', '/api/search/semantic', {
+      query,
+      scope,
+      conversationId,
+      spaceId
+    })
+  },
+
   cancelSearch: async (): Promise<ApiResponse> => {
     if (isElectron()) {
       return window.kite.cancelSearch()
@@ -3,6 +3,8 @@
  * Automatically selects the appropriate transport based on environment
  */
 
+import { buildSessionKey } from '../../shared/session-key'
+
 // Detect if running in Electron (supports both window.kite and legacy window.halo)
 export function isElectron(): boolean {
   return typeof window !== 'undefined' && ('kite' in window || 'halo' in window)
@@ -96,9 +98,58 @@ export async function httpRequest<T>(
  * WebSocket connection for real-time events (remote mode)
  */
 let wsConnection: WebSocket | null = null
+let wsAuthenticated = false
 let wsReconnectTimer: ReturnType<typeof setTimeout> | null = null
 const wsEventListeners = new Map<string, Set<(data: unknown) => void>>()
 
+interface EventCursor {
+  runEpoch: number
+  seq: number
+}
+
+interface WsSubscription {
+  spaceId: string
+  conversationId: string
+  /** Newest (runEpoch, seq) received, sent on resubscribe so the server replays the gap */
+  lastSeen: EventCursor | null
+}
+
+// Kept across reconnects, keyed by session key
+const wsSubscriptions = new Map<string, WsSubscription>()
+
+function dispatchWsEvent(channel: string, data: unknown): void {
+  const listeners = wsEventListeners.get(channel)
+  if (listeners) {
+    for (const callback of listeners) {
+      callback(data)
+    }
+  }
+}
+
+function sendSubscribe(subscription: WsSubscription): void {
+  wsConnection?.send(
+    JSON.stringify({
+      type: 'subscribe',
+      payload: {
+        spaceId: subscription.spaceId,
+        conversationId: subscription.conversationId,
+        ...(subscription.lastSeen ? { lastSeen: subscription.lastSeen } : {})
+      }
+    })
+  )
+}
+
+function trackEventCursor(data: Record<string, unknown> | undefined): void {
+  if (!data || typeof data.sessionKey !== 'string') return
+  if (typeof data.runEpoch !== 'number' || typeof data.seq !== 'number') return
+  const subscription = wsSubscriptions.get(data.sessionKey)
+  if (!subscription) return
+  const { lastSeen } = subscription
+  if (!lastSeen || data.runEpoch > lastSeen.runEpoch || (data.runEpoch === lastSeen.runEpoch && data.seq > lastSeen.seq)) {
+    subscription.lastSeen = { runEpoch: data.runEpoch, seq: data.seq }
+  }
+}
+
 export function connectWebSocket(): void {
   if (!isRemoteClient()) return
   if (wsConnection?.readyState === WebSocket.OPEN) return
@@ -126,17 +177,36 @@ export function connectWebSocket(): void {
 
       if (message.type === 'auth:success') {
         console.log('[WS] Authenticated')
+        wsAuthenticated = true
+        // (Re)subscribe; after a drop the server replays what was missed
+        for (const subscription of Array.from(wsSubscriptions.values())) {
+          sendSubscribe(subscription)
+        }
+        return
+      }
+
+      // Token revoked or expired: same as an HTTP 401, back to the login page
+      if (message.type === 'auth:failed' || message.type === 'auth:revoked') {
+        console.warn(`[WS] ${message.type}, clearing token and redirecting to login`)
+        clearAuthToken()
+        document.cookie = 'kite_authenticated=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;'
+        window.location.reload()
         return
       }
 
       if (message.type === 'event') {
+        trackEventCursor(message.data)
         // Dispatch to registered listeners
-        const listeners = wsEventListeners.get(message.channel)
-        if (listeners) {
-          for (const callback of listeners) {
-            callback(message.data)
-          }
-        }
+        dispatchWsEvent(message.channel, message.data)
+        return
+      }
+
+      // Missed events are no longer buffered on the server: refetch the conversation
+      if (message.type === 'resync') {
+        const subscription = wsSubscriptions.get(message.sessionKey)
+        if (subscription) subscription.lastSeen = message.latest ?? null
+        console.warn(`[WS] Resync required for ${message.sessionKey}`)
+        dispatchWsEvent('remote:resync', { spaceId: message.spaceId, conversationId: message.conversationId })
       }
     } catch (error) {
       console.error('[WS] Failed to parse message:', error)
@@ -146,6 +216,7 @@ export function connectWebSocket(): void {
   wsConnection.onclose = () => {
     console.log('[WS] Disconnected')
     wsConnection = null
+    wsAuthenticated = false
 
     // Attempt to reconnect after 3 seconds
     if (isRemoteClient() && getAuthToken()) {
@@ -168,20 +239,21 @@ export function disconnectWebSocket(): void {
     wsConnection.close()
     wsConnection = null
   }
+  wsAuthenticated = false
 }
 
 export function subscribeToConversation(spaceId: string, conversationId: string): void {
-  if (wsConnection?.readyState === WebSocket.OPEN) {
-    wsConnection.send(
-      JSON.stringify({
-        type: 'subscribe',
-        payload: { spaceId, conversationId }
-      })
-    )
+  const sessionKey = buildSessionKey(spaceId, conversationId)
+  const subscription = wsSubscriptions.get(sessionKey) || { spaceId, conversationId, lastSeen: null }
+  wsSubscriptions.set(sessionKey, subscription)
+  // Before auth the subscription is sent once auth succeeds
+  if (wsAuthenticated && wsConnection?.readyState === WebSocket.OPEN) {
+    sendSubscribe(subscription)
   }
 }
 
 export function unsubscribeFromConversation(spaceId: string, conversationId: string): void {
+  wsSubscriptions.delete(buildSessionKey(spaceId, conversationId))
   if (wsConnection?.readyState === WebSocket.OPEN) {
     wsConnection.send(
       JSON.stringify({
@@ -211,13 +283,16 @@ export function onEvent(channel: string, callback: (data: unknown) => void): ()
       'agent:tools-available': 'onAgentToolsAvailable',
       'agent:directive-resolution': 'onAgentDirectiveResolution',
       'agent:mcp-status': 'onAgentMcpStatus',
+      'agent:provider-health': 'onAgentProviderHealth',
       'agent:compact': 'onAgentCompact',
       'skills:changed': 'onSkillsChanged',
       'commands:changed': 'onCommandsChanged',
       'agents:changed': 'onAgentsChanged',
       'remote:status-change': 'onRemoteStatusChange',
+      'workflow:run-update': 'onWorkflowRunUpdate',
       'browser:state-change': 'onBrowserStateChange',
       'browser:sop-recording:event': 'onBrowserSopRecordingEvent',
+      'browser:sop-replay:event': 'onBrowserSopReplayEvent',
       'browser:zoom-changed': 'onBrowserZoomChanged',
       'canvas:tab-action': 'onCanvasTabAction',
       'ai-browser:active-view-changed': 'onAIBrowserActiveViewChanged',
@@ -37,6 +37,7 @@ import {
   Search,
   Save,
   Trash2,
+  Braces,
 } from 'lucide-react'
 import { api } from '../../../api'
 import { canvasLifecycle, type TabState, type BrowserState } from '../../../services/canvas-lifecycle'
@@ -45,6 +46,13 @@ import { useAIBrowserStore } from '../../../stores/ai-browser.store'
 import { useSpaceStore } from '../../../stores/space.store'
 import { useSkillsStore } from '../../../stores/skills.store'
 import { useTranslation } from '../../../i18n'
+import { SopReplayPanel } from './SopReplayPanel'
+import { SOP_PARAMETER_TYPES, type SopParameter } from '../../../../shared/types/sop'
+import {
+  findSopParameterReferences,
+  normalizeSopParameters,
+  toSopParameterName,
+} from '../../../../shared/utils/sop-parameters'
 
 interface BrowserViewerProps {
   tab: TabState
@@ -113,6 +121,17 @@ function formatSemanticTarget(target?: SemanticTarget): string {
   )
 }
 
+const SOP_PARAMETER_ONLY_RE = /^\{\{\s*[\w.-]+\s*\}\}$/
+
+function inferSopParameterType(value: string): SopParameter['type'] {
+  const trimmed = value.trim()
+  if (trimmed && Number.isFinite(Number(trimmed))) return 'number'
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return 'date'
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return 'email'
+  if (/^https?:\/\//i.test(trimmed)) return 'url'
+  return 'string'
+}
+
 /**
  * Check if input is a valid URL or should be treated as search query
  */
@@ -174,6 +193,7 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
   })
   const [showSopPanel, setShowSopPanel] = useState(false)
   const [editableSteps, setEditableSteps] = useState<SopRecordedStep[]>([])
+  const [sopParameters, setSopParameters] = useState<SopParameter[]>([])
   const [sopSkillName, setSopSkillName] = useState(suggestSkillName(tab.title))
   const [sopSkillDescription, setSopSkillDescription] = useState('')
   const [isSavingSopSkill, setIsSavingSopSkill] = useState(false)
@@ -489,6 +509,7 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
     const state = result.data as SopRecordingState
     setSopState(state)
     setEditableSteps(state.steps || [])
+    setSopParameters([])
   }, [tab.browserViewId, t])
 
   const handleDeleteRecordedStep = useCallback((stepId: string) => {
@@ -508,6 +529,57 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
     )
   }, [])
 
+  // Declared parameters plus `{{name}}` references (e.g. redacted secrets), limited to ones still in use
+  const activeSopParameters = useMemo(() => {
+    const referenced = new Set(findSopParameterReferences(editableSteps))
+    return normalizeSopParameters(sopParameters, editableSteps).filter((parameter) => referenced.has(parameter.name))
+  }, [sopParameters, editableSteps])
+
+  const handlePromoteStepValue = useCallback((stepId: string) => {
+    const step = editableSteps.find((item) => item.id === stepId)
+    if (!step) return
+    const value = step.value || ''
+    const baseName = toSopParameterName(
+      step.target?.label || step.target?.name || step.target?.placeholder || step.target?.text || 'value'
+    ) || 'value'
+    const taken = new Set([...sopParameters.map((parameter) => parameter.name), ...findSopParameterReferences(editableSteps)])
+    let name = baseName
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${baseName}_${suffix}`
+    }
+
+    setSopParameters((prev) => [
+      ...prev,
+      {
+        name,
+        type: inferSopParameterType(value),
+        label: step.target?.label || step.target?.name || step.target?.placeholder || undefined,
+        ...(value.trim() ? { default: value } : {}),
+      },
+    ])
+    setEditableSteps((prev) => prev.map((item) => (item.id === stepId ? { ...item, value: `{{${name}}}` } : item)))
+  }, [editableSteps, sopParameters])
+
+  const handleSopParameterChange = useCallback((name: string, updates: Partial<SopParameter>) => {
+    setSopParameters((prev) =>
+      normalizeSopParameters(prev, editableSteps).map((parameter) => {
+        if (parameter.name !== name) return parameter
+        const next = { ...parameter, ...updates }
+        // Secrets never keep a default; it would be written into the skill file
+        return next.secret ? { ...next, default: undefined } : next
+      })
+    )
+  }, [editableSteps])
+
+  const handleRemoveSopParameter = useCallback((name: string) => {
+    const parameter = activeSopParameters.find((item) => item.name === name)
+    const token = new RegExp(`\\{\\{\\s*${name.replace(/[.-]/g, '\\$&')}\\s*\\}\\}`, 'g')
+    setEditableSteps((prev) =>
+      prev.map((step) => (step.value ? { ...step, value: step.value.replace(token, parameter?.default || '') } : step))
+    )
+    setSopParameters((prev) => prev.filter((item) => item.name !== name))
+  }, [activeSopParameters])
+
   const handleSaveSopSkill = useCallback(async () => {
     const workDir = resolvedWorkDir
     if (!workDir) {
@@ -542,6 +614,7 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
           version: '1.0',
           name: skillName,
           steps,
+          parameters: activeSopParameters,
           meta: {
             source: 'browser_view_recording',
             browserViewId: tab.browserViewId,
@@ -577,6 +650,7 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
     sopSkillName,
     sopSkillDescription,
     editableSteps,
+    activeSopParameters,
     loadSkills,
     t,
   ])
@@ -829,18 +903,81 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
                   </div>
 
                   {(step.action === 'fill' || step.action === 'select' || step.action === 'press_key' || step.action === 'navigate') && (
-                    <input
-                      value={step.value || ''}
-                      onChange={(event) => handleStepValueChange(step.id, event.target.value)}
-                      placeholder={t('Step value')}
-                      className="w-full h-7 px-2 rounded border border-border bg-background text-xs outline-none focus:border-primary/40"
-                    />
+                    <div className="flex items-center gap-1">
+                      <input
+                        value={step.value || ''}
+                        onChange={(event) => handleStepValueChange(step.id, event.target.value)}
+                        placeholder={t('Step value')}
+                        className="w-full h-7 px-2 rounded border border-border bg-background text-xs outline-none focus:border-primary/40"
+                      />
+                      {(step.action === 'fill' || step.action === 'select') && !SOP_PARAMETER_ONLY_RE.test(step.value || '') && (
+                        <button
+                          onClick={() => handlePromoteStepValue(step.id)}
+                          className="p-1 rounded hover:bg-secondary transition-colors"
+                          title={t('Make this value a parameter')}
+                        >
+                          <Braces className="w-3.5 h-3.5 text-muted-foreground" />
+                        </button>
+                      )}
+                    </div>
                   )}
                 </div>
               ))
             )}
           </div>
 
+          {activeSopParameters.length > 0 && (
+            <div className="space-y-1.5">
+              <div className="text-xs text-muted-foreground">
+                {t('Parameters are asked for each time the skill runs.')}
+              </div>
+              {activeSopParameters.map((parameter) => (
+                <div key={parameter.name} className="flex items-center gap-1.5">
+                  <code className="w-28 shrink-0 truncate text-[11px] text-primary" title={parameter.name}>
+                    {`{{${parameter.name}}}`}
+                  </code>
+                  <input
+                    value={parameter.label || ''}
+                    onChange={(event) => handleSopParameterChange(parameter.name, { label: event.target.value || undefined })}
+                    placeholder={t('Label')}
+                    className="min-w-0 flex-1 h-7 px-2 rounded border border-border bg-background text-xs outline-none focus:border-primary/40"
+                  />
+                  <select
+                    value={parameter.type}
+                    onChange={(event) => handleSopParameterChange(parameter.name, { type: event.target.value as SopParameter['type'] })}
+                    className="h-7 px-1 rounded border border-border bg-background text-xs outline-none focus:border-primary/40"
+                  >
+                    {SOP_PARAMETER_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={parameter.default || ''}
+                    onChange={(event) => handleSopParameterChange(parameter.name, { default: event.target.value || undefined })}
+                    placeholder={parameter.secret ? t('Asked every run') : t('Default')}
+                    disabled={parameter.secret}
+                    className="min-w-0 flex-1 h-7 px-2 rounded border border-border bg-background text-xs outline-none focus:border-primary/40 disabled:opacity-50"
+                  />
+                  <label className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={!!parameter.secret}
+                      onChange={(event) => handleSopParameterChange(parameter.name, { secret: event.target.checked || undefined })}
+                    />
+                    {t('Secret')}
+                  </label>
+                  <button
+                    onClick={() => handleRemoveSopParameter(parameter.name)}
+                    className="p-1 rounded hover:bg-secondary transition-colors"
+                    title={t('Remove parameter')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
             <input
               value={sopSkillName}
@@ -876,6 +1013,16 @@ export function BrowserViewer({ tab }: BrowserViewerProps) {
               <div className="mt-1 break-all font-mono text-[11px]">{lastSavedSopSkillPath}</div>
             </div>
           )}
+
+          {tab.browserViewId && (
+            <SopReplayPanel
+              viewId={tab.browserViewId}
+              workDir={resolvedWorkDir}
+              sopName={normalizeSkillName(sopSkillName) || 'recorded-sop'}
+              steps={editableSteps}
+              parameters={activeSopParameters}
+            />
+          )}
         </div>
       )}
 
@@ -18,10 +18,13 @@ import { useSpaceStore } from '../../../stores/space.store'
 import { useAIBrowserStore } from '../../../stores/ai-browser.store'
 import { useSmartScroll } from '../../../hooks/useSmartScroll'
 import { useCanvasLifecycle } from '../../../hooks/useCanvasLifecycle'
+import { useUndoChangesFromMessage } from '../../../hooks/useUndoChangesFromMessage'
 import { MessageList } from '../../chat/MessageList'
 import { InputArea } from '../../chat/InputArea'
 import { AskUserQuestionPanel } from '../../chat/AskUserQuestionPanel'
 import { ScrollToBottomButton } from '../../chat/ScrollToBottomButton'
+import { ProviderHealthNotice } from '../../chat/ProviderHealthNotice'
+import { ToolApprovalBar } from '../../chat/ToolApprovalBar'
 import { Sparkles } from '../../icons/ToolIcons'
 import { ChangeReviewBar } from '../../diff'
 import type { TabState } from '../../../services/canvas-lifecycle'
@@ -174,6 +177,11 @@ export function ChatTabViewer({ tab }: ChatTabViewerProps) {
 
   const currentChangeSets = conversationId ? (changeSets.get(conversationId) || []) : []
   const activeChangeSet = currentChangeSets.find((changeSet) => changeSet.status !== 'rolled_back')
+  const { undoableMessageIds, handleUndoChangesFrom } = useUndoChangesFromMessage(
+    spaceId,
+    conversationId,
+    currentChangeSets
+  )
   // Smart auto-scroll
   const {
     containerRef,
@@ -300,6 +308,8 @@ export function ChatTabViewer({ tab }: ChatTabViewerProps) {
                 availableToolsSnapshot={availableToolsSnapshot}
                 onOpenPlanInCanvas={handleOpenPlanInCanvas}
                 onExecutePlan={handleExecutePlan}
+                undoableMessageIds={undoableMessageIds}
+                onUndoChangesFrom={handleUndoChangesFrom}
               />
               <div ref={bottomRef} />
             </>
@@ -314,6 +324,10 @@ export function ChatTabViewer({ tab }: ChatTabViewerProps) {
       </div>
 
       {/* Input area */}
+      <ProviderHealthNotice />
+      {conversationId && session && session.pendingToolApprovals.length > 0 && (
+        <ToolApprovalBar conversationId={conversationId} toolCalls={session.pendingToolApprovals} />
+      )}
       {activeChangeSet && (
         <ChangeReviewBar
           changeSet={activeChangeSet}
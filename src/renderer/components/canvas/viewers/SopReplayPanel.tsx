@@ -0,0 +1,234 @@
+/**
+ * SopReplayPanel - Replays a recorded browser SOP without the model
+ *
+ * Replays either the steps in the SOP panel or a saved SOP skill directly in
+ * this browser view. Each step reports pass/fail with a screenshot; when a
+ * target can't be resolved the remaining steps can be handed to the agent.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Bot, CheckCircle2, CircleSlash, Loader2, Play, Square, XCircle } from 'lucide-react'
+import { api } from '../../../api'
+import { useChatStore } from '../../../stores/chat.store'
+import { useSkillsStore } from '../../../stores/skills.store'
+import { useTranslation } from '../../../i18n'
+import { getSopParameterErrors, SopParameterFields } from '../../chat/SopParameterPanel'
+import { loadSopSkillParameters } from '../../../utils/sop-skill'
+import type { SopParameter } from '../../../../shared/types/sop'
+
+interface SopReplayStepResult {
+  stepId: string
+  index: number
+  action: string
+  status: 'passed' | 'failed' | 'unresolved' | 'skipped'
+  attempts: number
+  durationMs: number
+  error?: string
+  resolvedTo?: string
+  screenshot?: string
+}
+
+interface SopReplayResult {
+  status: 'passed' | 'failed' | 'needs_agent' | 'cancelled'
+  steps: SopReplayStepResult[]
+  handoffPrompt?: string
+}
+
+interface SopReplayPanelProps {
+  viewId: string
+  workDir?: string
+  sopName: string
+  steps: Array<{ id: string; value?: string }>
+  parameters: SopParameter[]
+}
+
+const RECORDED_SOURCE = '__recorded__'
+
+export function SopReplayPanel({ viewId, workDir, sopName, steps, parameters }: SopReplayPanelProps) {
+  const { t } = useTranslation()
+  const skills = useSkillsStore((state) => state.skills)
+  const sendMessage = useChatStore((state) => state.sendMessage)
+  const [source, setSource] = useState(RECORDED_SOURCE)
+  const [variables, setVariables] = useState<Record<string, string>>({})
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [stepResults, setStepResults] = useState<SopReplayStepResult[]>([])
+  const [result, setResult] = useState<SopReplayResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showParameterErrors, setShowParameterErrors] = useState(false)
+
+  const spaceSkills = useMemo(() => skills.filter((skill) => skill.source === 'space'), [skills])
+  const [skillParameters, setSkillParameters] = useState<SopParameter[]>([])
+  const activeParameters = source === RECORDED_SOURCE ? parameters : skillParameters
+
+  useEffect(() => {
+    setSkillParameters([])
+    if (source === RECORDED_SOURCE) return
+    let cancelled = false
+    void loadSopSkillParameters(source, workDir).then((loaded) => {
+      if (!cancelled) setSkillParameters(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [source, workDir])
+
+  useEffect(() => {
+    return api.onBrowserSopReplayEvent((data) => {
+      const payload = data as { viewId: string; step: SopReplayStepResult }
+      if (payload.viewId !== viewId) return
+      setStepResults((prev) => [...prev.filter((step) => step.index !== payload.step.index), payload.step])
+    })
+  }, [viewId])
+
+  const handleReplay = useCallback(async () => {
+    if (Object.keys(getSopParameterErrors(activeParameters, variables)).length > 0) {
+      setShowParameterErrors(true)
+      return
+    }
+    setShowParameterErrors(false)
+    setIsReplaying(true)
+    setStepResults([])
+    setResult(null)
+    setError(null)
+    try {
+      const response = await api.replayBrowserSop({
+        viewId,
+        workDir,
+        variables,
+        ...(source === RECORDED_SOURCE
+          ? { spec: { version: '1.0', name: sopName, steps, parameters } }
+          : { skillName: source })
+      })
+      if (!response.success) {
+        setError(response.error || t('SOP replay failed'))
+        return
+      }
+      const replayResult = response.data as SopReplayResult
+      setResult(replayResult)
+      setStepResults(replayResult.steps)
+    } finally {
+      setIsReplaying(false)
+    }
+  }, [viewId, workDir, variables, source, sopName, steps, parameters, activeParameters, t])
+
+  const handleStop = useCallback(async () => {
+    await api.stopBrowserSopReplay(viewId)
+  }, [viewId])
+
+  const handleAskAgent = useCallback(async () => {
+    if (!result?.handoffPrompt) return
+    await sendMessage(result.handoffPrompt, undefined, true)
+  }, [result, sendMessage])
+
+  const statusIcon = (status: SopReplayStepResult['status']) => {
+    if (status === 'passed') return <CheckCircle2 className="w-3.5 h-3.5 text-kite-success" />
+    if (status === 'skipped') return <CircleSlash className="w-3.5 h-3.5 text-muted-foreground" />
+    if (status === 'unresolved') return <XCircle className="w-3.5 h-3.5 text-amber-500" />
+    return <XCircle className="w-3.5 h-3.5 text-red-500" />
+  }
+
+  const summary = result
+    ? {
+      passed: t('Replay passed'),
+      failed: t('Replay failed'),
+      needs_agent: t('A step could not be resolved'),
+      cancelled: t('Replay stopped'),
+    }[result.status]
+    : null
+
+  return (
+    <div className="space-y-2 border-t border-border/60 pt-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={source}
+          onChange={(event) => setSource(event.target.value)}
+          disabled={isReplaying}
+          className="h-7 min-w-0 flex-1 px-2 rounded border border-border bg-background text-xs outline-none focus:border-primary/40"
+        >
+          <option value={RECORDED_SOURCE}>{t('Recorded steps')}</option>
+          {spaceSkills.map((skill) => (
+            <option key={skill.path} value={skill.name}>/{skill.name}</option>
+          ))}
+        </select>
+        {isReplaying ? (
+          <button
+            onClick={handleStop}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded bg-red-500/15 text-red-500 text-xs hover:bg-red-500/20 transition-colors"
+          >
+            <Square className="w-3.5 h-3.5" />
+            {t('Stop')}
+          </button>
+        ) : (
+          <button
+            onClick={handleReplay}
+            disabled={source === RECORDED_SOURCE && steps.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded bg-primary/10 text-primary text-xs hover:bg-primary/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title={t('Run the steps directly, without the model')}
+          >
+            <Play className="w-3.5 h-3.5" />
+            {t('Replay')}
+          </button>
+        )}
+      </div>
+
+      {activeParameters.length > 0 && (
+        <SopParameterFields
+          parameters={activeParameters}
+          values={variables}
+          onChange={setVariables}
+          disabled={isReplaying}
+          showErrors={showParameterErrors}
+        />
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      {(isReplaying || stepResults.length > 0) && (
+        <div className="max-h-56 overflow-auto space-y-1.5 pr-1">
+          {isReplaying && stepResults.length === 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {t('Replaying...')}
+            </div>
+          )}
+          {stepResults.map((step) => (
+            <div key={step.index} className="flex items-start gap-2 rounded border border-border/60 bg-card/50 p-1.5">
+              <div className="mt-0.5">{statusIcon(step.status)}</div>
+              <div className="min-w-0 flex-1 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{step.index + 1}</span>
+                  <span className="uppercase tracking-wide text-primary text-[11px]">{step.action}</span>
+                  {step.resolvedTo && <span className="truncate text-muted-foreground">{step.resolvedTo}</span>}
+                  {step.attempts > 1 && (
+                    <span className="text-muted-foreground">{t('{{count}} attempts', { count: step.attempts })}</span>
+                  )}
+                </div>
+                {step.error && <div className="mt-0.5 text-red-500 break-all">{step.error}</div>}
+              </div>
+              {step.screenshot && (
+                <a href={step.screenshot} target="_blank" rel="noopener noreferrer">
+                  <img src={step.screenshot} alt="" className="h-10 w-16 rounded border border-border object-cover" />
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>{summary}</span>
+          {result?.handoffPrompt && (
+            <button
+              onClick={handleAskAgent}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+            >
+              <Bot className="w-3.5 h-3.5" />
+              {t('Ask agent to continue')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
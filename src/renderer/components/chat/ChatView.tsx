@@ -18,10 +18,14 @@ import { useOnboardingStore } from '../../stores/onboarding.store'
 import { useAIBrowserStore } from '../../stores/ai-browser.store'
 import { useCanvasLifecycle } from '../../hooks/useCanvasLifecycle'
 import { useSmartScroll } from '../../hooks/useSmartScroll'
+import { useUndoChangesFromMessage } from '../../hooks/useUndoChangesFromMessage'
 import { MessageList } from './MessageList'
 import { InputArea } from './InputArea'
 import { AskUserQuestionPanel } from './AskUserQuestionPanel'
+import { SopParameterPanel } from './SopParameterPanel'
 import { ScrollToBottomButton } from './ScrollToBottomButton'
+import { ProviderHealthNotice } from './ProviderHealthNotice'
+import { ToolApprovalBar } from './ToolApprovalBar'
 import { Sparkles } from '../icons/ToolIcons'
 import { ChangeReviewBar } from '../diff'
 import {
@@ -34,11 +38,28 @@ import { api } from '../../api'
 import type { ChatMode, FileContextAttachment, ImageAttachment, ToolCall } from '../../types'
 import { useTranslation } from '../../i18n'
 import { getAiSetupState } from '../../../shared/types/ai-profile'
+import type { SopParameter } from '../../../shared/types/sop'
+import {
+  buildSkillInvocation,
+  loadSopSkillParameters,
+  parseSkillInvocation,
+  type SopSkillInvocation
+} from '../../utils/sop-skill'
 
 interface ChatViewProps {
   isCompact?: boolean
 }
 
+// A send held back until the SOP skill's parameters are filled in
+interface PendingSopInvocation {
+  invocation: SopSkillInvocation
+  parameters: SopParameter[]
+  images?: ImageAttachment[]
+  thinkingEnabled?: boolean
+  fileContexts?: FileContextAttachment[]
+  mode?: ChatMode
+}
+
 const SEARCH_HIGHLIGHT_CLASS = 'search-highlight'
 const SEARCH_TERM_HIGHLIGHT_CLASS = 'search-term-highlight'
 const SEARCH_TERM_HIGHLIGHT_MARK_CLASSES = `${SEARCH_TERM_HIGHLIGHT_CLASS} bg-yellow-400/30 font-semibold rounded px-0.5`
@@ -228,6 +249,7 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
 
   // Mock onboarding state
   const [mockUserMessage, setMockUserMessage] = useState<string | null>(null)
+  const [pendingSopInvocation, setPendingSopInvocation] = useState<PendingSopInvocation | null>(null)
   const [mockAiResponse, setMockAiResponse] = useState<string | null>(null)
   const [mockStreamingContent, setMockStreamingContent] = useState<string>('')
   const [mockUserTimestamp, setMockUserTimestamp] = useState<string | null>(null)
@@ -472,6 +494,16 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
     const hasContent = content.trim() || (images && images.length > 0) || (fileContexts && fileContexts.length > 0)
     if (!hasContent || !currentSpaceId || !currentConversationId) return
 
+    // Recorded SOP skills with parameters collect missing values before the turn starts
+    const invocation = parseSkillInvocation(content)
+    if (invocation) {
+      const parameters = await loadSopSkillParameters(invocation.skillName, resolvedConversationWorkDir)
+      if (parameters.some((parameter) => !invocation.values[parameter.name]?.trim())) {
+        setPendingSopInvocation({ invocation, parameters, images, thinkingEnabled, fileContexts, mode })
+        return
+      }
+    }
+
     await submitTurn({
       spaceId: currentSpaceId,
       conversationId: currentConversationId,
@@ -484,6 +516,26 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
     })
   }
 
+  useEffect(() => {
+    setPendingSopInvocation(null)
+  }, [currentConversationId])
+
+  const handleSubmitSopParameters = async (values: Record<string, string>) => {
+    if (!pendingSopInvocation || !currentSpaceId || !currentConversationId) return
+    const { invocation, images, thinkingEnabled, fileContexts, mode } = pendingSopInvocation
+    await submitTurn({
+      spaceId: currentSpaceId,
+      conversationId: currentConversationId,
+      content: buildSkillInvocation({ ...invocation, values: { ...invocation.values, ...values } }),
+      images,
+      fileContexts,
+      thinkingEnabled,
+      mode,
+      aiBrowserEnabled
+    })
+    setPendingSopInvocation(null)
+  }
+
   const handleModeChange = useCallback((nextMode: ChatMode) => {
     if (!currentConversationId || !currentSpaceId) {
       return
@@ -541,6 +593,11 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
   const currentConversationSpaceId = currentSpaceId
   const currentChangeSets = currentConversationId ? (changeSets.get(currentConversationId) || []) : []
   const activeChangeSet = currentChangeSets.find((changeSet) => changeSet.status !== 'rolled_back')
+  const { undoableMessageIds, handleUndoChangesFrom } = useUndoChangesFromMessage(
+    currentSpaceId,
+    currentConversationId,
+    currentChangeSets
+  )
 
   // Track previous compact state for smooth transitions
   const prevCompactRef = useRef(isCompact)
@@ -604,6 +661,8 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
                 workDir={resolvedConversationWorkDir}
                 onOpenPlanInCanvas={handleOpenPlanInCanvas}
                 onExecutePlan={handleExecutePlan}
+                undoableMessageIds={undoableMessageIds}
+                onUndoChangesFrom={handleUndoChangesFrom}
               />
               <div ref={bottomRef} />
             </>
@@ -618,6 +677,10 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
       </div>
 
       {/* Input area */}
+      <ProviderHealthNotice />
+      {currentConversationId && session && session.pendingToolApprovals.length > 0 && (
+        <ToolApprovalBar conversationId={currentConversationId} toolCalls={session.pendingToolApprovals} />
+      )}
       {activeChangeSet && (
         <ChangeReviewBar
           changeSet={activeChangeSet}
@@ -653,6 +716,16 @@ export function ChatView({ isCompact = false }: ChatViewProps) {
           isCompact={isCompact}
         />
       )}
+      {pendingSopInvocation && currentConversationId && (
+        <SopParameterPanel
+          key={pendingSopInvocation.invocation.skillName}
+          skillName={pendingSopInvocation.invocation.skillName}
+          parameters={pendingSopInvocation.parameters}
+          initialValues={pendingSopInvocation.invocation.values}
+          onSubmit={handleSubmitSopParameters}
+          onCancel={() => setPendingSopInvocation(null)}
+        />
+      )}
       {!isGenerating && !pendingAskUserQuestion && failedAskUserQuestion && currentConversationId && (
         <AskUserQuestionPanel
           toolCall={failedAskUserQuestion}
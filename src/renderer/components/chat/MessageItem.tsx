@@ -15,7 +15,8 @@ import {
   Check,
   Bot,
   Zap,
-  Terminal
+  Terminal,
+  History
 } from 'lucide-react'
 import { MarkdownRenderer } from './MarkdownRenderer'
 import { MessageImages } from './ImageAttachmentPreview'
@@ -40,6 +41,7 @@ interface MessageItemProps {
   resourceDisplayLookups?: ComposerResourceDisplayLookups
   onOpenPlanInCanvas?: (planContent: string) => void
   onExecutePlan?: (planContent: string) => void
+  onUndoChangesFrom?: (messageId: string) => void  // Roll the space back to before this response
 }
 
 const EMPTY_RESOURCE_DISPLAY_LOOKUPS: ComposerResourceDisplayLookups = {
@@ -57,7 +59,8 @@ export const MessageItem = memo(function MessageItem({
   workDir,
   resourceDisplayLookups,
   onOpenPlanInCanvas,
-  onExecutePlan
+  onExecutePlan,
+  onUndoChangesFrom
 }: MessageItemProps) {
   const isUser = message.role === 'user'
   const isStreaming = (message as any).isStreaming
@@ -179,6 +182,18 @@ export const MessageItem = memo(function MessageItem({
           {/* Token usage indicator */}
           <TokenUsageIndicator tokenUsage={message.tokenUsage} previousCost={previousCost} />
 
+          {/* Undo file changes from this response onwards */}
+          {onUndoChangesFrom && (
+            <button
+              onClick={() => onUndoChangesFrom(message.id)}
+              className="flex items-center gap-1 px-2 py-1 text-[11px] text-muted-foreground/40
+                hover:text-foreground/70 hover:bg-secondary/30 rounded-lg transition-all duration-200"
+              title={t('Undo file changes from this response onwards')}
+            >
+              <History size={12} />
+            </button>
+          )}
+
           {/* Copy button */}
           <button
             onClick={handleCopyMessage}
@@ -234,6 +249,7 @@ export const MessageItem = memo(function MessageItem({
     prev.workDir === next.workDir &&
     prev.resourceDisplayLookups === next.resourceDisplayLookups &&
     prev.onOpenPlanInCanvas === next.onOpenPlanInCanvas &&
-    prev.onExecutePlan === next.onExecutePlan
+    prev.onExecutePlan === next.onExecutePlan &&
+    prev.onUndoChangesFrom === next.onUndoChangesFrom
   )
 })
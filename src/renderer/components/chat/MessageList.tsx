@@ -65,6 +65,8 @@ interface MessageListProps {
   workDir?: string  // For skill suggestion card creation
   onOpenPlanInCanvas?: (planContent: string) => void
   onExecutePlan?: (planContent: string) => void  // Callback when "Execute Plan" button is clicked
+  undoableMessageIds?: Set<string>  // Assistant messages whose file changes can still be rolled back
+  onUndoChangesFrom?: (messageId: string) => void
   toolStatusById?: Record<string, ToolStatus>
   availableToolsSnapshot?: AvailableToolsSnapshot
 }
@@ -453,6 +455,8 @@ export function MessageList({
   workDir,
   onOpenPlanInCanvas,
   onExecutePlan,
+  undoableMessageIds,
+  onUndoChangesFrom,
   toolStatusById = {},
   availableToolsSnapshot
 }: MessageListProps) {
@@ -661,6 +665,7 @@ export function MessageList({
                   resourceDisplayLookups={resourceDisplayLookups}
                   onOpenPlanInCanvas={onOpenPlanInCanvas}
                   onExecutePlan={onExecutePlan}
+                  onUndoChangesFrom={undoableMessageIds?.has(message.id) ? onUndoChangesFrom : undefined}
                 />
               </div>
             </div>
@@ -675,6 +680,7 @@ export function MessageList({
             resourceDisplayLookups={resourceDisplayLookups}
             onOpenPlanInCanvas={onOpenPlanInCanvas}
             onExecutePlan={onExecutePlan}
+            onUndoChangesFrom={undoableMessageIds?.has(message.id) ? onUndoChangesFrom : undefined}
           />
         )
       })}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Check, ChevronDown, Cpu } from 'lucide-react'
 import { useChatStore } from '../../stores/chat.store'
+import { useSpaceStore } from '../../stores/space.store'
 import { useTranslation } from '../../i18n'
 import type { ApiProfile, ConversationAiConfig, KiteConfig } from '../../types'
 
@@ -31,6 +32,10 @@ export function ModelSwitcher({
 }: ModelSwitcherProps) {
   const { t } = useTranslation()
   const updateConversationAi = useChatStore(state => state.updateConversationAi)
+  const updateSpacePreferences = useSpaceStore(state => state.updateSpacePreferences)
+  const spaceFallbackProfileIds = useSpaceStore(
+    state => (spaceId ? state.getSpacePreferences(spaceId)?.ai?.fallbackProfileIds : undefined)
+  )
   const [isOpen, setIsOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const panelRef = useRef<HTMLDivElement>(null)
@@ -69,6 +74,13 @@ export function ModelSwitcher({
   )
   const displayLabel = currentOption?.displayName || (activeProfile?.name || t('No profile'))
 
+  // Conversation chain wins over the space chain; an empty conversation chain disables fallback
+  const conversationFallbackIds = conversation?.ai?.fallbackProfileIds
+  const inheritsSpaceChain = !Array.isArray(conversationFallbackIds)
+  const fallbackProfileIds = (conversationFallbackIds ?? spaceFallbackProfileIds ?? [])
+    .filter(id => id !== profileId && profiles.some(p => p.id === id))
+  const fallbackCandidates = profiles.filter(p => p.id !== profileId)
+
   const disableReason = useMemo(() => {
     if (isGenerating) return t('Stop generation before switching model')
     if (!spaceId || !conversation?.id) return t('No active conversation')
@@ -102,6 +114,7 @@ export function ModelSwitcher({
     try {
       const override = option.model === profiles.find(p => p.id === option.profileId)?.defaultModel ? '' : option.model
       const success = await updateConversationAi(spaceId, conversation.id, {
+        ...conversation.ai,
         profileId: option.profileId,
         modelOverride: override
       })
@@ -111,7 +124,34 @@ export function ModelSwitcher({
     } finally {
       setIsSaving(false)
     }
-  }, [conversation?.id, isDisabled, profiles, spaceId, updateConversationAi])
+  }, [conversation?.ai, conversation?.id, isDisabled, profiles, spaceId, updateConversationAi])
+
+  const handleFallbackToggle = useCallback(async (fallbackProfileId: string) => {
+    if (isDisabled || !spaceId || !conversation?.id) return
+    const next = fallbackProfileIds.includes(fallbackProfileId)
+      ? fallbackProfileIds.filter(id => id !== fallbackProfileId)
+      : [...fallbackProfileIds, fallbackProfileId]
+    setIsSaving(true)
+    try {
+      await updateConversationAi(spaceId, conversation.id, {
+        ...conversation.ai,
+        profileId,
+        fallbackProfileIds: next
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }, [conversation?.ai, conversation?.id, fallbackProfileIds, isDisabled, profileId, spaceId, updateConversationAi])
+
+  const handleSaveFallbackForSpace = useCallback(async () => {
+    if (isDisabled || !spaceId) return
+    setIsSaving(true)
+    try {
+      await updateSpacePreferences(spaceId, { ai: { fallbackProfileIds } })
+    } finally {
+      setIsSaving(false)
+    }
+  }, [fallbackProfileIds, isDisabled, spaceId, updateSpacePreferences])
 
   if (!conversation || !spaceId) {
     return null
@@ -158,6 +198,45 @@ export function ModelSwitcher({
               )
             })}
           </div>
+
+          {fallbackCandidates.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-border/50">
+              <div className="flex items-center justify-between mb-1.5">
+                <span className="text-xs font-medium text-foreground">{t('Fallback profiles')}</span>
+                <button
+                  onClick={handleSaveFallbackForSpace}
+                  className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  title={t('Use this fallback order for conversations in this space that have none of their own')}
+                >
+                  {t('Use for this space')}
+                </button>
+              </div>
+              <div className="text-[11px] text-muted-foreground mb-1.5">
+                {inheritsSpaceChain
+                  ? t('Inherited from space. Tried in order when the current profile fails.')
+                  : t('Tried in order when the current profile fails.')}
+              </div>
+              <div className="space-y-1">
+                {fallbackCandidates.map(profile => {
+                  const position = fallbackProfileIds.indexOf(profile.id)
+                  return (
+                    <button
+                      key={profile.id}
+                      onClick={() => handleFallbackToggle(profile.id)}
+                      className={`
+                        w-full px-2 py-1.5 rounded-md text-left text-xs transition-colors
+                        flex items-center justify-between gap-2
+                        ${position >= 0 ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50 text-foreground'}
+                      `}
+                    >
+                      <span className="truncate">{profile.name}</span>
+                      {position >= 0 && <span className="flex-shrink-0">#{position + 1}</span>}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
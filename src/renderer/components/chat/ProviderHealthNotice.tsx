@@ -0,0 +1,57 @@
+/**
+ * ProviderHealthNotice - Shows providers the router is holding requests for
+ *
+ * While a provider is degraded, turns keep waiting and retrying instead of
+ * failing, so this notice explains why a reply is slow to start.
+ */
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { useTranslation } from '../../i18n'
+import { useAppStore } from '../../stores/app.store'
+import type { ProviderHealth } from '../../types'
+
+function providerLabel(provider: ProviderHealth): string {
+  if (provider.profileName) return provider.profileName
+  try {
+    return new URL(provider.backendUrl).host
+  } catch {
+    return provider.backendUrl
+  }
+}
+
+export function ProviderHealthNotice() {
+  const { t } = useTranslation()
+  const degradedProviders = useAppStore(state => state.degradedProviders)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (degradedProviders.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [degradedProviders.length])
+
+  if (degradedProviders.length === 0) return null
+
+  return (
+    <div className="mx-4 mb-2 space-y-1">
+      {degradedProviders.map(provider => {
+        const seconds = Math.max(0, Math.ceil(((provider.retryAt ?? now) - now) / 1000))
+        return (
+          <div
+            key={provider.profileId ?? provider.backendUrl}
+            className="flex items-center gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-700"
+            title={provider.lastError}
+          >
+            <AlertTriangle size={14} className="flex-shrink-0" />
+            <span>
+              {seconds > 0
+                ? t('{{name}} is degraded, retrying in {{seconds}}s', { name: providerLabel(provider), seconds })
+                : t('{{name}} is degraded, retrying now', { name: providerLabel(provider) })}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
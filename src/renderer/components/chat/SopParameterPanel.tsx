@@ -0,0 +1,192 @@
+/**
+ * SopParameterPanel - Collects parameter values for a recorded SOP skill
+ *
+ * Shown above the input area (in the AskUserQuestionPanel style) when an SOP
+ * skill with parameters is invoked. `SopParameterFields` is reused wherever
+ * SOP parameters are entered: replay panel and workflow steps.
+ */
+
+import { useMemo, useState } from 'react'
+import { Check, ClipboardList, Loader2, X } from 'lucide-react'
+import { useTranslation } from '../../i18n'
+import type { SopParameter } from '../../../shared/types/sop'
+import { validateSopParameterValue } from '../../../shared/utils/sop-parameters'
+
+const INPUT_TYPES: Record<SopParameter['type'], string> = {
+  string: 'text',
+  number: 'number',
+  date: 'date',
+  email: 'email',
+  url: 'url'
+}
+
+interface SopParameterFieldsProps {
+  parameters: SopParameter[]
+  values: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+  disabled?: boolean
+  /** Show validation messages (after the first submit attempt) */
+  showErrors?: boolean
+  /** Allow `{{vars.x}}` style templates, so typed inputs become plain text */
+  allowTemplates?: boolean
+}
+
+export function getSopParameterErrors(
+  parameters: SopParameter[],
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {}
+  for (const parameter of parameters) {
+    const value = values[parameter.name] || ''
+    if (!value.trim() && !parameter.default) {
+      errors[parameter.name] = 'Required'
+      continue
+    }
+    const error = validateSopParameterValue(parameter, value)
+    if (error) errors[parameter.name] = error
+  }
+  return errors
+}
+
+export function SopParameterFields({
+  parameters,
+  values,
+  onChange,
+  disabled = false,
+  showErrors = false,
+  allowTemplates = false
+}: SopParameterFieldsProps) {
+  const { t } = useTranslation()
+  const errors = useMemo(
+    () => (allowTemplates ? {} : getSopParameterErrors(parameters, values)),
+    [allowTemplates, parameters, values]
+  )
+
+  return (
+    <div className="space-y-2">
+      {parameters.map((parameter) => {
+        const error = showErrors ? errors[parameter.name] : undefined
+        return (
+          <label key={parameter.name} className="block">
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground mb-1">
+              {parameter.label || parameter.name}
+              {parameter.label && <code className="text-[11px] opacity-70">{parameter.name}</code>}
+            </span>
+            <input
+              type={parameter.secret ? 'password' : allowTemplates ? 'text' : INPUT_TYPES[parameter.type]}
+              value={values[parameter.name] || ''}
+              onChange={(event) => onChange({ ...values, [parameter.name]: event.target.value })}
+              placeholder={parameter.default || (allowTemplates ? '{{vars.name}}' : '')}
+              disabled={disabled}
+              autoComplete={parameter.secret ? 'off' : undefined}
+              className={`w-full h-8 px-2.5 rounded-lg border bg-background text-sm
+                focus:outline-none focus:ring-1 focus:ring-primary/40 disabled:opacity-60
+                ${error ? 'border-destructive/60' : 'border-border/60'}`}
+            />
+            {error && <span className="mt-0.5 block text-xs text-destructive/90">{t(error)}</span>}
+          </label>
+        )
+      })}
+    </div>
+  )
+}
+
+interface SopParameterPanelProps {
+  skillName: string
+  parameters: SopParameter[]
+  initialValues?: Record<string, string>
+  onSubmit: (values: Record<string, string>) => Promise<void> | void
+  onCancel: () => void
+}
+
+export function SopParameterPanel({
+  skillName,
+  parameters,
+  initialValues = {},
+  onSubmit,
+  onCancel
+}: SopParameterPanelProps) {
+  const { t } = useTranslation()
+  const [values, setValues] = useState<Record<string, string>>(initialValues)
+  const [showErrors, setShowErrors] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    if (isSubmitting) return
+    if (Object.keys(getSopParameterErrors(parameters, values)).length > 0) {
+      setShowErrors(true)
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit(values)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('Failed to send message'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mx-4 mb-2 animate-slide-up">
+      <div className="rounded-2xl border border-border/25 bg-secondary/10 overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 bg-secondary/20 border-b border-border/20">
+          <div className="flex items-center gap-2">
+            <ClipboardList size={16} className="text-primary" />
+            <span className="text-xs font-medium text-primary/80">
+              {t('/{{name}} needs some values', { name: skillName })}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="p-1 rounded hover:bg-secondary/50 text-muted-foreground transition-colors"
+            title={t('Cancel')}
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <form
+          className="p-3"
+          onSubmit={(event) => {
+            event.preventDefault()
+            void handleSubmit()
+          }}
+        >
+          <SopParameterFields
+            parameters={parameters}
+            values={values}
+            onChange={setValues}
+            disabled={isSubmitting}
+            showErrors={showErrors}
+          />
+
+          <div className="flex items-center justify-end mt-3 pt-3 border-t border-border/20">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-lg
+                bg-primary text-primary-foreground hover:bg-primary/90
+                disabled:opacity-50 disabled:cursor-not-allowed
+                text-xs font-medium transition-colors"
+            >
+              {isSubmitting ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+              {t('Run skill')}
+            </button>
+          </div>
+
+          {error && (
+            <p className="mt-2 text-xs text-destructive/90 flex items-center gap-1">
+              <X size={12} />
+              {error}
+            </p>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
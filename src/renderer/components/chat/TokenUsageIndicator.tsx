@@ -115,6 +115,19 @@ export function TokenUsageIndicator({ tokenUsage, previousCost = 0, className =
                   </span>
                 </div>
               )}
+              {tokenUsage.answeredBy && (
+                <div className="flex justify-between gap-3 text-muted-foreground pt-1 border-t border-border/50">
+                  <span>{t('Answered by')}</span>
+                  <span
+                    className={tokenUsage.answeredBy.fallback ? 'text-amber-500' : 'text-foreground'}
+                    title={tokenUsage.answeredBy.model}
+                  >
+                    {tokenUsage.answeredBy.fallback
+                      ? t('{{name}} (fallback)', { name: tokenUsage.answeredBy.profileName })
+                      : tokenUsage.answeredBy.profileName}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Warning if near limit */}
@@ -0,0 +1,165 @@
+/**
+ * ToolApprovalBar - Answers tool calls that are waiting for approval
+ *
+ * Prompts are answered oldest first; "Approve all" clears the whole queue.
+ * Bash commands can also be remembered: the exact command or its prefix can be
+ * always allowed (or always denied) in this space or in every space.
+ * Saved rules are listed and revoked in Settings > Permissions.
+ */
+
+import { useMemo, useState } from 'react'
+import { ShieldQuestion } from 'lucide-react'
+import { useTranslation } from '../../i18n'
+import { useChatStore } from '../../stores/chat.store'
+import {
+  hasShellControlOperators,
+  suggestCommandPrefix,
+  type CommandRuleRequest,
+  type CommandRuleScope
+} from '../../../shared/types/command-rules'
+import type { ToolCall } from '../../types'
+
+interface ToolApprovalBarProps {
+  conversationId: string
+  toolCalls: ToolCall[]
+}
+
+export function ToolApprovalBar({ conversationId, toolCalls }: ToolApprovalBarProps) {
+  const { t } = useTranslation()
+  const approveTool = useChatStore(state => state.approveTool)
+  const approveAllTools = useChatStore(state => state.approveAllTools)
+  const rejectTool = useChatStore(state => state.rejectTool)
+  const [scope, setScope] = useState<CommandRuleScope>('space')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const [toolCall] = toolCalls
+  const command = toolCall?.name === 'Bash' && typeof toolCall.input?.command === 'string'
+    ? toolCall.input.command
+    : ''
+  const prefix = useMemo(() => (command ? suggestCommandPrefix(command) : ''), [command])
+  // Prefix rules never match chained commands, so only offer them for simple ones
+  const canRememberPrefix = !!prefix && !hasShellControlOperators(command)
+
+  const answer = async (approved: boolean, remember?: CommandRuleRequest) => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      if (approved) {
+        await approveTool(conversationId, toolCall.id, remember)
+      } else {
+        await rejectTool(conversationId, toolCall.id, remember)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const approveAll = async () => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      await approveAllTools(conversationId)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!toolCall) return null
+
+  const buttonClass = 'px-2.5 py-1 rounded-md text-xs transition-colors disabled:opacity-50'
+
+  return (
+    <div className="mx-4 mb-2 px-3 py-2.5 bg-amber-500/5 border border-amber-500/20 rounded-lg space-y-2">
+      <div className="flex items-start gap-2 text-xs">
+        <ShieldQuestion size={14} className="flex-shrink-0 mt-0.5 text-amber-600" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-foreground font-medium">
+              {t('{{tool}} is waiting for approval', { tool: toolCall.name })}
+            </span>
+            {toolCalls.length > 1 && (
+              <span className="text-muted-foreground">
+                {t('{{count}} more waiting', { count: toolCalls.length - 1 })}
+              </span>
+            )}
+          </div>
+          {command ? (
+            <code className="block mt-1 px-2 py-1 bg-secondary/60 rounded font-mono text-[11px] break-all">
+              {command}
+            </code>
+          ) : toolCall.description ? (
+            <div className="mt-0.5 text-muted-foreground break-all">{toolCall.description}</div>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button
+          onClick={() => answer(true)}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-primary text-primary-foreground hover:bg-primary/90`}
+        >
+          {t('Allow once')}
+        </button>
+        {command && (
+          <button
+            onClick={() => answer(true, { match: 'exact', scope })}
+            disabled={isSubmitting}
+            className={`${buttonClass} bg-secondary text-foreground hover:bg-secondary/80`}
+          >
+            {t('Always allow this command')}
+          </button>
+        )}
+        {canRememberPrefix && (
+          <button
+            onClick={() => answer(true, { match: 'prefix', scope, pattern: prefix })}
+            disabled={isSubmitting}
+            className={`${buttonClass} bg-secondary text-foreground hover:bg-secondary/80`}
+            title={t('Allow any command starting with {{prefix}}', { prefix })}
+          >
+            {t('Always allow "{{prefix}} …"', { prefix })}
+          </button>
+        )}
+        <button
+          onClick={() => answer(false)}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-secondary text-muted-foreground hover:text-foreground`}
+        >
+          {t('Deny')}
+        </button>
+        {toolCalls.length > 1 && (
+          <button
+            onClick={approveAll}
+            disabled={isSubmitting}
+            className={`${buttonClass} bg-secondary text-foreground hover:bg-secondary/80`}
+          >
+            {t('Approve all ({{count}})', { count: toolCalls.length })}
+          </button>
+        )}
+        {command && (
+          <button
+            onClick={() => answer(false, { match: 'exact', scope })}
+            disabled={isSubmitting}
+            className={`${buttonClass} text-red-500 hover:bg-red-500/10`}
+          >
+            {t('Always deny')}
+          </button>
+        )}
+
+        {command && (
+          <div className="ml-auto flex items-center gap-1 text-[11px] text-muted-foreground">
+            <span>{t('Remember for')}</span>
+            <select
+              value={scope}
+              onChange={(event) => setScope(event.target.value as CommandRuleScope)}
+              className="bg-transparent border border-border rounded px-1 py-0.5"
+            >
+              <option value="space">{t('This space')}</option>
+              <option value="global">{t('All spaces')}</option>
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
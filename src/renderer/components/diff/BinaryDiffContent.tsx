@@ -0,0 +1,98 @@
+/**
+ * BinaryDiffContent - Change summary for files without a line diff
+ *
+ * Binary files show their size before/after; images also get a
+ * side-by-side preview loaded from the change history snapshots.
+ */
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, ArrowRight } from 'lucide-react'
+import { api } from '../../api'
+import { useTranslation } from '../../i18n'
+import { formatFileSize } from '../../utils/imageProcessor'
+import type { BinaryFileChange } from './types'
+
+interface BinaryDiffContentProps {
+  fileName: string
+  change: BinaryFileChange
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon'
+}
+
+function useSnapshotUrl(spaceId: string, hash: string | undefined, mimeType: string | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    setUrl(null)
+    if (!hash || !mimeType) return
+    let cancelled = false
+    api.readChangeSnapshot(spaceId, hash).then((response) => {
+      if (!cancelled && response.success && response.data) {
+        setUrl(`data:${mimeType};base64,${response.data}`)
+      }
+    }).catch((error) => {
+      console.error('[BinaryDiffContent] Failed to load snapshot:', error)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [spaceId, hash, mimeType])
+
+  return url
+}
+
+export function BinaryDiffContent({ fileName, change }: BinaryDiffContentProps) {
+  const { t } = useTranslation()
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  const mimeType = change.snapshotSkipped ? undefined : IMAGE_MIME_TYPES[extension]
+  const beforeUrl = useSnapshotUrl(change.spaceId, change.beforeHash, mimeType)
+  const afterUrl = useSnapshotUrl(change.spaceId, change.afterHash, mimeType)
+
+  const sizeLabel = (size?: number) => (size === undefined ? t('none') : formatFileSize(size))
+
+  return (
+    <div className="p-4 space-y-3 text-xs">
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <span>{change.snapshotSkipped ? t('Large file changed') : t('Binary file changed')}</span>
+        <span className="font-mono text-foreground/80">{sizeLabel(change.beforeSize)}</span>
+        <ArrowRight size={12} />
+        <span className="font-mono text-foreground/80">{sizeLabel(change.afterSize)}</span>
+      </div>
+
+      {change.snapshotSkipped && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 p-2 text-amber-600">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+          <span>{t('This file exceeds the snapshot size limit, so its previous content was not saved and it cannot be rolled back.')}</span>
+        </div>
+      )}
+
+      {mimeType && (
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            { label: t('Before'), url: beforeUrl, exists: Boolean(change.beforeHash) },
+            { label: t('After'), url: afterUrl, exists: Boolean(change.afterHash) }
+          ].map(side => (
+            <div key={side.label} className="rounded-lg border border-border/30 bg-background/30 overflow-hidden">
+              <div className="px-2 py-1 border-b border-border/20 text-[11px] text-muted-foreground">{side.label}</div>
+              <div className="flex items-center justify-center min-h-[120px] p-2">
+                {side.url ? (
+                  <img src={side.url} alt={`${fileName} ${side.label}`} className="max-h-[320px] max-w-full object-contain" />
+                ) : (
+                  <span className="text-muted-foreground/60">{side.exists ? t('Loading...') : t('No file')}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
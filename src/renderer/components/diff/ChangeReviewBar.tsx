@@ -5,9 +5,11 @@
  * 1. Collapsed summary bar
  * 2. Expanded file list
  * 3. Inline diff preview per file + full diff modal
+ *
+ * Change set lists carry no file contents; they are loaded when expanded.
  */
 
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import {
   CheckCircle2,
   CornerDownLeft,
@@ -21,8 +23,9 @@ import {
 } from 'lucide-react'
 import { DiffModal } from './DiffModal'
 import { DiffContent } from './DiffContent'
+import { BinaryDiffContent } from './BinaryDiffContent'
 import type { ChangeFile, ChangeSet } from '../../types'
-import type { FileChange } from './types'
+import type { BinaryFileChange, FileChange } from './types'
 import { useTranslation } from '../../i18n'
 import { api } from '../../api'
 
@@ -33,7 +36,25 @@ interface ChangeReviewBarProps {
   onRollbackFile: (filePath?: string, force?: boolean) => Promise<{ changeSet: ChangeSet | null; conflicts: string[] }>
 }
 
-function mapToFileChange(file: ChangeFile): FileChange {
+function toBinaryChange(spaceId: string, file: ChangeFile): BinaryFileChange | undefined {
+  if (!file.binary && !file.snapshotSkipped) return undefined
+  return {
+    spaceId,
+    beforeHash: file.beforeHash,
+    afterHash: file.afterHash,
+    beforeSize: file.beforeSize,
+    afterSize: file.afterSize,
+    snapshotSkipped: file.snapshotSkipped
+  }
+}
+
+function withContents(file: ChangeFile, contents: ChangeSet | null): ChangeFile {
+  const loaded = contents?.files.find(item => item.id === file.id)
+  return loaded ? { ...file, beforeContent: loaded.beforeContent, afterContent: loaded.afterContent } : file
+}
+
+function mapToFileChange(spaceId: string, file: ChangeFile): FileChange {
+  const binary = toBinaryChange(spaceId, file)
   if (file.type === 'create') {
     return {
       id: file.id,
@@ -41,7 +62,8 @@ function mapToFileChange(file: ChangeFile): FileChange {
       fileName: file.fileName,
       type: 'write',
       content: file.afterContent || '',
-      stats: file.stats
+      stats: file.stats,
+      binary
     }
   }
 
@@ -55,7 +77,8 @@ function mapToFileChange(file: ChangeFile): FileChange {
     type: 'edit',
     oldString,
     newString,
-    stats: file.stats
+    stats: file.stats,
+    binary
   }
 }
 
@@ -74,11 +97,32 @@ export function ChangeReviewBar({
     index: 0
   })
 
+  const [loaded, setLoaded] = useState<ChangeSet | null>(null)
+  const contents = loaded?.id === changeSet.id ? loaded : null
+
+  useEffect(() => {
+    if (!isExpanded || contents) return
+    let cancelled = false
+    api.getChangeSet(changeSet.spaceId, changeSet.conversationId, changeSet.id).then((response) => {
+      if (!cancelled && response.success && response.data) {
+        setLoaded(response.data as ChangeSet)
+      }
+    }).catch((error) => {
+      console.error('[ChangeReviewBar] Failed to load change set contents:', error)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [changeSet.spaceId, changeSet.conversationId, changeSet.id, isExpanded, contents])
+
   const files = changeSet.files
-  const allFiles = useMemo(() => files.map(mapToFileChange), [files])
+  const allFiles = useMemo(
+    () => files.map(file => mapToFileChange(changeSet.spaceId, withContents(file, contents))),
+    [changeSet.spaceId, files, contents]
+  )
 
   const handleOpenModal = (file: ChangeFile) => {
-    const mapped = mapToFileChange(file)
+    const mapped = mapToFileChange(changeSet.spaceId, file)
     const index = allFiles.findIndex(f => f.id === mapped.id)
     setModalState({ isOpen: true, file: mapped, index: index >= 0 ? index : 0 })
   }
@@ -101,8 +145,8 @@ export function ChangeReviewBar({
     const result = await onRollbackFile(filePath, false)
     if (result.conflicts.length > 0) {
       const message = result.conflicts.length === 1
-        ? t('This file has local edits. Rollback will discard them. Continue?')
-        : t('Some files have local edits. Rollback will discard them. Continue?')
+        ? t('This file has local edits that cannot be merged. Rollback will discard them. Continue?')
+        : t('Some files have local edits that cannot be merged. Rollback will discard them. Continue?')
       const confirm = window.confirm(message)
       if (confirm) {
         await onRollbackFile(filePath, true)
@@ -149,7 +193,9 @@ export function ChangeReviewBar({
               <div className="max-h-[260px] overflow-y-auto">
                 {files.map((file) => {
                   const isExpandedFile = expandedFileId === file.id
+                  const diffFile = withContents(file, contents)
                   const isRolledBack = file.status === 'rolled_back'
+                  const isUnrecoverable = Boolean(file.snapshotSkipped && file.beforeExists)
                   const Icon = file.type === 'create' ? FilePlus : file.type === 'delete' ? FileX : FileText
 
                   return (
@@ -182,7 +228,9 @@ export function ChangeReviewBar({
                           </button>
                           <button
                             onClick={() => handleRollback(file.path)}
-                            className="flex items-center gap-1 rounded-md px-2 py-1 text-[11px] text-amber-400/90 hover:text-amber-300 hover:bg-amber-500/10 transition-colors"
+                            disabled={isUnrecoverable}
+                            title={isUnrecoverable ? t('Previous content was too large to snapshot') : undefined}
+                            className={`flex items-center gap-1 rounded-md px-2 py-1 text-[11px] transition-colors ${isUnrecoverable ? 'text-muted-foreground/40 cursor-not-allowed' : 'text-amber-400/90 hover:text-amber-300 hover:bg-amber-500/10'}`}
                           >
                             <CornerDownLeft size={12} />
                             {file.type === 'create' ? t('Delete') : t('Rollback')}
@@ -193,14 +241,23 @@ export function ChangeReviewBar({
                       {isExpandedFile && (
                         <div className="px-3 pb-3">
                           <div className="rounded-lg border border-border/30 bg-background/30 overflow-hidden">
-                            <DiffContent
-                              type={file.type === 'create' ? 'write' : 'edit'}
-                              oldString={file.beforeContent || ''}
-                              newString={file.type === 'delete' ? '' : (file.afterContent || '')}
-                              content={file.afterContent}
-                              fileName={file.fileName}
-                              stats={file.stats}
-                            />
+                            {file.binary || file.snapshotSkipped ? (
+                              <BinaryDiffContent
+                                fileName={file.fileName}
+                                change={toBinaryChange(changeSet.spaceId, file)!}
+                              />
+                            ) : !contents ? (
+                              <div className="px-3 py-2 text-[11px] text-muted-foreground">{t('Loading...')}</div>
+                            ) : (
+                              <DiffContent
+                                type={file.type === 'create' ? 'write' : 'edit'}
+                                oldString={diffFile.beforeContent || ''}
+                                newString={file.type === 'delete' ? '' : (diffFile.afterContent || '')}
+                                content={diffFile.afterContent}
+                                fileName={file.fileName}
+                                stats={file.stats}
+                              />
+                            )}
                           </div>
 
                           <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
@@ -212,7 +269,7 @@ export function ChangeReviewBar({
                               {t('Open in editor')}
                             </button>
                             <button
-                              onClick={() => handleOpenModal(file)}
+                              onClick={() => handleOpenModal(diffFile)}
                               className="flex items-center gap-1 hover:text-foreground transition-colors"
                             >
                               <Maximize2 size={12} />
@@ -22,6 +22,7 @@ import {
 } from 'lucide-react'
 import { useState } from 'react'
 import { DiffContent } from './DiffContent'
+import { BinaryDiffContent } from './BinaryDiffContent'
 import type { FileChange } from './types'
 import { useTranslation } from '../../i18n'
 
@@ -244,15 +245,19 @@ export function DiffModal({
 
         {/* Diff content */}
         <div className="flex-1 overflow-auto bg-background/50">
-          <DiffContent
-            type={file.type}
-            oldString={file.oldString}
-            newString={file.newString}
-            content={file.content}
-            fileName={file.fileName}
-            editChunks={file.editChunks}
-            stats={file.stats}
-          />
+          {file.binary ? (
+            <BinaryDiffContent fileName={file.fileName} change={file.binary} />
+          ) : (
+            <DiffContent
+              type={file.type}
+              oldString={file.oldString}
+              newString={file.newString}
+              content={file.content}
+              fileName={file.fileName}
+              editChunks={file.editChunks}
+              stats={file.stats}
+            />
+          )}
         </div>
 
         {/* Footer hint */}
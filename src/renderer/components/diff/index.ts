@@ -11,10 +11,11 @@ export { FileChangesFooter } from './FileChangesFooter'
 export { FileChangesList } from './FileChangesList'
 export { DiffModal } from './DiffModal'
 export { DiffContent } from './DiffContent'
+export { BinaryDiffContent } from './BinaryDiffContent'
 export { ChangeReviewBar } from './ChangeReviewBar'
 
 // Types
-export type { FileChange, FileChanges, FileChangeType, DiffModalState, EditChunk } from './types'
+export type { BinaryFileChange, FileChange, FileChanges, FileChangeType, DiffModalState, EditChunk } from './types'
 
 // Utils
 export { extractFileChanges, hasFileChanges, getAllFileChanges, formatStats } from './utils'
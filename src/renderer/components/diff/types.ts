@@ -17,6 +17,16 @@ export interface EditChunk {
   }
 }
 
+// Binary or oversized file change (no line diff; snapshots loaded on demand)
+export interface BinaryFileChange {
+  spaceId: string
+  beforeHash?: string
+  afterHash?: string
+  beforeSize?: number
+  afterSize?: number
+  snapshotSkipped?: boolean  // Too large to snapshot, only sizes are known
+}
+
 // Single file change
 export interface FileChange {
   id: string
@@ -39,6 +49,9 @@ export interface FileChange {
 
   // For 'write' type - file content preview
   content?: string
+
+  // Set for binary or oversized files instead of text content
+  binary?: BinaryFileChange
 }
 
 // Aggregated file changes for a message
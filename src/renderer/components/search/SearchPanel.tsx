@@ -7,24 +7,32 @@
  * - global: Search across all spaces
  *
  * Features:
- * - Real-time progress tracking
+ * - Results update as you type (served from the main-process search index)
+ * - Query filters: role:, after:, before:, space:, tool:, "phrase", /regex/
+ * - "Similar meaning" mode backed by the semantic (embedding) index, which
+ *   also returns text artifacts
+ * - Indexing progress on the first search of a session
  * - Searchable result list with context preview
  * - Keyboard shortcuts (Esc to close)
  * - Click result to open conversation and scroll to message
  */
 
-import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { X } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { api } from '@/api'
 import { useChatStore } from '@/stores/chat.store'
 import { useSpaceStore } from '@/stores/space.store'
 import { useSearchStore } from '@/stores/search.store'
+import { useCanvasStore } from '@/stores/canvas.store'
 import { useTranslation } from '@/i18n'
 import { navigateToConversationContext } from '@/utils/space-conversation-navigation'
 import { shallow } from 'zustand/shallow'
+import { parseSearchQuery } from '../../../shared/utils/search-query'
+import type { SemanticSearchHit } from '../../../shared/types/semantic-search'
 
 export type SearchScope = 'conversation' | 'space' | 'global'
+type SearchMode = 'exact' | 'semantic'
 
 interface SearchResultItem {
   conversationId: string
@@ -38,6 +46,31 @@ interface SearchResultItem {
   matchCount: number
   contextBefore?: string
   contextAfter?: string
+  matchText?: string
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 200
+// Embedding the query may go out to an API, so wait a little longer
+const SEMANTIC_SEARCH_DEBOUNCE_MS = 400
+
+function formatResultTimestamp(value: string): string {
+  const timestamp = new Date(value)
+  return `${timestamp.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' })} ${timestamp.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`
+}
+
+function toSearchResultItem(hit: SemanticSearchHit): SearchResultItem {
+  return {
+    conversationId: hit.conversationId || '',
+    conversationTitle: hit.conversationTitle || '',
+    messageId: hit.messageId || '',
+    spaceId: hit.spaceId,
+    spaceName: hit.spaceName,
+    messageRole: hit.messageRole || 'assistant',
+    messageContent: hit.text,
+    messageTimestamp: hit.timestamp || '',
+    matchCount: 1
+  }
 }
 
 interface SearchPanelProps {
@@ -89,6 +122,11 @@ async function waitForMessageElement(
 export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
   const inputRef = useRef<HTMLInputElement>(null)
   const activeNavigationControllerRef = useRef<AbortController | null>(null)
+  const searchDebounceRef = useRef<number | null>(null)
+  const searchRequestRef = useRef(0)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [mode, setMode] = useState<SearchMode>('exact')
+  const [similarHits, setSimilarHits] = useState<SemanticSearchHit[] | null>(null)
   const { t } = useTranslation()
 
   const {
@@ -194,23 +232,49 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [isOpen, onClose])
 
-  const handleSearch = async () => {
-    if (!query.trim()) {
+  useEffect(() => {
+    return () => {
+      if (searchDebounceRef.current !== null) {
+        window.clearTimeout(searchDebounceRef.current)
+      }
+    }
+  }, [])
+
+  // Filters are not part of the similar-meaning query, so they cannot be wrong there
+  const queryErrors = useMemo(() => mode === 'exact' ? parseSearchQuery(query).errors : [], [query, mode])
+
+  const runSearch = async (text: string, scope: SearchScope, searchMode: SearchMode = mode) => {
+    if (searchDebounceRef.current !== null) {
+      window.clearTimeout(searchDebounceRef.current)
+      searchDebounceRef.current = null
+    }
+    // Responses to earlier keystrokes are dropped once a newer search starts
+    const requestId = ++searchRequestRef.current
+
+    if (!text.trim()) {
+      setIsSearching(false)
+      setResults(null)
+      setSimilarHits(null)
+      setSearchedQuery('')
+      setSearchError(null)
+      return
+    }
+    if (searchMode === 'exact' && parseSearchQuery(text).errors.length > 0) {
+      setIsSearching(false)
       return
     }
 
     setIsSearching(true)
     setProgress({ current: 0, total: 0 })
-    setResults([])
-    setSearchedQuery(query) // Capture the query at search time
+    setSearchError(null)
 
     try {
       // Determine actual scope and IDs based on user selection and current context
-      let actualScope = searchScope
+      let actualScope = scope
       let actualConvId: string | undefined
       let actualSpaceId: string | undefined
 
-      switch (searchScope) {
+      switch (scope) {
         case 'conversation':
           // Only search current conversation if we have one
           if (currentConversationId && currentSpaceId) {
@@ -244,25 +308,71 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
           break
       }
 
-      console.log('[Search] Executing:', { scope: actualScope, spaceId: actualSpaceId, conversationId: actualConvId })
+      console.log('[Search] Executing:', { mode: searchMode, scope: actualScope, spaceId: actualSpaceId, conversationId: actualConvId })
+
+      if (searchMode === 'semantic') {
+        const response = await api.searchSimilar(text, actualScope, actualConvId, actualSpaceId)
+        if (requestId !== searchRequestRef.current) return
+
+        if (response.success && response.data) {
+          setSimilarHits(response.data as SemanticSearchHit[])
+          setSearchedQuery(text)
+        } else if (response.error !== 'Search was cancelled') {
+          console.error('[Search] Semantic search error:', response.error)
+          setSearchError(response.error || t('Search failed'))
+        }
+        return
+      }
 
-      const response = await api.search(query, actualScope, actualConvId, actualSpaceId)
+      const response = await api.search(text, actualScope, actualConvId, actualSpaceId)
+      if (requestId !== searchRequestRef.current) return
 
       if (response.success && response.data) {
         const results = response.data as SearchResultItem[]
         setResults(results)
+        setSearchedQuery(text) // Capture the query that produced these results
         console.log(`[Search] Found ${results.length} results in ${actualScope} scope`)
-      } else {
+      } else if (response.error !== 'Search was cancelled') {
         console.error('[Search] Error:', response.error)
+        setSearchError(response.error || t('Search failed'))
       }
     } catch (error) {
       console.error('[Search] Exception:', error)
     } finally {
-      setIsSearching(false)
+      if (requestId === searchRequestRef.current) {
+        setIsSearching(false)
+      }
     }
   }
 
-  const handleResultClick = async (result: SearchResultItem) => {
+  const handleQueryChange = (text: string) => {
+    setQuery(text)
+    if (searchDebounceRef.current !== null) {
+      window.clearTimeout(searchDebounceRef.current)
+    }
+    searchDebounceRef.current = window.setTimeout(() => {
+      searchDebounceRef.current = null
+      void runSearch(text, searchScope)
+    }, mode === 'semantic' ? SEMANTIC_SEARCH_DEBOUNCE_MS : SEARCH_DEBOUNCE_MS)
+  }
+
+  const handleScopeChange = (scope: SearchScope) => {
+    setScope(scope)
+    if (query.trim()) {
+      void runSearch(query, scope)
+    }
+  }
+
+  const handleModeChange = (nextMode: SearchMode) => {
+    if (nextMode === mode) return
+    setMode(nextMode)
+    setSearchError(null)
+    if (query.trim()) {
+      void runSearch(query, searchScope, nextMode)
+    }
+  }
+
+  const handleResultClick = async (result: SearchResultItem, navigationResults: SearchResultItem[] = results ?? []) => {
     console.log(`[Search] Clicking result: conv=${result.conversationId}, space=${result.spaceId}, msg=${result.messageId}`)
 
     cancelActiveNavigation()
@@ -297,7 +407,7 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
       console.log(`[Search] Conversation selected`)
 
       // Step 4: Show highlight bar with all results (enable navigation)
-      const resultsArray = results ?? []
+      const resultsArray = navigationResults
       console.log(`[Search] Showing highlight bar with ${resultsArray.length} results`)
       showHighlightBar(searchedQuery, resultsArray, resultsArray.findIndex(r => r.messageId === result.messageId))
 
@@ -316,7 +426,7 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
       const event = new CustomEvent('search:navigate-to-message', {
         detail: {
           messageId: result.messageId,
-          query: searchedQuery
+          query: result.matchText || searchedQuery
         }
       })
       window.dispatchEvent(event)
@@ -332,22 +442,35 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
     }
   }
 
+  const handleSimilarHitClick = (hit: SemanticSearchHit) => {
+    if (hit.kind === 'artifact') {
+      if (!hit.artifactPath) return
+      void useCanvasStore.getState().openFile(hit.artifactPath, hit.artifactName)
+      onClose()
+      return
+    }
+    const messageHits = (similarHits ?? [])
+      .filter(item => item.kind === 'message')
+      .map(toSearchResultItem)
+    void handleResultClick(toSearchResultItem(hit), messageHits)
+  }
+
   const handleCancel = async () => {
+    searchRequestRef.current++
     await api.cancelSearch()
     setIsSearching(false)
   }
 
   const formattedResults = useMemo(() => {
     if (!results) return null
-    return results.map((result) => {
-      const timestamp = new Date(result.messageTimestamp)
-      return {
-        ...result,
-        formattedTimestamp: `${timestamp.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' })} ${timestamp.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`
-      }
-    })
+    return results.map((result) => ({
+      ...result,
+      formattedTimestamp: formatResultTimestamp(result.messageTimestamp)
+    }))
   }, [results])
 
+  const shownResults = mode === 'semantic' ? similarHits : results
+
   if (!isOpen) {
     return null
   }
@@ -369,10 +492,10 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
             type="text"
             placeholder={t('Search...')}
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => handleQueryChange(e.target.value)}
             onKeyDown={(e) => {
               if (e.key === 'Enter') {
-                handleSearch()
+                void runSearch(query, searchScope)
               }
             }}
             className="flex-1 bg-transparent outline-none text-foreground text-sm"
@@ -385,13 +508,18 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
             <X size={16} />
           </button>
         </div>
-
-        {/* Scope Tabs */}
-        <div className="flex border-b border-border/30 px-5 pt-1">
+        {(queryErrors.length > 0 || searchError) && (
+          <div className="px-5 py-2 border-b border-border/30 text-xs text-destructive/90">
+            {queryErrors.length > 0 ? queryErrors.join(' · ') : searchError}
+          </div>
+        )}
+
+        {/* Scope Tabs + Mode */}
+        <div className="flex items-center border-b border-border/30 px-5 pt-1">
           {(['conversation', 'space', 'global'] as SearchScope[]).map((s) => (
             <button
               key={s}
-              onClick={() => setScope(s)}
+              onClick={() => handleScopeChange(s)}
               className={cn(
                 'px-4 py-2.5 border-b-2 text-sm font-medium transition-all duration-200',
                 searchScope === s
@@ -402,15 +530,36 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
               {scopeLabels[s]}
             </button>
           ))}
+          <div className="ml-auto flex items-center gap-0.5 rounded-lg bg-secondary/30 p-0.5">
+            {(['exact', 'semantic'] as SearchMode[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => handleModeChange(m)}
+                className={cn(
+                  'px-2.5 py-1 rounded-md text-[11px] font-medium transition-all duration-200',
+                  mode === m
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground/60 hover:text-foreground'
+                )}
+              >
+                {m === 'exact' ? t('Exact') : t('Similar meaning')}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Results or Loading State */}
         <div className="flex-1 overflow-y-auto p-5">
-          {isSearching ? (
+          {/* Keep current results on screen while the next keystroke is searched; only indexing shows progress */}
+          {isSearching && (progress.total > 0 || !shownResults?.length) ? (
             <div className="text-center py-12">
               <div className="mb-4 text-sm text-muted-foreground">{t('Searching {{scope}}...', { scope: scopeLabels[searchScope] })}</div>
               <div className="text-xs text-muted-foreground/50 mb-4 tabular-nums">
-                {t('Scanned {{current}} / {{total}} conversations', { current: progress.current, total: progress.total })}
+                {progress.total > 0
+                  ? mode === 'semantic'
+                    ? t('Embedded {{current}} / {{total}} sources', { current: progress.current, total: progress.total })
+                    : t('Indexed {{current}} / {{total}} conversations', { current: progress.current, total: progress.total })
+                  : '\u00a0'}
               </div>
               <div className="w-full max-w-xs mx-auto bg-secondary/30 rounded-full h-1 mb-5">
                 <div
@@ -427,7 +576,50 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
                 {t('Cancel search')}
               </button>
             </div>
-          ) : formattedResults !== null && formattedResults.length > 0 ? (
+          ) : mode === 'semantic' && similarHits !== null && similarHits.length > 0 ? (
+            <div className="space-y-2.5">
+              <div className="text-xs text-muted-foreground/50 font-medium">
+                {t('Found {{count}} results', { count: similarHits.length })}
+              </div>
+              {similarHits.map((hit, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => handleSimilarHitClick(hit)}
+                  className="w-full text-left p-3.5 rounded-xl border border-border/30 hover:bg-secondary/20 hover:border-border/50 transition-all duration-200 text-sm"
+                >
+                  <div className="flex items-start justify-between mb-2 gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-[11px] px-2 py-0.5 rounded-md bg-secondary/50 text-muted-foreground/60 flex-shrink-0">
+                          {hit.spaceName}
+                        </span>
+                        <span className="font-medium text-xs truncate text-foreground/80">
+                          {hit.kind === 'artifact' ? hit.artifactName : hit.conversationTitle}
+                        </span>
+                      </div>
+                      <div className="text-[11px] text-muted-foreground/40 mt-1 tabular-nums">
+                        {hit.timestamp ? formatResultTimestamp(hit.timestamp) : hit.artifactPath}
+                      </div>
+                    </div>
+                    <span className="text-[11px] px-2 py-0.5 rounded-md bg-primary/8 text-primary/70 flex-shrink-0 font-medium">
+                      {hit.kind === 'artifact' ? t('File') : hit.messageRole === 'user' ? t('You') : 'AI'}
+                    </span>
+                  </div>
+
+                  <div className="text-[13px] text-foreground/70 bg-secondary/15 p-2.5 rounded-lg mt-2 border-l-2 border-primary/30 line-clamp-4 whitespace-pre-wrap">
+                    {hit.text}
+                  </div>
+                  <div className="text-[11px] text-muted-foreground/40 mt-1.5 tabular-nums">
+                    {t('Similarity {{score}}', { score: hit.score.toFixed(2) })}
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : mode === 'semantic' && similarHits !== null ? (
+            <div className="text-center py-12">
+              <div className="text-sm text-muted-foreground/50">{t('No matching results found')}</div>
+            </div>
+          ) : mode === 'exact' && formattedResults !== null && formattedResults.length > 0 ? (
             <div className="space-y-2.5">
               <div className="text-xs text-muted-foreground/50 font-medium">
                 {t('Found {{count}} results', { count: formattedResults.length })}
@@ -461,7 +653,9 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
                   {/* Highlighted Context */}
                   <div className="text-[13px] text-foreground/70 bg-secondary/15 p-2.5 rounded-lg mt-2 border-l-2 border-primary/30">
                     <span className="text-muted-foreground/60">{result.contextBefore}</span>
-                    <span className="bg-yellow-500/20 font-semibold px-0.5 rounded">{searchedQuery}</span>
+                    {(result.matchText ?? searchedQuery) && (
+                      <span className="bg-yellow-500/20 font-semibold px-0.5 rounded">{result.matchText ?? searchedQuery}</span>
+                    )}
                     <span className="text-muted-foreground/60">{result.contextAfter}</span>
                   </div>
 
@@ -473,13 +667,23 @@ export function SearchPanel({ isOpen, onClose }: SearchPanelProps) {
                 </button>
               ))}
             </div>
-          ) : results !== null && results.length === 0 ? (
+          ) : mode === 'exact' && results !== null && results.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-sm text-muted-foreground/50">{t('No matching results found')}</div>
             </div>
           ) : (
             <div className="text-center py-12">
-              <div className="text-sm text-muted-foreground/40">{t('Enter search content, press Enter to search')}</div>
+              <div className="text-sm text-muted-foreground/40">{t('Type to search')}</div>
+              {mode === 'exact' ? (
+                <div className="text-xs text-muted-foreground/30 mt-2">
+                  {t('Filters')}: <code>role:user</code> <code>after:2026-01-31</code> <code>before:2026-03-01</code>{' '}
+                  <code>space:name</code> <code>tool:Bash</code> <code>"exact phrase"</code> <code>/regex/i</code>
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground/30 mt-2">
+                  {t('Finds messages and files about the same thing, even without the same words')}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,98 @@
+/**
+ * Command Rule List Component
+ * Lists remembered Bash approval answers (global and current space) and lets the user revoke them
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2 } from 'lucide-react'
+import { api } from '../../api'
+import { useSpaceStore } from '../../stores/space.store'
+import { useTranslation } from '../../i18n'
+import type { ScopedCommandRule } from '../../types'
+
+export function CommandRuleList() {
+  const { t } = useTranslation()
+  const currentSpace = useSpaceStore(state => state.currentSpace)
+  const spaceId = currentSpace?.id
+  const [rules, setRules] = useState<ScopedCommandRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.listCommandRules(spaceId)
+    if (response.success) {
+      setRules(response.data || [])
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load command rules'))
+    }
+    setIsLoading(false)
+  }, [spaceId, t])
+
+  useEffect(() => {
+    void loadRules()
+  }, [loadRules])
+
+  const handleRemove = async (rule: ScopedCommandRule) => {
+    const response = await api.removeCommandRule(rule.scope, rule.id, spaceId)
+    if (!response.success) {
+      setError(response.error || t('Failed to remove command rule'))
+      return
+    }
+    setRules(prev => prev.filter(item => !(item.id === rule.id && item.scope === rule.scope)))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="font-medium">{t('Saved command rules')}</p>
+        <p className="text-sm text-muted-foreground">
+          {t('Commands you chose to always allow or deny. Matching commands run or are blocked without asking.')}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t('Loading...')}
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">{t('No saved command rules')}</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {rules.map(rule => (
+            <li key={`${rule.scope}:${rule.id}`} className="flex items-center gap-3 px-3 py-2 text-xs">
+              <span
+                className={`rounded px-1.5 py-0.5 font-medium ${
+                  rule.action === 'allow'
+                    ? 'bg-kite-success/15 text-kite-success'
+                    : 'bg-red-500/10 text-red-500'
+                }`}
+              >
+                {rule.action === 'allow' ? t('Allow') : t('Deny')}
+              </span>
+              <code className="min-w-0 flex-1 truncate font-mono" title={rule.pattern}>
+                {rule.match === 'prefix' ? `${rule.pattern} …` : rule.pattern}
+              </code>
+              <span className="text-muted-foreground">
+                {rule.scope === 'space'
+                  ? t('Space: {{name}}', { name: currentSpace?.name || '' })
+                  : t('All spaces')}
+              </span>
+              <button
+                onClick={() => handleRemove(rule)}
+                className="rounded p-1 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-500"
+                title={t('Revoke')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
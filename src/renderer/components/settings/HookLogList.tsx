@@ -0,0 +1,162 @@
+/**
+ * Hook Log List Component
+ * Shows recent hook invocations in the current space (newest first)
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { ChevronDown, ChevronRight, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { api } from '../../api'
+import { useTranslation } from '../../i18n'
+import type { HookInvocation } from '../../types'
+
+interface HookLogListProps {
+  spaceId: string
+  /** Bump to reload, e.g. after a dry run */
+  refreshKey?: number
+}
+
+const OUTCOME_CLASSES: Record<HookInvocation['outcome'], string> = {
+  success: 'bg-kite-success/15 text-kite-success',
+  error: 'bg-red-500/10 text-red-500',
+  cancelled: 'bg-amber-500/10 text-amber-600'
+}
+
+export function HookLogList({ spaceId, refreshKey = 0 }: HookLogListProps) {
+  const { t } = useTranslation()
+  const [entries, setEntries] = useState<HookInvocation[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLog = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.getHookLog(spaceId)
+    if (response.success) {
+      setEntries(response.data || [])
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load hook log'))
+    }
+    setIsLoading(false)
+  }, [spaceId, t])
+
+  useEffect(() => {
+    void loadLog()
+  }, [loadLog, refreshKey])
+
+  const handleClear = async () => {
+    const response = await api.clearHookLog(spaceId)
+    if (!response.success) {
+      setError(response.error || t('Failed to clear hook log'))
+      return
+    }
+    setEntries([])
+  }
+
+  const outcomeLabel = (outcome: HookInvocation['outcome']) => {
+    if (outcome === 'success') return t('Success')
+    if (outcome === 'cancelled') return t('Cancelled')
+    return t('Error')
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t('Hook log')}</p>
+          <p className="text-sm text-muted-foreground">
+            {t('Recent hook runs in this space. The log is kept in memory and resets when the app restarts.')}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => void loadLog()}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+            title={t('Refresh')}
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-500 disabled:opacity-50"
+            title={t('Clear')}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t('Loading...')}
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">{t('No hooks have run in this space yet')}</p>
+      ) : (
+        <ul className="max-h-96 divide-y divide-border overflow-y-auto rounded-lg border border-border">
+          {entries.map(entry => {
+            const isExpanded = expandedId === entry.id
+            return (
+              <li key={entry.id} className="text-xs">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-secondary/40"
+                >
+                  {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                  <span className={`rounded px-1.5 py-0.5 font-medium ${OUTCOME_CLASSES[entry.outcome]}`}>
+                    {outcomeLabel(entry.outcome)}
+                  </span>
+                  <span className="font-medium">{entry.eventType}</span>
+                  <code className="min-w-0 flex-1 truncate font-mono text-muted-foreground" title={entry.hookName}>
+                    {entry.hookName}
+                  </code>
+                  {entry.dryRun && (
+                    <span className="rounded bg-secondary px-1.5 py-0.5 text-muted-foreground">{t('Test')}</span>
+                  )}
+                  <span className="text-muted-foreground">{entry.durationMs} ms</span>
+                  <span className="text-muted-foreground">{new Date(entry.startedAt).toLocaleTimeString()}</span>
+                </button>
+                {isExpanded && <HookInvocationDetails entry={entry} />}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function HookInvocationDetails({ entry }: { entry: HookInvocation }) {
+  const { t } = useTranslation()
+  const sections: Array<{ label: string; value?: string }> = [
+    { label: t('Error'), value: entry.error },
+    { label: t('Output'), value: entry.output },
+    { label: 'stdout', value: entry.stdout },
+    { label: 'stderr', value: entry.stderr }
+  ]
+  const visibleSections = sections.filter(section => section.value?.trim())
+
+  return (
+    <div className="space-y-2 px-3 pb-3">
+      {entry.exitCode !== undefined && (
+        <p className="text-muted-foreground">{t('Exit code: {{code}}', { code: entry.exitCode })}</p>
+      )}
+      {visibleSections.length === 0 ? (
+        <p className="text-muted-foreground">{t('The hook produced no output')}</p>
+      ) : (
+        visibleSections.map(section => (
+          <div key={section.label}>
+            <p className="mb-1 text-muted-foreground">{section.label}</p>
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-secondary/60 px-2 py-1 font-mono text-[11px]">
+              {section.value}
+            </pre>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+/**
+ * Hook Tester Component
+ * Runs a hook definition once against a sample event payload, without an agent turn
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { Loader2, Play } from 'lucide-react'
+import { api } from '../../api'
+import { useTranslation } from '../../i18n'
+import { HookInvocationDetails } from './HookLogList'
+import { describeHookCommand, HOOK_EVENT_TYPES } from '../../../shared/types/hook-log'
+import type { HookCommand, HookEventType, HookInvocation, HooksConfig } from '../../types'
+
+interface HookTesterProps {
+  spaceId: string
+  onTested?: (result: HookInvocation) => void
+}
+
+const HOOK_TEMPLATES: Record<HookCommand['type'], HookCommand> = {
+  command: { type: 'command', command: 'cat' },
+  http: { type: 'http', url: 'http://localhost:8080/hook' },
+  builtin: { type: 'builtin', action: 'block-paths', paths: ['.env'] }
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2)
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  const parsed: unknown = JSON.parse(text)
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null
+}
+
+export function HookTester({ spaceId, onTested }: HookTesterProps) {
+  const { t } = useTranslation()
+  const [hooks, setHooks] = useState<HooksConfig>({})
+  const [eventType, setEventType] = useState<HookEventType>('PreToolUse')
+  const [hookText, setHookText] = useState(formatJson(HOOK_TEMPLATES.command))
+  const [inputText, setInputText] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<HookInvocation | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    void api.listHooks(spaceId).then(response => {
+      if (!cancelled && response.success) setHooks(response.data || {})
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [spaceId])
+
+  // Hooks configured for the selected event, flattened for the picker
+  const configuredHooks = useMemo(
+    () => (hooks[eventType] || []).flatMap(definition => definition.hooks),
+    [hooks, eventType]
+  )
+
+  const handleRun = async () => {
+    let hook: Record<string, unknown> | null
+    let input: Record<string, unknown> | null = null
+    try {
+      hook = parseJsonObject(hookText)
+      input = inputText.trim() ? parseJsonObject(inputText) : null
+    } catch {
+      setError(t('Hook and payload must be valid JSON'))
+      return
+    }
+    if (!hook) {
+      setError(t('Hook and payload must be valid JSON'))
+      return
+    }
+
+    setIsRunning(true)
+    setError(null)
+    const response = await api.testHook(spaceId, {
+      eventType,
+      hook: hook as unknown as HookCommand,
+      ...(input ? { input } : {})
+    })
+    setIsRunning(false)
+    if (!response.success || !response.data) {
+      setError(response.error || t('Failed to run hook'))
+      setResult(null)
+      return
+    }
+    setResult(response.data)
+    onTested?.(response.data)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{t('Test a hook')}</p>
+        <p className="text-sm text-muted-foreground">
+          {t('Send a sample event to a hook and see what it returns. No agent turn is started.')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={eventType}
+          onChange={(event) => setEventType(event.target.value as HookEventType)}
+          className="input-apple px-2 py-1 text-xs"
+        >
+          {HOOK_EVENT_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select
+          value=""
+          onChange={(event) => {
+            const value = event.target.value
+            if (value in HOOK_TEMPLATES) {
+              setHookText(formatJson(HOOK_TEMPLATES[value as HookCommand['type']]))
+            } else if (value) {
+              setHookText(formatJson(configuredHooks[Number(value.replace('configured:', ''))]))
+            }
+          }}
+          className="input-apple px-2 py-1 text-xs"
+        >
+          <option value="">{t('Load a hook...')}</option>
+          {configuredHooks.map((hook, index) => (
+            <option key={index} value={`configured:${index}`}>{describeHookCommand(hook)}</option>
+          ))}
+          <option value="command">{t('New shell command hook')}</option>
+          <option value="http">{t('New HTTP hook')}</option>
+          <option value="builtin">{t('New builtin hook')}</option>
+        </select>
+      </div>
+
+      <label className="block text-xs text-muted-foreground">
+        {t('Hook (JSON)')}
+        <textarea
+          value={hookText}
+          onChange={(event) => setHookText(event.target.value)}
+          rows={4}
+          spellCheck={false}
+          className="input-apple mt-1 w-full px-2 py-1.5 font-mono text-[11px]"
+        />
+      </label>
+
+      <label className="block text-xs text-muted-foreground">
+        {t('Payload overrides (JSON, optional)')}
+        <textarea
+          value={inputText}
+          onChange={(event) => setInputText(event.target.value)}
+          rows={2}
+          spellCheck={false}
+          placeholder='{ "tool_input": { "command": "rm -rf build" } }'
+          className="input-apple mt-1 w-full px-2 py-1.5 font-mono text-[11px]"
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+          {t('Run hook')}
+        </button>
+        {result && (
+          <span className="text-xs text-muted-foreground">
+            {t('{{outcome}} in {{duration}} ms', { outcome: result.outcome, duration: result.durationMs })}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {result && (
+        <div className="rounded-lg border border-border pt-2 text-xs">
+          <HookInvocationDetails entry={result} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,9 +6,13 @@ import {
   API_KEY_PLACEHOLDER_BY_PROTOCOL,
   API_URL_PLACEHOLDER_BY_PROTOCOL,
   isValidOpenAICompatEndpoint,
+  MAX_PROVIDER_CONCURRENCY,
+  MAX_PROVIDER_RETRIES,
   normalizeModelCatalog,
   normalizeModelCatalogForDefaultModelChange,
+  normalizeProviderRequestPolicy,
   PROTOCOL_LABELS,
+  resolveProviderRequestPolicy,
   VENDOR_LABELS
 } from './aiProfileDomain'
 import { ModelChip } from './ModelChip'
@@ -63,6 +67,11 @@ export function ProfileEditor({
   }
 
   const urlInvalid = profile.protocol === 'openai_compat' && !isValidOpenAICompatEndpoint(profile.apiUrl)
+  const requestPolicy = resolveProviderRequestPolicy(profile)
+
+  const updateRequestPolicy = (patch: Partial<typeof requestPolicy>) => {
+    onUpdate({ requestPolicy: normalizeProviderRequestPolicy({ ...requestPolicy, ...patch }) })
+  }
 
   const addModel = () => {
     const normalized = modelInput.trim()
@@ -185,6 +194,37 @@ export function ProfileEditor({
         </div>
       </div>
 
+      {profile.protocol === 'openai_compat' && (
+        <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <div>
+            <label className="mb-2 block text-xs font-medium uppercase tracking-wider text-muted-foreground">{t('Max Concurrent Requests')}</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_PROVIDER_CONCURRENCY}
+              value={requestPolicy.maxConcurrent}
+              onChange={(event) => updateRequestPolicy({ maxConcurrent: Number(event.target.value) })}
+              className="w-full px-4 py-2.5 input-apple text-sm"
+              disabled={disabled}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">{t('Requests sent to this provider at the same time')}</p>
+          </div>
+          <div>
+            <label className="mb-2 block text-xs font-medium uppercase tracking-wider text-muted-foreground">{t('Retries')}</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_PROVIDER_RETRIES}
+              value={requestPolicy.maxRetries}
+              onChange={(event) => updateRequestPolicy({ maxRetries: Number(event.target.value) })}
+              className="w-full px-4 py-2.5 input-apple text-sm"
+              disabled={disabled}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">{t('Retry rate limits, server errors and dropped connections with backoff')}</p>
+          </div>
+        </div>
+      )}
+
       <div className="mt-4">
         <label className="mb-2 block text-xs font-medium uppercase tracking-wider text-muted-foreground">{t('Model Catalog')}</label>
         <div className="mb-2 flex flex-wrap gap-1.5">
@@ -0,0 +1,112 @@
+/**
+ * Remote Access Log Component
+ * Lists recent remote logins, API calls and WebSocket sign-ins, including rejected and throttled ones
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { api } from '../../api'
+import { useTranslation } from '../../i18n'
+import type { RemoteAccessLogEntry } from '../../types'
+
+function statusClass(status: number): string {
+  if (status === 429) return 'text-amber-500'
+  if (status >= 400) return 'text-red-500'
+  return 'text-kite-success'
+}
+
+export function RemoteAccessLog() {
+  const { t } = useTranslation()
+  const [entries, setEntries] = useState<RemoteAccessLogEntry[]>([])
+  const [failuresOnly, setFailuresOnly] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.listRemoteAccessLog({ failuresOnly })
+    if (response.success) {
+      setEntries(response.data || [])
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load access log'))
+    }
+    setIsLoading(false)
+  }, [failuresOnly, t])
+
+  useEffect(() => {
+    void loadEntries()
+  }, [loadEntries])
+
+  const handleClear = async () => {
+    const response = await api.clearRemoteAccessLog()
+    if (!response.success) {
+      setError(response.error || t('Failed to clear access log'))
+      return
+    }
+    setEntries([])
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t('Access log')}</p>
+          <p className="text-sm text-muted-foreground">
+            {t('Recent sign-ins and requests from remote devices. Repeated failed attempts lock the address out for a while.')}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <button
+            onClick={() => void loadEntries()}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+            title={t('Refresh')}
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            onClick={handleClear}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-500"
+            title={t('Clear')}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={failuresOnly}
+          onChange={(event) => setFailuresOnly(event.target.checked)}
+        />
+        {t('Only failed attempts')}
+      </label>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t('Loading...')}
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">{t('No remote access recorded')}</p>
+      ) : (
+        <ul className="max-h-72 divide-y divide-border overflow-y-auto rounded-lg border border-border">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-3 px-3 py-1.5 text-xs" title={entry.userAgent}>
+              <span className="shrink-0 text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+              <span className={`w-8 shrink-0 font-mono ${statusClass(entry.status)}`}>{entry.status}</span>
+              <code className="min-w-0 flex-1 truncate font-mono" title={`${entry.method} ${entry.route}`}>
+                {entry.method} {entry.route}
+              </code>
+              <span className="shrink-0 text-muted-foreground">{entry.tokenName || '-'}</span>
+              <span className="shrink-0 font-mono text-muted-foreground">{entry.ip}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+/**
+ * Remote Token List Component
+ * Creates per-device remote access tokens (shown once, with a pairing QR code) and lets the user revoke them
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { api } from '../../api'
+import { useTranslation } from '../../i18n'
+import type { CreatedRemoteAccessToken, RemoteAccessToken, RemoteTokenScope } from '../../types'
+
+interface RemoteTokenListProps {
+  onCopy: (text: string) => void
+}
+
+const EXPIRY_OPTIONS = [7, 30, 90, 0]
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '-'
+}
+
+export function RemoteTokenList({ onCopy }: RemoteTokenListProps) {
+  const { t } = useTranslation()
+  const [tokens, setTokens] = useState<RemoteAccessToken[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState<RemoteTokenScope>('operator')
+  const [expiresInDays, setExpiresInDays] = useState(30)
+  const [created, setCreated] = useState<CreatedRemoteAccessToken | null>(null)
+
+  const scopeLabels: Record<RemoteTokenScope, string> = {
+    read: t('Read only'),
+    operator: t('Operator'),
+    admin: t('Admin')
+  }
+  const scopeHints: Record<RemoteTokenScope, string> = {
+    read: t('View spaces, conversations and artifacts'),
+    operator: t('Also send messages and approve tools'),
+    admin: t('Full control, including settings')
+  }
+
+  const loadTokens = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.listRemoteTokens()
+    if (response.success) {
+      setTokens(response.data || [])
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load device tokens'))
+    }
+    setIsLoading(false)
+  }, [t])
+
+  useEffect(() => {
+    void loadTokens()
+  }, [loadTokens])
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError(t('Enter a device name'))
+      return
+    }
+    setIsCreating(true)
+    const response = await api.createRemoteToken({
+      name: name.trim(),
+      scope,
+      expiresInDays: expiresInDays || null
+    })
+    setIsCreating(false)
+    if (!response.success || !response.data) {
+      setError(response.error || t('Failed to create device token'))
+      return
+    }
+    setError(null)
+    setName('')
+    setCreated(response.data)
+    setTokens(prev => [response.data!.token, ...prev])
+  }
+
+  const handleRevoke = async (token: RemoteAccessToken) => {
+    const response = await api.revokeRemoteToken(token.id)
+    if (!response.success) {
+      setError(response.error || t('Failed to revoke device token'))
+      return
+    }
+    setTokens(prev => prev.filter(item => item.id !== token.id))
+    if (created?.token.id === token.id) setCreated(null)
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{t('Devices')}</p>
+        <p className="text-sm text-muted-foreground">
+          {t('Each device signs in with its own token. Revoke a token to sign that device out.')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t('Device name, e.g. My phone')}
+          maxLength={64}
+          className="input-apple min-w-0 flex-1 px-2 py-1 text-xs"
+        />
+        <select
+          value={scope}
+          onChange={(event) => setScope(event.target.value as RemoteTokenScope)}
+          title={scopeHints[scope]}
+          className="input-apple px-2 py-1 text-xs"
+        >
+          {(Object.keys(scopeLabels) as RemoteTokenScope[]).map(value => (
+            <option key={value} value={value}>{scopeLabels[value]}</option>
+          ))}
+        </select>
+        <select
+          value={expiresInDays}
+          onChange={(event) => setExpiresInDays(Number(event.target.value))}
+          className="input-apple px-2 py-1 text-xs"
+        >
+          {EXPIRY_OPTIONS.map(days => (
+            <option key={days} value={days}>
+              {days ? t('Expires in {{count}} days', { count: days }) : t('Never expires')}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+          {t('Add device')}
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground">{scopeHints[scope]}</p>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {created && (
+        <div className="space-y-3 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs">
+          <p className="text-amber-500">
+            {t('Copy this token or scan the QR code now. It will not be shown again.')}
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 truncate rounded bg-background px-2 py-1 font-mono">{created.secret}</code>
+            <button
+              onClick={() => onCopy(created.secret)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              {t('Copy')}
+            </button>
+            <button
+              onClick={() => setCreated(null)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              {t('Done')}
+            </button>
+          </div>
+          {created.qrCode && (
+            <div className="flex flex-col items-center gap-2">
+              <div className="rounded-xl bg-white p-3">
+                <img src={created.qrCode} alt="QR Code" className="h-48 w-48" />
+              </div>
+              <p className="text-muted-foreground">{t('Scan with {{name}} to sign in', { name: created.token.name })}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t('Loading...')}
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">{t('No devices yet. Add one to sign in from another device.')}</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {tokens.map(token => {
+            const expired = token.expiresAt !== null && Date.parse(token.expiresAt) <= now
+            return (
+              <li key={token.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+                <span className="rounded bg-secondary px-1.5 py-0.5 font-medium">{scopeLabels[token.scope]}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium" title={token.name}>{token.name}</p>
+                  <p className="text-muted-foreground">
+                    {t('Created {{created}} · Last used {{used}}', {
+                      created: formatTime(token.createdAt),
+                      used: formatTime(token.lastUsedAt)
+                    })}
+                  </p>
+                </div>
+                <span className={expired ? 'text-red-500' : 'text-muted-foreground'}>
+                  {expired
+                    ? t('Expired')
+                    : token.expiresAt
+                    ? t('Expires {{time}}', { time: formatTime(token.expiresAt) })
+                    : t('Never expires')}
+                </span>
+                <button
+                  onClick={() => handleRevoke(token)}
+                  className="rounded p-1 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-500"
+                  title={t('Revoke')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,327 @@
+/**
+ * Run Explorer Component
+ * Lists recent agent runs from the local run store and drills into a
+ * waterfall of the run's phases and tool calls
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { api } from '../../api'
+import { useSpaceStore } from '../../stores/space.store'
+import { useTranslation } from '../../i18n'
+import type {
+  ObservabilityRunSort,
+  ObservabilityRunStatus,
+  ObservabilityRunSummary,
+  ObservabilityRunTrace,
+  ObservabilityToolTrace
+} from '../../types'
+
+const STATUS_CLASSES: Record<ObservabilityRunStatus, string> = {
+  completed: 'bg-kite-success/15 text-kite-success',
+  error: 'bg-red-500/10 text-red-500',
+  stopped: 'bg-amber-500/10 text-amber-600',
+  no_text: 'bg-amber-500/10 text-amber-600',
+  running: 'bg-secondary text-muted-foreground',
+  dropped: 'bg-secondary text-muted-foreground'
+}
+
+const STATUS_OPTIONS: ObservabilityRunStatus[] = ['completed', 'error', 'stopped', 'no_text']
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '-'
+  return ms >= 10_000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`
+}
+
+export function RunExplorer() {
+  const { t } = useTranslation()
+  const { spaces, kiteSpace } = useSpaceStore()
+  const [runs, setRuns] = useState<ObservabilityRunSummary[]>([])
+  const [models, setModels] = useState<string[]>([])
+  const [spaceId, setSpaceId] = useState('')
+  const [model, setModel] = useState('')
+  const [status, setStatus] = useState<ObservabilityRunStatus | ''>('')
+  const [sort, setSort] = useState<ObservabilityRunSort>('recent')
+  const [selectedRun, setSelectedRun] = useState<ObservabilityRunTrace | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const spaceNames = useMemo(() => {
+    const names = new Map<string, string>()
+    if (kiteSpace) names.set(kiteSpace.id, kiteSpace.name)
+    for (const space of spaces) names.set(space.id, space.name)
+    return names
+  }, [spaces, kiteSpace])
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true)
+    const response = await api.listObservabilityRuns({
+      spaceId: spaceId || undefined,
+      model: model || undefined,
+      status: status || undefined,
+      sort
+    })
+    if (response.success && response.data) {
+      setRuns(response.data.runs)
+      setModels(response.data.models)
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load runs'))
+    }
+    setIsLoading(false)
+  }, [spaceId, model, status, sort, t])
+
+  useEffect(() => {
+    void loadRuns()
+  }, [loadRuns])
+
+  const handleOpenRun = async (runId: string) => {
+    const response = await api.getObservabilityRun(runId)
+    if (response.success && response.data) {
+      setSelectedRun(response.data)
+      setError(null)
+    } else {
+      setError(response.error || t('Failed to load run'))
+    }
+  }
+
+  const handleClear = async () => {
+    const response = await api.clearObservabilityRuns()
+    if (!response.success) {
+      setError(response.error || t('Failed to clear runs'))
+      return
+    }
+    setRuns([])
+    setModels([])
+  }
+
+  if (selectedRun) {
+    return (
+      <RunWaterfall
+        run={selectedRun}
+        spaceName={spaceNames.get(selectedRun.spaceId) || selectedRun.spaceId}
+        onBack={() => setSelectedRun(null)}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium">{t('Recent runs')}</p>
+          <p className="text-sm text-muted-foreground">
+            {t('Every agent turn is recorded on this device, with or without a tracing service.')}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => void loadRuns()}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+            title={t('Refresh')}
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={runs.length === 0}
+            className="rounded p-1 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-500 disabled:opacity-50"
+            title={t('Clear')}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <select value={spaceId} onChange={(event) => setSpaceId(event.target.value)} className="input-apple px-2 py-1">
+          <option value="">{t('All spaces')}</option>
+          {Array.from(spaceNames.entries()).map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select value={model} onChange={(event) => setModel(event.target.value)} className="input-apple px-2 py-1">
+          <option value="">{t('All models')}</option>
+          {models.map(item => (
+            <option key={item} value={item}>{item}</option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={(event) => setStatus(event.target.value as ObservabilityRunStatus | '')}
+          className="input-apple px-2 py-1"
+        >
+          <option value="">{t('Any status')}</option>
+          {STATUS_OPTIONS.map(item => (
+            <option key={item} value={item}>{item}</option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(event) => setSort(event.target.value as ObservabilityRunSort)}
+          className="input-apple px-2 py-1"
+        >
+          <option value="recent">{t('Most recent')}</option>
+          <option value="slowest">{t('Slowest first')}</option>
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t('Loading...')}
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">{t('No runs recorded yet')}</p>
+      ) : (
+        <ul className="max-h-[28rem] divide-y divide-border overflow-y-auto rounded-lg border border-border">
+          {runs.map(run => (
+            <li key={run.runId} className="text-xs">
+              <button
+                onClick={() => void handleOpenRun(run.runId)}
+                className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-secondary/40"
+              >
+                <span className={`rounded px-1.5 py-0.5 font-medium ${STATUS_CLASSES[run.status]}`}>{run.status}</span>
+                <span className="min-w-0 flex-1 truncate">
+                  <span className="font-medium">{spaceNames.get(run.spaceId) || run.spaceId}</span>
+                  <span className="ml-2 text-muted-foreground">{run.model || run.provider}</span>
+                </span>
+                {run.toolSummary && run.toolSummary.total > 0 && (
+                  <span className="text-muted-foreground">{t('{{count}} tools', { count: run.toolSummary.total })}</span>
+                )}
+                <span className="w-16 text-right text-muted-foreground">{t('TTFT')} {formatDuration(run.ttftMs)}</span>
+                <span className="w-16 text-right font-medium tabular-nums">{formatDuration(run.durationMs)}</span>
+                <span className="text-muted-foreground">{new Date(run.startedAt).toLocaleString()}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface WaterfallRow {
+  key: string
+  label: string
+  startOffsetMs?: number
+  durationMs?: number
+  tool?: ObservabilityToolTrace
+}
+
+function RunWaterfall({ run, spaceName, onBack }: { run: ObservabilityRunTrace; spaceName: string; onBack: () => void }) {
+  const { t } = useTranslation()
+  const [expandedToolId, setExpandedToolId] = useState<string | null>(null)
+
+  const rows: WaterfallRow[] = [
+    ...run.phases.map(phase => ({
+      key: `phase:${phase.phase}`,
+      label: phase.phase,
+      startOffsetMs: phase.startOffsetMs,
+      durationMs: phase.durationMs
+    })),
+    ...run.tools.map(tool => ({
+      key: `tool:${tool.id}`,
+      label: tool.name,
+      startOffsetMs: tool.startOffsetMs,
+      durationMs: tool.durationMs,
+      tool
+    }))
+  ]
+  const totalMs = Math.max(
+    run.durationMs ?? 0,
+    ...rows.map(row => (row.startOffsetMs ?? 0) + (row.durationMs ?? 0)),
+    1
+  )
+
+  return (
+    <div className="space-y-3">
+      <button onClick={onBack} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <ArrowLeft size={12} />
+        {t('All runs')}
+      </button>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+        <span className={`rounded px-1.5 py-0.5 font-medium ${STATUS_CLASSES[run.status]}`}>{run.status}</span>
+        <span className="font-medium">{spaceName}</span>
+        <span className="text-muted-foreground">{run.provider} / {run.model}</span>
+        <span>{t('Total')} {formatDuration(run.durationMs)}</span>
+        <span>{t('TTFT')} {formatDuration(run.ttftMs)}</span>
+        {run.tokenUsage && (
+          <span className="text-muted-foreground">
+            {t('{{input}} in / {{output}} out tokens', { input: run.tokenUsage.inputTokens, output: run.tokenUsage.outputTokens })}
+          </span>
+        )}
+        <span className="text-muted-foreground">{new Date(run.startedAt).toLocaleString()}</span>
+      </div>
+      {run.errorMessage && <p className="text-xs text-red-500">{run.errorMessage}</p>}
+
+      <ul className="divide-y divide-border rounded-lg border border-border text-xs">
+        {rows.map(row => {
+          const isExpanded = row.tool !== undefined && expandedToolId === row.tool.id
+          const hasTiming = row.startOffsetMs !== undefined
+          const left = hasTiming ? ((row.startOffsetMs as number) / totalMs) * 100 : 0
+          const width = row.durationMs !== undefined ? Math.max((row.durationMs / totalMs) * 100, 0.5) : 100 - left
+          const barClass = !row.tool
+            ? 'bg-primary/60'
+            : row.tool.status === 'error'
+              ? 'bg-red-500/70'
+              : row.durationMs === undefined
+                ? 'bg-amber-500/40'
+                : 'bg-kite-success/60'
+          return (
+            <li key={row.key}>
+              <button
+                onClick={() => row.tool && setExpandedToolId(isExpanded ? null : row.tool.id)}
+                disabled={!row.tool}
+                className="flex w-full items-center gap-2 px-3 py-1.5 text-left enabled:hover:bg-secondary/40"
+              >
+                <span className="flex w-40 flex-shrink-0 items-center gap-1 truncate">
+                  {row.tool ? (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />) : <span className="w-3" />}
+                  <span className={row.tool ? 'font-mono' : 'text-muted-foreground'}>{row.label}</span>
+                </span>
+                <span className="relative h-3 flex-1 rounded bg-secondary/40">
+                  {hasTiming && (
+                    <span
+                      className={`absolute top-0 h-3 rounded ${barClass}`}
+                      style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+                    />
+                  )}
+                </span>
+                <span className="w-16 flex-shrink-0 text-right tabular-nums text-muted-foreground">
+                  {formatDuration(row.durationMs)}
+                </span>
+              </button>
+              {isExpanded && row.tool && <ToolTraceDetails tool={row.tool} />}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+function ToolTraceDetails({ tool }: { tool: ObservabilityToolTrace }) {
+  const { t } = useTranslation()
+  const sections: Array<{ label: string; value?: string }> = [
+    { label: t('Input'), value: tool.input },
+    { label: t('Error'), value: tool.error },
+    { label: t('Output'), value: tool.output }
+  ]
+
+  return (
+    <div className="space-y-2 px-3 pb-3">
+      <p className="text-muted-foreground">{t('Status')}: {tool.status}</p>
+      {sections.filter(section => section.value?.trim()).map(section => (
+        <div key={section.label}>
+          <p className="mb-1 text-muted-foreground">{section.label}</p>
+          <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-secondary/60 px-2 py-1 font-mono text-[11px]">
+            {section.value}
+          </pre>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,8 +1,20 @@
 import type { ApiProfile, ProviderProtocol, ProviderVendor } from '../../types'
 import { DEFAULT_MODEL } from '../../types'
-import { isValidOpenAICompatEndpoint } from '../../../shared/types/ai-profile'
-
-export { isValidOpenAICompatEndpoint }
+import {
+  isValidOpenAICompatEndpoint,
+  MAX_PROVIDER_CONCURRENCY,
+  MAX_PROVIDER_RETRIES,
+  normalizeProviderRequestPolicy,
+  resolveProviderRequestPolicy
+} from '../../../shared/types/ai-profile'
+
+export {
+  isValidOpenAICompatEndpoint,
+  MAX_PROVIDER_CONCURRENCY,
+  MAX_PROVIDER_RETRIES,
+  normalizeProviderRequestPolicy,
+  resolveProviderRequestPolicy
+}
 
 export function isValidAnthropicCompatEndpoint(url: string): boolean {
   return !isValidOpenAICompatEndpoint(url)
@@ -193,7 +193,7 @@ export function ToolCard({ toolCall, conversationId }: ToolCardProps) {
           </p>
           <div className="flex gap-2">
             <button
-              onClick={() => conversationId && approveTool(conversationId)}
+              onClick={() => conversationId && approveTool(conversationId, toolCall.id)}
               disabled={!conversationId}
               className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5 text-sm font-medium
                 bg-kite-success/15 text-kite-success rounded-xl
@@ -205,7 +205,7 @@ export function ToolCard({ toolCall, conversationId }: ToolCardProps) {
               {t('Allow')}
             </button>
             <button
-              onClick={() => conversationId && rejectTool(conversationId)}
+              onClick={() => conversationId && rejectTool(conversationId, toolCall.id)}
               disabled={!conversationId}
               className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5 text-sm font-medium
                 bg-destructive/10 text-destructive/80 rounded-xl
@@ -5,12 +5,26 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { X, Save, ListChecks, Plus, Trash2, GripVertical, Play } from 'lucide-react'
 import { useTranslation } from '../../i18n'
-import type { Workflow, WorkflowStep } from '../../types'
+import type { Workflow, WorkflowCondition, WorkflowParallelBranch, WorkflowStep, WorkflowTrigger } from '../../types'
+import {
+  DEFAULT_WORKFLOW_PARALLEL_CONCURRENCY,
+  MAX_WORKFLOW_LOOP_ITERATIONS,
+  MAX_WORKFLOW_PARALLEL_BRANCHES,
+  WORKFLOW_END_TARGET,
+  getWorkflowStepKey,
+  validateWorkflowGraph
+} from '../../../shared/utils/workflow-graph'
+import { validateWorkflowTriggers } from '../../../shared/utils/workflow-schedule'
 import { useWorkflowsStore } from '../../stores/workflows.store'
 import { useSkillsStore } from '../../stores/skills.store'
 import { useAgentsStore } from '../../stores/agents.store'
 import { useCommandsStore } from '../../stores/commands.store'
 import { useSpaceStore } from '../../stores/space.store'
+import { WorkflowTriggersSection } from './WorkflowTriggersSection'
+import { SopParameterFields } from '../chat/SopParameterPanel'
+import { loadSopSkillParameters } from '../../utils/sop-skill'
+import { formatSopParameterArgs, splitSopParameterArgs } from '../../../shared/utils/sop-parameters'
+import type { SopParameter } from '../../../shared/types/sop'
 
 interface WorkflowEditorModalProps {
   spaceId: string
@@ -34,6 +48,20 @@ function createStepId(): string {
   return `step-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`
 }
 
+const DEFAULT_CONDITION: WorkflowCondition = {
+  type: 'contains',
+  value: ''
+}
+
+function createEmptyBranch(): WorkflowParallelBranch {
+  return {
+    id: createStepId(),
+    type: 'skill',
+    name: '',
+    input: ''
+  }
+}
+
 function createEmptyStep(): WorkflowStep {
   return {
     id: createStepId(),
@@ -51,10 +79,58 @@ function normalizeSteps(steps: WorkflowStep[]): WorkflowStep[] {
     name: step.name ?? '',
     args: step.args ?? '',
     input: step.input ?? '',
-    summarizeAfter: step.summarizeAfter ?? false
+    summarizeAfter: step.summarizeAfter ?? false,
+    key: step.key ?? '',
+    saveAs: step.saveAs ?? ''
   }))
 }
 
+interface ConditionFieldsProps {
+  condition: WorkflowCondition
+  onChange: (condition: WorkflowCondition) => void
+}
+
+function ConditionFields({ condition, onChange }: ConditionFieldsProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[140px_1fr] gap-2">
+        <select
+          value={condition.type}
+          onChange={(event) => onChange({ ...condition, type: event.target.value as WorkflowCondition['type'] })}
+          className="w-full px-3 py-2 bg-input border border-border rounded-lg
+            focus:outline-none focus:border-primary text-sm"
+        >
+          <option value="contains">{t('Output contains')}</option>
+          <option value="regex">{t('Output matches regex')}</option>
+          <option value="ai">{t('AI judges yes/no')}</option>
+        </select>
+        <input
+          type="text"
+          value={condition.value}
+          onChange={(event) => onChange({ ...condition, value: event.target.value })}
+          placeholder={condition.type === 'ai'
+            ? t('Question about the output, e.g. Are all tests passing?')
+            : condition.type === 'regex'
+              ? '^LGTM'
+              : 'LGTM'}
+          className={`w-full px-3 py-2 bg-input border border-border rounded-lg
+            focus:outline-none focus:border-primary text-sm ${condition.type === 'regex' ? 'font-mono' : ''}`}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-[11px] text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={!!condition.negate}
+          onChange={(event) => onChange({ ...condition, negate: event.target.checked })}
+          className="h-3.5 w-3.5 rounded border-border text-primary focus:ring-primary"
+        />
+        {t('Negate condition')}
+      </label>
+    </div>
+  )
+}
+
 export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: WorkflowEditorModalProps) {
   const { t } = useTranslation()
   const { currentSpace, spaces, kiteSpace } = useSpaceStore((state) => ({
@@ -66,6 +142,7 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
   const [description, setDescription] = useState('')
   const [steps, setSteps] = useState<WorkflowStep[]>([createEmptyStep()])
   const [settings, setSettings] = useState(DEFAULT_SETTINGS)
+  const [triggers, setTriggers] = useState<WorkflowTrigger[]>([])
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null)
@@ -119,6 +196,7 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
       setDescription(workflow.description || '')
       setSteps(normalized)
       setSettings(workflow.settings || DEFAULT_SETTINGS)
+      setTriggers(workflow.triggers || [])
       setSelectedStepId(normalized[0]?.id || null)
     } else {
       const initialStep = createEmptyStep()
@@ -126,6 +204,7 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
       setDescription('')
       setSteps([initialStep])
       setSettings(DEFAULT_SETTINGS)
+      setTriggers([])
       setSelectedStepId(initialStep.id)
     }
     clearErrors()
@@ -183,6 +262,21 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
     [steps, selectedStep]
   )
 
+  const branchTargets = useMemo(
+    () => (selectedIndex >= 0 ? steps.slice(selectedIndex + 1).map((step, offset) => ({
+      key: getWorkflowStepKey(step),
+      label: `${selectedIndex + offset + 2}. ${step.key?.trim() || step.name?.trim() || step.input?.trim() || t('Untitled step')}`
+    })) : []),
+    [steps, selectedIndex, t]
+  )
+
+  // Targets saved by id keep working after a key is added; show them under the key
+  const toBranchTargetKey = useCallback((target?: string) => {
+    if (!target) return ''
+    const matched = steps.find(step => step.id === target)
+    return matched ? getWorkflowStepKey(matched) : target
+  }, [steps])
+
   const availableSkills = useMemo(() => {
     const base = skills.filter(skill => skill.source === 'space')
     return base.sort((a, b) => a.name.localeCompare(b.name))
@@ -200,6 +294,23 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
     if (!selectedStep || selectedStep.type !== 'skill') return ''
     return availableSkills.some(skill => skill.name === selectedStep.name) ? (selectedStep.name || '') : ''
   }, [selectedStep, availableSkills])
+  // Recorded SOP skills take their parameters as `name="value"` args
+  const [sopParameters, setSopParameters] = useState<SopParameter[]>([])
+  useEffect(() => {
+    setSopParameters([])
+    if (!selectedSkillName) return
+    let cancelled = false
+    void loadSopSkillParameters(selectedSkillName, workDir).then(parameters => {
+      if (!cancelled) setSopParameters(parameters)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedSkillName, workDir])
+  const selectedSopArgs = useMemo(
+    () => splitSopParameterArgs(selectedStep?.args || ''),
+    [selectedStep?.args]
+  )
   const selectedAgentName = useMemo(() => {
     if (!selectedStep || selectedStep.type !== 'agent') return ''
     return availableAgents.some(agent => agent.name === selectedStep.name) ? (selectedStep.name || '') : ''
@@ -214,6 +325,23 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
     clearErrors()
   }, [clearErrors])
 
+  const updateBranches = useCallback((step: WorkflowStep, branches: WorkflowParallelBranch[]) => {
+    if (!step.parallel) return
+    const waitFor = step.parallel.waitFor
+    updateStep(step.id, {
+      parallel: {
+        ...step.parallel,
+        branches,
+        waitFor: typeof waitFor === 'number' && waitFor >= branches.length ? 'all' : waitFor
+      }
+    })
+  }, [updateStep])
+
+  const updateBranch = useCallback((step: WorkflowStep, branchId: string, updates: Partial<WorkflowParallelBranch>) => {
+    if (!step.parallel) return
+    updateBranches(step, step.parallel.branches.map(branch => branch.id === branchId ? { ...branch, ...updates } : branch))
+  }, [updateBranches])
+
   const handleAddStep = useCallback(() => {
     const nextStep = createEmptyStep()
     setSteps(prev => [...prev, nextStep])
@@ -314,13 +442,35 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
         }
       }
 
+      if (step.type === 'parallel') {
+        step.parallel?.branches.forEach((branch, branchIndex) => {
+          const branchName = branch.name?.trim() || ''
+          if (branch.type !== 'message' && branchName && !NAME_PATTERN.test(branchName)) {
+            issues.push(t('Branch {{index}} name must use lowercase letters, numbers, and hyphens', { index: branchIndex + 1 }))
+          }
+        })
+      }
+
       if (issues.length > 0) {
         nextStepErrors[step.id] = issues.map(issue => t('Step {{index}}: {{issue}}', { index: index + 1, issue }))
       }
     })
 
+    validateWorkflowGraph(steps).forEach(({ stepIndex, message }) => {
+      const step = steps[stepIndex]
+      if (!step) return
+      nextStepErrors[step.id] = [
+        ...(nextStepErrors[step.id] || []),
+        t('Step {{index}}: {{issue}}', { index: stepIndex + 1, issue: message })
+      ]
+    })
+
+    validateWorkflowTriggers(triggers).forEach(({ triggerIndex, message }) => {
+      errors.push(t('Trigger {{index}}: {{issue}}', { index: triggerIndex + 1, issue: message }))
+    })
+
     return { errors, stepErrors: nextStepErrors }
-  }, [name, steps, t])
+  }, [name, steps, triggers, t])
 
   const buildPayload = useCallback(() => {
     const trimmedName = name.trim()
@@ -329,13 +479,40 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
       const input = step.input?.trim() || ''
       const stepName = step.name?.trim() || ''
       const args = step.args?.trim() || ''
+      const control = {
+        key: step.key?.trim() || undefined,
+        saveAs: step.saveAs?.trim() || undefined,
+        branch: step.branch,
+        loop: step.loop
+      }
 
       if (step.type === 'message') {
         return {
           id: step.id,
           type: step.type,
           input,
-          summarizeAfter: step.summarizeAfter
+          summarizeAfter: step.summarizeAfter,
+          ...control
+        }
+      }
+
+      if (step.type === 'parallel') {
+        return {
+          id: step.id,
+          type: step.type,
+          summarizeAfter: step.summarizeAfter,
+          ...control,
+          loop: undefined,
+          parallel: step.parallel && {
+            ...step.parallel,
+            branches: step.parallel.branches.map(branch => ({
+              id: branch.id,
+              type: branch.type,
+              name: branch.type === 'message' ? undefined : branch.name?.trim() || undefined,
+              args: branch.type === 'skill' ? branch.args?.trim() || undefined : undefined,
+              input: branch.input?.trim() || undefined
+            }))
+          }
         }
       }
 
@@ -345,7 +522,8 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
           type: step.type,
           name: stepName,
           input: input || undefined,
-          summarizeAfter: step.summarizeAfter
+          summarizeAfter: step.summarizeAfter,
+          ...control
         }
       }
 
@@ -355,7 +533,8 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
           type: step.type,
           name: stepName,
           input: input || undefined,
-          summarizeAfter: step.summarizeAfter
+          summarizeAfter: step.summarizeAfter,
+          ...control
         }
       }
 
@@ -365,7 +544,8 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
         name: stepName,
         args: args || undefined,
         input: input || undefined,
-        summarizeAfter: step.summarizeAfter
+        summarizeAfter: step.summarizeAfter,
+        ...control
       }
     })
 
@@ -373,9 +553,16 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
       name: trimmedName,
       description: trimmedDescription || undefined,
       steps: normalizedSteps,
+      triggers: triggers.map(trigger => ({
+        id: trigger.id,
+        type: trigger.type,
+        cron: trigger.type === 'schedule' ? trigger.cron?.trim() : undefined,
+        glob: trigger.type === 'file-change' ? trigger.glob?.trim() : undefined,
+        enabled: trigger.enabled !== false
+      })),
       settings
     }
-  }, [name, description, steps, settings])
+  }, [name, description, steps, triggers, settings])
 
   const handleSave = useCallback(async (mode: 'save' | 'run') => {
     clearErrors()
@@ -528,7 +715,9 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                     const isSelected = step.id === selectedStepId
                     const isDropTarget = dropTargetIndex === index
                     const hasErrors = !!stepErrors[step.id]
-                    const label = step.name?.trim() || step.input?.trim() || t('Untitled step')
+                    const label = step.type === 'parallel'
+                      ? t('{{count}} parallel branches', { count: step.parallel?.branches.length ?? 0 })
+                      : step.name?.trim() || step.input?.trim() || t('Untitled step')
 
                     return (
                       <div
@@ -609,6 +798,18 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                         onChange={(event) => {
                           const nextType = event.target.value as WorkflowStep['type']
                           const updates: Partial<WorkflowStep> = { type: nextType }
+                          if (nextType === 'parallel') {
+                            updates.name = ''
+                            updates.args = ''
+                            updates.input = ''
+                            updates.loop = undefined
+                            updates.parallel = selectedStep.parallel || {
+                              branches: [createEmptyBranch(), createEmptyBranch()],
+                              waitFor: 'all'
+                            }
+                          } else {
+                            updates.parallel = undefined
+                          }
                           if (nextType === 'message') {
                             updates.name = ''
                             updates.args = ''
@@ -625,9 +826,142 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                         <option value="agent">{t('Agent')}</option>
                         <option value="command">{t('Command')}</option>
                         <option value="message">{t('Message')}</option>
+                        <option value="parallel">{t('Parallel')}</option>
                       </select>
                     </div>
 
+                    {selectedStep.type === 'parallel' && selectedStep.parallel && (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <label className="block text-xs font-medium text-foreground">
+                            {t('Branches')}
+                          </label>
+                          <button
+                            onClick={() => updateBranches(selectedStep, [
+                              ...selectedStep.parallel!.branches,
+                              createEmptyBranch()
+                            ])}
+                            disabled={selectedStep.parallel.branches.length >= MAX_WORKFLOW_PARALLEL_BRANCHES}
+                            className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium
+                              bg-primary/10 hover:bg-primary/20 text-primary rounded-md transition-colors
+                              disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Plus size={12} />
+                            {t('Add branch')}
+                          </button>
+                        </div>
+                        {selectedStep.parallel.branches.map((branch, branchIndex) => (
+                          <div key={branch.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={branch.type}
+                                onChange={(event) => updateBranch(selectedStep, branch.id, {
+                                  type: event.target.value as WorkflowParallelBranch['type'],
+                                  args: undefined
+                                })}
+                                className="px-2 py-1.5 bg-input border border-border rounded-md
+                                  focus:outline-none focus:border-primary text-xs"
+                              >
+                                <option value="skill">{t('Skill')}</option>
+                                <option value="agent">{t('Agent')}</option>
+                                <option value="command">{t('Command')}</option>
+                                <option value="message">{t('Message')}</option>
+                              </select>
+                              {branch.type !== 'message' && (
+                                <input
+                                  type="text"
+                                  list={`workflow-${branch.type}-options`}
+                                  value={branch.name || ''}
+                                  onChange={(event) => updateBranch(selectedStep, branch.id, { name: event.target.value })}
+                                  placeholder={branch.type === 'skill' ? 'my-skill' : branch.type === 'agent' ? 'my-agent' : 'my-command'}
+                                  className="flex-1 min-w-0 px-2 py-1.5 bg-input border border-border rounded-md
+                                    focus:outline-none focus:border-primary text-xs font-mono"
+                                />
+                              )}
+                              {branch.type === 'skill' && (
+                                <input
+                                  type="text"
+                                  value={branch.args || ''}
+                                  onChange={(event) => updateBranch(selectedStep, branch.id, { args: event.target.value })}
+                                  placeholder={t('Args')}
+                                  className="w-24 px-2 py-1.5 bg-input border border-border rounded-md
+                                    focus:outline-none focus:border-primary text-xs font-mono"
+                                />
+                              )}
+                              <button
+                                onClick={() => updateBranches(
+                                  selectedStep,
+                                  selectedStep.parallel!.branches.filter(item => item.id !== branch.id)
+                                )}
+                                className="p-1.5 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                                title={t('Delete branch {{index}}', { index: branchIndex + 1 })}
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                            <textarea
+                              value={branch.input || ''}
+                              onChange={(event) => updateBranch(selectedStep, branch.id, { input: event.target.value })}
+                              placeholder={branch.type === 'message'
+                                ? t('Enter the message to send')
+                                : t('Optional input for this step')}
+                              className="w-full min-h-[60px] px-2 py-1.5 bg-input border border-border rounded-md
+                                focus:outline-none focus:border-primary text-xs resize-none"
+                            />
+                          </div>
+                        ))}
+                        <datalist id="workflow-skill-options">
+                          {availableSkills.map(item => <option key={item.name} value={item.name} />)}
+                        </datalist>
+                        <datalist id="workflow-agent-options">
+                          {availableAgents.map(item => <option key={item.name} value={item.name} />)}
+                        </datalist>
+                        <datalist id="workflow-command-options">
+                          {availableCommands.map(item => <option key={item.name} value={item.name} />)}
+                        </datalist>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <label className="block text-[11px] text-muted-foreground">
+                            {t('Continue when')}
+                            <select
+                              value={String(selectedStep.parallel.waitFor ?? 'all')}
+                              onChange={(event) => updateStep(selectedStep.id, {
+                                parallel: {
+                                  ...selectedStep.parallel!,
+                                  waitFor: event.target.value === 'all' ? 'all' : Number(event.target.value)
+                                }
+                              })}
+                              className="mt-1 w-full px-3 py-2 bg-input border border-border rounded-lg
+                                focus:outline-none focus:border-primary text-sm"
+                            >
+                              <option value="all">{t('All branches complete')}</option>
+                              {selectedStep.parallel.branches.slice(0, -1).map((_, index) => (
+                                <option key={index} value={index + 1}>
+                                  {t('First {{count}} branches complete', { count: index + 1 })}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="block text-[11px] text-muted-foreground">
+                            {t('Max concurrent branches')}
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_WORKFLOW_PARALLEL_BRANCHES}
+                              value={selectedStep.parallel.maxConcurrency ?? DEFAULT_WORKFLOW_PARALLEL_CONCURRENCY}
+                              onChange={(event) => updateStep(selectedStep.id, {
+                                parallel: { ...selectedStep.parallel!, maxConcurrency: Number(event.target.value) }
+                              })}
+                              className="mt-1 w-full px-3 py-2 bg-input border border-border rounded-lg
+                                focus:outline-none focus:border-primary text-sm"
+                            />
+                          </label>
+                        </div>
+                        <p className="text-[11px] text-muted-foreground">
+                          {t('Each branch runs in its own conversation; the merged results are passed to the next step')}
+                        </p>
+                      </div>
+                    )}
+
                     {(selectedStep.type === 'skill' || selectedStep.type === 'agent' || selectedStep.type === 'command') && (
                       <div>
                         <label className="block text-xs font-medium text-foreground mb-2">
@@ -702,6 +1036,26 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                       </div>
                     )}
 
+                    {selectedStep.type === 'skill' && sopParameters.length > 0 && (
+                      <div>
+                        <label className="block text-xs font-medium text-foreground mb-2">
+                          {t('SOP parameters')}
+                        </label>
+                        <SopParameterFields
+                          parameters={sopParameters}
+                          values={selectedSopArgs.values}
+                          onChange={(values) => updateStep(selectedStep.id, {
+                            args: [formatSopParameterArgs(values), selectedSopArgs.rest.trim()].filter(Boolean).join(' ')
+                          })}
+                          allowTemplates
+                        />
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {t('Leave empty to use the default. Values from earlier steps work too:')}{' '}
+                          <code className="font-mono">{'{{vars.name}}'}</code>
+                        </p>
+                      </div>
+                    )}
+
                     {selectedStep.type === 'skill' && (
                       <div>
                         <label className="block text-xs font-medium text-foreground mb-2">
@@ -718,20 +1072,22 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                       </div>
                     )}
 
-                    <div>
-                      <label className="block text-xs font-medium text-foreground mb-2">
-                        {selectedStep.type === 'message' ? t('Message') : t('Input')}
-                      </label>
-                      <textarea
-                        value={selectedStep.input || ''}
-                        onChange={(event) => updateStep(selectedStep.id, { input: event.target.value })}
-                        placeholder={selectedStep.type === 'message'
-                          ? t('Enter the message to send')
-                          : t('Optional input for this step')}
-                        className="w-full min-h-[120px] px-3 py-2 bg-input border border-border rounded-lg
-                          focus:outline-none focus:border-primary text-sm resize-none"
-                      />
-                    </div>
+                    {selectedStep.type !== 'parallel' && (
+                      <div>
+                        <label className="block text-xs font-medium text-foreground mb-2">
+                          {selectedStep.type === 'message' ? t('Message') : t('Input')}
+                        </label>
+                        <textarea
+                          value={selectedStep.input || ''}
+                          onChange={(event) => updateStep(selectedStep.id, { input: event.target.value })}
+                          placeholder={selectedStep.type === 'message'
+                            ? t('Enter the message to send')
+                            : t('Optional input for this step')}
+                          className="w-full min-h-[120px] px-3 py-2 bg-input border border-border rounded-lg
+                            focus:outline-none focus:border-primary text-sm resize-none"
+                        />
+                      </div>
+                    )}
 
                     <div>
                       <label className="flex items-center gap-2 text-xs font-medium text-foreground">
@@ -747,6 +1103,131 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
                         {t('Applies before the next step runs')}
                       </p>
                     </div>
+
+                    <div className="border-t border-border/50 pt-4 space-y-4">
+                      <div>
+                        <h4 className="text-xs font-semibold text-foreground">{t('Flow control')}</h4>
+                        <p className="text-[11px] text-muted-foreground mt-1">
+                          {t('Use earlier outputs in input and args:')}{' '}
+                          <code className="font-mono">{'{{steps.<key>.output}}'}</code>{' '}
+                          <code className="font-mono">{'{{vars.<name>}}'}</code>
+                        </p>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-foreground mb-2">
+                            {t('Step key')}
+                          </label>
+                          <input
+                            type="text"
+                            value={selectedStep.key || ''}
+                            onChange={(event) => updateStep(selectedStep.id, { key: event.target.value })}
+                            placeholder="review"
+                            className="w-full px-3 py-2 bg-input border border-border rounded-lg
+                              focus:outline-none focus:border-primary text-sm font-mono"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-foreground mb-2">
+                            {t('Save output as variable')}
+                          </label>
+                          <input
+                            type="text"
+                            value={selectedStep.saveAs || ''}
+                            onChange={(event) => updateStep(selectedStep.id, { saveAs: event.target.value })}
+                            placeholder="summary"
+                            className="w-full px-3 py-2 bg-input border border-border rounded-lg
+                              focus:outline-none focus:border-primary text-sm font-mono"
+                          />
+                        </div>
+                      </div>
+
+                      {selectedStep.type !== 'parallel' && (
+                        <div className="space-y-2">
+                          <label className="flex items-center gap-2 text-xs font-medium text-foreground">
+                            <input
+                              type="checkbox"
+                              checked={!!selectedStep.loop}
+                              onChange={(event) => updateStep(selectedStep.id, {
+                                loop: event.target.checked ? { until: { ...DEFAULT_CONDITION }, maxIterations: 3 } : undefined
+                              })}
+                              className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                            />
+                            {t('Repeat this step until a condition holds')}
+                          </label>
+                          {selectedStep.loop && (
+                            <div className="pl-6 space-y-2">
+                              <ConditionFields
+                                condition={selectedStep.loop.until}
+                                onChange={(until) => updateStep(selectedStep.id, {
+                                  loop: { ...selectedStep.loop!, until }
+                                })}
+                              />
+                              <label className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                                {t('Max iterations')}
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={MAX_WORKFLOW_LOOP_ITERATIONS}
+                                  value={selectedStep.loop.maxIterations}
+                                  onChange={(event) => updateStep(selectedStep.id, {
+                                    loop: { ...selectedStep.loop!, maxIterations: Number(event.target.value) }
+                                  })}
+                                  className="w-20 px-2 py-1 bg-input border border-border rounded-md
+                                    focus:outline-none focus:border-primary text-xs"
+                                />
+                              </label>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-xs font-medium text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={!!selectedStep.branch}
+                            onChange={(event) => updateStep(selectedStep.id, {
+                              branch: event.target.checked ? { condition: { ...DEFAULT_CONDITION } } : undefined
+                            })}
+                            className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                          />
+                          {t('Branch on this step output')}
+                        </label>
+                        {selectedStep.branch && (
+                          <div className="pl-6 space-y-2">
+                            <ConditionFields
+                              condition={selectedStep.branch.condition}
+                              onChange={(condition) => updateStep(selectedStep.id, {
+                                branch: { ...selectedStep.branch!, condition }
+                              })}
+                            />
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                              {(['onTrue', 'onFalse'] as const).map((field) => (
+                                <label key={field} className="block text-[11px] text-muted-foreground">
+                                  {field === 'onTrue' ? t('If true, go to') : t('If false, go to')}
+                                  <select
+                                    value={toBranchTargetKey(selectedStep.branch?.[field])}
+                                    onChange={(event) => updateStep(selectedStep.id, {
+                                      branch: { ...selectedStep.branch!, [field]: event.target.value || undefined }
+                                    })}
+                                    className="mt-1 w-full px-3 py-2 bg-input border border-border rounded-lg
+                                      focus:outline-none focus:border-primary text-sm"
+                                  >
+                                    <option value="">{t('Next step')}</option>
+                                    {branchTargets.map(target => (
+                                      <option key={target.key} value={target.key}>{target.label}</option>
+                                    ))}
+                                    <option value={WORKFLOW_END_TARGET}>{t('End workflow')}</option>
+                                  </select>
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
                   </div>
                 ) : (
                   <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
@@ -756,6 +1237,14 @@ export function WorkflowEditorModal({ spaceId, workflow, onClose, onSaved }: Wor
               </div>
             </div>
 
+            <WorkflowTriggersSection
+              triggers={triggers}
+              onChange={(next) => {
+                setTriggers(next)
+                clearErrors()
+              }}
+            />
+
             {(validationErrors.length > 0 || error) && (
               <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
                 {validationErrors.length > 0 ? (
@@ -0,0 +1,165 @@
+/**
+ * WorkflowImportModal - Preview a workflow bundle and resolve resource conflicts before importing
+ */
+
+import { useState } from 'react'
+import { X, Upload, AlertTriangle } from 'lucide-react'
+import { useTranslation } from '../../i18n'
+import { useWorkflowsStore } from '../../stores/workflows.store'
+import type { WorkflowImportPreview, WorkflowImportResolution } from '../../types'
+
+interface WorkflowImportModalProps {
+  spaceId: string
+  bundle: unknown
+  preview: WorkflowImportPreview
+  onClose: () => void
+}
+
+const STATUS_CLASSES: Record<WorkflowImportPreview['resources'][number]['status'], string> = {
+  new: 'bg-green-500/10 text-green-600',
+  identical: 'bg-muted text-muted-foreground',
+  conflict: 'bg-amber-500/10 text-amber-600'
+}
+
+export function WorkflowImportModal({ spaceId, bundle, preview, onClose }: WorkflowImportModalProps) {
+  const { t } = useTranslation()
+  const importWorkflow = useWorkflowsStore(state => state.importWorkflow)
+  const [resolutions, setResolutions] = useState<Record<string, WorkflowImportResolution>>(() => (
+    Object.fromEntries(preview.resources
+      .filter(resource => resource.status === 'conflict')
+      .map(resource => [resource.key, 'skip' as WorkflowImportResolution]))
+  ))
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const statusLabels: Record<WorkflowImportPreview['resources'][number]['status'], string> = {
+    new: t('New'),
+    identical: t('Already installed'),
+    conflict: t('Conflict')
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    setError(null)
+    try {
+      const result = await importWorkflow(spaceId, bundle, resolutions)
+      if (result) {
+        onClose()
+      } else {
+        setError(useWorkflowsStore.getState().error || t('Failed to import workflow'))
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div
+        className="absolute inset-0 glass-overlay animate-fade-in"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-xl max-h-[85vh] mx-4 glass-dialog
+        border border-border/50 shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border/50 flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <Upload size={20} className="text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">{t('Import Workflow')}</h2>
+              <p className="text-sm text-muted-foreground">
+                {t('{{name}} · {{count}} steps', { name: preview.workflowName, count: preview.stepCount })}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X size={20} className="text-muted-foreground" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          {preview.description && (
+            <p className="text-sm text-muted-foreground">{preview.description}</p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-2">{t('Bundled resources')}</h3>
+            {preview.resources.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('This workflow does not bundle any resources')}</p>
+            ) : (
+              <div className="space-y-2">
+                {preview.resources.map(resource => (
+                  <div key={resource.key} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0 flex items-center gap-2">
+                      <span className="text-[10px] uppercase text-muted-foreground w-16 flex-shrink-0">{t(resource.type)}</span>
+                      <span className="font-mono truncate">{resource.name}</span>
+                      <span className={`text-[10px] px-2 py-0.5 rounded-full ${STATUS_CLASSES[resource.status]}`}>
+                        {statusLabels[resource.status]}
+                      </span>
+                    </div>
+                    {resource.status === 'conflict' && (
+                      <select
+                        value={resolutions[resource.key]}
+                        onChange={(event) => setResolutions(prev => ({
+                          ...prev,
+                          [resource.key]: event.target.value as WorkflowImportResolution
+                        }))}
+                        className="px-2 py-1 bg-input border border-border rounded-lg
+                          focus:outline-none focus:border-primary text-xs"
+                      >
+                        <option value="skip">{t('Keep existing')}</option>
+                        <option value="overwrite">{t('Overwrite')}</option>
+                        <option value="rename">{t('Import as {{name}}', { name: resource.renameTo })}</option>
+                      </select>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {preview.unresolved.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-700 flex gap-2">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+              <div>
+                <p>{t('These resources are not in the bundle or this space, so the import will fail:')}</p>
+                <p className="font-mono mt-1">{preview.unresolved.join(', ')}</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-border/50 bg-muted/30 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground
+              hover:bg-muted rounded-lg transition-colors"
+          >
+            {t('Cancel')}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm
+              bg-primary text-primary-foreground hover:bg-primary/90
+              rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload size={16} />
+            <span>{t('Import')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
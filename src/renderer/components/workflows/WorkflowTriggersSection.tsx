@@ -0,0 +1,132 @@
+/**
+ * WorkflowTriggersSection - Schedule, file change and app start triggers for a workflow
+ */
+
+import { Plus, Trash2 } from 'lucide-react'
+import { useTranslation } from '../../i18n'
+import type { WorkflowTrigger, WorkflowTriggerType } from '../../types'
+import { getNextCronOccurrence } from '../../../shared/utils/workflow-schedule'
+
+interface WorkflowTriggersSectionProps {
+  triggers: WorkflowTrigger[]
+  onChange: (triggers: WorkflowTrigger[]) => void
+}
+
+function createTriggerId(): string {
+  if (typeof globalThis.crypto !== 'undefined' && 'randomUUID' in globalThis.crypto) {
+    return globalThis.crypto.randomUUID()
+  }
+  return `trigger-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`
+}
+
+function describeNextRun(cron: string | undefined): string | null {
+  if (!cron?.trim()) return null
+  try {
+    return getNextCronOccurrence(cron, new Date())?.toLocaleString() ?? null
+  } catch {
+    return null
+  }
+}
+
+export function WorkflowTriggersSection({ triggers, onChange }: WorkflowTriggersSectionProps) {
+  const { t } = useTranslation()
+
+  const updateTrigger = (index: number, patch: Partial<WorkflowTrigger>) => {
+    onChange(triggers.map((trigger, current) => current === index ? { ...trigger, ...patch } : trigger))
+  }
+
+  const handleAdd = () => {
+    onChange([...triggers, { id: createTriggerId(), type: 'schedule', cron: '0 9 * * 1-5', enabled: true }])
+  }
+
+  return (
+    <div className="border border-border/50 rounded-xl bg-muted/20 p-3">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">{t('Triggers')}</h3>
+          <p className="text-[11px] text-muted-foreground">
+            {t('Run this workflow automatically')}
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-[11px] font-medium
+            bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-colors"
+        >
+          <Plus size={14} />
+          {t('Add trigger')}
+        </button>
+      </div>
+
+      {triggers.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground/70">{t('Runs only when started manually')}</p>
+      ) : (
+        <div className="space-y-2">
+          {triggers.map((trigger, index) => {
+            const nextRun = trigger.type === 'schedule' ? describeNextRun(trigger.cron) : null
+            return (
+              <div key={trigger.id} className="space-y-1">
+                <div className="grid grid-cols-[auto_150px_1fr_auto] items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={trigger.enabled !== false}
+                    onChange={(event) => updateTrigger(index, { enabled: event.target.checked })}
+                    title={t('Enabled')}
+                    className="h-3.5 w-3.5 rounded border-border text-primary focus:ring-primary"
+                  />
+                  <select
+                    value={trigger.type}
+                    onChange={(event) => updateTrigger(index, { type: event.target.value as WorkflowTriggerType })}
+                    className="w-full px-3 py-2 bg-input border border-border rounded-lg
+                      focus:outline-none focus:border-primary text-sm"
+                  >
+                    <option value="schedule">{t('On schedule')}</option>
+                    <option value="file-change">{t('On file change')}</option>
+                    <option value="app-start">{t('On app start')}</option>
+                  </select>
+                  {trigger.type === 'schedule' ? (
+                    <input
+                      type="text"
+                      value={trigger.cron || ''}
+                      onChange={(event) => updateTrigger(index, { cron: event.target.value })}
+                      placeholder="0 9 * * 1-5"
+                      className="w-full px-3 py-2 bg-input border border-border rounded-lg
+                        focus:outline-none focus:border-primary text-sm font-mono"
+                    />
+                  ) : trigger.type === 'file-change' ? (
+                    <input
+                      type="text"
+                      value={trigger.glob || ''}
+                      onChange={(event) => updateTrigger(index, { glob: event.target.value })}
+                      placeholder="src/**/*.ts"
+                      className="w-full px-3 py-2 bg-input border border-border rounded-lg
+                        focus:outline-none focus:border-primary text-sm font-mono"
+                    />
+                  ) : (
+                    <span className="text-[11px] text-muted-foreground">
+                      {t('Runs each time Kite starts')}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => onChange(triggers.filter((_, current) => current !== index))}
+                    className="p-1.5 hover:bg-destructive/10 text-destructive rounded transition-colors"
+                    title={t('Remove trigger')}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+                {trigger.type === 'schedule' && (
+                  <p className="text-[11px] text-muted-foreground pl-6">
+                    {nextRun
+                      ? t('Next run: {{time}}', { time: nextRun })
+                      : t('Minute hour day month weekday, e.g. 0 9 * * 1-5 for weekdays at 9:00')}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,13 @@
  * WorkflowsPanel - Collapsible panel for managing workflows
  */
 
-import { useEffect, useMemo, useState } from 'react'
-import { ListChecks, ChevronDown, Play, Trash2, Plus, Edit2 } from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ListChecks, ChevronDown, Play, Trash2, Plus, Edit2, Square, RotateCcw, Clock, X, Download, Upload } from 'lucide-react'
 import { useTranslation } from '../../i18n'
 import { useWorkflowsStore } from '../../stores/workflows.store'
-import type { WorkflowMeta, Workflow } from '../../types'
+import type { WorkflowMeta, Workflow, WorkflowImportPreview } from '../../types'
 import { WorkflowEditorModal } from './WorkflowEditorModal'
+import { WorkflowImportModal } from './WorkflowImportModal'
 
 interface WorkflowsPanelProps {
   spaceId: string
@@ -19,6 +20,8 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
   const [isAnimatingOut, setIsAnimatingOut] = useState(false)
   const [editingWorkflow, setEditingWorkflow] = useState<Workflow | null>(null)
   const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [pendingImport, setPendingImport] = useState<{ bundle: unknown; preview: WorkflowImportPreview } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const {
     workflows,
@@ -28,9 +31,21 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
     loadWorkflow,
     deleteWorkflow,
     runWorkflow,
-    activeRun
+    stopRun,
+    resumeRun,
+    activeRun,
+    missedTriggers,
+    runMissedTrigger,
+    dismissMissedTrigger,
+    exportWorkflow,
+    previewImport,
+    error
   } = useWorkflowsStore()
 
+  const showRun = !!activeRun
+    && activeRun.spaceId === spaceId
+    && (activeRun.status === 'running' || activeRun.status === 'interrupted')
+
   useEffect(() => {
     if (isExpanded && loadedSpaceId !== spaceId) {
       loadWorkflows(spaceId)
@@ -66,6 +81,38 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
     setIsEditorOpen(true)
   }
 
+  const handleExport = async (workflowId: string) => {
+    const result = await exportWorkflow(spaceId, workflowId)
+    if (!result) return
+    if (result.missing.length > 0) {
+      useWorkflowsStore.setState({
+        error: t('Exported without resources that could not be found: {{names}}', { names: result.missing.join(', ') })
+      })
+    }
+    const blob = new Blob([JSON.stringify(result.bundle, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = result.fileName
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return
+    let bundle: unknown
+    try {
+      bundle = JSON.parse(await file.text())
+    } catch {
+      useWorkflowsStore.setState({ error: t('The selected file is not a workflow bundle') })
+      return
+    }
+    const preview = await previewImport(spaceId, bundle)
+    if (preview) {
+      setPendingImport({ bundle, preview })
+    }
+  }
+
   const visibleWorkflows = useMemo(() => workflows, [workflows])
 
   return (
@@ -110,16 +157,39 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
                 {t('{{count}} workflows available', { count: workflows.length })}
               </p>
             </div>
-            <button
-              onClick={handleCreate}
-              className="flex items-center gap-1.5 px-2.5 py-1 text-[10px] font-medium
-                bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-colors"
-            >
-              <Plus size={14} />
-              {t('New workflow')}
-            </button>
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="p-1.5 hover:bg-muted/60 text-muted-foreground hover:text-foreground rounded-lg transition-colors"
+                title={t('Import workflow')}
+              >
+                <Upload size={14} />
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(event) => {
+                  void handleImportFile(event.target.files?.[0])
+                  event.target.value = ''
+                }}
+              />
+              <button
+                onClick={handleCreate}
+                className="flex items-center gap-1.5 px-2.5 py-1 text-[10px] font-medium
+                  bg-primary/10 hover:bg-primary/20 text-primary rounded-lg transition-colors"
+              >
+                <Plus size={14} />
+                {t('New workflow')}
+              </button>
+            </div>
           </div>
 
+          {error && (
+            <p className="px-3 py-1.5 text-[10px] text-destructive border-b border-border/30">{error}</p>
+          )}
+
           <div className="max-h-[320px] overflow-auto px-1 py-1">
             {isLoading ? (
               <div className="px-4 py-6 text-center">
@@ -169,6 +239,13 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
                         >
                           <Play size={12} />
                         </button>
+                        <button
+                          onClick={() => handleExport(workflow.id)}
+                          className="p-1.5 hover:bg-muted/60 text-muted-foreground hover:text-foreground rounded transition-colors"
+                          title={t('Export workflow')}
+                        >
+                          <Download size={12} />
+                        </button>
                         <button
                           onClick={() => handleEdit(workflow.id)}
                           className="p-1.5 hover:bg-muted/60 text-muted-foreground hover:text-foreground rounded transition-colors"
@@ -191,11 +268,68 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
             )}
           </div>
 
-          {activeRun && activeRun.isRunning && activeRun.spaceId === spaceId && (
+          {missedTriggers.length > 0 && (
             <div className="border-t border-border/30 px-3 py-2">
-              <p className="text-[10px] text-muted-foreground">
-                {t('Running workflow: {{name}}', { name: activeRun.workflow.name })}
+              <p className="text-[10px] font-medium text-muted-foreground">
+                {t('Missed while Kite was closed')}
               </p>
+              <div className="mt-1 space-y-1">
+                {missedTriggers.map(item => (
+                  <div key={item.id} className="flex items-center justify-between gap-2 text-[10px]">
+                    <span className="flex items-center gap-1.5 min-w-0 text-muted-foreground">
+                      <Clock size={10} className="flex-shrink-0" />
+                      <span className="truncate">
+                        {item.workflowName} · {new Date(item.scheduledAt).toLocaleString()}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <button
+                        onClick={() => runMissedTrigger(spaceId, item.id)}
+                        className="p-1 hover:bg-primary/20 text-primary rounded transition-colors"
+                        title={t('Run now')}
+                      >
+                        <Play size={10} />
+                      </button>
+                      <button
+                        onClick={() => dismissMissedTrigger(spaceId, item.id)}
+                        className="p-1 hover:bg-muted/60 text-muted-foreground rounded transition-colors"
+                        title={t('Dismiss')}
+                      >
+                        <X size={10} />
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {showRun && activeRun && (
+            <div className="border-t border-border/30 px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-[10px] text-muted-foreground truncate">
+                  {activeRun.status === 'running'
+                    ? t('Running workflow: {{name}}', { name: activeRun.workflowName })
+                    : t('Workflow interrupted: {{name}}', { name: activeRun.workflowName })}
+                </p>
+                {activeRun.status === 'running' ? (
+                  <button
+                    onClick={() => stopRun()}
+                    className="p-1 hover:bg-destructive/10 text-destructive rounded transition-colors"
+                    title={t('Stop workflow')}
+                  >
+                    <Square size={10} />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => resumeRun()}
+                    className="p-1 hover:bg-primary/20 text-primary rounded transition-colors"
+                    title={t('Resume workflow')}
+                  >
+                    <RotateCcw size={10} />
+                  </button>
+                )}
+              </div>
               <div className="mt-1 space-y-1">
                 {activeRun.steps.map((step, idx) => (
                   <div key={step.id} className="flex items-center gap-2 text-[10px]">
@@ -208,7 +342,8 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
                             ? 'text-destructive'
                             : 'text-muted-foreground'
                     }>
-                      {idx + 1}. {step.status}
+                      {idx + 1}. {step.status}{step.iterations && step.iterations > 1 ? ` ×${step.iterations}` : ''}
+                      {step.branches && ` (${step.branches.filter(branch => branch.status === 'completed').length}/${step.branches.length})`}
                     </span>
                   </div>
                 ))}
@@ -225,6 +360,15 @@ export function WorkflowsPanel({ spaceId }: WorkflowsPanelProps) {
           onClose={() => setIsEditorOpen(false)}
         />
       )}
+
+      {pendingImport && (
+        <WorkflowImportModal
+          spaceId={spaceId}
+          bundle={pendingImport.bundle}
+          preview={pendingImport.preview}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,49 @@
+/**
+ * useUndoChangesFromMessage Hook
+ *
+ * Rolls the space back to before an AI response: that response's file changes
+ * and every later change set are reverted. Hand edits made since are merged
+ * where possible; remaining conflicts need confirmation before discarding them.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useChatStore } from '../stores/chat.store'
+import { useTranslation } from '../i18n'
+import type { ChangeSet } from '../types'
+
+export function useUndoChangesFromMessage(
+  spaceId: string | null | undefined,
+  conversationId: string | null | undefined,
+  changeSets: ChangeSet[]
+) {
+  const { t } = useTranslation()
+  const rollbackToMessage = useChatStore(state => state.rollbackToMessage)
+
+  const undoableMessageIds = useMemo(() => new Set(
+    changeSets
+      .filter(changeSet => changeSet.status !== 'rolled_back' && changeSet.messageId)
+      .map(changeSet => changeSet.messageId as string)
+  ), [changeSets])
+
+  const handleUndoChangesFrom = useCallback(async (messageId: string) => {
+    if (!spaceId || !conversationId) return
+    if (!window.confirm(t('Undo all file changes made from this response onwards?'))) return
+
+    const params = { spaceId, conversationId, messageId }
+    let result = await rollbackToMessage(params)
+    if (result.conflicts.length > 0) {
+      const confirm = window.confirm(
+        t('Some files have local edits that cannot be merged. Undo will discard them. Continue?')
+      )
+      if (!confirm) return
+      result = await rollbackToMessage({ ...params, force: true })
+    }
+    if (result.unavailable.length > 0) {
+      window.alert(t('These files were too large to snapshot and were left unchanged: {{files}}', {
+        files: result.unavailable.join(', ')
+      }))
+    }
+  }, [spaceId, conversationId, rollbackToMessage, t])
+
+  return { undoableMessageIds, handleUndoChangesFrom }
+}
@@ -4,19 +4,28 @@
 
 import { useState, useEffect } from 'react'
 import { useAppStore } from '../stores/app.store'
+import { useSpaceStore } from '../stores/space.store'
 import { api } from '../api'
 import type {
   KiteConfig,
   ThemeMode,
   McpServersConfig,
   ApiProfile,
-  ProviderProtocol
+  ProviderProtocol,
+  SemanticSearchConfig
 } from '../types'
 import type { LucideIcon } from 'lucide-react'
-import { AlertCircle, ArrowLeft, Bot, CheckCircle2, ChevronDown, Download, Eye, EyeOff, Info, Network, Palette, RefreshCw, ServerCog, Shield, SlidersHorizontal, X } from 'lucide-react'
+import { Activity, AlertCircle, ArrowLeft, Bot, CheckCircle2, ChevronDown, Download, Eye, EyeOff, Info, Network, Palette, RefreshCw, Search, ServerCog, Shield, SlidersHorizontal, Webhook, X } from 'lucide-react'
 import { McpServerList } from '../components/settings/McpServerList'
+import { CommandRuleList } from '../components/settings/CommandRuleList'
+import { RemoteTokenList } from '../components/settings/RemoteTokenList'
+import { RemoteAccessLog } from '../components/settings/RemoteAccessLog'
+import { HookLogList } from '../components/settings/HookLogList'
+import { HookTester } from '../components/settings/HookTester'
+import { RunExplorer } from '../components/settings/RunExplorer'
 import { useTranslation, setLanguage, getCurrentLanguage, SUPPORTED_LOCALES, type LocaleCode } from '../i18n'
 import { ensureAiConfig } from '../../shared/types/ai-profile'
+import { DEFAULT_SEMANTIC_SEARCH_CONFIG } from '../../shared/types/semantic-search'
 import {
   AI_PROFILE_TEMPLATES,
   isValidAnthropicCompatEndpoint,
@@ -92,7 +101,10 @@ type SettingsSectionId =
   | 'model'
   | 'appearance'
   | 'general'
+  | 'search'
   | 'permissions'
+  | 'hooks'
+  | 'runs'
   | 'mcp'
   | 'network'
   | 'about'
@@ -129,6 +141,13 @@ const SETTINGS_SECTIONS: SettingsSectionDef[] = [
     hintKey: 'Tune app behavior',
     icon: SlidersHorizontal
   },
+  {
+    id: 'search',
+    group: 'optional',
+    labelKey: 'Search',
+    hintKey: 'Search by meaning',
+    icon: Search
+  },
   {
     id: 'permissions',
     group: 'advanced',
@@ -136,6 +155,20 @@ const SETTINGS_SECTIONS: SettingsSectionDef[] = [
     hintKey: 'Review execution trust',
     icon: Shield
   },
+  {
+    id: 'hooks',
+    group: 'advanced',
+    labelKey: 'Hooks',
+    hintKey: 'Inspect and test hooks',
+    icon: Webhook
+  },
+  {
+    id: 'runs',
+    group: 'advanced',
+    labelKey: 'Runs',
+    hintKey: 'Inspect slow agent turns',
+    icon: Activity
+  },
   {
     id: 'mcp',
     group: 'advanced',
@@ -187,7 +220,6 @@ interface RemoteAccessStatus {
   server: {
     running: boolean
     port: number
-    token: string | null
     localUrl: string | null
     lanUrl: string | null
   }
@@ -220,6 +252,8 @@ export function SettingsPage() {
   const [selectedProfileId, setSelectedProfileId] = useState(initialAiConfig.defaultProfileId)
   const [theme, setTheme] = useState<ThemeMode>(config?.appearance?.theme === 'dark' ? 'dark' : 'light')
   const [activeSection, setActiveSection] = useState<SettingsSectionId>('model')
+  const currentSpace = useSpaceStore(state => state.currentSpace)
+  const [hookLogRefreshKey, setHookLogRefreshKey] = useState(0)
   const [showApiKey, setShowApiKey] = useState(false)
   const [modelInput, setModelInput] = useState('')
   const [showAdvancedModelFields, setShowAdvancedModelFields] = useState(false)
@@ -237,7 +271,6 @@ export function SettingsPage() {
   const [isEnablingRemote, setIsEnablingRemote] = useState(false)
   const [isEnablingTunnel, setIsEnablingTunnel] = useState(false)
   const [qrCode, setQrCode] = useState<string | null>(null)
-  const [showPassword, setShowPassword] = useState(false)
 
   // System settings state
   const [autoLaunch, setAutoLaunch] = useState(config?.system?.autoLaunch || false)
@@ -392,7 +425,7 @@ export function SettingsPage() {
   }
 
   const loadQRCode = async () => {
-    const response = await api.getRemoteQRCode(true) // Include token
+    const response = await api.getRemoteQRCode()
     if (response.success && response.data) {
       setQrCode((response.data as any).qrCode)
     }
@@ -471,6 +504,28 @@ export function SettingsPage() {
     }
   }
 
+  const handleApprovalTimeoutChange = async (seconds: number) => {
+    if (!config) return
+    const permissions = { ...config.permissions, approvalTimeoutSeconds: seconds }
+    try {
+      await api.setConfig({ permissions })
+      setConfig({ ...config, permissions } as KiteConfig)
+    } catch (error) {
+      console.error('[Settings] Failed to save approval timeout:', error)
+    }
+  }
+
+  const handleSemanticSearchChange = async (updates: Partial<SemanticSearchConfig>) => {
+    if (!config) return
+    const semanticSearch = { ...DEFAULT_SEMANTIC_SEARCH_CONFIG, ...config.semanticSearch, ...updates }
+    try {
+      await api.setConfig({ semanticSearch })
+      setConfig({ ...config, semanticSearch } as KiteConfig)
+    } catch (error) {
+      console.error('[Settings] Failed to save semantic search settings:', error)
+    }
+  }
+
   const handleLanguageChange = (locale: LocaleCode) => {
     setLanguage(locale)
   }
@@ -1279,6 +1334,99 @@ export function SettingsPage() {
     </section>
   )
 
+  const renderSearchSection = () => {
+    const semanticSearch = { ...DEFAULT_SEMANTIC_SEARCH_CONFIG, ...config?.semanticSearch }
+    const embeddingProfiles = ensureAiConfig(config?.ai, config?.api).profiles
+      .filter(profile => profile.protocol === 'openai_compat')
+
+    return (
+      <section className="settings-modal-card settings-block-card">
+        <div className="settings-block-head">
+          <h3 className="text-base font-semibold tracking-tight">{t('Semantic Search')}</h3>
+        </div>
+
+        <div className="space-y-4">
+          <div className="settings-setting-row">
+            <div className="flex-1 pr-4">
+              <p className="font-medium">{t('Search by meaning')}</p>
+              <p className="text-sm text-muted-foreground">
+                {t('Embed messages and text files so search and the AI can find related past work')}
+              </p>
+            </div>
+            <AppleToggle
+              checked={semanticSearch.enabled}
+              onChange={(enabled) => handleSemanticSearchChange({ enabled })}
+            />
+          </div>
+
+          {semanticSearch.enabled && (
+            <>
+              <div className="settings-setting-row">
+                <div className="flex-1 pr-4">
+                  <p className="font-medium">{t('Embedding provider')}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {semanticSearch.provider === 'local'
+                      ? t('Runs on this device; matches related wording rather than meaning')
+                      : t('Sends message text to the profile endpoint to embed')}
+                  </p>
+                </div>
+                <select
+                  value={semanticSearch.provider}
+                  onChange={(event) => handleSemanticSearchChange({
+                    provider: event.target.value === 'profile' ? 'profile' : 'local',
+                    profileId: semanticSearch.profileId || embeddingProfiles[0]?.id
+                  })}
+                  className="input-apple px-3 py-1.5 text-sm"
+                >
+                  <option value="local">{t('Local')}</option>
+                  <option value="profile">{t('API profile')}</option>
+                </select>
+              </div>
+
+              {semanticSearch.provider === 'profile' && (
+                <>
+                  <div className="settings-setting-row">
+                    <div className="flex-1 pr-4">
+                      <p className="font-medium">{t('Profile')}</p>
+                      <p className="text-sm text-muted-foreground">{t('OpenAI-compatible profiles only')}</p>
+                    </div>
+                    <select
+                      value={semanticSearch.profileId || ''}
+                      onChange={(event) => handleSemanticSearchChange({ profileId: event.target.value })}
+                      className="input-apple px-3 py-1.5 text-sm"
+                    >
+                      {embeddingProfiles.length === 0 && <option value="">{t('No OpenAI-compatible profiles')}</option>}
+                      {embeddingProfiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="settings-setting-row">
+                    <div className="flex-1 pr-4">
+                      <p className="font-medium">{t('Embedding model')}</p>
+                      <p className="text-sm text-muted-foreground">{t('Changing the model re-embeds everything on the next search')}</p>
+                    </div>
+                    <input
+                      type="text"
+                      defaultValue={semanticSearch.model}
+                      onBlur={(event) => {
+                        const model = event.target.value.trim()
+                        if (model && model !== semanticSearch.model) {
+                          void handleSemanticSearchChange({ model })
+                        }
+                      }}
+                      className="input-apple w-56 px-3 py-1.5 text-sm"
+                    />
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+    )
+  }
+
   const renderPermissionSection = () => (
     <section className="settings-modal-card settings-block-card">
       <div className="settings-block-head-row">
@@ -1319,6 +1467,57 @@ export function SettingsPage() {
           <AppleToggle checked={true} onChange={() => {}} disabled={true} />
         </div>
       </div>
+
+      <div className="settings-setting-row mt-5 border-t border-border pt-5">
+        <div>
+          <p className="font-medium">{t('Approval timeout')}</p>
+          <p className="text-sm text-muted-foreground">
+            {t('Deny approval requests that stay unanswered for this long')}
+          </p>
+        </div>
+        <select
+          value={config?.permissions?.approvalTimeoutSeconds ?? 600}
+          onChange={(event) => handleApprovalTimeoutChange(Number(event.target.value))}
+          className="input-apple px-3 py-1.5 text-sm"
+        >
+          <option value={60}>{t('1 minute')}</option>
+          <option value={300}>{t('5 minutes')}</option>
+          <option value={600}>{t('10 minutes')}</option>
+          <option value={1800}>{t('30 minutes')}</option>
+          <option value={0}>{t('Never')}</option>
+        </select>
+      </div>
+
+      <div className="mt-5 border-t border-border pt-5">
+        <CommandRuleList />
+      </div>
+    </section>
+  )
+
+  const renderHooksSection = () => (
+    <section className="settings-modal-card settings-block-card">
+      <div className="settings-block-head-row">
+        <h3 className="text-base font-semibold tracking-tight">{t('Hooks')}</h3>
+      </div>
+      {currentSpace ? (
+        <div className="space-y-5">
+          <HookTester spaceId={currentSpace.id} onTested={() => setHookLogRefreshKey(key => key + 1)} />
+          <div className="border-t border-border pt-5">
+            <HookLogList spaceId={currentSpace.id} refreshKey={hookLogRefreshKey} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('Open a space to inspect and test its hooks')}</p>
+      )}
+    </section>
+  )
+
+  const renderRunsSection = () => (
+    <section className="settings-modal-card settings-block-card">
+      <div className="settings-block-head-row">
+        <h3 className="text-base font-semibold tracking-tight">{t('Runs')}</h3>
+      </div>
+      <RunExplorer />
     </section>
   )
 
@@ -1360,7 +1559,7 @@ export function SettingsPage() {
           <div className="text-sm">
             <p className="mb-1 font-medium text-amber-500">{t('Security Warning')}</p>
             <p className="text-amber-500/80">
-              {t('After enabling remote access, anyone with the password can fully control your computer (read/write files, execute commands). Do not share the access password with untrusted people.')}
+              {t('After enabling remote access, anyone with an operator or admin device token can control your computer (read/write files, execute commands). Only create tokens for your own devices and revoke any you no longer use.')}
             </p>
           </div>
         </div>
@@ -1410,27 +1609,6 @@ export function SettingsPage() {
                 </div>
               )}
 
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">{t('Access Password')}</span>
-                <div className="flex items-center gap-2">
-                  <code className="rounded bg-background px-2 py-1 font-mono text-sm tracking-wider">
-                    {showPassword ? remoteStatus.server.token : '••••••'}
-                  </code>
-                  <button
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="text-xs text-muted-foreground hover:text-foreground"
-                  >
-                    {showPassword ? t('Hide') : t('Show')}
-                  </button>
-                  <button
-                    onClick={() => copyToClipboard(remoteStatus.server.token || '')}
-                    className="text-xs text-muted-foreground hover:text-foreground"
-                  >
-                    {t('Copy')}
-                  </button>
-                </div>
-              </div>
-
               {remoteStatus.clients > 0 && (
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">{t('Connected Devices')}</span>
@@ -1500,14 +1678,21 @@ export function SettingsPage() {
                     <img src={qrCode} alt="QR Code" className="h-48 w-48" />
                   </div>
                   <div className="text-center text-sm">
-                    <p className="text-muted-foreground">{t('Scan the QR code with your phone and enter the password to access')}</p>
-                    <p className="mt-1 text-xs text-amber-500">{t('QR code contains password, do not share screenshots with others')}</p>
+                    <p className="text-muted-foreground">{t('Scan the QR code with your phone and enter a device token to access')}</p>
                   </div>
                 </div>
               </div>
             )}
           </>
         )}
+
+        <div className="border-t border-border/50 pt-4">
+          <RemoteTokenList onCopy={copyToClipboard} />
+        </div>
+
+        <div className="border-t border-border/50 pt-4">
+          <RemoteAccessLog />
+        </div>
       </div>
     </section>
   )
@@ -1579,8 +1764,14 @@ export function SettingsPage() {
         return renderAppearanceSection()
       case 'general':
         return renderGeneralSection()
+      case 'search':
+        return renderSearchSection()
       case 'permissions':
         return renderPermissionSection()
+      case 'hooks':
+        return renderHooksSection()
+      case 'runs':
+        return renderRunsSection()
       case 'mcp':
         return renderMcpSection()
       case 'network':
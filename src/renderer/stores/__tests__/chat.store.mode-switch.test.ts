@@ -86,7 +86,7 @@ function seedRunningConversation(): void {
         thoughts: [],
         processTrace: [],
         isThinking: true,
-        pendingToolApproval: null,
+        pendingToolApprovals: [],
         pendingAskUserQuestion: null,
         failedAskUserQuestion: null,
         error: null,
@@ -1,30 +1,21 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 const {
-  mockGetWorkflow,
-  mockListSkills,
-  mockListAgents,
-  mockListCommands,
-  mockUpdateWorkflow,
-  mockCreateConversation,
-  mockSendMessageToConversation
+  mockStartWorkflowRun,
+  mockStopWorkflowRun,
+  mockLoadConversations,
+  mockSelectConversation
 } = vi.hoisted(() => ({
-  mockGetWorkflow: vi.fn(),
-  mockListSkills: vi.fn(),
-  mockListAgents: vi.fn(),
-  mockListCommands: vi.fn(),
-  mockUpdateWorkflow: vi.fn(),
-  mockCreateConversation: vi.fn(),
-  mockSendMessageToConversation: vi.fn()
+  mockStartWorkflowRun: vi.fn(),
+  mockStopWorkflowRun: vi.fn(),
+  mockLoadConversations: vi.fn(),
+  mockSelectConversation: vi.fn()
 }))
 
 vi.mock('../../api', () => ({
   api: {
-    getWorkflow: (...args: unknown[]) => mockGetWorkflow(...args),
-    listSkills: (...args: unknown[]) => mockListSkills(...args),
-    listAgents: (...args: unknown[]) => mockListAgents(...args),
-    listCommands: (...args: unknown[]) => mockListCommands(...args),
-    updateWorkflow: (...args: unknown[]) => mockUpdateWorkflow(...args)
+    startWorkflowRun: (...args: unknown[]) => mockStartWorkflowRun(...args),
+    stopWorkflowRun: (...args: unknown[]) => mockStopWorkflowRun(...args)
   }
 }))
 
@@ -33,9 +24,8 @@ vi.mock('../../i18n', () => ({
 }))
 
 const chatState = {
-  createConversation: (...args: unknown[]) => mockCreateConversation(...args),
-  sendMessageToConversation: (...args: unknown[]) => mockSendMessageToConversation(...args),
-  getCachedConversation: () => null
+  loadConversations: (...args: unknown[]) => mockLoadConversations(...args),
+  selectConversation: (...args: unknown[]) => mockSelectConversation(...args)
 }
 
 vi.mock('../chat.store', () => ({
@@ -60,75 +50,99 @@ vi.mock('../space.store', () => ({
 
 import { useWorkflowsStore } from '../workflows.store'
 
-describe('WorkflowsStore runtime validation', () => {
+function buildRun(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'run-1',
+    workflowId: 'wf-1',
+    workflowName: 'global-flow',
+    spaceId: 'space-1',
+    status: 'running',
+    phase: 'step',
+    currentStepIndex: 0,
+    conversationId: 'conv-1',
+    steps: [{ id: 'step-1', status: 'running' }],
+    startedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('WorkflowsStore runs', () => {
   beforeEach(() => {
     useWorkflowsStore.setState({
       workflows: [],
-      loadedSpaceId: null,
+      loadedSpaceId: 'space-1',
       activeWorkflow: null,
       activeRun: null,
       isLoading: false,
       error: null
     })
 
-    mockGetWorkflow.mockReset()
-    mockListSkills.mockReset()
-    mockListAgents.mockReset()
-    mockListCommands.mockReset()
-    mockUpdateWorkflow.mockReset()
-    mockCreateConversation.mockReset()
-    mockSendMessageToConversation.mockReset()
-
-    mockListAgents.mockResolvedValue({ success: true, data: [] })
-    mockListCommands.mockResolvedValue({ success: true, data: [] })
-    mockUpdateWorkflow.mockResolvedValue({ success: true, data: {} })
-    mockCreateConversation.mockResolvedValue({ id: 'conv-1' })
-    mockSendMessageToConversation.mockResolvedValue(undefined)
+    mockStartWorkflowRun.mockReset()
+    mockStopWorkflowRun.mockReset()
+    mockLoadConversations.mockReset()
+    mockSelectConversation.mockReset()
+
+    mockLoadConversations.mockResolvedValue(undefined)
+    mockSelectConversation.mockResolvedValue(undefined)
   })
 
-  it('allows running workflow when step uses global skill', async () => {
-    mockGetWorkflow.mockResolvedValue({
-      success: true,
-      data: {
-        id: 'wf-1',
-        spaceId: 'space-1',
-        name: 'global-flow',
-        steps: [{ id: 'step-1', type: 'skill', name: 'app-skill' }]
-      }
-    })
-    mockListSkills.mockResolvedValue({
-      success: true,
-      data: [{ name: 'app-skill', source: 'app' }]
-    })
+  it('starts the run in the main process and focuses its conversation', async () => {
+    mockStartWorkflowRun.mockResolvedValue({ success: true, data: buildRun() })
 
     await useWorkflowsStore.getState().runWorkflow('space-1', 'wf-1')
 
-    expect(mockCreateConversation).toHaveBeenCalled()
-    expect(mockSendMessageToConversation).toHaveBeenCalled()
-    const firstCall = mockSendMessageToConversation.mock.calls[0]
-    expect(firstCall[2]).toBe('/app-skill')
-    expect(firstCall[8]).toBe('workflow-step')
+    expect(mockStartWorkflowRun).toHaveBeenCalledWith('space-1', 'wf-1', { responseLanguage: 'zh-CN' })
+    expect(mockLoadConversations).toHaveBeenCalledWith('space-1')
+    expect(mockSelectConversation).toHaveBeenCalledWith('conv-1')
+    expect(useWorkflowsStore.getState().activeRun?.id).toBe('run-1')
     expect(useWorkflowsStore.getState().error).toBeNull()
   })
 
-  it('blocks workflow when step resource is unavailable', async () => {
-    mockGetWorkflow.mockResolvedValue({
-      success: true,
-      data: {
-        id: 'wf-2',
-        spaceId: 'space-1',
-        name: 'invalid-flow',
-        steps: [{ id: 'step-1', type: 'skill', name: 'missing-skill' }]
-      }
-    })
-    mockListSkills.mockResolvedValue({
-      success: true,
-      data: []
+  it('surfaces validation errors returned by the runner', async () => {
+    mockStartWorkflowRun.mockResolvedValue({
+      success: false,
+      error: 'Workflow contains unavailable resources: Step 1: skill missing-skill'
     })
 
     await useWorkflowsStore.getState().runWorkflow('space-1', 'wf-2')
 
-    expect(mockCreateConversation).not.toHaveBeenCalled()
+    expect(mockSelectConversation).not.toHaveBeenCalled()
+    expect(useWorkflowsStore.getState().activeRun).toBeNull()
     expect(useWorkflowsStore.getState().error).toContain('Workflow contains unavailable resources')
   })
+
+  it('mirrors run updates and follows the run into new conversations', () => {
+    useWorkflowsStore.setState({ activeRun: buildRun() as never })
+
+    useWorkflowsStore.getState().handleRunUpdate(buildRun({
+      conversationId: 'conv-2',
+      phase: 'summary-inject',
+      updatedAt: '2026-01-01T00:01:00.000Z'
+    }) as never)
+
+    expect(useWorkflowsStore.getState().activeRun?.conversationId).toBe('conv-2')
+    expect(mockLoadConversations).toHaveBeenCalledWith('space-1')
+  })
+
+  it('ignores updates for other runs while one is active', () => {
+    useWorkflowsStore.setState({ activeRun: buildRun() as never })
+
+    useWorkflowsStore.getState().handleRunUpdate(buildRun({ id: 'run-2' }) as never)
+
+    expect(useWorkflowsStore.getState().activeRun?.id).toBe('run-1')
+  })
+
+  it('stops the active run through the runner', async () => {
+    useWorkflowsStore.setState({ activeRun: buildRun() as never })
+    mockStopWorkflowRun.mockResolvedValue({
+      success: true,
+      data: buildRun({ status: 'stopped', updatedAt: '2026-01-01T00:02:00.000Z' })
+    })
+
+    await useWorkflowsStore.getState().stopRun()
+
+    expect(mockStopWorkflowRun).toHaveBeenCalledWith('space-1', 'wf-1', 'run-1')
+    expect(useWorkflowsStore.getState().activeRun?.status).toBe('stopped')
+  })
 })
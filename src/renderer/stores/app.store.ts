@@ -4,7 +4,7 @@
 
 import { create } from 'zustand'
 import { api } from '../api'
-import type { KiteConfig, AppView, McpServerStatus } from '../types'
+import type { KiteConfig, AppView, McpServerStatus, ProviderHealth } from '../types'
 
 // Git Bash installation progress
 interface GitBashInstallProgress {
@@ -28,6 +28,9 @@ interface AppState {
   mcpStatus: McpServerStatus[]
   mcpStatusTimestamp: number | null  // When status was last updated
 
+  // Providers the OpenAI-compat router reports as degraded
+  degradedProviders: ProviderHealth[]
+
   // Git Bash mock mode (Windows only)
   mockBashMode: boolean
   gitBashInstallProgress: GitBashInstallProgress
@@ -40,6 +43,7 @@ interface AppState {
   setConfig: (config: KiteConfig) => void
   updateConfig: (updates: Partial<KiteConfig>) => void
   setMcpStatus: (status: McpServerStatus[], timestamp: number) => void
+  setDegradedProviders: (providers: ProviderHealth[]) => void
 
   // Git Bash actions
   setMockBashMode: (mode: boolean) => void
@@ -59,6 +63,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   config: null,
   mcpStatus: [],
   mcpStatusTimestamp: null,
+  degradedProviders: [],
   mockBashMode: false,
   gitBashInstallProgress: { phase: 'idle', progress: 0, message: '' },
 
@@ -94,6 +99,8 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ mcpStatus: status, mcpStatusTimestamp: timestamp })
   },
 
+  setDegradedProviders: (providers) => set({ degradedProviders: providers }),
+
   // Git Bash actions
   setMockBashMode: (mode) => set({ mockBashMode: mode }),
 
@@ -43,10 +43,12 @@ import type {
   FileContextAttachment,
   ParallelGroup,
   ChangeSet,
+  MessageRollbackResult,
   AgentRunLifecycle,
   ToolStatus,
   AskUserQuestionAnswerPayload,
-  ProcessTraceNode
+  ProcessTraceNode,
+  CommandRuleRequest
 } from '../types'
 import { canvasLifecycle } from '../services/canvas-lifecycle'
 import { buildParallelGroups, getThoughtKey } from '../utils/thought-utils'
@@ -223,7 +225,7 @@ interface SessionState {
   thoughts: Thought[]
   processTrace: ProcessTraceNode[]
   isThinking: boolean
-  pendingToolApproval: ToolCall | null
+  pendingToolApprovals: ToolCall[]
   askUserQuestionsById: Record<string, AskUserQuestionItem>
   askUserQuestionOrder: string[]
   activeAskUserQuestionId: string | null
@@ -261,7 +263,7 @@ function createEmptySessionState(): SessionState {
     thoughts: [],
     processTrace: [],
     isThinking: false,
-    pendingToolApproval: null,
+    pendingToolApprovals: [],
     askUserQuestionsById: {},
     askUserQuestionOrder: [],
     activeAskUserQuestionId: null,
@@ -344,7 +346,7 @@ function hasPendingAskUserQuestion(session: SessionState): boolean {
 }
 
 function canStartNewRun(session: SessionState): boolean {
-  return !session.isGenerating && !hasPendingAskUserQuestion(session) && session.pendingToolApproval === null
+  return !session.isGenerating && !hasPendingAskUserQuestion(session) && session.pendingToolApprovals.length === 0
 }
 
 function getVisibleQueuedTurns(queue: QueuedUserTurn[]): QueuedUserTurn[] {
@@ -575,6 +577,7 @@ interface ChatState {
   ) => Promise<void>
   selectConversation: (conversationId: string) => Promise<void>
   hydrateConversation: (spaceId: string, conversationId: string) => Promise<void>
+  resyncConversation: (spaceId: string, conversationId: string) => Promise<void>
   deleteConversation: (spaceId: string, conversationId: string) => Promise<boolean>
   renameConversation: (spaceId: string, conversationId: string, newTitle: string) => Promise<boolean>
   updateConversationAi: (spaceId: string, conversationId: string, ai: ConversationAiConfig) => Promise<boolean>
@@ -617,8 +620,9 @@ interface ChatState {
   stopGeneration: (conversationId?: string) => Promise<void>
 
   // Tool approval
-  approveTool: (conversationId: string) => Promise<void>
-  rejectTool: (conversationId: string) => Promise<void>
+  approveTool: (conversationId: string, toolCallId?: string, remember?: CommandRuleRequest) => Promise<void>
+  approveAllTools: (conversationId: string) => Promise<void>
+  rejectTool: (conversationId: string, toolCallId?: string, remember?: CommandRuleRequest) => Promise<void>
   answerQuestion: (conversationId: string, answer: AskUserQuestionAnswerPayload) => Promise<void>
   dismissAskUserQuestion: (conversationId: string, toolCallId?: string) => void
   setActiveAskUserQuestion: (conversationId: string, toolCallId: string) => void
@@ -639,7 +643,8 @@ interface ChatState {
   // Change set actions
   loadChangeSets: (spaceId: string, conversationId: string) => Promise<void>
   acceptChangeSet: (params: { spaceId: string; conversationId: string; changeSetId: string; filePath?: string }) => Promise<ChangeSet | null>
-  rollbackChangeSet: (params: { spaceId: string; conversationId: string; changeSetId: string; filePath?: string; force?: boolean }) => Promise<{ changeSet: ChangeSet | null; conflicts: string[] }>
+  rollbackChangeSet: (params: { spaceId: string; conversationId: string; changeSetId: string; filePath?: string; force?: boolean }) => Promise<{ changeSet: ChangeSet | null; conflicts: string[]; merged?: string[]; unavailable?: string[] }>
+  rollbackToMessage: (params: { spaceId: string; conversationId: string; messageId: string; force?: boolean }) => Promise<MessageRollbackResult>
 
   // Cleanup
   reset: () => void
@@ -1480,6 +1485,22 @@ export const useChatStore = create<ChatState>((set, get) => ({
     })
   },
 
+  // Refetch a conversation whose missed events could not be replayed (remote mode)
+  resyncConversation: async (spaceId, conversationId) => {
+    set((state) => {
+      const newCache = new Map(state.conversationCache)
+      newCache.delete(conversationId)
+      const newSessions = new Map(state.sessions)
+      newSessions.delete(conversationId)
+      return { conversationCache: newCache, sessions: newSessions }
+    })
+    await ensureConversationLoadedImpl(set, get, spaceId, conversationId, {
+      setCurrent: false,
+      subscribe: false,
+      warmSession: false
+    })
+  },
+
   // Delete conversation
   deleteConversation: async (spaceId, conversationId) => {
     try {
@@ -2692,7 +2713,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
               isThinking: false,
               isStreaming: false,
               toolStatusById: cancelledTools,
-              pendingToolApproval: null,
+              pendingToolApprovals: [],
               askUserQuestionsById: {},
               askUserQuestionOrder: [],
               activeAskUserQuestionId: null
@@ -2708,8 +2729,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
-  // Approve tool for a specific conversation
-  approveTool: async (conversationId: string) => {
+  // Approve one pending tool call (the oldest when toolCallId is omitted)
+  approveTool: async (conversationId: string, toolCallId?: string, remember?: CommandRuleRequest) => {
     const spaceId = resolveConversationSpaceId(get(), conversationId, {
       allowUnloadedCurrentSpaceFallback: false
     })
@@ -2720,12 +2741,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
         })
         return
       }
-      await api.approveTool(spaceId, conversationId)
+      const targetId = toolCallId ?? get().sessions.get(conversationId)?.pendingToolApprovals[0]?.id
+      await api.approveTool(spaceId, conversationId, undefined, { toolCallId: targetId, remember })
       set((state) => {
         const newSessions = new Map(state.sessions)
         const session = newSessions.get(conversationId)
         if (session) {
-          newSessions.set(conversationId, { ...session, pendingToolApproval: null })
+          newSessions.set(conversationId, {
+            ...session,
+            pendingToolApprovals: session.pendingToolApprovals.filter((toolCall) => toolCall.id !== targetId)
+          })
         }
         return { sessions: newSessions }
       })
@@ -2734,8 +2759,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
-  // Reject tool for a specific conversation
-  rejectTool: async (conversationId: string) => {
+  // Approve every tool call waiting for approval in a conversation
+  approveAllTools: async (conversationId: string) => {
+    const pending = get().sessions.get(conversationId)?.pendingToolApprovals ?? []
+    for (const toolCall of pending) {
+      await get().approveTool(conversationId, toolCall.id)
+    }
+  },
+
+  // Reject one pending tool call (the oldest when toolCallId is omitted)
+  rejectTool: async (conversationId: string, toolCallId?: string, remember?: CommandRuleRequest) => {
     const spaceId = resolveConversationSpaceId(get(), conversationId, {
       allowUnloadedCurrentSpaceFallback: false
     })
@@ -2746,12 +2779,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
         })
         return
       }
-      await api.rejectTool(spaceId, conversationId)
+      const targetId = toolCallId ?? get().sessions.get(conversationId)?.pendingToolApprovals[0]?.id
+      await api.rejectTool(spaceId, conversationId, undefined, { toolCallId: targetId, remember })
       set((state) => {
         const newSessions = new Map(state.sessions)
         const session = newSessions.get(conversationId)
         if (session) {
-          newSessions.set(conversationId, { ...session, pendingToolApproval: null })
+          newSessions.set(conversationId, {
+            ...session,
+            pendingToolApprovals: session.pendingToolApprovals.filter((toolCall) => toolCall.id !== targetId)
+          })
         }
         return { sessions: newSessions }
       })
@@ -3207,11 +3244,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
       const isAskUserQuestion = incomingToolCall.name?.toLowerCase() === 'askuserquestion'
       const resolvedToolCall = toolCallsById[toolCallId]
       const isToolStillRunning = isRunningLikeToolStatus(toolStatusById[toolCallId])
-      let pendingToolApproval = session.pendingToolApproval
-      if (incomingToolCall.requiresApproval) {
-        pendingToolApproval = isToolStillRunning ? resolvedToolCall : null
-      } else if (session.pendingToolApproval?.id === toolCallId) {
-        pendingToolApproval = null
+      // The approval prompt and the streamed tool_use share a toolCallId; only a
+      // finished status (or an answer) takes a prompt off the queue
+      let pendingToolApprovals = session.pendingToolApprovals
+      if (incomingToolCall.requiresApproval && isToolStillRunning) {
+        pendingToolApprovals = [
+          ...pendingToolApprovals.filter((toolCall) => toolCall.id !== toolCallId),
+          resolvedToolCall
+        ]
+      } else if (!isToolStillRunning) {
+        pendingToolApprovals = pendingToolApprovals.filter((toolCall) => toolCall.id !== toolCallId)
       }
 
       const askUserQuestionsById = { ...session.askUserQuestionsById }
@@ -3262,7 +3304,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         toolStatusById,
         toolCallsById,
         orphanToolResults,
-        pendingToolApproval,
+        pendingToolApprovals,
         askUserQuestionsById,
         askUserQuestionOrder,
         activeAskUserQuestionId
@@ -3444,7 +3486,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         isThinking: false,
         isStreaming: false,
         toolStatusById,
-        pendingToolApproval: null,
+        pendingToolApprovals: [],
         askUserQuestionsById: {},
         askUserQuestionOrder: [],
         activeAskUserQuestionId: null,
@@ -3529,7 +3571,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
             isStreaming: false,
             isThinking: false,
             streamingContent: '',
-            pendingToolApproval: null,
+            pendingToolApprovals: [],
             askUserQuestionsById: {},
             askUserQuestionOrder: [],
             activeAskUserQuestionId: null,
@@ -3592,7 +3634,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
           isThinking: false,
           isGenerating: false,
           toolStatusById: cancelledTools,
-          pendingToolApproval: null,
+          pendingToolApprovals: [],
           askUserQuestionsById: {},
           askUserQuestionOrder: [],
           activeAskUserQuestionId: null
@@ -3606,7 +3648,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
           isGenerating: false,
           isStreaming: false,
           isThinking: false,
-          pendingToolApproval: null
+          pendingToolApprovals: []
         })
       }
       return { sessions: newSessions }
@@ -3695,7 +3737,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
               mode: updatedConversationMode,
               isGenerating: false,
               streamingContent: '',
-              pendingToolApproval: null,
+              pendingToolApprovals: [],
               askUserQuestionsById: {},
               askUserQuestionOrder: [],
               activeAskUserQuestionId: null,
@@ -3739,7 +3781,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
               ...currentSession,
               isGenerating: false,
               streamingContent: '',
-              pendingToolApproval: null,
+              pendingToolApprovals: [],
               askUserQuestionsById: {},
               askUserQuestionOrder: [],
               activeAskUserQuestionId: null,
@@ -3865,7 +3907,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     try {
       const response = await api.rollbackChangeSet(params)
       if (response.success && response.data) {
-        const result = response.data as { changeSet: ChangeSet | null; conflicts: string[] }
+        const result = response.data as { changeSet: ChangeSet | null; conflicts: string[]; merged?: string[]; unavailable?: string[] }
         if (result.changeSet) {
           set((state) => {
             const newChangeSets = new Map(state.changeSets)
@@ -3899,6 +3941,25 @@ export const useChatStore = create<ChatState>((set, get) => ({
     return { changeSet: null, conflicts: [] }
   },
 
+  // Roll the space back to before an AI response (reverts that change set and all later ones)
+  rollbackToMessage: async (params) => {
+    try {
+      const response = await api.rollbackToMessage(params)
+      if (response.success && response.data) {
+        const result = response.data as MessageRollbackResult
+        if (result.conflicts.length === 0) {
+          await get().loadChangeSets(params.spaceId, params.conversationId)
+          window.dispatchEvent(new CustomEvent('artifacts:refresh', { detail: { spaceId: params.spaceId } }))
+        }
+        return result
+      }
+      console.error('[ChatStore] Failed to rollback to message:', response.error)
+    } catch (error) {
+      console.error('[ChatStore] Failed to rollback to message:', error)
+    }
+    return { changeSets: [], conflicts: [], merged: [], unavailable: [] }
+  },
+
   // Handle thought for a specific conversation
   handleAgentThought: (data) => {
     if (!isEventScopeAccepted(get(), data)) {
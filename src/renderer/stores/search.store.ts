@@ -30,6 +30,7 @@ interface SearchResult {
   matchCount: number
   contextBefore?: string
   contextAfter?: string
+  matchText?: string
 }
 
 interface SearchState {
@@ -197,7 +198,7 @@ export const useSearchStore = create<SearchState>((set, get) => ({
         messageId: result.messageId,
         spaceId: result.spaceId,
         conversationId: result.conversationId,
-        query: get().highlightQuery,
+        query: result.matchText || get().highlightQuery,
         resultIndex: validIndex
       }
     })
@@ -1,11 +1,23 @@
 /**
- * Workflows Store - Workflow state management and runner
+ * Workflows Store - Workflow state management
+ *
+ * Runs are executed by the main-process workflow runner; this store only
+ * starts/stops them and mirrors `workflow:run-update` events.
  */
 
 import { create } from 'zustand'
 import { api } from '../api'
 import { getCurrentLanguage } from '../i18n'
-import type { Workflow, WorkflowMeta, WorkflowStep } from '../types'
+import type {
+  MissedWorkflowTrigger,
+  Workflow,
+  WorkflowBundleExport,
+  WorkflowImportPreview,
+  WorkflowImportResolution,
+  WorkflowImportResult,
+  WorkflowMeta,
+  WorkflowRun
+} from '../types'
 import { useChatStore } from './chat.store'
 import { useSpaceStore } from './space.store'
 
@@ -34,7 +46,8 @@ interface WorkflowsState {
   workflows: WorkflowMeta[]
   loadedSpaceId: string | null
   activeWorkflow: Workflow | null
-  activeRun: WorkflowRunState | null
+  activeRun: WorkflowRun | null
+  missedTriggers: MissedWorkflowTrigger[]
   isLoading: boolean
   error: string | null
 
@@ -46,61 +59,49 @@ interface WorkflowsState {
 
   runWorkflow: (spaceId: string, workflowId: string) => Promise<void>
   stopRun: () => Promise<void>
-  handleAgentComplete: (event: { spaceId: string; conversationId: string }) => Promise<void>
+  resumeRun: () => Promise<void>
+  handleRunUpdate: (run: WorkflowRun) => void
+
+  loadMissedTriggers: (spaceId: string) => Promise<void>
+  runMissedTrigger: (spaceId: string, missedId: string) => Promise<void>
+  dismissMissedTrigger: (spaceId: string, missedId: string) => Promise<void>
+
+  exportWorkflow: (spaceId: string, workflowId: string) => Promise<WorkflowBundleExport | null>
+  previewImport: (spaceId: string, bundle: unknown) => Promise<WorkflowImportPreview | null>
+  importWorkflow: (
+    spaceId: string,
+    bundle: unknown,
+    resolutions: Record<string, WorkflowImportResolution>
+  ) => Promise<WorkflowImportResult | null>
 }
 
-function buildMessageForStep(step: WorkflowStep): string {
-  if (step.type === 'command') {
-    const input = step.input ? ` ${step.input}` : ''
-    return `/${step.name}${input}`.trim()
-  }
-  if (step.type === 'skill') {
-    const args = step.args ? ` ${step.args}` : ''
-    const input = step.input ? ` ${step.input}` : ''
-    return `/${step.name}${args}${input}`.trim()
-  }
-  if (step.type === 'agent') {
-    const input = step.input ? ` ${step.input}` : ''
-    return `@${step.name}${input}`.trim()
-  }
-  return step.input || ''
-}
-
-const SUMMARY_PROMPT = [
-  'Summarize the conversation so far for a clean handoff to the next step.',
-  'Return concise bullet points covering goals, decisions, constraints, key outputs, and open questions.',
-  'Use the same language as the conversation. Do not add extra commentary.'
-].join(' ')
-
-function buildSummaryInjectionMessage(summary: string): string {
-  return `Context summary from previous steps:\n\n${summary.trim()}\n\nAcknowledge briefly and wait.`
-}
-
-function getLastAssistantContent(conversationId: string): string | undefined {
-  const conversation = useChatStore.getState().getCachedConversation(conversationId)
-  const lastAssistant = conversation?.messages?.slice().reverse().find(m => m.role === 'assistant')
-  return lastAssistant?.content?.trim()
-}
-
-function shouldSummarizeAfterStep(step: WorkflowStep, stepIndex: number, totalSteps: number): boolean {
-  return !!step.summarizeAfter && stepIndex < totalSteps - 1
+/**
+ * Show the run's conversation when it belongs to the space the user is looking at.
+ * The runner creates conversations in the main process, so the chat list must be refreshed.
+ */
+async function focusRunConversation(run: WorkflowRun): Promise<void> {
+  const chat = useChatStore.getState()
+  if (useSpaceStore.getState().currentSpace?.id !== run.spaceId) return
+  await chat.loadConversations(run.spaceId)
+  await chat.selectConversation(run.conversationId)
 }
 
-function hasAvailableResource(
-  name: string,
-  refs: Array<{ name: string; namespace?: string }>
-): boolean {
-  const trimmed = name.trim()
-  if (!trimmed) return false
-
-  if (!trimmed.includes(':')) {
-    return refs.some((ref) => ref.name === trimmed && !ref.namespace)
-      || refs.some((ref) => ref.name === trimmed)
+async function restoreLastRun(
+  spaceId: string,
+  workflows: WorkflowMeta[],
+  set: (partial: Partial<WorkflowsState>) => void
+): Promise<void> {
+  const latest = workflows
+    .filter(workflow => workflow.lastRunId)
+    .sort((a, b) => (b.lastRunAt || '').localeCompare(a.lastRunAt || ''))[0]
+  if (!latest?.lastRunId) return
+
+  const response = await api.getWorkflowRun(spaceId, latest.id, latest.lastRunId)
+  if (!response.success || !response.data) return
+  const run = response.data as WorkflowRun
+  if (run.status === 'running' || run.status === 'interrupted') {
+    set({ activeRun: run })
   }
-
-  const [namespace, resourceName] = trimmed.split(':', 2)
-  if (!namespace || !resourceName) return false
-  return refs.some((ref) => ref.name === resourceName && ref.namespace === namespace)
 }
 
 export const useWorkflowsStore = create<WorkflowsState>((set, get) => ({
@@ -108,6 +109,7 @@ export const useWorkflowsStore = create<WorkflowsState>((set, get) => ({
   loadedSpaceId: null,
   activeWorkflow: null,
   activeRun: null,
+  missedTriggers: [],
   isLoading: false,
   error: null,
 
@@ -116,7 +118,12 @@ export const useWorkflowsStore = create<WorkflowsState>((set, get) => ({
       set({ isLoading: true, error: null })
       const response = await api.listWorkflows(spaceId)
       if (response.success && response.data) {
-        set({ workflows: response.data as WorkflowMeta[], loadedSpaceId: spaceId })
+        const workflows = response.data as WorkflowMeta[]
+        set({ workflows, loadedSpaceId: spaceId })
+        if (!get().activeRun) {
+          await restoreLastRun(spaceId, workflows, set)
+        }
+        await get().loadMissedTriggers(spaceId)
       } else {
         set({ error: response.error || 'Failed to load workflows' })
       }
@@ -203,317 +210,173 @@ export const useWorkflowsStore = create<WorkflowsState>((set, get) => ({
 
   runWorkflow: async (spaceId, workflowId) => {
     const { activeRun } = get()
-    if (activeRun?.isRunning) return
-
-    const workflow = await get().loadWorkflow(spaceId, workflowId)
-    if (!workflow) return
-
-    const currentSpace = useSpaceStore.getState().currentSpace
-    const knownSpace = currentSpace?.id === spaceId
-      ? currentSpace
-      : useSpaceStore.getState().spaces.find(space => space.id === spaceId)
-    if (knownSpace?.path) {
-      const locale = getCurrentLanguage()
-      const [skillsResult, agentsResult, commandsResult] = await Promise.allSettled([
-        api.listSkills(knownSpace.path, locale, 'workflow-validation'),
-        api.listAgents(knownSpace.path, locale, 'workflow-validation'),
-        api.listCommands(knownSpace.path, locale, 'workflow-validation')
-      ])
-
-      const skillsResponse = skillsResult.status === 'fulfilled' ? skillsResult.value : { success: false, data: undefined }
-      const agentsResponse = agentsResult.status === 'fulfilled' ? agentsResult.value : { success: false, data: undefined }
-      const commandsResponse = commandsResult.status === 'fulfilled' ? commandsResult.value : { success: false, data: undefined }
+    if (activeRun?.status === 'running') return
 
-      if (skillsResult.status === 'rejected') {
-        console.error('[WorkflowsStore] Failed to list skills:', skillsResult.reason)
-      }
-      if (agentsResult.status === 'rejected') {
-        console.error('[WorkflowsStore] Failed to list agents:', agentsResult.reason)
-      }
-      if (commandsResult.status === 'rejected') {
-        console.error('[WorkflowsStore] Failed to list commands:', commandsResult.reason)
-      }
-
-      const availableSkills = (skillsResponse.success ? (skillsResponse.data as Array<{ name: string; namespace?: string }>) : [])
-      const availableAgents = (agentsResponse.success ? (agentsResponse.data as Array<{ name: string; namespace?: string }>) : [])
-      const availableCommands = (commandsResponse.success ? (commandsResponse.data as Array<{ name: string; namespace?: string }>) : [])
-
-      const missingSteps: string[] = []
-      workflow.steps.forEach((step, index) => {
-        const stepName = step.name?.trim()
-        if (!stepName) return
-        if (step.type === 'skill' && !hasAvailableResource(stepName, availableSkills)) {
-          missingSteps.push(`Step ${index + 1}: skill ${stepName}`)
-        }
-        if (step.type === 'agent' && !hasAvailableResource(stepName, availableAgents)) {
-          missingSteps.push(`Step ${index + 1}: agent ${stepName}`)
-        }
-        if (step.type === 'command' && !hasAvailableResource(stepName, availableCommands)) {
-          missingSteps.push(`Step ${index + 1}: command ${stepName}`)
-        }
+    try {
+      set({ error: null })
+      const response = await api.startWorkflowRun(spaceId, workflowId, {
+        responseLanguage: getCurrentLanguage()
       })
-
-      if (missingSteps.length > 0) {
-        const message = `Workflow contains unavailable resources: ${missingSteps.join(', ')}`
+      if (!response.success || !response.data) {
+        const message = response.error || 'Failed to start workflow'
         console.warn('[WorkflowsStore]', message)
         set({ error: message })
         return
       }
-    }
 
-    const conversation = await useChatStore.getState().createConversation(spaceId, workflow.name)
-    if (!conversation) {
-      set({ error: 'Failed to create workflow conversation' })
-      return
+      const run = response.data as WorkflowRun
+      set((state) => ({
+        activeRun: run,
+        workflows: state.workflows.map(w => w.id === workflowId
+          ? { ...w, lastRunAt: run.startedAt, lastRunId: run.id, lastConversationId: run.conversationId }
+          : w)
+      }))
+      await focusRunConversation(run)
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to start workflow:', error)
+      set({ error: 'Failed to start workflow' })
     }
-
-    const now = new Date().toISOString()
-    const steps: WorkflowRunStepState[] = workflow.steps.map(step => ({
-      id: step.id,
-      status: 'pending'
-    }))
-
-    set({
-      activeRun: {
-        workflow,
-        spaceId,
-        conversationId: conversation.id,
-        currentStepIndex: 0,
-        steps,
-        isRunning: true,
-        startedAt: now,
-        phase: 'step'
-      }
-    })
-
-    // Update workflow metadata
-    await get().updateWorkflow(spaceId, workflowId, {
-      lastRunAt: now,
-      lastConversationId: conversation.id
-    })
-
-    await startStep(get, set)
   },
 
   stopRun: async () => {
     const run = get().activeRun
-    if (!run) return
-    await api.stopGeneration(run.spaceId, run.conversationId)
-    set({
-      activeRun: {
-        ...run,
-        isRunning: false,
-        endedAt: new Date().toISOString()
+    if (!run || run.status !== 'running') return
+    try {
+      const response = await api.stopWorkflowRun(run.spaceId, run.workflowId, run.id)
+      if (response.success && response.data) {
+        get().handleRunUpdate(response.data as WorkflowRun)
+      } else if (!response.success) {
+        set({ error: response.error || 'Failed to stop workflow' })
       }
-    })
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to stop workflow:', error)
+      set({ error: 'Failed to stop workflow' })
+    }
   },
 
-  handleAgentComplete: async (event) => {
+  resumeRun: async () => {
     const run = get().activeRun
-    if (!run || !run.isRunning) return
-    if (event.conversationId !== run.conversationId || event.spaceId !== run.spaceId) return
-
-    const stepIndex = run.currentStepIndex
-    const updatedSteps = [...run.steps]
-    const step = updatedSteps[stepIndex]
-    if (run.phase === 'summary') {
-      const summaryText = getLastAssistantContent(run.conversationId)
-      if (!summaryText) {
-        updatedSteps[stepIndex] = {
-          ...updatedSteps[stepIndex],
-          status: 'error',
-          endedAt: new Date().toISOString()
-        }
-        set({
-          activeRun: {
-            ...run,
-            steps: updatedSteps,
-            isRunning: false,
-            endedAt: new Date().toISOString()
-          }
-        })
-        return
-      }
-
-      const nextConversation = await useChatStore.getState().createConversation(
-        run.spaceId,
-        `${run.workflow.name} (Step ${stepIndex + 2})`
-      )
-      if (!nextConversation) {
-        set({
-          activeRun: {
-            ...run,
-            steps: updatedSteps,
-            isRunning: false,
-            endedAt: new Date().toISOString()
-          }
-        })
+    if (!run || run.status === 'running' || run.status === 'completed') return
+    try {
+      set({ error: null })
+      const response = await api.resumeWorkflowRun(run.spaceId, run.workflowId, run.id)
+      if (!response.success || !response.data) {
+        set({ error: response.error || 'Failed to resume workflow' })
         return
       }
+      const resumed = response.data as WorkflowRun
+      set({ activeRun: resumed })
+      await focusRunConversation(resumed)
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to resume workflow:', error)
+      set({ error: 'Failed to resume workflow' })
+    }
+  },
 
-      set({
-        activeRun: {
-          ...run,
-          conversationId: nextConversation.id,
-          phase: 'summary-inject',
-          summaryText
-        }
-      })
-
-      await useChatStore.getState().sendMessageToConversation(
-        run.spaceId,
-        nextConversation.id,
-        buildSummaryInjectionMessage(summaryText),
-        undefined,
-        false,
-        undefined,
-        false,
-        'code',
-        'workflow-step'
-      )
-      return
+  handleRunUpdate: (run) => {
+    const current = get().activeRun
+    if (current && current.id !== run.id) {
+      // Keep following the current run while it is active; otherwise adopt runs
+      // started elsewhere (e.g. over the remote API) in the loaded space
+      if (current.status === 'running' || run.spaceId !== get().loadedSpaceId) return
     }
+    if (!current && run.spaceId !== get().loadedSpaceId) return
+    if (current?.id === run.id && run.updatedAt < current.updatedAt) return
+    set({ activeRun: run })
+    // Triggered runs start in the background; only follow them once the user is watching
+    if (run.conversationId !== current?.conversationId && (current?.id === run.id || !run.trigger)) {
+      void focusRunConversation(run)
+    }
+  },
 
-    if (run.phase === 'summary-inject') {
-      const nextIndex = stepIndex + 1
-      if (nextIndex >= run.workflow.steps.length) {
-        set({
-          activeRun: {
-            ...run,
-            steps: updatedSteps,
-            isRunning: false,
-            currentStepIndex: nextIndex,
-            endedAt: new Date().toISOString(),
-            phase: 'step',
-            summaryText: undefined
-          }
-        })
-        return
+  loadMissedTriggers: async (spaceId) => {
+    try {
+      const response = await api.listMissedWorkflowTriggers(spaceId)
+      if (response.success && response.data) {
+        set({ missedTriggers: response.data as MissedWorkflowTrigger[] })
       }
-
-      set({
-        activeRun: {
-          ...run,
-          steps: updatedSteps,
-          currentStepIndex: nextIndex,
-          phase: 'step',
-          summaryText: undefined
-        }
-      })
-
-      void startStep(get, set)
-      return
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to load missed triggers:', error)
     }
+  },
 
-    if (step) {
-      updatedSteps[stepIndex] = {
-        ...step,
-        status: 'completed',
-        output: getLastAssistantContent(run.conversationId),
-        endedAt: new Date().toISOString()
+  runMissedTrigger: async (spaceId, missedId) => {
+    try {
+      set({ error: null })
+      const response = await api.runMissedWorkflowTrigger(spaceId, missedId)
+      if (!response.success || !response.data) {
+        set({ error: response.error || 'Failed to start workflow' })
+        return
       }
+      const run = response.data as WorkflowRun
+      set((state) => ({
+        activeRun: run,
+        missedTriggers: state.missedTriggers.filter(item => item.id !== missedId)
+      }))
+      await focusRunConversation(run)
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to run missed trigger:', error)
+      set({ error: 'Failed to start workflow' })
     }
+  },
 
-    if (step && shouldSummarizeAfterStep(step, stepIndex, run.workflow.steps.length)) {
-      set({
-        activeRun: {
-          ...run,
-          steps: updatedSteps,
-          phase: 'summary'
-        }
-      })
-
-      await useChatStore.getState().sendMessageToConversation(
-        run.spaceId,
-        run.conversationId,
-        SUMMARY_PROMPT,
-        undefined,
-        false,
-        undefined,
-        false,
-        'code',
-        'workflow-step'
-      )
-      return
+  dismissMissedTrigger: async (spaceId, missedId) => {
+    try {
+      const response = await api.dismissMissedWorkflowTrigger(spaceId, missedId)
+      if (response.success) {
+        set((state) => ({ missedTriggers: state.missedTriggers.filter(item => item.id !== missedId) }))
+      }
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to dismiss missed trigger:', error)
     }
+  },
 
-    const nextIndex = stepIndex + 1
-    if (nextIndex >= run.workflow.steps.length) {
-      set({
-        activeRun: {
-          ...run,
-          steps: updatedSteps,
-          isRunning: false,
-          currentStepIndex: nextIndex,
-          endedAt: new Date().toISOString(),
-          phase: 'step',
-          summaryText: undefined
-        }
-      })
-      return
+  exportWorkflow: async (spaceId, workflowId) => {
+    try {
+      const response = await api.exportWorkflowBundle(spaceId, workflowId)
+      if (response.success && response.data) {
+        return response.data as WorkflowBundleExport
+      }
+      set({ error: response.error || 'Failed to export workflow' })
+      return null
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to export workflow:', error)
+      set({ error: 'Failed to export workflow' })
+      return null
     }
+  },
 
-    set({
-      activeRun: {
-        ...run,
-        steps: updatedSteps,
-        currentStepIndex: nextIndex,
-        phase: 'step',
-        summaryText: undefined
+  previewImport: async (spaceId, bundle) => {
+    try {
+      set({ error: null })
+      const response = await api.previewWorkflowImport(spaceId, bundle)
+      if (response.success && response.data) {
+        return response.data as WorkflowImportPreview
       }
-    })
-
-    void startStep(get, set)
-  }
-}))
-
-async function startStep(get: () => WorkflowsState, set: (partial: Partial<WorkflowsState>) => void): Promise<void> {
-  const run = get().activeRun
-  if (!run || !run.isRunning || run.phase !== 'step') return
-
-  const step = run.workflow.steps[run.currentStepIndex]
-  if (!step) return
-
-  const updatedSteps = [...run.steps]
-  updatedSteps[run.currentStepIndex] = {
-    ...updatedSteps[run.currentStepIndex],
-    status: 'running',
-    startedAt: new Date().toISOString()
-  }
-
-  set({
-    activeRun: {
-      ...run,
-      steps: updatedSteps
+      set({ error: response.error || 'Failed to read workflow bundle' })
+      return null
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to preview workflow import:', error)
+      set({ error: 'Failed to read workflow bundle' })
+      return null
     }
-  })
+  },
 
-  const message = buildMessageForStep(step)
-  if (!message) {
-    updatedSteps[run.currentStepIndex] = {
-      ...updatedSteps[run.currentStepIndex],
-      status: 'error',
-      endedAt: new Date().toISOString()
-    }
-    set({
-      activeRun: {
-        ...run,
-        steps: updatedSteps,
-        isRunning: false
+  importWorkflow: async (spaceId, bundle, resolutions) => {
+    try {
+      set({ error: null })
+      const response = await api.importWorkflowBundle(spaceId, bundle, resolutions)
+      if (response.success && response.data) {
+        const result = response.data as WorkflowImportResult
+        set((state) => ({ workflows: [result.workflow, ...state.workflows] }))
+        return result
       }
-    })
-    return
+      set({ error: response.error || 'Failed to import workflow' })
+      return null
+    } catch (error) {
+      console.error('[WorkflowsStore] Failed to import workflow:', error)
+      set({ error: 'Failed to import workflow' })
+      return null
+    }
   }
-
-  await useChatStore.getState().sendMessageToConversation(
-    run.spaceId,
-    run.conversationId,
-    message,
-    undefined,
-    run.workflow.settings?.thinkingEnabled,
-    undefined,
-    run.workflow.settings?.aiBrowserEnabled,
-    'code',
-    'workflow-step'
-  )
-}
+}))
@@ -5,19 +5,84 @@
 import {
   createAiConfigFromLegacyApi,
   type AiConfig,
-  type LegacyApiConfig
+  type AnsweredByInfo,
+  type LegacyApiConfig,
+  type SpaceAiPreferences
 } from '../../shared/types/ai-profile';
 import type { ClaudeCodeConfig } from '../../shared/types/claude-code';
+import type { CommandRule } from '../../shared/types/command-rules';
 import type { ObservabilityConfig } from '../../shared/types/observability';
+import type { RemoteTokenScope } from '../../shared/types/remote-access';
+import type { SemanticSearchConfig } from '../../shared/types/semantic-search';
+import type {
+  WorkflowBranch,
+  WorkflowLoop,
+  WorkflowParallel,
+  WorkflowTrigger,
+  WorkflowTriggerType
+} from '../../shared/types/workflow';
 
 export type {
   ProviderVendor,
   ProviderProtocol,
   ApiProfile,
-  ConversationAiConfig
+  ConversationAiConfig,
+  SpaceAiPreferences,
+  AnsweredByInfo
 } from '../../shared/types/ai-profile';
 export type { LocaleCode } from '../../shared/i18n/locale';
-export type { ObservabilityConfig, LangfuseObservabilityConfig, LangfuseMaskMode } from '../../shared/types/observability';
+export type {
+  CommandRule,
+  CommandRuleRequest,
+  CommandRuleScope,
+  ScopedCommandRule
+} from '../../shared/types/command-rules';
+export type {
+  HookEventType,
+  HookInvocation,
+  HookInvocationOutcome,
+  HookTestRequest
+} from '../../shared/types/hook-log';
+export type {
+  ObservabilityConfig,
+  LangfuseObservabilityConfig,
+  LangfuseMaskMode,
+  OtlpObservabilityConfig,
+  OtlpProtocol,
+  ObservabilityPhase,
+  ObservabilityPhaseTiming,
+  ObservabilityRunQuery,
+  ObservabilityRunSort,
+  ObservabilityRunStatus,
+  ObservabilityRunSummary,
+  ObservabilityRunTrace,
+  ObservabilityToolTrace
+} from '../../shared/types/observability';
+export type {
+  CreatedRemoteAccessToken,
+  RemoteAccessLogEntry,
+  RemoteAccessLogKind,
+  RemoteAccessLogQuery,
+  RemoteAccessToken,
+  RemoteAccessTokenRequest,
+  RemoteTokenScope
+} from '../../shared/types/remote-access';
+export type {
+  EmbeddingProviderKind,
+  SemanticSearchConfig,
+  SemanticSearchHit
+} from '../../shared/types/semantic-search';
+export type {
+  WorkflowBranch,
+  WorkflowCondition,
+  WorkflowConditionType,
+  WorkflowLoop,
+  WorkflowParallel,
+  WorkflowParallelBranch,
+  WorkflowParallelBranchType,
+  WorkflowTrigger,
+  WorkflowTriggerType
+} from '../../shared/types/workflow';
 
 // API Provider Configuration
 // - 'anthropic': Official Anthropic API (api.anthropic.com)
@@ -115,6 +180,8 @@ export interface PermissionConfig {
   commandExecution: PermissionLevel;
   networkAccess: PermissionLevel;
   trustMode: boolean;
+  commandRules?: CommandRule[];
+  approvalTimeoutSeconds?: number;
 }
 
 export interface AppearanceConfig {
@@ -138,7 +205,8 @@ export interface RemoteAccessConfig {
   enabled: boolean;
   port: number;
   trustedOrigins?: string[];  // Allowed CORS origins (in addition to localhost)
-  fixedToken?: string;        // Optional fixed 6-digit token for remote API auth
+  fixedToken?: string;        // Optional fixed token (32+ characters) for scripted remote API auth
+  fixedTokenScope?: RemoteTokenScope;  // Scope of the fixed token (default read)
 }
 
 // ============================================
@@ -191,6 +259,18 @@ export interface McpServerStatus {
   error?: string;
 }
 
+// Provider degraded by the OpenAI-compat router's circuit breaker
+export interface ProviderHealth {
+  backendUrl: string;
+  profileId?: string;
+  profileName?: string;
+  state: 'healthy' | 'degraded';
+  consecutiveFailures: number;
+  lastError?: string;
+  retryAt?: number;  // Epoch ms when requests resume
+  updatedAt: number;
+}
+
 // ============================================
 // Claude Code Configuration Types
 // ============================================
@@ -200,6 +280,9 @@ export type {
   HooksConfig,
   HookDefinition,
   HookCommand,
+  ShellHookCommand,
+  HttpHookCommand,
+  BuiltinHookCommand,
   PluginsConfig,
   AgentsConfig,
   ClaudeCodeConfig
@@ -228,7 +311,13 @@ export interface KiteConfig {
   commands?: {
     legacyDependencyRegexEnabled: boolean;
   };
+  changeTracking?: {
+    maxSnapshotBytes: number;
+    maxHistoryAgeDays: number;  // 0 keeps history of any age
+    maxHistoryBytes: number;  // 0 keeps history of any size
+  };
   observability?: ObservabilityConfig;
+  semanticSearch?: SemanticSearchConfig;
   claudeCode?: ClaudeCodeConfig;  // Claude Code configuration (plugins, hooks, agents)
 }
 
@@ -265,6 +354,7 @@ export interface SpacePreferences {
   layout?: SpaceLayoutPreferences;
   skills?: SpaceSkillsPreferences;
   agents?: SpaceAgentsPreferences;
+  ai?: SpaceAiPreferences;
 }
 
 export interface Space {
@@ -316,11 +406,16 @@ export interface Conversation extends ConversationMeta {
 
 export interface WorkflowStep {
   id: string;
-  type: 'skill' | 'agent' | 'command' | 'message';
+  type: 'skill' | 'agent' | 'command' | 'message' | 'parallel';
   name?: string;
   input?: string;
   args?: string;
   summarizeAfter?: boolean;
+  key?: string;
+  saveAs?: string;
+  branch?: WorkflowBranch;
+  loop?: WorkflowLoop;
+  parallel?: WorkflowParallel;
 }
 
 export type { TemplateLibraryTab } from './template-library';
@@ -331,6 +426,7 @@ export interface Workflow {
   name: string;
   description?: string;
   steps: WorkflowStep[];
+  triggers?: WorkflowTrigger[];
   settings?: {
     thinkingEnabled?: boolean;
     aiBrowserEnabled?: boolean;
@@ -338,6 +434,7 @@ export interface Workflow {
   createdAt: string;
   updatedAt: string;
   lastRunAt?: string;
+  lastRunId?: string;
   lastConversationId?: string;
 }
 
@@ -349,9 +446,104 @@ export interface WorkflowMeta {
   createdAt: string;
   updatedAt: string;
   lastRunAt?: string;
+  lastRunId?: string;
   lastConversationId?: string;
 }
 
+export type WorkflowRunStatus = 'running' | 'completed' | 'error' | 'stopped' | 'interrupted';
+
+export interface WorkflowRunBranch {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
+  conversationId?: string;
+  output?: string;
+  error?: string;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+export interface WorkflowRunStep {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'error' | 'skipped';
+  conversationId?: string;
+  output?: string;
+  error?: string;
+  iterations?: number;
+  branches?: WorkflowRunBranch[];
+  startedAt?: string;
+  endedAt?: string;
+}
+
+// Workflow run driven by the main process (persisted under .kite/workflows/runs)
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  spaceId: string;
+  status: WorkflowRunStatus;
+  phase: 'step' | 'summary' | 'summary-inject';
+  currentStepIndex: number;
+  conversationId: string;
+  steps: WorkflowRunStep[];
+  variables?: Record<string, string>;
+  responseLanguage?: string;
+  trigger?: {
+    type: WorkflowTriggerType;
+    triggerId: string;
+    detail?: string;
+  };
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+  endedAt?: string;
+}
+
+// Scheduled occurrence that passed while the app was closed
+export interface MissedWorkflowTrigger {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  triggerId: string;
+  cron: string;
+  scheduledAt: string;
+}
+
+export type WorkflowImportResolution = 'overwrite' | 'rename' | 'skip';
+
+// Portable workflow bundle produced by export (opaque to the renderer)
+export interface WorkflowBundleExport {
+  bundle: Record<string, unknown>;
+  fileName: string;
+  missing: string[];
+}
+
+export interface WorkflowImportResourcePreview {
+  key: string;
+  type: 'skill' | 'agent' | 'command';
+  name: string;
+  namespace?: string;
+  status: 'new' | 'identical' | 'conflict';
+  renameTo?: string;
+}
+
+export interface WorkflowImportPreview {
+  workflowName: string;
+  description?: string;
+  stepCount: number;
+  resources: WorkflowImportResourcePreview[];
+  unresolved: string[];
+}
+
+export interface WorkflowImportResult {
+  workflow: Workflow;
+  resources: Array<{
+    key: string;
+    type: 'skill' | 'agent' | 'command';
+    name: string;
+    action: 'created' | 'overwritten' | 'renamed' | 'kept' | 'unchanged';
+  }>;
+}
+
 // ============================================
 // Message Types
 // ============================================
@@ -475,6 +667,10 @@ export interface ChangeFile {
   afterContent?: string;
   beforeHash?: string;
   afterHash?: string;
+  beforeSize?: number;
+  afterSize?: number;
+  binary?: boolean;  // Raw-byte snapshots, no line diff
+  snapshotSkipped?: boolean;  // Exceeded the snapshot size limit; cannot be rolled back
   stats: { added: number; removed: number };
 }
 
@@ -489,6 +685,15 @@ export interface ChangeSet {
   files: ChangeFile[];
 }
 
+export interface MessageRollbackResult {
+  changeSets: ChangeSet[];
+  conflicts: string[];
+  // Files whose later hand edits were kept by a three-way merge
+  merged: string[];
+  // Files left unchanged because no snapshot of their earlier content was kept
+  unavailable: string[];
+}
+
 // ============================================
 // Artifact Types
 // ============================================
@@ -708,6 +913,7 @@ export interface TokenUsage {
   cacheCreationTokens: number;
   totalCostUsd: number;
   contextWindow: number;
+  answeredBy?: AnsweredByInfo;
 }
 
 export interface AgentCompleteEvent extends AgentEventBase {
@@ -0,0 +1,50 @@
+/**
+ * Helpers for invoking recorded browser SOP skills with parameters.
+ */
+
+import { api } from '../api'
+import type { SopParameter } from '../../shared/types/sop'
+import {
+  formatSopParameterArgs,
+  normalizeSopParameters,
+  parseSopSpecBlock,
+  splitSopParameterArgs
+} from '../../shared/utils/sop-parameters'
+
+const LEADING_SKILL_DIRECTIVE_RE = /^\/([A-Za-z0-9_][\w:.-]*)(?:\s+([\s\S]*))?$/
+
+export interface SopSkillInvocation {
+  skillName: string
+  values: Record<string, string>
+  /** Text after the parameter pairs */
+  rest: string
+}
+
+/**
+ * Parameters declared by a recorded SOP skill (empty for other skills)
+ */
+export async function loadSopSkillParameters(skillName: string, workDir?: string): Promise<SopParameter[]> {
+  const response = await api.getSkillContent(skillName, workDir)
+  if (!response.success) return []
+  const content = (response.data as { content?: string } | undefined)?.content || ''
+  const spec = parseSopSpecBlock(content)
+  if (!spec) return []
+  const steps = Array.isArray(spec.steps) ? spec.steps as Array<{ value?: string }> : []
+  return normalizeSopParameters(spec.parameters, steps)
+}
+
+/**
+ * Split a message that starts with `/skill name="value" ...`
+ */
+export function parseSkillInvocation(message: string): SopSkillInvocation | null {
+  const match = LEADING_SKILL_DIRECTIVE_RE.exec(message.trim())
+  if (!match) return null
+  const { values, rest } = splitSopParameterArgs(match[2] || '')
+  return { skillName: match[1], values, rest }
+}
+
+export function buildSkillInvocation(invocation: SopSkillInvocation): string {
+  return [`/${invocation.skillName}`, formatSopParameterArgs(invocation.values), invocation.rest.trim()]
+    .filter(Boolean)
+    .join(' ')
+}
@@ -0,0 +1,151 @@
+/**
+ * REST API Client - Typed client for the local HTTP API
+ *
+ * For scripts and tools outside the app (the web UI keeps its own transport).
+ * Request and response types come from the route table in ./schema, so a call
+ * names an operation and gets the matching path params, query, body and data:
+ *
+ *   const client = createKiteApiClient({ baseUrl: 'http://127.0.0.1:3847', token })
+ *   const spaces = await client.call('listSpaces')
+ *   await client.call('createConversation', { params: { spaceId }, body: { title: 'Nightly' } })
+ */
+
+import type { z } from 'zod'
+import { API_ROUTES, type ApiOperationId, type ApiRoute, type ApiRouteSpec } from './schema'
+
+type RouteOf<Id extends ApiOperationId> = Extract<ApiRoute, { operationId: Id }>
+
+type PathParamNames<Path extends string> =
+  Path extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParamNames<Rest>
+    : Path extends `${string}:${infer Name}`
+      ? Name
+      : never
+
+type EmptyInput = Record<never, never>
+
+type ParamsInput<Route extends ApiRoute> =
+  [PathParamNames<Route['path']>] extends [never]
+    ? EmptyInput
+    : { params: Record<PathParamNames<Route['path']>, string> }
+
+type QueryInput<Route extends ApiRoute> =
+  Route extends { query: z.ZodType } ? { query: z.input<Route['query']> } : EmptyInput
+
+type BodyInput<Route extends ApiRoute> =
+  Route extends { body: z.ZodType } ? { body: z.input<Route['body']> } : EmptyInput
+
+export type ApiRequestInput<Id extends ApiOperationId> =
+  ParamsInput<RouteOf<Id>> & QueryInput<RouteOf<Id>> & BodyInput<RouteOf<Id>>
+
+export type ApiResponseData<Id extends ApiOperationId> =
+  RouteOf<Id> extends { data: z.ZodType } ? z.output<RouteOf<Id>['data']> : unknown
+
+export interface ApiResult<T> {
+  success: boolean
+  data?: T
+  error?: string
+  errorCode?: string
+  details?: string[]
+  /** HTTP status of the response */
+  status: number
+}
+
+export interface KiteApiClientOptions {
+  /** Server origin, e.g. http://127.0.0.1:3847 */
+  baseUrl: string
+  /** Device token; omit for public routes only */
+  token?: string
+  fetch?: typeof fetch
+}
+
+type CallArgs<Id extends ApiOperationId> =
+  EmptyInput extends ApiRequestInput<Id>
+    ? [input?: ApiRequestInput<Id>]
+    : [input: ApiRequestInput<Id>]
+
+interface LooseInput {
+  params?: Record<string, string>
+  query?: Record<string, unknown>
+  body?: unknown
+}
+
+const ROUTES_BY_ID = new Map<string, ApiRouteSpec>(API_ROUTES.map(route => [route.operationId, route]))
+
+/**
+ * Fill `:name` segments of a route path
+ */
+export function buildApiPath(path: string, params: Record<string, string> = {}): string {
+  return path.replace(/:([A-Za-z]+)/g, (_match, name: string) => {
+    const value = params[name]
+    if (value === undefined) {
+      throw new Error(`Missing path parameter: ${name}`)
+    }
+    return encodeURIComponent(value)
+  })
+}
+
+function buildQueryString(query: Record<string, unknown> | undefined): string {
+  if (!query) return ''
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value))
+    }
+  }
+  const text = search.toString()
+  return text ? `?${text}` : ''
+}
+
+export function createKiteApiClient(options: KiteApiClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '')
+  const fetchImpl = options.fetch ?? fetch
+
+  function send(operationId: ApiOperationId, input: LooseInput = {}): Promise<Response> {
+    const route = ROUTES_BY_ID.get(operationId)
+    if (!route) {
+      throw new Error(`Unknown operation: ${operationId}`)
+    }
+    const url = `${baseUrl}${buildApiPath(route.path, input.params)}${buildQueryString(input.query)}`
+    const headers: Record<string, string> = {}
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`
+    }
+    if (input.body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+    }
+    return fetchImpl(url, {
+      method: route.method,
+      headers,
+      body: input.body === undefined ? undefined : JSON.stringify(input.body)
+    })
+  }
+
+  return {
+    /**
+     * Call an operation and unwrap the `{ success, data, error }` envelope
+     */
+    async call<Id extends ApiOperationId>(
+      operationId: Id,
+      ...[input]: CallArgs<Id>
+    ): Promise<ApiResult<ApiResponseData<Id>>> {
+      const response = await send(operationId, input as LooseInput | undefined)
+      let payload: Partial<ApiResult<ApiResponseData<Id>>>
+      try {
+        payload = await response.json() as Partial<ApiResult<ApiResponseData<Id>>>
+      } catch {
+        payload = { success: false, error: `Unexpected response (HTTP ${response.status})` }
+      }
+      return { ...payload, success: payload.success === true && response.ok, status: response.status }
+    },
+
+    /**
+     * Call an operation and return the raw response, for file downloads
+     */
+    fetch<Id extends ApiOperationId>(operationId: Id, ...[input]: CallArgs<Id>): Promise<Response> {
+      return send(operationId, input as LooseInput | undefined)
+    }
+  }
+}
+
+export type KiteApiClient = ReturnType<typeof createKiteApiClient>
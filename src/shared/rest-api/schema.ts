@@ -0,0 +1,664 @@
+/**
+ * REST API Schema - Request and response shapes of the local HTTP API
+ *
+ * Single source for the routes registered by `http/server.ts` and
+ * `http/routes/index.ts`: the server validates requests against these schemas,
+ * `/api/openapi.json` is generated from them, and the typed client derives its
+ * signatures from them. Adding a route means adding an entry to API_ROUTES.
+ *
+ * Entity schemas list the fields scripts rely on and allow extra ones, so the
+ * app can grow its models without breaking the document.
+ */
+
+import { z } from 'zod'
+import { RESOURCE_LIST_VIEWS } from '../resource-access'
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export type ApiTag =
+  | 'remote'
+  | 'config'
+  | 'hooks'
+  | 'observability'
+  | 'spaces'
+  | 'conversations'
+  | 'change-sets'
+  | 'agent'
+  | 'toolkit'
+  | 'presets'
+  | 'skills'
+  | 'agents'
+  | 'commands'
+  | 'workflows'
+  | 'artifacts'
+
+export interface ApiRouteSpec {
+  method: ApiMethod
+  /** Express-style path; `:name` segments are path parameters */
+  path: string
+  operationId: string
+  summary: string
+  tag: ApiTag
+  query?: z.ZodObject
+  body?: z.ZodType
+  /** Shape of `data` in a successful response envelope */
+  data?: z.ZodType
+  /** Streams a file instead of the JSON envelope */
+  download?: boolean
+  /** Served without a token */
+  public?: boolean
+}
+
+// ============================================
+// Shared pieces
+// ============================================
+
+const id = z.string().min(1)
+const timestamp = z.string()
+const anyObject = z.record(z.string(), z.unknown())
+
+export const chatModeSchema = z.enum(['code', 'plan'])
+
+export const apiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  errorCode: z.string().optional(),
+  details: z.array(z.string()).optional()
+})
+
+// ============================================
+// Entities
+// ============================================
+
+export const spaceSchema = z.looseObject({
+  id,
+  name: z.string(),
+  icon: z.string(),
+  path: z.string(),
+  isTemp: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  stats: z.looseObject({})
+})
+
+export const conversationMetaSchema = z.looseObject({
+  id,
+  spaceId: z.string(),
+  title: z.string(),
+  mode: chatModeSchema.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  messageCount: z.number().int()
+})
+
+export const messageSchema = z.looseObject({
+  id,
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  timestamp
+})
+
+export const conversationSchema = conversationMetaSchema.extend({
+  messages: z.array(messageSchema),
+  sessionId: z.string().optional()
+})
+
+export const changeSetSchema = z.looseObject({
+  id,
+  spaceId: z.string(),
+  conversationId: z.string(),
+  messageId: z.string().optional(),
+  createdAt: timestamp,
+  status: z.enum(['applied', 'partial_rollback', 'rolled_back']),
+  summary: z.object({ totalFiles: z.number(), totalAdded: z.number(), totalRemoved: z.number() }),
+  files: z.array(z.looseObject({ path: z.string() }))
+})
+
+export const agentSessionStateSchema = z.looseObject({
+  isActive: z.boolean(),
+  thoughts: z.array(z.unknown()),
+  processTrace: z.array(z.unknown()),
+  runId: z.string().nullable().optional(),
+  mode: chatModeSchema.optional(),
+  lifecycle: z.string().optional()
+})
+
+export const workflowSchema = z.looseObject({
+  id,
+  spaceId: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  steps: z.array(z.looseObject({ id: z.string(), type: z.string() })),
+  createdAt: timestamp,
+  updatedAt: timestamp
+})
+
+export const workflowRunSchema = z.looseObject({
+  id,
+  workflowId: z.string(),
+  workflowName: z.string(),
+  spaceId: z.string(),
+  status: z.enum(['running', 'completed', 'error', 'stopped', 'interrupted']),
+  conversationId: z.string(),
+  currentStepIndex: z.number().int(),
+  error: z.string().optional(),
+  startedAt: timestamp,
+  updatedAt: timestamp,
+  endedAt: z.string().optional()
+})
+
+export const artifactSchema = z.looseObject({
+  id,
+  spaceId: z.string(),
+  name: z.string(),
+  type: z.enum(['file', 'folder']),
+  path: z.string(),
+  extension: z.string(),
+  createdAt: timestamp,
+  size: z.number().optional()
+})
+
+// ============================================
+// Requests
+// ============================================
+
+/**
+ * Device tokens (kite_...) or the fixed token from config
+ */
+export const loginTokenSchema = z.object({
+  token: z
+    .string({
+      error: (issue) => issue.input === undefined ? 'Token is required' : 'Token must be a string'
+    })
+    .trim()
+    .min(6, 'Token is too short')
+    .max(256, 'Token is too long')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Token contains invalid characters')
+})
+
+export const sendMessageBodySchema = z.looseObject({
+  spaceId: id,
+  conversationId: id,
+  message: z.string(),
+  opId: z.string().optional(),
+  responseLanguage: z.string().optional(),
+  resumeSessionId: z.string().optional(),
+  modelOverride: z.string().optional(),
+  model: z.string().optional(),
+  images: z.array(z.looseObject({
+    id: z.string(),
+    type: z.literal('image'),
+    mediaType: z.enum(['image/jpeg', 'image/png', 'image/gif', 'image/webp']),
+    data: z.string()
+  })).optional(),
+  thinkingEnabled: z.boolean().optional(),
+  aiBrowserEnabled: z.boolean().optional(),
+  planEnabled: z.boolean().optional(),
+  mode: chatModeSchema.optional(),
+  canvasContext: anyObject.optional(),
+  fileContexts: z.array(z.looseObject({ path: z.string(), name: z.string() })).optional()
+})
+
+const conversationTarget = {
+  spaceId: id,
+  conversationId: id
+}
+
+const toolDecisionBodySchema = z.object({
+  ...conversationTarget,
+  opId: z.string().optional(),
+  toolCallId: z.string().optional(),
+  /** Command rule to remember with the decision */
+  remember: anyObject.optional()
+})
+
+const spaceQuery = z.object({ spaceId: id })
+const spaceBody = z.object({ spaceId: id })
+const optionalWorkDir = { workDir: z.string().optional() }
+
+const resourceListQuery = z.object({
+  ...optionalWorkDir,
+  view: z.enum(RESOURCE_LIST_VIEWS),
+  locale: z.string().optional()
+})
+
+const resourceContentQuery = z.object({
+  ...optionalWorkDir,
+  name: z.string().min(1)
+})
+
+const resourceCreateBody = z.object({
+  workDir: z.string().min(1),
+  name: z.string().min(1),
+  content: z.string()
+})
+
+const resourcePathQuery = z.object({ path: z.string().min(1) })
+
+const copyByRefBody = z.object({
+  workDir: z.string().min(1),
+  ref: anyObject,
+  options: anyObject.optional()
+})
+
+const successOnly = z.undefined()
+
+// ============================================
+// Routes
+// ============================================
+
+export const API_ROUTES = [
+  // ===== Remote =====
+  {
+    method: 'POST', path: '/api/remote/login', operationId: 'login', tag: 'remote', public: true,
+    summary: 'Exchange a device token for a session',
+    body: loginTokenSchema,
+    data: z.object({ name: z.string(), scope: z.enum(['read', 'operator', 'admin']) })
+  },
+  {
+    method: 'GET', path: '/api/remote/status', operationId: 'getRemoteStatus', tag: 'remote', public: true,
+    summary: 'Remote server status',
+    data: z.object({ active: z.boolean(), clients: z.number().int(), version: z.string() })
+  },
+  {
+    method: 'GET', path: '/api/openapi.json', operationId: 'getOpenApiDocument', tag: 'remote',
+    summary: 'This document'
+  },
+
+  // ===== Config =====
+  { method: 'GET', path: '/api/config', operationId: 'getConfig', tag: 'config', summary: 'App configuration', data: anyObject },
+  {
+    method: 'POST', path: '/api/config', operationId: 'setConfig', tag: 'config',
+    summary: 'Merge updates into the app configuration',
+    body: anyObject, data: anyObject
+  },
+  {
+    method: 'POST', path: '/api/config/validate', operationId: 'validateApiConfig', tag: 'config',
+    summary: 'Check an AI provider API key',
+    body: z.object({
+      apiKey: z.string(),
+      apiUrl: z.string(),
+      provider: z.string(),
+      protocol: z.string().optional(),
+      model: z.string().optional()
+    })
+  },
+  {
+    method: 'GET', path: '/api/config/command-rules', operationId: 'listCommandRules', tag: 'config',
+    summary: 'Remembered tool approval rules',
+    query: z.object({ spaceId: z.string().optional() })
+  },
+  {
+    method: 'DELETE', path: '/api/config/command-rules/:ruleId', operationId: 'removeCommandRule', tag: 'config',
+    summary: 'Forget a tool approval rule',
+    query: z.object({ scope: z.enum(['global', 'space']), spaceId: z.string().optional() })
+  },
+
+  // ===== Hooks =====
+  { method: 'GET', path: '/api/spaces/:spaceId/hooks', operationId: 'listHooks', tag: 'hooks', summary: 'Hooks configured for a space' },
+  { method: 'GET', path: '/api/spaces/:spaceId/hooks/log', operationId: 'getHookLog', tag: 'hooks', summary: 'Recent hook executions' },
+  { method: 'DELETE', path: '/api/spaces/:spaceId/hooks/log', operationId: 'clearHookLog', tag: 'hooks', summary: 'Clear the hook log' },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/hooks/test', operationId: 'testHook', tag: 'hooks',
+    summary: 'Run a hook against a sample event',
+    body: z.object({ eventType: z.string(), hook: anyObject, input: anyObject.optional() })
+  },
+
+  // ===== Observability =====
+  {
+    method: 'GET', path: '/api/observability/runs', operationId: 'listRuns', tag: 'observability',
+    summary: 'Recorded agent runs',
+    query: z.object({
+      spaceId: z.string().optional(),
+      model: z.string().optional(),
+      status: z.string().optional(),
+      sort: z.enum(['recent', 'slowest']).optional(),
+      limit: z.string().regex(/^\d+$/).optional()
+    }),
+    data: z.object({ runs: z.array(z.looseObject({ runId: z.string() })), models: z.array(z.string()) })
+  },
+  { method: 'GET', path: '/api/observability/runs/:runId', operationId: 'getRun', tag: 'observability', summary: 'One run with phase and tool timings' },
+  { method: 'DELETE', path: '/api/observability/runs', operationId: 'clearRuns', tag: 'observability', summary: 'Delete recorded runs' },
+
+  // ===== Spaces =====
+  { method: 'GET', path: '/api/spaces/kite', operationId: 'getKiteSpace', tag: 'spaces', summary: 'The built-in Kite space', data: spaceSchema },
+  { method: 'GET', path: '/api/spaces/default-path', operationId: 'getDefaultSpacePath', tag: 'spaces', summary: 'Directory new spaces are created in', data: z.string() },
+  { method: 'GET', path: '/api/spaces', operationId: 'listSpaces', tag: 'spaces', summary: 'All spaces', data: z.array(spaceSchema) },
+  {
+    method: 'POST', path: '/api/spaces', operationId: 'createSpace', tag: 'spaces',
+    summary: 'Create a space',
+    body: z.object({ name: z.string().min(1), icon: z.string(), customPath: z.string().optional() }),
+    data: spaceSchema
+  },
+  { method: 'GET', path: '/api/spaces/:spaceId', operationId: 'getSpace', tag: 'spaces', summary: 'One space', data: spaceSchema },
+  {
+    method: 'PUT', path: '/api/spaces/:spaceId', operationId: 'updateSpace', tag: 'spaces',
+    summary: 'Rename a space or change its icon',
+    body: z.looseObject({ name: z.string().min(1).optional(), icon: z.string().optional() }),
+    data: spaceSchema
+  },
+  { method: 'DELETE', path: '/api/spaces/:spaceId', operationId: 'deleteSpace', tag: 'spaces', summary: 'Delete a space' },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/open', operationId: 'openSpace', tag: 'spaces',
+    summary: 'Path of the space folder',
+    data: z.object({ path: z.string() })
+  },
+
+  // ===== Conversations =====
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/conversations', operationId: 'listConversations', tag: 'conversations',
+    summary: 'Conversations in a space, without messages',
+    data: z.array(conversationMetaSchema)
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/conversations', operationId: 'createConversation', tag: 'conversations',
+    summary: 'Start a conversation',
+    body: z.object({ title: z.string().optional() }),
+    data: conversationSchema
+  },
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/conversations/:conversationId', operationId: 'getConversation', tag: 'conversations',
+    summary: 'A conversation with its messages',
+    data: conversationSchema
+  },
+  {
+    method: 'PUT', path: '/api/spaces/:spaceId/conversations/:conversationId', operationId: 'updateConversation', tag: 'conversations',
+    summary: 'Update conversation fields such as the title',
+    body: anyObject
+  },
+  {
+    method: 'DELETE', path: '/api/spaces/:spaceId/conversations/:conversationId', operationId: 'deleteConversation', tag: 'conversations',
+    summary: 'Delete a conversation'
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/conversations/:conversationId/messages', operationId: 'addMessage', tag: 'conversations',
+    summary: 'Append a message without running the agent',
+    body: z.looseObject({ role: z.enum(['user', 'assistant', 'system']), content: z.string() })
+  },
+  {
+    method: 'PUT', path: '/api/spaces/:spaceId/conversations/:conversationId/messages/last', operationId: 'updateLastMessage', tag: 'conversations',
+    summary: 'Update the last message',
+    body: anyObject
+  },
+
+  // ===== Change Sets =====
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/conversations/:conversationId/change-sets', operationId: 'listChangeSets', tag: 'change-sets',
+    summary: 'File changes made by the agent in a conversation, without file contents',
+    data: z.array(changeSetSchema)
+  },
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/conversations/:conversationId/change-sets/:changeSetId', operationId: 'getChangeSet', tag: 'change-sets',
+    summary: 'One change set with the before/after contents of its text files',
+    data: changeSetSchema
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/conversations/:conversationId/change-sets/accept', operationId: 'acceptChangeSet', tag: 'change-sets',
+    summary: 'Accept a change set, or one file in it',
+    body: z.object({ changeSetId: id, filePath: z.string().optional() })
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/conversations/:conversationId/change-sets/rollback', operationId: 'rollbackChangeSet', tag: 'change-sets',
+    summary: 'Roll back a change set, or one file in it',
+    body: z.object({ changeSetId: id, filePath: z.string().optional(), force: z.boolean().optional() })
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/conversations/:conversationId/change-sets/rollback-to-message', operationId: 'rollbackToMessage', tag: 'change-sets',
+    summary: 'Roll back every change made after a message',
+    body: z.object({ messageId: id, force: z.boolean().optional() })
+  },
+  { method: 'GET', path: '/api/spaces/:spaceId/change-history', operationId: 'getChangeHistory', tag: 'change-sets', summary: 'Change history of a space' },
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/change-history/snapshots/:hash', operationId: 'getChangeSnapshot', tag: 'change-sets',
+    summary: 'Stored file content by hash'
+  },
+  {
+    method: 'POST', path: '/api/spaces/:spaceId/change-history/prune', operationId: 'pruneChangeHistory', tag: 'change-sets',
+    summary: 'Drop old snapshots',
+    body: z.object({ maxAgeDays: z.number().positive().optional(), maxBytes: z.number().positive().optional() })
+  },
+
+  // ===== Agent =====
+  {
+    method: 'POST', path: '/api/agent/message', operationId: 'sendMessage', tag: 'agent',
+    summary: 'Send a message; the reply streams over the WebSocket',
+    body: sendMessageBodySchema,
+    data: z.looseObject({ accepted: z.literal(true), diagnosticCode: z.string().optional() })
+  },
+  {
+    method: 'POST', path: '/api/agent/guide-message', operationId: 'guideMessage', tag: 'agent',
+    summary: 'Steer a running agent',
+    body: z.object({
+      ...conversationTarget,
+      message: z.string(),
+      opId: z.string().optional(),
+      runId: z.string().optional(),
+      clientMessageId: z.string().optional()
+    })
+  },
+  {
+    method: 'POST', path: '/api/agent/mode', operationId: 'setAgentMode', tag: 'agent',
+    summary: 'Switch between code and plan mode',
+    body: z.object({ ...conversationTarget, mode: chatModeSchema, runId: z.string().optional() })
+  },
+  {
+    method: 'POST', path: '/api/workflow/step-message', operationId: 'sendWorkflowStepMessage', tag: 'workflows',
+    summary: 'Not available over HTTP; always answers 403'
+  },
+  {
+    method: 'POST', path: '/api/agent/stop', operationId: 'stopGeneration', tag: 'agent',
+    summary: 'Stop the agent in a conversation, or in the whole space',
+    body: z.object({ spaceId: id, conversationId: z.string().optional(), opId: z.string().optional() })
+  },
+  {
+    method: 'POST', path: '/api/agent/warm', operationId: 'warmSession', tag: 'agent',
+    summary: 'Start the agent session ahead of the first message',
+    body: z.object({ ...conversationTarget, responseLanguage: z.string().optional(), options: anyObject.optional() }),
+    data: successOnly
+  },
+  {
+    method: 'GET', path: '/api/agent/resource-hash', operationId: 'getResourceHash', tag: 'agent',
+    summary: 'Hash of the skills, agents and commands available to a session',
+    query: z.object({ spaceId: z.string().optional(), workDir: z.string().optional(), conversationId: z.string().optional() }),
+    data: z.object({ hash: z.string(), workDir: z.string().nullable(), sessionResourceHash: z.string().nullable() })
+  },
+  {
+    method: 'POST', path: '/api/agent/approve', operationId: 'approveTool', tag: 'agent',
+    summary: 'Approve a pending tool call',
+    body: toolDecisionBodySchema
+  },
+  {
+    method: 'POST', path: '/api/agent/reject', operationId: 'rejectTool', tag: 'agent',
+    summary: 'Reject a pending tool call',
+    body: toolDecisionBodySchema
+  },
+  {
+    method: 'POST', path: '/api/agent/answer-question', operationId: 'answerQuestion', tag: 'agent',
+    summary: 'Answer a question the agent asked',
+    body: z.object({
+      ...conversationTarget,
+      answer: z.string().optional(),
+      payload: anyObject.optional(),
+      opId: z.string().optional()
+    }).refine(body => body.answer !== undefined || body.payload !== undefined, 'answer or payload is required')
+  },
+  {
+    method: 'GET', path: '/api/agent/sessions', operationId: 'listActiveSessions', tag: 'agent',
+    summary: 'Conversations with a live agent session',
+    data: z.array(z.object({ spaceId: z.string(), conversationId: z.string(), sessionKey: z.string() }))
+  },
+  {
+    method: 'GET', path: '/api/agent/generating/:conversationId', operationId: 'checkGenerating', tag: 'agent',
+    summary: 'Whether the agent is running in a conversation',
+    query: spaceQuery,
+    data: z.boolean()
+  },
+  {
+    method: 'GET', path: '/api/agent/session/:conversationId', operationId: 'getSessionState', tag: 'agent',
+    summary: 'In-flight agent state, for recovering a view',
+    query: spaceQuery,
+    data: agentSessionStateSchema
+  },
+  { method: 'POST', path: '/api/agent/test-mcp', operationId: 'testMcpConnections', tag: 'agent', summary: 'Connect to each configured MCP server' },
+
+  // ===== Toolkit =====
+  { method: 'GET', path: '/api/toolkit/:spaceId', operationId: 'getToolkit', tag: 'toolkit', summary: 'Resources enabled in a space' },
+  { method: 'POST', path: '/api/toolkit/:spaceId/add', operationId: 'addToolkitResource', tag: 'toolkit', summary: 'Enable a resource', body: anyObject },
+  { method: 'POST', path: '/api/toolkit/:spaceId/remove', operationId: 'removeToolkitResource', tag: 'toolkit', summary: 'Disable a resource', body: anyObject },
+  { method: 'DELETE', path: '/api/toolkit/:spaceId', operationId: 'clearToolkit', tag: 'toolkit', summary: 'Disable all resources', data: z.null() },
+  {
+    method: 'POST', path: '/api/toolkit/:spaceId/migrate', operationId: 'migrateToolkit', tag: 'toolkit',
+    summary: 'Enable the given skills and agents',
+    body: z.object({ skills: z.array(z.unknown()).optional(), agents: z.array(z.unknown()).optional() })
+  },
+
+  // ===== Presets =====
+  { method: 'GET', path: '/api/presets', operationId: 'listPresets', tag: 'presets', summary: 'Space presets' },
+  { method: 'GET', path: '/api/presets/:presetId', operationId: 'getPreset', tag: 'presets', summary: 'One preset' },
+
+  // ===== Skills =====
+  { method: 'GET', path: '/api/skills', operationId: 'listSkills', tag: 'skills', summary: 'Skills visible in a view', query: resourceListQuery },
+  { method: 'GET', path: '/api/skills/content', operationId: 'getSkillContent', tag: 'skills', summary: 'Skill source', query: resourceContentQuery },
+  { method: 'POST', path: '/api/skills', operationId: 'createSkill', tag: 'skills', summary: 'Create a skill in a space', body: resourceCreateBody },
+  {
+    method: 'PUT', path: '/api/skills', operationId: 'updateSkill', tag: 'skills', summary: 'Replace a skill\'s source',
+    body: z.object({ skillPath: z.string().min(1), content: z.string() }), data: z.literal(true)
+  },
+  { method: 'DELETE', path: '/api/skills', operationId: 'deleteSkill', tag: 'skills', summary: 'Delete a skill', query: resourcePathQuery, data: z.literal(true) },
+  {
+    method: 'POST', path: '/api/skills/copy', operationId: 'copySkill', tag: 'skills', summary: 'Copy a skill into a space',
+    body: z.object({ workDir: z.string().min(1), skillName: z.string().min(1) })
+  },
+  { method: 'POST', path: '/api/skills/copy-by-ref', operationId: 'copySkillByRef', tag: 'skills', summary: 'Copy a skill by reference', body: copyByRefBody },
+  { method: 'POST', path: '/api/skills/clear-cache', operationId: 'clearSkillsCache', tag: 'skills', summary: 'Reload skills from disk', data: successOnly },
+  {
+    method: 'POST', path: '/api/skills/refresh', operationId: 'refreshResources', tag: 'skills',
+    summary: 'Rebuild the skill, agent and command index',
+    body: z.object(optionalWorkDir)
+  },
+
+  // ===== Agents =====
+  { method: 'GET', path: '/api/agents', operationId: 'listAgents', tag: 'agents', summary: 'Agents visible in a view', query: resourceListQuery },
+  { method: 'GET', path: '/api/agents/content', operationId: 'getAgentContent', tag: 'agents', summary: 'Agent source', query: resourceContentQuery },
+  { method: 'POST', path: '/api/agents', operationId: 'createAgent', tag: 'agents', summary: 'Create an agent in a space', body: resourceCreateBody },
+  {
+    method: 'PUT', path: '/api/agents', operationId: 'updateAgent', tag: 'agents', summary: 'Replace an agent\'s source',
+    body: z.object({ agentPath: z.string().min(1), content: z.string() }), data: z.literal(true)
+  },
+  { method: 'DELETE', path: '/api/agents', operationId: 'deleteAgent', tag: 'agents', summary: 'Delete an agent', query: resourcePathQuery, data: z.literal(true) },
+  {
+    method: 'POST', path: '/api/agents/copy', operationId: 'copyAgent', tag: 'agents', summary: 'Copy an agent into a space',
+    body: z.object({ workDir: z.string().min(1), agentName: z.string().min(1) })
+  },
+  { method: 'POST', path: '/api/agents/copy-by-ref', operationId: 'copyAgentByRef', tag: 'agents', summary: 'Copy an agent by reference', body: copyByRefBody },
+  { method: 'POST', path: '/api/agents/clear-cache', operationId: 'clearAgentsCache', tag: 'agents', summary: 'Reload agents from disk', data: successOnly },
+
+  // ===== Commands =====
+  { method: 'GET', path: '/api/commands', operationId: 'listCommands', tag: 'commands', summary: 'Commands visible in a view', query: resourceListQuery },
+  {
+    method: 'GET', path: '/api/commands/content', operationId: 'getCommandContent', tag: 'commands', summary: 'Command source',
+    query: resourceContentQuery.extend({
+      locale: z.string().optional(),
+      executionMode: z.enum(['display', 'execute']).optional()
+    })
+  },
+  { method: 'POST', path: '/api/commands', operationId: 'createCommand', tag: 'commands', summary: 'Create a command in a space', body: resourceCreateBody },
+  {
+    method: 'PUT', path: '/api/commands', operationId: 'updateCommand', tag: 'commands', summary: 'Replace a command\'s source',
+    body: z.object({ commandPath: z.string().min(1), content: z.string() }), data: z.literal(true)
+  },
+  { method: 'DELETE', path: '/api/commands', operationId: 'deleteCommand', tag: 'commands', summary: 'Delete a command', query: resourcePathQuery, data: z.literal(true) },
+  {
+    method: 'POST', path: '/api/commands/copy', operationId: 'copyCommand', tag: 'commands', summary: 'Copy a command into a space',
+    body: z.object({ workDir: z.string().min(1), commandName: z.string().min(1) })
+  },
+  { method: 'POST', path: '/api/commands/copy-by-ref', operationId: 'copyCommandByRef', tag: 'commands', summary: 'Copy a command by reference', body: copyByRefBody },
+  { method: 'POST', path: '/api/commands/clear-cache', operationId: 'clearCommandsCache', tag: 'commands', summary: 'Reload commands from disk', data: successOnly },
+
+  // ===== Workflows =====
+  { method: 'GET', path: '/api/workflows', operationId: 'listWorkflows', tag: 'workflows', summary: 'Workflows in a space', query: spaceQuery },
+  {
+    method: 'GET', path: '/api/workflows/missed-triggers', operationId: 'listMissedWorkflowTriggers', tag: 'workflows',
+    summary: 'Scheduled runs that passed while the app was closed',
+    query: spaceQuery
+  },
+  {
+    method: 'POST', path: '/api/workflows/missed-triggers/:missedId/run', operationId: 'runMissedWorkflowTrigger', tag: 'workflows',
+    summary: 'Run a missed scheduled workflow now',
+    body: spaceBody
+  },
+  {
+    method: 'DELETE', path: '/api/workflows/missed-triggers/:missedId', operationId: 'dismissMissedWorkflowTrigger', tag: 'workflows',
+    summary: 'Dismiss a missed scheduled run',
+    query: spaceQuery
+  },
+  {
+    method: 'POST', path: '/api/workflows/import/preview', operationId: 'previewWorkflowImport', tag: 'workflows',
+    summary: 'Check a workflow bundle before importing it',
+    body: z.object({ spaceId: id, bundle: z.unknown() })
+  },
+  {
+    method: 'POST', path: '/api/workflows/import', operationId: 'importWorkflowBundle', tag: 'workflows',
+    summary: 'Import a workflow bundle',
+    body: z.object({ spaceId: id, bundle: z.unknown(), resolutions: z.unknown().optional() })
+  },
+  { method: 'GET', path: '/api/workflows/:workflowId', operationId: 'getWorkflow', tag: 'workflows', summary: 'One workflow', query: spaceQuery, data: workflowSchema },
+  {
+    method: 'POST', path: '/api/workflows', operationId: 'createWorkflow', tag: 'workflows', summary: 'Create a workflow',
+    body: z.object({ spaceId: id, input: anyObject }), data: workflowSchema
+  },
+  {
+    method: 'PUT', path: '/api/workflows/:workflowId', operationId: 'updateWorkflow', tag: 'workflows', summary: 'Update a workflow',
+    body: z.object({ spaceId: id, updates: anyObject }), data: workflowSchema
+  },
+  { method: 'DELETE', path: '/api/workflows/:workflowId', operationId: 'deleteWorkflow', tag: 'workflows', summary: 'Delete a workflow', query: spaceQuery, data: z.literal(true) },
+  { method: 'GET', path: '/api/workflows/:workflowId/export', operationId: 'exportWorkflowBundle', tag: 'workflows', summary: 'Export a workflow as a bundle', query: spaceQuery },
+  {
+    method: 'GET', path: '/api/workflows/:workflowId/runs', operationId: 'listWorkflowRuns', tag: 'workflows', summary: 'Runs of a workflow',
+    query: spaceQuery, data: z.array(workflowRunSchema)
+  },
+  {
+    method: 'POST', path: '/api/workflows/:workflowId/runs', operationId: 'startWorkflowRun', tag: 'workflows', summary: 'Start a workflow run',
+    body: z.object({ spaceId: id, responseLanguage: z.string().optional() }), data: workflowRunSchema
+  },
+  {
+    method: 'GET', path: '/api/workflows/:workflowId/runs/:runId', operationId: 'getWorkflowRun', tag: 'workflows', summary: 'One workflow run',
+    query: spaceQuery, data: workflowRunSchema
+  },
+  {
+    method: 'POST', path: '/api/workflows/:workflowId/runs/:runId/stop', operationId: 'stopWorkflowRun', tag: 'workflows', summary: 'Stop a workflow run',
+    body: spaceBody, data: workflowRunSchema
+  },
+  {
+    method: 'POST', path: '/api/workflows/:workflowId/runs/:runId/resume', operationId: 'resumeWorkflowRun', tag: 'workflows', summary: 'Resume an interrupted workflow run',
+    body: spaceBody, data: workflowRunSchema
+  },
+
+  // ===== Artifacts =====
+  { method: 'GET', path: '/api/spaces/:spaceId/artifacts', operationId: 'listArtifacts', tag: 'artifacts', summary: 'Files in a space', data: z.array(artifactSchema) },
+  { method: 'GET', path: '/api/spaces/:spaceId/artifacts/tree', operationId: 'listArtifactsTree', tag: 'artifacts', summary: 'Files in a space as a tree' },
+  {
+    method: 'GET', path: '/api/artifacts/download', operationId: 'downloadArtifact', tag: 'artifacts', download: true,
+    summary: 'Download a file inside a space',
+    query: z.object({ path: z.string().min(1) })
+  },
+  {
+    method: 'GET', path: '/api/spaces/:spaceId/artifacts/download-all', operationId: 'downloadAllArtifacts', tag: 'artifacts', download: true,
+    summary: 'Download the files of a space'
+  }
+] as const satisfies readonly ApiRouteSpec[]
+
+export type ApiRoute = (typeof API_ROUTES)[number]
+export type ApiOperationId = ApiRoute['operationId']
+
+/**
+ * Full response envelope of a route, for checking responses in tests and scripts
+ */
+export function getApiResponseSchema(route: ApiRouteSpec): z.ZodType {
+  const success = route.data === undefined
+    ? z.looseObject({ success: z.literal(true) })
+    : route.data instanceof z.ZodUndefined
+      ? z.object({ success: z.literal(true) })
+      : z.object({ success: z.literal(true), data: route.data, errorCode: z.string().optional() })
+  return z.union([success, apiErrorSchema])
+}
@@ -32,6 +32,25 @@ export type ProviderVendor =
   | 'custom'
 export type ProviderProtocol = 'anthropic_official' | 'anthropic_compat' | 'openai_compat'
 
+/**
+ * How the local OpenAI-compat router talks to a profile's backend.
+ * Only applies to openai_compat profiles.
+ */
+export interface ProviderRequestPolicy {
+  /** Requests allowed in flight at once for the profile's URL + key */
+  maxConcurrent: number
+  /** Retries for 429, 5xx and dropped connections before the error reaches the agent */
+  maxRetries: number
+}
+
+export const DEFAULT_PROVIDER_REQUEST_POLICY: ProviderRequestPolicy = {
+  maxConcurrent: 1,
+  maxRetries: 3
+}
+
+export const MAX_PROVIDER_CONCURRENCY = 16
+export const MAX_PROVIDER_RETRIES = 10
+
 export interface ApiProfile {
   id: string
   name: string
@@ -43,11 +62,35 @@ export interface ApiProfile {
   modelCatalog: string[]
   docUrl?: string
   enabled: boolean
+  requestPolicy?: ProviderRequestPolicy
 }
 
 export interface ConversationAiConfig {
   profileId: string
   modelOverride?: string
+  /**
+   * Profiles tried in order when the primary one fails.
+   * Unset inherits the space chain; an empty list disables fallback.
+   */
+  fallbackProfileIds?: string[]
+}
+
+/**
+ * Space-wide AI defaults stored in space preferences
+ */
+export interface SpaceAiPreferences {
+  fallbackProfileIds?: string[]
+}
+
+/**
+ * Profile that answered a turn, recorded with its token usage
+ */
+export interface AnsweredByInfo {
+  profileId: string
+  profileName: string
+  model: string
+  /** True when a fallback profile answered instead of the primary one */
+  fallback: boolean
 }
 
 export interface AiConfig {
@@ -189,6 +232,30 @@ export function profileToLegacyApi(profile: ApiProfile): LegacyApiConfig {
   })
 }
 
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+export function normalizeProviderRequestPolicy(value: unknown): ProviderRequestPolicy | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const raw = value as Partial<ProviderRequestPolicy>
+  return {
+    maxConcurrent: clampInteger(
+      raw.maxConcurrent,
+      1,
+      MAX_PROVIDER_CONCURRENCY,
+      DEFAULT_PROVIDER_REQUEST_POLICY.maxConcurrent
+    ),
+    maxRetries: clampInteger(raw.maxRetries, 0, MAX_PROVIDER_RETRIES, DEFAULT_PROVIDER_REQUEST_POLICY.maxRetries)
+  }
+}
+
+/** Effective router policy for a profile, filling in defaults */
+export function resolveProviderRequestPolicy(profile: Pick<ApiProfile, 'requestPolicy'>): ProviderRequestPolicy {
+  return normalizeProviderRequestPolicy(profile.requestPolicy) ?? { ...DEFAULT_PROVIDER_REQUEST_POLICY }
+}
+
 function normalizeModelCatalog(modelCatalog: unknown, defaultModel: string): string[] {
   if (!Array.isArray(modelCatalog)) {
     return defaultModel ? [defaultModel] : []
@@ -229,7 +296,8 @@ function normalizeProfile(
     defaultModel,
     modelCatalog: normalizeModelCatalog(rawProfile.modelCatalog, defaultModel),
     docUrl: isNonEmptyString(rawProfile.docUrl) ? rawProfile.docUrl.trim() : undefined,
-    enabled: typeof rawProfile.enabled === 'boolean' ? rawProfile.enabled : true
+    enabled: typeof rawProfile.enabled === 'boolean' ? rawProfile.enabled : true,
+    requestPolicy: normalizeProviderRequestPolicy(rawProfile.requestPolicy)
   }
 }
 
@@ -305,6 +373,30 @@ export function isValidOpenAICompatEndpoint(url: string): boolean {
   return normalized.endsWith('/chat/completions') || normalized.endsWith('/responses')
 }
 
+/**
+ * Resolve fallback profile ids into usable profiles, in order.
+ * Skips the primary profile, duplicates, and profiles that could not serve a request.
+ */
+export function resolveFallbackProfiles(
+  profiles: ApiProfile[],
+  primaryProfileId: string,
+  fallbackProfileIds: string[] | undefined
+): ApiProfile[] {
+  if (!Array.isArray(fallbackProfileIds)) return []
+
+  const seen = new Set<string>([primaryProfileId])
+  const chain: ApiProfile[] = []
+  for (const profileId of fallbackProfileIds) {
+    if (typeof profileId !== 'string' || seen.has(profileId)) continue
+    seen.add(profileId)
+    const profile = profiles.find(item => item.id === profileId)
+    if (!profile || profile.enabled === false || !isNonEmptyString(profile.apiKey)) continue
+    if (profile.protocol === 'openai_compat' && !isValidOpenAICompatEndpoint(profile.apiUrl)) continue
+    chain.push(profile)
+  }
+  return chain
+}
+
 export function getAiSetupState(
   config: AiSetupConfigInput | null | undefined,
   profileId?: string | null
@@ -370,7 +462,9 @@ export function mirrorLegacyApiToAi(
     ...normalizedAi,
     defaultProfileId,
     profiles: normalizedAi.profiles.map(profile =>
-      profile.id === defaultProfileId ? { ...mirroredProfile, docUrl: profile.docUrl } : profile
+      profile.id === defaultProfileId
+        ? { ...mirroredProfile, docUrl: profile.docUrl, requestPolicy: profile.requestPolicy }
+        : profile
     )
   }
 }
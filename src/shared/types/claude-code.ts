@@ -33,12 +33,57 @@ export interface HookDefinition {
   hooks: HookCommand[]
 }
 
-export interface HookCommand {
+export type HookCommand = ShellHookCommand | HttpHookCommand | BuiltinHookCommand
+
+/**
+ * Runs a shell command (Claude Code compatible)
+ */
+export interface ShellHookCommand {
   type: 'command'
   command: string
   timeout?: number  // milliseconds
 }
 
+/**
+ * POSTs the hook event JSON to a URL.
+ * For PreToolUse / PermissionRequest the response can allow or deny the call:
+ * either a Claude Code hook output or `{ "decision": "allow" | "deny" | "ask", "reason": "..." }`.
+ */
+export interface HttpHookCommand {
+  type: 'http'
+  url: string
+  headers?: Record<string, string>
+  timeout?: number  // milliseconds (default: 10000)
+}
+
+/**
+ * Declarative hooks that run in-process (no shell)
+ */
+export type BuiltinHookCommand = BlockPathsHook | RequireApprovalHook | AppendPromptHook
+
+/** PreToolUse: deny tool calls that touch a path matching any glob */
+export interface BlockPathsHook {
+  type: 'builtin'
+  action: 'block-paths'
+  paths: string[]
+  message?: string
+}
+
+/** PreToolUse: always ask the user before running the listed tools */
+export interface RequireApprovalHook {
+  type: 'builtin'
+  action: 'require-approval'
+  tools: string[]
+  message?: string
+}
+
+/** UserPromptSubmit: append text to every prompt */
+export interface AppendPromptHook {
+  type: 'builtin'
+  action: 'append-prompt'
+  text: string
+}
+
 // ============================================
 // Plugins Configuration
 // ============================================
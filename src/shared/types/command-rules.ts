@@ -0,0 +1,116 @@
+/**
+ * Command Rules
+ *
+ * Remembered answers to Bash approval prompts. Rules live either in the global
+ * config (`permissions.commandRules`) or in a space's `.kite/space-config.json`
+ * and are matched before the user is asked again.
+ */
+
+export type CommandRuleMatch = 'exact' | 'prefix'
+export type CommandRuleAction = 'allow' | 'deny'
+export type CommandRuleScope = 'global' | 'space'
+
+export interface CommandRule {
+  id: string
+  match: CommandRuleMatch
+  /** Whole command for `exact`, leading words for `prefix` */
+  pattern: string
+  action: CommandRuleAction
+  createdAt: string
+}
+
+export interface ScopedCommandRule extends CommandRule {
+  scope: CommandRuleScope
+}
+
+/**
+ * "Remember this" choice sent along with an approval or rejection
+ */
+export interface CommandRuleRequest {
+  match: CommandRuleMatch
+  scope: CommandRuleScope
+  /** Prefix to remember (defaults to suggestCommandPrefix of the command) */
+  pattern?: string
+}
+
+// Chaining, substitution and redirection let a command run more than its prefix says
+const SHELL_CONTROL_PATTERN = /[;&|`<>\n]|\$\(/
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ')
+}
+
+export function hasShellControlOperators(command: string): boolean {
+  return SHELL_CONTROL_PATTERN.test(command)
+}
+
+/**
+ * Suggested prefix for "always allow" (program plus its first non-flag argument)
+ */
+export function suggestCommandPrefix(command: string): string {
+  const words = normalizeCommand(command).split(' ').filter(Boolean)
+  if (words.length <= 1) return words[0] || ''
+  return words[1].startsWith('-') ? words[0] : `${words[0]} ${words[1]}`
+}
+
+/**
+ * Whether `prefix` is the leading words of a command (whole words only)
+ */
+export function isCommandPrefix(prefix: string, command: string): boolean {
+  const pattern = normalizeCommand(prefix)
+  const normalized = normalizeCommand(command)
+  return pattern.length > 0 && (normalized === pattern || normalized.startsWith(`${pattern} `))
+}
+
+/**
+ * Whether a rule covers a command.
+ * Allow-prefix rules never cover commands that chain or redirect; deny-prefix
+ * rules match any segment of such commands.
+ */
+export function matchesCommandRule(rule: CommandRule, command: string): boolean {
+  const normalized = normalizeCommand(command)
+  const pattern = normalizeCommand(rule.pattern)
+  if (!pattern) return false
+
+  if (rule.match === 'exact') return normalized === pattern
+
+  if (rule.action === 'deny') {
+    return normalized.split(/[;&|\n`]|\$\(/).some(segment => isCommandPrefix(pattern, segment))
+  }
+  return !hasShellControlOperators(normalized) && isCommandPrefix(pattern, normalized)
+}
+
+/**
+ * Drop malformed entries from persisted rules
+ */
+export function normalizeCommandRules(value: unknown): CommandRule[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((rule): rule is CommandRule => {
+    if (!rule || typeof rule !== 'object') return false
+    const candidate = rule as Partial<CommandRule>
+    return (
+      typeof candidate.id === 'string' &&
+      typeof candidate.pattern === 'string' &&
+      candidate.pattern.trim().length > 0 &&
+      (candidate.match === 'exact' || candidate.match === 'prefix') &&
+      (candidate.action === 'allow' || candidate.action === 'deny')
+    )
+  })
+}
+
+/**
+ * Validate a "remember this" choice received over IPC/HTTP
+ */
+export function normalizeCommandRuleRequest(value: unknown): CommandRuleRequest | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const candidate = value as Partial<CommandRuleRequest>
+  if (candidate.match !== 'exact' && candidate.match !== 'prefix') return undefined
+  if (candidate.scope !== 'global' && candidate.scope !== 'space') return undefined
+  return {
+    match: candidate.match,
+    scope: candidate.scope,
+    ...(typeof candidate.pattern === 'string' && candidate.pattern.trim()
+      ? { pattern: candidate.pattern.trim() }
+      : {})
+  }
+}
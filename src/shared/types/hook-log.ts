@@ -0,0 +1,95 @@
+/**
+ * Hook Log
+ *
+ * Every hook invocation in a space is kept in a bounded in-memory log so users
+ * can see what their hooks did. Dry runs from the Settings hook tester are
+ * recorded there too, flagged with `dryRun`.
+ */
+
+import type { HookCommand, HooksConfig } from './claude-code'
+
+export type HookEventType = keyof HooksConfig
+
+export type HookInvocationOutcome = 'success' | 'error' | 'cancelled'
+
+export interface HookInvocation {
+  id: string
+  spaceId: string
+  conversationId?: string
+  eventType: string
+  hookType: HookCommand['type']
+  /** Command line, URL or builtin action */
+  hookName: string
+  outcome: HookInvocationOutcome
+  exitCode?: number
+  stdout?: string
+  stderr?: string
+  /** Hook output JSON (or raw text) returned to the agent */
+  output?: string
+  error?: string
+  startedAt: string
+  durationMs: number
+  dryRun?: boolean
+}
+
+/**
+ * Dry run of a hook definition against a sample event payload
+ */
+export interface HookTestRequest {
+  eventType: HookEventType
+  hook: HookCommand
+  /** Fields merged over the generated sample payload */
+  input?: Record<string, unknown>
+}
+
+export const HOOK_EVENT_TYPES: HookEventType[] = [
+  'PreToolUse',
+  'PostToolUse',
+  'PostToolUseFailure',
+  'Notification',
+  'UserPromptSubmit',
+  'SessionStart',
+  'SessionEnd',
+  'Stop',
+  'SubagentStart',
+  'SubagentStop',
+  'PreCompact',
+  'PermissionRequest',
+  'Setup'
+]
+
+/**
+ * Human-readable name for a hook in the log
+ */
+export function describeHookCommand(hook: HookCommand): string {
+  if (hook.type === 'command') return hook.command
+  if (hook.type === 'http') return hook.url
+  return `builtin:${hook.action}`
+}
+
+function isHookCommand(value: unknown): value is HookCommand {
+  if (!value || typeof value !== 'object') return false
+  const hook = value as Record<string, unknown>
+  if (hook.type === 'command') return typeof hook.command === 'string' && hook.command.trim().length > 0
+  if (hook.type === 'http') return typeof hook.url === 'string' && /^https?:\/\//i.test(hook.url)
+  if (hook.type !== 'builtin') return false
+  if (hook.action === 'block-paths') return Array.isArray(hook.paths)
+  if (hook.action === 'require-approval') return Array.isArray(hook.tools)
+  return hook.action === 'append-prompt' && typeof hook.text === 'string'
+}
+
+/**
+ * Validate a hook test request received over IPC/HTTP
+ */
+export function normalizeHookTestRequest(value: unknown): HookTestRequest | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const candidate = value as Partial<HookTestRequest>
+  if (!candidate.eventType || !HOOK_EVENT_TYPES.includes(candidate.eventType)) return undefined
+  if (!isHookCommand(candidate.hook)) return undefined
+  const input = candidate.input
+  return {
+    eventType: candidate.eventType,
+    hook: candidate.hook,
+    ...(input && typeof input === 'object' && !Array.isArray(input) ? { input } : {})
+  }
+}
@@ -6,3 +6,9 @@
 
 export * from './claude-code'
 export * from './observability'
+export * from './workflow'
+export * from './command-rules'
+export * from './hook-log'
+export * from './sop'
+export * from './semantic-search'
+export * from './remote-access'
@@ -1,5 +1,5 @@
 /**
- * Shared observability configuration types.
+ * Shared observability types: configuration and agent run records.
  */
 
 export type LangfuseMaskMode = 'summary_hash' | 'off'
@@ -14,6 +14,153 @@ export interface LangfuseObservabilityConfig {
   devApiEnabled: boolean
 }
 
+export type OtlpProtocol = 'http/protobuf' | 'http/json'
+
+/**
+ * OpenTelemetry (OTLP/HTTP) trace export. Runs are sampled with the Langfuse
+ * sampleRate, so both exporters see the same runs.
+ */
+export interface OtlpObservabilityConfig {
+  enabled: boolean
+  /** Collector base URL (http://localhost:4318) or the full traces URL (…/v1/traces) */
+  endpoint: string
+  protocol: OtlpProtocol
+  /** Extra request headers, e.g. an API key for a hosted collector */
+  headers: Record<string, string>
+  /** Reported as the `service.name` resource attribute */
+  serviceName: string
+}
+
+export const DEFAULT_OTLP_OBSERVABILITY_CONFIG: OtlpObservabilityConfig = {
+  enabled: false,
+  endpoint: 'http://localhost:4318',
+  protocol: 'http/protobuf',
+  headers: {},
+  serviceName: 'kite'
+}
+
 export interface ObservabilityConfig {
   langfuse: LangfuseObservabilityConfig
+  otlp: OtlpObservabilityConfig
+}
+
+// ============================================
+// Agent run records (local run explorer)
+// ============================================
+
+export const OBSERVABILITY_PHASES = [
+  'send_entry',
+  'resolve_provider',
+  'acquire_session',
+  'expand_directives',
+  'session_send',
+  'first_token',
+  'stream_loop',
+  'finalize'
+] as const
+
+export type ObservabilityPhase = (typeof OBSERVABILITY_PHASES)[number]
+
+export interface ObservabilityTokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  totalCostUsd: number
+  contextWindow: number
+}
+
+export interface ObservabilityToolSummary {
+  total: number
+  success: number
+  error: number
+  running: number
+  waitingApproval: number
+  cancelled: number
+}
+
+export type ObservabilityRunStatus = 'running' | 'completed' | 'stopped' | 'error' | 'no_text' | 'dropped'
+
+export interface ObservabilityRunSummary {
+  sessionKey: string
+  spaceId: string
+  conversationId: string
+  runId: string
+  /** Chat mode of the run */
+  mode: string
+  provider: string
+  model: string
+  sampled: boolean
+  enabled: boolean
+  status: ObservabilityRunStatus
+  startedAt: string
+  endedAt?: string
+  durationMs?: number
+  ttftMs?: number
+  traceId?: string
+  rootObservationId?: string
+  traceHost?: string
+  phaseDurationsMs: Partial<Record<ObservabilityPhase, number>>
+  tokenUsage?: ObservabilityTokenUsage
+  toolSummary?: ObservabilityToolSummary
+  terminalReason?: 'completed' | 'stopped' | 'error' | 'no_text'
+  errorMessage?: string
+}
+
+export interface ObservabilityPhaseTiming {
+  phase: ObservabilityPhase
+  /** Milliseconds after the run started */
+  startOffsetMs: number
+  durationMs: number
+}
+
+export interface ObservabilityToolTrace {
+  id: string
+  name: string
+  status: 'pending' | 'running' | 'success' | 'error' | 'waiting_approval' | 'cancelled'
+  /** Milliseconds after the run started; absent when the start was not observed */
+  startOffsetMs?: number
+  /** Absent while the tool never reported a result */
+  durationMs?: number
+  /** Tool input as JSON, truncated */
+  input: string
+  output?: string
+  error?: string
+}
+
+/**
+ * A finished run as kept in the local run store
+ */
+export interface ObservabilityRunTrace extends ObservabilityRunSummary {
+  phases: ObservabilityPhaseTiming[]
+  tools: ObservabilityToolTrace[]
+}
+
+export type ObservabilityRunSort = 'recent' | 'slowest'
+
+export interface ObservabilityRunQuery {
+  spaceId?: string
+  model?: string
+  status?: ObservabilityRunStatus
+  sort?: ObservabilityRunSort
+  limit?: number
+}
+
+const RUN_STATUSES: ObservabilityRunStatus[] = ['running', 'completed', 'stopped', 'error', 'no_text', 'dropped']
+
+/**
+ * Validate a run query from IPC or query-string input; unknown fields are dropped
+ */
+export function normalizeObservabilityRunQuery(input: unknown): ObservabilityRunQuery {
+  const raw = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const query: ObservabilityRunQuery = {}
+  if (typeof raw.spaceId === 'string' && raw.spaceId.trim()) query.spaceId = raw.spaceId.trim()
+  if (typeof raw.model === 'string' && raw.model.trim()) query.model = raw.model.trim()
+  if (typeof raw.status === 'string' && RUN_STATUSES.includes(raw.status as ObservabilityRunStatus)) {
+    query.status = raw.status as ObservabilityRunStatus
+  }
+  if (raw.sort === 'recent' || raw.sort === 'slowest') query.sort = raw.sort
+  const limit = typeof raw.limit === 'number' ? raw.limit : Number.parseInt(String(raw.limit ?? ''), 10)
+  if (Number.isFinite(limit) && limit > 0) query.limit = Math.floor(limit)
+  return query
 }
@@ -0,0 +1,83 @@
+/**
+ * Remote Access Tokens
+ *
+ * Each paired device gets its own long random token with a scope. Scopes are
+ * ordered: an operator token can do everything a read token can, and an admin
+ * token everything an operator token can.
+ *
+ * - read: view spaces, conversations and artifacts
+ * - operator: also send messages, approve tools and run workflows
+ * - admin: also change config, spaces, resources and device tokens
+ */
+
+export const REMOTE_TOKEN_SCOPES = ['read', 'operator', 'admin'] as const
+
+export type RemoteTokenScope = typeof REMOTE_TOKEN_SCOPES[number]
+
+/**
+ * Device token metadata; the secret itself is only returned once, on creation
+ */
+export interface RemoteAccessToken {
+  id: string
+  name: string
+  scope: RemoteTokenScope
+  createdAt: string
+  lastUsedAt: string | null
+  /** null = never expires */
+  expiresAt: string | null
+}
+
+export interface RemoteAccessTokenRequest {
+  name: string
+  scope: RemoteTokenScope
+  /** Days until the token stops working; omit or null for no expiry */
+  expiresInDays?: number | null
+}
+
+export interface CreatedRemoteAccessToken {
+  token: RemoteAccessToken
+  secret: string
+  /** Pairing QR code (data URL) that signs the device in, when remote access is running */
+  qrCode: string | null
+}
+
+export function isRemoteTokenScope(value: unknown): value is RemoteTokenScope {
+  return typeof value === 'string' && (REMOTE_TOKEN_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a token with `granted` scope may do something that needs `required`
+ */
+export function hasRemoteScope(granted: RemoteTokenScope, required: RemoteTokenScope): boolean {
+  return REMOTE_TOKEN_SCOPES.indexOf(granted) >= REMOTE_TOKEN_SCOPES.indexOf(required)
+}
+
+/**
+ * Remote access log
+ *
+ * Logins, API calls and WebSocket sign-ins from remote devices. Query strings
+ * are never recorded because download links carry the token there.
+ */
+export type RemoteAccessLogKind = 'login' | 'api' | 'websocket'
+
+export interface RemoteAccessLogEntry {
+  id: string
+  timestamp: string
+  kind: RemoteAccessLogKind
+  ip: string
+  userAgent: string
+  /** HTTP method, or WS for WebSocket sign-ins */
+  method: string
+  /** Path without the query string */
+  route: string
+  /** HTTP status; WebSocket sign-ins use 101 (accepted), 401 or 429 */
+  status: number
+  /** Name of the token that signed the request, when it was valid */
+  tokenName?: string
+}
+
+export interface RemoteAccessLogQuery {
+  limit?: number
+  /** Only entries with a 4xx status (rejected or throttled) */
+  failuresOnly?: boolean
+}
@@ -0,0 +1,48 @@
+/**
+ * Semantic Search
+ *
+ * Optional embedding index over conversation messages and text artifacts,
+ * stored per space. Used by the search panel's "similar meaning" mode and by
+ * the agent's `search_past_context` tool.
+ */
+
+/**
+ * - local: in-process hashed n-gram embedding; offline, but only matches shared vocabulary
+ * - profile: an OpenAI-compatible `/embeddings` endpoint from an existing ApiProfile
+ */
+export type EmbeddingProviderKind = 'local' | 'profile'
+
+export interface SemanticSearchConfig {
+  enabled: boolean
+  provider: EmbeddingProviderKind
+  /** ApiProfile whose endpoint and key are used when provider is 'profile' */
+  profileId?: string
+  /** Embedding model requested from the profile endpoint */
+  model?: string
+}
+
+export const DEFAULT_SEMANTIC_SEARCH_CONFIG: SemanticSearchConfig = {
+  enabled: false,
+  provider: 'local',
+  model: 'text-embedding-3-small'
+}
+
+export type SemanticSourceKind = 'message' | 'artifact'
+
+export interface SemanticSearchHit {
+  kind: SemanticSourceKind
+  spaceId: string
+  spaceName: string
+  /** Matching chunk text */
+  text: string
+  /** Cosine similarity, higher is closer */
+  score: number
+  conversationId?: string
+  conversationTitle?: string
+  messageId?: string
+  messageRole?: 'user' | 'assistant'
+  timestamp?: string
+  /** Absolute path of the artifact file */
+  artifactPath?: string
+  artifactName?: string
+}
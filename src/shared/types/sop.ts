@@ -0,0 +1,22 @@
+/**
+ * SOP Parameters
+ *
+ * A recorded browser SOP can declare named parameters. Step values reference
+ * them as `{{name}}`; values are collected when the SOP skill is invoked and
+ * passed as `name="value"` pairs after the skill directive.
+ */
+
+export type SopParameterType = 'string' | 'number' | 'date' | 'email' | 'url'
+
+export interface SopParameter {
+  /** Identifier referenced from step values as `{{name}}` */
+  name: string
+  type: SopParameterType
+  /** Human-readable label shown in the input form */
+  label?: string
+  default?: string
+  /** Masked in forms and never echoed back by the agent */
+  secret?: boolean
+}
+
+export const SOP_PARAMETER_TYPES: SopParameterType[] = ['string', 'number', 'date', 'email', 'url']
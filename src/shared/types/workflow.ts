@@ -0,0 +1,68 @@
+/**
+ * Shared workflow control-flow types.
+ */
+
+export type WorkflowConditionType = 'contains' | 'regex' | 'ai'
+
+/**
+ * Condition evaluated against a step's output.
+ * `ai` asks the agent a yes/no question about the output.
+ */
+export interface WorkflowCondition {
+  type: WorkflowConditionType
+  value: string
+  negate?: boolean
+}
+
+/**
+ * Jump after a step completes. Targets are step keys (or ids);
+ * `$end` finishes the run and an empty target continues with the next step.
+ */
+export interface WorkflowBranch {
+  condition: WorkflowCondition
+  onTrue?: string
+  onFalse?: string
+}
+
+/**
+ * Re-run a step until its output satisfies the condition.
+ */
+export interface WorkflowLoop {
+  until: WorkflowCondition
+  maxIterations: number
+}
+
+export type WorkflowParallelBranchType = 'skill' | 'agent' | 'command' | 'message'
+
+export interface WorkflowParallelBranch {
+  id: string
+  type: WorkflowParallelBranchType
+  name?: string
+  input?: string
+  args?: string
+}
+
+/**
+ * Fan-out group: each branch runs in its own conversation.
+ * `waitFor` is `all` or the number of branches that must complete; the rest are stopped.
+ */
+export interface WorkflowParallel {
+  branches: WorkflowParallelBranch[]
+  waitFor?: 'all' | number
+  maxConcurrency?: number
+}
+
+export type WorkflowTriggerType = 'schedule' | 'file-change' | 'app-start'
+
+/**
+ * Starts a run without user interaction.
+ * `schedule` uses a 5-field cron expression in local time (`0 9 * * 1-5`);
+ * `file-change` matches a glob against paths relative to the space root.
+ */
+export interface WorkflowTrigger {
+  id: string
+  type: WorkflowTriggerType
+  cron?: string
+  glob?: string
+  enabled?: boolean
+}
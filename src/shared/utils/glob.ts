@@ -0,0 +1,51 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a glob to a regular expression.
+ * `**` crosses directories, `*` and `?` do not, `{a,b}` matches alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  let braceDepth = 0
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        const slashAfter = glob[index + 2] === '/'
+        pattern += slashAfter ? '(?:.*/)?' : '.*'
+        index += slashAfter ? 2 : 1
+      } else {
+        pattern += '[^/]*'
+      }
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else if (char === '{') {
+      braceDepth++
+      pattern += '(?:'
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--
+      pattern += ')'
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|'
+    } else {
+      pattern += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Match a path relative to the space root. Globs without a `/` match the file name
+ * anywhere in the tree (`*.md`), like .gitignore.
+ */
+export function matchesGlob(glob: string, relativePath: string): boolean {
+  const normalizedGlob = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '')
+  const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^\.\//, '')
+  if (!normalizedGlob.includes('/')) {
+    const name = normalizedPath.slice(normalizedPath.lastIndexOf('/') + 1)
+    return globToRegExp(normalizedGlob).test(name)
+  }
+  return globToRegExp(normalizedGlob).test(normalizedPath)
+}
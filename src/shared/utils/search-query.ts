@@ -0,0 +1,188 @@
+/**
+ * Conversation search query syntax
+ *
+ *   deploy script             messages containing every word (word prefixes match)
+ *   "exact phrase"            case-insensitive phrase
+ *   /timeout \d+ms/i          regular expression (JavaScript syntax)
+ *   role:user                 role:user or role:assistant
+ *   after:2026-01-31          on or after a local date
+ *   before:2026-03-01         before a local date
+ *   space:"Side project"      space name or id
+ *   tool:Bash                 messages whose turn used the tool
+ *
+ * Shared by the main-process index (tokenizing and matching) and the
+ * search panel (reporting filter problems while typing).
+ */
+
+export type SearchRole = 'user' | 'assistant'
+
+export interface ParsedSearchQuery {
+  /** Lowercased bare words */
+  terms: string[]
+  /** Lowercased quoted phrases */
+  phrases: string[]
+  regex: { source: string; flags: string } | null
+  roles: SearchRole[]
+  /** Lowercased space names or ids */
+  spaces: string[]
+  /** Lowercased tool names */
+  tools: string[]
+  /** Epoch ms, inclusive */
+  after?: number
+  /** Epoch ms, exclusive */
+  before?: number
+  /** Problems with individual filters; the rest of the query still applies */
+  errors: string[]
+}
+
+const FILTER_KEYS = ['role', 'after', 'before', 'space', 'tool'] as const
+type FilterKey = typeof FILTER_KEYS[number]
+
+// key:"quoted value" | "phrase" | /regex/flags | bare token (unterminated quotes allowed while typing)
+const QUERY_TOKEN_PATTERN = /([A-Za-z]+):"([^"]*)"?|"([^"]*)"?|\/((?:[^/\\]|\\.)+)\/([a-z]*)(?=\s|$)|(\S+)/g
+// Written without the u flag (\p{...}), which the node and web type-check targets reject.
+// Words are runs between whitespace, punctuation, symbols and emoji (surrogate pairs).
+const WORD_PATTERN = /[^\s!-/:-@[-^`{-~\u00a0-\u00bf\u2000-\u2bff\u3000-\u303f\u30fb\ud800-\udfff\ufe00-\ufe6f\uff01-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65]+/g
+// Han, Hiragana, Katakana (full and half width) and Hangul in the Basic Multilingual Plane
+const CJK_RUN_PATTERN = /([\u1100-\u11ff\u3040-\u30fa\u30fd-\u30ff\u3130-\u318f\u31f0-\u31ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff66-\uffdc]+)/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const REGEX_FLAGS = new Set(['i', 'm', 's', 'u'])
+// Longer runs are almost always base64 or hashes; not worth indexing
+const MAX_TOKEN_LENGTH = 64
+
+/**
+ * Split text into lowercased index tokens. Runs of CJK characters, which have
+ * no word separators, become overlapping character pairs.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const tokens: string[] = []
+  for (const match of Array.from(text.toLowerCase().matchAll(WORD_PATTERN))) {
+    for (const part of match[0].split(CJK_RUN_PATTERN)) {
+      if (!part) continue
+      if (!CJK_RUN_PATTERN.test(part)) {
+        if (part.length <= MAX_TOKEN_LENGTH) tokens.push(part)
+        continue
+      }
+      const chars = Array.from(part)
+      if (chars.length === 1) {
+        tokens.push(part)
+        continue
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1])
+      }
+    }
+  }
+  return tokens
+}
+
+function parseLocalDate(value: string): number | null {
+  const match = DATE_PATTERN.exec(value)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return date.getMonth() === Number(match[2]) - 1 ? date.getTime() : null
+}
+
+function applyFilter(parsed: ParsedSearchQuery, key: FilterKey, rawValue: string): void {
+  const value = rawValue.trim()
+  if (!value) return
+  switch (key) {
+    case 'role': {
+      const role = value.toLowerCase()
+      if (role === 'user' || role === 'assistant') {
+        parsed.roles.push(role)
+      } else if (role === 'ai') {
+        parsed.roles.push('assistant')
+      } else {
+        parsed.errors.push(`Unknown role "${value}"`)
+      }
+      return
+    }
+    case 'after':
+    case 'before': {
+      const time = parseLocalDate(value)
+      if (time === null) {
+        parsed.errors.push(`Invalid date "${value}", use YYYY-MM-DD`)
+      } else {
+        parsed[key] = time
+      }
+      return
+    }
+    case 'space':
+      parsed.spaces.push(value.toLowerCase())
+      return
+    case 'tool':
+      parsed.tools.push(value.toLowerCase())
+      return
+  }
+}
+
+function isFilterKey(key: string): key is FilterKey {
+  return (FILTER_KEYS as readonly string[]).includes(key)
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    regex: null,
+    roles: [],
+    spaces: [],
+    tools: [],
+    errors: []
+  }
+
+  for (const match of Array.from(input.matchAll(QUERY_TOKEN_PATTERN))) {
+    const [, quotedKey, quotedValue, phrase, regexSource, regexFlags, bare] = match
+    if (quotedKey !== undefined) {
+      const key = quotedKey.toLowerCase()
+      if (isFilterKey(key)) {
+        applyFilter(parsed, key, quotedValue)
+      } else {
+        parsed.terms.push(quotedKey.toLowerCase())
+        if (quotedValue.trim()) parsed.phrases.push(quotedValue.trim().toLowerCase())
+      }
+      continue
+    }
+    if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase.trim().toLowerCase())
+      continue
+    }
+    if (regexSource !== undefined) {
+      const flags = Array.from(new Set(regexFlags.split(''))).filter(flag => REGEX_FLAGS.has(flag)).join('')
+      try {
+        new RegExp(regexSource, flags)
+        parsed.regex = { source: regexSource, flags }
+      } catch (error) {
+        parsed.errors.push(error instanceof Error ? error.message : `Invalid regular expression /${regexSource}/`)
+      }
+      continue
+    }
+    if (bare) {
+      const separator = bare.indexOf(':')
+      const key = separator > 0 ? bare.slice(0, separator).toLowerCase() : ''
+      if (isFilterKey(key)) {
+        applyFilter(parsed, key, bare.slice(separator + 1))
+      } else {
+        const term = bare.toLowerCase()
+        if (tokenizeSearchText(term).length > 0) parsed.terms.push(term)
+      }
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * True when the query has something to match on (words, phrases, regex or filters)
+ */
+export function hasSearchCriteria(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 ||
+    parsed.phrases.length > 0 ||
+    parsed.regex !== null ||
+    parsed.roles.length > 0 ||
+    parsed.spaces.length > 0 ||
+    parsed.tools.length > 0 ||
+    parsed.after !== undefined ||
+    parsed.before !== undefined
+}
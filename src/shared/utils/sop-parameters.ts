@@ -0,0 +1,180 @@
+import { SOP_PARAMETER_TYPES, type SopParameter, type SopParameterType } from '../types/sop'
+
+export const SOP_SPEC_BEGIN_MARKER = '## SOP_SPEC_JSON_BEGIN'
+export const SOP_SPEC_END_MARKER = '## SOP_SPEC_JSON_END'
+
+const PARAMETER_REF_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/
+// Leading `name=value` or `name="quoted value"` pair of an invocation
+const ARG_PATTERN = /^([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\S*)(?:\s+|$)/
+// Placeholders the recorder writes for redacted values, plus names that read as secrets
+const SECRET_NAME_PATTERN = /secret|password|passwd|token|verification|otp|pin/i
+const MAX_PARAMETER_NAME_LENGTH = 40
+
+/**
+ * Parse the SOP spec JSON embedded in a recorded SOP skill, if any
+ */
+export function parseSopSpecBlock(content: string): Record<string, unknown> | null {
+  const blockRegex = new RegExp(
+    `${SOP_SPEC_BEGIN_MARKER}\\s*\`\`\`json\\s*([\\s\\S]*?)\`\`\`\\s*${SOP_SPEC_END_MARKER}`,
+    'm'
+  )
+  const match = content.match(blockRegex)
+  if (!match) return null
+  try {
+    const parsed: unknown = JSON.parse(match[1])
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parameter names referenced as `{{name}}` from step values, in first-use order
+ */
+export function findSopParameterReferences(steps: Array<{ value?: string }>): string[] {
+  const names = new Set<string>()
+  for (const step of steps) {
+    for (const match of Array.from((step.value || '').matchAll(PARAMETER_REF_PATTERN))) {
+      names.add(match[1])
+    }
+  }
+  return Array.from(names)
+}
+
+/**
+ * Turn a label such as "Expense amount" into a parameter name (`expense_amount`)
+ */
+export function toSopParameterName(input: string): string {
+  const name = input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_PARAMETER_NAME_LENGTH)
+  if (!name) return ''
+  return /^[0-9]/.test(name) ? `p_${name}` : name
+}
+
+function isSopParameterType(value: unknown): value is SopParameterType {
+  return typeof value === 'string' && (SOP_PARAMETER_TYPES as string[]).includes(value)
+}
+
+/**
+ * Validate declared parameters and declare any `{{name}}` a step references
+ * without a declaration (e.g. the recorder's `{{secret_value}}`).
+ */
+export function normalizeSopParameters(raw: unknown, steps: Array<{ value?: string }> = []): SopParameter[] {
+  const parameters: SopParameter[] = []
+  const seen = new Set<string>()
+
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+    const name = typeof record.name === 'string' ? record.name.trim() : ''
+    if (!PARAMETER_NAME_PATTERN.test(name) || seen.has(name)) continue
+    seen.add(name)
+    const label = typeof record.label === 'string' ? record.label.trim() : ''
+    const defaultValue = typeof record.default === 'string' || typeof record.default === 'number'
+      ? String(record.default)
+      : ''
+    parameters.push({
+      name,
+      type: isSopParameterType(record.type) ? record.type : 'string',
+      ...(label ? { label } : {}),
+      ...(defaultValue && record.secret !== true ? { default: defaultValue } : {}),
+      ...(record.secret === true ? { secret: true } : {})
+    })
+  }
+
+  for (const name of findSopParameterReferences(steps)) {
+    if (seen.has(name)) continue
+    seen.add(name)
+    parameters.push({
+      name,
+      type: 'string',
+      ...(SECRET_NAME_PATTERN.test(name) ? { secret: true } : {})
+    })
+  }
+
+  return parameters
+}
+
+/**
+ * Returns an error message when the value does not fit the parameter type
+ */
+export function validateSopParameterValue(parameter: SopParameter, value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  switch (parameter.type) {
+    case 'number':
+      return Number.isFinite(Number(trimmed)) ? null : 'Enter a number'
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) && !Number.isNaN(Date.parse(trimmed))
+        ? null
+        : 'Enter a date as YYYY-MM-DD'
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? null : 'Enter an email address'
+    case 'url':
+      return /^https?:\/\/\S+$/i.test(trimmed) ? null : 'Enter an http(s) URL'
+    default:
+      return null
+  }
+}
+
+/**
+ * Merge provided values over declared defaults; `missing` lists parameters
+ * that still have no value.
+ */
+export function resolveSopParameterValues(
+  parameters: SopParameter[],
+  provided: Record<string, string> = {}
+): { values: Record<string, string>; missing: string[] } {
+  const values: Record<string, string> = { ...provided }
+  const missing: string[] = []
+  for (const parameter of parameters) {
+    const value = provided[parameter.name]
+    if (typeof value === 'string' && value.trim()) continue
+    if (parameter.default) {
+      values[parameter.name] = parameter.default
+    } else {
+      delete values[parameter.name]
+      missing.push(parameter.name)
+    }
+  }
+  return { values, missing }
+}
+
+/**
+ * Format values as `name="value"` pairs for a skill invocation
+ */
+export function formatSopParameterArgs(values: Record<string, string>): string {
+  return Object.entries(values)
+    .filter(([name, value]) => PARAMETER_NAME_PATTERN.test(name) && value.trim())
+    .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+    .join(' ')
+}
+
+/**
+ * Read leading `name=value` pairs from the text after a skill directive
+ */
+export function splitSopParameterArgs(text: string): { values: Record<string, string>; rest: string } {
+  const values: Record<string, string> = {}
+  let rest = text.trimStart()
+  let match = ARG_PATTERN.exec(rest)
+  while (match) {
+    const raw = match[2]
+    let value = raw
+    if (raw.startsWith('"')) {
+      try {
+        value = JSON.parse(raw) as string
+      } catch {
+        value = raw.slice(1, -1)
+      }
+    }
+    values[match[1]] = value
+    rest = rest.slice(match[0].length)
+    match = ARG_PATTERN.exec(rest)
+  }
+  return { values, rest }
+}
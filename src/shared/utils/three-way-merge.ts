@@ -0,0 +1,115 @@
+import { diffArrays } from 'diff'
+
+export interface ThreeWayMergeResult {
+  content: string
+  conflict: boolean
+}
+
+interface LineHunk {
+  start: number
+  end: number
+  lines: string[]
+}
+
+function splitLines(content: string): string[] {
+  if (!content) return []
+  return content.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+/** Regions of `base` replaced in `side`, as [start, end) base line ranges. */
+function collectHunks(base: string[], side: string[]): LineHunk[] {
+  const hunks: LineHunk[] = []
+  let index = 0
+  let current: LineHunk | null = null
+
+  for (const chunk of diffArrays(base, side)) {
+    if (!chunk.added && !chunk.removed) {
+      if (current) {
+        hunks.push(current)
+        current = null
+      }
+      index += chunk.count ?? chunk.value.length
+      continue
+    }
+    if (!current) {
+      current = { start: index, end: index, lines: [] }
+    }
+    if (chunk.removed) {
+      index += chunk.count ?? chunk.value.length
+      current.end = index
+    } else {
+      current.lines.push(...chunk.value)
+    }
+  }
+  if (current) {
+    hunks.push(current)
+  }
+  return hunks
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: LineHunk[]): string[] {
+  const result: string[] = []
+  let index = start
+  for (const hunk of hunks) {
+    result.push(...base.slice(index, hunk.start), ...hunk.lines)
+    index = hunk.end
+  }
+  result.push(...base.slice(index, end))
+  return result
+}
+
+/**
+ * Line-based three-way merge of `ours` and `theirs` against their common `base`.
+ * Changes that touch the same or adjacent base lines only merge when both sides
+ * made the identical edit; anything else is reported as a conflict.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): ThreeWayMergeResult {
+  if (ours === theirs) return { content: ours, conflict: false }
+  if (base === ours) return { content: theirs, conflict: false }
+  if (base === theirs) return { content: ours, conflict: false }
+
+  const baseLines = splitLines(base)
+  const tagged = [
+    ...collectHunks(baseLines, splitLines(ours)).map(hunk => ({ hunk, side: 0 })),
+    ...collectHunks(baseLines, splitLines(theirs)).map(hunk => ({ hunk, side: 1 }))
+  ].sort((a, b) => a.hunk.start - b.hunk.start || a.side - b.side)
+
+  const merged: string[] = []
+  let index = 0
+  let cursor = 0
+
+  while (cursor < tagged.length) {
+    const group = [tagged[cursor]]
+    let groupEnd = tagged[cursor].hunk.end
+    cursor += 1
+    while (cursor < tagged.length && tagged[cursor].hunk.start <= groupEnd) {
+      group.push(tagged[cursor])
+      groupEnd = Math.max(groupEnd, tagged[cursor].hunk.end)
+      cursor += 1
+    }
+
+    const groupStart = group[0].hunk.start
+    const oursHunks = group.filter(item => item.side === 0).map(item => item.hunk)
+    const theirsHunks = group.filter(item => item.side === 1).map(item => item.hunk)
+
+    let resolved: string[]
+    if (theirsHunks.length === 0) {
+      resolved = applyHunks(baseLines, groupStart, groupEnd, oursHunks)
+    } else if (oursHunks.length === 0) {
+      resolved = applyHunks(baseLines, groupStart, groupEnd, theirsHunks)
+    } else {
+      const oursText = applyHunks(baseLines, groupStart, groupEnd, oursHunks).join('')
+      const theirsText = applyHunks(baseLines, groupStart, groupEnd, theirsHunks).join('')
+      if (oursText !== theirsText) {
+        return { content: ours, conflict: true }
+      }
+      resolved = applyHunks(baseLines, groupStart, groupEnd, oursHunks)
+    }
+
+    merged.push(...baseLines.slice(index, groupStart), ...resolved)
+    index = groupEnd
+  }
+
+  merged.push(...baseLines.slice(index))
+  return { content: merged.join(''), conflict: false }
+}
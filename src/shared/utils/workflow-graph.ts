@@ -0,0 +1,251 @@
+import type { WorkflowBranch, WorkflowCondition, WorkflowLoop, WorkflowParallel } from '../types/workflow'
+
+export const WORKFLOW_END_TARGET = '$end'
+export const MAX_WORKFLOW_LOOP_ITERATIONS = 20
+export const MAX_WORKFLOW_PARALLEL_BRANCHES = 8
+export const DEFAULT_WORKFLOW_PARALLEL_CONCURRENCY = 3
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g
+const STEP_REF_PATTERN = /^steps\.([A-Za-z_][A-Za-z0-9_-]*)\.output$/
+const VAR_REF_PATTERN = /^vars\.([A-Za-z_][A-Za-z0-9_-]*)$/
+
+export interface WorkflowGraphStep {
+  id: string
+  type?: string
+  key?: string
+  input?: string
+  args?: string
+  saveAs?: string
+  branch?: WorkflowBranch
+  loop?: WorkflowLoop
+  parallel?: WorkflowParallel
+}
+
+export type WorkflowTemplateRef =
+  | { kind: 'step'; name: string; raw: string }
+  | { kind: 'var'; name: string; raw: string }
+  | { kind: 'unknown'; raw: string }
+
+export interface WorkflowTemplateContext {
+  steps: Record<string, string | undefined>
+  vars: Record<string, string | undefined>
+}
+
+export interface WorkflowGraphIssue {
+  stepIndex: number
+  message: string
+}
+
+/**
+ * Key used to reference a step from templates and branch targets
+ */
+export function getWorkflowStepKey(step: { id: string; key?: string }): string {
+  return step.key?.trim() || step.id
+}
+
+export function extractTemplateRefs(text: string | undefined): WorkflowTemplateRef[] {
+  if (!text) return []
+  const refs: WorkflowTemplateRef[] = []
+  for (const match of Array.from(text.matchAll(TEMPLATE_PATTERN))) {
+    const expression = match[1]
+    const stepMatch = STEP_REF_PATTERN.exec(expression)
+    if (stepMatch) {
+      refs.push({ kind: 'step', name: stepMatch[1], raw: match[0] })
+      continue
+    }
+    const varMatch = VAR_REF_PATTERN.exec(expression)
+    if (varMatch) {
+      refs.push({ kind: 'var', name: varMatch[1], raw: match[0] })
+      continue
+    }
+    refs.push({ kind: 'unknown', raw: match[0] })
+  }
+  return refs
+}
+
+/**
+ * Replace `{{steps.<key>.output}}` and `{{vars.<name>}}` with values from the run.
+ * Missing values (e.g. from skipped steps) render as empty strings.
+ */
+export function renderWorkflowTemplate(text: string | undefined, context: WorkflowTemplateContext): string {
+  if (!text) return ''
+  return text.replace(TEMPLATE_PATTERN, (raw, expression: string) => {
+    const stepMatch = STEP_REF_PATTERN.exec(expression)
+    if (stepMatch) return context.steps[stepMatch[1]] ?? ''
+    const varMatch = VAR_REF_PATTERN.exec(expression)
+    if (varMatch) return context.vars[varMatch[1]] ?? ''
+    return raw
+  })
+}
+
+/**
+ * Evaluate a `contains` or `regex` condition. `ai` conditions need the agent and
+ * must be evaluated by the caller.
+ */
+export function evaluateTextCondition(condition: WorkflowCondition, output: string, value = condition.value): boolean {
+  let matched: boolean
+  if (condition.type === 'contains') {
+    matched = output.toLowerCase().includes(value.toLowerCase())
+  } else if (condition.type === 'regex') {
+    matched = new RegExp(value, 'm').test(output)
+  } else {
+    throw new Error('AI conditions cannot be evaluated locally')
+  }
+  return condition.negate ? !matched : matched
+}
+
+function validateCondition(condition: WorkflowCondition | undefined, label: string): string[] {
+  if (!condition) return [`${label} condition is required`]
+  if (condition.type !== 'contains' && condition.type !== 'regex' && condition.type !== 'ai') {
+    return [`${label} condition type is invalid`]
+  }
+  if (!condition.value?.trim()) {
+    return [`${label} condition value is required`]
+  }
+  if (condition.type === 'regex') {
+    try {
+      new RegExp(condition.value)
+    } catch {
+      return [`${label} condition is not a valid regular expression`]
+    }
+  }
+  return []
+}
+
+/**
+ * Required number of completed branches for a parallel step
+ */
+export function getParallelRequiredCount(parallel: WorkflowParallel): number {
+  const total = parallel.branches.length
+  if (parallel.waitFor === undefined || parallel.waitFor === 'all') return total
+  return Math.min(Math.max(1, Math.floor(parallel.waitFor)), total)
+}
+
+function validateParallel(parallel: WorkflowParallel | undefined): string[] {
+  const branches = parallel?.branches
+  if (!parallel || !Array.isArray(branches) || branches.length < 2) {
+    return ['Parallel steps need at least 2 branches']
+  }
+  const issues: string[] = []
+  if (branches.length > MAX_WORKFLOW_PARALLEL_BRANCHES) {
+    issues.push(`Parallel steps support at most ${MAX_WORKFLOW_PARALLEL_BRANCHES} branches`)
+  }
+  branches.forEach((branch, index) => {
+    if (branch.type === 'message') {
+      if (!branch.input?.trim()) issues.push(`Branch ${index + 1} message is required`)
+    } else if (!branch.name?.trim()) {
+      issues.push(`Branch ${index + 1} name is required`)
+    }
+  })
+  const { waitFor, maxConcurrency } = parallel
+  if (waitFor !== undefined && waitFor !== 'all'
+    && (!Number.isInteger(waitFor) || waitFor < 1 || waitFor > branches.length)) {
+    issues.push(`Parallel wait count must be between 1 and ${branches.length}`)
+  }
+  if (maxConcurrency !== undefined && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+    issues.push('Parallel max concurrency must be at least 1')
+  }
+  return issues
+}
+
+/**
+ * Check keys, template references, branch targets, loops and parallel groups.
+ * Templates may only reference earlier steps (or the step itself when it loops)
+ * and variables saved by earlier steps; branches may only jump forward.
+ */
+export function validateWorkflowGraph(steps: WorkflowGraphStep[]): WorkflowGraphIssue[] {
+  const issues: WorkflowGraphIssue[] = []
+  const keyIndex = new Map<string, number>()
+
+  steps.forEach((step, index) => {
+    const key = step.key?.trim()
+    if (key && !KEY_PATTERN.test(key)) {
+      issues.push({ stepIndex: index, message: `Step key "${key}" must start with a letter or underscore and use letters, numbers, "-" or "_"` })
+    }
+    const stepKey = getWorkflowStepKey(step)
+    if (keyIndex.has(stepKey)) {
+      issues.push({ stepIndex: index, message: `Step key "${stepKey}" is used by step ${keyIndex.get(stepKey)! + 1}` })
+    } else {
+      keyIndex.set(stepKey, index)
+    }
+    // Ids remain valid references even when a key is set
+    if (key && !keyIndex.has(step.id)) {
+      keyIndex.set(step.id, index)
+    }
+  })
+
+  const savedVars = new Set<string>()
+  steps.forEach((step, index) => {
+    const add = (message: string) => issues.push({ stepIndex: index, message })
+    const checkRefs = (text: string | undefined) => {
+      for (const ref of extractTemplateRefs(text)) {
+        if (ref.kind === 'unknown') {
+          add(`Unknown template reference ${ref.raw}`)
+          continue
+        }
+        if (ref.kind === 'var') {
+          if (!savedVars.has(ref.name) && !(step.loop && step.saveAs?.trim() === ref.name)) {
+            add(`Variable "${ref.name}" is not saved by an earlier step`)
+          }
+          continue
+        }
+        const target = keyIndex.get(ref.name)
+        if (target === undefined) {
+          add(`Referenced step "${ref.name}" does not exist`)
+        } else if (target > index || (target === index && !step.loop)) {
+          add(`Step "${ref.name}" runs after this step and has no output yet`)
+        }
+      }
+    }
+
+    checkRefs(step.input)
+    checkRefs(step.args)
+
+    if (step.type === 'parallel') {
+      validateParallel(step.parallel).forEach(add)
+      step.parallel?.branches?.forEach((branch) => {
+        checkRefs(branch.input)
+        checkRefs(branch.args)
+      })
+      if (step.loop) {
+        add('Parallel steps cannot loop')
+      }
+    }
+
+    const saveAs = step.saveAs?.trim()
+    if (saveAs && !KEY_PATTERN.test(saveAs)) {
+      add(`Variable name "${saveAs}" must start with a letter or underscore and use letters, numbers, "-" or "_"`)
+    }
+
+    if (step.loop) {
+      validateCondition(step.loop.until, 'Loop').forEach(add)
+      checkRefs(step.loop.until?.value)
+      const max = step.loop.maxIterations
+      if (!Number.isInteger(max) || max < 1 || max > MAX_WORKFLOW_LOOP_ITERATIONS) {
+        add(`Loop max iterations must be between 1 and ${MAX_WORKFLOW_LOOP_ITERATIONS}`)
+      }
+    }
+
+    if (step.branch) {
+      validateCondition(step.branch.condition, 'Branch').forEach(add)
+      checkRefs(step.branch.condition?.value)
+      for (const target of [step.branch.onTrue, step.branch.onFalse]) {
+        const trimmed = target?.trim()
+        if (!trimmed || trimmed === WORKFLOW_END_TARGET) continue
+        const targetIndex = keyIndex.get(trimmed)
+        if (targetIndex === undefined) {
+          add(`Branch target "${trimmed}" does not exist`)
+        } else if (targetIndex <= index) {
+          add(`Branch target "${trimmed}" must be a later step`)
+        }
+      }
+    }
+
+    if (saveAs) {
+      savedVars.add(saveAs)
+    }
+  })
+
+  return issues
+}
@@ -0,0 +1,197 @@
+import type { WorkflowTrigger } from '../types/workflow'
+
+interface CronField {
+  min: number
+  max: number
+}
+
+const CRON_FIELDS: Array<CronField & { name: string }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+]
+
+// Upper bound for the next-occurrence search (skip-ahead makes this roughly 5 years)
+const MAX_CRON_SEARCH_STEPS = 50000
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+export interface WorkflowTriggerIssue {
+  triggerIndex: number
+  message: string
+}
+
+function parseCronField(source: string, field: CronField & { name: string }): Set<number> {
+  const values = new Set<number>()
+  for (const part of source.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}"`)
+    }
+    let start = field.min
+    let end = field.max
+    if (match[1] !== '*') {
+      const [from, to] = match[1].split('-').map(Number)
+      start = from
+      end = to ?? (match[2] ? field.max : from)
+    }
+    const step = match[2] ? Number(match[2]) : 1
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports `*`, `*\/n`, ranges and lists. Like cron, when both day fields are
+ * restricted a day matches if either one does. Sunday is 0 or 7.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day month weekday')
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]))
+  if (weekdays.has(7)) {
+    weekdays.delete(7)
+    weekdays.add(0)
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*'
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayMatch = schedule.days.has(date.getDate())
+  const weekdayMatch = schedule.weekdays.has(date.getDay())
+  if (schedule.anyDay && schedule.anyWeekday) return true
+  if (schedule.anyDay) return weekdayMatch
+  if (schedule.anyWeekday) return dayMatch
+  return dayMatch || weekdayMatch
+}
+
+/**
+ * First occurrence strictly after `after` (local time), or null if none is found.
+ */
+export function getNextCronOccurrence(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  const candidate = new Date(after.getTime())
+  candidate.setSeconds(0, 0)
+  candidate.setMinutes(candidate.getMinutes() + 1)
+
+  for (let steps = 0; steps < MAX_CRON_SEARCH_STEPS; steps++) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return candidate
+  }
+  return null
+}
+
+/**
+ * Occurrences in the half-open window (after, until], capped at `limit`.
+ */
+export function listCronOccurrences(expression: string | CronSchedule, after: Date, until: Date, limit = 50): Date[] {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  const occurrences: Date[] = []
+  let cursor = after
+  while (occurrences.length < limit) {
+    const next = getNextCronOccurrence(schedule, cursor)
+    if (!next || next.getTime() > until.getTime()) break
+    occurrences.push(next)
+    cursor = next
+  }
+  return occurrences
+}
+
+/**
+ * The newest `limit` occurrences in (after, until], oldest first. Searches
+ * backwards from `until` in growing windows, so a long gap is not walked
+ * from its start.
+ */
+export function listLatestCronOccurrences(
+  expression: string | CronSchedule,
+  after: Date,
+  until: Date,
+  limit = 50
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  let span = 60 * 60 * 1000
+  for (;;) {
+    const from = new Date(Math.max(after.getTime(), until.getTime() - span))
+    // Uncapped: the previous, half-size window held fewer than `limit`
+    const occurrences = listCronOccurrences(schedule, from, until, Number.POSITIVE_INFINITY)
+    if (occurrences.length >= limit || from.getTime() === after.getTime()) {
+      return occurrences.slice(-limit)
+    }
+    span *= 2
+  }
+}
+
+export function validateWorkflowTriggers(triggers: WorkflowTrigger[]): WorkflowTriggerIssue[] {
+  const issues: WorkflowTriggerIssue[] = []
+  let appStartCount = 0
+  triggers.forEach((trigger, index) => {
+    const add = (message: string) => issues.push({ triggerIndex: index, message })
+    if (trigger.type === 'schedule') {
+      if (!trigger.cron?.trim()) {
+        add('Schedule is required')
+        return
+      }
+      try {
+        parseCronExpression(trigger.cron)
+      } catch (error) {
+        add((error as Error).message)
+      }
+    } else if (trigger.type === 'file-change') {
+      const glob = trigger.glob?.trim()
+      if (!glob) {
+        add('File pattern is required')
+      } else if (glob.startsWith('/') || glob.split('/').includes('..')) {
+        add('File pattern must be relative to the space')
+      }
+    } else if (trigger.type === 'app-start') {
+      appStartCount++
+      if (appStartCount > 1) add('Only one app start trigger is allowed')
+    } else {
+      add('Trigger type is invalid')
+    }
+  })
+  return issues
+}
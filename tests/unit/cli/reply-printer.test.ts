@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createReplyPrinter } from '../../../src/cli/stream'
+
+describe('kite CLI reply printer', () => {
+  it('writes streamed text, separating text blocks, and finishes on complete', () => {
+    let output = ''
+    const printer = createReplyPrinter(text => { output += text }, vi.fn())
+
+    expect(printer.handle('agent:message', { delta: 'Looking' })).toBeNull()
+    printer.handle('agent:message', { delta: ' around.' })
+    printer.handle('agent:message', { isNewTextBlock: true, content: '' })
+    printer.handle('agent:message', { delta: 'Done.' })
+    printer.handle('agent:message', { isComplete: true, content: 'Looking around.Done.' })
+
+    expect(printer.handle('agent:complete', { reason: 'completed', finalContent: 'Done.' })).toEqual({
+      reason: 'completed',
+      error: undefined
+    })
+    expect(output).toBe('Looking around.\nDone.\n')
+  })
+
+  it('prints replies that arrive without streaming', () => {
+    let output = ''
+    const printer = createReplyPrinter(text => { output += text }, vi.fn())
+
+    printer.handle('agent:complete', { reason: 'completed', finalContent: 'Quick answer' })
+    expect(output).toBe('Quick answer\n')
+  })
+
+  it('asks for approval only for tool calls waiting on it', () => {
+    const onApproval = vi.fn()
+    const printer = createReplyPrinter(() => {}, onApproval)
+
+    printer.handle('agent:tool-call', { toolCallId: 't1', name: 'Read', status: 'running' })
+    printer.handle('agent:tool-call', {
+      toolCallId: 't2',
+      name: 'Bash',
+      status: 'waiting_approval',
+      requiresApproval: true,
+      input: { command: 'rm -rf build' }
+    })
+
+    expect(onApproval).toHaveBeenCalledTimes(1)
+    expect(onApproval).toHaveBeenCalledWith({
+      toolCallId: 't2',
+      name: 'Bash',
+      description: undefined,
+      input: { command: 'rm -rf build' }
+    })
+  })
+
+  it('reports the agent error when the run ends in error', () => {
+    const printer = createReplyPrinter(() => {}, vi.fn())
+
+    printer.handle('agent:error', { error: 'Provider unavailable' })
+    expect(printer.handle('agent:complete', { reason: 'error' })).toEqual({
+      reason: 'error',
+      error: 'Provider unavailable'
+    })
+  })
+})
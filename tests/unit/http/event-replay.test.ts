@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  bufferSessionEvent,
+  clearEventReplayBuffers,
+  getEventsSince,
+  parseEventCursor
+} from '../../../src/main/http/event-replay'
+
+const SESSION = 'space-1:conv-1'
+
+function emit(runEpoch: number, seq: number, sessionKey = SESSION): void {
+  bufferSessionEvent(sessionKey, 'agent:message', { runEpoch, seq, content: `${runEpoch}.${seq}` })
+}
+
+describe('event replay buffer', () => {
+  beforeEach(() => {
+    clearEventReplayBuffers()
+  })
+
+  it('replays events after the cursor, across runs', () => {
+    emit(1, 1)
+    emit(1, 2)
+    emit(2, 1)
+
+    const result = getEventsSince(SESSION, { runEpoch: 1, seq: 1 })
+    expect(result.kind).toBe('events')
+    expect(result.kind === 'events' && result.events.map(event => event.data.content)).toEqual(['1.2', '2.1'])
+    expect(getEventsSince(SESSION, { runEpoch: 2, seq: 1 })).toEqual({ kind: 'events', events: [] })
+  })
+
+  it('asks for a resync when the gap is no longer buffered', () => {
+    emit(1, 5)
+    expect(getEventsSince(SESSION, { runEpoch: 1, seq: 4 }).kind).toBe('events')
+    expect(getEventsSince(SESSION, { runEpoch: 1, seq: 3 })).toEqual({
+      kind: 'resync',
+      latest: { runEpoch: 1, seq: 5 }
+    })
+
+    for (let seq = 6; seq <= 1006; seq++) emit(1, seq)
+    expect(getEventsSince(SESSION, { runEpoch: 1, seq: 5 }).kind).toBe('resync')
+    expect(getEventsSince(SESSION, { runEpoch: 1, seq: 6 }).kind).toBe('events')
+  })
+
+  it('asks for a resync for unknown sessions and cursors ahead of the buffer', () => {
+    emit(1, 1)
+    expect(getEventsSince('space-1:other', { runEpoch: 1, seq: 1 })).toEqual({ kind: 'resync', latest: null })
+    expect(getEventsSince(SESSION, { runEpoch: 3, seq: 1 }).kind).toBe('resync')
+  })
+
+  it('ignores events without a cursor and rejects malformed cursors', () => {
+    bufferSessionEvent(SESSION, 'agent:mcp-status', { servers: [] })
+    expect(getEventsSince(SESSION, { runEpoch: 0, seq: 0 }).kind).toBe('resync')
+
+    expect(parseEventCursor({ runEpoch: 1, seq: 2 })).toEqual({ runEpoch: 1, seq: 2 })
+    expect(parseEventCursor({ runEpoch: '1', seq: 2 })).toBeNull()
+    expect(parseEventCursor({ runEpoch: 1, seq: -1 })).toBeNull()
+    expect(parseEventCursor(null)).toBeNull()
+  })
+})
@@ -0,0 +1,132 @@
+import express from 'express'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { findApiRoute } from '../../../src/main/http/openapi'
+import { registerApiRoutes } from '../../../src/main/http/routes'
+import {
+  API_ROUTES,
+  createKiteApiClient,
+  getApiResponseSchema,
+  type ApiOperationId,
+  type KiteApiClient
+} from '../../../src/shared/rest-api'
+
+// Registered by http/server.ts ahead of authMiddleware
+const SERVER_ROUTES = ['POST /api/remote/login', 'GET /api/remote/status']
+
+describe('REST API schema', () => {
+  let app: express.Express
+  let server: ReturnType<express.Express['listen']> | null = null
+  let client: KiteApiClient
+
+  beforeEach(async () => {
+    app = express()
+    app.use(express.json())
+    registerApiRoutes(app, null)
+
+    server = await new Promise((resolve) => {
+      const instance = app.listen(0, '127.0.0.1', () => resolve(instance))
+    })
+    client = createKiteApiClient({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` })
+  })
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server ? server.close(() => resolve()) : resolve())
+    server = null
+  })
+
+  async function expectDocumentedResponse(operationId: ApiOperationId, response: Response): Promise<unknown> {
+    const route = API_ROUTES.find(spec => spec.operationId === operationId)!
+    const body = await response.json()
+    const result = getApiResponseSchema(route).safeParse(body)
+    expect(result.error?.issues ?? [], `${operationId}: ${JSON.stringify(body)}`).toEqual([])
+    return body
+  }
+
+  it('documents every registered route', () => {
+    const registered = app.router.stack
+      .filter(layer => layer.route && !layer.route.path.startsWith('/api/internal/'))
+      .flatMap(layer => Object.keys(layer.route!.methods).map(method => `${method.toUpperCase()} ${layer.route!.path}`))
+    const documented = API_ROUTES.map(spec => `${spec.method} ${spec.path}`)
+
+    expect(new Set(documented).size).toBe(documented.length)
+    expect(new Set(API_ROUTES.map(spec => spec.operationId)).size).toBe(API_ROUTES.length)
+    expect([...registered, ...SERVER_ROUTES].sort()).toEqual([...documented].sort())
+  })
+
+  it('serves an OpenAPI document with scopes and schemas', async () => {
+    const response = await client.fetch('getOpenApiDocument')
+    const document = await response.json()
+
+    expect(document.openapi).toBe('3.1.0')
+    const createConversation = document.paths['/api/spaces/{spaceId}/conversations'].post
+    expect(createConversation['x-kite-scope']).toBe('operator')
+    expect(createConversation.parameters).toEqual([
+      expect.objectContaining({ name: 'spaceId', in: 'path', required: true })
+    ])
+    expect(document.paths['/api/spaces'].get['x-kite-scope']).toBe('read')
+    expect(document.paths['/api/config'].post['x-kite-scope']).toBe('admin')
+    expect(document.paths['/api/remote/login'].post.security).toEqual([])
+    expect(document.paths['/api/agent/mode'].post.requestBody.content['application/json'].schema.required)
+      .toEqual(['spaceId', 'conversationId', 'mode'])
+  })
+
+  it('returns responses that match the documented schemas', async () => {
+    const created = await expectDocumentedResponse(
+      'createSpace',
+      await client.fetch('createSpace', { body: { name: 'Schema Check', icon: 'folder' } })
+    ) as { data: { id: string } }
+    const spaceId = created.data.id
+
+    await expectDocumentedResponse('listSpaces', await client.fetch('listSpaces'))
+    await expectDocumentedResponse('getSpace', await client.fetch('getSpace', { params: { spaceId } }))
+
+    const conversation = await expectDocumentedResponse(
+      'createConversation',
+      await client.fetch('createConversation', { params: { spaceId }, body: { title: 'Nightly' } })
+    ) as { data: { id: string } }
+    const conversationId = conversation.data.id
+
+    await expectDocumentedResponse('listConversations', await client.fetch('listConversations', { params: { spaceId } }))
+    await expectDocumentedResponse(
+      'getConversation',
+      await client.fetch('getConversation', { params: { spaceId, conversationId } })
+    )
+    await expectDocumentedResponse(
+      'checkGenerating',
+      await client.fetch('checkGenerating', { params: { conversationId }, query: { spaceId } })
+    )
+    await expectDocumentedResponse(
+      'getSessionState',
+      await client.fetch('getSessionState', { params: { conversationId }, query: { spaceId } })
+    )
+    await expectDocumentedResponse('listActiveSessions', await client.fetch('listActiveSessions'))
+
+    const result = await client.call('listConversations', { params: { spaceId } })
+    expect(result).toMatchObject({ success: true, status: 200 })
+    expect(result.data?.map(item => item.title)).toEqual(['Nightly'])
+  })
+
+  it('rejects requests that do not match the schema', async () => {
+    const mode = await client.call('setAgentMode', {
+      body: { spaceId: 's1', conversationId: 'c1', mode: 'fast' as 'code' }
+    })
+    expect(mode.status).toBe(400)
+    expect(mode.details).toEqual([expect.stringContaining('body.mode')])
+
+    const generating = await client.call('checkGenerating', {
+      params: { conversationId: 'c1' },
+      query: {} as { spaceId: string }
+    })
+    expect(generating.status).toBe(400)
+    expect(generating.details).toEqual([expect.stringContaining('query.spaceId')])
+  })
+
+  it('matches literal paths before parameterised ones', () => {
+    expect(findApiRoute('GET', '/api/spaces/kite')?.operationId).toBe('getKiteSpace')
+    expect(findApiRoute('GET', '/api/spaces/s1')?.operationId).toBe('getSpace')
+    expect(findApiRoute('GET', '/api/workflows/missed-triggers')?.operationId).toBe('listMissedWorkflowTriggers')
+    expect(findApiRoute('PATCH', '/api/spaces/s1')).toBeNull()
+  })
+})
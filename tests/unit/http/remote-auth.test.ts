@@ -0,0 +1,179 @@
+import express from 'express'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getConfig } from '../../../src/main/controllers/config.controller'
+import { authMiddleware, getRequiredScope, resolveCredential } from '../../../src/main/http/auth'
+import { _testResetLoginGuard } from '../../../src/main/http/login-guard'
+import { getConfig as getRawConfig, saveConfig } from '../../../src/main/services/config.service'
+import {
+  _testResetRemoteTokens,
+  createRemoteToken,
+  listRemoteTokens,
+  revokeRemoteToken,
+  verifyRemoteToken
+} from '../../../src/main/services/remote-token.service'
+
+describe('remote device tokens', () => {
+  beforeEach(() => {
+    _testResetRemoteTokens()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('verifies secrets, records last use and keeps only hashes on disk', () => {
+    const { token, secret } = createRemoteToken({ name: 'Phone', scope: 'read' })
+    expect(secret).toMatch(/^kite_[A-Za-z0-9_-]{43}$/)
+    expect(token).toMatchObject({ name: 'Phone', scope: 'read', lastUsedAt: null, expiresAt: null })
+
+    expect(verifyRemoteToken(secret)?.id).toBe(token.id)
+    expect(verifyRemoteToken(`${secret}x`)).toBeNull()
+
+    _testResetRemoteTokens()
+    const [stored] = listRemoteTokens()
+    expect(stored.id).toBe(token.id)
+    expect(stored.lastUsedAt).not.toBeNull()
+    expect(stored).not.toHaveProperty('hash')
+  })
+
+  it('rejects expired and revoked tokens', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const expiring = createRemoteToken({ name: 'Tablet', scope: 'operator', expiresInDays: 7 })
+    const revoked = createRemoteToken({ name: 'Laptop', scope: 'admin' })
+
+    expect(verifyRemoteToken(expiring.secret)).not.toBeNull()
+    vi.setSystemTime(new Date('2026-03-08T10:00:01.000Z'))
+    expect(verifyRemoteToken(expiring.secret)).toBeNull()
+
+    expect(revokeRemoteToken(revoked.token.id)).toBe(true)
+    expect(verifyRemoteToken(revoked.secret)).toBeNull()
+    expect(listRemoteTokens().map(token => token.name)).toEqual(['Tablet'])
+  })
+
+  it('validates the request', () => {
+    expect(() => createRemoteToken({ name: '  ', scope: 'read' })).toThrow('Token name is required')
+    expect(() => createRemoteToken({ name: 'Phone', scope: 'owner' as never })).toThrow('Invalid token scope')
+    expect(() => createRemoteToken({ name: 'Phone', scope: 'read', expiresInDays: -1 })).toThrow('expiresInDays')
+  })
+})
+
+describe('route scopes', () => {
+  it('maps routes to the minimum scope', () => {
+    expect(getRequiredScope('GET', '/api/spaces/s1/conversations')).toBe('read')
+    expect(getRequiredScope('POST', '/api/search/semantic')).toBe('read')
+    expect(getRequiredScope('POST', '/api/agent/message')).toBe('operator')
+    expect(getRequiredScope('POST', '/api/agent/approve')).toBe('operator')
+    expect(getRequiredScope('POST', '/api/spaces/s1/conversations/c1/messages')).toBe('operator')
+    expect(getRequiredScope('POST', '/api/config')).toBe('admin')
+    expect(getRequiredScope('DELETE', '/api/spaces/s1')).toBe('admin')
+    expect(getRequiredScope('GET', '/api/internal/observability/runs')).toBe('admin')
+  })
+
+  it('limits read-only devices to spaces, conversations and artifacts', () => {
+    expect(getRequiredScope('GET', '/api/spaces/s1')).toBe('read')
+    expect(getRequiredScope('GET', '/api/spaces/s1/conversations/c1')).toBe('read')
+    expect(getRequiredScope('GET', '/api/spaces/s1/conversations/c1/change-sets/cs1')).toBe('read')
+    expect(getRequiredScope('GET', '/api/spaces/s1/artifacts/tree')).toBe('read')
+    expect(getRequiredScope('GET', '/api/artifacts/download')).toBe('read')
+    expect(getRequiredScope('GET', '/api/config')).toBe('read')
+
+    expect(getRequiredScope('GET', '/api/workflows')).toBe('operator')
+    expect(getRequiredScope('GET', '/api/skills/content')).toBe('operator')
+
+    expect(getRequiredScope('GET', '/api/config/command-rules')).toBe('admin')
+    expect(getRequiredScope('GET', '/api/spaces/s1/hooks/log')).toBe('admin')
+    expect(getRequiredScope('GET', '/api/spaces/s1/change-history/snapshots/abc')).toBe('admin')
+    expect(getRequiredScope('GET', '/api/observability/runs')).toBe('admin')
+  })
+})
+
+describe('fixed token', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('accepts only long secrets, with read scope unless configured', () => {
+    vi.stubEnv('KITE_REMOTE_ACCESS_TOKEN', '246810')
+    expect(resolveCredential('246810')).toBeNull()
+
+    const secret = 'a'.repeat(32)
+    vi.stubEnv('KITE_REMOTE_ACCESS_TOKEN', secret)
+    expect(resolveCredential(secret)).toMatchObject({ tokenId: 'fixed', scope: 'read' })
+
+    vi.stubEnv('KITE_REMOTE_ACCESS_TOKEN_SCOPE', 'operator')
+    expect(resolveCredential(secret)?.scope).toBe('operator')
+  })
+})
+
+describe('config for remote devices', () => {
+  it('redacts secrets unless asked for the full config', () => {
+    saveConfig({
+      api: { ...getRawConfig().api, apiKey: 'sk-secret' },
+      observability: {
+        ...getRawConfig().observability!,
+        otlp: { ...getRawConfig().observability!.otlp, headers: { 'x-api-key': 'collector-key' } }
+      }
+    })
+
+    const redacted = getConfig({ redactSecrets: true }).data as ReturnType<typeof getRawConfig>
+    expect(JSON.stringify(redacted)).not.toContain('sk-secret')
+    expect(redacted.api.apiKey).toBe('********')
+    expect(redacted.observability?.otlp.headers).toEqual({ 'x-api-key': '********' })
+
+    expect((getConfig().data as ReturnType<typeof getRawConfig>).api.apiKey).toBe('sk-secret')
+  })
+})
+
+describe('authMiddleware', () => {
+  let server: ReturnType<express.Express['listen']> | null = null
+  let baseUrl = ''
+
+  beforeEach(async () => {
+    _testResetRemoteTokens()
+    _testResetLoginGuard()
+    const app = express()
+    app.use(express.json())
+    app.use('/api', authMiddleware)
+    app.get('/api/spaces', (_req, res) => res.json({ success: true }))
+    app.post('/api/agent/message', (_req, res) => res.json({ success: true }))
+    app.post('/api/config', (_req, res) => res.json({ success: true }))
+
+    server = await new Promise((resolve) => {
+      const instance = app.listen(0, '127.0.0.1', () => resolve(instance))
+    })
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server ? server.close(() => resolve()) : resolve())
+    server = null
+  })
+
+  async function statusOf(method: string, path: string, secret?: string): Promise<number> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: secret ? { Authorization: `Bearer ${secret}` } : {}
+    })
+    return response.status
+  }
+
+  it('enforces the token scope on each route', async () => {
+    const read = createRemoteToken({ name: 'Viewer', scope: 'read' }).secret
+    const operator = createRemoteToken({ name: 'Phone', scope: 'operator' }).secret
+    const admin = createRemoteToken({ name: 'Laptop', scope: 'admin' }).secret
+
+    expect(await statusOf('GET', '/api/spaces')).toBe(401)
+    expect(await statusOf('GET', '/api/spaces', 'kite_unknown')).toBe(401)
+
+    expect(await statusOf('GET', '/api/spaces', read)).toBe(200)
+    expect(await statusOf('POST', '/api/agent/message', read)).toBe(403)
+
+    expect(await statusOf('POST', '/api/agent/message', operator)).toBe(200)
+    expect(await statusOf('POST', '/api/config', operator)).toBe(403)
+
+    expect(await statusOf('POST', '/api/config', admin)).toBe(200)
+  })
+})
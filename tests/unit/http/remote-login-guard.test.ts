@@ -0,0 +1,130 @@
+import express from 'express'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { authMiddleware } from '../../../src/main/http/auth'
+import { accessLogMiddleware } from '../../../src/main/http/access-log'
+import {
+  _testResetLoginGuard,
+  checkLoginAllowed,
+  getClientIp,
+  recordLoginFailure
+} from '../../../src/main/http/login-guard'
+import {
+  _testResetRemoteAccessLog,
+  listRemoteAccessLog,
+  onNewRemoteDevice
+} from '../../../src/main/services/remote-access-log.service'
+import { _testResetRemoteTokens, createRemoteToken } from '../../../src/main/services/remote-token.service'
+
+describe('login guard', () => {
+  beforeEach(() => {
+    _testResetLoginGuard()
+  })
+
+  it('locks an IP out after repeated failures until the lockout ends', () => {
+    const start = Date.parse('2026-03-01T10:00:00.000Z')
+    for (let i = 0; i < 4; i++) recordLoginFailure('10.0.0.2', start + i)
+    expect(checkLoginAllowed('10.0.0.2', start + 10).allowed).toBe(true)
+
+    recordLoginFailure('10.0.0.2', start + 10)
+    expect(checkLoginAllowed('10.0.0.2', start + 20)).toEqual({ allowed: false, retryAfterMs: 15 * 60 * 1000 - 10 })
+    expect(checkLoginAllowed('10.0.0.3', start + 20).allowed).toBe(true)
+    expect(checkLoginAllowed('10.0.0.2', start + 10 + 15 * 60 * 1000).allowed).toBe(true)
+  })
+
+  it('forgets failures outside the window', () => {
+    const start = Date.parse('2026-03-01T10:00:00.000Z')
+    for (let i = 0; i < 4; i++) recordLoginFailure('10.0.0.2', start)
+    recordLoginFailure('10.0.0.2', start + 11 * 60 * 1000)
+    expect(checkLoginAllowed('10.0.0.2', start + 11 * 60 * 1000).allowed).toBe(true)
+  })
+
+  it('locks everyone out after a burst of failures across IPs', () => {
+    const start = Date.parse('2026-03-01T10:00:00.000Z')
+    for (let i = 0; i < 30; i++) recordLoginFailure(`10.0.1.${i}`, start + i)
+    expect(checkLoginAllowed('192.168.1.20', start + 100).allowed).toBe(false)
+    expect(checkLoginAllowed('192.168.1.20', start + 29 + 5 * 60 * 1000).allowed).toBe(true)
+  })
+
+  it('uses the forwarded address only for loopback peers', () => {
+    const request = (remoteAddress: string, headers: Record<string, string>) =>
+      ({ socket: { remoteAddress }, headers }) as never
+    expect(getClientIp(request('127.0.0.1', { 'cf-connecting-ip': '203.0.113.7' }))).toBe('203.0.113.7')
+    expect(getClientIp(request('::1', { 'x-forwarded-for': '203.0.113.8, 10.0.0.1' }))).toBe('203.0.113.8')
+    expect(getClientIp(request('192.168.1.5', { 'cf-connecting-ip': '203.0.113.7' }))).toBe('192.168.1.5')
+  })
+})
+
+describe('remote access log', () => {
+  let server: ReturnType<express.Express['listen']> | null = null
+  let baseUrl = ''
+
+  beforeEach(async () => {
+    _testResetLoginGuard()
+    _testResetRemoteAccessLog()
+    _testResetRemoteTokens()
+
+    const app = express()
+    app.use('/api', accessLogMiddleware)
+    app.use('/api', authMiddleware)
+    app.get('/api/spaces', (_req, res) => res.json({ success: true }))
+
+    server = await new Promise((resolve) => {
+      const instance = app.listen(0, '127.0.0.1', () => resolve(instance))
+    })
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server ? server.close(() => resolve()) : resolve())
+    server = null
+  })
+
+  function get(path: string, secret: string): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${secret}`, 'User-Agent': 'test-phone', 'CF-Connecting-IP': '203.0.113.9' }
+    })
+  }
+
+  it('records calls without query strings and notifies once per new device', async () => {
+    const newDevices = vi.fn()
+    onNewRemoteDevice(newDevices)
+    const { secret } = createRemoteToken({ name: 'Phone', scope: 'read' })
+
+    expect((await get('/api/spaces?token=leak', secret)).status).toBe(200)
+    expect((await get('/api/spaces', secret)).status).toBe(200)
+    expect((await get('/api/spaces', 'kite_wrong')).status).toBe(401)
+
+    const entries = listRemoteAccessLog()
+    expect(entries).toHaveLength(3)
+    expect(entries[0]).toMatchObject({ kind: 'api', status: 401, ip: '203.0.113.9', userAgent: 'test-phone' })
+    expect(entries[0].tokenName).toBeUndefined()
+    expect(entries[2]).toMatchObject({ method: 'GET', route: '/api/spaces', status: 200, tokenName: 'Phone' })
+    expect(JSON.stringify(entries)).not.toContain('leak')
+    expect(listRemoteAccessLog({ failuresOnly: true })).toHaveLength(1)
+
+    expect(newDevices).toHaveBeenCalledTimes(1)
+    expect(newDevices).toHaveBeenCalledWith(expect.objectContaining({ tokenName: 'Phone', ip: '203.0.113.9' }))
+  })
+
+  it('throttles repeated bad bearer tokens, even for a valid one', async () => {
+    const { secret } = createRemoteToken({ name: 'Phone', scope: 'read' })
+    for (let i = 0; i < 5; i++) {
+      expect((await get('/api/spaces', `kite_guess${i}`)).status).toBe(401)
+    }
+
+    const locked = await get('/api/spaces', secret)
+    expect(locked.status).toBe(429)
+    expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0)
+    expect(listRemoteAccessLog()[0]).toMatchObject({ status: 429 })
+  })
+
+  it('lets valid tokens through a global lockout', async () => {
+    const { secret } = createRemoteToken({ name: 'Phone', scope: 'read' })
+    for (let i = 0; i < 30; i++) recordLoginFailure(`10.0.2.${i}`)
+
+    expect((await get('/api/spaces', secret)).status).toBe(200)
+    expect((await get('/api/spaces', 'kite_guess')).status).toBe(429)
+  })
+})
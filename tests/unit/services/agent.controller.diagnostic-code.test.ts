@@ -60,4 +60,17 @@ describe('agent.controller sendMessage diagnostic code passthrough', () => {
       diagnosticCode: 'DIRECTIVE_AMBIGUOUS_ALIAS'
     })
   })
+
+  it('hands a reserved dispatch slot to agent sendMessage', async () => {
+    sendMessageMock.mockResolvedValue({ accepted: true })
+    const dispatchSlot = vi.fn()
+
+    await sendWorkflowStepMessage(null, {
+      spaceId: 'space-1',
+      conversationId: 'conv-3',
+      message: 'branch'
+    } as any, { dispatchSlot })
+
+    expect(sendMessageMock.mock.calls[0]?.[2]).toEqual({ dispatchSlot })
+  })
 })
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { existsSync, mkdtempSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+let mockSpacePath = ''
+
+vi.mock('../../../src/main/services/space.service', () => ({
+  getSpace: vi.fn(() => {
+    if (!mockSpacePath) return null
+    return { id: 'space-history', path: mockSpacePath }
+  })
+}))
+
+import {
+  beginChangeSet,
+  finalizeChangeSet,
+  getChangeSet,
+  listChangeHistory,
+  listChangeSets,
+  rollbackChangeSet,
+  rollbackToMessage,
+  trackChangeFile
+} from '../../../src/main/services/change-set.service'
+import { getChangeHistoryStats, pruneChangeHistory } from '../../../src/main/services/change-history.service'
+
+const SPACE = 'space-history'
+
+describe('change history', () => {
+  let workDir = ''
+
+  function aiEdit(conversationId: string, messageId: string, edits: Record<string, string | null>) {
+    beginChangeSet(SPACE, conversationId, workDir)
+    for (const [file, content] of Object.entries(edits)) {
+      trackChangeFile(SPACE, conversationId, file)
+      if (content === null) {
+        rmSync(join(workDir, file))
+      } else {
+        writeFileSync(join(workDir, file), content, 'utf-8')
+      }
+    }
+    return finalizeChangeSet(SPACE, conversationId, messageId)!
+  }
+
+  const read = (file: string) => readFileSync(join(workDir, file), 'utf-8')
+
+  beforeEach(() => {
+    mockSpacePath = mkdtempSync(join(tmpdir(), 'kite-change-history-'))
+    workDir = mockSpacePath
+  })
+
+  afterEach(() => {
+    rmSync(mockSpacePath, { recursive: true, force: true })
+    mockSpacePath = ''
+  })
+
+  it('keeps every change set and stores identical snapshots once', () => {
+    writeFileSync(join(workDir, 'a.txt'), 'one\n', 'utf-8')
+    for (let i = 0; i < 5; i++) {
+      aiEdit('conv-1', `msg-${i}`, { 'a.txt': i % 2 === 0 ? 'two\n' : 'one\n' })
+    }
+
+    const listed = listChangeSets(SPACE, 'conv-1')
+    expect(listed.map(cs => cs.messageId)).toEqual(['msg-4', 'msg-3', 'msg-2', 'msg-1', 'msg-0'])
+    expect(listed[0].files[0]).not.toHaveProperty('afterContent')
+    expect(getChangeSet(SPACE, 'conv-1', listed[0].id)!.files[0]).toMatchObject({ beforeContent: 'one\n', afterContent: 'two\n' })
+    expect(getChangeSet(SPACE, 'conv-2', listed[0].id)).toBeNull()
+    expect(getChangeHistoryStats(SPACE)).toMatchObject({ changeSets: 5, objects: 2 })
+    expect(listChangeHistory(SPACE)[0].files[0]).not.toHaveProperty('afterContent')
+  })
+
+  it('merges hand edits made after the AI change when rolling back', () => {
+    writeFileSync(join(workDir, 'doc.md'), 'title\nbody\n\nfooter\n', 'utf-8')
+    const changeSet = aiEdit('conv-1', 'msg-1', { 'doc.md': 'title\nAI body\n\nfooter\n' })
+    writeFileSync(join(workDir, 'doc.md'), 'title\nAI body\n\nfooter by hand\n', 'utf-8')
+
+    const result = rollbackChangeSet(SPACE, 'conv-1', changeSet.id, {})
+
+    expect(result.conflicts).toEqual([])
+    expect(result.merged).toEqual([join(workDir, 'doc.md')])
+    expect(result.changeSet?.status).toBe('rolled_back')
+    expect(read('doc.md')).toBe('title\nbody\n\nfooter by hand\n')
+  })
+
+  it('reports conflicts when hand edits overlap the AI change', () => {
+    writeFileSync(join(workDir, 'doc.md'), 'line\n', 'utf-8')
+    const changeSet = aiEdit('conv-1', 'msg-1', { 'doc.md': 'ai line\n' })
+    writeFileSync(join(workDir, 'doc.md'), 'my line\n', 'utf-8')
+
+    const result = rollbackChangeSet(SPACE, 'conv-1', changeSet.id, {})
+    expect(result.conflicts).toEqual([join(workDir, 'doc.md')])
+    expect(read('doc.md')).toBe('my line\n')
+
+    expect(rollbackChangeSet(SPACE, 'conv-1', changeSet.id, { force: true }).conflicts).toEqual([])
+    expect(read('doc.md')).toBe('line\n')
+  })
+
+  it('rolls the space back to before a message across conversations', () => {
+    writeFileSync(join(workDir, 'a.txt'), 'a0\n', 'utf-8')
+    aiEdit('conv-1', 'msg-1', { 'a.txt': 'a1\n' })
+    aiEdit('conv-1', 'msg-2', { 'a.txt': 'a2\n', 'new.txt': 'created\n' })
+    aiEdit('conv-2', 'msg-3', { 'a.txt': 'a3\n' })
+    aiEdit('conv-1', 'msg-4', { 'new.txt': null })
+
+    const result = rollbackToMessage(SPACE, 'conv-1', 'msg-2')
+
+    expect(result.conflicts).toEqual([])
+    expect(result.changeSets.map(cs => cs.messageId)).toEqual(['msg-2', 'msg-3', 'msg-4'])
+    expect(read('a.txt')).toBe('a1\n')
+    expect(existsSync(join(workDir, 'new.txt'))).toBe(false)
+    expect(listChangeSets(SPACE, 'conv-1').map(cs => cs.status)).toEqual(['rolled_back', 'rolled_back', 'applied'])
+    expect(() => rollbackToMessage(SPACE, 'conv-1', 'missing')).toThrow('No changes recorded for message: missing')
+  })
+
+  it('prunes old change sets and unreferenced snapshots', () => {
+    writeFileSync(join(workDir, 'a.txt'), 'start\n', 'utf-8')
+    aiEdit('conv-1', 'msg-1', { 'a.txt': 'x'.repeat(1000) })
+    aiEdit('conv-1', 'msg-2', { 'a.txt': 'small\n' })
+
+    const historyFile = join(mockSpacePath, '.kite', 'history', 'timeline.json')
+    const history = JSON.parse(readFileSync(historyFile, 'utf-8'))
+    history.changeSets[0].createdAt = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString()
+    writeFileSync(historyFile, JSON.stringify(history), 'utf-8')
+
+    expect(pruneChangeHistory(SPACE, { maxAgeDays: 30 })).toMatchObject({ removedChangeSets: 1, removedObjects: 1 })
+    expect(getChangeHistoryStats(SPACE)).toMatchObject({ changeSets: 1, objects: 2 })
+
+    expect(pruneChangeHistory(SPACE, { maxBytes: 10 })).toMatchObject({ removedChangeSets: 1, removedObjects: 2 })
+    expect(listChangeHistory(SPACE)).toEqual([])
+  })
+
+  it('moves legacy per-conversation change sets into the space history', () => {
+    const legacyDir = join(mockSpacePath, '.kite', 'change-sets')
+    mkdirSync(legacyDir, { recursive: true })
+    writeFileSync(join(legacyDir, 'conv-old.json'), JSON.stringify([{
+      id: 'cs-old',
+      spaceId: SPACE,
+      conversationId: 'conv-old',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      status: 'applied',
+      summary: { totalFiles: 1, totalAdded: 1, totalRemoved: 0 },
+      files: [{
+        id: 'cf-old',
+        path: join(workDir, 'old.txt'),
+        relativePath: 'old.txt',
+        fileName: 'old.txt',
+        type: 'create',
+        status: 'accepted',
+        beforeExists: false,
+        afterExists: true,
+        afterContent: 'legacy\n',
+        stats: { added: 1, removed: 0 }
+      }]
+    }]), 'utf-8')
+
+    expect(getChangeSet(SPACE, 'conv-old', 'cs-old')!.files[0].afterContent).toBe('legacy\n')
+    expect(readdirSync(legacyDir)).toEqual([])
+    expect(listChangeHistory(SPACE)).toHaveLength(1)
+  })
+
+  it('prunes history past the default age limit when a change set is saved', () => {
+    const legacyDir = join(mockSpacePath, '.kite', 'change-sets')
+    mkdirSync(legacyDir, { recursive: true })
+    writeFileSync(join(legacyDir, 'conv-old.json'), JSON.stringify([{
+      id: 'cs-old',
+      spaceId: 'space-prune',
+      conversationId: 'conv-old',
+      createdAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString(),
+      status: 'applied',
+      summary: { totalFiles: 1, totalAdded: 1, totalRemoved: 0 },
+      files: [{
+        id: 'cf-old',
+        path: join(workDir, 'old.txt'),
+        relativePath: 'old.txt',
+        fileName: 'old.txt',
+        type: 'create',
+        status: 'accepted',
+        beforeExists: false,
+        afterExists: true,
+        afterContent: 'stale\n',
+        stats: { added: 1, removed: 0 }
+      }]
+    }]), 'utf-8')
+
+    // A space id no earlier test used, so its daily prune has not run yet
+    beginChangeSet('space-prune', 'conv-new', workDir)
+    trackChangeFile('space-prune', 'conv-new', 'new.txt')
+    writeFileSync(join(workDir, 'new.txt'), 'fresh\n', 'utf-8')
+    finalizeChangeSet('space-prune', 'conv-new')
+
+    expect(listChangeHistory('space-prune').map(cs => cs.conversationId)).toEqual(['conv-new'])
+    expect(getChangeHistoryStats('space-prune')).toMatchObject({ changeSets: 1, objects: 1 })
+  })
+})
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+let mockSpacePath = ''
+
+vi.mock('../../../src/main/services/space.service', () => ({
+  getSpace: vi.fn(() => {
+    if (!mockSpacePath) return null
+    return { id: 'space-binary', path: mockSpacePath }
+  })
+}))
+
+vi.mock('../../../src/main/services/config.service', () => ({
+  getConfig: () => ({ changeTracking: { maxSnapshotBytes: 1024 } })
+}))
+
+import {
+  beginChangeSet,
+  finalizeChangeSet,
+  readChangeSnapshot,
+  rollbackChangeSet,
+  rollbackToMessage,
+  trackChangeFile
+} from '../../../src/main/services/change-set.service'
+
+const SPACE = 'space-binary'
+const PNG_BEFORE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0xff, 0xfe])
+const PNG_AFTER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x80, 0x81, 0x82])
+
+describe('change-set binary and large files', () => {
+  let workDir = ''
+
+  function aiWrite(messageId: string, file: string, data: Buffer | string) {
+    beginChangeSet(SPACE, 'conv-1', workDir)
+    trackChangeFile(SPACE, 'conv-1', file)
+    writeFileSync(join(workDir, file), data)
+    return finalizeChangeSet(SPACE, 'conv-1', messageId)!
+  }
+
+  beforeEach(() => {
+    mockSpacePath = mkdtempSync(join(tmpdir(), 'kite-change-set-binary-'))
+    workDir = mockSpacePath
+  })
+
+  afterEach(() => {
+    rmSync(mockSpacePath, { recursive: true, force: true })
+    mockSpacePath = ''
+  })
+
+  it('snapshots binary files as raw bytes and restores them exactly', () => {
+    writeFileSync(join(workDir, 'logo.png'), PNG_BEFORE)
+    const changeSet = aiWrite('msg-1', 'logo.png', PNG_AFTER)
+
+    const [file] = changeSet.files
+    expect(file).toMatchObject({ binary: true, beforeSize: PNG_BEFORE.length, afterSize: PNG_AFTER.length })
+    expect(file.stats).toEqual({ added: 0, removed: 0 })
+    expect(file).not.toHaveProperty('beforeContent')
+    expect(readChangeSnapshot(SPACE, file.beforeHash!)?.equals(PNG_BEFORE)).toBe(true)
+
+    const result = rollbackChangeSet(SPACE, 'conv-1', changeSet.id, {})
+    expect(result.conflicts).toEqual([])
+    expect(readFileSync(join(workDir, 'logo.png')).equals(PNG_BEFORE)).toBe(true)
+  })
+
+  it('treats hand-edited binary files as conflicts instead of merging', () => {
+    writeFileSync(join(workDir, 'data.bin'), PNG_BEFORE)
+    const changeSet = aiWrite('msg-1', 'data.bin', PNG_AFTER)
+    writeFileSync(join(workDir, 'data.bin'), Buffer.concat([PNG_AFTER, Buffer.from([0])]))
+
+    expect(rollbackChangeSet(SPACE, 'conv-1', changeSet.id, {}).conflicts).toEqual([join(workDir, 'data.bin')])
+  })
+
+  it('skips snapshots above the size limit and leaves those files alone on rollback', () => {
+    const big = 'x'.repeat(2048)
+    writeFileSync(join(workDir, 'big.txt'), big)
+    writeFileSync(join(workDir, 'small.txt'), 'small\n')
+
+    beginChangeSet(SPACE, 'conv-1', workDir)
+    trackChangeFile(SPACE, 'conv-1', 'big.txt')
+    trackChangeFile(SPACE, 'conv-1', 'small.txt')
+    trackChangeFile(SPACE, 'conv-1', 'created.zip')
+    writeFileSync(join(workDir, 'big.txt'), big + 'y')
+    writeFileSync(join(workDir, 'small.txt'), 'changed\n')
+    writeFileSync(join(workDir, 'created.zip'), Buffer.alloc(4096, 1))
+    const changeSet = finalizeChangeSet(SPACE, 'conv-1', 'msg-1')!
+
+    const byName = Object.fromEntries(changeSet.files.map(file => [file.fileName, file]))
+    expect(byName['big.txt']).toMatchObject({ snapshotSkipped: true, beforeSize: 2048, afterSize: 2049 })
+    expect(readChangeSnapshot(SPACE, byName['big.txt'].beforeHash!)).toBeNull()
+    expect(byName['created.zip']).toMatchObject({ type: 'create', snapshotSkipped: true })
+
+    const result = rollbackToMessage(SPACE, 'conv-1', 'msg-1')
+    expect(result.unavailable).toEqual([join(workDir, 'big.txt')])
+    expect(readFileSync(join(workDir, 'big.txt'), 'utf-8')).toBe(big + 'y')
+    expect(readFileSync(join(workDir, 'small.txt'), 'utf-8')).toBe('small\n')
+    expect(existsSync(join(workDir, 'created.zip'))).toBe(false)
+    expect(result.changeSets[0].status).toBe('partial_rollback')
+  })
+})
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { tmpdir } from 'os'
+
+import {
+  _testResetHookLog,
+  listHookInvocations,
+  recordHookInvocation,
+  recordSdkHookResponse,
+  recordSdkHookStarted
+} from '../../../src/main/services/hook-log.service'
+import { buildSdkHooks, takeHookApprovalRequest } from '../../../src/main/services/hook-runtime.service'
+import { buildSampleHookInput, testHook } from '../../../src/main/services/hook-tester.service'
+import { normalizeHookTestRequest } from '../../../src/shared/types/hook-log'
+
+const baseEntry = {
+  spaceId: 'space-1',
+  eventType: 'PreToolUse',
+  hookType: 'command' as const,
+  hookName: 'echo ok',
+  outcome: 'success' as const,
+  startedAt: '2026-01-01T00:00:00.000Z',
+  durationMs: 1
+}
+
+describe('hook-log.service', () => {
+  beforeEach(() => {
+    _testResetHookLog()
+  })
+
+  it('keeps the most recent invocations per space, newest first', () => {
+    for (let i = 0; i < 205; i++) {
+      recordHookInvocation({ ...baseEntry, hookName: `hook-${i}` })
+    }
+    recordHookInvocation({ ...baseEntry, spaceId: 'space-2' })
+
+    const log = listHookInvocations('space-1')
+    expect(log).toHaveLength(200)
+    expect(log[0].hookName).toBe('hook-204')
+    expect(log[199].hookName).toBe('hook-5')
+    expect(listHookInvocations('space-2')).toHaveLength(1)
+  })
+
+  it('records shell hooks from SDK hook messages', () => {
+    recordSdkHookStarted('hook-1')
+    recordSdkHookResponse('space-1', 'conversation-1', {
+      hook_id: 'hook-1',
+      hook_name: 'PreToolUse:Bash',
+      hook_event: 'PreToolUse',
+      output: '',
+      stdout: 'checked',
+      stderr: 'blocked',
+      exit_code: 2,
+      outcome: 'error'
+    })
+
+    expect(listHookInvocations('space-1')[0]).toMatchObject({
+      conversationId: 'conversation-1',
+      eventType: 'PreToolUse',
+      hookType: 'command',
+      hookName: 'PreToolUse:Bash',
+      outcome: 'error',
+      exitCode: 2,
+      stdout: 'checked',
+      stderr: 'blocked'
+    })
+  })
+
+  it('records in-process hooks run by the agent', async () => {
+    const sdkHooks = buildSdkHooks(
+      { UserPromptSubmit: [{ hooks: [{ type: 'builtin', action: 'append-prompt', text: 'Be brief' }] }] },
+      { spaceId: 'space-1', conversationId: 'conversation-1' }
+    )
+    const callback = sdkHooks!.UserPromptSubmit[0].hooks[0] as any
+    await callback(
+      { hook_event_name: 'UserPromptSubmit', session_id: 's', transcript_path: '', cwd: '/tmp', prompt: 'hi' },
+      undefined,
+      { signal: new AbortController().signal }
+    )
+
+    const [entry] = listHookInvocations('space-1')
+    expect(entry).toMatchObject({ hookType: 'builtin', hookName: 'builtin:append-prompt', outcome: 'success' })
+    expect(entry.output).toContain('Be brief')
+  })
+})
+
+describe('hook-tester.service', () => {
+  beforeEach(() => {
+    _testResetHookLog()
+  })
+
+  it('builds sample payloads for each event type', () => {
+    expect(buildSampleHookInput('PreToolUse', '/workspace')).toMatchObject({
+      hook_event_name: 'PreToolUse',
+      cwd: '/workspace',
+      tool_name: 'Bash'
+    })
+    expect(buildSampleHookInput('UserPromptSubmit', '/workspace')).toHaveProperty('prompt')
+  })
+
+  it('pipes the payload to shell hooks and records a dry run', async () => {
+    const result = await testHook('space-1', tmpdir(), {
+      eventType: 'UserPromptSubmit',
+      hook: { type: 'command', command: 'cat' },
+      input: { prompt: 'custom prompt' }
+    })
+
+    expect(result).toMatchObject({ outcome: 'success', exitCode: 0, dryRun: true })
+    expect(JSON.parse(result.stdout!)).toMatchObject({ hook_event_name: 'UserPromptSubmit', prompt: 'custom prompt' })
+    expect(listHookInvocations('space-1')[0].id).toBe(result.id)
+  })
+
+  it('does not queue approvals when dry-running builtin hooks', async () => {
+    const result = await testHook('space-1', '/workspace', {
+      eventType: 'PreToolUse',
+      hook: { type: 'builtin', action: 'require-approval', tools: ['Bash'] }
+    })
+
+    expect(result.output).toContain('"permissionDecision":"ask"')
+    expect(takeHookApprovalRequest('toolu_hook_test')).toBeNull()
+  })
+
+  it('validates test requests', () => {
+    expect(normalizeHookTestRequest({ eventType: 'PreToolUse', hook: { type: 'command', command: 'ls' } })).toBeDefined()
+    expect(normalizeHookTestRequest({ eventType: 'Bogus', hook: { type: 'command', command: 'ls' } })).toBeUndefined()
+    expect(normalizeHookTestRequest({ eventType: 'PreToolUse', hook: { type: 'http', url: 'file:///etc' } })).toBeUndefined()
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  buildSdkHooks,
+  runBuiltinHook,
+  runHttpHook,
+  takeHookApprovalRequest
+} from '../../../src/main/services/hook-runtime.service'
+import type { HooksConfig } from '../../../src/shared/types/claude-code'
+
+function preToolUse(toolName: string, toolInput: Record<string, unknown>) {
+  return {
+    hook_event_name: 'PreToolUse' as const,
+    session_id: 'session-1',
+    transcript_path: '/tmp/transcript.jsonl',
+    cwd: '/workspace/project',
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: 'toolu_1'
+  } as any
+}
+
+describe('hook-runtime.service', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('blocks tool calls that touch a blocked path', () => {
+    const hook = { type: 'builtin' as const, action: 'block-paths' as const, paths: ['.env*', 'secrets/**'] }
+
+    expect(runBuiltinHook(hook, preToolUse('Read', { file_path: '/workspace/project/.env.local' }))).toMatchObject({
+      hookSpecificOutput: { permissionDecision: 'deny' }
+    })
+    expect(runBuiltinHook(hook, preToolUse('Edit', { file_path: 'secrets/prod/key.pem' }))).toMatchObject({
+      hookSpecificOutput: { permissionDecision: 'deny' }
+    })
+    expect(runBuiltinHook(hook, preToolUse('Read', { file_path: 'src/index.ts' }))).toEqual({})
+  })
+
+  it('asks for approval and hands the request to canUseTool', () => {
+    const hook = { type: 'builtin' as const, action: 'require-approval' as const, tools: ['Write', 'mcp__.*'] }
+
+    expect(runBuiltinHook(hook, preToolUse('mcp__github__create_issue', {}), 'toolu_7')).toMatchObject({
+      hookSpecificOutput: { permissionDecision: 'ask' }
+    })
+    expect(takeHookApprovalRequest('toolu_7')).toBe('mcp__github__create_issue requires approval')
+    expect(takeHookApprovalRequest('toolu_7')).toBeNull()
+    expect(runBuiltinHook(hook, preToolUse('Read', {}), 'toolu_8')).toEqual({})
+  })
+
+  it('appends text to submitted prompts', () => {
+    const output = runBuiltinHook(
+      { type: 'builtin', action: 'append-prompt', text: 'Answer in English.' },
+      { hook_event_name: 'UserPromptSubmit', session_id: 's', transcript_path: 't', cwd: '/w', prompt: 'hi' } as any
+    )
+    expect(output).toEqual({
+      hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext: 'Answer in English.' }
+    })
+  })
+
+  it('posts the event to http hooks and maps the decision', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ decision: 'deny', reason: 'change freeze' }), { status: 200 })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const input = preToolUse('Bash', { command: 'git push' })
+    const output = await runHttpHook(
+      { type: 'http', url: 'https://hooks.example.com/pre', headers: { Authorization: 'Bearer t' } },
+      input
+    )
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://hooks.example.com/pre')
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/json', Authorization: 'Bearer t' })
+    expect(JSON.parse(init.body)).toMatchObject({ tool_name: 'Bash' })
+    expect(output).toEqual({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: 'change freeze'
+      }
+    })
+  })
+
+  it('does not block when an http hook fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('oops', { status: 502 })))
+    expect(await runHttpHook({ type: 'http', url: 'https://hooks.example.com' }, preToolUse('Bash', {}))).toEqual({})
+  })
+
+  it('passes shell hooks through and turns the rest into callbacks', () => {
+    const shellOnly = { matcher: 'Bash', hooks: [{ type: 'command' as const, command: 'echo hi' }] }
+    const hooks: HooksConfig = {
+      PreToolUse: [
+        shellOnly,
+        {
+          matcher: ['Write', 'Edit'],
+          hooks: [
+            { type: 'command', command: 'echo mixed' },
+            { type: 'builtin', action: 'block-paths', paths: ['*.lock'] }
+          ]
+        }
+      ]
+    }
+
+    const sdkHooks = buildSdkHooks(hooks)
+    expect(sdkHooks?.PreToolUse[0]).toBe(shellOnly)
+    expect(sdkHooks?.PreToolUse[1].matcher).toBe('Write|Edit')
+    expect(sdkHooks?.PreToolUse[1].hooks[0]).toEqual({ type: 'command', command: 'echo mixed' })
+    expect(sdkHooks?.PreToolUse[1].hooks[1]).toBeTypeOf('function')
+  })
+})
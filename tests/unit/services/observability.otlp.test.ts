@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+
+import { getConfig, saveConfig } from '../../../src/main/services/config.service'
+import {
+  _testOnly,
+  exportRunTraceToOtlp,
+  flushOtlpExporter,
+  resolveOtlpTracesUrl,
+  shutdownObservability,
+  type ObservabilityRunTrace
+} from '../../../src/main/services/observability'
+
+interface CollectedRequest {
+  path: string
+  headers: IncomingHttpHeaders
+  body: Buffer
+}
+
+// Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver
+async function startCollector(): Promise<{ server: Server; url: string; requests: CollectedRequest[] }> {
+  const requests: CollectedRequest[] = []
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      requests.push({ path: req.url || '', headers: req.headers, body: Buffer.concat(chunks) })
+      res.writeHead(200, { 'Content-Type': req.headers['content-type'] || 'application/json' })
+      res.end(req.headers['content-type'] === 'application/json' ? '{}' : '')
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { server, url: `http://127.0.0.1:${port}`, requests }
+}
+
+function sampleRun(runId: string): ObservabilityRunTrace {
+  return {
+    sessionKey: 'space-1:conv-1',
+    spaceId: 'space-1',
+    conversationId: 'conv-1',
+    runId,
+    mode: 'code',
+    provider: 'anthropic',
+    model: 'model-a',
+    sampled: false,
+    enabled: false,
+    status: 'error',
+    startedAt: '2026-03-01T10:00:00.000Z',
+    endedAt: '2026-03-01T10:00:04.000Z',
+    durationMs: 4000,
+    ttftMs: 900,
+    phaseDurationsMs: { stream_loop: 3900 },
+    tokenUsage: {
+      inputTokens: 120,
+      outputTokens: 30,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      totalCostUsd: 0.01,
+      contextWindow: 200000
+    },
+    errorMessage: 'stream closed',
+    phases: [{ phase: 'stream_loop', startOffsetMs: 100, durationMs: 3900 }],
+    tools: [
+      { id: 'tool-1', name: 'Bash', status: 'error', startOffsetMs: 500, durationMs: 1000, input: '{"command":"secret"}', error: 'exit 1' }
+    ]
+  }
+}
+
+function configureOtlp(url: string, protocol: 'http/json' | 'http/protobuf', sampleRate = 1): void {
+  saveConfig({
+    observability: {
+      langfuse: { ...getConfig().observability!.langfuse, sampleRate },
+      otlp: {
+        enabled: true,
+        endpoint: url,
+        protocol,
+        headers: { 'x-api-key': 'collector-key' },
+        serviceName: 'kite-test'
+      }
+    }
+  })
+}
+
+describe('OTLP exporter', () => {
+  let collector: Awaited<ReturnType<typeof startCollector>>
+
+  beforeEach(async () => {
+    _testOnly().reset()
+    collector = await startCollector()
+  })
+
+  afterEach(async () => {
+    await shutdownObservability()
+    await new Promise<void>(resolve => collector.server.close(() => resolve()))
+  })
+
+  it('resolves the traces URL from a collector endpoint', () => {
+    expect(resolveOtlpTracesUrl('http://localhost:4318/')).toBe('http://localhost:4318/v1/traces')
+    expect(resolveOtlpTracesUrl('https://otel.example.com/v1/traces')).toBe('https://otel.example.com/v1/traces')
+  })
+
+  it('exports a run as a root span with phase and tool children over http/json', async () => {
+    configureOtlp(collector.url, 'http/json')
+
+    exportRunTraceToOtlp(sampleRun('run-json'))
+    await flushOtlpExporter()
+
+    expect(collector.requests).toHaveLength(1)
+    const [request] = collector.requests
+    expect(request.path).toBe('/v1/traces')
+    expect(request.headers['content-type']).toBe('application/json')
+    expect(request.headers['x-api-key']).toBe('collector-key')
+
+    const payload = JSON.parse(request.body.toString('utf-8'))
+    const resourceSpans = payload.resourceSpans[0]
+    expect(resourceSpans.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'kite-test' } })
+    const spans = resourceSpans.scopeSpans[0].spans as Array<{
+      name: string
+      spanId: string
+      parentSpanId?: string
+      startTimeUnixNano: string
+      status?: { code?: number }
+      attributes: Array<{ key: string; value: Record<string, unknown> }>
+    }>
+    const byName = new Map(spans.map(span => [span.name, span]))
+    const root = byName.get('invoke_agent model-a')!
+    const attribute = (span: typeof root, key: string) => span.attributes.find(item => item.key === key)?.value
+
+    expect(attribute(root, 'gen_ai.request.model')).toEqual({ stringValue: 'model-a' })
+    expect(attribute(root, 'gen_ai.usage.input_tokens')).toEqual({ intValue: 120 })
+    expect(root.status?.code).toBe(2)
+    expect(byName.get('agent.stream_loop')?.parentSpanId).toBe(root.spanId)
+
+    const tool = byName.get('execute_tool Bash')!
+    expect(tool.parentSpanId).toBe(root.spanId)
+    expect(attribute(tool, 'gen_ai.tool.name')).toEqual({ stringValue: 'Bash' })
+    expect(BigInt(tool.startTimeUnixNano)).toBe(BigInt(Date.parse('2026-03-01T10:00:00.500Z')) * 1_000_000n)
+    expect(request.body.toString('utf-8')).not.toContain('secret')
+  })
+
+  it('sends protobuf by default and honours the sample rate', async () => {
+    configureOtlp(collector.url, 'http/protobuf', 0)
+    exportRunTraceToOtlp(sampleRun('run-dropped'))
+    await flushOtlpExporter()
+    expect(collector.requests).toHaveLength(0)
+
+    configureOtlp(collector.url, 'http/protobuf', 1)
+    exportRunTraceToOtlp(sampleRun('run-proto'))
+    await flushOtlpExporter()
+    expect(collector.requests).toHaveLength(1)
+    expect(collector.requests[0].headers['content-type']).toBe('application/x-protobuf')
+    expect(collector.requests[0].body.includes(Buffer.from('execute_tool Bash'))).toBe(true)
+  })
+})
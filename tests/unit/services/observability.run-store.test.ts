@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  _testOnly,
+  _testResetRunStore,
+  clearRunTraces,
+  endAgentRunObservationPhase,
+  finalizeAgentRunObservation,
+  getRunTrace,
+  listRunModels,
+  listRunTraces,
+  recordAgentRunToolEnd,
+  recordAgentRunToolStart,
+  startAgentRunObservation,
+  startAgentRunObservationPhase
+} from '../../../src/main/services/observability'
+import type { ToolCall } from '../../../src/main/services/agent/types'
+
+function runOnce(options: {
+  runId: string
+  spaceId: string
+  model: string
+  status?: 'completed' | 'error'
+  durationMs: number
+  tools?: Array<{ id: string; name: string; input: Record<string, unknown>; output: string; isError?: boolean; startMs: number; endMs?: number }>
+}): void {
+  vi.setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+  const startedAtMs = Date.now()
+  const handle = startAgentRunObservation({
+    sessionKey: `${options.spaceId}:conv-1`,
+    spaceId: options.spaceId,
+    conversationId: 'conv-1',
+    runId: options.runId,
+    mode: 'code',
+    message: 'hello',
+    responseLanguage: 'en',
+    imageCount: 0,
+    fileContextCount: 0,
+    aiBrowserEnabled: false,
+    thinkingEnabled: false
+  })
+  startAgentRunObservationPhase(handle, 'stream_loop', startedAtMs + 50)
+  endAgentRunObservationPhase(handle, 'stream_loop', { endAtMs: startedAtMs + options.durationMs })
+
+  const toolsById = new Map<string, ToolCall>()
+  for (const tool of options.tools || []) {
+    recordAgentRunToolStart(handle, tool, startedAtMs + tool.startMs)
+    if (tool.endMs !== undefined) {
+      recordAgentRunToolEnd(handle, { id: tool.id, output: tool.output, isError: tool.isError === true }, startedAtMs + tool.endMs)
+    }
+    toolsById.set(tool.id, {
+      id: tool.id,
+      name: tool.name,
+      input: tool.input,
+      status: tool.endMs === undefined ? 'running' : tool.isError ? 'error' : 'success'
+    })
+  }
+
+  vi.setSystemTime(startedAtMs + options.durationMs)
+  finalizeAgentRunObservation(handle, {
+    status: options.status || 'completed',
+    terminalReason: options.status || 'completed',
+    provider: 'anthropic',
+    model: options.model,
+    toolsById
+  })
+}
+
+describe('observability run store', () => {
+  beforeEach(() => {
+    _testOnly().reset()
+    vi.useFakeTimers()
+    return () => {
+      vi.useRealTimers()
+    }
+  })
+
+  it('stores phase and tool timings for finished runs', () => {
+    runOnce({
+      runId: 'run-1',
+      spaceId: 'space-1',
+      model: 'model-a',
+      durationMs: 4000,
+      tools: [
+        { id: 'tool-1', name: 'Bash', input: { command: 'npm test' }, output: 'ok', startMs: 500, endMs: 2500 },
+        { id: 'tool-2', name: 'Read', input: { path: 'missing.txt' }, output: 'ENOENT', isError: true, startMs: 2600, endMs: 2700 },
+        { id: 'tool-3', name: 'WebFetch', input: {}, output: '', startMs: 3000 }
+      ]
+    })
+
+    const trace = getRunTrace('run-1')
+    expect(trace).toMatchObject({ status: 'completed', model: 'model-a', durationMs: 4000 })
+    expect(trace?.phases.find(phase => phase.phase === 'stream_loop')).toEqual({
+      phase: 'stream_loop',
+      startOffsetMs: 50,
+      durationMs: 3950
+    })
+    expect(trace?.tools).toEqual([
+      expect.objectContaining({ id: 'tool-1', status: 'success', startOffsetMs: 500, durationMs: 2000, output: 'ok' }),
+      expect.objectContaining({ id: 'tool-2', status: 'error', durationMs: 100, error: 'ENOENT', output: undefined }),
+      expect.objectContaining({ id: 'tool-3', status: 'running', startOffsetMs: 3000, durationMs: undefined })
+    ])
+    expect(JSON.parse(trace!.tools[0].input)).toEqual({ command: 'npm test' })
+  })
+
+  it('filters and sorts runs and keeps them across restarts', () => {
+    runOnce({ runId: 'run-fast', spaceId: 'space-1', model: 'model-a', durationMs: 800 })
+    runOnce({ runId: 'run-slow', spaceId: 'space-1', model: 'model-b', durationMs: 9000, status: 'error' })
+    runOnce({ runId: 'run-other', spaceId: 'space-2', model: 'model-a', durationMs: 3000 })
+
+    _testResetRunStore()
+
+    expect(listRunTraces().map(run => run.runId)).toEqual(['run-other', 'run-slow', 'run-fast'])
+    expect(listRunTraces({ sort: 'slowest' }).map(run => run.runId)).toEqual(['run-slow', 'run-other', 'run-fast'])
+    expect(listRunTraces({ spaceId: 'space-1', model: 'model-a' }).map(run => run.runId)).toEqual(['run-fast'])
+    expect(listRunTraces({ status: 'error' }).map(run => run.runId)).toEqual(['run-slow'])
+    expect(listRunTraces({ limit: 1 })[0]).not.toHaveProperty('tools')
+    expect(listRunModels()).toEqual(['model-a', 'model-b'])
+
+    clearRunTraces()
+    _testResetRunStore()
+    expect(listRunTraces()).toEqual([])
+    expect(getRunTrace('run-fast')).toBeNull()
+  })
+})
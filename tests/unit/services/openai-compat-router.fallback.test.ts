@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { handleMessagesRequest } from '../../../src/main/openai-compat-router/server/request-handler'
+import { clearRequestQueues, generateQueueKey } from '../../../src/main/openai-compat-router/server/request-queue'
+import { clearCircuitBreakers, recordProviderFailure } from '../../../src/main/openai-compat-router/server/circuit-breaker'
+import { clearBackendAnswer, getLastBackendAnswer } from '../../../src/main/openai-compat-router/server/backend-answers'
+import type { BackendConfig } from '../../../src/main/openai-compat-router/types'
+
+const PRIMARY: BackendConfig = {
+  url: 'https://llm.example.com/v1/chat/completions',
+  key: 'sk-primary',
+  model: 'gpt-4.1',
+  profileId: 'primary',
+  profileName: 'Primary',
+  maxRetries: 0
+}
+
+const BACKUP: BackendConfig = {
+  url: 'https://api.anthropic.com',
+  key: 'sk-ant-backup',
+  model: 'claude-sonnet-4-5',
+  profileId: 'backup',
+  profileName: 'Backup',
+  protocol: 'anthropic',
+  maxRetries: 0
+}
+
+const ANTHROPIC_MESSAGE = {
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5',
+  content: [{ type: 'text', text: 'from backup' }],
+  stop_reason: 'end_turn',
+  usage: { input_tokens: 1, output_tokens: 1 }
+}
+
+function createResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    writableFinished: false,
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json(body: unknown) {
+      res.body = body
+      res.writableFinished = true
+      return res
+    },
+    setHeader() {},
+    on() {
+      return res
+    }
+  }
+  return res
+}
+
+function upstream(status: number, body: unknown) {
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status })
+}
+
+function request() {
+  return { model: 'claude', max_tokens: 16, messages: [{ role: 'user' as const, content: 'hi' }] }
+}
+
+describe('openai-compat router fallback chain', () => {
+  beforeEach(() => {
+    clearRequestQueues()
+    clearCircuitBreakers()
+    clearBackendAnswer('conv-1')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('moves to the next backend on an auth failure and records who answered', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(upstream(401, 'invalid key'))
+      .mockResolvedValueOnce(upstream(200, ANTHROPIC_MESSAGE))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const res = createResponse()
+    await handleMessagesRequest(request(), { ...PRIMARY, fallbacks: [BACKUP], tag: 'conv-1' }, res as any, {
+      anthropicHeaders: { 'anthropic-beta': 'tools-2024' }
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchMock.mock.calls[1]
+    expect(url).toBe('https://api.anthropic.com/v1/messages')
+    expect(init.headers).toMatchObject({
+      'x-api-key': 'sk-ant-backup',
+      'anthropic-version': '2023-06-01',
+      'anthropic-beta': 'tools-2024'
+    })
+    expect(JSON.parse(init.body).model).toBe('claude-sonnet-4-5')
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body).toEqual(ANTHROPIC_MESSAGE)
+    expect(getLastBackendAnswer('conv-1')).toMatchObject({ profileId: 'backup', chainIndex: 1 })
+  })
+
+  it('reports request errors from the primary without falling back', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(upstream(400, 'bad request'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const res = createResponse()
+    await handleMessagesRequest(request(), { ...PRIMARY, fallbacks: [BACKUP], tag: 'conv-1' }, res as any)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(res.statusCode).toBe(400)
+    expect(getLastBackendAnswer('conv-1')).toBeUndefined()
+  })
+
+  it('skips a degraded backend without waiting when a fallback is available', async () => {
+    for (let i = 0; i < 5; i++) {
+      recordProviderFailure(generateQueueKey(PRIMARY.url, PRIMARY.key), { backendUrl: PRIMARY.url, error: 'HTTP 503' })
+    }
+    const fetchMock = vi.fn().mockResolvedValueOnce(upstream(200, ANTHROPIC_MESSAGE))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const res = createResponse()
+    await handleMessagesRequest(request(), { ...PRIMARY, fallbacks: [BACKUP], tag: 'conv-1' }, res as any)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages')
+    expect(res.statusCode).toBe(200)
+  })
+})
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { handleMessagesRequest } from '../../../src/main/openai-compat-router/server/request-handler'
+import { clearRequestQueues, withRequestQueue } from '../../../src/main/openai-compat-router/server/request-queue'
+import {
+  computeBackoffDelay,
+  isConnectionError,
+  parseRetryAfter
+} from '../../../src/main/openai-compat-router/server/retry'
+import {
+  clearCircuitBreakers,
+  getCircuitDelay,
+  getProviderHealth,
+  onProviderHealthChange,
+  recordProviderFailure,
+  recordProviderSuccess
+} from '../../../src/main/openai-compat-router/server/circuit-breaker'
+import type { BackendConfig } from '../../../src/main/openai-compat-router/types'
+
+const BACKEND: BackendConfig = {
+  url: 'https://llm.example.com/v1/chat/completions',
+  key: 'sk-shared-team-key',
+  model: 'gpt-4.1',
+  profileId: 'team',
+  profileName: 'Team Key'
+}
+
+const CHAT_COMPLETION = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-4.1',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'hello' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+}
+
+function createResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    writableFinished: false,
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json(body: unknown) {
+      res.body = body
+      res.writableFinished = true
+      return res
+    },
+    setHeader() {},
+    on() {
+      return res
+    }
+  }
+  return res
+}
+
+function upstream(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers })
+}
+
+describe('openai-compat router resilience', () => {
+  beforeEach(() => {
+    clearRequestQueues()
+    clearCircuitBreakers()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('runs up to maxConcurrent requests per key at once', async () => {
+    let active = 0
+    let peak = 0
+    const task = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      active--
+    }
+
+    await Promise.all(Array.from({ length: 6 }, () => withRequestQueue('shared', task, 2)))
+
+    expect(peak).toBe(2)
+  })
+
+  it('parses Retry-After and backs off exponentially otherwise', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+
+    expect(computeBackoffDelay(0, undefined, () => 0.5)).toBe(1000)
+    expect(computeBackoffDelay(3, undefined, () => 0.5)).toBe(8000)
+    expect(computeBackoffDelay(3, 250)).toBe(250)
+
+    expect(isConnectionError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }))).toBe(true)
+    expect(isConnectionError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false)
+  })
+
+  it('retries 429 and 5xx responses honouring Retry-After', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(upstream(429, 'slow down', { 'retry-after': '0' }))
+      .mockResolvedValueOnce(upstream(503, 'overloaded', { 'retry-after': '0' }))
+      .mockResolvedValueOnce(upstream(200, CHAT_COMPLETION))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const res = createResponse()
+    await handleMessagesRequest(
+      { model: 'claude', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] },
+      BACKEND,
+      res as any
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(res.statusCode).toBe(200)
+    expect((res.body as { content: Array<{ text: string }> }).content[0].text).toBe('hello')
+    expect(getProviderHealth()).toEqual([])
+  })
+
+  it('returns the provider error once retries are exhausted', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => upstream(429, 'quota', { 'retry-after': '0' }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const res = createResponse()
+    await handleMessagesRequest(
+      { model: 'claude', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] },
+      { ...BACKEND, maxRetries: 1 },
+      res as any
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(res.statusCode).toBe(429)
+    expect(res.body).toMatchObject({ type: 'error', error: { type: 'rate_limit_error' } })
+  })
+
+  it('opens the circuit after repeated failures and reports recovery', () => {
+    const events: string[] = []
+    const unsubscribe = onProviderHealthChange(health => events.push(`${health.profileName}:${health.state}`))
+    const now = 1_000_000
+
+    for (let i = 0; i < 4; i++) {
+      recordProviderFailure('team-key', { backendUrl: BACKEND.url, profileName: 'Team Key', error: 'HTTP 503' }, now)
+    }
+    expect(getCircuitDelay('team-key', now)).toBe(0)
+
+    const opened = recordProviderFailure(
+      'team-key',
+      { backendUrl: BACKEND.url, profileName: 'Team Key', error: 'HTTP 503', retryAfterMs: 60_000 },
+      now
+    )
+    expect(opened.state).toBe('degraded')
+    expect(getCircuitDelay('team-key', now)).toBe(60_000)
+
+    // A failed probe after the cooldown reopens the breaker immediately
+    recordProviderFailure('team-key', { backendUrl: BACKEND.url, error: 'ECONNRESET' }, now + 60_000)
+    expect(getCircuitDelay('team-key', now + 60_000)).toBe(30_000)
+
+    recordProviderSuccess('team-key')
+    expect(getCircuitDelay('team-key')).toBe(0)
+    expect(events).toEqual(['Team Key:degraded', 'Team Key:degraded', 'Team Key:healthy'])
+    unsubscribe()
+  })
+})
@@ -54,7 +54,7 @@ function createSession(mode: 'plan' | 'code' = 'plan'): SessionState {
     toolCallSeq: 0,
     toolsById: new Map(),
     askUserQuestionModeByToolCallId: new Map(),
-    pendingPermissionResolve: null,
+    pendingToolApprovalsById: new Map(),
     pendingAskUserQuestionsById: new Map(),
     pendingAskUserQuestionOrder: [],
     pendingAskUserQuestionIdByToolCallId: new Map(),
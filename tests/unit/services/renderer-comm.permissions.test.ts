@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SessionState } from '../../../src/main/services/agent/types'
+import type { ScopedCommandRule } from '../../../src/shared/types/command-rules'
+
+const permissions = {
+  fileAccess: 'allow',
+  commandExecution: 'allow',
+  networkAccess: 'allow',
+  trustMode: false,
+  approvalTimeoutSeconds: 600
+}
+
+vi.mock('../../../src/main/services/config.service', () => ({
+  getConfig: vi.fn(() => ({ permissions }))
+}))
+
+const commandRules = vi.hoisted(() => ({
+  findMatchingCommandRule: vi.fn((): ScopedCommandRule | null => null),
+  addCommandRule: vi.fn()
+}))
+
+vi.mock('../../../src/main/services/command-rules.service', () => commandRules)
+
+vi.mock('../../../src/main/services/ai-browser', () => ({
+  isAIBrowserTool: vi.fn((toolName: string) => toolName.startsWith('browser_'))
+}))
+
+vi.mock('../../../src/main/http/websocket', () => ({
+  broadcastToWebSocket: vi.fn()
+}))
+
+vi.mock('../../../src/main/services/config-source-mode.service', () => ({
+  getLockedConfigSourceMode: vi.fn(() => 'kite'),
+  getLockedUserConfigRootDir: vi.fn(() => '/home/test/.kite')
+}))
+
+vi.mock('../../../src/main/services/agent/space-resource-policy.service', () => ({
+  getExecutionLayerAllowedSources: vi.fn(() => ['app', 'global', 'space', 'installed', 'plugin']),
+  getSpaceResourcePolicy: vi.fn(() => ({
+    version: 1,
+    mode: 'legacy',
+    allowedSources: ['app', 'global', 'space', 'installed', 'plugin']
+  })),
+  isStrictSpaceOnlyPolicy: vi.fn(() => false)
+}))
+
+import {
+  createCanUseTool,
+  isNetworkBashCommand
+} from '../../../src/main/services/agent/renderer-comm'
+import { takePendingToolApproval } from '../../../src/main/services/agent/tool-approval-queue'
+
+function createSession(): SessionState {
+  return {
+    abortController: new AbortController(),
+    spaceId: 'space-1',
+    conversationId: 'conversation-1',
+    runId: 'run-1',
+    mode: 'code',
+    startedAt: Date.now(),
+    latestAssistantContent: '',
+    lifecycle: 'running',
+    terminalReason: null,
+    terminalAt: null,
+    finalized: false,
+    toolCallSeq: 0,
+    toolsById: new Map(),
+    askUserQuestionModeByToolCallId: new Map(),
+    pendingToolApprovalsById: new Map(),
+    pendingAskUserQuestionsById: new Map(),
+    pendingAskUserQuestionOrder: [],
+    pendingAskUserQuestionIdByToolCallId: new Map(),
+    unmatchedAskUserQuestionToolCalls: new Map(),
+    askUserQuestionSeq: 0,
+    recentlyResolvedAskUserQuestionByToolCallId: new Map(),
+    askUserQuestionUsedInRun: false,
+    textClarificationFallbackUsedInConversation: false,
+    textClarificationDetectedInRun: false,
+    thoughts: [],
+    processTrace: []
+  }
+}
+
+function createHandler(session: SessionState) {
+  return createCanUseTool('/workspace/project', 'space-1', 'conversation-1', () => session, { mode: 'code' })
+}
+
+const signal = { signal: new AbortController().signal }
+
+describe('renderer-comm global permission settings', () => {
+  beforeEach(() => {
+    Object.assign(permissions, {
+      fileAccess: 'allow',
+      commandExecution: 'allow',
+      networkAccess: 'allow',
+      trustMode: false,
+      approvalTimeoutSeconds: 600
+    })
+    commandRules.findMatchingCommandRule.mockReset().mockReturnValue(null)
+    commandRules.addCommandRule.mockReset()
+  })
+
+  it('detects network-looking shell commands', () => {
+    expect(isNetworkBashCommand('curl -s https://example.com')).toBe(true)
+    expect(isNetworkBashCommand('cd repo && git pull --rebase')).toBe(true)
+    expect(isNetworkBashCommand('FOO=1 sudo npm install left-pad')).toBe(true)
+    expect(isNetworkBashCommand('echo $(wget -qO- example.com)')).toBe(true)
+    expect(isNetworkBashCommand('git status && npm run build')).toBe(false)
+    expect(isNetworkBashCommand('ls -la | grep curl')).toBe(false)
+  })
+
+  it('denies file edits and network tools when the settings are deny', async () => {
+    permissions.fileAccess = 'deny'
+    permissions.networkAccess = 'deny'
+    const canUseTool = createHandler(createSession())
+
+    const write = await canUseTool('Write', { file_path: 'notes.md', content: 'x' }, signal)
+    expect(write).toMatchObject({ behavior: 'deny', message: 'File modification is disabled' })
+
+    const fetch = await canUseTool('WebFetch', { url: 'https://example.com' }, signal)
+    expect(fetch).toMatchObject({ behavior: 'deny', message: 'Network access is disabled' })
+
+    const browser = await canUseTool('browser_navigate', { url: 'https://example.com' }, signal)
+    expect(browser.behavior).toBe('deny')
+
+    const bash = await canUseTool('Bash', { command: 'curl https://example.com' }, signal)
+    expect(bash).toMatchObject({ behavior: 'deny', message: 'Network access is disabled' })
+
+    // Reads inside the space and offline commands are unaffected
+    expect((await canUseTool('Read', { file_path: 'notes.md' }, signal)).behavior).toBe('allow')
+    expect((await canUseTool('Bash', { command: 'ls' }, signal)).behavior).toBe('allow')
+  })
+
+  it('asks for approval once per tool call and honours the answer', async () => {
+    permissions.fileAccess = 'ask'
+    const session = createSession()
+    const canUseTool = createHandler(session)
+
+    const pending = canUseTool('Edit', { file_path: 'notes.md', old_string: 'a', new_string: 'b' }, signal)
+    await Promise.resolve()
+    expect(session.pendingToolApprovalsById.size).toBe(1)
+    takePendingToolApproval(session)?.resolve(false)
+    expect(await pending).toMatchObject({ behavior: 'deny', message: 'User rejected file modification' })
+  })
+
+  it('skips approval prompts in trust mode', async () => {
+    permissions.networkAccess = 'ask'
+    permissions.trustMode = true
+    const session = createSession()
+    const canUseTool = createHandler(session)
+
+    const decision = await canUseTool('WebSearch', { query: 'kite' }, signal)
+    expect(decision.behavior).toBe('allow')
+    expect(session.pendingToolApprovalsById.size).toBe(0)
+  })
+
+  it('answers Bash prompts from saved command rules', async () => {
+    permissions.commandExecution = 'ask'
+    const session = createSession()
+    const canUseTool = createHandler(session)
+    const saved: ScopedCommandRule = {
+      id: 'rule-1',
+      scope: 'space',
+      match: 'prefix',
+      pattern: 'npm test',
+      action: 'allow',
+      createdAt: '2026-01-01T00:00:00.000Z'
+    }
+
+    commandRules.findMatchingCommandRule.mockReturnValue(saved)
+    expect((await canUseTool('Bash', { command: 'npm test' }, signal)).behavior).toBe('allow')
+    expect(session.pendingToolApprovalsById.size).toBe(0)
+
+    commandRules.findMatchingCommandRule.mockReturnValue({ ...saved, action: 'deny' })
+    expect(await canUseTool('Bash', { command: 'npm test' }, signal))
+      .toMatchObject({ behavior: 'deny', message: 'Command denied by a saved rule' })
+
+    // A global deny setting still wins over an allow rule
+    permissions.commandExecution = 'deny'
+    commandRules.findMatchingCommandRule.mockReturnValue(saved)
+    expect((await canUseTool('Bash', { command: 'npm test' }, signal)).behavior).toBe('deny')
+  })
+
+  it('still asks for network access when a command rule allows the command', async () => {
+    permissions.commandExecution = 'ask'
+    permissions.networkAccess = 'ask'
+    const session = createSession()
+    const canUseTool = createHandler(session)
+    commandRules.findMatchingCommandRule.mockReturnValue({
+      id: 'rule-1',
+      scope: 'global',
+      match: 'prefix',
+      pattern: 'git',
+      action: 'allow',
+      createdAt: '2026-01-01T00:00:00.000Z'
+    })
+
+    expect((await canUseTool('Bash', { command: 'git status' }, signal)).behavior).toBe('allow')
+    expect(session.pendingToolApprovalsById.size).toBe(0)
+
+    const pending = canUseTool('Bash', { command: 'git push origin main' }, signal)
+    await Promise.resolve()
+    expect(session.pendingToolApprovalsById.size).toBe(1)
+    takePendingToolApproval(session)?.resolve(false)
+    expect(await pending).toMatchObject({ behavior: 'deny', message: 'User rejected network access' })
+  })
+
+  it('saves a rule when the user asks to remember the answer', async () => {
+    permissions.commandExecution = 'ask'
+    const session = createSession()
+    const canUseTool = createHandler(session)
+
+    const pending = canUseTool('Bash', { command: 'npm run lint' }, signal)
+    await Promise.resolve()
+    takePendingToolApproval(session)?.resolve(true, { match: 'prefix', scope: 'global', pattern: 'npm run' })
+
+    expect((await pending).behavior).toBe('allow')
+    expect(commandRules.addCommandRule).toHaveBeenCalledWith(
+      'npm run lint',
+      'allow',
+      { match: 'prefix', scope: 'global', pattern: 'npm run' },
+      '/workspace/project'
+    )
+  })
+
+  it('queues parallel approvals by tool use id', async () => {
+    permissions.commandExecution = 'ask'
+    const session = createSession()
+    const canUseTool = createHandler(session)
+
+    const first = canUseTool('Bash', { command: 'npm test' }, { ...signal, toolUseID: 'toolu_1' })
+    const second = canUseTool('Bash', { command: 'npm run build' }, { ...signal, toolUseID: 'toolu_2' })
+    await Promise.resolve()
+    expect(Array.from(session.pendingToolApprovalsById.keys())).toEqual(['toolu_1', 'toolu_2'])
+
+    takePendingToolApproval(session, 'toolu_2')?.resolve(false)
+    expect(await second).toMatchObject({ behavior: 'deny', message: 'User rejected command execution' })
+    takePendingToolApproval(session, 'toolu_1')?.resolve(true)
+    expect((await first).behavior).toBe('allow')
+  })
+
+  it('auto-denies approvals that stay unanswered past the timeout', async () => {
+    vi.useFakeTimers()
+    try {
+      permissions.commandExecution = 'ask'
+      permissions.approvalTimeoutSeconds = 30
+      const session = createSession()
+      const canUseTool = createHandler(session)
+
+      const pending = canUseTool('Bash', { command: 'npm test' }, { ...signal, toolUseID: 'toolu_1' })
+      await Promise.resolve()
+      vi.advanceTimersByTime(30_000)
+
+      expect(await pending).toMatchObject({
+        behavior: 'deny',
+        message: 'Approval request timed out after 30 seconds without a response'
+      })
+      expect(session.pendingToolApprovalsById.size).toBe(0)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+const spaces = vi.hoisted(() => new Map<string, { id: string; name: string; path: string; isTemp: boolean }>())
+
+vi.mock('../../../src/main/services/space.service', () => ({
+  getSpace: (spaceId: string) => spaces.get(spaceId) ?? null,
+  listSpaces: () => Array.from(spaces.values()).filter(space => !space.isTemp)
+}))
+
+import { getTempSpacePath } from '../../../src/main/services/config.service'
+import {
+  addMessage,
+  createConversation,
+  deleteConversation,
+  updateLastMessage
+} from '../../../src/main/services/conversation.service'
+import {
+  _testResetSearchIndex,
+  flushSearchIndex,
+  querySearchIndex
+} from '../../../src/main/services/search-index.service'
+import { SearchService } from '../../../src/main/services/search.service'
+import { parseSearchQuery } from '../../../src/shared/utils/search-query'
+
+function addSpace(id: string, name: string): string {
+  const path = join(globalThis.__KITE_TEST_DIR__, 'kite', name)
+  mkdirSync(join(path, '.kite', 'conversations'), { recursive: true })
+  spaces.set(id, { id, name, path, isTemp: false })
+  return path
+}
+
+describe('search-index.service', () => {
+  beforeEach(() => {
+    _testResetSearchIndex()
+    spaces.clear()
+    spaces.set('kite-temp', { id: 'kite-temp', name: 'Kite', path: getTempSpacePath(), isTemp: true })
+  })
+
+  it('keeps the index in step with conversation writes', async () => {
+    addSpace('space-1', 'Webapp')
+    const service = new SearchService()
+    const conversation = createConversation('space-1')
+    addMessage('space-1', conversation.id, { role: 'user', content: 'How do I rotate the deploy keys?' })
+    addMessage('space-1', conversation.id, { role: 'assistant', content: '' })
+
+    expect(await service.search('rotate', 'global')).toHaveLength(1)
+
+    updateLastMessage('space-1', conversation.id, {
+      content: 'Run the rotate-keys script, then redeploy.',
+      toolCalls: [{ id: 't1', name: 'Bash', status: 'success', input: {} }]
+    })
+
+    const results = await service.search('rotat', 'space', undefined, 'space-1')
+    expect(results.map(result => result.messageRole).sort()).toEqual(['assistant', 'user'])
+    expect(results.find(result => result.messageRole === 'assistant')).toMatchObject({
+      spaceName: 'Webapp',
+      matchText: 'rotat',
+      contextAfter: 'e-keys script, then redeploy.'
+    })
+    expect(await service.search('tool:bash', 'global')).toHaveLength(1)
+    expect(await service.search('role:user keys', 'global')).toHaveLength(1)
+
+    deleteConversation('space-1', conversation.id)
+    expect(await service.search('rotate', 'global')).toEqual([])
+  })
+
+  it('indexes conversations written while the app was not running and persists the index', async () => {
+    const spacePath = addSpace('space-1', 'Webapp')
+    writeFileSync(join(spacePath, '.kite', 'conversations', 'c1.json'), JSON.stringify({
+      id: 'c1',
+      spaceId: 'space-1',
+      title: 'Old chat',
+      messages: [
+        { id: 'm1', role: 'user', content: 'The flaky checkout test times out', timestamp: '2026-01-10T10:00:00.000Z' },
+        { id: 'm2', role: 'assistant', content: 'Timeout raised to 30s in checkout.spec', timestamp: '2026-01-10T10:01:00.000Z' }
+      ]
+    }))
+    const progress = vi.fn()
+
+    const results = await new SearchService().search('checkout', 'global', undefined, undefined, progress)
+    expect(results).toHaveLength(2)
+    expect(progress).toHaveBeenCalledWith(1, 1)
+
+    flushSearchIndex()
+    _testResetSearchIndex()
+    expect(querySearchIndex(parseSearchQuery('flaky')).map(candidate => candidate.messageId)).toEqual(['m1'])
+  })
+
+  it('ranks by relevance and recency and applies date, phrase and regex filters', async () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const cutoff = daysAgo(200)
+    const cutoffDate = `${cutoff.getFullYear()}-${String(cutoff.getMonth() + 1).padStart(2, '0')}-${String(cutoff.getDate()).padStart(2, '0')}`
+    const spacePath = addSpace('space-1', 'Webapp')
+    writeFileSync(join(spacePath, '.kite', 'conversations', 'c1.json'), JSON.stringify({
+      id: 'c1',
+      spaceId: 'space-1',
+      title: 'Migrations',
+      messages: [
+        { id: 'old', role: 'user', content: 'migration failed on staging', timestamp: daysAgo(400).toISOString() },
+        { id: 'new', role: 'user', content: 'migration failed again on prod', timestamp: daysAgo(1).toISOString() },
+        { id: 'many', role: 'assistant', content: 'migration migration migration rollback', timestamp: daysAgo(400).toISOString() }
+      ]
+    }))
+    const service = new SearchService()
+
+    const ranked = await service.search('migration', 'global')
+    expect(ranked.map(result => result.messageId)).toEqual(['new', 'many', 'old'])
+    expect(ranked[1].matchCount).toBe(3)
+
+    expect((await service.search(`migration before:${cutoffDate}`, 'global')).map(r => r.messageId).sort()).toEqual(['many', 'old'])
+    expect((await service.search('"failed again"', 'global')).map(r => r.messageId)).toEqual(['new'])
+    expect((await service.search('/on (staging|prod)$/', 'global')).map(r => r.messageId).sort()).toEqual(['new', 'old'])
+    expect((await service.search('migration space:other', 'global'))).toEqual([])
+    await expect(service.search('after:yesterday', 'global')).rejects.toThrow('Invalid date')
+  })
+})
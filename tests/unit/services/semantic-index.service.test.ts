@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+const spaces = vi.hoisted(() => new Map<string, { id: string; name: string; path: string; isTemp: boolean }>())
+
+vi.mock('../../../src/main/services/space.service', () => ({
+  getSpace: (spaceId: string) => spaces.get(spaceId) ?? null,
+  listSpaces: () => Array.from(spaces.values()).filter(space => !space.isTemp)
+}))
+
+import { saveConfig } from '../../../src/main/services/config.service'
+import { addMessage, createConversation } from '../../../src/main/services/conversation.service'
+import {
+  createLocalEmbeddingProvider,
+  createProfileEmbeddingProvider,
+  embedLocally,
+  resolveEmbeddingsUrl,
+  type EmbeddingProvider
+} from '../../../src/main/services/embedding.service'
+import {
+  _testResetSemanticIndex,
+  chunkText,
+  querySemanticIndex,
+  refreshSemanticIndex,
+  semanticSearch
+} from '../../../src/main/services/semantic-index.service'
+import type { ApiProfile } from '../../../src/shared/types/ai-profile'
+
+function addSpace(id: string, name: string): string {
+  const path = join(globalThis.__KITE_TEST_DIR__, 'kite', name)
+  mkdirSync(join(path, '.kite', 'conversations'), { recursive: true })
+  spaces.set(id, { id, name, path, isTemp: false })
+  return path
+}
+
+function countingProvider(id: string): EmbeddingProvider & { calls: string[][] } {
+  const local = createLocalEmbeddingProvider()
+  const calls: string[][] = []
+  return {
+    id,
+    calls,
+    embed: async (texts) => {
+      calls.push(texts)
+      return local.embed(texts)
+    }
+  }
+}
+
+describe('semantic-index.service', () => {
+  beforeEach(() => {
+    _testResetSemanticIndex()
+    spaces.clear()
+  })
+
+  it('splits long text into overlapping chunks', () => {
+    expect(chunkText('short note')).toEqual(['short note'])
+    expect(chunkText('   ')).toEqual([])
+
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ${'word '.repeat(60)}`.trim())
+    const chunks = chunkText(paragraphs.join('\n\n'), 700, 100)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every(chunk => chunk.length <= 700)).toBe(true)
+    expect(chunks[0].startsWith('Paragraph 0')).toBe(true)
+    expect(chunks[chunks.length - 1]).toContain('Paragraph 5')
+  })
+
+  it('ranks related text above unrelated text with the local provider', () => {
+    const query = embedLocally('database migration failed')
+    const related = embedLocally('The migrations for the database are failing on startup')
+    const unrelated = embedLocally('Pick a warmer colour palette for the landing page')
+    const dot = (a: Float32Array, b: Float32Array) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated))
+  })
+
+  it('indexes messages and text artifacts, re-embedding only what changed', async () => {
+    const spacePath = addSpace('space-1', 'Webapp')
+    writeFileSync(join(spacePath, 'deploy-notes.md'), '# Deploying\n\nRotate the signing keys before each release.')
+    writeFileSync(join(spacePath, 'logo.png'), 'not really a png')
+    const conversation = createConversation('space-1')
+    addMessage('space-1', conversation.id, { role: 'user', content: 'Why does the database migration fail on startup?' })
+    addMessage('space-1', conversation.id, { role: 'assistant', content: 'Pick a warmer colour palette.' })
+
+    const provider = countingProvider('test-1')
+    await refreshSemanticIndex('space-1', provider)
+    expect(provider.calls.flat()).toHaveLength(3)
+    expect(existsSync(join(spacePath, '.kite', 'semantic-index.json'))).toBe(true)
+
+    const hits = await querySemanticIndex('database migrations failing', provider, { spaceIds: ['space-1'] })
+    expect(hits[0]).toMatchObject({
+      kind: 'message',
+      spaceName: 'Webapp',
+      conversationId: conversation.id,
+      messageRole: 'user'
+    })
+    const artifactHits = await querySemanticIndex('signing keys', provider, { spaceIds: ['space-1'], kinds: ['artifact'] })
+    expect(artifactHits).toHaveLength(1)
+    expect(artifactHits[0]).toMatchObject({ artifactName: 'deploy-notes.md' })
+
+    // Unchanged sources are not embedded again, even after a reload from disk
+    _testResetSemanticIndex()
+    provider.calls.length = 0
+    await refreshSemanticIndex('space-1', provider)
+    expect(provider.calls).toEqual([])
+
+    // A different provider's vectors are not comparable, so everything is rebuilt
+    const otherProvider = countingProvider('test-2')
+    await refreshSemanticIndex('space-1', otherProvider)
+    expect(otherProvider.calls.flat()).toHaveLength(3)
+  })
+
+  it('refuses to search while turned off', async () => {
+    addSpace('space-1', 'Webapp')
+    await expect(semanticSearch('anything', { spaceIds: ['space-1'] })).rejects.toThrow('turned off')
+
+    saveConfig({ semanticSearch: { enabled: true, provider: 'local' } })
+    await expect(semanticSearch('anything', { spaceIds: ['space-1'] })).resolves.toEqual([])
+  })
+
+  it('calls the /embeddings endpoint next to a profile URL', async () => {
+    expect(resolveEmbeddingsUrl('https://api.example.com/v1/chat/completions')).toBe('https://api.example.com/v1/embeddings')
+    expect(resolveEmbeddingsUrl('https://api.example.com/v1/')).toBe('https://api.example.com/v1/embeddings')
+
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }]
+    })))
+    const profile = { id: 'p1', apiUrl: 'https://api.example.com/v1/chat/completions', apiKey: 'sk-test' } as ApiProfile
+    const provider = createProfileEmbeddingProvider(profile, 'embed-small', fetchImpl as unknown as typeof fetch)
+
+    const [first, second] = await provider.embed(['a', 'b'])
+    expect(Array.from(first)).toEqual([0.6, 0.8].map(value => Math.fround(value)))
+    expect(Array.from(second)).toEqual([0, 1])
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.example.com/v1/embeddings', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ model: 'embed-small', input: ['a', 'b'] })
+    }))
+  })
+})
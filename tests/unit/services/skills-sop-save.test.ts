@@ -132,6 +132,51 @@ describe('saveSopSkill', () => {
     expect((content.match(/## SOP_SPEC_JSON_BEGIN/g) || []).length).toBe(1)
   })
 
+  it('documents declared and referenced parameters in the skill', () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-sop-params-'))
+    tempDirs.push(workDir)
+    vi.mocked(getAllSpacePaths).mockReturnValue([workDir])
+
+    const sopSpec = {
+      version: '1.0',
+      name: 'expense-report',
+      steps: [
+        {
+          id: 'step-1',
+          action: 'fill' as const,
+          target: { role: 'textbox', label: 'Amount' },
+          value: '{{amount}}',
+          retries: 3,
+        },
+        {
+          id: 'step-2',
+          action: 'fill' as const,
+          target: { role: 'textbox', label: 'Password' },
+          value: '{{secret_value}}',
+          retries: 3,
+        },
+      ],
+      parameters: [{ name: 'amount', type: 'number' as const, label: 'Amount', default: '42' }],
+    }
+    saveSopSkill({ workDir, skillName: 'expense-report', sopSpec })
+
+    const content = readSkillFile(workDir, 'expense-report')
+    expect(content).toContain('## Parameters')
+    expect(content).toContain('- `amount` (number) - Amount (default: `42`)')
+    expect(content).toContain('- `secret_value` (string, secret)')
+    expect(content).toContain('"secret": true')
+
+    saveSopSkill({
+      workDir,
+      skillName: 'expense-report',
+      sopSpec: { ...sopSpec, steps: sopSpec.steps.slice(0, 1), parameters: [] },
+    })
+    const updated = readSkillFile(workDir, 'expense-report')
+    expect((updated.match(/## Parameters/g) || []).length).toBe(1)
+    expect(updated).not.toContain('secret_value')
+    expect(updated).toContain('- `amount` (string)')
+  })
+
   it('falls back to full template rebuild when existing skill has no marker block', () => {
     const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-sop-fallback-'))
     tempDirs.push(workDir)
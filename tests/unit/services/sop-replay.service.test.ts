@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('electron', () => ({
+  BrowserView: class {},
+  BrowserWindow: class {},
+}))
+
+import {
+  applySopVariables,
+  resolveSopTarget,
+  runSopReplay,
+  type SopReplayDriver,
+} from '../../../src/main/services/sop-replay.service'
+import type { SopSpec } from '../../../src/main/services/browser-view.service'
+import type { AccessibilityNode, AccessibilitySnapshot } from '../../../src/main/services/ai-browser/types'
+
+function node(uid: string, role: string, name: string, children: AccessibilityNode[] = []): AccessibilityNode {
+  return { uid, role, name, children, backendNodeId: Number(uid.replace(/\D/g, '')) || 0 }
+}
+
+function snapshotOf(children: AccessibilityNode[], text = ''): AccessibilitySnapshot {
+  return {
+    root: node('n0', 'RootWebArea', 'Login', children),
+    snapshotId: 's1',
+    timestamp: 0,
+    url: 'https://example.com/login',
+    title: 'Login',
+    idToNode: new Map(),
+    format: () => `${children.map(child => `${child.role} "${child.name}"`).join('\n')}\n${text}`,
+  }
+}
+
+const loginPage = snapshotOf([
+  node('n1', 'heading', 'Sign in'),
+  node('n2', 'textbox', 'Email address'),
+  node('n3', 'textbox', 'Password'),
+  node('n4', 'button', 'Sign in'),
+])
+
+function createDriver(overrides: Partial<SopReplayDriver> = {}) {
+  const calls: string[] = []
+  const driver: SopReplayDriver = {
+    snapshot: async () => loginPage,
+    navigate: async (url) => { calls.push(`navigate ${url}`) },
+    click: async (target) => { calls.push(`click ${target.uid}`) },
+    fill: async (target, value) => { calls.push(`fill ${target.uid} ${value}`) },
+    select: async (target, value) => { calls.push(`select ${target.uid} ${value}`) },
+    focus: async (target) => { calls.push(`focus ${target.uid}`) },
+    pressKey: async (key) => { calls.push(`press ${key}`) },
+    currentUrl: () => 'https://example.com/login',
+    screenshot: async () => 'data:image/jpeg;base64,AAAA',
+    ...overrides,
+  }
+  return { driver, calls }
+}
+
+function spec(steps: SopSpec['steps']): SopSpec {
+  return { version: '1.0', name: 'login', steps }
+}
+
+describe('sop-replay.service', () => {
+  it('resolves recorded targets by role and accessible name', () => {
+    expect(resolveSopTarget(loginPage, { role: 'button', text: 'Sign in' })?.uid).toBe('n4')
+    expect(resolveSopTarget(loginPage, { role: 'textbox', label: 'Email' })?.uid).toBe('n2')
+    expect(resolveSopTarget(loginPage, { role: 'textbox', name: 'Password', text: 'hunter2' })?.uid).toBe('n3')
+    expect(resolveSopTarget(loginPage, { role: 'button', text: 'Create account' })).toBeNull()
+  })
+
+  it('fills placeholders and reports missing variables', () => {
+    expect(applySopVariables('{{ user }}@example.com', { user: 'alice' })).toEqual({
+      value: 'alice@example.com',
+      missing: [],
+    })
+    expect(applySopVariables('{{password}}', {}).missing).toEqual(['password'])
+  })
+
+  it('runs every step and reports each with a screenshot', async () => {
+    const { driver, calls } = createDriver()
+    const onStep = vi.fn()
+
+    const result = await runSopReplay('view-1', spec([
+      { id: 's1', action: 'navigate', value: 'https://example.com/login', retries: 1 },
+      { id: 's2', action: 'fill', target: { role: 'textbox', label: 'Email address' }, value: '{{email}}', retries: 1 },
+      { id: 's3', action: 'click', target: { role: 'button', text: 'Sign in' }, assertion: 'login', retries: 1 },
+    ]), driver, { variables: { email: 'alice@example.com' }, onStep })
+
+    expect(result.status).toBe('passed')
+    expect(calls).toEqual(['navigate https://example.com/login', 'fill n2 alice@example.com', 'click n4'])
+    expect(result.steps.map(step => step.status)).toEqual(['passed', 'passed', 'passed'])
+    expect(result.steps[2]).toMatchObject({ resolvedTo: 'button "Sign in"', screenshot: 'data:image/jpeg;base64,AAAA' })
+    expect(onStep).toHaveBeenCalledTimes(3)
+  })
+
+  it('uses declared parameter defaults for values not provided', async () => {
+    const { driver, calls } = createDriver()
+
+    const result = await runSopReplay('view-1', {
+      ...spec([
+        { id: 's1', action: 'fill', target: { role: 'textbox', label: 'Email address' }, value: '{{email}}', retries: 1 },
+      ]),
+      parameters: [{ name: 'email', type: 'email', default: 'team@example.com' }],
+    }, driver)
+
+    expect(result.status).toBe('passed')
+    expect(calls).toEqual(['fill n2 team@example.com'])
+  })
+
+  it('retries a failing step before giving up', async () => {
+    let failures = 1
+    const { driver } = createDriver({
+      click: async () => {
+        if (failures-- > 0) throw new Error('Element is not clickable')
+      },
+    })
+
+    const result = await runSopReplay('view-1', spec([
+      { id: 's1', action: 'click', target: { role: 'button', text: 'Sign in' }, retries: 2 },
+    ]), driver)
+
+    expect(result.steps[0]).toMatchObject({ status: 'passed', attempts: 2 })
+  })
+
+  it('hands off to the agent when a target cannot be resolved', async () => {
+    const { driver, calls } = createDriver()
+
+    const result = await runSopReplay('view-1', spec([
+      { id: 's1', action: 'click', target: { role: 'link', text: 'Forgot password?' }, retries: 1 },
+      { id: 's2', action: 'click', target: { role: 'button', text: 'Sign in' }, retries: 1 },
+    ]), driver)
+
+    expect(result.status).toBe('needs_agent')
+    expect(result.steps.map(step => step.status)).toEqual(['unresolved', 'skipped'])
+    expect(result.handoffIndex).toBe(0)
+    expect(result.handoffPrompt).toContain('Forgot password?')
+    expect(calls).toEqual([])
+  })
+
+  it('stops at a failed step without asking the agent', async () => {
+    const { driver } = createDriver({
+      navigate: async () => { throw new Error('net::ERR_NAME_NOT_RESOLVED') },
+    })
+
+    const result = await runSopReplay('view-1', spec([
+      { id: 's1', action: 'navigate', value: 'https://missing.invalid', retries: 1 },
+      { id: 's2', action: 'click', target: { role: 'button', text: 'Sign in' }, retries: 1 },
+    ]), driver)
+
+    expect(result.status).toBe('failed')
+    expect(result.steps[0].error).toContain('ERR_NAME_NOT_RESOLVED')
+    expect(result.steps[1].status).toBe('skipped')
+    expect(result.handoffPrompt).toBeUndefined()
+  })
+})
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+import { initializeApp } from '../../../src/main/services/config.service'
+import { _testInitConfigSourceModeLock } from '../../../src/main/services/config-source-mode.service'
+import { createSpace } from '../../../src/main/services/space.service'
+import { createSkill } from '../../../src/main/services/skills.service'
+import { createAgent } from '../../../src/main/services/agents.service'
+import { createCommand } from '../../../src/main/services/commands.service'
+import { createWorkflow, getWorkflow } from '../../../src/main/services/workflow.service'
+import {
+  exportWorkflowBundle,
+  importWorkflowBundle,
+  parseWorkflowBundle,
+  previewWorkflowImport
+} from '../../../src/main/services/workflow-bundle.service'
+
+const SKILL_CONTENT = '---\nname: review\ndescription: Review code\nexposure: public\n---\nReview the diff.\n'
+const AGENT_CONTENT = '---\nname: fixer\ndescription: Fix issues\nexposure: public\n---\nFix what the review found.\n'
+const COMMAND_CONTENT = '---\ndescription: Ship it\n---\nRun the release.\n'
+
+function createSourceWorkflow() {
+  const source = createSpace({ name: 'Bundle Source', icon: 'folder' })
+  createSkill(source.path, 'review', SKILL_CONTENT)
+  createAgent(source.path, 'fixer', AGENT_CONTENT)
+  createCommand(source.path, 'ship', COMMAND_CONTENT)
+  const workflow = createWorkflow(source.id, {
+    spaceId: source.id,
+    name: 'review-and-ship',
+    steps: [
+      { id: 'step-1', type: 'skill', name: 'review' },
+      {
+        id: 'step-2',
+        type: 'parallel',
+        parallel: {
+          branches: [
+            { id: 'b1', type: 'agent', name: 'fixer' },
+            { id: 'b2', type: 'skill', name: 'review', args: 'again' }
+          ]
+        }
+      },
+      { id: 'step-3', type: 'command', name: 'ship' }
+    ],
+    triggers: [{ id: 'nightly', type: 'schedule', cron: '0 2 * * *' }]
+  })
+  return { source, workflow }
+}
+
+describe('workflow bundle service', () => {
+  beforeEach(async () => {
+    await initializeApp()
+    _testInitConfigSourceModeLock('kite')
+  })
+
+  it('exports the workflow with each referenced resource once', () => {
+    const { source, workflow } = createSourceWorkflow()
+
+    const { bundle, fileName, missing } = exportWorkflowBundle(source.id, workflow.id)
+
+    expect(fileName).toBe('review-and-ship.kite-workflow.json')
+    expect(missing).toEqual([])
+    expect(bundle.workflow.steps).toHaveLength(3)
+    expect(bundle.resources).toEqual([
+      { type: 'skill', name: 'review', content: SKILL_CONTENT },
+      { type: 'agent', name: 'fixer', content: AGENT_CONTENT },
+      { type: 'command', name: 'ship', content: COMMAND_CONTENT }
+    ])
+    expect(parseWorkflowBundle(JSON.stringify(bundle))).toEqual(bundle)
+  })
+
+  it('previews conflicts and requires a resolution for each one', () => {
+    const { source, workflow } = createSourceWorkflow()
+    const { bundle } = exportWorkflowBundle(source.id, workflow.id)
+
+    const target = createSpace({ name: 'Bundle Target', icon: 'folder' })
+    createSkill(target.path, 'review', '---\nname: review\n---\nA different review.\n')
+    createAgent(target.path, 'fixer', AGENT_CONTENT)
+
+    const preview = previewWorkflowImport(target.id, bundle)
+    expect(preview.workflowName).toBe('review-and-ship')
+    expect(preview.unresolved).toEqual([])
+    expect(preview.resources.map(resource => [resource.key, resource.status, resource.renameTo])).toEqual([
+      ['skill:review', 'conflict', 'review-imported'],
+      ['agent:fixer', 'identical', undefined],
+      ['command:ship', 'new', undefined]
+    ])
+
+    expect(() => importWorkflowBundle(target.id, bundle)).toThrow('Choose overwrite, rename or skip for: skill:review')
+  })
+
+  it('installs renamed resources and rewrites step references', () => {
+    const { source, workflow } = createSourceWorkflow()
+    const { bundle } = exportWorkflowBundle(source.id, workflow.id)
+    const target = createSpace({ name: 'Bundle Rename', icon: 'folder' })
+    createSkill(target.path, 'review', '---\nname: review\n---\nA different review.\n')
+
+    const result = importWorkflowBundle(target.id, bundle, { 'skill:review': 'rename' })
+
+    expect(result.resources.map(resource => `${resource.key}:${resource.action}:${resource.name}`)).toEqual([
+      'skill:review:renamed:review-imported',
+      'agent:fixer:created:fixer',
+      'command:ship:created:ship'
+    ])
+    const imported = getWorkflow(target.id, result.workflow.id)!
+    expect(imported.steps[0].name).toBe('review-imported')
+    expect(imported.steps[1].parallel?.branches.map(branch => branch.name)).toEqual(['fixer', 'review-imported'])
+    expect(imported.triggers).toEqual([{ id: 'nightly', type: 'schedule', cron: '0 2 * * *', enabled: false }])
+    expect(fs.readFileSync(path.join(target.path, '.claude', 'skills', 'review-imported', 'SKILL.md'), 'utf-8'))
+      .toBe(SKILL_CONTENT)
+    expect(fs.readFileSync(path.join(target.path, '.claude', 'skills', 'review', 'SKILL.md'), 'utf-8'))
+      .toContain('A different review.')
+  })
+
+  it('overwrites or keeps existing resources on request', () => {
+    const { source, workflow } = createSourceWorkflow()
+    const { bundle } = exportWorkflowBundle(source.id, workflow.id)
+    const target = createSpace({ name: 'Bundle Overwrite', icon: 'folder' })
+    createSkill(target.path, 'review', '---\nname: review\n---\nOld review.\n')
+    createCommand(target.path, 'ship', 'Old ship.\n')
+
+    const result = importWorkflowBundle(target.id, bundle, { 'skill:review': 'overwrite', 'command:ship': 'skip' })
+
+    expect(result.resources.map(resource => resource.action)).toEqual(['overwritten', 'created', 'kept'])
+    expect(fs.readFileSync(path.join(target.path, '.claude', 'skills', 'review', 'SKILL.md'), 'utf-8')).toBe(SKILL_CONTENT)
+    expect(fs.readFileSync(path.join(target.path, '.claude', 'commands', 'ship.md'), 'utf-8')).toBe('Old ship.\n')
+    expect(getWorkflow(target.id, result.workflow.id)?.steps[2].name).toBe('ship')
+  })
+
+  it('rejects files that are not workflow bundles', () => {
+    expect(() => parseWorkflowBundle({ format: 'something-else' })).toThrow('unrecognized format')
+    expect(() => parseWorkflowBundle({
+      format: 'kite-workflow-bundle',
+      version: 1,
+      workflow: { name: 'x', steps: [] },
+      resources: [{ type: 'skill', name: '../escape', content: '' }]
+    })).toThrow('bad resource entry')
+  })
+})
@@ -0,0 +1,403 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+const { mockSendWorkflowStepMessage, mockStopGeneration } = vi.hoisted(() => ({
+  mockSendWorkflowStepMessage: vi.fn(),
+  mockStopGeneration: vi.fn()
+}))
+
+vi.mock('../../../src/main/controllers/agent.controller', () => ({
+  sendWorkflowStepMessage: (...args: unknown[]) => mockSendWorkflowStepMessage(...args),
+  stopGeneration: (...args: unknown[]) => mockStopGeneration(...args)
+}))
+
+vi.mock('../../../src/main/services/agent/renderer-comm', () => ({
+  getMainWindow: () => null
+}))
+
+vi.mock('../../../src/main/http/websocket', () => ({
+  broadcastToAll: vi.fn()
+}))
+
+import { getConfig, initializeApp, saveConfig } from '../../../src/main/services/config.service'
+import { acquireSendDispatchSlot, getDispatchQueueStats } from '../../../src/main/services/agent/dispatch-throttle.service'
+import { _testInitConfigSourceModeLock } from '../../../src/main/services/config-source-mode.service'
+import { createSpace } from '../../../src/main/services/space.service'
+import { addMessage, getConversation } from '../../../src/main/services/conversation.service'
+import { createWorkflow, getWorkflow } from '../../../src/main/services/workflow.service'
+import {
+  getWorkflowRun,
+  listWorkflowRuns,
+  recoverInterruptedWorkflowRuns,
+  resumeWorkflowRun,
+  startWorkflowRun,
+  type WorkflowRun
+} from '../../../src/main/services/workflow-runner.service'
+
+async function waitForRun(spaceId: string, runId: string, attempts = 100): Promise<WorkflowRun> {
+  for (let i = 0; i < attempts; i++) {
+    const run = getWorkflowRun(spaceId, runId)
+    if (run && run.status !== 'running') return run
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+  throw new Error('Workflow run did not finish')
+}
+
+describe('workflow runner service', () => {
+  beforeEach(async () => {
+    await initializeApp()
+    _testInitConfigSourceModeLock('kite')
+    mockSendWorkflowStepMessage.mockReset()
+    mockStopGeneration.mockReset()
+    mockSendWorkflowStepMessage.mockImplementation(async (_window: unknown, request: {
+      spaceId: string
+      conversationId: string
+      message: string
+    }) => {
+      addMessage(request.spaceId, request.conversationId, { role: 'user', content: request.message })
+      addMessage(request.spaceId, request.conversationId, {
+        role: 'assistant',
+        content: `done: ${request.message}`
+      })
+      return { success: true }
+    })
+  })
+
+  it('runs every step and persists the run record', async () => {
+    const space = createSpace({ name: 'Runner Steps', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'two-steps',
+      steps: [
+        { id: 'step-1', type: 'message', input: 'first' },
+        { id: 'step-2', type: 'message', input: 'second' }
+      ]
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('completed')
+    expect(run.steps.map(step => step.status)).toEqual(['completed', 'completed'])
+    expect(run.steps[1].output).toBe('done: second')
+    expect(mockSendWorkflowStepMessage).toHaveBeenCalledTimes(2)
+
+    const runFile = path.join(space.path, '.kite', 'workflows', 'runs', `${run.id}.json`)
+    expect(JSON.parse(fs.readFileSync(runFile, 'utf-8')).status).toBe('completed')
+    expect(getWorkflow(space.id, workflow.id)?.lastRunId).toBe(run.id)
+    expect(listWorkflowRuns(space.id, workflow.id).map(item => item.id)).toEqual([run.id])
+  })
+
+  it('moves to a new conversation after a summarized step', async () => {
+    const space = createSpace({ name: 'Runner Summary', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'summarized',
+      steps: [
+        { id: 'step-1', type: 'message', input: 'first', summarizeAfter: true },
+        { id: 'step-2', type: 'message', input: 'second' }
+      ]
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('completed')
+    expect(run.steps[1].conversationId).not.toBe(run.steps[0].conversationId)
+    const handoff = getConversation(space.id, run.steps[1].conversationId!)
+    expect(handoff?.messages[0].content).toContain('Context summary from previous steps')
+  })
+
+  it('marks failed steps and can resume them', async () => {
+    const space = createSpace({ name: 'Runner Resume', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'flaky',
+      steps: [
+        { id: 'step-1', type: 'message', input: 'first' },
+        { id: 'step-2', type: 'message', input: 'second' }
+      ]
+    })
+    mockSendWorkflowStepMessage.mockImplementationOnce(async (_window: unknown, request: {
+      spaceId: string
+      conversationId: string
+    }) => {
+      addMessage(request.spaceId, request.conversationId, { role: 'assistant', content: 'ok' })
+      return { success: true }
+    })
+    mockSendWorkflowStepMessage.mockResolvedValueOnce({ success: false, error: 'boom' })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const failed = await waitForRun(space.id, started.id)
+    expect(failed.status).toBe('error')
+    expect(failed.currentStepIndex).toBe(1)
+    expect(failed.steps[1]).toMatchObject({ status: 'error', error: 'boom' })
+
+    resumeWorkflowRun(space.id, failed.id)
+    const resumed = await waitForRun(space.id, failed.id)
+    expect(resumed.status).toBe('completed')
+    expect(resumed.steps.map(step => step.status)).toEqual(['completed', 'completed'])
+  })
+
+  it('templates outputs, repeats looping steps and follows branches', async () => {
+    const space = createSpace({ name: 'Runner Graph', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'graph',
+      steps: [
+        { id: 'step-1', key: 'review', type: 'message', input: 'review', saveAs: 'notes' },
+        {
+          id: 'step-2',
+          type: 'message',
+          input: 'fix {{vars.notes}}',
+          loop: { until: { type: 'contains', value: 'attempt 2' }, maxIterations: 3 },
+          branch: { condition: { type: 'contains', value: 'fix' }, onTrue: 'final' }
+        },
+        { id: 'step-3', type: 'message', input: 'never' },
+        { id: 'step-4', key: 'final', type: 'message', input: 'report {{steps.review.output}}' }
+      ]
+    })
+    let attempts = 0
+    mockSendWorkflowStepMessage.mockImplementation(async (_window: unknown, request: {
+      spaceId: string
+      conversationId: string
+      message: string
+    }) => {
+      const content = request.message.startsWith('fix') ? `${request.message} attempt ${++attempts}` : `done: ${request.message}`
+      addMessage(request.spaceId, request.conversationId, { role: 'assistant', content })
+      return { success: true }
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('completed')
+    expect(run.steps.map(step => step.status)).toEqual(['completed', 'completed', 'skipped', 'completed'])
+    expect(run.steps[1]).toMatchObject({ iterations: 2, output: 'fix done: review attempt 2' })
+    expect(run.variables).toEqual({ notes: 'done: review' })
+    const messages = mockSendWorkflowStepMessage.mock.calls.map(call => (call[1] as { message: string }).message)
+    expect(messages).toEqual(['review', 'fix done: review', 'fix done: review', 'report done: review'])
+  })
+
+  it('fails a looping step that never satisfies its condition', async () => {
+    const space = createSpace({ name: 'Runner Loop Cap', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'endless',
+      steps: [
+        {
+          id: 'step-1',
+          type: 'message',
+          input: 'try',
+          loop: { until: { type: 'regex', value: '^never$' }, maxIterations: 2 }
+        }
+      ]
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('error')
+    expect(run.steps[0]).toMatchObject({ status: 'error', iterations: 2 })
+    expect(run.error).toContain('Loop condition not met after 2 iterations')
+  })
+
+  it('rejects workflows with broken step references', () => {
+    const space = createSpace({ name: 'Runner Invalid', icon: 'folder' })
+    expect(() => createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'broken',
+      steps: [{ id: 'step-1', type: 'message', input: 'use {{steps.later.output}}' }]
+    })).toThrow('Invalid workflow: Step 1: Referenced step "later" does not exist')
+  })
+
+  it('fans parallel branches out into separate conversations and merges their output', async () => {
+    const space = createSpace({ name: 'Runner Parallel', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'reviews',
+      steps: [
+        {
+          id: 'step-1',
+          key: 'reviews',
+          type: 'parallel',
+          parallel: {
+            branches: [
+              { id: 'b1', type: 'message', input: 'security' },
+              { id: 'b2', type: 'message', input: 'performance' },
+              { id: 'b3', type: 'message', input: 'style' }
+            ],
+            maxConcurrency: 2
+          }
+        },
+        { id: 'step-2', type: 'message', input: 'merge them' }
+      ]
+    })
+    let inFlight = 0
+    let maxInFlight = 0
+    mockSendWorkflowStepMessage.mockImplementation(async (_window: unknown, request: {
+      spaceId: string
+      conversationId: string
+      message: string
+    }) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      addMessage(request.spaceId, request.conversationId, { role: 'assistant', content: `done: ${request.message.split('\n')[0]}` })
+      return { success: true }
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('completed')
+    expect(maxInFlight).toBe(2)
+    const branches = run.steps[0].branches!
+    expect(branches.map(branch => branch.status)).toEqual(['completed', 'completed', 'completed'])
+    expect(new Set(branches.map(branch => branch.conversationId)).size).toBe(3)
+    expect(branches.map(branch => branch.conversationId)).not.toContain(run.conversationId)
+    expect(run.steps[0].output).toContain('## Branch 2\n\ndone: performance')
+
+    const lastMessage = (mockSendWorkflowStepMessage.mock.calls.at(-1)![1] as { message: string }).message
+    expect(lastMessage).toContain('merge them\n\nResults from the previous parallel step:')
+    expect(lastMessage).toContain('done: style')
+  })
+
+  it('sends each parallel branch on the slot it waited for', async () => {
+    const claudeCode = getConfig().claudeCode
+    saveConfig({ claudeCode: { ...claudeCode, spaceQueueLimit: 1 } })
+    try {
+      const space = createSpace({ name: 'Runner Throttle', icon: 'folder' })
+      const workflow = createWorkflow(space.id, {
+        spaceId: space.id,
+        name: 'throttled',
+        steps: [{
+          id: 'step-1',
+          type: 'parallel',
+          parallel: {
+            branches: [
+              { id: 'b1', type: 'message', input: 'security' },
+              { id: 'b2', type: 'message', input: 'performance' }
+            ],
+            maxConcurrency: 2
+          }
+        }]
+      })
+      // Takes a slot the way message-flow's sendMessage does
+      mockSendWorkflowStepMessage.mockImplementation(async (_window: unknown, request: {
+        spaceId: string
+        conversationId: string
+        message: string
+      }, options: { dispatchSlot?: () => void } = {}) => {
+        const release = options.dispatchSlot ?? acquireSendDispatchSlot(request.spaceId)
+        try {
+          await new Promise(resolve => setTimeout(resolve, 5))
+          addMessage(request.spaceId, request.conversationId, { role: 'assistant', content: `done: ${request.message}` })
+          return { success: true }
+        } finally {
+          release()
+        }
+      })
+
+      const started = startWorkflowRun(space.id, workflow.id)
+      const run = await waitForRun(space.id, started.id, 400)
+
+      expect(run.status).toBe('completed')
+      expect(run.steps[0].branches!.map(branch => branch.status)).toEqual(['completed', 'completed'])
+      expect(getDispatchQueueStats().inFlightBySpace[space.id]).toBeUndefined()
+    } finally {
+      saveConfig({ claudeCode })
+    }
+  })
+
+  it('stops remaining parallel branches once enough have completed', async () => {
+    const space = createSpace({ name: 'Runner First N', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'race',
+      steps: [
+        {
+          id: 'step-1',
+          type: 'parallel',
+          parallel: {
+            branches: [
+              { id: 'fast', type: 'message', input: 'fast' },
+              { id: 'slow', type: 'message', input: 'slow' }
+            ],
+            waitFor: 1
+          }
+        }
+      ]
+    })
+    const pendingSlow: Array<() => void> = []
+    mockStopGeneration.mockImplementation(async () => {
+      pendingSlow.splice(0).forEach(resolve => resolve())
+    })
+    mockSendWorkflowStepMessage.mockImplementation(async (_window: unknown, request: {
+      spaceId: string
+      conversationId: string
+      message: string
+    }) => {
+      if (request.message === 'slow') {
+        await new Promise<void>(resolve => pendingSlow.push(resolve))
+      }
+      addMessage(request.spaceId, request.conversationId, { role: 'assistant', content: request.message })
+      return { success: true }
+    })
+
+    const started = startWorkflowRun(space.id, workflow.id)
+    const run = await waitForRun(space.id, started.id)
+
+    expect(run.status).toBe('completed')
+    expect(run.steps[0].branches!.map(branch => branch.status)).toEqual(['completed', 'cancelled'])
+    expect(mockStopGeneration).toHaveBeenCalledTimes(1)
+    expect(run.steps[0].output).toBe('## Branch 1\n\nfast')
+  })
+
+  it('marks runs left running by a previous process as interrupted', () => {
+    const space = createSpace({ name: 'Runner Recover', icon: 'folder' })
+    const runsDir = path.join(space.path, '.kite', 'workflows', 'runs')
+    fs.mkdirSync(runsDir, { recursive: true })
+    fs.writeFileSync(path.join(runsDir, 'stale.json'), JSON.stringify({
+      id: 'stale',
+      workflowId: 'wf-1',
+      workflowName: 'stale',
+      spaceId: space.id,
+      status: 'running',
+      phase: 'step',
+      currentStepIndex: 0,
+      conversationId: 'conv-1',
+      steps: [{ id: 'step-1', status: 'running' }],
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }))
+
+    expect(recoverInterruptedWorkflowRuns()).toBe(1)
+    const run = getWorkflowRun(space.id, 'stale')
+    expect(run?.status).toBe('interrupted')
+    expect(run?.steps[0].status).toBe('pending')
+  })
+  it('only reads run records inside the runs folder', () => {
+    const space = createSpace({ name: 'Runner Run Id', icon: 'folder' })
+    const workflowsDir = path.join(space.path, '.kite', 'workflows')
+    fs.mkdirSync(workflowsDir, { recursive: true })
+    fs.writeFileSync(path.join(workflowsDir, 'outside.json'), JSON.stringify({
+      id: 'outside',
+      workflowId: 'wf-1',
+      workflowName: 'outside',
+      spaceId: space.id,
+      status: 'failed',
+      currentStepIndex: 0,
+      conversationId: 'conv-1',
+      steps: [{ id: 'step-1', status: 'failed' }],
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }))
+
+    expect(getWorkflowRun(space.id, '../outside')).toBeNull()
+    expect(getWorkflowRun(space.id, '..\\outside')).toBeNull()
+    expect(() => resumeWorkflowRun(space.id, '../outside')).toThrow('Workflow run not found')
+  })
+})
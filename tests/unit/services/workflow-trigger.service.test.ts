@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+const {
+  mockStartWorkflowRun,
+  mockSetTrayWorkflowStatus,
+  watchCallbacks,
+  runListeners
+} = vi.hoisted(() => ({
+  mockStartWorkflowRun: vi.fn(),
+  mockSetTrayWorkflowStatus: vi.fn(),
+  watchCallbacks: new Map<string, (paths: string[]) => void>(),
+  runListeners: [] as Array<(run: { spaceId: string; workflowId: string; trigger?: unknown }) => void>
+}))
+
+vi.mock('../../../src/main/services/workflow-runner.service', () => ({
+  startWorkflowRun: (...args: unknown[]) => mockStartWorkflowRun(...args),
+  listActiveWorkflowRuns: () => [],
+  onWorkflowRunUpdate: (listener: (run: { spaceId: string; workflowId: string }) => void) => {
+    runListeners.push(listener)
+    return () => runListeners.splice(runListeners.indexOf(listener), 1)
+  }
+}))
+
+vi.mock('../../../src/main/services/artifact.service', () => ({
+  watchArtifacts: (spaceId: string, callback: (paths: string[]) => void) => {
+    watchCallbacks.set(spaceId, callback)
+    return () => watchCallbacks.delete(spaceId)
+  }
+}))
+
+vi.mock('../../../src/main/services/tray.service', () => ({
+  setTrayWorkflowStatus: (...args: unknown[]) => mockSetTrayWorkflowStatus(...args)
+}))
+
+import { initializeApp } from '../../../src/main/services/config.service'
+import { _testInitConfigSourceModeLock } from '../../../src/main/services/config-source-mode.service'
+import { createSpace } from '../../../src/main/services/space.service'
+import { createWorkflow, updateWorkflow } from '../../../src/main/services/workflow.service'
+import {
+  checkWorkflowSchedules,
+  cleanupWorkflowTriggers,
+  dismissMissedWorkflowTrigger,
+  initWorkflowTriggers,
+  listMissedWorkflowTriggers,
+  listUpcomingWorkflowTriggers,
+  runMissedWorkflowTrigger
+} from '../../../src/main/services/workflow-trigger.service'
+import { getNextCronOccurrence } from '../../../src/shared/utils/workflow-schedule'
+
+function startedTriggers() {
+  return mockStartWorkflowRun.mock.calls.map(([, workflowId, options]) => ({
+    workflowId,
+    ...(options as { trigger: Record<string, unknown> }).trigger
+  }))
+}
+
+describe('workflow trigger service', () => {
+  beforeEach(async () => {
+    await initializeApp()
+    _testInitConfigSourceModeLock('kite')
+    cleanupWorkflowTriggers()
+    mockStartWorkflowRun.mockReset()
+    mockStartWorkflowRun.mockImplementation((spaceId: string, workflowId: string) => ({ id: `run-${workflowId}`, spaceId, workflowId }))
+    mockSetTrayWorkflowStatus.mockReset()
+    watchCallbacks.clear()
+  })
+
+  afterEach(() => {
+    cleanupWorkflowTriggers()
+    vi.useRealTimers()
+  })
+
+  it('fires due schedules and lists the ones missed while closed', () => {
+    const space = createSpace({ name: 'Trigger Schedule', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'hourly',
+      steps: [{ id: 'step-1', type: 'message', input: 'report' }],
+      triggers: [{ id: 'hourly', type: 'schedule', cron: '0 * * * *' }]
+    })
+
+    initWorkflowTriggers()
+    expect(mockStartWorkflowRun).not.toHaveBeenCalled()
+
+    const first = getNextCronOccurrence('0 * * * *', new Date())!
+    const second = getNextCronOccurrence('0 * * * *', first)!
+    checkWorkflowSchedules(new Date(second.getTime() + 60 * 1000))
+
+    expect(startedTriggers()).toEqual([
+      { workflowId: workflow.id, type: 'schedule', triggerId: 'hourly', detail: second.toISOString() }
+    ])
+    const missed = listMissedWorkflowTriggers(space.id)
+    expect(missed).toMatchObject([{ workflowId: workflow.id, triggerId: 'hourly', scheduledAt: first.toISOString() }])
+
+    const statePath = path.join(space.path, '.kite', 'workflows', 'trigger-state.json')
+    expect(JSON.parse(fs.readFileSync(statePath, 'utf-8')).missed).toHaveLength(1)
+
+    expect(listUpcomingWorkflowTriggers(new Date(second.getTime() + 60 * 1000))[0]).toMatchObject({
+      workflowId: workflow.id,
+      scheduledAt: getNextCronOccurrence('0 * * * *', second)!.toISOString()
+    })
+    expect(mockSetTrayWorkflowStatus).toHaveBeenCalled()
+  })
+
+  it('fires the due schedule and keeps the newest missed ones after a long gap', () => {
+    const space = createSpace({ name: 'Trigger Long Gap', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'hourly',
+      steps: [{ id: 'step-1', type: 'message', input: 'report' }],
+      triggers: [{ id: 'hourly', type: 'schedule', cron: '0 * * * *' }]
+    })
+    initWorkflowTriggers()
+
+    // Closed for three days: about 72 hourly occurrences, more than the 50 kept
+    const due = getNextCronOccurrence('0 * * * *', new Date(Date.now() + 3 * 24 * 60 * 60 * 1000))!
+    checkWorkflowSchedules(new Date(due.getTime() + 60 * 1000))
+
+    expect(startedTriggers()).toEqual([
+      { workflowId: workflow.id, type: 'schedule', triggerId: 'hourly', detail: due.toISOString() }
+    ])
+    const missed = listMissedWorkflowTriggers(space.id)
+    expect(missed).toHaveLength(50)
+    expect(missed[0].scheduledAt).toBe(new Date(due.getTime() - 60 * 60 * 1000).toISOString())
+    expect(missed[49].scheduledAt).toBe(new Date(due.getTime() - 50 * 60 * 60 * 1000).toISOString())
+  })
+
+  it('runs or dismisses missed schedules on request', () => {
+    const space = createSpace({ name: 'Trigger Missed', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'daily',
+      steps: [{ id: 'step-1', type: 'message', input: 'report' }],
+      triggers: [{ id: 'daily', type: 'schedule', cron: '0 9 * * *' }]
+    })
+    initWorkflowTriggers()
+    const later = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000)
+    checkWorkflowSchedules(later)
+
+    const missed = listMissedWorkflowTriggers(space.id)
+    expect(missed.length).toBeGreaterThanOrEqual(2)
+    expect(mockStartWorkflowRun).not.toHaveBeenCalled()
+
+    runMissedWorkflowTrigger(space.id, missed[0].id)
+    expect(mockStartWorkflowRun).toHaveBeenCalledWith(space.id, workflow.id, {
+      trigger: { type: 'schedule', triggerId: 'daily', detail: missed[0].scheduledAt }
+    })
+    expect(dismissMissedWorkflowTrigger(space.id, missed[1].id)).toBe(true)
+    expect(listMissedWorkflowTriggers(space.id).map(item => item.id)).toEqual(missed.slice(2).map(item => item.id))
+  })
+
+  it('fires app start triggers once on init', () => {
+    const space = createSpace({ name: 'Trigger App Start', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'on-start',
+      steps: [{ id: 'step-1', type: 'message', input: 'hello' }],
+      triggers: [{ id: 'start', type: 'app-start' }]
+    })
+    createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'disabled-start',
+      steps: [{ id: 'step-1', type: 'message', input: 'hello' }],
+      triggers: [{ id: 'start-off', type: 'app-start', enabled: false }]
+    })
+
+    initWorkflowTriggers()
+
+    expect(startedTriggers()).toEqual([{ workflowId: workflow.id, type: 'app-start', triggerId: 'start' }])
+  })
+
+  it('debounces matching file changes and ignores changes made by the workflow itself', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] })
+    const space = createSpace({ name: 'Trigger Files', icon: 'folder' })
+    const workflow = createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'on-change',
+      steps: [{ id: 'step-1', type: 'message', input: 'lint' }]
+    })
+    initWorkflowTriggers()
+    expect(watchCallbacks.has(space.id)).toBe(false)
+
+    // Editing triggers starts watching without an app restart
+    updateWorkflow(space.id, workflow.id, {
+      triggers: [{ id: 'ts', type: 'file-change', glob: 'src/**/*.ts' }]
+    })
+    const onChange = watchCallbacks.get(space.id)!
+    expect(onChange).toBeDefined()
+
+    onChange(['README.md'])
+    onChange(['src/a.ts'])
+    vi.advanceTimersByTime(1000)
+    onChange(['src/lib/b.ts'])
+    vi.advanceTimersByTime(2000)
+
+    expect(startedTriggers()).toEqual([
+      { workflowId: workflow.id, type: 'file-change', triggerId: 'ts', detail: 'src/a.ts, src/lib/b.ts' }
+    ])
+
+    runListeners.forEach(listener => listener({ spaceId: space.id, workflowId: workflow.id }))
+    onChange(['src/a.ts'])
+    vi.advanceTimersByTime(3000)
+    expect(mockStartWorkflowRun).toHaveBeenCalledTimes(1)
+
+    updateWorkflow(space.id, workflow.id, { triggers: [] })
+    expect(watchCallbacks.has(space.id)).toBe(false)
+  })
+
+  it('rejects invalid triggers when saving a workflow', () => {
+    const space = createSpace({ name: 'Trigger Invalid', icon: 'folder' })
+    expect(() => createWorkflow(space.id, {
+      spaceId: space.id,
+      name: 'bad',
+      steps: [{ id: 'step-1', type: 'message', input: 'x' }],
+      triggers: [{ id: 't1', type: 'schedule', cron: 'every day' }]
+    })).toThrow('Invalid workflow: Trigger 1: Cron expression must have 5 fields')
+  })
+})
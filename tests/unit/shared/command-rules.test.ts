@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  isCommandPrefix,
+  matchesCommandRule,
+  normalizeCommandRuleRequest,
+  suggestCommandPrefix,
+  type CommandRule
+} from '../../../src/shared/types/command-rules'
+
+function rule(overrides: Partial<CommandRule>): CommandRule {
+  return {
+    id: 'rule-1',
+    match: 'prefix',
+    pattern: 'npm test',
+    action: 'allow',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('command rules', () => {
+  it('suggests the program and its first non-flag argument', () => {
+    expect(suggestCommandPrefix('  npm   test -- --watch')).toBe('npm test')
+    expect(suggestCommandPrefix('ls -la src')).toBe('ls')
+    expect(suggestCommandPrefix('pwd')).toBe('pwd')
+  })
+
+  it('accepts only whole leading words as a command prefix', () => {
+    expect(isCommandPrefix('git', 'git status')).toBe(true)
+    expect(isCommandPrefix(' npm  test ', 'npm test -- --watch')).toBe(true)
+    expect(isCommandPrefix('npm test', 'npm test')).toBe(true)
+    expect(isCommandPrefix('curl', 'ls')).toBe(false)
+    expect(isCommandPrefix('gi', 'git status')).toBe(false)
+    expect(isCommandPrefix('', 'ls')).toBe(false)
+  })
+
+  it('matches exact rules after whitespace normalization', () => {
+    const exact = rule({ match: 'exact', pattern: 'git status' })
+    expect(matchesCommandRule(exact, '  git   status ')).toBe(true)
+    expect(matchesCommandRule(exact, 'git status -s')).toBe(false)
+  })
+
+  it('never lets an allow prefix cover chained or redirected commands', () => {
+    const allow = rule({})
+    expect(matchesCommandRule(allow, 'npm test -- --coverage')).toBe(true)
+    expect(matchesCommandRule(allow, 'npm testing')).toBe(false)
+    expect(matchesCommandRule(allow, 'npm test && rm -rf /')).toBe(false)
+    expect(matchesCommandRule(allow, 'npm test > out.txt')).toBe(false)
+  })
+
+  it('lets a deny prefix match any segment of a chained command', () => {
+    const deny = rule({ action: 'deny', pattern: 'rm -rf' })
+    expect(matchesCommandRule(deny, 'cd build && rm -rf dist')).toBe(true)
+    expect(matchesCommandRule(deny, 'echo $(rm -rf tmp)')).toBe(true)
+    expect(matchesCommandRule(deny, 'rm dist/a.js')).toBe(false)
+  })
+
+  it('validates remember requests from the renderer', () => {
+    expect(normalizeCommandRuleRequest({ match: 'prefix', scope: 'space', pattern: ' npm test ' }))
+      .toEqual({ match: 'prefix', scope: 'space', pattern: 'npm test' })
+    expect(normalizeCommandRuleRequest({ match: 'regex', scope: 'space' })).toBeUndefined()
+    expect(normalizeCommandRuleRequest('exact')).toBeUndefined()
+  })
+})
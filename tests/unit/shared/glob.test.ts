@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+
+import { matchesGlob } from '../../../src/shared/utils/glob'
+
+describe('glob', () => {
+  it('matches globs against space-relative paths', () => {
+    expect(matchesGlob('src/**/*.ts', 'src/main/index.ts')).toBe(true)
+    expect(matchesGlob('src/**/*.ts', 'src/index.ts')).toBe(true)
+    expect(matchesGlob('src/*.ts', 'src/main/index.ts')).toBe(false)
+    expect(matchesGlob('*.{md,txt}', 'docs/notes.txt')).toBe(true)
+    expect(matchesGlob('data/report-?.csv', 'data\\report-1.csv')).toBe(true)
+    expect(matchesGlob('data/*.csv', 'data/report.csv.bak')).toBe(false)
+  })
+
+  it('matches absolute globs against absolute paths', () => {
+    expect(matchesGlob('/etc/**', '/etc/ssh/sshd_config')).toBe(true)
+    expect(matchesGlob('/etc/*', '/etc/ssh/sshd_config')).toBe(false)
+  })
+})
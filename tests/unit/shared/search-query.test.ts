@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+
+import { hasSearchCriteria, parseSearchQuery, tokenizeSearchText } from '../../../src/shared/utils/search-query'
+
+describe('search-query', () => {
+  it('tokenizes words and splits CJK runs into character pairs', () => {
+    expect(tokenizeSearchText('Deploy the build_script, v2!')).toEqual(['deploy', 'the', 'build_script', 'v2'])
+    expect(tokenizeSearchText('搜索功能test')).toEqual(['搜索', '索功', '功能', 'test'])
+  })
+
+  it('parses filters, phrases and regexes', () => {
+    const parsed = parseSearchQuery('deploy role:user after:2026-01-31 before:2026-03-01 space:"Side project" tool:Bash "exact Phrase" /time(out)?\\s+\\d+/i')
+
+    expect(parsed.terms).toEqual(['deploy'])
+    expect(parsed.phrases).toEqual(['exact phrase'])
+    expect(parsed.regex).toEqual({ source: 'time(out)?\\s+\\d+', flags: 'i' })
+    expect(parsed.roles).toEqual(['user'])
+    expect(parsed.spaces).toEqual(['side project'])
+    expect(parsed.tools).toEqual(['bash'])
+    expect(parsed.after).toBe(new Date(2026, 0, 31).getTime())
+    expect(parsed.before).toBe(new Date(2026, 2, 1).getTime())
+    expect(parsed.errors).toEqual([])
+  })
+
+  it('reports invalid filters and treats unknown keys as words', () => {
+    const parsed = parseSearchQuery('role:robot after:2026-02-30 /([/ https://example.com')
+
+    expect(parsed.errors).toHaveLength(3)
+    expect(parsed.terms).toEqual(['https://example.com'])
+  })
+
+  it('accepts an unterminated phrase while typing', () => {
+    expect(parseSearchQuery('"release no').phrases).toEqual(['release no'])
+    expect(hasSearchCriteria(parseSearchQuery('   '))).toBe(false)
+    expect(hasSearchCriteria(parseSearchQuery('tool:Read'))).toBe(true)
+  })
+})
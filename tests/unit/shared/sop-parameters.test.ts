@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  formatSopParameterArgs,
+  normalizeSopParameters,
+  resolveSopParameterValues,
+  splitSopParameterArgs,
+  toSopParameterName,
+  validateSopParameterValue
+} from '../../../src/shared/utils/sop-parameters'
+
+describe('sop parameters', () => {
+  it('declares referenced placeholders and drops invalid declarations', () => {
+    const parameters = normalizeSopParameters(
+      [
+        { name: 'amount', type: 'number', label: 'Amount', default: 42 },
+        { name: 'amount', type: 'string' },
+        { name: 'bad name', type: 'string' },
+        { name: 'pin', type: 'bogus', secret: true, default: '1234' }
+      ],
+      [{ value: '{{amount}}' }, { value: '{{ secret_value }}' }, { value: 'plain' }]
+    )
+
+    expect(parameters).toEqual([
+      { name: 'amount', type: 'number', label: 'Amount', default: '42' },
+      { name: 'pin', type: 'string', secret: true },
+      { name: 'secret_value', type: 'string', secret: true }
+    ])
+  })
+
+  it('derives parameter names from labels', () => {
+    expect(toSopParameterName('Expense amount (USD)')).toBe('expense_amount_usd')
+    expect(toSopParameterName('2FA code')).toBe('p_2fa_code')
+    expect(toSopParameterName('  ')).toBe('')
+  })
+
+  it('validates values by type', () => {
+    expect(validateSopParameterValue({ name: 'n', type: 'number' }, '12.5')).toBeNull()
+    expect(validateSopParameterValue({ name: 'n', type: 'number' }, 'twelve')).toBe('Enter a number')
+    expect(validateSopParameterValue({ name: 'd', type: 'date' }, '2026-02-30x')).toBe('Enter a date as YYYY-MM-DD')
+    expect(validateSopParameterValue({ name: 'u', type: 'url' }, 'https://example.com')).toBeNull()
+  })
+
+  it('fills defaults and reports missing values', () => {
+    const result = resolveSopParameterValues(
+      [
+        { name: 'amount', type: 'number', default: '10' },
+        { name: 'payee', type: 'string' },
+        { name: 'memo', type: 'string' }
+      ],
+      { payee: 'ACME', memo: ' ' }
+    )
+    expect(result).toEqual({ values: { amount: '10', payee: 'ACME' }, missing: ['memo'] })
+  })
+
+  it('round-trips invocation args', () => {
+    const args = formatSopParameterArgs({ payee: 'ACME "East"', amount: '42', memo: '' })
+    expect(args).toBe('payee="ACME \\"East\\"" amount="42"')
+    expect(splitSopParameterArgs(`${args} then email me`)).toEqual({
+      values: { payee: 'ACME "East"', amount: '42' },
+      rest: 'then email me'
+    })
+    expect(splitSopParameterArgs('amount=7 note').values).toEqual({ amount: '7' })
+  })
+})
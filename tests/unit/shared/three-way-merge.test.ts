@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+
+import { mergeThreeWay } from '../../../src/shared/utils/three-way-merge'
+
+describe('three-way merge', () => {
+  it('combines edits to separate regions', () => {
+    const base = 'a\nb\nc\nd\ne\n'
+    const ours = 'A\nb\nc\nd\ne\n'
+    const theirs = 'a\nb\nc\nd\nE\nf\n'
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({ content: 'A\nb\nc\nd\nE\nf\n', conflict: false })
+  })
+
+  it('takes the only changed side or identical edits', () => {
+    expect(mergeThreeWay('x\n', 'x\n', 'y\n')).toEqual({ content: 'y\n', conflict: false })
+    expect(mergeThreeWay('a\nb\nc\n', 'a\nB\nc\n', 'a\nB\nc\n').content).toBe('a\nB\nc\n')
+  })
+
+  it('reports overlapping or adjacent edits as conflicts', () => {
+    expect(mergeThreeWay('a\nb\nc\n', 'a\nX\nc\n', 'a\nY\nc\n').conflict).toBe(true)
+    expect(mergeThreeWay('a\nb\nc\n', 'a\nX\nc\n', 'a\nb\nY\n').conflict).toBe(true)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  evaluateTextCondition,
+  renderWorkflowTemplate,
+  validateWorkflowGraph
+} from '../../../src/shared/utils/workflow-graph'
+
+describe('workflow graph', () => {
+  it('renders step outputs and variables into templates', () => {
+    const rendered = renderWorkflowTemplate(
+      'Fix {{ steps.review.output }} for {{vars.target}} {{unknown}}',
+      { steps: { review: 'lint errors' }, vars: { target: 'api' } }
+    )
+    expect(rendered).toBe('Fix lint errors for api {{unknown}}')
+  })
+
+  it('evaluates contains and regex conditions', () => {
+    expect(evaluateTextCondition({ type: 'contains', value: 'lgtm' }, 'Review: LGTM')).toBe(true)
+    expect(evaluateTextCondition({ type: 'regex', value: '^FAIL', negate: true }, 'PASS\nok')).toBe(true)
+    expect(() => evaluateTextCondition({ type: 'ai', value: 'Done?' }, 'x')).toThrow()
+  })
+
+  it('accepts references to earlier steps, saved variables and forward branches', () => {
+    const issues = validateWorkflowGraph([
+      { id: 's1', key: 'review', saveAs: 'notes' },
+      {
+        id: 's2',
+        input: 'Apply {{steps.review.output}} {{vars.notes}} {{steps.fix.output}}',
+        key: 'fix',
+        loop: { until: { type: 'contains', value: 'done' }, maxIterations: 3 },
+        branch: { condition: { type: 'ai', value: 'Ship it?' }, onTrue: '$end', onFalse: 's3' }
+      },
+      { id: 's3' }
+    ])
+    expect(issues).toEqual([])
+  })
+
+  it('reports broken references, backward branches and invalid loops', () => {
+    const issues = validateWorkflowGraph([
+      {
+        id: 's1',
+        key: 'first',
+        input: '{{steps.second.output}} {{vars.missing}} {{steps.nope.output}} {{foo}}',
+        loop: { until: { type: 'regex', value: '(' }, maxIterations: 0 }
+      },
+      { id: 's2', key: 'second', branch: { condition: { type: 'contains', value: 'x' }, onTrue: 'first', onFalse: 'ghost' } },
+      { id: 's3', key: 'second' }
+    ])
+    const messages = issues.map(issue => `${issue.stepIndex}:${issue.message}`)
+    expect(messages).toEqual(expect.arrayContaining([
+      '0:Step "second" runs after this step and has no output yet',
+      '0:Variable "missing" is not saved by an earlier step',
+      '0:Referenced step "nope" does not exist',
+      '0:Unknown template reference {{foo}}',
+      '0:Loop condition is not a valid regular expression',
+      '0:Loop max iterations must be between 1 and 20',
+      '1:Branch target "first" must be a later step',
+      '1:Branch target "ghost" does not exist',
+      '2:Step key "second" is used by step 2'
+    ]))
+  })
+
+  it('validates parallel groups', () => {
+    const issues = validateWorkflowGraph([
+      {
+        id: 's1',
+        type: 'parallel',
+        parallel: {
+          branches: [{ id: 'b1', type: 'skill' }, { id: 'b2', type: 'message', input: '{{steps.s2.output}}' }],
+          waitFor: 3,
+          maxConcurrency: 0
+        },
+        loop: { until: { type: 'contains', value: 'x' }, maxIterations: 2 }
+      },
+      { id: 's2', type: 'parallel', parallel: { branches: [{ id: 'b3', type: 'agent', name: 'one' }] } }
+    ])
+    expect(issues.map(issue => `${issue.stepIndex}:${issue.message}`)).toEqual([
+      '0:Branch 1 name is required',
+      '0:Parallel wait count must be between 1 and 2',
+      '0:Parallel max concurrency must be at least 1',
+      '0:Step "s2" runs after this step and has no output yet',
+      '0:Parallel steps cannot loop',
+      '1:Parallel steps need at least 2 branches'
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getNextCronOccurrence,
+  listCronOccurrences,
+  listLatestCronOccurrences,
+  parseCronExpression,
+  validateWorkflowTriggers
+} from '../../../src/shared/utils/workflow-schedule'
+
+describe('workflow schedule', () => {
+  it('finds the next weekday occurrence in local time', () => {
+    // Friday 2026-01-02 10:00 -> next weekday 9:00 is Monday 2026-01-05
+    const next = getNextCronOccurrence('0 9 * * 1-5', new Date(2026, 0, 2, 10, 0))
+    expect(next).toEqual(new Date(2026, 0, 5, 9, 0))
+    expect(getNextCronOccurrence('*/15 * * * *', new Date(2026, 0, 1, 8, 14, 30))).toEqual(new Date(2026, 0, 1, 8, 15))
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday
+    const next = getNextCronOccurrence('0 0 13 * 5', new Date(2026, 1, 1))
+    expect(next).toEqual(new Date(2026, 1, 6))
+    expect(parseCronExpression('0 0 * * 7').weekdays.has(0)).toBe(true)
+  })
+
+  it('lists occurrences inside a window', () => {
+    const occurrences = listCronOccurrences('0 */6 * * *', new Date(2026, 0, 1, 0, 0), new Date(2026, 0, 1, 18, 0))
+    expect(occurrences.map(date => date.getHours())).toEqual([6, 12, 18])
+  })
+
+  it('lists the newest occurrences of a long window', () => {
+    const latest = listLatestCronOccurrences('*/5 * * * *', new Date(2026, 0, 1, 0, 0), new Date(2026, 0, 31, 12, 0), 3)
+    expect(latest).toEqual([new Date(2026, 0, 31, 11, 50), new Date(2026, 0, 31, 11, 55), new Date(2026, 0, 31, 12, 0)])
+
+    const sparse = listLatestCronOccurrences('0 9 1 * *', new Date(2026, 0, 15), new Date(2026, 3, 15), 5)
+    expect(sparse).toEqual([new Date(2026, 1, 1, 9, 0), new Date(2026, 2, 1, 9, 0), new Date(2026, 3, 1, 9, 0)])
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCronExpression('0 9 * *')).toThrow('5 fields')
+    expect(() => parseCronExpression('61 * * * *')).toThrow('Invalid minute "61"')
+    expect(() => parseCronExpression('0 9 * * mon')).toThrow('Invalid day of week "mon"')
+  })
+
+  it('validates triggers', () => {
+    const issues = validateWorkflowTriggers([
+      { id: 't1', type: 'schedule', cron: '0 25 * * *' },
+      { id: 't2', type: 'file-change', glob: '../outside/*.md' },
+      { id: 't3', type: 'file-change' },
+      { id: 't4', type: 'app-start' },
+      { id: 't5', type: 'app-start' },
+      { id: 't6', type: 'schedule', cron: '30 8 * * 1-5' }
+    ])
+    expect(issues.map(issue => `${issue.triggerIndex}:${issue.message}`)).toEqual([
+      '0:Invalid hour "25"',
+      '1:File pattern must be relative to the space',
+      '2:File pattern is required',
+      '4:Only one app start trigger is allowed'
+    ])
+  })
+})